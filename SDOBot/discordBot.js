@@ -27,7 +27,7 @@ const { supabase, upsertEventAttendance, getEventIdByDiscordId, getEventByDiscor
 // Import modular components
 const { initializeClient, ensureLoggedIn, findEventsChannel, getClient, destroyClient, setIsLoggedIn } = require('./lib/discordClient');
 const { createEventEmbed, createAdditionalImageEmbeds, createGoogleCalendarLink } = require('./lib/embedCreator');
-const { publishEventToDiscord, editEventMessage, deleteEventMessage, sendReminderMessage } = require('./lib/messageManager');
+const { publishEventToDiscord, editEventMessage, deleteEventMessage, sendReminderMessage, sendDirectMessage } = require('./lib/messageManager');
 const { createThreadFromMessage, getExistingThreadFromMessage, postMessageToThread, deleteThread, shouldUseThreadsForEvent, getThreadIdForEvent } = require('./lib/threadManager');
 const { getAvailableGuilds, getGuildRoles, getGuildMember, getGuildChannels, getEventAttendance } = require('./lib/guildHelpers');
 const { setupDiscordEventHandlers } = require('./lib/eventHandlers');
@@ -695,6 +695,10 @@ async function sendReminderMessageWrapped(guildId, channelId, message, eventId =
   return await sendReminderMessage(guildId, channelId, message, getClient);
 }
 
+async function sendDirectMessageWrapped(discordUserId, message) {
+  return await sendDirectMessage(discordUserId, message, getClient);
+}
+
 async function shouldUseThreadsForEventWrapped(participatingSquadrons, guildId, channelId) {
   return await shouldUseThreadsForEvent(participatingSquadrons, guildId, channelId, supabase);
 }
@@ -846,6 +850,7 @@ module.exports = {
   getAvailableGuilds,
   countdownManager,
   sendReminderMessage: sendReminderMessageWrapped,
+  sendDirectMessage: sendDirectMessageWrapped,
   getGuildRoles,
   getGuildMember,
   createThreadFromMessage,
@@ -235,17 +235,38 @@ async function sendReminderMessage(guildId, channelId, message, getClient) {
   }
 }
 
+/**
+ * Send a direct message to a Discord user
+ */
+async function sendDirectMessage(discordUserId, message, getClient) {
+  try {
+    const client = getClient();
+    const user = await client.users.fetch(discordUserId);
+    await user.send(message);
+
+    console.log(`[DM] Sent direct message to ${user.tag}`);
+    return { success: true };
+
+  } catch (error) {
+    // Users who block the bot or disable server DMs land here
+    console.error(`[DM] Error sending direct message to ${discordUserId}:`, error.message);
+    return { success: false, error: error.message };
+  }
+}
+
 module.exports = {
   createAttendanceButtons,
   publishEventToDiscord,
   editEventMessage,
   deleteEventMessage,
-  sendReminderMessage
+  sendReminderMessage,
+  sendDirectMessage
 };
 module.exports = {
   createAttendanceButtons,
   publishEventToDiscord,
   editEventMessage,
   deleteEventMessage,
-  sendReminderMessage
+  sendReminderMessage,
+  sendDirectMessage
 };
@@ -0,0 +1,88 @@
+/**
+ * QUALIFICATION CURRENCY RULES
+ * Lapse dates and trap counting for the qualification currency processor.
+ *
+ * The web app applies the same rules for display in
+ * src/utils/qualificationCurrencyService.ts (computeQualificationCurrency and
+ * countsAsTrap). Change both together: qualificationCurrencyRules.test.js
+ * runs the two side by side and fails when they disagree.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Matches the roster's existing "expires within 30 days" highlight
+const VALIDITY_WARNING_DAYS = 30;
+const DEFAULT_CURRENCY_WARNING_DAYS = 14;
+
+/**
+ * Whether an LSO grade renews trap currency. Waveoffs and bolters don't;
+ * grades from before outcomes were recorded count when a wire was logged.
+ * @param {{ outcome_type?: string | null, wire_number?: number | null }} grade
+ * @returns {boolean}
+ */
+function isTrapPass(grade) {
+  return grade.outcome_type ? grade.outcome_type === 'trap' : grade.wire_number != null;
+}
+
+/**
+ * When a pilot's qualification lapses: the earliest of its validity period,
+ * its currency rule (renewed by each qualifying activity) and, for
+ * qualifications that expire by neither, an expiry date entered by hand.
+ * @param {Object} record - pilot_qualifications row
+ * @param {Object} qualification - qualifications row
+ * @param {string[]} activityDates - Qualifying activity timestamps, newest first
+ * @returns {{ at: Date, warningDays: number, byRule: boolean } | null}
+ */
+function computeExpiry(record, qualification, activityDates) {
+  const startedAt = record.achieved_date || record.created_at;
+  const start = startedAt ? new Date(startedAt) : null;
+  const candidates = [];
+
+  if (qualification.is_expirable && qualification.validity_period && start) {
+    candidates.push({
+      at: new Date(start.getTime() + qualification.validity_period * DAY_MS),
+      warningDays: VALIDITY_WARNING_DAYS,
+      byRule: false
+    });
+  } else if (!qualification.currency_rule && record.expiry_date) {
+    candidates.push({
+      at: new Date(record.expiry_date),
+      warningDays: VALIDITY_WARNING_DAYS,
+      byRule: false
+    });
+  }
+
+  const rule = qualification.currency_rule;
+  if (rule && rule.days > 0) {
+    const count = Math.max(1, rule.count || 1);
+    const recent = (activityDates || []).filter(date => !start || new Date(date) >= start);
+    const anchor = recent[count - 1] ? new Date(recent[count - 1]) : start;
+    if (anchor) {
+      candidates.push({
+        at: new Date(anchor.getTime() + rule.days * DAY_MS),
+        warningDays: rule.warningDays ?? DEFAULT_CURRENCY_WARNING_DAYS,
+        byRule: true
+      });
+    }
+  }
+
+  if (candidates.length === 0) return null;
+  return candidates.reduce((a, b) => (b.at < a.at ? b : a));
+}
+
+/**
+ * @param {{ at: Date, warningDays: number }} expiry - From computeExpiry
+ * @param {number} now - Epoch milliseconds
+ * @returns {'current' | 'expiring' | 'lapsed'}
+ */
+function expiryStatus(expiry, now) {
+  const daysLeft = (expiry.at.getTime() - now) / DAY_MS;
+  if (daysLeft <= 0) return 'lapsed';
+  return daysLeft <= expiry.warningDays ? 'expiring' : 'current';
+}
+
+module.exports = {
+  DAY_MS,
+  isTrapPass,
+  computeExpiry,
+  expiryStatus
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/utils/supabaseClient', () => ({ sb: vi.fn() }));
+
+import { computeExpiry, expiryStatus, isTrapPass } from './qualificationCurrencyRules';
+import { computeQualificationCurrency, countsAsTrap } from '../../src/utils/qualificationCurrencyService';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+const qualification = overrides => ({
+  id: 'cq',
+  name: 'Carrier Qualified',
+  code: 'CQ',
+  requirements: null,
+  category: null,
+  is_expirable: false,
+  validity_period: null,
+  currency_rule: null,
+  active: true,
+  ...overrides
+});
+
+const record = overrides => ({
+  qualification_id: 'cq',
+  achieved_date: '2026-08-01T00:00:00Z',
+  created_at: '2026-08-01T00:00:00Z',
+  expiry_date: null,
+  ...overrides
+});
+
+// [description, pilot qualification, qualification, activity newest first, lapse date, status on NOW]
+const cases = [
+  ['runs out its validity period', record(), qualification({ is_expirable: true, validity_period: 90 }), [], '2026-10-30T00:00:00.000Z', 'expiring'],
+  ['lapses a rule from the achieved date without activity', record(), qualification({ currency_rule: { activity: 'trap', days: 30 } }), [], '2026-08-31T00:00:00.000Z', 'lapsed'],
+  ['renews a rule from the latest activity', record(), qualification({ currency_rule: { activity: 'trap', days: 30 } }), ['2026-10-10T20:00:00Z', '2026-09-01T20:00:00Z'], '2026-11-09T20:00:00.000Z', 'current'],
+  ['needs the rule count of activities', record(), qualification({ currency_rule: { activity: 'sortie', days: 60, count: 3 } }), ['2026-10-10T20:00:00Z', '2026-09-20T20:00:00Z'], '2026-09-30T00:00:00.000Z', 'lapsed'],
+  ['ignores activity from before the qualification', record(), qualification({ currency_rule: { activity: 'trap', days: 90 } }), ['2026-07-15T20:00:00Z'], '2026-10-30T00:00:00.000Z', 'expiring'],
+  ['takes the earlier of validity and currency', record(), qualification({ is_expirable: true, validity_period: 365, currency_rule: { activity: 'flight_lead', days: 45, warningDays: 7 } }), ['2026-10-01T20:00:00Z'], '2026-11-15T20:00:00.000Z', 'current'],
+  ['uses its own warning window', record(), qualification({ currency_rule: { activity: 'night_trap', days: 30, warningDays: 25 } }), ['2026-10-01T20:00:00Z'], '2026-10-31T20:00:00.000Z', 'expiring'],
+  ['keeps an expiry set by hand', record({ expiry_date: '2026-12-01T00:00:00Z' }), qualification(), [], '2026-12-01T00:00:00.000Z', 'current'],
+  ['falls back to created_at', record({ achieved_date: null }), qualification({ is_expirable: true, validity_period: 30 }), [], '2026-08-31T00:00:00.000Z', 'lapsed']
+];
+
+describe('computeExpiry', () => {
+  it.each(cases)('%s', (_, pilotQualification, qual, activity, lapsesAt, status) => {
+    const expiry = computeExpiry(pilotQualification, qual, activity);
+    expect(expiry.at.toISOString()).toBe(lapsesAt);
+    expect(expiryStatus(expiry, NOW.getTime())).toBe(status);
+  });
+
+  it('returns null when nothing makes the qualification expire', () => {
+    expect(computeExpiry(record(), qualification(), [])).toBeNull();
+    expect(computeExpiry(record({ achieved_date: null, created_at: null }), qualification({ currency_rule: { activity: 'trap', days: 30 } }), [])).toBeNull();
+  });
+
+  it('marks lapse dates set by a currency rule', () => {
+    const qual = qualification({ is_expirable: true, validity_period: 365, currency_rule: { activity: 'trap', days: 30 } });
+    expect(computeExpiry(record(), qual, []).byRule).toBe(true);
+    expect(computeExpiry(record(), qualification({ is_expirable: true, validity_period: 30 }), []).byRule).toBe(false);
+  });
+});
+
+describe('web app currency', () => {
+  it.each(cases)('agrees with the bot: %s', (_, pilotQualification, qual, activity, lapsesAt, status) => {
+    expect(computeQualificationCurrency(pilotQualification, qual, activity, NOW)).toMatchObject({ expiresAt: lapsesAt, status });
+  });
+});
+
+describe('isTrapPass', () => {
+  it.each([
+    [{ outcome_type: 'trap', wire_number: 3 }, true],
+    [{ outcome_type: 'waveoff', wire_number: null }, false],
+    [{ outcome_type: 'own_waveoff', wire_number: null }, false],
+    [{ outcome_type: 'foul_deck_waveoff', wire_number: null }, false],
+    [{ outcome_type: 'bolter', wire_number: 2 }, false],
+    [{ outcome_type: null, wire_number: 2 }, true],
+    [{ outcome_type: null, wire_number: null }, false]
+  ])('counts %o as a trap: %s', (grade, trap) => {
+    expect(isTrapPass(grade)).toBe(trap);
+    expect(countsAsTrap(grade)).toBe(trap);
+  });
+});
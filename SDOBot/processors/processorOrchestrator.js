@@ -15,6 +15,7 @@
  * - processConcludedEvents: Mark finished events for cleanup
  * - processMissionStatusUpdates: Update mission status based on timing
  * - processEventStatusUpdates: Update event status based on timing
+ * - processQualificationCurrency: Qualification expiry dates and lapse DMs (hourly)
  *
  * USAGE:
  * Called once from server startup: startProcessorOrchestrator()
@@ -24,6 +25,7 @@ const { processReminders } = require('./reminderProcessor');
 const { processScheduledPublications } = require('./scheduledPublicationProcessor');
 const { processConcludedEvents } = require('./concludedEventsProcessor');
 const { processMissionStatusUpdates, processEventStatusUpdates } = require('./missionStatusProcessor');
+const { processQualificationCurrency } = require('./qualificationCurrencyProcessor');
 
 let processorIntervalId = null;
 
@@ -55,6 +57,11 @@ function startProcessorOrchestrator() {
     console.error('Error in initial event status updates processing:', error);
   });
 
+  // Process qualification currency immediately
+  processQualificationCurrency().catch(error => {
+    console.error('Error in initial qualification currency processing:', error);
+  });
+
   // Then process every 1 minute
   processorIntervalId = setInterval(() => {
     processReminders().catch(error => {
@@ -72,6 +79,9 @@ function startProcessorOrchestrator() {
     processEventStatusUpdates().catch(error => {
       console.error('Error in scheduled event status updates processing:', error);
     });
+    processQualificationCurrency().catch(error => {
+      console.error('Error in scheduled qualification currency processing:', error);
+    });
   }, 60000); // 1 minute = 60000ms
 
   console.log('Processor orchestrator started (checking every 1 minute)');
@@ -0,0 +1,235 @@
+/**
+ * QUALIFICATION CURRENCY PROCESSOR
+ *
+ * PURPOSE: Keep qualification expiry dates current and warn pilots before they lapse
+ *
+ * RESPONSIBILITIES:
+ * - Work out each current qualification's lapse date from its validity period
+ *   and currency rule (e.g. CQ lapses after 30 days without a trap)
+ * - Write the result to pilot_qualifications.expiry_date, so renewals by
+ *   flying push the date back out
+ * - DM pilots through Discord once per lapse date when it falls inside the
+ *   qualification's warning window, a few at a time
+ *
+ * DEPENDENCIES:
+ * - Supabase client for database operations
+ * - Discord bot for direct messages
+ *
+ * USAGE:
+ * Called every 60 seconds by processor orchestrator, but only does work once an hour.
+ * The lapse rules live in lib/qualificationCurrencyRules.js, shared with the
+ * web app's qualificationCurrencyService.ts through its tests.
+ */
+
+const { supabase } = require('../supabaseClient');
+const { sendDirectMessage } = require('../discordBot');
+const { isConnectivityError, isCircuitOpen, recordFailure, resetFailures } = require('../lib/databaseHealth');
+const { DAY_MS, isTrapPass, computeExpiry, expiryStatus } = require('../lib/qualificationCurrencyRules');
+
+const RUN_INTERVAL_MS = 60 * 60 * 1000;
+// Discord rate-limits DMs, so reminders go out spaced apart; the rest wait for the next run
+const MAX_REMINDERS_PER_RUN = 20;
+const REMINDER_SPACING_MS = 1500;
+
+const ACTIVITY_HINTS = {
+  trap: 'get a trap graded',
+  night_trap: 'get a night trap graded',
+  flight_lead: 'lead a flight',
+  sortie: 'fly a sortie'
+};
+
+let lastRunAt = 0;
+
+// Trap, sortie and flight lead timestamps per pilot, newest first
+async function getCurrencyActivity(pilotIds, activities, since) {
+  const activity = {};
+  const log = (pilotId, kind, at) => {
+    activity[pilotId] = activity[pilotId] || {};
+    (activity[pilotId][kind] = activity[pilotId][kind] || []).push(at);
+  };
+  const sinceIso = since.toISOString();
+
+  if (activities.has('trap') || activities.has('night_trap')) {
+    const { data: grades, error } = await supabase
+      .from('lso_grades')
+      .select('pilot_id, pass_time, created_at, is_night, outcome_type, wire_number')
+      .in('pilot_id', pilotIds)
+      .or('outcome_type.eq.trap,outcome_type.is.null')
+      .gte('created_at', sinceIso);
+
+    if (error) throw error;
+
+    (grades || []).forEach(grade => {
+      const at = grade.pass_time || grade.created_at;
+      if (!at || new Date(at) < since || !isTrapPass(grade)) return;
+      log(grade.pilot_id, 'trap', at);
+      if (grade.is_night) log(grade.pilot_id, 'night_trap', at);
+    });
+  }
+
+  if (activities.has('flight_lead') || activities.has('sortie')) {
+    // Only events that had a mission planned can hold sorties, so fetch the
+    // missions and take each one's event start from the join
+    const { data: missions, error: missionsError } = await supabase
+      .from('missions')
+      .select('pilot_assignments, events!inner(start_datetime)')
+      .gte('events.start_datetime', sinceIso)
+      .lte('events.start_datetime', new Date().toISOString())
+      .neq('status', 'cancelled');
+
+    if (missionsError) throw missionsError;
+
+    const pilotIdSet = new Set(pilotIds);
+    (missions || []).forEach(mission => {
+      const at = mission.events?.start_datetime;
+      if (!at || !mission.pilot_assignments) return;
+      Object.values(mission.pilot_assignments).forEach(pilots => {
+        if (!Array.isArray(pilots)) return;
+        pilots.forEach(assignment => {
+          if (!assignment || !pilotIdSet.has(assignment.pilot_id)) return;
+          log(assignment.pilot_id, 'sortie', at);
+          if (assignment.dash_number === '1') log(assignment.pilot_id, 'flight_lead', at);
+        });
+      });
+    });
+  }
+
+  Object.values(activity).forEach(byKind => {
+    Object.values(byKind).forEach(dates => dates.sort((a, b) => new Date(b) - new Date(a)));
+  });
+
+  return activity;
+}
+
+function buildReminderMessage(pilot, qualification, expiry) {
+  const lapseDate = expiry.at.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+  const hint = expiry.byRule && ACTIVITY_HINTS[qualification.currency_rule.activity];
+  return hint
+    ? `Heads up ${pilot.callsign}: your **${qualification.name}** qualification lapses on ${lapseDate}. ${hint.charAt(0).toUpperCase()}${hint.slice(1)} before then to stay current.`
+    : `Heads up ${pilot.callsign}: your **${qualification.name}** qualification expires on ${lapseDate}. Talk to your training officer about renewing it.`;
+}
+
+async function processQualificationCurrency() {
+  if (Date.now() - lastRunAt < RUN_INTERVAL_MS) {
+    return { updated: 0, reminded: 0, skipped: true, reason: 'not_due' };
+  }
+
+  // FAIL-SAFE: Check circuit breaker before starting
+  if (isCircuitOpen()) {
+    console.warn('[QUAL-CURRENCY] Skipping qualification currency - database circuit is open');
+    return { updated: 0, reminded: 0, skipped: true, reason: 'circuit_open' };
+  }
+
+  try {
+    console.log('[QUAL-CURRENCY] Checking qualification currency...');
+
+    const { data: qualifications, error: qualError } = await supabase
+      .from('qualifications')
+      .select('id, name, is_expirable, validity_period, currency_rule')
+      .or('is_expirable.eq.true,currency_rule.not.is.null');
+
+    if (qualError) {
+      console.error('[QUAL-CURRENCY] Error fetching qualifications:', qualError);
+      if (isConnectivityError(qualError)) recordFailure();
+      return { updated: 0, reminded: 0, errors: [qualError] };
+    }
+
+    resetFailures();
+    lastRunAt = Date.now();
+
+    if (!qualifications || qualifications.length === 0) {
+      console.log('[QUAL-CURRENCY] No expiring qualifications configured');
+      return { updated: 0, reminded: 0 };
+    }
+
+    const qualificationsById = new Map(qualifications.map(q => [q.id, q]));
+    const { data: records, error: recordsError } = await supabase
+      .from('pilot_qualifications')
+      .select('id, pilot_id, qualification_id, achieved_date, created_at, expiry_date, currency_reminder_sent_for, pilot:pilot_id (id, callsign, discord_id)')
+      .in('qualification_id', [...qualificationsById.keys()])
+      .eq('is_current', true);
+
+    if (recordsError) {
+      console.error('[QUAL-CURRENCY] Error fetching pilot qualifications:', recordsError);
+      return { updated: 0, reminded: 0, errors: [recordsError] };
+    }
+
+    // Only pull flight history far enough back for the longest rule
+    const rules = qualifications.map(q => q.currency_rule).filter(rule => rule && rule.days > 0);
+    let activity = {};
+    if (rules.length > 0) {
+      const ruleQualIds = new Set(qualifications.filter(q => q.currency_rule).map(q => q.id));
+      const pilotIds = [...new Set((records || []).filter(r => ruleQualIds.has(r.qualification_id)).map(r => r.pilot_id))];
+      const since = new Date(Date.now() - Math.max(...rules.map(rule => rule.days)) * DAY_MS);
+      if (pilotIds.length > 0) {
+        activity = await getCurrencyActivity(pilotIds, new Set(rules.map(rule => rule.activity)), since);
+      }
+    }
+
+    const now = Date.now();
+    let updated = 0;
+    let reminded = 0;
+    let remindersAttempted = 0;
+    let remindersDeferred = 0;
+    const errors = [];
+
+    for (const record of records || []) {
+      const qualification = qualificationsById.get(record.qualification_id);
+      const rule = qualification.currency_rule;
+      const expiry = computeExpiry(record, qualification, rule ? activity[record.pilot_id]?.[rule.activity] : []);
+      if (!expiry) continue;
+
+      const expiryIso = expiry.at.toISOString();
+      const changes = {};
+      if (!record.expiry_date || Math.abs(new Date(record.expiry_date).getTime() - expiry.at.getTime()) > 60 * 1000) {
+        changes.expiry_date = expiryIso;
+      }
+
+      // One DM per lapse date; renewing moves the date and re-arms the reminder
+      const lapseDay = expiryIso.split('T')[0];
+      const dueReminder = expiryStatus(expiry, now) === 'expiring'
+        && record.currency_reminder_sent_for !== lapseDay
+        && record.pilot?.discord_id;
+      if (dueReminder && remindersAttempted >= MAX_REMINDERS_PER_RUN) {
+        remindersDeferred++;
+      } else if (dueReminder) {
+        if (remindersAttempted > 0) await new Promise(resolve => setTimeout(resolve, REMINDER_SPACING_MS));
+        remindersAttempted++;
+        const result = await sendDirectMessage(record.pilot.discord_id, buildReminderMessage(record.pilot, qualification, expiry));
+        if (result.success) {
+          changes.currency_reminder_sent_for = lapseDay;
+          reminded++;
+        } else {
+          errors.push({ recordId: record.id, error: result.error });
+        }
+      }
+
+      if (Object.keys(changes).length === 0) continue;
+
+      const { error: updateError } = await supabase
+        .from('pilot_qualifications')
+        .update(changes)
+        .eq('id', record.id);
+
+      if (updateError) {
+        console.error(`[QUAL-CURRENCY] Error updating pilot qualification ${record.id}:`, updateError);
+        errors.push({ recordId: record.id, error: updateError });
+      } else if (changes.expiry_date) {
+        updated++;
+      }
+    }
+
+    if (remindersDeferred > 0) {
+      console.log(`[QUAL-CURRENCY] Holding ${remindersDeferred} reminders for the next run`);
+    }
+    console.log(`[QUAL-CURRENCY] Updated ${updated} expiry dates, sent ${reminded} reminders`);
+    return { updated, reminded, errors };
+  } catch (error) {
+    console.error('[QUAL-CURRENCY] Error processing qualification currency:', error);
+    return { updated: 0, reminded: 0, errors: [error] };
+  }
+}
+
+module.exports = {
+  processQualificationCurrency
+};
@@ -44,6 +44,39 @@ function uuidToLockKey(uuid) {
   return Number(value);
 }
 
+// Helper function to find pilots who are planned to be away for an event
+// (leave of absence or a weekday they're never available), from the
+// pilot_availability table maintained by pilots in the web app
+async function getPlannedAbsentPilotIds(pilotIds, eventData) {
+  if (pilotIds.length === 0) return new Set();
+
+  // Event date on the event's own wall clock, as YYYY-MM-DD
+  const timeZone = eventData.event_settings?.timezone || 'UTC';
+  const eventDate = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(new Date(eventData.start_datetime));
+  const weekday = new Date(`${eventDate}T00:00:00Z`).getUTCDay();
+
+  const { data: entries, error } = await supabase
+    .from('pilot_availability')
+    .select('pilot_id, kind, start_date, end_date, weekdays')
+    .in('pilot_id', pilotIds)
+    .lte('start_date', eventDate)
+    .or(`end_date.is.null,end_date.gte.${eventDate}`);
+
+  if (error) {
+    console.error('[REMINDER] Error querying pilot availability:', error);
+    return new Set();
+  }
+
+  return new Set((entries || [])
+    .filter(entry => entry.kind === 'leave' || (entry.weekdays || []).includes(weekday))
+    .map(entry => entry.pilot_id));
+}
+
 // Helper function to send reminder to a specific Discord channel or thread
 async function sendReminderToChannel(guildId, channelId, message, eventId = null) {
   try {
@@ -372,9 +405,12 @@ async function processIndividualReminder(reminder) {
           console.error(`[REMINDER] Error querying no-response pilots:`, pilotError);
         }
 
+        // Pilots who planned to be away count as declined, so don't chase them
+        const plannedAbsentIds = await getPlannedAbsentPilotIds(pilotIds, eventData);
+
         // Filter for users who haven't responded and include squadron info
         const noResponseUsers = (activePilots || [])
-          .filter(pilot => !responderIds.has(pilot.discord_id))
+          .filter(pilot => !responderIds.has(pilot.discord_id) && !plannedAbsentIds.has(pilot.id))
           .map(pilot => ({
             discord_id: pilot.discord_id,
             discord_username: pilot.discord_username,
@@ -13,6 +13,7 @@ import FlightCard from './components/ui/flight cards/FlightCard';
 import SingleFlightCard from './components/ui/flight cards/SingleFlightCard';
 import FuelStateDialog from './components/ui/dialogs/FuelStateDialog';
 import PositionReportDialog from './components/ui/dialogs/PositionReportDialog';
+import CoordinationMissionBar from './components/ui/mission-execution/CoordinationMissionBar';
 import NavigationBar from './components/ui/NavigationBar';
 import OnboardingGuide from './components/onboarding/OnboardingGuide';
 import { useAuth } from './context/AuthContext';
@@ -21,7 +22,7 @@ import { Analytics } from '@vercel/analytics/react';
 import type { AssignedPilot } from './types/MissionPrepTypes';
 import type { MissionCommanderInfo } from './types/MissionCommanderTypes';
 import type { ExtractedFlight } from './types/FlightData';
-import { loadAssignedPilots, saveMissionCommander, saveAssignedPilots, loadMissionCommander, loadExtractedFlights, saveExtractedFlights, loadPrepFlights, savePrepFlights } from './utils/localStorageUtils';
+import { loadAssignedPilots, saveMissionCommander, saveAssignedPilots, loadMissionCommander, loadExtractedFlights, saveExtractedFlights, loadPrepFlights, savePrepFlights, loadCoordinationMissionId, saveCoordinationMissionId } from './utils/localStorageUtils';
 
 const RosterManagement = React.lazy(() => import('./components/ui/RosterManagement'));
 const EventsManagement = React.lazy(() => import('./components/ui/EventsManagement'));
@@ -59,6 +60,10 @@ const App: React.FC = () => {
   const [isHoveringBoardNumber, setIsHoveringBoardNumber] = useState(false);
   const [initialBoardNumber, setInitialBoardNumber] = useState<string>('');
   const [hoveredFlightId, setHoveredFlightId] = useState<string | null>(null);
+  // Mission whose coordination board is shared with other controllers
+  const [coordinationMissionId, setCoordinationMissionId] = useState<string | null>(() => loadCoordinationMissionId());
+  // Set by a transfer from Mission Preparation so the fresh board replaces the stored one
+  const [isTransferPending, setIsTransferPending] = useState(false);
   // Determine current view from URL path
   const getCurrentView = () => {
     const path = location.pathname;
@@ -109,6 +114,10 @@ const App: React.FC = () => {
     savePrepFlights(prepFlights);
   }, [prepFlights]);
 
+  useEffect(() => {
+    saveCoordinationMissionId(coordinationMissionId);
+  }, [coordinationMissionId]);
+
   // Initialize app services
   useEffect(() => {
     initializeApp();
@@ -255,7 +264,7 @@ const App: React.FC = () => {
   };
 
   // Function to handle transfer of flights from Mission Preparation
-  const handleTransferToMission = useCallback((transferredFlights: Flight[]) => {
+  const handleTransferToMission = useCallback((transferredFlights: Flight[], missionId?: string) => {
     // Extract unique step times from transferred flights
     const stepTimes = transferredFlights
       .map(flight => (flight as any).stepTime ?? 0) // Get stepTime or default to 0
@@ -283,6 +292,10 @@ const App: React.FC = () => {
     });
 
     setFlights(flightsWithDivisions);
+    if (missionId) {
+      setCoordinationMissionId(missionId);
+      setIsTransferPending(true);
+    }
     // Navigate to mission coordination page after transfer
     navigate('/mission-coordination');
   }, [navigate]);
@@ -304,6 +317,10 @@ const App: React.FC = () => {
     setPrepFlights(flights);
   }, []);
 
+  const handleTransferPublished = useCallback(() => {
+    setIsTransferPending(false);
+  }, []);
+
   const activeFlight = flights.find(f => f.id === activeId);
 
   useEffect(() => {
@@ -616,6 +633,14 @@ const App: React.FC = () => {
                       flights={flights}
                       onUpdateMemberFuel={handleUpdateMemberFuel}
                     />
+                    <CoordinationMissionBar
+                      missionId={coordinationMissionId}
+                      onMissionChange={setCoordinationMissionId}
+                      flights={flights}
+                      onFlightsChange={setFlights}
+                      overwriteRemote={isTransferPending}
+                      onOverwriteComplete={handleTransferPublished}
+                    />
                     <DragOverlay
                       dropAnimation={null}
                       style={{ zIndex: 10000 }}
@@ -0,0 +1,511 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { X, Download, Upload, Copy, Check } from 'lucide-react';
+import { toJpeg } from 'html-to-image';
+import { saveAs } from 'file-saver';
+import { aarExportService, type MissionAarData, type AarFlight } from '../../services/aarExportService';
+import { buildPdfFromJpegPages, jpegDataUrlToBytes } from '../../utils/pdfUtils';
+import { toCorsSafeImageUrl } from '../../utils/r2StorageService';
+import {
+  PERFORMANCE_CATEGORIES,
+  MISSION_OUTCOME_LABELS,
+  type PerformanceCategoryKey
+} from '../../types/DebriefingTypes';
+import { objectiveUnitTotal } from '../../utils/missionObjectiveUtils';
+
+interface AarExportDialogProps {
+  missionId: string;
+  missionName: string;
+  onClose: () => void;
+}
+
+// A4 at 96 dpi; pages are rendered at twice this for print quality
+const PAGE_WIDTH = 794;
+const PAGE_HEIGHT = 1123;
+const PAGE_PADDING = 48;
+const PAGE_HEADER_HEIGHT = 40;
+const PAGE_FOOTER_HEIGHT = 32;
+const CONTENT_WIDTH = PAGE_WIDTH - PAGE_PADDING * 2;
+const CONTENT_HEIGHT = PAGE_HEIGHT - PAGE_PADDING * 2 - PAGE_HEADER_HEIGHT - PAGE_FOOTER_HEIGHT;
+const BLOCK_GAP = 20;
+
+const sectionTitleStyle: React.CSSProperties = {
+  fontSize: '13px',
+  fontWeight: 700,
+  color: '#1E293B',
+  textTransform: 'uppercase',
+  letterSpacing: '0.5px',
+  borderBottom: '2px solid #1E293B',
+  paddingBottom: '4px',
+  marginBottom: '8px'
+};
+
+const thStyle: React.CSSProperties = {
+  textAlign: 'left',
+  fontSize: '10px',
+  fontWeight: 600,
+  color: '#64748B',
+  textTransform: 'uppercase',
+  padding: '4px 6px',
+  borderBottom: '1px solid #CBD5E1'
+};
+
+const tdStyle: React.CSSProperties = {
+  fontSize: '11px',
+  color: '#1E293B',
+  padding: '4px 6px',
+  borderBottom: '1px solid #E2E8F0',
+  verticalAlign: 'top'
+};
+
+const formatDateTime = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : '—';
+
+const AIRCRAFT_STATUS_LABELS: Record<string, string> = {
+  recovered: 'Recovered',
+  damaged: 'Damaged',
+  destroyed: 'Aircraft destroyed',
+  down: 'Aircraft down'
+};
+
+const pilotStatusLabel = (pilot: AarFlight['pilots'][number]) => {
+  if (pilot.pilotStatus === 'kia') return 'KIA';
+  if (pilot.pilotStatus === 'mia') return 'MIA';
+  return pilot.aircraftStatus ? AIRCRAFT_STATUS_LABELS[pilot.aircraftStatus] : '—';
+};
+
+/**
+ * Compile a mission's debrief into a paginated after-action report PDF.
+ * Sections are measured once rendered and packed onto A4 pages; each page is
+ * then rendered to an image and the images assembled into the PDF. The PDF
+ * can be downloaded or uploaded to storage for linking in Discord.
+ */
+const AarExportDialog: React.FC<AarExportDialogProps> = ({ missionId, missionName, onClose }) => {
+  const [data, setData] = useState<MissionAarData | null>(null);
+  const [pages, setPages] = useState<number[][] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<'download' | 'upload' | null>(null);
+  const [uploadedUrl, setUploadedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const measureRef = useRef<HTMLDivElement>(null);
+  const pageRefs = useRef<Array<HTMLDivElement | null>>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setData(await aarExportService.getMissionAarData(missionId));
+      } catch (err) {
+        console.error('Failed to load AAR data:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load debrief');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [missionId]);
+
+  const squadronFor = (id: string | null) => data?.squadrons.find(s => s.id === id);
+
+  // Sections in document order; a section never splits across pages
+  const blocks: React.ReactNode[] = [];
+  if (data) {
+    blocks.push(
+      <div key="summary">
+        <div style={{ display: 'flex', alignItems: 'center', gap: '16px', marginBottom: '16px' }}>
+          {data.squadrons.filter(s => s.insigniaUrl).map(s => (
+            <img key={s.id} src={toCorsSafeImageUrl(s.insigniaUrl!)} alt="" crossOrigin="anonymous" style={{ height: '56px', width: '56px', objectFit: 'contain' }} />
+          ))}
+          <div>
+            <div style={{ fontSize: '24px', fontWeight: 700, color: '#0F172A' }}>After Action Report</div>
+            <div style={{ fontSize: '16px', color: '#334155' }}>{data.missionName}</div>
+          </div>
+        </div>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <tbody>
+            {[
+              ['Event', data.eventName || '—'],
+              ['Date', formatDateTime(data.eventStart)],
+              ['Outcome', MISSION_OUTCOME_LABELS[data.outcome]],
+              ['Debrief', data.finalizedAt ? `Finalized ${formatDateTime(data.finalizedAt)}` : 'Not finalized'],
+              ['Squadrons', data.squadrons.map(s => `${s.designation} ${s.name}`).join(', ') || '—'],
+              ['Sorties', String(data.totals.sorties)],
+              ['Kills', `${data.totals.kills}${data.totals.friendlyKills ? ` (${data.totals.friendlyKills} fratricide)` : ''}`],
+              ['Losses', `${data.totals.losses} aircraft, ${data.totals.pilotsLost} pilots KIA/MIA`]
+            ].map(([label, value]) => (
+              <tr key={label}>
+                <td style={{ ...tdStyle, width: '120px', fontWeight: 600, color: '#64748B' }}>{label}</td>
+                <td style={tdStyle}>{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+
+    if (data.objectives.length > 0) {
+      blocks.push(
+        <div key="objectives">
+          <div style={sectionTitleStyle}>Objectives</div>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Objective</th>
+                <th style={thStyle}>Priority</th>
+                <th style={thStyle}>Destroyed</th>
+                <th style={thStyle}>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.objectives.map(objective => (
+                <tr key={objective.id}>
+                  <td style={tdStyle}>{objective.description}</td>
+                  <td style={{ ...tdStyle, textTransform: 'capitalize' }}>{objective.priority}</td>
+                  <td style={tdStyle}>
+                    {objectiveUnitTotal(objective) > 0
+                      ? `${objective.destroyed_count ?? 0} / ${objectiveUnitTotal(objective)} (${objective.required_percentage ?? 100}% req.)`
+                      : '—'}
+                  </td>
+                  <td style={{ ...tdStyle, textTransform: 'capitalize' }}>{objective.status}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+
+    blocks.push(
+      <div key="attendance">
+        <div style={sectionTitleStyle}>Attendance</div>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={thStyle}>Flight</th>
+              <th style={thStyle}>Pilot</th>
+              <th style={thStyle}>Roll Call</th>
+              <th style={thStyle}>Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.flights.flatMap(flight => flight.pilots.map(pilot => (
+              <tr key={`${flight.flightId}-${pilot.pilotId}`}>
+                <td style={tdStyle}>{flight.callsign}-{pilot.dashNumber}{flight.flightStatus === 'scrubbed' ? ' (scrubbed)' : ''}</td>
+                <td style={tdStyle}>{pilot.boardNumber} {pilot.callsign}</td>
+                <td style={tdStyle}>{pilot.rollCall || '—'}</td>
+                <td style={tdStyle}>{pilotStatusLabel(pilot)}</td>
+              </tr>
+            )))}
+          </tbody>
+        </table>
+      </div>
+    );
+
+    data.flights.forEach(flight => {
+      const squadron = squadronFor(flight.squadronId);
+      blocks.push(
+        <div key={flight.flightId}>
+          <div style={{ ...sectionTitleStyle, display: 'flex', alignItems: 'center', gap: '8px' }}>
+            {squadron?.insigniaUrl && (
+              <img src={toCorsSafeImageUrl(squadron.insigniaUrl)} alt="" crossOrigin="anonymous" style={{ height: '24px', width: '24px', objectFit: 'contain' }} />
+            )}
+            <span style={{ flex: 1 }}>{flight.callsign} — {flight.aircraftType}</span>
+            <span style={{ fontWeight: 400, textTransform: 'none', color: '#64748B' }}>
+              {squadron ? `${squadron.designation} ${squadron.name}` : ''}
+            </span>
+          </div>
+          <div style={{ fontSize: '11px', color: '#475569', marginBottom: '8px' }}>
+            Flight lead: {flight.flightLead || '—'} · {flight.flightStatus === 'scrubbed' ? 'Scrubbed' : 'Launched'} ·{' '}
+            {flight.submittedAt ? `AAR submitted ${formatDateTime(flight.submittedAt)}` : 'No AAR submitted'}
+          </div>
+
+          {flight.ratings && (
+            <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '8px' }}>
+              <thead>
+                <tr>
+                  <th style={thStyle}>Category</th>
+                  <th style={thStyle}>Rating</th>
+                  <th style={thStyle}>Comments</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(PERFORMANCE_CATEGORIES) as PerformanceCategoryKey[]).map(key => {
+                  const rating = flight.ratings?.[key];
+                  return (
+                    <tr key={key}>
+                      <td style={{ ...tdStyle, width: '220px' }}>{PERFORMANCE_CATEGORIES[key]}</td>
+                      <td style={{ ...tdStyle, width: '60px', fontWeight: 600, color: rating?.rating === 'UNSAT' ? '#DC2626' : '#16A34A' }}>
+                        {rating?.rating || '—'}
+                      </td>
+                      <td style={tdStyle}>{rating?.comments || ''}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '8px' }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Pilot</th>
+                <th style={thStyle}>Kills</th>
+                <th style={thStyle}>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {flight.pilots.map(pilot => (
+                <tr key={pilot.pilotId}>
+                  <td style={{ ...tdStyle, width: '160px' }}>-{pilot.dashNumber} {pilot.boardNumber} {pilot.callsign}</td>
+                  <td style={tdStyle}>
+                    {pilot.kills.length === 0 ? '—' : pilot.kills.map(kill =>
+                      `${kill.count}× ${kill.unitName}${kill.category ? ` (${kill.category})` : ''}${kill.isFriendly ? ' — fratricide' : ''}`
+                    ).join(', ')}
+                  </td>
+                  <td style={{ ...tdStyle, width: '140px' }}>{pilotStatusLabel(pilot)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {flight.lessonsLearned && (
+            <div style={{ fontSize: '11px', color: '#1E293B', whiteSpace: 'pre-wrap' }}>
+              <span style={{ fontWeight: 600 }}>Key lessons learned: </span>{flight.lessonsLearned}
+            </div>
+          )}
+        </div>
+      );
+    });
+  }
+
+  // Pack measured sections onto pages; oversized sections get a page to themselves
+  useLayoutEffect(() => {
+    if (!data || pages || !measureRef.current) return;
+    const heights = Array.from(measureRef.current.children).map(child => (child as HTMLElement).offsetHeight);
+    const packed: number[][] = [];
+    let used = 0;
+    heights.forEach((height, index) => {
+      const current = packed[packed.length - 1];
+      if (current && used + BLOCK_GAP + height <= CONTENT_HEIGHT) {
+        current.push(index);
+        used += BLOCK_GAP + height;
+      } else {
+        packed.push([index]);
+        used = height;
+      }
+    });
+    setPages(packed);
+  }, [data, pages]);
+
+  const renderPdf = async (): Promise<Blob> => {
+    const rendered = [];
+    for (const node of pageRefs.current.slice(0, pages?.length || 0)) {
+      if (!node) continue;
+      const dataUrl = await toJpeg(node, { quality: 0.92, pixelRatio: 2, backgroundColor: '#FFFFFF', cacheBust: true });
+      rendered.push({
+        jpeg: jpegDataUrlToBytes(dataUrl),
+        width: node.offsetWidth * 2,
+        height: node.offsetHeight * 2
+      });
+    }
+    return buildPdfFromJpegPages(rendered);
+  };
+
+  const fileName = `aar-${missionName.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'mission'}.pdf`;
+
+  const handleDownload = async () => {
+    setBusy('download');
+    setError(null);
+    try {
+      saveAs(await renderPdf(), fileName);
+    } catch (err) {
+      console.error('Failed to generate AAR:', err);
+      setError('Failed to generate the PDF');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleUpload = async () => {
+    setBusy('upload');
+    setError(null);
+    try {
+      setUploadedUrl(await aarExportService.uploadAarDocument(missionId, await renderPdf(), fileName));
+    } catch (err) {
+      console.error('Failed to upload AAR:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload the PDF');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!uploadedUrl) return;
+    await navigator.clipboard.writeText(uploadedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const ready = !!pages && !busy;
+  const buttonStyle = (primary: boolean): React.CSSProperties => ({
+    flex: 1,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '6px',
+    padding: '10px 16px',
+    borderRadius: '6px',
+    fontSize: '14px',
+    fontWeight: 500,
+    cursor: ready ? 'pointer' : 'not-allowed',
+    opacity: ready ? 1 : 0.6,
+    border: `1px solid ${primary ? '#3B82F6' : '#D1D5DB'}`,
+    backgroundColor: primary ? '#3B82F6' : '#FFFFFF',
+    color: primary ? '#FFFFFF' : '#374151'
+  });
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1100,
+        padding: '20px'
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          width: '100%',
+          maxWidth: '480px',
+          backgroundColor: '#FFFFFF',
+          borderRadius: '8px',
+          boxShadow: '0px 10px 15px -3px rgba(0, 0, 0, 0.25)',
+          overflow: 'hidden'
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: '20px 24px',
+            borderBottom: '1px solid #E2E8F0',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between'
+          }}
+        >
+          <div>
+            <h3 style={{ fontSize: '18px', fontWeight: 600, color: '#1E293B', margin: '0 0 4px 0' }}>
+              Export After Action Report
+            </h3>
+            <div style={{ fontSize: '14px', color: '#64748B' }}>{missionName}</div>
+          </div>
+          <button
+            onClick={onClose}
+            style={{
+              width: '32px',
+              height: '32px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              backgroundColor: '#F1F5F9',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              color: '#64748B'
+            }}
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{ padding: '16px 24px', fontSize: '14px', color: '#475569' }}>
+          {loading ? 'Compiling debrief...' : data ? (
+            <>
+              {data.flights.length} flight{data.flights.length === 1 ? '' : 's'},{' '}
+              {data.flights.filter(f => f.submittedAt).length} with a submitted AAR
+              {pages && ` · ${pages.length} page${pages.length === 1 ? '' : 's'}`}.
+              {!data.finalizedAt && (
+                <div style={{ marginTop: '8px', color: '#D97706' }}>
+                  The debrief hasn't been finalized; the report shows it as it stands.
+                </div>
+              )}
+            </>
+          ) : null}
+
+          {uploadedUrl && (
+            <div style={{ display: 'flex', gap: '8px', marginTop: '12px' }}>
+              <input
+                readOnly
+                value={uploadedUrl}
+                onFocus={(e) => e.target.select()}
+                style={{ flex: 1, minWidth: 0, padding: '8px 12px', border: '1px solid #CBD5E1', borderRadius: '6px', fontSize: '13px' }}
+              />
+              <button onClick={handleCopy} title="Copy link" style={{ ...buttonStyle(false), flex: 'none', cursor: 'pointer', opacity: 1 }}>
+                {copied ? <Check size={16} /> : <Copy size={16} />}
+              </button>
+            </div>
+          )}
+
+          {error && <div style={{ marginTop: '12px', fontSize: '13px', color: '#DC2626' }}>{error}</div>}
+        </div>
+
+        <div style={{ display: 'flex', gap: '8px', padding: '8px 24px 24px 24px' }}>
+          <button onClick={handleUpload} disabled={!ready} style={buttonStyle(false)}>
+            <Upload size={16} />
+            {busy === 'upload' ? 'Uploading...' : 'Upload for Discord'}
+          </button>
+          <button onClick={handleDownload} disabled={!ready} style={buttonStyle(true)}>
+            <Download size={16} />
+            {busy === 'download' ? 'Generating...' : 'Download PDF'}
+          </button>
+        </div>
+      </div>
+
+      {/* Off-screen sections for measuring, then the pages that get rendered */}
+      <div style={{ position: 'fixed', left: '-10000px', top: 0 }} aria-hidden>
+        {!pages && (
+          <div ref={measureRef} style={{ width: `${CONTENT_WIDTH}px`, fontFamily: 'Inter' }}>
+            {blocks}
+          </div>
+        )}
+        {pages?.map((blockIndexes, pageIndex) => (
+          <div
+            key={pageIndex}
+            ref={node => { pageRefs.current[pageIndex] = node; }}
+            style={{
+              width: `${PAGE_WIDTH}px`,
+              minHeight: `${PAGE_HEIGHT}px`,
+              padding: `${PAGE_PADDING}px`,
+              boxSizing: 'border-box',
+              backgroundColor: '#FFFFFF',
+              fontFamily: 'Inter',
+              display: 'flex',
+              flexDirection: 'column'
+            }}
+          >
+            <div style={{ height: `${PAGE_HEADER_HEIGHT}px`, display: 'flex', justifyContent: 'space-between', fontSize: '10px', color: '#94A3B8' }}>
+              <span>AFTER ACTION REPORT — {missionName.toUpperCase()}</span>
+              <span>{formatDateTime(data?.eventStart || null)}</span>
+            </div>
+            <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: `${BLOCK_GAP}px` }}>
+              {blockIndexes.map(index => blocks[index])}
+            </div>
+            <div style={{ height: `${PAGE_FOOTER_HEIGHT}px`, display: 'flex', alignItems: 'flex-end', justifyContent: 'center', fontSize: '10px', color: '#94A3B8' }}>
+              Page {pageIndex + 1} of {pages.length}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AarExportDialog;
@@ -0,0 +1,501 @@
+import React, { useRef, useState } from 'react';
+import { X, Upload, FileText, AlertTriangle } from 'lucide-react';
+import { readAcmiFile } from '../../utils/acmiParser';
+import { PILOT_MISSION_STATUS_LABELS, toPilotMissionStatus, type DebriefImportPilot } from '../../utils/debriefImportUtils';
+import { tacviewImportService } from '../../services/tacviewImportService';
+import { debriefingService } from '../../services/debriefingService';
+import { useAuth } from '../../context/AuthContext';
+import type {
+  DebriefEnteredEntries,
+  DebriefEnteredStatus,
+  DebriefImportProposals,
+  DebriefImportSource,
+  ProposedUnitKill
+} from '../../types/DebriefingTypes';
+
+interface DebriefImportDialogProps {
+  source: DebriefImportSource;
+  missionId: string;
+  missionDebriefingId: string;
+  pilots: DebriefImportPilot[];
+  entered: DebriefEnteredEntries; // What the flight lead has entered so far
+  onApply: (proposals: DebriefImportProposals) => void;
+  onClose: () => void;
+}
+
+const SOURCE_CONFIG: Record<DebriefImportSource, { title: string; accept: string; pattern: RegExp; prompt: string }> = {
+  tacview: {
+    title: 'Import Tacview Recording',
+    accept: '.acmi',
+    pattern: /\.acmi$/i,
+    prompt: 'Choose .zip.acmi or .txt.acmi file'
+  },
+  server_log: {
+    title: 'Import Server Event Log',
+    accept: '.jsonl,.json,.log,.txt',
+    pattern: /\.(jsonl|json|log|txt)$/i,
+    prompt: 'Choose server event log (.jsonl)'
+  }
+};
+
+const killKey = (kill: ProposedUnitKill) => `kill:${kill.pilotId}|${kill.unit.id}|${kill.isFriendly}`;
+const statusKey = (pilotId: string) => `status:${pilotId}`;
+
+const categoryColors: Record<string, string> = {
+  A2A: '#3B82F6',
+  A2G: '#10B981',
+  A2S: '#222A35'
+};
+
+const statusLabel = (status: DebriefEnteredStatus | undefined): string | null => {
+  if (!status || status.pilotStatus === 'unaccounted' || status.aircraftStatus === 'unaccounted') return null;
+  return PILOT_MISSION_STATUS_LABELS[toPilotMissionStatus(status.pilotStatus, status.aircraftStatus)];
+};
+
+/**
+ * Upload a Tacview recording or server event log and review what it says
+ * about this flight before anything reaches the kill tracking card. Anything
+ * that disagrees with what the flight lead already entered is highlighted.
+ * Every proposed kill and status can be unticked; the ones kept are
+ * pre-filled into the card and only saved with the debrief.
+ */
+const DebriefImportDialog: React.FC<DebriefImportDialogProps> = ({
+  source,
+  missionId,
+  missionDebriefingId,
+  pilots,
+  entered,
+  onApply,
+  onClose
+}) => {
+  const config = SOURCE_CONFIG[source];
+  const { userProfile } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [proposals, setProposals] = useState<DebriefImportProposals | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [attachRecording, setAttachRecording] = useState(true);
+  const [parsing, setParsing] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pilotLabel = (pilotId: string) => {
+    const pilot = pilots.find(p => p.id === pilotId);
+    return pilot ? `${pilot.boardNumber} ${pilot.callsign}` : 'Unknown pilot';
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = event.target.files?.[0];
+    event.target.value = '';
+    if (!chosen) return;
+
+    if (!config.pattern.test(chosen.name)) {
+      setError(`Choose a file ending in ${config.accept.split(',').join(', ')}`);
+      return;
+    }
+
+    setFile(chosen);
+    setProposals(null);
+    setError(null);
+    setParsing(true);
+    try {
+      const result = source === 'tacview'
+        ? await tacviewImportService.buildProposals(await readAcmiFile(chosen), missionDebriefingId, pilots)
+        : await debriefingService.importServerEventLog(await chosen.text(), missionDebriefingId, pilots);
+      setProposals(result);
+      setSelected(new Set([
+        ...result.kills.map(killKey),
+        ...result.statuses.map(s => statusKey(s.pilotId))
+      ]));
+    } catch (err) {
+      console.error('Failed to read import file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const toggle = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (!proposals || !file) return;
+    setApplying(true);
+    setError(null);
+
+    try {
+      if (source === 'tacview' && attachRecording && userProfile?.id) {
+        await tacviewImportService.attachRecording(missionDebriefingId, missionId, file, userProfile.id);
+      }
+    } catch (err) {
+      // Keep the dialog open so the flight lead can retry, or apply the
+      // proposals without the recording (attaching is unticked for them)
+      console.error('Failed to attach Tacview recording:', err);
+      setError(`The recording couldn't be attached: ${err instanceof Error ? err.message : 'upload failed'}. Apply again to use the proposals without it, or tick "Attach recording" to retry.`);
+      setAttachRecording(false);
+      setApplying(false);
+      return;
+    }
+
+    onApply({
+      ...proposals,
+      kills: proposals.kills.filter(k => selected.has(killKey(k))),
+      statuses: proposals.statuses.filter(s => selected.has(statusKey(s.pilotId)))
+    });
+    setApplying(false);
+    onClose();
+  };
+
+  const missingPilots = proposals ? pilots.filter(p => !proposals.matchedPilots[p.id]) : [];
+  const hasProposals = !!proposals && (proposals.kills.length > 0 || proposals.statuses.length > 0);
+
+  // Compare against what's entered. Only pilots found in the file are
+  // compared, so a pilot missing from the log isn't flagged for every kill.
+  const enteredKill = (kill: ProposedUnitKill) => entered.kills.find(
+    k => k.pilotId === kill.pilotId && k.unitTypeId === kill.unit.id && k.isFriendly === kill.isFriendly
+  );
+  const enteredStatus = (pilotId: string) => statusLabel(entered.statuses.find(s => s.pilotId === pilotId));
+  const enteredOnly = proposals
+    ? entered.kills.filter(k =>
+        proposals.matchedPilots[k.pilotId] &&
+        !proposals.kills.some(p => p.pilotId === k.pilotId && p.unit.id === k.unitTypeId && p.isFriendly === k.isFriendly)
+      )
+    : [];
+  const killDisagrees = (kill: ProposedUnitKill) => enteredKill(kill)?.killCount !== kill.killCount;
+  const statusDisagrees = (pilotId: string, missionStatus: string) => {
+    const current = enteredStatus(pilotId);
+    return !!current && current !== missionStatus;
+  };
+  const disagreementCount = proposals
+    ? proposals.kills.filter(killDisagrees).length +
+      proposals.statuses.filter(s => statusDisagrees(s.pilotId, PILOT_MISSION_STATUS_LABELS[s.missionStatus])).length +
+      enteredOnly.length
+    : 0;
+
+  const rowStyle = (isSelected: boolean, disagrees = false): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    padding: '8px 12px',
+    border: `1px solid ${disagrees ? '#FCD34D' : isSelected ? '#93C5FD' : '#E2E8F0'}`,
+    borderRadius: '6px',
+    backgroundColor: disagrees ? '#FFFBEB' : isSelected ? '#EFF6FF' : '#FFFFFF',
+    cursor: 'pointer',
+    fontSize: '13px',
+    color: '#1E293B'
+  });
+
+  const enteredNote = (text: string, disagrees: boolean) => (
+    <span style={{ marginLeft: '6px', fontSize: '12px', color: disagrees ? '#B45309' : '#16A34A' }}>{text}</span>
+  );
+
+  const sectionLabel: React.CSSProperties = {
+    fontSize: '12px',
+    fontWeight: 600,
+    color: '#64748B',
+    textTransform: 'uppercase',
+    margin: '16px 0 8px 0'
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1100,
+        padding: '20px'
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          width: '100%',
+          maxWidth: '600px',
+          maxHeight: '80vh',
+          backgroundColor: '#FFFFFF',
+          borderRadius: '8px',
+          boxShadow: '0px 10px 15px -3px rgba(0, 0, 0, 0.25)',
+          display: 'flex',
+          flexDirection: 'column',
+          overflow: 'hidden'
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: '20px 24px',
+            borderBottom: '1px solid #E2E8F0',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between'
+          }}
+        >
+          <div>
+            <h3 style={{ fontSize: '18px', fontWeight: 600, color: '#1E293B', margin: '0 0 4px 0' }}>
+              {config.title}
+            </h3>
+            <div style={{ fontSize: '14px', color: '#64748B' }}>
+              Kills and pilot status are proposed for review, not saved
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            style={{
+              width: '32px',
+              height: '32px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              backgroundColor: '#F1F5F9',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              color: '#64748B'
+            }}
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{ flex: 1, overflowY: 'auto', padding: '16px 24px' }}>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={config.accept}
+            onChange={handleFileChange}
+            style={{ display: 'none' }}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={parsing || applying}
+            style={{
+              width: '100%',
+              padding: '16px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: '8px',
+              fontSize: '14px',
+              color: '#475569',
+              backgroundColor: '#F8FAFC',
+              border: '2px dashed #CBD5E1',
+              borderRadius: '6px',
+              cursor: parsing || applying ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {file ? <FileText size={18} /> : <Upload size={18} />}
+            {parsing ? 'Reading file...' : file ? file.name : config.prompt}
+          </button>
+
+          {error && (
+            <div style={{ marginTop: '12px', fontSize: '13px', color: '#DC2626' }}>{error}</div>
+          )}
+
+          {proposals && (
+            <>
+              {proposals.warnings?.map(warning => (
+                <div key={warning} style={{ marginTop: '12px', fontSize: '13px', color: '#B45309' }}>{warning}</div>
+              ))}
+
+              {disagreementCount > 0 && (
+                <div style={{ marginTop: '12px', fontSize: '13px', fontWeight: 500, color: '#B45309' }}>
+                  {disagreementCount} {disagreementCount === 1 ? 'item differs' : 'items differ'} from what's already entered (highlighted)
+                </div>
+              )}
+
+              {missingPilots.length > 0 && (
+                <div style={{
+                  marginTop: '12px',
+                  padding: '8px 12px',
+                  display: 'flex',
+                  gap: '8px',
+                  fontSize: '13px',
+                  color: '#92400E',
+                  backgroundColor: '#FFFBEB',
+                  border: '1px solid #FDE68A',
+                  borderRadius: '6px'
+                }}>
+                  <AlertTriangle size={16} style={{ flexShrink: 0, marginTop: '1px' }} />
+                  <span>
+                    Not found in the file: {missingPilots.map(p => pilotLabel(p.id)).join(', ')}.
+                    Player names are matched on board number and callsign.
+                  </span>
+                </div>
+              )}
+
+              {!hasProposals && (
+                <div style={{ textAlign: 'center', padding: '32px 0', color: '#64748B', fontSize: '14px' }}>
+                  Nothing to import for this flight
+                </div>
+              )}
+
+              {proposals.kills.length > 0 && (
+                <>
+                  <div style={sectionLabel}>Kills</div>
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                    {proposals.kills.map(kill => {
+                      const key = killKey(kill);
+                      const current = enteredKill(kill);
+                      const disagrees = killDisagrees(kill);
+                      return (
+                        <label key={key} style={rowStyle(selected.has(key), disagrees)}>
+                          <input type="checkbox" checked={selected.has(key)} onChange={() => toggle(key)} />
+                          <span style={{ flex: 1 }}>
+                            <strong>{pilotLabel(kill.pilotId)}</strong> — {kill.killCount} × {kill.unit.display_name}
+                            {kill.isFriendly && <span style={{ marginLeft: '6px', color: '#DC2626' }}>(friendly fire)</span>}
+                            {!kill.inUnitPool && <span style={{ marginLeft: '6px', color: '#64748B' }}>(not in unit pool)</span>}
+                            {enteredNote(current ? (disagrees ? `Entered: ${current.killCount}` : 'Matches entry') : 'Not entered', disagrees)}
+                          </span>
+                          <span style={{
+                            padding: '2px 6px',
+                            borderRadius: '4px',
+                            fontSize: '11px',
+                            fontWeight: 600,
+                            color: '#FFFFFF',
+                            backgroundColor: categoryColors[kill.unit.kill_category]
+                          }}>
+                            {kill.unit.kill_category}
+                          </span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                </>
+              )}
+
+              {enteredOnly.length > 0 && (
+                <>
+                  <div style={sectionLabel}>Entered but not in the file</div>
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                    {enteredOnly.map(kill => (
+                      <div key={`${kill.pilotId}|${kill.unitTypeId}|${kill.isFriendly}`} style={{ ...rowStyle(false, true), cursor: 'default' }}>
+                        <strong>{pilotLabel(kill.pilotId)}</strong> — {kill.killCount} × {kill.unitDisplayName}
+                        {kill.isFriendly && <span style={{ color: '#DC2626' }}>(friendly fire)</span>}
+                      </div>
+                    ))}
+                  </div>
+                  <div style={{ marginTop: '6px', fontSize: '12px', color: '#64748B' }}>
+                    These stay as entered; remove them on the card if they're wrong.
+                  </div>
+                </>
+              )}
+
+              {proposals.unknownUnitTypes.length > 0 && (
+                <div style={{ marginTop: '8px', fontSize: '12px', color: '#64748B' }}>
+                  Not in the unit database, add by hand if needed: {proposals.unknownUnitTypes.join(', ')}
+                </div>
+              )}
+
+              {proposals.statuses.length > 0 && (
+                <>
+                  <div style={sectionLabel}>Pilot Status</div>
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                    {proposals.statuses.map(status => {
+                      const key = statusKey(status.pilotId);
+                      const current = enteredStatus(status.pilotId);
+                      const disagrees = statusDisagrees(status.pilotId, PILOT_MISSION_STATUS_LABELS[status.missionStatus]);
+                      return (
+                        <label key={key} style={rowStyle(selected.has(key), disagrees)}>
+                          <input type="checkbox" checked={selected.has(key)} onChange={() => toggle(key)} />
+                          <span style={{ flex: 1 }}>
+                            <strong>{pilotLabel(status.pilotId)}</strong> — {PILOT_MISSION_STATUS_LABELS[status.missionStatus]}
+                            <span style={{ marginLeft: '6px', color: '#64748B' }}>{status.reason}</span>
+                            {current && enteredNote(disagrees ? `Entered: ${current}` : 'Matches entry', disagrees)}
+                          </span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                </>
+              )}
+
+              {source === 'tacview' && (
+                <div style={{ marginTop: '12px', fontSize: '12px', color: '#64748B' }}>
+                  Gun kills can't be traced from a recording and need to be added by hand.
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            padding: '16px 24px',
+            borderTop: '1px solid #E2E8F0',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            backgroundColor: '#F8FAFC'
+          }}
+        >
+          {source === 'tacview' ? (
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: '#64748B' }}>
+              <input
+                type="checkbox"
+                checked={attachRecording}
+                onChange={(e) => setAttachRecording(e.target.checked)}
+              />
+              Attach recording to the mission debrief
+            </label>
+          ) : (
+            <div />
+          )}
+          <div style={{ display: 'flex', gap: '12px' }}>
+            <button
+              onClick={onClose}
+              style={{
+                padding: '8px 16px',
+                fontSize: '14px',
+                fontWeight: 500,
+                color: '#64748B',
+                backgroundColor: '#FFFFFF',
+                border: '1px solid #CBD5E1',
+                borderRadius: '6px',
+                cursor: 'pointer'
+              }}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={!hasProposals || selected.size === 0 || applying}
+              style={{
+                padding: '8px 16px',
+                fontSize: '14px',
+                fontWeight: 500,
+                color: '#FFFFFF',
+                backgroundColor: hasProposals && selected.size > 0 && !applying ? '#3B82F6' : '#CBD5E1',
+                border: 'none',
+                borderRadius: '6px',
+                cursor: hasProposals && selected.size > 0 && !applying ? 'pointer' : 'not-allowed'
+              }}
+            >
+              {applying ? 'Applying...' : 'Apply to Debrief'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DebriefImportDialog;
@@ -8,7 +8,7 @@ import KillCell from './kill-tracking/KillCell';
 import AddKillButton from './kill-tracking/AddKillButton';
 import { killTrackingService } from '../../services/killTrackingService';
 import { supabase } from '../../utils/supabaseClient';
-import type { MissionUnitPoolItem } from '../../types/DebriefingTypes';
+import type { DebriefEnteredEntries, DebriefImportProposals, MissionUnitPoolItem } from '../../types/DebriefingTypes';
 import type { PilotAssignment } from '../../types/MissionTypes';
 
 interface PilotInfo {
@@ -49,6 +49,8 @@ interface EnhancedKillTrackingCardV2Props {
 
 export interface EnhancedKillTrackingCardRef {
   saveKills: (overrideFlightDebriefId?: string) => Promise<void>;
+  applyImport: (proposals: DebriefImportProposals) => void;
+  getEntries: () => DebriefEnteredEntries;
 }
 
 /**
@@ -194,8 +196,71 @@ const EnhancedKillTrackingCardV2 = forwardRef<EnhancedKillTrackingCardRef, Enhan
         console.error('Failed to save kills:', err);
         throw err;
       }
-    }
-  }), [killRecords, originalKillIds, pilotStatuses, flightDebriefId, missionId]);
+    },
+
+    // Pre-fill confirmed Tacview/server log proposals; nothing is stored
+    // until the debrief is saved. Imported counts replace hand-entered ones
+    // for the same pilot and unit.
+    applyImport: (proposals: DebriefImportProposals) => {
+      const newUnits = proposals.kills
+        .map(k => k.unit)
+        .filter((unit, index, units) => units.findIndex(u => u.id === unit.id) === index)
+        .filter(unit => !missionPoolUnits.find(u => u.id === unit.id));
+      if (newUnits.length > 0) {
+        setMissionPoolUnits(prev => [...prev, ...newUnits]);
+      }
+
+      setKillRecords(prev => {
+        const updated = [...prev];
+        proposals.kills.forEach(kill => {
+          const index = updated.findIndex(
+            r => r.pilotId === kill.pilotId && r.unitTypeId === kill.unit.id && r.isFriendly === kill.isFriendly
+          );
+          const record: UnitKillRecord = {
+            id: index >= 0 ? updated[index].id : `temp-${Date.now()}-${Math.random()}`,
+            pilotId: kill.pilotId,
+            unitTypeId: kill.unit.id,
+            unitDisplayName: kill.unit.display_name,
+            unitTypeName: kill.unit.type_name,
+            killCount: kill.killCount,
+            killCategory: kill.unit.kill_category,
+            isFriendly: kill.isFriendly
+          };
+          if (index >= 0) {
+            updated[index] = record;
+          } else {
+            updated.push(record);
+          }
+        });
+        return updated;
+      });
+
+      setPilotStatuses(prev => {
+        const newMap = new Map(prev);
+        proposals.statuses.forEach(status => {
+          newMap.set(status.pilotId, {
+            pilotId: status.pilotId,
+            pilotStatus: status.pilotStatus,
+            aircraftStatus: status.aircraftStatus
+          });
+        });
+        return newMap;
+      });
+
+      onKillsChange?.(true);
+    },
+
+    getEntries: () => ({
+      kills: killRecords.map(r => ({
+        pilotId: r.pilotId,
+        unitTypeId: r.unitTypeId,
+        unitDisplayName: r.unitDisplayName,
+        killCount: r.killCount,
+        isFriendly: r.isFriendly
+      })),
+      statuses: Array.from(pilotStatuses.values())
+    })
+  }), [killRecords, originalKillIds, pilotStatuses, missionPoolUnits, flightDebriefId, missionId, onKillsChange]);
 
   useEffect(() => {
     loadData();
@@ -1,11 +1,17 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Save, X, AlertCircle } from 'lucide-react';
+import { Save, X, AlertCircle, Upload, FileText } from 'lucide-react';
 import PerformanceCategories from './PerformanceCategories';
 // import KillTracker, { type KillCounts } from './KillTracker';
 import EnhancedKillTrackingCard, { type EnhancedKillTrackingCardRef } from './EnhancedKillTrackingCard';
+import DebriefImportDialog from './DebriefImportDialog';
 // import PilotIDBadgeSm from '../ui/PilotIDBadgeSm';
 // import { useAppSettings } from '../../context/AppSettingsContext';
-import type { PerformanceRatingsFormState, PerformanceCategoryKey } from '../../types/DebriefingTypes';
+import type {
+  PerformanceRatingsFormState,
+  PerformanceCategoryKey,
+  DebriefEnteredEntries,
+  DebriefImportSource
+} from '../../types/DebriefingTypes';
 import type { PilotAssignment } from '../../types/MissionTypes';
 import { debriefingService } from '../../services/debriefingService';
 // import { killTrackingService } from '../../services/killTrackingService';
@@ -55,6 +61,8 @@ const FlightDebriefForm: React.FC<FlightDebriefFormProps> = ({
   const killTrackingRef = useRef<EnhancedKillTrackingCardRef>(null);
   const [pilots, setPilots] = useState<Array<{ id: string; callsign: string; boardNumber: number }>>([]);
   const [squadron, setSquadron] = useState<Squadron | null>(null);
+  const [importSource, setImportSource] = useState<DebriefImportSource | null>(null);
+  const [importEntries, setImportEntries] = useState<DebriefEnteredEntries>({ kills: [], statuses: [] });
 
   // Get flight lead info for display
   const flightLeadInfo = React.useMemo(() => {
@@ -237,6 +245,12 @@ const FlightDebriefForm: React.FC<FlightDebriefFormProps> = ({
     setHasUnsavedChanges(true);
   }, [ratings, comments, notes]);
 
+  // Snapshot what's on the kill tracking card so the import can flag disagreements
+  const openImport = (source: DebriefImportSource) => {
+    setImportEntries(killTrackingRef.current?.getEntries() || { kills: [], statuses: [] });
+    setImportSource(source);
+  };
+
   const handleClose = () => {
     console.log('[UNSAVED-CHANGES] handleClose called - hasUnsavedChanges:', hasUnsavedChanges, 'missionFinalized:', missionFinalized);
     if (hasUnsavedChanges && !missionFinalized) {
@@ -497,13 +511,52 @@ const FlightDebriefForm: React.FC<FlightDebriefFormProps> = ({
                 <div style={{ marginBottom: '24px', flexShrink: 0 }}>
                   <div
                     style={{
-                      fontSize: '14px',
-                      fontWeight: 600,
-                      color: '#475569',
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'space-between',
                       marginBottom: '12px'
                     }}
                   >
-                    Kill Tracking
+                    <div
+                      style={{
+                        fontSize: '14px',
+                        fontWeight: 600,
+                        color: '#475569'
+                      }}
+                    >
+                      Kill Tracking
+                    </div>
+                    {!missionFinalized && (
+                      <div style={{ display: 'flex', gap: '8px' }}>
+                        {([
+                          { source: 'tacview', label: 'Import Tacview', icon: Upload },
+                          { source: 'server_log', label: 'Import Server Log', icon: FileText }
+                        ] as const).map(({ source, label, icon: Icon }) => (
+                          <button
+                            key={source}
+                            type="button"
+                            onClick={() => openImport(source)}
+                            disabled={saving}
+                            style={{
+                              display: 'flex',
+                              alignItems: 'center',
+                              gap: '6px',
+                              padding: '4px 10px',
+                              fontSize: '12px',
+                              fontWeight: 500,
+                              color: '#475569',
+                              backgroundColor: '#FFFFFF',
+                              border: '1px solid #CBD5E1',
+                              borderRadius: '6px',
+                              cursor: saving ? 'not-allowed' : 'pointer'
+                            }}
+                          >
+                            <Icon size={14} />
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <EnhancedKillTrackingCard
                     ref={killTrackingRef}
@@ -717,6 +770,18 @@ const FlightDebriefForm: React.FC<FlightDebriefFormProps> = ({
           </div>
         </div>
       )}
+
+      {importSource && (
+        <DebriefImportDialog
+          source={importSource}
+          missionId={missionId}
+          missionDebriefingId={missionDebriefId}
+          pilots={pilots.map(p => ({ id: p.id, callsign: p.callsign, boardNumber: String(p.boardNumber) }))}
+          entered={importEntries}
+          onApply={(proposals) => killTrackingRef.current?.applyImport(proposals)}
+          onClose={() => setImportSource(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,366 @@
+import React, { useRef, useState } from 'react';
+import { X, Upload, FileText, AlertTriangle } from 'lucide-react';
+import { formatLsoDeviations, parseLsoTrapLog, type LsoTrapLog } from '../../utils/lsoGradeParser';
+import { lsoGradeService, type LsoPassMatch } from '../../services/lsoGradeService';
+import { gradeColor } from '../dossier/dossierStyles';
+
+interface LsoGradeImportDialogProps {
+  missionId: string;
+  missionName: string;
+  onClose: () => void;
+  onImported?: (count: number) => void;
+}
+
+const FORMAT_LABELS: Record<LsoTrapLog['format'], string> = {
+  event_log: 'server event log',
+  airboss_csv: 'AIRBOSS trap sheet',
+  text: 'LSO remarks'
+};
+
+/**
+ * Upload a carrier trap log for a mission and review the passes found in it
+ * before they are stored. Passes are matched to pilots on onboard number and
+ * callsign; unmatched and already imported passes are shown but not saved.
+ */
+const LsoGradeImportDialog: React.FC<LsoGradeImportDialogProps> = ({
+  missionId,
+  missionName,
+  onClose,
+  onImported
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [log, setLog] = useState<LsoTrapLog | null>(null);
+  const [matches, setMatches] = useState<LsoPassMatch[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isNight, setIsNight] = useState(false);
+  const [parsing, setParsing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFile = async (chosen: File, night: boolean) => {
+    setFile(chosen);
+    setMatches(null);
+    setError(null);
+    setParsing(true);
+    try {
+      const parsed = parseLsoTrapLog(await chosen.text(), night);
+      const result = await lsoGradeService.matchPasses(missionId, parsed.passes);
+      setLog(parsed);
+      setMatches(result);
+      setSelected(new Set(result.map((match, index) => (match.pilot && !match.duplicate ? index : -1)).filter(i => i >= 0)));
+    } catch (err) {
+      console.error('Failed to read trap log:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = event.target.files?.[0];
+    event.target.value = '';
+    if (!chosen) return;
+
+    if (!/\.(jsonl|json|log|txt|csv)$/i.test(chosen.name)) {
+      setError('Choose a .csv, .jsonl, .log or .txt file');
+      return;
+    }
+    await loadFile(chosen, isNight);
+  };
+
+  // Day/night isn't in every log, so changing it re-reads the file
+  const handleNightChange = async (night: boolean) => {
+    setIsNight(night);
+    if (file) await loadFile(file, night);
+  };
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!matches) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const count = await lsoGradeService.importPasses(missionId, matches.filter((_, index) => selected.has(index)));
+      onImported?.(count);
+      onClose();
+    } catch (err) {
+      console.error('Failed to import LSO grades:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import grades');
+      setImporting(false);
+    }
+  };
+
+  const unmatchedCount = matches?.filter(m => !m.pilot).length || 0;
+  const canImport = selected.size > 0 && !importing && !parsing;
+
+  const rowStyle = (isSelected: boolean, disabled: boolean): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    padding: '8px 12px',
+    border: `1px solid ${isSelected ? '#93C5FD' : '#E2E8F0'}`,
+    borderRadius: '6px',
+    backgroundColor: isSelected ? '#EFF6FF' : disabled ? '#F8FAFC' : '#FFFFFF',
+    cursor: disabled ? 'default' : 'pointer',
+    fontSize: '13px',
+    color: disabled ? '#94A3B8' : '#1E293B'
+  });
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1100,
+        padding: '20px'
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          width: '100%',
+          maxWidth: '640px',
+          maxHeight: '80vh',
+          backgroundColor: '#FFFFFF',
+          borderRadius: '8px',
+          boxShadow: '0px 10px 15px -3px rgba(0, 0, 0, 0.25)',
+          display: 'flex',
+          flexDirection: 'column',
+          overflow: 'hidden'
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          style={{
+            padding: '20px 24px',
+            borderBottom: '1px solid #E2E8F0',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between'
+          }}
+        >
+          <div>
+            <h3 style={{ fontSize: '18px', fontWeight: 600, color: '#1E293B', margin: '0 0 4px 0' }}>
+              Import LSO Grades
+            </h3>
+            <div style={{ fontSize: '14px', color: '#64748B' }}>{missionName}</div>
+          </div>
+          <button
+            onClick={onClose}
+            style={{
+              width: '32px',
+              height: '32px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              backgroundColor: '#F1F5F9',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              color: '#64748B'
+            }}
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div style={{ flex: 1, overflowY: 'auto', padding: '16px 24px' }}>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.jsonl,.json,.log,.txt"
+            onChange={handleFileChange}
+            style={{ display: 'none' }}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={parsing || importing}
+            style={{
+              width: '100%',
+              padding: '16px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: '8px',
+              fontSize: '14px',
+              color: '#475569',
+              backgroundColor: '#F8FAFC',
+              border: '2px dashed #CBD5E1',
+              borderRadius: '6px',
+              cursor: parsing || importing ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {file ? <FileText size={18} /> : <Upload size={18} />}
+            {parsing ? 'Reading file...' : file ? file.name : 'Choose trap log (AIRBOSS .csv, server log or LSO remarks)'}
+          </button>
+
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '12px', fontSize: '13px', color: '#64748B' }}>
+            <input
+              type="checkbox"
+              checked={isNight}
+              disabled={parsing || importing}
+              onChange={(e) => handleNightChange(e.target.checked)}
+            />
+            Night recovery (AIRBOSS Case III passes are always night)
+          </label>
+
+          {error && (
+            <div style={{ marginTop: '12px', fontSize: '13px', color: '#DC2626' }}>{error}</div>
+          )}
+
+          {log && matches && (
+            <>
+              <div style={{ marginTop: '12px', fontSize: '13px', color: '#64748B' }}>
+                {matches.length} {matches.length === 1 ? 'pass' : 'passes'} found in {FORMAT_LABELS[log.format]}
+                {log.skippedLines.length > 0 && `, ${log.skippedLines.length} line${log.skippedLines.length === 1 ? '' : 's'} skipped`}
+              </div>
+
+              {unmatchedCount > 0 && (
+                <div style={{
+                  marginTop: '12px',
+                  padding: '8px 12px',
+                  display: 'flex',
+                  gap: '8px',
+                  fontSize: '13px',
+                  color: '#92400E',
+                  backgroundColor: '#FFFBEB',
+                  border: '1px solid #FDE68A',
+                  borderRadius: '6px'
+                }}>
+                  <AlertTriangle size={16} style={{ flexShrink: 0, marginTop: '1px' }} />
+                  <span>
+                    {unmatchedCount} {unmatchedCount === 1 ? 'pass' : 'passes'} couldn't be matched to a pilot and won't be imported.
+                    Player names are matched on onboard number and callsign.
+                  </span>
+                </div>
+              )}
+
+              {matches.length === 0 ? (
+                <div style={{ textAlign: 'center', padding: '32px 0', color: '#64748B', fontSize: '14px' }}>
+                  No graded passes in this file
+                </div>
+              ) : (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginTop: '16px' }}>
+                  {matches.map((match, index) => {
+                    const disabled = !match.pilot || match.duplicate;
+                    const isSelected = selected.has(index);
+                    return (
+                      <label key={index} style={rowStyle(isSelected, disabled)}>
+                        <input
+                          type="checkbox"
+                          checked={isSelected}
+                          disabled={disabled}
+                          onChange={() => toggle(index)}
+                        />
+                        <span style={{
+                          minWidth: '44px',
+                          padding: '2px 6px',
+                          borderRadius: '4px',
+                          fontSize: '12px',
+                          fontWeight: 700,
+                          textAlign: 'center',
+                          color: '#FFFFFF',
+                          backgroundColor: gradeColor(match.pass.grade)
+                        }}>
+                          {match.pass.grade || '—'}
+                        </span>
+                        <span style={{ flex: 1 }}>
+                          <strong>
+                            {match.pilot ? `${match.pilot.boardNumber} ${match.pilot.callsign}` : match.pass.pilotName || 'Unknown pilot'}
+                          </strong>
+                          {match.pass.wireNumber && <span style={{ marginLeft: '6px' }}>{match.pass.wireNumber}-wire</span>}
+                          {match.pass.grooveTimeSeconds != null && (
+                            <span style={{ marginLeft: '6px', color: '#64748B' }}>{match.pass.grooveTimeSeconds}s</span>
+                          )}
+                          {match.pass.deviations.length > 0 && (
+                            <span style={{ marginLeft: '6px', fontFamily: 'monospace', fontSize: '12px', color: '#475569' }}>
+                              {formatLsoDeviations(match.pass.deviations)}
+                            </span>
+                          )}
+                          {!match.pilot && <span style={{ marginLeft: '6px', color: '#B45309' }}>(no matching pilot)</span>}
+                          {match.duplicate && <span style={{ marginLeft: '6px' }}>(already imported)</span>}
+                        </span>
+                        {match.pass.isNight && <span style={{ fontSize: '11px', color: '#64748B' }}>Night</span>}
+                      </label>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div style={{ marginTop: '12px', fontSize: '12px', color: '#64748B' }}>
+                Imported passes show as Tactical Paddles passes on the trap sheet until an LSO regrades them.
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            padding: '16px 24px',
+            borderTop: '1px solid #E2E8F0',
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: '12px',
+            backgroundColor: '#F8FAFC'
+          }}
+        >
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              fontSize: '14px',
+              fontWeight: 500,
+              color: '#64748B',
+              backgroundColor: '#FFFFFF',
+              border: '1px solid #CBD5E1',
+              borderRadius: '6px',
+              cursor: 'pointer'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!canImport}
+            style={{
+              padding: '8px 16px',
+              fontSize: '14px',
+              fontWeight: 500,
+              color: '#FFFFFF',
+              backgroundColor: canImport ? '#3B82F6' : '#CBD5E1',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: canImport ? 'pointer' : 'not-allowed'
+            }}
+          >
+            {importing ? 'Importing...' : `Import ${selected.size} ${selected.size === 1 ? 'Pass' : 'Passes'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LsoGradeImportDialog;
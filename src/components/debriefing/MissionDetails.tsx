@@ -3,12 +3,16 @@ import { missionDetailsStyles, squadronTileStyles } from '../../styles/Debriefin
 import FlightListItem from './FlightListItem';
 import FlightDebriefForm from './FlightDebriefForm';
 import MissionSummaryWithPopups from './MissionSummaryWithPopups';
+import LsoGradeImportDialog from './LsoGradeImportDialog';
+import AarExportDialog from './AarExportDialog';
+import MissionObjectivesStatus from './MissionObjectivesStatus';
 import type { PilotAssignment } from '../../types/MissionTypes';
-import type { FlightDebrief } from '../../types/DebriefingTypes';
+import type { FlightDebrief, MissionObjective } from '../../types/DebriefingTypes';
 import type { Squadron } from '../../utils/squadronService';
-import { ChevronDown } from 'lucide-react';
+import { ChevronDown, Anchor, FileText, RefreshCw } from 'lucide-react';
 import { debriefingService } from '../../services/debriefingService';
 import { killTrackingService } from '../../services/killTrackingService';
+import { useIsLsoQualified } from '../../hooks/useIsLsoQualified';
 
 interface MissionListItem {
   id: string;
@@ -75,6 +79,13 @@ const MissionDetails: React.FC<MissionDetailsProps> = ({
   const [updatingOutcome, setUpdatingOutcome] = useState(false);
   const [missionSummary, setMissionSummary] = useState<any>(null);
   const [loadingSummary, setLoadingSummary] = useState(false);
+  const [showLsoImport, setShowLsoImport] = useState(false);
+  // Trap logs are graded passes, so only LSOs bring them in
+  const canImportLsoGrades = useIsLsoQualified();
+  const [showAarExport, setShowAarExport] = useState(false);
+  const [objectives, setObjectives] = useState<MissionObjective[] | null>(null);
+  const [outcomeManual, setOutcomeManual] = useState(false);
+  const [assessingObjectives, setAssessingObjectives] = useState(false);
   const outcomeDropdownRef = useRef<HTMLDivElement>(null);
 
   // Load mission summary when missionDebriefId changes
@@ -99,6 +110,56 @@ const MissionDetails: React.FC<MissionDetailsProps> = ({
     loadMissionSummary();
   }, [missionDebriefId, flightDebriefs]); // Re-load when flight debriefs change
 
+  // Show the objectives as last assessed; assessing only happens when an AAR
+  // is saved or on request, so viewing a debrief never changes it
+  const selectedMissionId = selectedMission?.id;
+  useEffect(() => {
+    if (!selectedMissionId || !missionDebriefId) {
+      setObjectives(null);
+      setOutcomeManual(false);
+      return;
+    }
+
+    let cancelled = false;
+    debriefingService.getDebriefByMissionId(selectedMissionId)
+      .then(debrief => {
+        if (cancelled) return;
+        setObjectives(debrief?.mission_objectives || null);
+        setOutcomeManual(!!debrief?.mission_outcome_manual);
+      })
+      .catch(error => {
+        console.error('Failed to load mission objectives:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedMissionId, missionDebriefId]);
+
+  // Assess planned objectives against the kills recorded so far; they set the outcome
+  const reassessObjectives = async () => {
+    if (!missionDebriefId) return;
+
+    setAssessingObjectives(true);
+    try {
+      const assessed = await debriefingService.assessMissionObjectives(missionDebriefId);
+      if (assessed) {
+        setObjectives(assessed.mission_objectives || null);
+        setOutcomeManual(!!assessed.mission_outcome_manual);
+        onOutcomeUpdate?.();
+      }
+    } catch (error) {
+      console.error('Failed to assess mission objectives:', error);
+    } finally {
+      setAssessingObjectives(false);
+    }
+  };
+
+  const handleFormSuccess = async () => {
+    await reassessObjectives();
+    onFormSuccess();
+  };
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -166,6 +227,10 @@ const MissionDetails: React.FC<MissionDetailsProps> = ({
     { value: 'failure', label: 'Failure' }
   ];
 
+  // With planned objectives the outcome follows from them unless picked by hand
+  const hasObjectives = !!objectives && objectives.length > 0;
+  const outcomeFromObjectives = hasObjectives && !outcomeManual;
+
   return (
     <div style={missionDetailsStyles.container}>
       {/* Mission Header */}
@@ -185,6 +250,80 @@ const MissionDetails: React.FC<MissionDetailsProps> = ({
           </p>
         </div>
 
+        {canImportLsoGrades && (
+          <button
+            onClick={() => setShowLsoImport(true)}
+            style={{
+              alignSelf: 'flex-end',
+              padding: '8px 12px',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              fontSize: '14px',
+              fontFamily: 'Inter',
+              color: '#475569',
+              backgroundColor: '#FFFFFF',
+              border: '1px solid #CBD5E1',
+              borderRadius: '6px',
+              cursor: 'pointer'
+            }}
+          >
+            <Anchor size={16} />
+            Import LSO Grades
+          </button>
+        )}
+
+        {missionDebriefId && (
+          <button
+            onClick={() => setShowAarExport(true)}
+            style={{
+              alignSelf: 'flex-end',
+              marginLeft: '8px',
+              padding: '8px 12px',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              fontSize: '14px',
+              fontFamily: 'Inter',
+              color: '#475569',
+              backgroundColor: '#FFFFFF',
+              border: '1px solid #CBD5E1',
+              borderRadius: '6px',
+              cursor: 'pointer'
+            }}
+          >
+            <FileText size={16} />
+            Export AAR
+          </button>
+        )}
+
+        {missionDebriefId && !missionFinalized && (
+          <button
+            onClick={reassessObjectives}
+            disabled={assessingObjectives}
+            title="Assess the planned objectives against the kills recorded in the AARs"
+            style={{
+              alignSelf: 'flex-end',
+              marginLeft: '8px',
+              padding: '8px 12px',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              fontSize: '14px',
+              fontFamily: 'Inter',
+              color: '#475569',
+              backgroundColor: '#FFFFFF',
+              border: '1px solid #CBD5E1',
+              borderRadius: '6px',
+              cursor: assessingObjectives ? 'not-allowed' : 'pointer',
+              opacity: assessingObjectives ? 0.5 : 1
+            }}
+          >
+            <RefreshCw size={16} />
+            Re-assess Objectives
+          </button>
+        )}
+
         {/* Mission Outcome Selector */}
         <div style={{ minWidth: '200px', position: 'relative', marginRight: '16px' }} ref={outcomeDropdownRef}>
           <label style={{
@@ -194,7 +333,7 @@ const MissionDetails: React.FC<MissionDetailsProps> = ({
             color: '#64748B',
             marginBottom: '6px'
           }}>
-            Mission Outcome
+            Mission Outcome{outcomeFromObjectives && ' (from objectives)'}
           </label>
           <div
             onClick={() => setOutcomeDropdownOpen(!outcomeDropdownOpen)}
@@ -246,6 +385,7 @@ const MissionDetails: React.FC<MissionDetailsProps> = ({
                           option.value as 'pending' | 'success' | 'partial_success' | 'failure'
                         );
                         setOutcomeDropdownOpen(false);
+                        setOutcomeManual(option.value !== 'pending');
                         // Notify parent to refresh data
                         if (onOutcomeUpdate) {
                           onOutcomeUpdate();
@@ -293,6 +433,8 @@ const MissionDetails: React.FC<MissionDetailsProps> = ({
         />
       )}
 
+      {hasObjectives && <MissionObjectivesStatus objectives={objectives!} />}
+
       {/* After Action Reports Section */}
       <h3 style={{
         fontSize: '20px',
@@ -396,7 +538,23 @@ const MissionDetails: React.FC<MissionDetailsProps> = ({
           existingDebrief={flightDebriefs.get(selectedFlight.flightId)}
           missionFinalized={missionFinalized}
           onClose={onCloseForm}
-          onSuccess={onFormSuccess}
+          onSuccess={handleFormSuccess}
+        />
+      )}
+
+      {showLsoImport && (
+        <LsoGradeImportDialog
+          missionId={selectedMission.id}
+          missionName={selectedMission.name}
+          onClose={() => setShowLsoImport(false)}
+        />
+      )}
+
+      {showAarExport && (
+        <AarExportDialog
+          missionId={selectedMission.id}
+          missionName={selectedMission.name}
+          onClose={() => setShowAarExport(false)}
         />
       )}
     </div>
@@ -0,0 +1,85 @@
+import React from 'react';
+import { CheckCircle2, XCircle, CircleDot, Clock } from 'lucide-react';
+import type { MissionObjective, MissionObjectiveStatus } from '../../types/DebriefingTypes';
+import { objectiveUnitTotal, DEFAULT_REQUIRED_PERCENTAGE } from '../../utils/missionObjectiveUtils';
+
+interface MissionObjectivesStatusProps {
+  objectives: MissionObjective[];
+}
+
+const STATUS_DISPLAY: Record<MissionObjectiveStatus, { label: string; color: string; icon: React.ReactNode }> = {
+  pending: { label: 'Pending', color: '#64748B', icon: <Clock size={16} /> },
+  success: { label: 'Achieved', color: '#16A34A', icon: <CheckCircle2 size={16} /> },
+  partial: { label: 'Partial', color: '#D97706', icon: <CircleDot size={16} /> },
+  failure: { label: 'Not Achieved', color: '#DC2626', icon: <XCircle size={16} /> }
+};
+
+/**
+ * Planned objectives with how much of each target group has been recorded
+ * as destroyed in the AARs so far.
+ */
+const MissionObjectivesStatus: React.FC<MissionObjectivesStatusProps> = ({ objectives }) => (
+  <div style={{ marginBottom: '24px' }}>
+    <h3 style={{
+      fontSize: '20px',
+      fontWeight: 300,
+      color: '#646F7E',
+      fontFamily: 'Inter',
+      textTransform: 'uppercase',
+      letterSpacing: '0.5px',
+      marginBottom: '16px',
+      textAlign: 'center'
+    }}>
+      Objectives
+    </h3>
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      {objectives.map(objective => {
+        const status = STATUS_DISPLAY[objective.status] || STATUS_DISPLAY.pending;
+        const total = objectiveUnitTotal(objective);
+        const destroyed = objective.destroyed_count ?? 0;
+        const required = objective.required_percentage ?? DEFAULT_REQUIRED_PERCENTAGE;
+
+        return (
+          <div
+            key={objective.id}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '12px',
+              padding: '10px 14px',
+              border: '1px solid #E2E8F0',
+              borderRadius: '6px',
+              backgroundColor: '#FFFFFF',
+              fontFamily: 'Inter'
+            }}
+          >
+            <span style={{ color: status.color, display: 'flex' }}>{status.icon}</span>
+            <div style={{ flex: 1 }}>
+              <div style={{ fontSize: '14px', fontWeight: 500, color: '#1E293B' }}>
+                {objective.description}
+                <span style={{ marginLeft: '8px', fontSize: '12px', fontWeight: 400, color: '#64748B', textTransform: 'capitalize' }}>
+                  {objective.priority}
+                </span>
+              </div>
+              {total > 0 && (
+                <div style={{ fontSize: '12px', color: '#64748B' }}>
+                  {destroyed} of {total} destroyed · {required}% required
+                </div>
+              )}
+            </div>
+            {total > 0 && (
+              <div style={{ width: '120px', height: '8px', borderRadius: '4px', backgroundColor: '#E2E8F0', overflow: 'hidden' }}>
+                <div style={{ width: `${Math.min(100, (destroyed / total) * 100)}%`, height: '100%', backgroundColor: status.color }} />
+              </div>
+            )}
+            <span style={{ minWidth: '90px', textAlign: 'right', fontSize: '13px', fontWeight: 500, color: status.color }}>
+              {status.label}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default MissionObjectivesStatus;
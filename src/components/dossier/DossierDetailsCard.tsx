@@ -210,6 +210,14 @@ const DossierDetailsCard: React.FC<DossierDetailsCardProps> = ({
                       color={qual.color || undefined}
                     />
                     <span style={{ fontSize: '14px', color: '#0F172A', flex: 1 }}>{qual.name}</span>
+                    {qual.currency && qual.currency.status !== 'current' && (
+                      <span
+                        title={qual.currency.reason}
+                        style={{ fontSize: '12px', fontWeight: 500, color: qual.currency.status === 'lapsed' ? '#DC2626' : '#D97706' }}
+                      >
+                        {qual.currency.status === 'lapsed' ? 'Lapsed' : `Expires ${formatDossierDate(qual.currency.expiresAt)}`}
+                      </span>
+                    )}
                     <span style={{ fontSize: '12px', color: '#94A3B8' }}>
                       {formatDossierDate(qual.achieved_date)}
                     </span>
@@ -19,6 +19,8 @@ interface DossierMainTabsProps {
   traps: TrapRecord[];
   trapsLoading: boolean;
   scopeMissionIds: string[] | null;
+  lsoPilotId?: string | null;
+  onTrapUpdated?: (trap: TrapRecord) => void;
 }
 
 // Tab pill styling copied from AwardsManagerDialog
@@ -50,7 +52,9 @@ const DossierMainTabs: React.FC<DossierMainTabsProps> = ({
   killsLoading,
   traps,
   trapsLoading,
-  scopeMissionIds
+  scopeMissionIds,
+  lsoPilotId,
+  onTrapUpdated
 }) => {
   const [activeTab, setActiveTab] = useState<DossierTabId>('attendance');
 
@@ -85,7 +89,13 @@ const DossierMainTabs: React.FC<DossierMainTabsProps> = ({
           <DossierKillsTab kills={kills} loading={killsLoading} />
         )}
         {activeTab === 'trapsheet' && (
-          <DossierTrapSheetTab traps={traps} loading={trapsLoading} scopeMissionIds={scopeMissionIds} />
+          <DossierTrapSheetTab
+            traps={traps}
+            loading={trapsLoading}
+            scopeMissionIds={scopeMissionIds}
+            lsoPilotId={lsoPilotId}
+            onTrapUpdated={onTrapUpdated}
+          />
         )}
       </div>
     </div>
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { dossierStyles, formatDossierDate, gradeColor } from './dossierStyles';
+import { formatLsoDeviations, parseLsoDeviations } from '../../utils/lsoGradeParser';
+import { lsoGradeService } from '../../services/lsoGradeService';
+import type { TrapRecord } from '../../utils/dossierService';
+
+interface DossierRegradeDialogProps {
+  trap: TrapRecord;
+  lsoPilotId: string;
+  onCancel: () => void;
+  onSaved: (trap: TrapRecord) => void;
+}
+
+const GRADES = ['_OK_', 'OK', '(OK)', 'NG', 'B', 'C', 'WO', 'OWO', 'WOFD'];
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid #CBD5E1',
+  borderRadius: '6px',
+  fontSize: '14px',
+  boxSizing: 'border-box'
+};
+
+const buttonBase: React.CSSProperties = {
+  flex: 1,
+  padding: '10px 16px',
+  borderRadius: '6px',
+  fontSize: '14px',
+  fontWeight: 500,
+  cursor: 'pointer',
+  border: '1px solid'
+};
+
+/**
+ * Lets an LSO regrade a pass. Deviations are entered in the usual shorthand
+ * and previewed as they will be stored; points follow the grade.
+ */
+const DossierRegradeDialog: React.FC<DossierRegradeDialogProps> = ({ trap, lsoPilotId, onCancel, onSaved }) => {
+  const [grade, setGrade] = useState(trap.overall_grade || 'OK');
+  const [wire, setWire] = useState(trap.wire_number != null ? String(trap.wire_number) : '');
+  const [groove, setGroove] = useState(trap.groove_time_seconds != null ? String(trap.groove_time_seconds) : '');
+  const [deviations, setDeviations] = useState(formatLsoDeviations(trap.deviations));
+  const [isNight, setIsNight] = useState(!!trap.is_night);
+  const [comment, setComment] = useState(trap.grading_lso_id ? trap.lso_comment || '' : '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsedDeviations = parseLsoDeviations(deviations);
+  const isTrap = !['B', 'WO', 'OWO', 'WOFD'].includes(grade);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await lsoGradeService.regradePass(trap, {
+        grade,
+        wireNumber: isTrap && wire ? parseInt(wire, 10) : null,
+        grooveTimeSeconds: groove ? parseFloat(groove) : null,
+        deviations,
+        isNight,
+        lsoComment: comment.trim() || null
+      }, lsoPilotId);
+      onSaved(saved);
+    } catch (err) {
+      console.error('Error regrading pass:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save grade');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1002,
+        padding: '20px'
+      }}
+      onClick={onCancel}
+    >
+      <div
+        style={{
+          backgroundColor: '#FFFFFF',
+          borderRadius: '12px',
+          width: '100%',
+          maxWidth: '460px',
+          overflow: 'hidden',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25)'
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ padding: '24px 24px 8px 24px' }}>
+          <h2 style={{ fontSize: '18px', fontWeight: 600, color: '#1F2937', margin: '0 0 4px 0' }}>Regrade Pass</h2>
+          <div style={{ fontSize: '13px', color: '#6B7280' }}>
+            {formatDossierDate(trap.pass_time || trap.created_at)}
+            {!trap.grading_lso_id && ' — Tactical Paddles grade, kept in the remarks'}
+          </div>
+        </div>
+
+        <div style={{ padding: '8px 24px 16px 24px' }}>
+          <label style={dossierStyles.fieldLabel}>Grade</label>
+          <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap', marginBottom: '16px' }}>
+            {GRADES.map(option => (
+              <button
+                key={option}
+                onClick={() => setGrade(option)}
+                style={{
+                  padding: '4px 8px',
+                  borderRadius: '4px',
+                  border: `2px solid ${grade === option ? '#0F172A' : 'transparent'}`,
+                  backgroundColor: gradeColor(option),
+                  color: '#FFFFFF',
+                  fontSize: '12px',
+                  fontWeight: 700,
+                  cursor: 'pointer'
+                }}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: '12px', marginBottom: '16px' }}>
+            <div style={{ flex: 1 }}>
+              <label style={dossierStyles.fieldLabel}>Wire</label>
+              <select
+                value={isTrap ? wire : ''}
+                disabled={!isTrap}
+                onChange={(e) => setWire(e.target.value)}
+                style={inputStyle}
+              >
+                <option value="">—</option>
+                {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={dossierStyles.fieldLabel}>Groove (s)</label>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={groove}
+                onChange={(e) => setGroove(e.target.value)}
+                style={inputStyle}
+              />
+            </div>
+            <label style={{ display: 'flex', alignItems: 'flex-end', gap: '6px', paddingBottom: '10px', fontSize: '14px', color: '#64748B' }}>
+              <input type="checkbox" checked={isNight} onChange={(e) => setIsNight(e.target.checked)} />
+              Night
+            </label>
+          </div>
+
+          <label style={dossierStyles.fieldLabel}>Deviations</label>
+          <input
+            value={deviations}
+            onChange={(e) => setDeviations(e.target.value)}
+            placeholder="(LUL)X _F_IM LOIC"
+            style={{ ...inputStyle, fontFamily: 'monospace' }}
+          />
+          <div style={{ fontSize: '12px', color: '#64748B', margin: '6px 0 16px 0', minHeight: '16px' }}>
+            {parsedDeviations.map(d => [
+              d.severity === 'major' ? 'Very' : d.severity === 'minor' ? 'A little' : null,
+              (d.description || d.code).toLowerCase(),
+              d.phase
+            ].filter(Boolean).join(' ')).join(', ')}
+          </div>
+
+          <label style={dossierStyles.fieldLabel}>LSO Comment</label>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit' }}
+          />
+
+          {error && <div style={{ marginTop: '12px', fontSize: '13px', color: '#DC2626' }}>{error}</div>}
+        </div>
+
+        <div style={{ display: 'flex', gap: '8px', padding: '8px 24px 24px 24px' }}>
+          <button
+            onClick={onCancel}
+            disabled={saving}
+            style={{ ...buttonBase, backgroundColor: '#FFFFFF', borderColor: '#D1D5DB', color: '#374151' }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            style={{ ...buttonBase, backgroundColor: '#3B82F6', borderColor: '#3B82F6', color: '#FFFFFF', opacity: saving ? 0.6 : 1 }}
+          >
+            {saving ? 'Saving...' : 'Save Grade'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DossierRegradeDialog;
@@ -1,6 +1,8 @@
 import React, { useMemo, useState } from 'react';
-import { ChevronDown } from 'lucide-react';
-import { dossierStyles, formatDossierDate } from './dossierStyles';
+import { ChevronDown, Pencil } from 'lucide-react';
+import { dossierStyles, formatDossierDate, gradeColor } from './dossierStyles';
+import DossierRegradeDialog from './DossierRegradeDialog';
+import { formatLsoDeviations, type LsoDeviation } from '../../utils/lsoGradeParser';
 import type { TrapRecord } from '../../utils/dossierService';
 
 interface DossierTrapSheetTabProps {
@@ -8,37 +10,25 @@ interface DossierTrapSheetTabProps {
   loading: boolean;
   // Mission IDs covered by the page-level scope; null = career (no filtering)
   scopeMissionIds: string[] | null;
+  // Set when the viewer may regrade passes (an LSO, or a dossier editor)
+  lsoPilotId?: string | null;
+  onTrapUpdated?: (trap: TrapRecord) => void;
 }
 
-// Greenie-board color conventions per LSO NATOPS grading
-const GRADE_COLORS: Record<string, string> = {
-  '_OK_': '#15803D',
-  'OK': '#22C55E',
-  '(OK)': '#EAB308',
-  'B': '#3B82F6',
-  'BOLTER': '#3B82F6',
-  '--': '#B45309',
-  'NG': '#B45309',
-  'NO GRADE': '#B45309',
-  'C': '#DC2626',
-  'CUT': '#DC2626',
-  'WO': '#7F1D1D',
-  'OWO': '#7F1D1D',
-  'WOFD': '#7F1D1D'
-};
-
 const GRADE_OPTIONS = ['_OK_', 'OK', '(OK)', 'B', 'NG', 'C', 'WO'];
 
-function gradeColor(grade: string | null): string {
-  if (!grade) return '#94A3B8';
-  return GRADE_COLORS[grade.toUpperCase()] || GRADE_COLORS[grade] || '#94A3B8';
-}
+// Older grades stored deviations as plain strings or { name } objects
+type StoredDeviation = string | (Partial<LsoDeviation> & { name?: string }) | null;
 
-function formatDeviations(deviations: any): string {
+function formatDeviations(deviations: unknown): string {
   if (!deviations) return '—';
   if (Array.isArray(deviations)) {
-    return deviations
-      .map((d: any) => (typeof d === 'string' ? d : d?.code || d?.name || JSON.stringify(d)))
+    return (deviations as StoredDeviation[])
+      .map(d => {
+        if (typeof d === 'string') return d;
+        if (d?.code) return formatLsoDeviations([d as LsoDeviation]);
+        return d?.name || JSON.stringify(d);
+      })
       .join(' ');
   }
   if (typeof deviations === 'string') return deviations;
@@ -71,10 +61,17 @@ const cellStyle: React.CSSProperties = {
   whiteSpace: 'nowrap'
 };
 
-const DossierTrapSheetTab: React.FC<DossierTrapSheetTabProps> = ({ traps, loading, scopeMissionIds }) => {
+const DossierTrapSheetTab: React.FC<DossierTrapSheetTabProps> = ({
+  traps,
+  loading,
+  scopeMissionIds,
+  lsoPilotId = null,
+  onTrapUpdated
+}) => {
   const [sourceFilter, setSourceFilter] = useState<'all' | 'lso' | 'tactical-paddles'>('all');
   const [gradeFilter, setGradeFilter] = useState<string>('all');
   const [timeFilter, setTimeFilter] = useState<'all' | 'day' | 'night'>('all');
+  const [regradeTrap, setRegradeTrap] = useState<TrapRecord | null>(null);
 
   const filteredTraps = useMemo(() => {
     const scopeSet = scopeMissionIds === null ? null : new Set(scopeMissionIds);
@@ -207,6 +204,7 @@ const DossierTrapSheetTab: React.FC<DossierTrapSheetTabProps> = ({ traps, loadin
                 <th style={headerCellStyle}>Groove</th>
                 <th style={headerCellStyle}>Deviations</th>
                 <th style={{ ...headerCellStyle, whiteSpace: 'normal' }}>Remarks</th>
+                {lsoPilotId && <th style={headerCellStyle} />}
               </tr>
             </thead>
             <tbody>
@@ -240,12 +238,35 @@ const DossierTrapSheetTab: React.FC<DossierTrapSheetTabProps> = ({ traps, loadin
                   <td style={{ ...cellStyle, whiteSpace: 'normal', color: '#64748B', fontSize: '12px' }}>
                     {trap.lso_comment || trap.remarks || '—'}
                   </td>
+                  {lsoPilotId && (
+                    <td style={cellStyle}>
+                      <button
+                        onClick={() => setRegradeTrap(trap)}
+                        title="Regrade pass"
+                        style={{ background: 'none', border: 'none', padding: '2px', cursor: 'pointer', color: '#64748B', display: 'flex' }}
+                      >
+                        <Pencil size={14} />
+                      </button>
+                    </td>
+                  )}
                 </tr>
               ))}
             </tbody>
           </table>
         </>
       )}
+
+      {regradeTrap && lsoPilotId && (
+        <DossierRegradeDialog
+          trap={regradeTrap}
+          lsoPilotId={lsoPilotId}
+          onCancel={() => setRegradeTrap(null)}
+          onSaved={(saved) => {
+            setRegradeTrap(null);
+            onTrapUpdated?.(saved);
+          }}
+        />
+      )}
     </>
   );
 };
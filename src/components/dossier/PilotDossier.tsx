@@ -15,6 +15,7 @@ import { ConfirmationDialog } from '../ui/dialogs/ConfirmationDialog';
 import DossierGapWarningDialog from './DossierGapWarningDialog';
 import AwardsManagerDialog from './AwardsManagerDialog';
 import { getPilotAwards, type PilotAward } from '../../utils/awardService';
+import { useIsLsoQualified } from '../../hooks/useIsLsoQualified';
 import {
   getDossierProfile,
   getDossierStats,
@@ -172,6 +173,16 @@ const PilotDossier: React.FC = () => {
     });
   }, [permissionsLoading, selectedPilotId, isOwnDossier, hasPermission, selectedPilotOption]);
 
+  // Holding the LSO qualification lets a pilot regrade anyone's passes
+  const isLso = useIsLsoQualified();
+
+  // The regrade is recorded against the viewer's own pilot record
+  const lsoPilotId = ownPilotId && (isLso || canEdit) ? ownPilotId : null;
+
+  const handleTrapUpdated = (updated: TrapRecord) => {
+    setTraps(prev => prev.map(trap => (trap.id === updated.id ? updated : trap)));
+  };
+
   // Load per-pilot data (Discord identity, profile/timeline, traps)
   const loadPilotData = async (pilotId: string) => {
     setProfileLoading(true);
@@ -476,6 +487,8 @@ const PilotDossier: React.FC = () => {
               traps={traps}
               trapsLoading={trapsLoading}
               scopeMissionIds={scopeMissionIds}
+              lsoPilotId={lsoPilotId}
+              onTrapUpdated={handleTrapUpdated}
             />
             <DossierAwardsCard
               awards={scopedAwards}
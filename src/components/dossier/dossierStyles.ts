@@ -117,3 +117,25 @@ export function formatDossierDate(date: string | null | undefined): string {
   if (isNaN(parsed.getTime())) return '—';
   return parsed.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
 }
+
+// Greenie-board color conventions per LSO NATOPS grading
+const GRADE_COLORS: Record<string, string> = {
+  '_OK_': '#15803D',
+  'OK': '#22C55E',
+  '(OK)': '#EAB308',
+  'B': '#3B82F6',
+  'BOLTER': '#3B82F6',
+  '--': '#B45309',
+  'NG': '#B45309',
+  'NO GRADE': '#B45309',
+  'C': '#DC2626',
+  'CUT': '#DC2626',
+  'WO': '#7F1D1D',
+  'OWO': '#7F1D1D',
+  'WOFD': '#7F1D1D'
+};
+
+export function gradeColor(grade: string | null): string {
+  if (!grade) return '#94A3B8';
+  return GRADE_COLORS[grade.toUpperCase()] || GRADE_COLORS[grade] || '#94A3B8';
+}
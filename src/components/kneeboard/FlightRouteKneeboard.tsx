@@ -0,0 +1,186 @@
+import React from 'react';
+import { Route } from 'lucide-react';
+import { formatEta, summarizeLoadout } from '../../utils/flightRouteUtils';
+import type { LoadoutStation, RouteWaypoint } from '../../types/FlightRouteTypes';
+
+interface ThemeColors {
+  background: string;
+  backgroundSecondary: string;
+  text: string;
+  textSecondary: string;
+  border: string;
+  accent: string;
+}
+
+// The parts of a mission row the route card reads
+interface RouteCardMission {
+  id: string;
+  flights?: Array<{
+    id: string;
+    callsign: string;
+    displayCallsign?: string;
+    flight_data?: { route?: RouteWaypoint[]; loadout?: LoadoutStation[] };
+  }> | null;
+  pilot_assignments?: Record<string, Array<{ pilotId?: string; pilot_id?: string }>> | null;
+}
+
+interface FlightRouteKneeboardProps {
+  pilotId: string | null;
+  theme: 'light' | 'dark';
+  colors: ThemeColors;
+  selectedMissionId: string | null;
+  missions: RouteCardMission[];
+}
+
+interface RouteCardFlight {
+  id: string;
+  label: string;
+  route: RouteWaypoint[];
+  loadout: LoadoutStation[];
+}
+
+const FlightRouteKneeboard: React.FC<FlightRouteKneeboardProps> = ({
+  pilotId,
+  theme,
+  colors,
+  selectedMissionId,
+  missions
+}) => {
+  const mission = missions.find(m => m.id === selectedMissionId);
+
+  const allFlights: RouteCardFlight[] = (mission?.flights || []).map(flight => ({
+    id: flight.id,
+    label: flight.displayCallsign || flight.callsign,
+    route: Array.isArray(flight.flight_data?.route) ? flight.flight_data.route : [],
+    loadout: Array.isArray(flight.flight_data?.loadout) ? flight.flight_data.loadout : []
+  }));
+
+  // Show the pilot's own flight when they're assigned, otherwise every flight's route
+  const myFlights = pilotId
+    ? allFlights.filter(flight =>
+        (mission?.pilot_assignments?.[flight.id] || []).some(p => (p.pilotId || p.pilot_id) === pilotId)
+      )
+    : [];
+  const flights = (myFlights.length > 0 ? myFlights : allFlights)
+    .filter(flight => flight.route.length > 0 || flight.loadout.length > 0);
+
+  if (flights.length === 0) {
+    return (
+      <div style={{
+        padding: '48px 24px',
+        textAlign: 'center',
+        color: colors.textSecondary
+      }}>
+        <Route size={48} style={{ margin: '0 auto 16px auto', opacity: 0.3 }} />
+        <p style={{ fontSize: '24px', margin: '0 0 8px 0' }}>No Route Available</p>
+        <p style={{ fontSize: '18px', margin: 0 }}>Steerpoints will appear here once the mission file is imported in Mission Preparation.</p>
+      </div>
+    );
+  }
+
+  const headerCellStyle: React.CSSProperties = {
+    padding: '12px 8px',
+    backgroundColor: theme === 'dark' ? 'rgba(124, 58, 237, 0.2)' : 'rgba(124, 58, 237, 0.1)',
+    border: `1px solid ${colors.border}`,
+    borderBottom: `2px solid ${colors.accent}`,
+    fontSize: '22px',
+    fontWeight: 700,
+    color: colors.text,
+    textAlign: 'left',
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px'
+  };
+
+  const cellStyle: React.CSSProperties = {
+    padding: '10px 8px',
+    border: `1px solid ${colors.border}`,
+    borderTop: 'none',
+    fontSize: '22px',
+    fontWeight: 500,
+    color: colors.text,
+    textAlign: 'left'
+  };
+
+  return (
+    <div style={{ padding: '8px 0' }}>
+      {flights.map(flight => (
+        <div key={flight.id} style={{ marginBottom: '32px' }}>
+          {/* Header */}
+          <div style={{
+            marginBottom: '16px',
+            paddingBottom: '12px',
+            borderBottom: `2px solid ${colors.border}`
+          }}>
+            <h2 style={{
+              margin: 0,
+              fontSize: '28px',
+              fontWeight: 700,
+              color: colors.text,
+              textAlign: 'center',
+              letterSpacing: '2px',
+              textTransform: 'uppercase'
+            }}>
+              {flight.label} ROUTE
+            </h2>
+          </div>
+
+          {flight.route.length > 0 && (
+            <table style={{ width: '100%', borderCollapse: 'separate', borderSpacing: 0 }}>
+              <thead>
+                <tr>
+                  <th style={{ ...headerCellStyle, textAlign: 'center' }}>WP</th>
+                  <th style={{ ...headerCellStyle, borderLeft: 'none' }}>Name / Task</th>
+                  <th style={{ ...headerCellStyle, borderLeft: 'none' }}>Position</th>
+                  <th style={{ ...headerCellStyle, borderLeft: 'none' }}>Alt</th>
+                  <th style={{ ...headerCellStyle, borderLeft: 'none' }}>Spd</th>
+                  <th style={{ ...headerCellStyle, borderLeft: 'none' }}>ETA</th>
+                </tr>
+              </thead>
+              <tbody>
+                {flight.route.map((waypoint, index) => (
+                  <tr
+                    key={waypoint.number}
+                    style={{ backgroundColor: index % 2 === 0 ? colors.backgroundSecondary : 'transparent' }}
+                  >
+                    <td style={{ ...cellStyle, textAlign: 'center', fontWeight: 600, fontFamily: 'monospace' }}>
+                      {waypoint.number}
+                    </td>
+                    <td style={{ ...cellStyle, borderLeft: 'none' }}>
+                      {waypoint.name || '——'}
+                      {waypoint.task && (
+                        <div style={{ fontSize: '18px', color: colors.textSecondary }}>{waypoint.task}</div>
+                      )}
+                    </td>
+                    <td style={{ ...cellStyle, borderLeft: 'none', fontFamily: 'monospace', fontSize: '18px' }}>
+                      {waypoint.coordinate || '——'}
+                    </td>
+                    <td style={{ ...cellStyle, borderLeft: 'none', fontFamily: 'monospace' }}>
+                      {waypoint.altitudeFt.toLocaleString()}{waypoint.altitudeType === 'RADIO' ? ' AGL' : ''}
+                    </td>
+                    <td style={{ ...cellStyle, borderLeft: 'none', fontFamily: 'monospace' }}>
+                      {waypoint.speedKts}
+                    </td>
+                    <td style={{ ...cellStyle, borderLeft: 'none', fontFamily: 'monospace' }}>
+                      {formatEta(waypoint.etaSeconds)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {flight.loadout.length > 0 && (
+            <div style={{ marginTop: '16px', fontSize: '22px', color: colors.text }}>
+              <span style={{ fontWeight: 700, textTransform: 'uppercase', color: colors.textSecondary }}>
+                Loadout:
+              </span>{' '}
+              {summarizeLoadout(flight.loadout)}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FlightRouteKneeboard;
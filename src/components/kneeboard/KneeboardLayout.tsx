@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { Sun, Moon, Menu, X, ChevronDown, ChevronLeft, ChevronRight, Home, LogOut } from 'lucide-react';
 import FlightAssignmentsKneeboard from './FlightAssignmentsKneeboard';
 import CommsPlanKneeboard from './CommsPlanKneeboard';
+import FlightRouteKneeboard from './FlightRouteKneeboard';
 import { useAuth } from '../../context/AuthContext';
 import { supabase } from '../../utils/supabaseClient';
 import type { Cycle } from '../../types/EventTypes';
@@ -35,6 +36,12 @@ type ThemeMode = 'light' | 'dark';
 const KNEEBOARD_WIDTH = 1358;
 const KNEEBOARD_HEIGHT = 2048;
 
+// Define page GUIDs (must be consistent across sessions)
+const PAGE_1_GUID = 'f8a8b3c1-4d2e-4f5a-9b1c-2d3e4f5a6b7c'; // Flight Assignments
+const PAGE_2_GUID = 'a1b2c3d4-5e6f-7a8b-9c0d-1e2f3a4b5c6d'; // Test Page
+const PAGE_3_GUID = 'c7d8e9f0-1a2b-4c3d-8e4f-5a6b7c8d9e0f'; // Flight Route
+const ALL_PAGE_GUIDS = [PAGE_1_GUID, PAGE_2_GUID, PAGE_3_GUID];
+
 const KneeboardLayout: React.FC = () => {
   const { userProfile, loading: authLoading } = useAuth();
   const [theme, setTheme] = useState<ThemeMode>(() => {
@@ -61,17 +68,13 @@ const KneeboardLayout: React.FC = () => {
   const [pageGuids, setPageGuids] = useState<string[]>([]);
   const [isOpenKneeboard, setIsOpenKneeboard] = useState(false);
 
-  // Define page GUIDs (must be consistent across sessions)
-  const PAGE_1_GUID = 'f8a8b3c1-4d2e-4f5a-9b1c-2d3e4f5a6b7c'; // Flight Assignments
-  const PAGE_2_GUID = 'a1b2c3d4-5e6f-7a8b-9c0d-1e2f3a4b5c6d'; // Test Page
-
   // Initialize OpenKneeboard page-based content
   useEffect(() => {
     const initializeOpenKneeboard = async () => {
       if (!window.OpenKneeboard) {
         console.log('[KNEEBOARD] Not running in OpenKneeboard context');
         // Default to page 1 when not in OpenKneeboard
-        setPageGuids([PAGE_1_GUID, PAGE_2_GUID]);
+        setPageGuids(ALL_PAGE_GUIDS);
         setCurrentPageGuid(PAGE_1_GUID);
         return;
       }
@@ -99,7 +102,10 @@ const KneeboardLayout: React.FC = () => {
         // Check if pages already exist
         const existingPages = await window.OpenKneeboard.GetPages();
 
-        if (existingPages.havePages && existingPages.pages.length > 0) {
+        // Pages saved by an older version (before the route page) are redefined below
+        const hasAllPages = ALL_PAGE_GUIDS.every(guid => existingPages.pages.some(p => p.guid === guid));
+
+        if (existingPages.havePages && existingPages.pages.length > 0 && hasAllPages) {
           console.log('[KNEEBOARD] Using existing pages:', existingPages.pages);
           const guids = existingPages.pages.map(p => p.guid);
           setPageGuids(guids);
@@ -116,12 +122,17 @@ const KneeboardLayout: React.FC = () => {
               guid: PAGE_2_GUID,
               pixelSize: { width: KNEEBOARD_WIDTH, height: KNEEBOARD_HEIGHT },
               extraData: { title: 'Comms Plan' }
+            },
+            {
+              guid: PAGE_3_GUID,
+              pixelSize: { width: KNEEBOARD_WIDTH, height: KNEEBOARD_HEIGHT },
+              extraData: { title: 'Flight Route' }
             }
           ];
 
           await window.OpenKneeboard.SetPages(pages);
           console.log('[KNEEBOARD] Pages initialized:', pages);
-          setPageGuids([PAGE_1_GUID, PAGE_2_GUID]);
+          setPageGuids(ALL_PAGE_GUIDS);
           setCurrentPageGuid(PAGE_1_GUID);
         }
 
@@ -134,7 +145,7 @@ const KneeboardLayout: React.FC = () => {
       } catch (error) {
         console.error('[KNEEBOARD] Error initializing OpenKneeboard:', error);
         // Fallback to page 1
-        setPageGuids([PAGE_1_GUID, PAGE_2_GUID]);
+        setPageGuids(ALL_PAGE_GUIDS);
         setCurrentPageGuid(PAGE_1_GUID);
       }
     };
@@ -881,6 +892,15 @@ const KneeboardLayout: React.FC = () => {
             commsData={commsData}
           />
         )}
+        {currentPageGuid === PAGE_3_GUID && (
+          <FlightRouteKneeboard
+            pilotId={userProfile?.pilotId || null}
+            theme={theme}
+            colors={colors}
+            selectedMissionId={selectedMissionId}
+            missions={missions}
+          />
+        )}
       </div>
     </div>
   );
@@ -44,6 +44,9 @@ interface SectionContextType {
   updateSectionProperty: (sectionTitle: string, property: string, value: any) => void;
   adjustRecoveryTime: (altitude: number, minutesToAdd: number) => void;
   createLaunchDivisionsFromStepTimes: (stepTimes: number[]) => void;
+  // Replace the whole board layout (e.g. when hydrating a shared coordination board).
+  // Passing nothing restores the default layout.
+  replaceSections: (sections?: Section[]) => void;
 }
 
 const defaultSections: Section[] = [
@@ -357,6 +360,10 @@ export const SectionProvider: React.FC<{ children: React.ReactNode }> = ({ child
     });
   }, []);
 
+  const replaceSections = React.useCallback((nextSections?: Section[]) => {
+    setSections(nextSections && nextSections.length > 0 ? nextSections : defaultSections);
+  }, []);
+
   return (
     <SectionContext.Provider value={{
       sections,
@@ -366,7 +373,8 @@ export const SectionProvider: React.FC<{ children: React.ReactNode }> = ({ child
       reorderDivisions,
       updateSectionProperty,
       adjustRecoveryTime,
-      createLaunchDivisionsFromStepTimes
+      createLaunchDivisionsFromStepTimes,
+      replaceSections
     }}>
       {children}
     </SectionContext.Provider>
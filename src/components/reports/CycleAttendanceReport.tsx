@@ -64,12 +64,15 @@ const CycleAttendanceReport: React.FC<CycleAttendanceReportProps> = ({ error, se
     showTotalSnivelsCount: false,
     showNoResponsePercent: false,
     showNoResponseCount: false,
+    showPlannedAbsencePercent: false,
+    showPlannedAbsenceCount: false,
     attendanceTrendLine: 'disabled',
     noShowsTrendLine: 'disabled',
     snivelsTrendLine: 'disabled',
     advancedSnivelsTrendLine: 'disabled',
     totalSnivelsTrendLine: 'disabled',
-    noResponseTrendLine: 'disabled'
+    noResponseTrendLine: 'disabled',
+    plannedAbsenceTrendLine: 'disabled'
   });
 
   // Load cycles and set default cycle
@@ -278,6 +281,15 @@ const CycleAttendanceReport: React.FC<CycleAttendanceReportProps> = ({ error, se
     handleFilterChange({ ...filters, showNoResponseCount: !filters.showNoResponseCount }, false);
   };
 
+  // Metric toggle handlers for Planned Absence
+  const handleTogglePlannedAbsencePercent = () => {
+    handleFilterChange({ ...filters, showPlannedAbsencePercent: !filters.showPlannedAbsencePercent }, false);
+  };
+
+  const handleTogglePlannedAbsenceCount = () => {
+    handleFilterChange({ ...filters, showPlannedAbsenceCount: !filters.showPlannedAbsenceCount }, false);
+  };
+
   // Clear all filters
   const handleClearFilters = () => {
     handleFilterChange({
@@ -295,17 +307,20 @@ const CycleAttendanceReport: React.FC<CycleAttendanceReportProps> = ({ error, se
       showTotalSnivelsCount: false,
       showNoResponsePercent: false,
       showNoResponseCount: false,
+      showPlannedAbsencePercent: false,
+      showPlannedAbsenceCount: false,
       attendanceTrendLine: 'disabled',
       noShowsTrendLine: 'disabled',
       snivelsTrendLine: 'disabled',
       advancedSnivelsTrendLine: 'disabled',
       totalSnivelsTrendLine: 'disabled',
-      noResponseTrendLine: 'disabled'
+      noResponseTrendLine: 'disabled',
+      plannedAbsenceTrendLine: 'disabled'
     });
   };
 
   // Trend line toggle handlers
-  const handleToggleTrendLine = (metricType: 'attendance' | 'noShows' | 'snivels' | 'advancedSnivels' | 'totalSnivels' | 'noResponse') => {
+  const handleToggleTrendLine = (metricType: 'attendance' | 'noShows' | 'snivels' | 'advancedSnivels' | 'totalSnivels' | 'noResponse' | 'plannedAbsence') => {
     const key = `${metricType}TrendLine` as keyof ReportFilters;
     const currentValue = filters[key] as 'disabled' | 'linear' | 'moving-average';
     const nextType =
@@ -872,6 +887,91 @@ const CycleAttendanceReport: React.FC<CycleAttendanceReportProps> = ({ error, se
           });
         }
       }
+
+      // Planned Absence Percent
+      if (filters.showPlannedAbsencePercent) {
+        const data = reportData.eventSquadronMetrics.map(event => {
+          const metrics = event.squadronMetrics.find(m => m.squadronId === squadron.id);
+          const percentage = metrics && metrics.totalPilots > 0
+            ? Math.round((metrics.plannedAbsenceCount / metrics.totalPilots) * 100)
+            : 0;
+          return percentage;
+        });
+
+        datasets.push({
+          label: `${squadron.designation} - Planned Absence`,
+          data,
+          borderColor: color,
+          backgroundColor: color + '20',
+          borderWidth: 2,
+          borderDash: [2, 4],
+          tension: 0.3,
+          yAxisID: 'y-percentage',
+          opacity: 0.5,
+          pointStyle: 'star'
+        });
+
+        // Add trend line if enabled
+        if (filters.plannedAbsenceTrendLine !== 'disabled') {
+          const trendData = filters.plannedAbsenceTrendLine === 'linear'
+            ? calculateLinearTrend(data)
+            : calculateMovingAverage(data);
+
+          datasets.push({
+            label: `${squadron.designation} - Planned Absence Trend`,
+            data: trendData,
+            borderColor: color,
+            backgroundColor: 'transparent',
+            borderWidth: 2,
+            borderDash: [10, 5],
+            tension: 0.3,
+            yAxisID: 'y-percentage',
+            pointStyle: false,
+            pointRadius: 0
+          });
+        }
+      }
+
+      // Planned Absence Count
+      if (filters.showPlannedAbsenceCount) {
+        const data = reportData.eventSquadronMetrics.map(event => {
+          const metrics = event.squadronMetrics.find(m => m.squadronId === squadron.id);
+          return metrics?.plannedAbsenceCount || 0;
+        });
+
+        datasets.push({
+          label: `${squadron.designation} - Planned Absence`,
+          data,
+          borderColor: color,
+          backgroundColor: color + '20',
+          borderWidth: 2,
+          borderDash: [2, 4],
+          tension: 0.3,
+          yAxisID: 'y-count',
+          opacity: 0.5,
+          pointStyle: 'star'
+        });
+
+        // Add trend line if enabled
+        if (filters.plannedAbsenceTrendLine !== 'disabled') {
+          const trendData = filters.plannedAbsenceTrendLine === 'linear'
+            ? calculateLinearTrend(data)
+            : calculateMovingAverage(data);
+
+          datasets.push({
+            label: `${squadron.designation} - Planned Absence Trend`,
+            data: trendData,
+            borderColor: color,
+            backgroundColor: 'transparent',
+            borderWidth: 2,
+            borderDash: [10, 5],
+            tension: 0.3,
+            yAxisID: 'y-count',
+            pointStyle: false,
+            pointRadius: 0
+          });
+        }
+      }
     });
 
     return { labels, datasets };
@@ -1082,7 +1182,7 @@ const CycleAttendanceReport: React.FC<CycleAttendanceReportProps> = ({ error, se
       },
       'y-percentage': {
         type: 'linear' as const,
-        display: filters.showAttendancePercent || filters.showNoShowsPercent || filters.showSnivelsPercent || filters.showAdvancedSnivelsPercent || filters.showTotalSnivelsPercent || filters.showNoResponsePercent,
+        display: filters.showAttendancePercent || filters.showNoShowsPercent || filters.showSnivelsPercent || filters.showAdvancedSnivelsPercent || filters.showTotalSnivelsPercent || filters.showNoResponsePercent || filters.showPlannedAbsencePercent,
         position: 'left' as const,
         title: {
           display: true,
@@ -1103,7 +1203,7 @@ const CycleAttendanceReport: React.FC<CycleAttendanceReportProps> = ({ error, se
       },
       'y-count': {
         type: 'linear' as const,
-        display: filters.showAttendanceCount || filters.showNoShowsCount || filters.showSnivelsCount || filters.showAdvancedSnivelsCount || filters.showTotalSnivelsCount || filters.showNoResponseCount,
+        display: filters.showAttendanceCount || filters.showNoShowsCount || filters.showSnivelsCount || filters.showAdvancedSnivelsCount || filters.showTotalSnivelsCount || filters.showNoResponseCount || filters.showPlannedAbsenceCount,
         position: 'right' as const,
         beginAtZero: true,
         title: {
@@ -1538,6 +1638,25 @@ const CycleAttendanceReport: React.FC<CycleAttendanceReportProps> = ({ error, se
                     onClick={() => handleToggleTrendLine('noResponse')}
                   />
                 </MetricRow>
+
+                <MetricRow label="Planned Absence">
+                  <MetricToggleButton
+                    active={filters.showPlannedAbsencePercent}
+                    onClick={handleTogglePlannedAbsencePercent}
+                  >
+                    %
+                  </MetricToggleButton>
+                  <MetricToggleButton
+                    active={filters.showPlannedAbsenceCount}
+                    onClick={handleTogglePlannedAbsenceCount}
+                  >
+                    Count
+                  </MetricToggleButton>
+                  <TrendLineToggleButton
+                    active={filters.plannedAbsenceTrendLine}
+                    onClick={() => handleToggleTrendLine('plannedAbsence')}
+                  />
+                </MetricRow>
               </div>
             </div>
           </div>
@@ -0,0 +1,375 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  ChartOptions
+} from 'chart.js';
+import { RefreshCw } from 'lucide-react';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import { fetchCycles, fetchDefaultCycle } from '../../utils/cycleAttendanceReportService';
+import { debriefAnalyticsService, AAR_DUE_HOURS } from '../../services/debriefAnalyticsService';
+import {
+  PERFORMANCE_CATEGORIES,
+  type CycleDebriefAnalytics,
+  type KillLossSummary,
+  type PerformanceCategoryKey
+} from '../../types/DebriefingTypes';
+import { CycleData } from '../../types/ReportTypes';
+
+// Register Chart.js components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface DebriefAnalyticsReportProps {
+  error: string | null;
+  setError: (error: string | null) => void;
+}
+
+// Categories rated UNSAT at least this often are flagged
+const UNSAT_WARNING_PERCENT = 25;
+
+const selectStyle: React.CSSProperties = {
+  fontFamily: 'Inter',
+  fontSize: '14px',
+  padding: '8px 12px',
+  borderRadius: '6px',
+  border: '1px solid #E2E8F0',
+  backgroundColor: 'white',
+  color: '#1E293B',
+  cursor: 'pointer'
+};
+
+const sectionTitleStyle: React.CSSProperties = {
+  fontSize: '16px',
+  fontWeight: 600,
+  color: '#1E293B',
+  margin: '32px 0 12px 0'
+};
+
+const headerCellStyle: React.CSSProperties = {
+  padding: '10px 12px',
+  fontSize: '12px',
+  fontWeight: 600,
+  color: '#64748B',
+  textTransform: 'uppercase',
+  textAlign: 'right',
+  borderBottom: '1px solid #E2E8F0'
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  fontSize: '14px',
+  color: '#1E293B',
+  textAlign: 'right',
+  borderBottom: '1px solid #F1F5F9'
+};
+
+const formatRatio = (summary: KillLossSummary) => {
+  if (summary.killLossRatio !== null) return summary.killLossRatio.toFixed(2);
+  return summary.kills > 0 ? `${summary.kills}:0` : '—';
+};
+
+const KillLossTable: React.FC<{ title: string; rows: KillLossSummary[] }> = ({ title, rows }) => (
+  <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+    <thead>
+      <tr>
+        <th style={{ ...headerCellStyle, textAlign: 'left' }}>{title}</th>
+        <th style={headerCellStyle}>Sorties</th>
+        <th style={headerCellStyle}>Kills</th>
+        <th style={headerCellStyle}>Losses</th>
+        <th style={headerCellStyle}>K:L</th>
+        <th style={headerCellStyle}>Pilots KIA/MIA</th>
+        <th style={headerCellStyle}>Fratricide</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map(row => (
+        <tr key={row.key}>
+          <td style={{ ...cellStyle, textAlign: 'left' }}>{row.label}</td>
+          <td style={cellStyle}>{row.sorties}</td>
+          <td style={cellStyle}>{row.kills}</td>
+          <td style={cellStyle}>{row.losses}</td>
+          <td style={{ ...cellStyle, fontWeight: 600 }}>{formatRatio(row)}</td>
+          <td style={cellStyle}>{row.pilotsLost}</td>
+          <td style={{ ...cellStyle, color: row.friendlyKills > 0 ? '#DC2626' : cellStyle.color }}>{row.friendlyKills}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const DebriefAnalyticsReport: React.FC<DebriefAnalyticsReportProps> = ({ error, setError }) => {
+  const [cycles, setCycles] = useState<CycleData[]>([]);
+  const [selectedCycleId, setSelectedCycleId] = useState<string | null>(null);
+  const [analytics, setAnalytics] = useState<CycleDebriefAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Load cycles, defaulting to the current one
+  useEffect(() => {
+    const loadCycles = async () => {
+      try {
+        setLoading(true);
+        const cyclesData = await fetchCycles();
+        setCycles(cyclesData);
+
+        const defaultCycle = await fetchDefaultCycle();
+        if (defaultCycle) {
+          setSelectedCycleId(defaultCycle.id);
+        } else if (cyclesData.length > 0) {
+          setSelectedCycleId(cyclesData[0].id);
+        } else {
+          setLoading(false);
+        }
+      } catch (err) {
+        console.error('Error loading cycles:', err);
+        setError('Failed to load cycles');
+        setLoading(false);
+      }
+    };
+
+    loadCycles();
+  }, [setError]);
+
+  const loadAnalytics = useCallback(async (cycleId: string) => {
+    try {
+      setAnalytics(await debriefAnalyticsService.getCycleAnalytics(cycleId));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading debrief analytics:', err);
+      setError('Failed to load debrief analytics');
+    }
+  }, [setError]);
+
+  useEffect(() => {
+    if (selectedCycleId) {
+      setLoading(true);
+      loadAnalytics(selectedCycleId).finally(() => setLoading(false));
+    }
+  }, [selectedCycleId, loadAnalytics]);
+
+  const handleRefresh = async () => {
+    if (!selectedCycleId) return;
+    setRefreshing(true);
+    await loadAnalytics(selectedCycleId);
+    setRefreshing(false);
+  };
+
+  const trendData = useMemo(() => ({
+    labels: (analytics?.trend || []).map(point => point.missionName),
+    datasets: [
+      {
+        label: 'Kills',
+        data: (analytics?.trend || []).map(point => point.kills),
+        borderColor: '#10B981',
+        backgroundColor: 'rgba(16, 185, 129, 0.1)',
+        tension: 0.3
+      },
+      {
+        label: 'Aircraft Lost',
+        data: (analytics?.trend || []).map(point => point.losses),
+        borderColor: '#F59E0B',
+        backgroundColor: 'rgba(245, 158, 11, 0.1)',
+        tension: 0.3
+      },
+      {
+        label: 'Pilots KIA/MIA',
+        data: (analytics?.trend || []).map(point => point.pilotsLost),
+        borderColor: '#64748B',
+        backgroundColor: 'rgba(100, 116, 139, 0.1)',
+        tension: 0.3
+      },
+      {
+        label: 'Fratricide',
+        data: (analytics?.trend || []).map(point => point.friendlyKills),
+        borderColor: '#DC2626',
+        backgroundColor: 'rgba(220, 38, 38, 0.1)',
+        tension: 0.3
+      }
+    ]
+  }), [analytics]);
+
+  const trendOptions: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { position: 'top' }
+    },
+    scales: {
+      y: { beginAtZero: true, ticks: { precision: 0 } }
+    }
+  };
+
+  if (loading) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '400px' }}>
+        <div style={{ textAlign: 'center' }}>
+          <div style={{ marginBottom: '16px' }}>
+            <LoadingSpinner size="large" color="#82728C" />
+          </div>
+          <p style={{ fontFamily: 'Inter', color: '#64748B', fontSize: '14px' }}>Loading report data...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ fontFamily: 'Inter' }}>
+      {/* Header with controls */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '24px', flexWrap: 'wrap' }}>
+        <select
+          value={selectedCycleId || ''}
+          onChange={e => setSelectedCycleId(e.target.value)}
+          style={{ ...selectStyle, minWidth: '320px' }}
+        >
+          {cycles.map(cycle => (
+            <option key={cycle.id} value={cycle.id}>
+              {cycle.name}
+            </option>
+          ))}
+        </select>
+
+        <button
+          onClick={handleRefresh}
+          disabled={refreshing}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            padding: '8px 12px',
+            borderRadius: '6px',
+            border: '1px solid #E2E8F0',
+            backgroundColor: 'white',
+            color: '#64748B',
+            fontSize: '14px',
+            fontFamily: 'Inter',
+            cursor: refreshing ? 'not-allowed' : 'pointer',
+            opacity: refreshing ? 0.6 : 1
+          }}
+        >
+          <RefreshCw size={16} className={refreshing ? 'animate-spin' : ''} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ color: '#DC2626', fontSize: '14px', marginBottom: '16px' }}>{error}</div>
+      )}
+
+      {!analytics || analytics.flightCount === 0 ? (
+        <div style={{ textAlign: 'center', padding: '48px', color: '#64748B', fontSize: '14px' }}>
+          No flights have been flown in this cycle yet.
+        </div>
+      ) : (
+        <>
+          <p style={{ fontSize: '14px', color: '#64748B', margin: 0 }}>
+            {analytics.flightCount} flight{analytics.flightCount === 1 ? '' : 's'} across {analytics.missionCount} mission{analytics.missionCount === 1 ? '' : 's'}.
+            Scrubbed flights are left out.
+          </p>
+
+          <h3 style={sectionTitleStyle}>Performance Ratings</h3>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={{ ...headerCellStyle, textAlign: 'left' }}>Category</th>
+                <th style={headerCellStyle}>SAT</th>
+                <th style={headerCellStyle}>UNSAT</th>
+                <th style={{ ...headerCellStyle, width: '40%' }}>SAT Rate</th>
+              </tr>
+            </thead>
+            <tbody>
+              {analytics.categoryStats.map(stat => {
+                const rated = stat.sat_count + stat.unsat_count;
+                const flagged = rated > 0 && 100 - stat.sat_percentage >= UNSAT_WARNING_PERCENT;
+                return (
+                  <tr key={stat.category} style={{ backgroundColor: flagged ? '#FEF2F2' : undefined }}>
+                    <td style={{ ...cellStyle, textAlign: 'left' }}>
+                      {PERFORMANCE_CATEGORIES[stat.category as PerformanceCategoryKey]}
+                    </td>
+                    <td style={cellStyle}>{stat.sat_count}</td>
+                    <td style={{ ...cellStyle, color: stat.unsat_count > 0 ? '#DC2626' : cellStyle.color }}>{stat.unsat_count}</td>
+                    <td style={cellStyle}>
+                      {rated === 0 ? '—' : (
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', justifyContent: 'flex-end' }}>
+                          <div style={{ flex: 1, height: '8px', borderRadius: '4px', backgroundColor: '#FEE2E2', overflow: 'hidden' }}>
+                            <div style={{ width: `${stat.sat_percentage}%`, height: '100%', backgroundColor: '#10B981' }} />
+                          </div>
+                          <span style={{ minWidth: '48px', fontWeight: flagged ? 600 : 400 }}>{stat.sat_percentage.toFixed(0)}%</span>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <h3 style={sectionTitleStyle}>Kills & Losses by Squadron</h3>
+          <KillLossTable title="Squadron" rows={analytics.bySquadron} />
+
+          <h3 style={sectionTitleStyle}>Kills & Losses by Aircraft Type</h3>
+          <KillLossTable title="Aircraft" rows={analytics.byAircraftType} />
+
+          <h3 style={sectionTitleStyle}>Loss & Fratricide Trend</h3>
+          {analytics.trend.length === 0 ? (
+            <div style={{ fontSize: '14px', color: '#64748B' }}>No debriefs have been filed yet.</div>
+          ) : (
+            <div style={{ height: '300px' }}>
+              <Line data={trendData} options={trendOptions} />
+            </div>
+          )}
+
+          <h3 style={sectionTitleStyle}>Debrief Timeliness</h3>
+          <p style={{ fontSize: '13px', color: '#64748B', margin: '0 0 8px 0' }}>
+            AARs are due {AAR_DUE_HOURS} hours after the event ends. Flights from events without an end time are
+            counted as unknown.
+          </p>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={{ ...headerCellStyle, textAlign: 'left' }}>Squadron</th>
+                <th style={headerCellStyle}>Flights</th>
+                <th style={headerCellStyle}>On Time</th>
+                <th style={headerCellStyle}>Late</th>
+                <th style={headerCellStyle}>Missing</th>
+                <th style={headerCellStyle}>Unknown</th>
+                <th style={headerCellStyle}>Avg. Time to Submit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {analytics.timeliness.map(row => (
+                <tr key={row.squadronId}>
+                  <td style={{ ...cellStyle, textAlign: 'left' }}>{row.squadronName}</td>
+                  <td style={cellStyle}>{row.expected}</td>
+                  <td style={cellStyle}>{row.onTime}</td>
+                  <td style={{ ...cellStyle, color: row.late > 0 ? '#D97706' : cellStyle.color }}>{row.late}</td>
+                  <td style={{ ...cellStyle, color: row.missing > 0 ? '#DC2626' : cellStyle.color }}>{row.missing}</td>
+                  <td style={cellStyle}>{row.unknown}</td>
+                  <td style={cellStyle}>
+                    {row.averageHoursToSubmit === null ? '—' : `${row.averageHoursToSubmit.toFixed(1)} h`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DebriefAnalyticsReport;
@@ -0,0 +1,388 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { RefreshCw, Download, Trophy } from 'lucide-react';
+import { toPng } from 'html-to-image';
+import { saveAs } from 'file-saver';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import { fetchCycles, fetchDefaultCycle } from '../../utils/cycleAttendanceReportService';
+import { getAllSquadrons, type Squadron } from '../../utils/squadronService';
+import {
+  getCycleGreenieBoard,
+  buildGreenieBoardRows,
+  rankTopHooks,
+  TOP_HOOK_MIN_PASSES,
+  type GreenieBoardData,
+  type GreenieBoardRow,
+  type GreenieTimeFilter
+} from '../../utils/greenieBoardService';
+import { gradeColor, formatDossierDate } from '../dossier/dossierStyles';
+import { CycleData } from '../../types/ReportTypes';
+
+interface GreenieBoardReportProps {
+  error: string | null;
+  setError: (error: string | null) => void;
+}
+
+// Passes shown per pilot, most recent on the right
+const MAX_PASSES_SHOWN = 20;
+
+// Discord shows attachments up to this width without downscaling the text
+const EXPORT_WIDTH = 1200;
+
+const TIME_FILTER_OPTIONS: { value: GreenieTimeFilter; label: string }[] = [
+  { value: 'all', label: 'Day & Night' },
+  { value: 'day', label: 'Day Only' },
+  { value: 'night', label: 'Night Only' }
+];
+
+const selectStyle: React.CSSProperties = {
+  fontFamily: 'Inter',
+  fontSize: '14px',
+  padding: '8px 12px',
+  borderRadius: '6px',
+  border: '1px solid #E2E8F0',
+  backgroundColor: 'white',
+  color: '#1E293B',
+  cursor: 'pointer'
+};
+
+const buttonStyle = (disabled: boolean): React.CSSProperties => ({
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  padding: '8px 12px',
+  borderRadius: '6px',
+  border: '1px solid #E2E8F0',
+  backgroundColor: 'white',
+  color: '#64748B',
+  fontSize: '14px',
+  fontFamily: 'Inter',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  opacity: disabled ? 0.6 : 1
+});
+
+const headerCellStyle: React.CSSProperties = {
+  padding: '10px 12px',
+  fontSize: '12px',
+  fontWeight: 600,
+  color: '#64748B',
+  textTransform: 'uppercase',
+  textAlign: 'left',
+  borderBottom: '1px solid #E2E8F0'
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  fontSize: '14px',
+  color: '#1E293B',
+  borderBottom: '1px solid #F1F5F9'
+};
+
+const formatGpa = (gpa: number | null) => (gpa === null ? '—' : gpa.toFixed(2));
+
+/** Board of pilots × passes, shared by the page and the PNG export */
+const GreenieBoardGrid: React.FC<{ rows: GreenieBoardRow[] }> = ({ rows }) => (
+  <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+    <thead>
+      <tr>
+        <th style={headerCellStyle}>Pilot</th>
+        <th style={{ ...headerCellStyle, textAlign: 'right' }}>GPA</th>
+        <th style={headerCellStyle}>Passes</th>
+        <th style={{ ...headerCellStyle, textAlign: 'right' }}>Traps</th>
+        <th style={{ ...headerCellStyle, textAlign: 'right' }}>Bolters</th>
+        <th style={{ ...headerCellStyle, textAlign: 'right' }}>Waveoffs</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map(row => (
+        <tr key={row.pilotId}>
+          <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+            <span style={{ color: '#64748B', marginRight: '8px' }}>{row.boardNumber}</span>
+            {row.callsign}
+          </td>
+          <td style={{ ...cellStyle, textAlign: 'right', fontWeight: 600 }}>{formatGpa(row.gpa)}</td>
+          <td style={cellStyle}>
+            <div style={{ display: 'flex', gap: '3px' }}>
+              {row.passes.slice(-MAX_PASSES_SHOWN).map(trap => (
+                <div
+                  key={trap.id}
+                  title={`${formatDossierDate(trap.pass_time || trap.created_at)} — ${trap.overall_grade || 'Ungraded'}${trap.wire_number ? ` ${trap.wire_number}-wire` : ''}`}
+                  style={{
+                    width: '26px',
+                    height: '26px',
+                    borderRadius: '4px',
+                    backgroundColor: gradeColor(trap.overall_grade),
+                    color: '#FFFFFF',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    fontSize: '11px',
+                    fontWeight: 700,
+                    position: 'relative',
+                    flexShrink: 0
+                  }}
+                >
+                  {trap.wire_number ?? ''}
+                  {trap.is_night && (
+                    <div style={{
+                      position: 'absolute',
+                      top: '2px',
+                      right: '2px',
+                      width: '6px',
+                      height: '6px',
+                      borderRadius: '50%',
+                      backgroundColor: '#0F172A',
+                      border: '1px solid #FFFFFF'
+                    }} />
+                  )}
+                </div>
+              ))}
+            </div>
+          </td>
+          <td style={{ ...cellStyle, textAlign: 'right' }}>{row.trapCount}</td>
+          <td style={{ ...cellStyle, textAlign: 'right' }}>{row.bolterCount}</td>
+          <td style={{ ...cellStyle, textAlign: 'right' }}>{row.waveoffCount}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const TopHooks: React.FC<{ topHooks: GreenieBoardRow[] }> = ({ topHooks }) => (
+  <div style={{ display: 'flex', gap: '12px', marginBottom: '16px' }}>
+    {topHooks.map((row, index) => (
+      <div
+        key={row.pilotId}
+        style={{
+          flex: 1,
+          display: 'flex',
+          alignItems: 'center',
+          gap: '10px',
+          padding: '10px 14px',
+          borderRadius: '8px',
+          border: '1px solid #E2E8F0',
+          backgroundColor: index === 0 ? '#F0FDF4' : '#F8FAFC'
+        }}
+      >
+        <Trophy size={20} color={['#CA8A04', '#94A3B8', '#B45309'][index]} />
+        <div>
+          <div style={{ fontSize: '12px', color: '#64748B' }}>{index === 0 ? 'Top Hook' : `#${index + 1}`}</div>
+          <div style={{ fontSize: '14px', fontWeight: 600, color: '#1E293B' }}>
+            {row.boardNumber} {row.callsign} — {formatGpa(row.gpa)}
+          </div>
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+const GreenieBoardReport: React.FC<GreenieBoardReportProps> = ({ error, setError }) => {
+  const [cycles, setCycles] = useState<CycleData[]>([]);
+  const [squadrons, setSquadrons] = useState<Squadron[]>([]);
+  const [selectedCycleId, setSelectedCycleId] = useState<string | null>(null);
+  const [selectedSquadronId, setSelectedSquadronId] = useState<string>('');
+  const [timeFilter, setTimeFilter] = useState<GreenieTimeFilter>('all');
+  const [board, setBoard] = useState<GreenieBoardData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const exportRef = useRef<HTMLDivElement>(null);
+
+  // Load cycles and squadrons, defaulting to the current cycle
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        setLoading(true);
+        const [cyclesData, squadronsResult] = await Promise.all([fetchCycles(), getAllSquadrons()]);
+        setCycles(cyclesData);
+        setSquadrons(squadronsResult.data || []);
+
+        const defaultCycle = await fetchDefaultCycle();
+        if (defaultCycle) {
+          setSelectedCycleId(defaultCycle.id);
+        } else if (cyclesData.length > 0) {
+          setSelectedCycleId(cyclesData[0].id);
+        } else {
+          setLoading(false);
+        }
+      } catch (err) {
+        console.error('Error loading cycles:', err);
+        setError('Failed to load cycles');
+        setLoading(false);
+      }
+    };
+
+    loadOptions();
+  }, [setError]);
+
+  const loadBoard = useCallback(async (cycleId: string) => {
+    const { board: data, error: boardError } = await getCycleGreenieBoard(cycleId);
+    if (boardError) {
+      setError('Failed to load greenie board');
+      return;
+    }
+    setBoard(data);
+    setError(null);
+  }, [setError]);
+
+  useEffect(() => {
+    if (selectedCycleId) {
+      setLoading(true);
+      loadBoard(selectedCycleId).finally(() => setLoading(false));
+    }
+  }, [selectedCycleId, loadBoard]);
+
+  const handleRefresh = async () => {
+    if (!selectedCycleId) return;
+    setRefreshing(true);
+    await loadBoard(selectedCycleId);
+    setRefreshing(false);
+  };
+
+  const rows = useMemo(
+    () => (board ? buildGreenieBoardRows(board, selectedSquadronId || null, timeFilter) : []),
+    [board, selectedSquadronId, timeFilter]
+  );
+  const topHooks = useMemo(() => rankTopHooks(rows), [rows]);
+
+  // Only squadrons with pilots on the board are worth offering
+  const boardSquadrons = useMemo(() => {
+    const ids = new Set(board?.pilots.map(p => p.squadronId).filter(Boolean));
+    return squadrons.filter(s => ids.has(s.id));
+  }, [board, squadrons]);
+
+  const selectedCycle = cycles.find(c => c.id === selectedCycleId);
+  const selectedSquadron = squadrons.find(s => s.id === selectedSquadronId);
+  const boardTitle = [
+    selectedSquadron ? `${selectedSquadron.designation} ${selectedSquadron.name}` : 'All Squadrons',
+    selectedCycle?.name
+  ].filter(Boolean).join(' — ');
+
+  const handleExport = async () => {
+    if (!exportRef.current) return;
+    setExporting(true);
+    try {
+      const dataUrl = await toPng(exportRef.current, {
+        backgroundColor: '#FFFFFF',
+        width: EXPORT_WIDTH,
+        pixelRatio: 1,
+        cacheBust: true
+      });
+      const blob = await (await fetch(dataUrl)).blob();
+      const fileName = `greenie-board-${boardTitle.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase()}.png`;
+      saveAs(blob, fileName);
+    } catch (err) {
+      console.error('Error exporting greenie board:', err);
+      setError('Failed to export greenie board');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '400px' }}>
+        <div style={{ textAlign: 'center' }}>
+          <div style={{ marginBottom: '16px' }}>
+            <LoadingSpinner size="large" color="#82728C" />
+          </div>
+          <p style={{ fontFamily: 'Inter', color: '#64748B', fontSize: '14px' }}>Loading report data...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const timeLabel = TIME_FILTER_OPTIONS.find(o => o.value === timeFilter)?.label;
+
+  return (
+    <div style={{ fontFamily: 'Inter' }}>
+      {/* Header with controls */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '24px', flexWrap: 'wrap' }}>
+        <select
+          value={selectedCycleId || ''}
+          onChange={e => setSelectedCycleId(e.target.value)}
+          style={{ ...selectStyle, minWidth: '320px' }}
+        >
+          {cycles.map(cycle => (
+            <option key={cycle.id} value={cycle.id}>
+              {cycle.name}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={selectedSquadronId}
+          onChange={e => setSelectedSquadronId(e.target.value)}
+          style={selectStyle}
+        >
+          <option value="">All Squadrons</option>
+          {boardSquadrons.map(squadron => (
+            <option key={squadron.id} value={squadron.id}>
+              {squadron.designation} {squadron.name}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={timeFilter}
+          onChange={e => setTimeFilter(e.target.value as GreenieTimeFilter)}
+          style={selectStyle}
+        >
+          {TIME_FILTER_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+
+        <button onClick={handleRefresh} disabled={refreshing} style={buttonStyle(refreshing)}>
+          <RefreshCw size={16} className={refreshing ? 'animate-spin' : ''} />
+          Refresh
+        </button>
+
+        <button
+          onClick={handleExport}
+          disabled={exporting || rows.length === 0}
+          style={buttonStyle(exporting || rows.length === 0)}
+        >
+          <Download size={16} />
+          {exporting ? 'Exporting...' : 'Export PNG'}
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ color: '#DC2626', fontSize: '14px', marginBottom: '16px' }}>{error}</div>
+      )}
+
+      {rows.length === 0 ? (
+        <div style={{ textAlign: 'center', padding: '48px', color: '#64748B', fontSize: '14px' }}>
+          No graded passes for this cycle{timeFilter !== 'all' || selectedSquadronId ? ' match the selected filters' : ' yet'}.
+        </div>
+      ) : (
+        <>
+          <p style={{ fontSize: '14px', color: '#64748B', margin: '0 0 16px 0' }}>
+            {board?.missionCount} mission{board?.missionCount === 1 ? '' : 's'} this cycle.
+            Top hook is the best GPA among pilots with at least {TOP_HOOK_MIN_PASSES} graded passes;
+            foul deck waveoffs don't count towards GPA.
+          </p>
+          {topHooks.length > 0 && <TopHooks topHooks={topHooks} />}
+          <GreenieBoardGrid rows={rows} />
+
+          {/* Fixed-width copy for the PNG export, kept off screen */}
+          <div style={{ position: 'fixed', left: '-10000px', top: 0 }} aria-hidden>
+            <div
+              ref={exportRef}
+              style={{ width: `${EXPORT_WIDTH}px`, padding: '24px', boxSizing: 'border-box', backgroundColor: '#FFFFFF', fontFamily: 'Inter' }}
+            >
+              <div style={{ fontSize: '22px', fontWeight: 700, color: '#1E293B' }}>Greenie Board</div>
+              <div style={{ fontSize: '14px', color: '#64748B', margin: '4px 0 16px 0' }}>
+                {boardTitle} · {timeLabel}
+              </div>
+              {topHooks.length > 0 && <TopHooks topHooks={topHooks} />}
+              <GreenieBoardGrid rows={rows} />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GreenieBoardReport;
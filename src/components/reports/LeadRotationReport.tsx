@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { RefreshCw } from 'lucide-react';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import { fetchCycles, fetchDefaultCycle } from '../../utils/cycleAttendanceReportService';
+import { getCycleFairnessReport, type FairnessReport, type FairnessReportRow } from '../../utils/leadRotationService';
+import { CycleData } from '../../types/ReportTypes';
+
+interface LeadRotationReportProps {
+  error: string | null;
+  setError: (error: string | null) => void;
+}
+
+type CountKey = 'sorties' | 'leads' | 'missionCommander' | 'unpopular';
+
+const COLUMNS: { key: CountKey; label: string }[] = [
+  { key: 'sorties', label: 'Sorties' },
+  { key: 'leads', label: 'Leads (-1/-3)' },
+  { key: 'missionCommander', label: 'Mission Commander' },
+  { key: 'unpopular', label: 'Tanker / Support' }
+];
+
+const headerCellStyle: React.CSSProperties = {
+  padding: '10px 12px',
+  fontSize: '12px',
+  fontWeight: 600,
+  color: '#64748B',
+  textTransform: 'uppercase',
+  textAlign: 'left',
+  borderBottom: '1px solid #E2E8F0'
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '10px 12px',
+  fontSize: '14px',
+  color: '#1E293B',
+  borderBottom: '1px solid #F1F5F9'
+};
+
+const LeadRotationReport: React.FC<LeadRotationReportProps> = ({ error, setError }) => {
+  const [cycles, setCycles] = useState<CycleData[]>([]);
+  const [selectedCycleId, setSelectedCycleId] = useState<string | null>(null);
+  const [report, setReport] = useState<FairnessReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Load cycles and set default cycle
+  useEffect(() => {
+    const loadCycles = async () => {
+      try {
+        setLoading(true);
+        const cyclesData = await fetchCycles();
+        setCycles(cyclesData);
+
+        const defaultCycle = await fetchDefaultCycle();
+        if (defaultCycle) {
+          setSelectedCycleId(defaultCycle.id);
+        } else if (cyclesData.length > 0) {
+          setSelectedCycleId(cyclesData[0].id);
+        } else {
+          setLoading(false);
+        }
+      } catch (err) {
+        console.error('Error loading cycles:', err);
+        setError('Failed to load cycles');
+        setLoading(false);
+      }
+    };
+
+    loadCycles();
+  }, [setError]);
+
+  const loadReport = useCallback(async (cycleId: string) => {
+    const { report: data, error: reportError } = await getCycleFairnessReport(cycleId);
+    if (reportError) {
+      setError('Failed to load lead rotation report');
+      return;
+    }
+    setReport(data);
+    setError(null);
+  }, [setError]);
+
+  useEffect(() => {
+    if (selectedCycleId) {
+      setLoading(true);
+      loadReport(selectedCycleId).finally(() => setLoading(false));
+    }
+  }, [selectedCycleId, loadReport]);
+
+  const handleRefresh = async () => {
+    if (!selectedCycleId) return;
+    setRefreshing(true);
+    await loadReport(selectedCycleId);
+    setRefreshing(false);
+  };
+
+  // Average per pilot who has held that kind of slot at least once this cycle
+  const averages = useMemo(() => {
+    const result: Record<CountKey, number> = { sorties: 0, leads: 0, missionCommander: 0, unpopular: 0 };
+    if (!report) return result;
+    COLUMNS.forEach(({ key }) => {
+      const holders = report.rows.filter(row => row[key] > 0);
+      result[key] = holders.length > 0 ? holders.reduce((sum, row) => sum + row[key], 0) / holders.length : 0;
+    });
+    return result;
+  }, [report]);
+
+  // Flag pilots carrying at least double their share of a slot type
+  const isOverloaded = (row: FairnessReportRow, key: CountKey) =>
+    averages[key] > 0 && row[key] >= 2 && row[key] >= averages[key] * 2;
+
+  if (loading) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '400px' }}>
+        <div style={{ textAlign: 'center' }}>
+          <div style={{ marginBottom: '16px' }}>
+            <LoadingSpinner size="large" color="#82728C" />
+          </div>
+          <p style={{ fontFamily: 'Inter', color: '#64748B', fontSize: '14px' }}>Loading report data...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ fontFamily: 'Inter' }}>
+      {/* Header with controls */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '24px' }}>
+        <select
+          value={selectedCycleId || ''}
+          onChange={e => setSelectedCycleId(e.target.value)}
+          style={{
+            fontFamily: 'Inter',
+            fontSize: '14px',
+            padding: '8px 12px',
+            borderRadius: '6px',
+            border: '1px solid #E2E8F0',
+            backgroundColor: 'white',
+            color: '#1E293B',
+            cursor: 'pointer',
+            minWidth: '400px'
+          }}
+        >
+          {cycles.map(cycle => (
+            <option key={cycle.id} value={cycle.id}>
+              {cycle.name}
+            </option>
+          ))}
+        </select>
+
+        <button
+          onClick={handleRefresh}
+          disabled={refreshing}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            padding: '8px 12px',
+            borderRadius: '6px',
+            border: '1px solid #E2E8F0',
+            backgroundColor: 'white',
+            color: '#64748B',
+            fontSize: '14px',
+            fontFamily: 'Inter',
+            cursor: refreshing ? 'not-allowed' : 'pointer',
+            opacity: refreshing ? 0.6 : 1
+          }}
+        >
+          <RefreshCw size={16} className={refreshing ? 'animate-spin' : ''} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ color: '#DC2626', fontSize: '14px', marginBottom: '16px' }}>{error}</div>
+      )}
+
+      {!report || report.rows.length === 0 ? (
+        <div style={{ textAlign: 'center', padding: '48px', color: '#64748B', fontSize: '14px' }}>
+          No flight assignments recorded for this cycle yet.
+        </div>
+      ) : (
+        <>
+          <p style={{ fontSize: '14px', color: '#64748B', margin: '0 0 16px 0' }}>
+            {report.missionCount} mission{report.missionCount === 1 ? '' : 's'} this cycle.
+            Highlighted counts are at least double the average of the pilots who held that slot;
+            auto-assign favours the other qualified pilots for those slots in the next event.
+          </p>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={headerCellStyle}>Pilot</th>
+                {COLUMNS.map(column => (
+                  <th key={column.key} style={{ ...headerCellStyle, textAlign: 'right' }}>{column.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {report.rows.map(row => (
+                <tr key={row.pilotId}>
+                  <td style={cellStyle}>
+                    <span style={{ color: '#64748B', marginRight: '8px' }}>{row.boardNumber}</span>
+                    {row.callsign}
+                  </td>
+                  {COLUMNS.map(column => (
+                    <td
+                      key={column.key}
+                      style={{
+                        ...cellStyle,
+                        textAlign: 'right',
+                        fontWeight: isOverloaded(row, column.key) ? 600 : 400,
+                        color: isOverloaded(row, column.key) ? '#B45309' : cellStyle.color,
+                        backgroundColor: isOverloaded(row, column.key) ? '#FEF3C7' : 'transparent'
+                      }}
+                    >
+                      {row[column.key]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr>
+                <td style={{ ...cellStyle, color: '#64748B', fontStyle: 'italic' }}>Average (pilots who held the slot)</td>
+                {COLUMNS.map(column => (
+                  <td key={column.key} style={{ ...cellStyle, textAlign: 'right', color: '#64748B', fontStyle: 'italic' }}>
+                    {averages[column.key].toFixed(1)}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LeadRotationReport;
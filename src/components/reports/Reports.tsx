@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { usePageLoading } from '../../context/PageLoadingContext';
 import { Card } from '../ui/card';
-import { BarChart3, Shield } from 'lucide-react';
+import { BarChart3, Repeat, Shield, Anchor, Activity } from 'lucide-react';
 import CycleAttendanceReport from './CycleAttendanceReport';
 import DiscordRoleVerificationReport from './DiscordRoleVerificationReport';
+import LeadRotationReport from './LeadRotationReport';
+import GreenieBoardReport from './GreenieBoardReport';
+import DebriefAnalyticsReport from './DebriefAnalyticsReport';
 
-type ReportType = 'cycle-attendance' | 'discord-role-verification';
+type ReportType = 'cycle-attendance' | 'lead-rotation' | 'greenie-board' | 'debrief-analytics' | 'discord-role-verification';
 
 interface ReportsNavItem {
   id: ReportType;
@@ -19,6 +22,21 @@ const reportsNavItems: ReportsNavItem[] = [
     icon: <BarChart3 size={20} />,
     label: 'Cycle Attendance'
   },
+  {
+    id: 'lead-rotation',
+    icon: <Repeat size={20} />,
+    label: 'Lead Rotation'
+  },
+  {
+    id: 'greenie-board',
+    icon: <Anchor size={20} />,
+    label: 'Greenie Board'
+  },
+  {
+    id: 'debrief-analytics',
+    icon: <Activity size={20} />,
+    label: 'Debrief Analytics'
+  },
   {
     id: 'discord-role-verification',
     icon: <Shield size={20} />,
@@ -46,6 +64,12 @@ const Reports: React.FC = () => {
     switch (activeReport) {
       case 'cycle-attendance':
         return <CycleAttendanceReport error={error} setError={setError} />;
+      case 'lead-rotation':
+        return <LeadRotationReport error={error} setError={setError} />;
+      case 'greenie-board':
+        return <GreenieBoardReport error={error} setError={setError} />;
+      case 'debrief-analytics':
+        return <DebriefAnalyticsReport error={error} setError={setError} />;
       case 'discord-role-verification':
         return <DiscordRoleVerificationReport error={error} setError={setError} />;
       default:
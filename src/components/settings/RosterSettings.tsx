@@ -3,7 +3,7 @@ import { AlertCircle, X } from 'lucide-react';
 import { Status, getAllStatuses, createStatus, updateStatus, deleteStatus, getStatusUsageCount, initializeDefaultStatuses } from '../../utils/statusService';
 import { Standing, getAllStandings, createStanding, updateStanding, deleteStanding, getStandingUsageCount } from '../../utils/standingService';
 import { Role, getAllRoles, createRole, updateRole, deleteRole, getRoleUsageCount, initializeDefaultRoles } from '../../utils/roleService';
-import { Qualification, getAllQualifications, createQualification, updateQualification, deleteQualification, getQualificationUsageCount, initializeDefaultQualifications } from '../../utils/qualificationService';
+import { Qualification, QualificationCurrencyRule, getAllQualifications, createQualification, updateQualification, deleteQualification, getQualificationUsageCount, initializeDefaultQualifications } from '../../utils/qualificationService';
 import { DragEndEvent } from '@dnd-kit/core';
 import { arrayMove } from '@dnd-kit/sortable';
 import { StatusesSection } from './roster/StatusesSection';
@@ -59,6 +59,7 @@ const RosterSettings: React.FC<RosterSettingsProps> = ({ error, setError }) => {
   const [newQualificationRequirements, setNewQualificationRequirements] = useState('{}');
   const [newQualificationIsExpirable, setNewQualificationIsExpirable] = useState(false);
   const [newQualificationValidityPeriod, setNewQualificationValidityPeriod] = useState<number | null>(null);
+  const [newQualificationCurrencyRule, setNewQualificationCurrencyRule] = useState<QualificationCurrencyRule | null>(null);
   const [newQualificationActive, setNewQualificationActive] = useState(true);
   const [newQualificationIsSupportRole, setNewQualificationIsSupportRole] = useState(false);
   const [newQualificationColor, setNewQualificationColor] = useState('#646F7E'); // Default slate color
@@ -68,6 +69,7 @@ const RosterSettings: React.FC<RosterSettingsProps> = ({ error, setError }) => {
   const [editingQualificationRequirements, setEditingQualificationRequirements] = useState('{}');
   const [editingQualificationIsExpirable, setEditingQualificationIsExpirable] = useState(false);
   const [editingQualificationValidityPeriod, setEditingQualificationValidityPeriod] = useState<number | null>(null);
+  const [editingQualificationCurrencyRule, setEditingQualificationCurrencyRule] = useState<QualificationCurrencyRule | null>(null);
   const [editingQualificationActive, setEditingQualificationActive] = useState(true);
   const [editingQualificationIsSupportRole, setEditingQualificationIsSupportRole] = useState(false);
   const [editingQualificationColor, setEditingQualificationColor] = useState('#646F7E'); // Default slate color
@@ -756,6 +758,11 @@ const RosterSettings: React.FC<RosterSettingsProps> = ({ error, setError }) => {
       setErrorMessage('Qualification code cannot be empty');
       return;
     }
+
+    if (newQualificationCurrencyRule && !(newQualificationCurrencyRule.days > 0)) {
+      setErrorMessage('Currency period must be at least one day');
+      return;
+    }
     
     setLoading(true);
     try {
@@ -780,6 +787,7 @@ const RosterSettings: React.FC<RosterSettingsProps> = ({ error, setError }) => {
         requirements: parsedRequirements,
         is_expirable: newQualificationIsExpirable,
         validity_period: newQualificationIsExpirable ? newQualificationValidityPeriod : null,
+        currency_rule: newQualificationCurrencyRule,
         active: newQualificationActive,
         is_support_role: newQualificationIsSupportRole,
         color: newQualificationColor, // Include color property
@@ -803,6 +811,7 @@ const RosterSettings: React.FC<RosterSettingsProps> = ({ error, setError }) => {
         setNewQualificationRequirements('{}');
         setNewQualificationIsExpirable(false);
         setNewQualificationValidityPeriod(null);
+        setNewQualificationCurrencyRule(null);
         setNewQualificationActive(true);
         setNewQualificationIsSupportRole(false);
         setNewQualificationColor('#646F7E'); // Reset to default color
@@ -823,6 +832,7 @@ const RosterSettings: React.FC<RosterSettingsProps> = ({ error, setError }) => {
     setEditingQualificationRequirements('{}');
     setEditingQualificationIsExpirable(false);
     setEditingQualificationValidityPeriod(null);
+    setEditingQualificationCurrencyRule(null);
     setEditingQualificationActive(true);
     setEditingQualificationIsSupportRole(false);
     setEditingQualificationColor('#646F7E');
@@ -842,6 +852,11 @@ const RosterSettings: React.FC<RosterSettingsProps> = ({ error, setError }) => {
       setErrorMessage('Qualification code cannot be empty');
       return;
     }
+
+    if (editingQualificationCurrencyRule && !(editingQualificationCurrencyRule.days > 0)) {
+      setErrorMessage('Currency period must be at least one day');
+      return;
+    }
     
     setLoading(true);
     try {
@@ -861,6 +876,7 @@ const RosterSettings: React.FC<RosterSettingsProps> = ({ error, setError }) => {
         requirements: parsedRequirements,
         is_expirable: editingQualificationIsExpirable,
         validity_period: editingQualificationIsExpirable ? editingQualificationValidityPeriod : null,
+        currency_rule: editingQualificationCurrencyRule,
         active: editingQualificationActive,
         is_support_role: editingQualificationIsSupportRole,
         color: editingQualificationColor // Include color in updates
@@ -1076,6 +1092,8 @@ const RosterSettings: React.FC<RosterSettingsProps> = ({ error, setError }) => {
           setNewQualificationIsExpirable={setNewQualificationIsExpirable}
           newQualificationValidityPeriod={newQualificationValidityPeriod}
           setNewQualificationValidityPeriod={setNewQualificationValidityPeriod}
+          newQualificationCurrencyRule={newQualificationCurrencyRule}
+          setNewQualificationCurrencyRule={setNewQualificationCurrencyRule}
           newQualificationActive={newQualificationActive}
           setNewQualificationActive={setNewQualificationActive}
           newQualificationIsSupportRole={newQualificationIsSupportRole}
@@ -1097,6 +1115,8 @@ const RosterSettings: React.FC<RosterSettingsProps> = ({ error, setError }) => {
           setEditingQualificationIsExpirable={setEditingQualificationIsExpirable}
           editingQualificationValidityPeriod={editingQualificationValidityPeriod}
           setEditingQualificationValidityPeriod={setEditingQualificationValidityPeriod}
+          editingQualificationCurrencyRule={editingQualificationCurrencyRule}
+          setEditingQualificationCurrencyRule={setEditingQualificationCurrencyRule}
           editingQualificationActive={editingQualificationActive}
           setEditingQualificationActive={setEditingQualificationActive}
           editingQualificationIsSupportRole={editingQualificationIsSupportRole}
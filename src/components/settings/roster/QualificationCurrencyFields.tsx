@@ -0,0 +1,89 @@
+import React from 'react';
+import type { CurrencyActivity, QualificationCurrencyRule } from '../../../utils/qualificationService';
+import { CURRENCY_ACTIVITIES } from '../../../utils/qualificationCurrencyService';
+
+interface QualificationCurrencyFieldsProps {
+  rule: QualificationCurrencyRule | null;
+  onChange: (rule: QualificationCurrencyRule | null) => void;
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: '14px',
+  fontWeight: 500,
+  color: '#374151',
+  marginBottom: '6px',
+  fontFamily: 'Inter'
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  border: '1px solid #D1D5DB',
+  borderRadius: '6px',
+  fontSize: '14px',
+  backgroundColor: '#FFFFFF',
+  outline: 'none',
+  fontFamily: 'Inter',
+  boxSizing: 'border-box'
+};
+
+const numberOrUndefined = (value: string) => (value ? parseInt(value) : undefined);
+
+/**
+ * Currency rule inputs for the add/edit qualification modals. Choosing no
+ * activity clears the rule.
+ */
+export const QualificationCurrencyFields: React.FC<QualificationCurrencyFieldsProps> = ({ rule, onChange }) => (
+  <div>
+    <label style={labelStyle}>Currency</label>
+    <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap', fontSize: '14px', color: '#374151', fontFamily: 'Inter' }}>
+      <select
+        value={rule?.activity || ''}
+        onChange={(e) => onChange(e.target.value
+          ? { days: 90, ...rule, activity: e.target.value as CurrencyActivity }
+          : null)}
+        style={{ ...inputStyle, width: '220px' }}
+      >
+        <option value="">No currency requirement</option>
+        {CURRENCY_ACTIVITIES.map(activity => (
+          <option key={activity.id} value={activity.id}>{activity.label}</option>
+        ))}
+      </select>
+      {rule && (
+        <>
+          <span>at least</span>
+          <input
+            type="number"
+            value={rule.count ?? 1}
+            onChange={(e) => onChange({ ...rule, count: numberOrUndefined(e.target.value) })}
+            style={{ ...inputStyle, width: '64px' }}
+            min="1"
+          />
+          <span>time(s) every</span>
+          <input
+            type="number"
+            value={rule.days || ''}
+            onChange={(e) => onChange({ ...rule, days: numberOrUndefined(e.target.value) ?? 0 })}
+            style={{ ...inputStyle, width: '80px' }}
+            placeholder="90"
+            min="1"
+          />
+          <span>days</span>
+        </>
+      )}
+    </div>
+    {rule && (
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '8px', fontSize: '14px', color: '#374151', fontFamily: 'Inter' }}>
+        <span>Warn the pilot</span>
+        <input
+          type="number"
+          value={rule.warningDays ?? 14}
+          onChange={(e) => onChange({ ...rule, warningDays: numberOrUndefined(e.target.value) })}
+          style={{ ...inputStyle, width: '64px' }}
+          min="0"
+        />
+        <span>days before it lapses</span>
+      </div>
+    )}
+  </div>
+);
@@ -2,8 +2,9 @@ import React from 'react';
 import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors, DragEndEvent } from '@dnd-kit/core';
 import { SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { restrictToVerticalAxis } from '@dnd-kit/modifiers';
-import { Qualification } from '../../../utils/qualificationService';
+import { Qualification, QualificationCurrencyRule } from '../../../utils/qualificationService';
 import { SortableQualificationRow } from './SortableQualificationRow';
+import { QualificationCurrencyFields } from './QualificationCurrencyFields';
 
 interface QualificationsSectionProps {
   qualifications: Qualification[];
@@ -22,6 +23,8 @@ interface QualificationsSectionProps {
   setNewQualificationIsExpirable: (value: boolean) => void;
   newQualificationValidityPeriod: number | null;
   setNewQualificationValidityPeriod: (value: number | null) => void;
+  newQualificationCurrencyRule: QualificationCurrencyRule | null;
+  setNewQualificationCurrencyRule: (value: QualificationCurrencyRule | null) => void;
   newQualificationActive: boolean;
   setNewQualificationActive: (value: boolean) => void;
   newQualificationIsSupportRole: boolean;
@@ -43,6 +46,8 @@ interface QualificationsSectionProps {
   setEditingQualificationIsExpirable: (value: boolean) => void;
   editingQualificationValidityPeriod: number | null;
   setEditingQualificationValidityPeriod: (value: number | null) => void;
+  editingQualificationCurrencyRule: QualificationCurrencyRule | null;
+  setEditingQualificationCurrencyRule: (value: QualificationCurrencyRule | null) => void;
   editingQualificationActive: boolean;
   setEditingQualificationActive: (value: boolean) => void;
   editingQualificationIsSupportRole: boolean;
@@ -75,6 +80,8 @@ export const QualificationsSection: React.FC<QualificationsSectionProps> = ({
   setNewQualificationIsExpirable,
   newQualificationValidityPeriod,
   setNewQualificationValidityPeriod,
+  newQualificationCurrencyRule,
+  setNewQualificationCurrencyRule,
   newQualificationActive,
   setNewQualificationActive,
   newQualificationIsSupportRole,
@@ -96,6 +103,8 @@ export const QualificationsSection: React.FC<QualificationsSectionProps> = ({
   setEditingQualificationIsExpirable,
   editingQualificationValidityPeriod,
   setEditingQualificationValidityPeriod,
+  editingQualificationCurrencyRule,
+  setEditingQualificationCurrencyRule,
   editingQualificationActive,
   setEditingQualificationActive,
   editingQualificationIsSupportRole,
@@ -133,6 +142,7 @@ export const QualificationsSection: React.FC<QualificationsSectionProps> = ({
     );
     setEditingQualificationIsExpirable(qualification.is_expirable || false);
     setEditingQualificationValidityPeriod(qualification.validity_period || null);
+    setEditingQualificationCurrencyRule(qualification.currency_rule || null);
     setEditingQualificationActive(qualification.active !== undefined ? qualification.active : true);
     setEditingQualificationIsSupportRole(qualification.is_support_role || false);
     setEditingQualificationColor(qualification.color || '#646F7E');
@@ -281,6 +291,7 @@ export const QualificationsSection: React.FC<QualificationsSectionProps> = ({
               setNewQualificationRequirements('{}');
               setNewQualificationIsExpirable(false);
               setNewQualificationValidityPeriod(null);
+              setNewQualificationCurrencyRule(null);
               setNewQualificationActive(true);
               setNewQualificationIsSupportRole(false);
               setNewQualificationColor('#646F7E');
@@ -347,6 +358,7 @@ export const QualificationsSection: React.FC<QualificationsSectionProps> = ({
             setNewQualificationRequirements('{}');
             setNewQualificationIsExpirable(false);
             setNewQualificationValidityPeriod(null);
+            setNewQualificationCurrencyRule(null);
             setNewQualificationActive(true);
             setNewQualificationIsSupportRole(false);
             setNewQualificationColor('#646F7E');
@@ -619,6 +631,11 @@ export const QualificationsSection: React.FC<QualificationsSectionProps> = ({
                   />
                 </div>
               )}
+
+              <QualificationCurrencyFields
+                rule={newQualificationCurrencyRule}
+                onChange={setNewQualificationCurrencyRule}
+              />
             </div>
 
             <div style={{
@@ -638,6 +655,7 @@ export const QualificationsSection: React.FC<QualificationsSectionProps> = ({
                   setNewQualificationRequirements('{}');
                   setNewQualificationIsExpirable(false);
                   setNewQualificationValidityPeriod(null);
+                  setNewQualificationCurrencyRule(null);
                   setNewQualificationActive(true);
                   setNewQualificationIsSupportRole(false);
                   setNewQualificationColor('#646F7E');
@@ -985,6 +1003,11 @@ export const QualificationsSection: React.FC<QualificationsSectionProps> = ({
                   />
                 </div>
               )}
+
+              <QualificationCurrencyFields
+                rule={editingQualificationCurrencyRule}
+                onChange={setEditingQualificationCurrencyRule}
+              />
             </div>
 
             {/* Modal Footer */}
@@ -4,6 +4,7 @@ import { CSS } from '@dnd-kit/utilities';
 import { GripVertical, Edit, Trash } from 'lucide-react';
 import QualificationBadge from '../../ui/QualificationBadge';
 import { Qualification } from '../../../utils/qualificationService';
+import { describeCurrencyRule } from '../../../utils/qualificationCurrencyService';
 
 interface SortableQualificationRowProps {
   qualification: Qualification;
@@ -98,15 +99,18 @@ export const SortableQualificationRow: React.FC<SortableQualificationRowProps> =
         justifyContent: 'center',
         borderRight: '1px solid #F3F4F6'
       }}>
-        <span style={{
-          fontSize: '13px',
-          color: '#6B7280',
-          fontFamily: 'Inter'
-        }}>
-          {qualification.is_expirable && qualification.validity_period ?
-            `${qualification.validity_period} days` :
-            '-'
-          }
+        <span
+          title={qualification.currency_rule ? describeCurrencyRule(qualification.currency_rule) : undefined}
+          style={{
+            fontSize: '13px',
+            color: '#6B7280',
+            fontFamily: 'Inter'
+          }}
+        >
+          {[
+            qualification.is_expirable && qualification.validity_period ? `${qualification.validity_period} days` : null,
+            qualification.currency_rule ? `${qualification.currency_rule.days}-day currency` : null
+          ].filter(Boolean).join(' · ') || '-'}
         </span>
       </div>
 
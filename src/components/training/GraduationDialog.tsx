@@ -1,10 +1,11 @@
 // @ts-nocheck
 import React, { useState, useEffect, useMemo } from 'react';
-import { X, GraduationCap, AlertCircle, ChevronDown } from 'lucide-react';
+import { X, GraduationCap, AlertCircle, ChevronDown, ArrowRight } from 'lucide-react';
 import { supabase } from '../../utils/supabaseClient';
 import QualificationBadge from '../ui/QualificationBadge';
-import type { GraduationOutcome, AppliedOutcome } from '../../types/TrainingTypes';
+import type { GraduationOutcome, AppliedOutcome, GraduationPreview } from '../../types/TrainingTypes';
 import PilotIDBadgeSm from '../ui/PilotIDBadgeSm';
+import { previewGraduation } from '../../services/graduationService';
 
 interface StudentInfo {
   id: string;
@@ -86,6 +87,10 @@ const GraduationDialog: React.FC<GraduationDialogProps> = ({
   // Outcomes explicitly skipped (e.g. already applied manually in the past) —
   // skipped outcomes bypass validation and are not applied
   const [skippedOutcomes, setSkippedOutcomes] = useState<Set<string>>(new Set());
+  // Dry run of the submissions, shown for review before anything is applied
+  const [preview, setPreview] = useState<GraduationPreview[] | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
 
   useEffect(() => {
     loadOptions();
@@ -177,12 +182,10 @@ const GraduationDialog: React.FC<GraduationDialogProps> = ({
     return errors;
   }, [enabledOutcomes, skippedOutcomes, callsignValues, standingValue, squadronValue, qualEntries, studentIds, isBatch]);
 
-  const canSubmit = validationErrors.length === 0 && !saving && !!graduationDate;
+  const canSubmit = validationErrors.length === 0 && !saving && !previewLoading && !!graduationDate;
 
-  const handleConfirm = () => {
-    if (!canSubmit) return;
-
-    const submissions: GraduationSubmission[] = studentIds.map(studentId => {
+  const buildSubmissions = (): GraduationSubmission[] => {
+    return studentIds.map(studentId => {
       const appliedOutcomes: AppliedOutcome[] = enabledOutcomes.filter(o => !skippedOutcomes.has(o.type)).map(outcome => {
         let value: string | string[] | null = null;
         switch (outcome.type) {
@@ -207,8 +210,24 @@ const GraduationDialog: React.FC<GraduationDialogProps> = ({
       });
       return { studentId, outcomes: appliedOutcomes };
     });
+  };
 
-    onConfirm(submissions, graduationDate);
+  const handleReview = async () => {
+    if (!canSubmit) return;
+    setPreviewLoading(true);
+    setPreviewError(null);
+    try {
+      setPreview(await previewGraduation(buildSubmissions(), cycleId));
+    } catch (err) {
+      setPreviewError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!canSubmit || !preview) return;
+    onConfirm(buildSubmissions(), graduationDate);
   };
 
   const addQualEntry = (qualId: string) => {
@@ -282,6 +301,52 @@ const GraduationDialog: React.FC<GraduationDialogProps> = ({
 
         {/* Content */}
         <div style={{ padding: '20px 24px', overflowY: 'auto', flex: 1 }}>
+          {preview ? (
+            <div>
+              <div style={{ fontSize: '14px', fontWeight: 600, color: '#475569', marginBottom: '4px' }}>Review Changes</div>
+              <div style={{ fontSize: '12px', color: '#6B7280', marginBottom: '16px' }}>
+                Graduating on {graduationDate}. Each student is graduated completely or not at all, and can be undone from the PTR grid.
+              </div>
+              {preview.map(student => (
+                <div key={student.studentId} style={{ border: '1px solid #E2E8F0', borderRadius: '6px', marginBottom: '12px' }}>
+                  <div style={{ padding: '8px 12px', backgroundColor: '#F8FAFC', borderBottom: '1px solid #E2E8F0', fontSize: '14px', fontWeight: 600, color: '#111827' }}>
+                    {student.callsign}
+                  </div>
+                  <div style={{ padding: '8px 12px' }}>
+                    {student.errors.map((err, i) => (
+                      <div key={i} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: '#991B1B', marginBottom: '4px' }}>
+                        <AlertCircle size={14} /> {err} — this student will be skipped
+                      </div>
+                    ))}
+                    {student.changes.map((change, i) => (
+                      <div
+                        key={i}
+                        style={{
+                          display: 'flex',
+                          alignItems: 'center',
+                          gap: '8px',
+                          fontSize: '13px',
+                          padding: '3px 0',
+                          color: change.skippedReason ? '#9CA3AF' : '#374151',
+                        }}
+                      >
+                        <span style={{ width: '170px', flexShrink: 0, color: '#6B7280' }}>{change.label}</span>
+                        {change.from && (
+                          <>
+                            <span style={{ textDecoration: change.skippedReason ? 'none' : 'line-through' }}>{change.from}</span>
+                            <ArrowRight size={12} />
+                          </>
+                        )}
+                        <span style={{ fontWeight: change.skippedReason ? 400 : 500 }}>{change.to}</span>
+                        {change.skippedReason && <span style={{ fontStyle: 'italic' }}>({change.skippedReason})</span>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+          <>
           {/* Trainee */}
           {!isBatch && selectedStudents[0] && (
             <div style={{ marginBottom: '20px' }}>
@@ -637,6 +702,22 @@ const GraduationDialog: React.FC<GraduationDialogProps> = ({
               </div>
             </div>
           )}
+          </>
+          )}
+
+          {previewError && (
+            <div style={{
+              marginTop: '16px',
+              padding: '12px',
+              backgroundColor: '#FEF2F2',
+              border: '1px solid #FECACA',
+              borderRadius: '6px',
+              fontSize: '13px',
+              color: '#991B1B',
+            }}>
+              {previewError}
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -648,7 +729,8 @@ const GraduationDialog: React.FC<GraduationDialogProps> = ({
           gap: '8px',
         }}>
           <button
-            onClick={onClose}
+            onClick={preview ? () => setPreview(null) : onClose}
+            disabled={saving}
             style={{
               padding: '8px 16px',
               border: '1px solid #D1D5DB',
@@ -659,10 +741,10 @@ const GraduationDialog: React.FC<GraduationDialogProps> = ({
               color: '#374151',
             }}
           >
-            Cancel
+            {preview ? 'Back' : 'Cancel'}
           </button>
           <button
-            onClick={handleConfirm}
+            onClick={preview ? handleConfirm : handleReview}
             disabled={!canSubmit}
             style={{
               padding: '8px 20px',
@@ -679,7 +761,9 @@ const GraduationDialog: React.FC<GraduationDialogProps> = ({
             }}
           >
             <GraduationCap size={16} />
-            {saving ? 'Graduating...' : isBatch ? `Graduate ${studentIds.length} Students` : 'Graduate'}
+            {!preview
+              ? (previewLoading ? 'Checking...' : 'Review Changes')
+              : saving ? 'Graduating...' : isBatch ? `Graduate ${studentIds.length} Students` : 'Graduate'}
           </button>
         </div>
       </div>
@@ -1,18 +1,20 @@
 // @ts-nocheck
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../../utils/supabaseClient';
-import { Download, BookOpen, CheckCircle2, ExternalLink, FileText, GraduationCap } from 'lucide-react';
+import { Download, BookOpen, CheckCircle2, ExternalLink, FileText, GraduationCap, Undo2, TrendingUp, AlertTriangle } from 'lucide-react';
 import PilotIDBadgeSm from '../ui/PilotIDBadgeSm';
-import { PTRCellData, TrainingGrade } from '../../types/TrainingTypes';
+import { PTRCellData, TrainingGrade, StudentProgressForecast, ProgressionRisk } from '../../types/TrainingTypes';
 import type { ReferenceMaterial } from '../../types/EventTypes';
 import { useNavigate } from 'react-router-dom';
 import PTRCellTooltip from './PTRCellTooltip';
+import { forecastStudentProgress } from '../../utils/trainingForecast';
 
 interface PTRGridProps {
   syllabusId: string;
   cycleId: string;
   onCellClick?: (cellData: PTRCellData) => void;
   onGraduateClick?: (studentIds: string[]) => void;
+  onUndoGraduationClick?: (studentId: string) => void;
   suppressTooltips?: boolean;
 }
 
@@ -41,12 +43,20 @@ interface WeekInfo {
   eventId?: string;
 }
 
+const RISK_DISPLAY: Record<ProgressionRisk, { label: string; color: string; background: string }> = {
+  on_track: { label: 'On track', color: '#16A34A', background: '#DCFCE7' },
+  at_risk: { label: 'At risk', color: '#D97706', background: '#FEF3C7' },
+  unlikely: { label: 'Unlikely to graduate', color: '#DC2626', background: '#FEE2E2' },
+};
+
+const RISK_ORDER: ProgressionRisk[] = ['unlikely', 'at_risk', 'on_track'];
+
 interface StudentRow {
   student: Student & { enrollment_status?: string };
   weekCells: Map<number, PTRCellData>;
 }
 
-const PTRGrid: React.FC<PTRGridProps> = ({ syllabusId, cycleId, onCellClick, onGraduateClick, suppressTooltips }) => {
+const PTRGrid: React.FC<PTRGridProps> = ({ syllabusId, cycleId, onCellClick, onGraduateClick, onUndoGraduationClick, suppressTooltips }) => {
   const navigate = useNavigate();
   const [studentRows, setStudentRows] = useState<StudentRow[]>([]);
   const [weekInfo, setWeekInfo] = useState<WeekInfo[]>([]);
@@ -56,6 +66,9 @@ const PTRGrid: React.FC<PTRGridProps> = ({ syllabusId, cycleId, onCellClick, onG
   const [hoveredCol, setHoveredCol] = useState<number | null>(null);
   const [sortBy, setSortBy] = useState<'boardNumber' | 'callsign'>('boardNumber');
   const [showInactive, setShowInactive] = useState(false);
+  // Forecasts for students still in training, keyed by student id
+  const [forecasts, setForecasts] = useState<Map<string, StudentProgressForecast>>(new Map());
+  const [showForecast, setShowForecast] = useState(false);
   const [hoveredWeekPopup, setHoveredWeekPopup] = useState<number | null>(null);
   const [clickedWeekPopup, setClickedWeekPopup] = useState<number | null>(null);
   const [tooltipData, setTooltipData] = useState<{
@@ -488,6 +501,24 @@ const PTRGrid: React.FC<PTRGridProps> = ({ syllabusId, cycleId, onCellClick, onG
       });
 
       setStudentRows(rows);
+
+      // UNSAT attempts per student per mission, for the progression forecast
+      const unsatCounts = new Map<string, Map<string, number>>();
+      (gradesData || []).forEach((grade: { student_id: string; syllabus_mission_id: string; overall_grade: string | null }) => {
+        if (grade.overall_grade !== 'UNSAT') return;
+        const byMission = unsatCounts.get(grade.student_id) || new Map<string, number>();
+        byMission.set(grade.syllabus_mission_id, (byMission.get(grade.syllabus_mission_id) || 0) + 1);
+        unsatCounts.set(grade.student_id, byMission);
+      });
+
+      setForecasts(new Map(
+        rows
+          .filter(row => row.student.enrollment_status !== 'graduated')
+          .map(row => [
+            row.student.id,
+            forecastStudentProgress(row.student.id, weeks, row.weekCells, unsatCounts.get(row.student.id) || new Map(), startDate)
+          ])
+      ));
     } catch (err: any) {
       console.error('Error loading PTR data:', err);
     } finally {
@@ -516,6 +547,27 @@ const PTRGrid: React.FC<PTRGridProps> = ({ syllabusId, cycleId, onCellClick, onG
     [studentRows]
   );
 
+  // Shown students with a forecast, most at risk first
+  const forecastRows = React.useMemo(() => {
+    return sortedStudentRows
+      .filter(row => forecasts.has(row.student.id))
+      .map(row => ({ student: row.student, forecast: forecasts.get(row.student.id)! }))
+      .sort((a, b) => RISK_ORDER.indexOf(a.forecast.risk) - RISK_ORDER.indexOf(b.forecast.risk));
+  }, [sortedStudentRows, forecasts]);
+
+  const atRiskCount = forecastRows.filter(row => row.forecast.risk !== 'on_track').length;
+
+  const renderRiskMarker = (studentId: string) => {
+    const forecast = forecasts.get(studentId);
+    if (!forecast || forecast.risk === 'on_track') return null;
+    const risk = RISK_DISPLAY[forecast.risk];
+    return (
+      <span title={`${risk.label}: ${forecast.reasons.join('; ')}`} style={{ display: 'flex' }}>
+        <AlertTriangle size={14} style={{ color: risk.color }} />
+      </span>
+    );
+  };
+
   const exportToCSV = () => {
     const headers = ['Student', 'Board Number', ...weekInfo.map(w => `Week ${w.weekNumber}`)];
     const csvRows = [headers.join(',')];
@@ -673,6 +725,29 @@ const PTRGrid: React.FC<PTRGridProps> = ({ syllabusId, cycleId, onCellClick, onG
             </label>
           )}
         </div>
+        <div style={{ display: 'flex', gap: '8px' }}>
+        {forecastRows.length > 0 && (
+          <button
+            onClick={() => setShowForecast(prev => !prev)}
+            style={{
+              padding: '8px 12px',
+              backgroundColor: showForecast ? '#EFF6FF' : 'white',
+              border: '1px solid #D1D5DB',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontSize: '14px',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px'
+            }}
+          >
+            <TrendingUp size={14} />
+            Forecast
+            {atRiskCount > 0 && (
+              <span style={{ fontSize: '12px', fontWeight: 600, color: '#D97706' }}>({atRiskCount} at risk)</span>
+            )}
+          </button>
+        )}
         <button
           onClick={exportToCSV}
           style={{
@@ -690,8 +765,75 @@ const PTRGrid: React.FC<PTRGridProps> = ({ syllabusId, cycleId, onCellClick, onG
           <Download size={14} />
           Export CSV
         </button>
+        </div>
       </div>
 
+      {showForecast && (
+        <div style={{ border: '1px solid #E5E7EB', borderRadius: '6px', marginBottom: '16px', backgroundColor: 'white', overflowX: 'auto' }}>
+          <table style={{ borderCollapse: 'collapse', width: '100%', fontSize: '13px' }}>
+            <thead>
+              <tr style={{ backgroundColor: '#F9FAFB', color: '#6B7280', textAlign: 'left' }}>
+                <th style={{ padding: '8px 12px', fontWeight: 500 }}>Student</th>
+                <th style={{ padding: '8px 12px', fontWeight: 500 }}>Forecast</th>
+                <th style={{ padding: '8px 12px', fontWeight: 500, textAlign: 'center' }}>Remaining</th>
+                <th style={{ padding: '8px 12px', fontWeight: 500, textAlign: 'center' }}>Behind</th>
+                <th style={{ padding: '8px 12px', fontWeight: 500, textAlign: 'center' }}>UNSATs</th>
+                <th style={{ padding: '8px 12px', fontWeight: 500, textAlign: 'center' }}>Attendance</th>
+                <th style={{ padding: '8px 12px', fontWeight: 500, textAlign: 'center' }}>Events Left</th>
+                <th style={{ padding: '8px 12px', fontWeight: 500 }}>Must Attend</th>
+              </tr>
+            </thead>
+            <tbody>
+              {forecastRows.map(({ student, forecast }) => {
+                const risk = RISK_DISPLAY[forecast.risk];
+                return (
+                  <tr key={student.id} style={{ borderTop: '1px solid #E5E7EB', verticalAlign: 'top' }}>
+                    <td style={{ padding: '8px 12px', fontWeight: 600, color: student.squadron?.primary_color || '#111827', whiteSpace: 'nowrap' }}>
+                      {student.board_number} {student.callsign}
+                    </td>
+                    <td style={{ padding: '8px 12px' }}>
+                      <span style={{ padding: '2px 8px', borderRadius: '9999px', fontSize: '12px', fontWeight: 500, color: risk.color, backgroundColor: risk.background, whiteSpace: 'nowrap' }}>
+                        {risk.label}
+                      </span>
+                      {forecast.reasons.map((reason, i) => (
+                        <div key={i} style={{ fontSize: '12px', color: '#6B7280', marginTop: '4px' }}>{reason}</div>
+                      ))}
+                    </td>
+                    <td style={{ padding: '8px 12px', textAlign: 'center' }}>{forecast.missionsRemaining} of {forecast.missionsTotal}</td>
+                    <td style={{ padding: '8px 12px', textAlign: 'center' }}>{forecast.missedMissions}</td>
+                    <td style={{ padding: '8px 12px', textAlign: 'center' }}>
+                      {forecast.unsatAttempts}
+                      {forecast.missionsNeedingRepeat > 0 && (
+                        <span style={{ color: '#6B7280' }}> ({forecast.missionsNeedingRepeat} to repeat)</span>
+                      )}
+                    </td>
+                    <td style={{ padding: '8px 12px', textAlign: 'center' }}>
+                      {forecast.attendanceRate === null
+                        ? '—'
+                        : `${Math.round(forecast.attendanceRate * 100)}% (${forecast.eventsAttended}/${forecast.eventsHeld})`}
+                    </td>
+                    <td style={{ padding: '8px 12px', textAlign: 'center' }}>{forecast.upcomingEvents}</td>
+                    <td style={{ padding: '8px 12px' }}>
+                      {forecast.mustAttend.length === 0 ? (
+                        <span style={{ color: '#9CA3AF' }}>—</span>
+                      ) : forecast.mustAttend.map(event => (
+                        <div key={event.eventId} style={{ whiteSpace: 'nowrap' }}>
+                          {event.missionNumber !== null && (
+                            <span style={{ fontWeight: 500 }}>H{String(event.missionNumber).padStart(2, '0')} </span>
+                          )}
+                          {event.eventName}
+                          <span style={{ color: '#6B7280' }}> · {new Date(event.eventDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}</span>
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       <div style={{ border: '1px solid #E5E7EB', borderRadius: '6px', position: 'relative', overflow: 'visible', width: 'fit-content', height: '100%', display: 'flex', flexDirection: 'column' }}>
         <div style={{ overflowX: 'auto', overflowY: 'auto', flex: 1, position: 'relative' }}>
           <table style={{ borderCollapse: 'collapse', width: 'auto' }}>
@@ -1088,6 +1230,7 @@ const PTRGrid: React.FC<PTRGridProps> = ({ syllabusId, cycleId, onCellClick, onG
                       }}>
                         {row.student.callsign}
                       </span>
+                      {renderRiskMarker(row.student.id)}
                     </div>
                   </td>
                   {weekInfo.map((week) => {
@@ -1198,14 +1341,42 @@ const PTRGrid: React.FC<PTRGridProps> = ({ syllabusId, cycleId, onCellClick, onG
                           : hoveredRow === row.student.id ? '#F9FAFB' : 'white',
                         transition: 'background-color 0.1s',
                       }}
-                      onMouseEnter={() => { if (row.student.enrollment_status !== 'graduated') setHoveredRow(row.student.id); }}
+                      onMouseEnter={() => { if (row.student.enrollment_status !== 'graduated' || onUndoGraduationClick) setHoveredRow(row.student.id); }}
                       onMouseLeave={() => setHoveredRow(null)}
                     >
                       {row.student.enrollment_status === 'graduated' ? (
-                        <CheckCircle2
-                          size={16}
-                          style={{ color: '#16A34A', display: 'block', margin: '0 auto' }}
-                        />
+                        hoveredRow === row.student.id && onUndoGraduationClick ? (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setTooltipData(null);
+                              setHoveredWeekPopup(null);
+                              setClickedWeekPopup(null);
+                              onUndoGraduationClick(row.student.id);
+                            }}
+                            style={{
+                              padding: '4px',
+                              border: 'none',
+                              borderRadius: '4px',
+                              backgroundColor: 'transparent',
+                              cursor: 'pointer',
+                              display: 'flex',
+                              alignItems: 'center',
+                              justifyContent: 'center',
+                              margin: '0 auto',
+                            }}
+                            title="Undo graduation"
+                            onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = '#FEF2F2')}
+                            onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = 'transparent')}
+                          >
+                            <Undo2 size={16} style={{ color: '#DC2626' }} />
+                          </button>
+                        ) : (
+                          <CheckCircle2
+                            size={16}
+                            style={{ color: '#16A34A', display: 'block', margin: '0 auto' }}
+                          />
+                        )
                       ) : hoveredRow === row.student.id && (
                         <button
                           onClick={(e) => {
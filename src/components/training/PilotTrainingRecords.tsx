@@ -8,7 +8,7 @@ import GraduationDialog from './GraduationDialog';
 import type { GraduationSubmission } from './GraduationDialog';
 import { getCycleEnrollmentCount } from '../../utils/trainingEnrollmentService';
 import { getPilotInstructorCycles, getCycleInstructorCount } from '../../utils/instructorEnrollmentService';
-import { graduateStudents } from '../../services/graduationService';
+import { graduateStudents, undoGraduation } from '../../services/graduationService';
 import { clearAllQualificationsCache } from '../../utils/qualificationService';
 import { PTRCellData, GraduationOutcome } from '../../types/TrainingTypes';
 import { useAuth } from '../../context/AuthContext';
@@ -229,6 +229,19 @@ const PilotTrainingRecords: React.FC<PilotTrainingRecordsProps> = ({ error, setE
     }
   };
 
+  const handleUndoGraduation = async (studentId: string) => {
+    if (!selectedCycleId) return;
+    if (!confirm('Undo this graduation? The callsign, standing and squadron it changed are restored and the qualifications it granted are removed.')) return;
+
+    try {
+      await undoGraduation(studentId, selectedCycleId);
+      clearAllQualificationsCache();
+      setPtrGridKey(prev => prev + 1);
+    } catch (err) {
+      setError(`Failed to undo graduation: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
   if (loading) {
     return (
       <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%', padding: '40px' }}>
@@ -347,6 +360,7 @@ const PilotTrainingRecords: React.FC<PilotTrainingRecordsProps> = ({ error, setE
                 cycleId={selectedCycleId}
                 onCellClick={handleCellClick}
                 onGraduateClick={handleGraduateClick}
+                onUndoGraduationClick={handleUndoGraduation}
               suppressTooltips={isGraduationPending || !!graduationStudentIds}
               />
             ) : selectedCycleId ? (
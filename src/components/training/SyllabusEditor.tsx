@@ -2,13 +2,14 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '../../utils/supabaseClient';
-import { ArrowLeft, Save, Plus, Trash2, GripVertical, Edit2, Image as ImageIcon, X } from 'lucide-react';
+import { ArrowLeft, Save, Plus, Trash2, GripVertical, Edit2, Image as ImageIcon, X, ArrowDownUp } from 'lucide-react';
 import ReferenceMaterialsInput from '../ui/events/ReferenceMaterialsInput';
 import CriteriaBlockEditor, { CriteriaBlock } from './CriteriaBlockEditor';
 import type { ReferenceMaterial } from '../../types/EventTypes';
 import { uploadEventImage } from '../../utils/eventImageService';
 import { IssuesTab } from '../issues';
 import OutcomesTab from './OutcomesTab';
+import SyllabusTransferDialog from './SyllabusTransferDialog';
 import type { GraduationOutcome } from '../../types/TrainingTypes';
 
 interface Mission {
@@ -61,6 +62,7 @@ const SyllabusEditor: React.FC<SyllabusEditorProps> = ({ syllabusId: propSyllabu
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [showUnsavedWarning, setShowUnsavedWarning] = useState(false);
   const [deleteConfirmIndex, setDeleteConfirmIndex] = useState<number | null>(null);
+  const [showTransferDialog, setShowTransferDialog] = useState(false);
 
   // Tab state for the syllabus editor
   const [activeTab, setActiveTab] = useState<'missions' | 'student-enrollment' | 'instructor-qualifications' | 'outcomes' | 'issues'>('missions');
@@ -816,6 +818,25 @@ const SyllabusEditor: React.FC<SyllabusEditorProps> = ({ syllabusId: propSyllabu
               Configure training syllabus, missions, and objectives
             </p>
           </div>
+          <button
+            onClick={() => setShowTransferDialog(true)}
+            style={{
+              padding: '10px 16px',
+              backgroundColor: 'white',
+              border: '1px solid #D1D5DB',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontSize: '14px',
+              fontWeight: 500,
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              flexShrink: 0
+            }}
+          >
+            <ArrowDownUp size={16} />
+            Import / Export
+          </button>
           <button
             onClick={handleSave}
             disabled={saving}
@@ -1759,6 +1780,21 @@ const SyllabusEditor: React.FC<SyllabusEditorProps> = ({ syllabusId: propSyllabu
           </div>
         </div>
       )}
+
+      {showTransferDialog && (
+        <SyllabusTransferDialog
+          syllabus={syllabus}
+          missions={missions}
+          onApply={(importedMissions, details) => {
+            setMissions(importedMissions);
+            if (details) {
+              setSyllabus({ ...syllabus, ...details });
+            }
+            setHasUnsavedChanges(true);
+          }}
+          onClose={() => setShowTransferDialog(false)}
+        />
+      )}
       </div>
     </div>
   );
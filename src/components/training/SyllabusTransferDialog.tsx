@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { X, Download, Upload, AlertTriangle } from 'lucide-react';
+import {
+  buildSyllabusFile,
+  syllabusObjectivesToCsv,
+  parseSyllabusJson,
+  parseSyllabusObjectivesCsv,
+  planSyllabusImport,
+  applySyllabusImport,
+  type EditorSyllabusMission,
+  type ParsedSyllabusFile,
+  type SyllabusImportPlan
+} from '../../utils/syllabusFileFormat';
+
+interface SyllabusTransferDialogProps {
+  syllabus: { name: string; description?: string; starts_at_week_zero?: boolean };
+  missions: EditorSyllabusMission[];
+  onApply: (
+    missions: EditorSyllabusMission[],
+    details: { name: string; description?: string; starts_at_week_zero: boolean } | null
+  ) => void;
+  onClose: () => void;
+}
+
+const sectionTitleStyle: React.CSSProperties = {
+  fontSize: '14px',
+  fontWeight: 600,
+  marginBottom: '12px',
+  color: '#6B7280',
+  textTransform: 'uppercase'
+};
+
+const secondaryButtonStyle: React.CSSProperties = {
+  padding: '8px 16px',
+  backgroundColor: 'white',
+  border: '1px solid #D1D5DB',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '14px',
+  fontWeight: 500,
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px'
+};
+
+const fileBaseName = (name: string) => (name.trim() || 'syllabus').replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase();
+
+const downloadFile = (content: string, type: string, fileName: string) => {
+  const blob = new Blob([content], { type });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+/**
+ * Export the syllabus being edited as JSON (or its objectives as CSV), and
+ * import one with a preview of what it would add. Imports only change the
+ * editor; the syllabus still has to be saved.
+ */
+const SyllabusTransferDialog: React.FC<SyllabusTransferDialogProps> = ({ syllabus, missions, onApply, onClose }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedSyllabusFile | null>(null);
+  const [plan, setPlan] = useState<SyllabusImportPlan | null>(null);
+
+  const handleExportJson = () => {
+    const file = buildSyllabusFile(syllabus, missions);
+    downloadFile(JSON.stringify(file, null, 2), 'application/json', `${fileBaseName(syllabus.name)}.json`);
+  };
+
+  const handleExportCsv = () => {
+    const file = buildSyllabusFile(syllabus, missions);
+    downloadFile(syllabusObjectivesToCsv(file), 'text/csv', `${fileBaseName(syllabus.name)}-objectives.csv`);
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    const result = file.name.toLowerCase().endsWith('.csv')
+      ? parseSyllabusObjectivesCsv(text)
+      : parseSyllabusJson(text);
+
+    setFileName(file.name);
+    setParsed(result);
+    setPlan(result.file && result.errors.length === 0 ? planSyllabusImport(result.file, missions) : null);
+  };
+
+  const handleApply = () => {
+    if (!parsed?.file || !plan) return;
+
+    // Only fill in the syllabus details when the editor doesn't have any yet
+    const details = !syllabus.name.trim() && parsed.file.syllabus.name
+      ? {
+          name: parsed.file.syllabus.name,
+          description: parsed.file.syllabus.description || '',
+          starts_at_week_zero: parsed.file.syllabus.startsAtWeekZero
+        }
+      : null;
+
+    onApply(applySyllabusImport(plan, missions), details);
+    onClose();
+  };
+
+  const hasChanges = !!plan && (plan.missionsToCreate.length > 0 || plan.missionsToExtend.length > 0);
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1002
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '8px',
+        width: '90%',
+        maxWidth: '640px',
+        maxHeight: '90vh',
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)'
+      }}>
+        <div style={{ padding: '20px 24px', borderBottom: '1px solid #E5E7EB', display: 'flex', alignItems: 'center' }}>
+          <h2 style={{ fontSize: '18px', fontWeight: 600, margin: 0, flex: 1 }}>Import / Export Syllabus</h2>
+          <button onClick={onClose} style={{ background: 'none', border: 'none', cursor: 'pointer', display: 'flex' }}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div style={{ padding: '24px', overflowY: 'auto' }}>
+          <h3 style={sectionTitleStyle}>Export</h3>
+          <p style={{ color: '#6B7280', fontSize: '14px', marginTop: 0 }}>
+            Exports the syllabus as currently shown in the editor, including unsaved changes.
+          </p>
+          <div style={{ display: 'flex', gap: '12px', marginBottom: '28px' }}>
+            <button onClick={handleExportJson} disabled={missions.length === 0} style={secondaryButtonStyle}>
+              <Download size={16} />
+              Syllabus (JSON)
+            </button>
+            <button onClick={handleExportCsv} disabled={missions.length === 0} style={secondaryButtonStyle}>
+              <Download size={16} />
+              Objectives (CSV)
+            </button>
+          </div>
+
+          <h3 style={sectionTitleStyle}>Import</h3>
+          <p style={{ color: '#6B7280', fontSize: '14px', marginTop: 0 }}>
+            Missions are matched by mission number. New missions are added, and existing missions
+            gain any objectives they don't already have.
+          </p>
+          <label style={{ ...secondaryButtonStyle, display: 'inline-flex' }}>
+            <Upload size={16} />
+            {fileName || 'Choose JSON or CSV file'}
+            <input type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFileSelected} style={{ display: 'none' }} />
+          </label>
+
+          {parsed && parsed.errors.length > 0 && (
+            <div style={{ padding: '12px', backgroundColor: '#FEE2E2', border: '1px solid #EF4444', borderRadius: '6px', marginTop: '16px', fontSize: '14px' }}>
+              <div style={{ fontWeight: 500, marginBottom: '4px' }}>The file can't be imported:</div>
+              <ul style={{ margin: 0, paddingLeft: '20px' }}>
+                {parsed.errors.map((message, index) => <li key={index}>{message}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {parsed && parsed.warnings.length > 0 && (
+            <div style={{ padding: '12px', backgroundColor: '#FEF3C7', border: '1px solid #F59E0B', borderRadius: '6px', marginTop: '16px', fontSize: '14px' }}>
+              <ul style={{ margin: 0, paddingLeft: '20px' }}>
+                {parsed.warnings.map((message, index) => <li key={index}>{message}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {plan && (
+            <div style={{ marginTop: '16px', fontSize: '14px' }}>
+              <div style={{ fontWeight: 500, marginBottom: '8px' }}>
+                {hasChanges
+                  ? `${plan.objectivesToCreate} objective${plan.objectivesToCreate === 1 ? '' : 's'} will be added`
+                  : 'Nothing new to import'}
+                {plan.unchanged > 0 && <span style={{ color: '#6B7280', fontWeight: 400 }}> · {plan.unchanged} already present</span>}
+              </div>
+
+              {plan.missionsToCreate.length > 0 && (
+                <>
+                  <div style={{ color: '#6B7280', marginBottom: '4px' }}>New missions</div>
+                  <ul style={{ marginTop: 0, paddingLeft: '20px' }}>
+                    {plan.missionsToCreate.map(mission => (
+                      <li key={mission.missionNumber}>
+                        {mission.missionNumber} · {mission.name || `Mission ${mission.missionNumber}`}
+                        <span style={{ color: '#6B7280' }}> ({mission.objectives.length} objectives)</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+
+              {plan.missionsToExtend.length > 0 && (
+                <>
+                  <div style={{ color: '#6B7280', marginBottom: '4px' }}>Objectives added to existing missions</div>
+                  <ul style={{ marginTop: 0, paddingLeft: '20px' }}>
+                    {plan.missionsToExtend.map(mission => (
+                      <li key={mission.missionNumber}>
+                        {mission.missionNumber} · {mission.name}
+                        <span style={{ color: '#6B7280' }}> (+{mission.objectives.length})</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+
+              {plan.collisions.length > 0 && (
+                <div style={{ padding: '12px', backgroundColor: '#FEF3C7', border: '1px solid #F59E0B', borderRadius: '6px' }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontWeight: 500, marginBottom: '6px' }}>
+                    <AlertTriangle size={16} color="#D97706" />
+                    {plan.collisions.length} objective code{plan.collisions.length === 1 ? ' is' : 's are'} already in use and will be skipped
+                  </div>
+                  <ul style={{ margin: 0, paddingLeft: '20px' }}>
+                    {plan.collisions.map(collision => (
+                      <li key={collision.code}>
+                        <strong>{collision.code}</strong>: "{collision.incoming}" (existing: "{collision.existing}")
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div style={{ padding: '16px 24px', borderTop: '1px solid #E5E7EB', display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
+          <button onClick={onClose} style={secondaryButtonStyle}>
+            Close
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!hasChanges}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: hasChanges ? '#2563EB' : '#9CA3AF',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: hasChanges ? 'pointer' : 'not-allowed',
+              fontSize: '14px',
+              fontWeight: 500
+            }}
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyllabusTransferDialog;
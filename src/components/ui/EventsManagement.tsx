@@ -9,10 +9,15 @@ import EventDialog from './events/EventDialog';
 import CyclesList from './events/CyclesList';
 import CycleDialog from './events/CycleDialog';
 import { DeleteDivisionDialog } from './dialogs/DeleteDivisionDialog';
-import { Trash2 } from 'lucide-react';
-import type { Event, Cycle, CycleType, ReferenceMaterial } from '../../types/EventTypes';
+import MissionTemplateDialog from './dialogs/MissionTemplateDialog';
+import CalendarFeedDialog from './dialogs/CalendarFeedDialog';
+import AvailabilityDialog from './dialogs/AvailabilityDialog';
+import RecurrenceScopeDialog from './events/RecurrenceScopeDialog';
+import { ConfirmationDialog } from './dialogs/ConfirmationDialog';
+import { Copy, Trash2, CalendarPlus, CalendarOff } from 'lucide-react';
+import type { Event, Cycle, CycleType, ReferenceMaterial, RecurrenceRule, RecurrenceEditScope } from '../../types/EventTypes';
 import { supabase, fetchCycles, createCycle, updateCycle, deleteCycle,
-         fetchEvents, createEvent, updateEvent, deleteEvent } from '../../utils/supabaseClient';
+         fetchEvents, createEvent, updateEvent, deleteEvent, type EventSettings } from '../../utils/supabaseClient';
 import { deleteMultiChannelEvent, updateMultiChannelEvent } from '../../utils/discordService';
 import { uploadMultipleEventImages, deleteEventImageFiles } from '../../utils/eventImageService';
 import LoadingSpinner from './LoadingSpinner';
@@ -21,11 +26,21 @@ import { getAllSquadrons } from '../../utils/organizationService';
 import { Squadron } from '../../types/OrganizationTypes';
 import { createMission, getMissionByEventId } from '../../utils/missionService';
 import type { Mission } from '../../types/MissionTypes';
+import type { Json } from '../../types/supabase';
 import { getAllStatuses, Status } from '../../utils/statusService';
 import { getAllStandings, Standing } from '../../utils/standingService';
 import { getAllRoles, Role } from '../../utils/roleService';
 import { getAllQualifications, Qualification } from '../../utils/qualificationService';
 import { enrollPilots } from '../../utils/trainingEnrollmentService';
+import {
+  expandRecurrence,
+  planSeriesSync,
+  formatOccurrenceTitle,
+  cycleWeekNumber,
+  seriesEventsInScope,
+  planSeriesEdit,
+  type SeriesEditPlan
+} from '../../utils/recurrenceUtils';
 
 // Standard card width matching MissionPreparation component
 const CARD_WIDTH = '550px';
@@ -38,6 +53,8 @@ const EventsManagement: React.FC = () => {
   const [events, setEvents] = useState<Event[]>([]);
   const [cycles, setCycles] = useState<Cycle[]>([]);
   const [squadrons, setSquadrons] = useState<Squadron[]>([]);
+  const [showCalendarFeedDialog, setShowCalendarFeedDialog] = useState(false);
+  const [showAvailabilityDialog, setShowAvailabilityDialog] = useState(false);
   const [statuses, setStatuses] = useState<Status[]>([]);
   const [standings, setStandings] = useState<Standing[]>([]);
   const [roles, setRoles] = useState<Role[]>([]);
@@ -79,10 +96,18 @@ const EventsManagement: React.FC = () => {
   const [isDeleteCycle, setIsDeleteCycle] = useState(false);
   
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
+  // Edit of a recurring event waiting for the user to pick which events it applies to
+  const [pendingSeriesEdit, setPendingSeriesEdit] = useState<{
+    eventData: Parameters<typeof handleEditEvent>[0];
+    shouldPublish: boolean;
+  } | null>(null);
+  // Series events the recurrence rule no longer schedules, waiting for confirmation to delete
+  const [pendingSeriesRemoval, setPendingSeriesRemoval] = useState<{ cycleId: string; events: Event[] } | null>(null);
   const [editingCycle, setEditingCycle] = useState<Cycle | null>(null);
   
   // State for mission management
   const [eventMissions, setEventMissions] = useState<Record<string, Mission>>({});
+  const [templateDialogMode, setTemplateDialogMode] = useState<'save' | 'apply' | null>(null);
   const [missionLoading, setMissionLoading] = useState<Record<string, boolean>>({});
 
   // Reference to keep track of last processed event update
@@ -817,7 +842,7 @@ const EventsManagement: React.FC = () => {
     referenceMaterials?: Array<{ type: string; name: string; url: string }>;
     syllabusMissionId?: string;
     cycleId?: string;
-  }, shouldPublish: boolean = false) => {
+  }, shouldPublish: boolean = false, scope: RecurrenceEditScope = 'this') => {
 
     if (!editingEvent) return;
 
@@ -829,9 +854,9 @@ const EventsManagement: React.FC = () => {
     });
 
     try {
-      // Build event_settings object to save reminder settings
-      const eventSettingsToSave = {
-        ...(editingEvent.eventSettings || {}),
+      // Build event_settings object to save reminder settings. These are also
+      // what a series edit copies to the other events.
+      const sharedSettings = {
         timezone: eventData.timezone,
         groupBySquadron: eventData.groupBySquadron,
         showNoResponse: eventData.showNoResponse,
@@ -854,6 +879,22 @@ const EventsManagement: React.FC = () => {
         secondReminderRecipients: eventData.reminders?.secondReminder?.recipients,
         initialNotificationRoles: eventData.reminders?.initialNotificationRoles
       };
+      // Series events edited on their own keep their timing and title from then on
+      const editedCycle = cycles.find(c => c.id === editingEvent.cycleId);
+      const seriesEdit = planSeriesEdit(
+        editingEvent,
+        eventData,
+        events,
+        scope,
+        eventData.timezone || editingEvent.eventSettings?.timezone || 'UTC',
+        editedCycle?.recurrence,
+        editedCycle?.recurrence ? expandRecurrence(editedCycle.recurrence, editedCycle.startDate, editedCycle.endDate) : []
+      );
+      const eventSettingsToSave = {
+        ...(editingEvent.eventSettings || {}),
+        ...sharedSettings,
+        ...seriesEdit.edited
+      };
 
       // First update the database (don't update discord_event_id to preserve JSONB structure)
       console.log('[HANDLE-EDIT-EVENT-DEBUG] cycleId being saved:', eventData.cycleId);
@@ -1115,6 +1156,13 @@ const EventsManagement: React.FC = () => {
         console.error('[EDIT-SCHEDULED-DEBUG] Error handling scheduled publication:', scheduledError);
       }
 
+      if (scope !== 'this') {
+        const failed = await applyEditToSeries(editingEvent, seriesEdit, eventData, sharedSettings, shouldPublish);
+        if (failed > 0) {
+          setError(`Event updated but ${failed} other event${failed === 1 ? '' : 's'} in the series could not be updated`);
+        }
+      }
+
       // Reload events to get the latest data
       const reloadedEvents = await loadEvents(selectedCycle?.id);
       // Update selected event with fresh data
@@ -1129,6 +1177,89 @@ const EventsManagement: React.FC = () => {
     }
   };
 
+  // Recurring events ask which events of the series an edit applies to first
+  const handleSaveEditedEvent = async (eventData: Parameters<typeof handleEditEvent>[0], shouldPublish: boolean = false) => {
+    if (editingEvent && seriesEventsInScope(editingEvent, events, 'all').length > 0) {
+      setPendingSeriesEdit({ eventData, shouldPublish });
+      return;
+    }
+    await handleEditEvent(eventData, shouldPublish);
+  };
+
+  /**
+   * Copy an edit to the other events of a recurring series, as worked out by
+   * planSeriesEdit. Each event keeps its own date; a changed start time or
+   * duration is applied on its date in the event's timezone. Discord posts are
+   * edited in place, never reposted. Returns the number of events that failed
+   * to update.
+   */
+  const applyEditToSeries = async (
+    edited: Event,
+    plan: SeriesEditPlan,
+    eventData: Parameters<typeof handleEditEvent>[0],
+    sharedSettings: Partial<EventSettings>,
+    shouldPublish: boolean
+  ): Promise<number> => {
+    let failed = 0;
+    const updated: Array<{ event: Event; previousStart: string; datetime: string }> = [];
+
+    for (const { event, changes, settings } of plan.others) {
+      // Settings are merged over each event's own so its series date survives
+      const { error } = await updateEvent(event.id, {
+        ...changes,
+        ...(eventData.description !== (edited.description || '') ? { description: eventData.description } : {}),
+        participants: eventData.participants,
+        trackQualifications: eventData.trackQualifications,
+        event_settings: { ...(event.eventSettings || {}), ...sharedSettings, ...settings }
+      });
+      if (error) {
+        console.error(`[SERIES-EDIT] Failed to update event ${event.id}:`, error);
+        failed++;
+        continue;
+      }
+      updated.push({ event, previousStart: event.datetime, datetime: changes.datetime || event.datetime });
+    }
+
+    // Only an edit to all events changes the rule, so later occurrences follow it
+    if (plan.rule && edited.cycleId) {
+      const { cycle, error } = await updateCycle(edited.cycleId, { recurrence: plan.rule });
+      if (error) {
+        console.error('[SERIES-EDIT] Failed to update the series rule:', error);
+        setError('Events updated but the series schedule could not be changed');
+      } else if (cycle) {
+        setCycles(prev => prev.map(c => (c.id === cycle.id ? cycle : c)));
+      }
+    }
+
+    const published = updated.filter(({ event }) => event.discordEventId || event.discord_event_id);
+    if (published.length > 0) {
+      const { updateEventReminders } = await import('../../utils/reminderService');
+      const { events: refreshed } = await fetchEvents(edited.cycleId);
+
+      for (const { event, previousStart, datetime } of published) {
+        if (eventData.reminders) {
+          const reminderResult = await updateEventReminders(event.id, datetime, eventData.reminders);
+          if (!reminderResult.success) {
+            console.warn(`[SERIES-EDIT] Failed to update reminders for event ${event.id}:`, reminderResult.error);
+          }
+        }
+
+        const refreshedEvent = refreshed.find(e => e.id === event.id);
+        if (!shouldPublish || !refreshedEvent) continue;
+        try {
+          const discordResult = await updateMultiChannelEvent(refreshedEvent, previousStart, eventData.reminders);
+          if (discordResult.errors.length > 0) {
+            console.warn(`[SERIES-EDIT] Some Discord updates failed for event ${event.id}:`, discordResult.errors);
+          }
+        } catch (discordError) {
+          console.error(`[SERIES-EDIT] Error updating Discord messages for event ${event.id}:`, discordError);
+        }
+      }
+    }
+
+    return failed;
+  };
+
   const handleDeleteEvent = (event: Event) => {
     setEventToDelete(event);
     setIsDeleteCycle(false);
@@ -1313,6 +1444,131 @@ const EventsManagement: React.FC = () => {
     }
   };
 
+  // Bring a cycle's events in line with its recurrence rule: create missing
+  // upcoming occurrences and retime or retitle the ones that drifted from it.
+  // The titles it gives are recorded so it never overwrites one edited since.
+  // Events no longer in the schedule are only removed once confirmed.
+  const syncCycleSeries = async (
+    cycleId: string,
+    cycleData: {
+      startDate: string;
+      endDate: string;
+      syllabusId?: string;
+      participants?: string[];
+      recurrence: RecurrenceRule;
+    }
+  ) => {
+    const rule = cycleData.recurrence;
+    const { events: cycleEvents, error: eventsError } = await fetchEvents(cycleId);
+    if (eventsError) throw eventsError;
+
+    // Syllabus missions go on the first new event in their week, and stay in the title when it's renumbered
+    let missions: Array<{ id: string; week_number: number | null; mission_name: string; image_url: Json | null }> = [];
+    if (cycleData.syllabusId) {
+      const { data, error } = await supabase
+        .from('training_syllabus_missions')
+        .select('id, week_number, mission_name, image_url')
+        .eq('syllabus_id', cycleData.syllabusId);
+      if (error) throw error;
+      missions = data || [];
+    }
+    const titleWithMission = (title: string, missionId?: string) => {
+      const mission = missionId ? missions.find(m => m.id === missionId) : undefined;
+      return mission ? `${title} - ${mission.mission_name}` : title;
+    };
+
+    const plan = planSeriesSync(
+      expandRecurrence(rule, cycleData.startDate, cycleData.endDate),
+      cycleEvents,
+      (occurrence, event) => titleWithMission(formatOccurrenceTitle(rule.titleTemplate, occurrence), event.syllabusMissionId)
+    );
+    const scheduledMissionIds = new Set(cycleEvents.map(e => e.syllabusMissionId).filter(Boolean));
+
+    for (const occurrence of plan.toCreate) {
+      const weekNumber = cycleWeekNumber(occurrence.date, cycleData.startDate);
+      const mission = missions.find(m => m.week_number === weekNumber && !scheduledMissionIds.has(m.id));
+      if (mission) scheduledMissionIds.add(mission.id);
+
+      const title = titleWithMission(formatOccurrenceTitle(rule.titleTemplate, occurrence), mission?.id);
+      const eventData = {
+        title,
+        description: mission ? `Training Mission: ${mission.mission_name}` : '',
+        datetime: occurrence.start,
+        endDatetime: occurrence.end,
+        eventType: mission ? 'Hop' as const : undefined,
+        cycleId,
+        status: 'upcoming' as const,
+        participants: cycleData.participants || [],
+        trackQualifications: !!mission,
+        syllabusMissionId: mission?.id,
+        referenceMaterials: [],
+        imageUrl: mission?.image_url ?? undefined,
+        // createEvent reads these from the top level when building event_settings
+        timezone: rule.timezone,
+        supportRoleRequirements: settings.eventDefaults.defaultSupportRoleRequirements || [],
+        showNoResponse: settings.eventDefaults.showNoResponse,
+        groupBySquadron: settings.eventDefaults.groupBySquadron,
+        eventSettings: { recurrenceDate: occurrence.key, recurrenceTitle: title }
+      };
+
+      const { error } = await createEvent(eventData);
+      if (error) throw error;
+    }
+
+    for (const { event, changes } of plan.toUpdate) {
+      const { error } = await updateEvent(event.id, {
+        ...changes,
+        ...(changes.title ? { event_settings: { ...(event.eventSettings || {}), recurrenceTitle: changes.title } } : {})
+      });
+      if (error) throw error;
+    }
+
+    // Edit the Discord posts of updated events in place, keeping their publication records
+    const publishedUpdates = plan.toUpdate.filter(({ event }) => event.discordEventId || event.discord_event_id);
+    if (publishedUpdates.length > 0) {
+      const { events: refreshed } = await fetchEvents(cycleId);
+      for (const { event } of publishedUpdates) {
+        const updatedEvent = refreshed.find(e => e.id === event.id);
+        if (!updatedEvent) continue;
+        try {
+          await updateMultiChannelEvent(updatedEvent, event.datetime);
+        } catch (discordError) {
+          console.warn(`Failed to update Discord messages for series event ${event.id}:`, discordError);
+        }
+      }
+    }
+
+    if (plan.toRemove.length > 0) {
+      setPendingSeriesRemoval({ cycleId, events: plan.toRemove });
+    }
+  };
+
+  // Delete the series events confirmed as no longer in the schedule
+  const confirmSeriesRemoval = async () => {
+    if (!pendingSeriesRemoval) return;
+    const { cycleId, events: eventsToRemove } = pendingSeriesRemoval;
+    setPendingSeriesRemoval(null);
+
+    try {
+      for (const event of eventsToRemove) {
+        try {
+          const { errors } = await deleteMultiChannelEvent(event);
+          if (errors.length > 0) {
+            console.warn(`Warning: Some Discord deletions failed for event ${event.id}:`, errors);
+          }
+        } catch (discordError) {
+          console.warn(`Failed to delete Discord messages for event ${event.id}:`, discordError);
+        }
+        const { error } = await deleteEvent(event.id);
+        if (error) throw error;
+      }
+    } catch (err) {
+      setError(`Failed to remove events: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      if (selectedCycle?.id === cycleId) await loadEvents(cycleId);
+    }
+  };
+
   // Cycle handlers
   const handleCreateCycle = async (cycleData: {
     name: string;
@@ -1321,8 +1577,10 @@ const EventsManagement: React.FC = () => {
     endDate: string;
     type: CycleType;
     restrictedTo?: string[];
+    participants?: string[];
     syllabusId?: string;
     autoCreateEvents?: boolean;
+    recurrence?: RecurrenceRule | null;
     stagedEnrollmentIds?: string[];
   }) => {
     setIsSavingCycle(true);
@@ -1375,11 +1633,15 @@ const EventsManagement: React.FC = () => {
         await createEventsForCycle(cycle.id, cycleData);
       }
 
+      if (cycle && cycleData.recurrence) {
+        await syncCycleSeries(cycle.id, { ...cycleData, recurrence: cycleData.recurrence });
+      }
+
       // Reload cycles to get the latest data
       await loadCycles();
 
       // If events were created, reload them too
-      if (cycleData.autoCreateEvents && cycle) {
+      if ((cycleData.autoCreateEvents || cycleData.recurrence) && cycle) {
         await loadEvents(cycle.id);
         setSelectedCycle(cycle);
       }
@@ -1399,8 +1661,10 @@ const EventsManagement: React.FC = () => {
     endDate: string;
     type: CycleType;
     restrictedTo?: string[];
+    participants?: string[];
     syllabusId?: string;
     autoCreateEvents?: boolean;
+    recurrence?: RecurrenceRule | null;
   }) => {
     if (!editingCycle) return;
 
@@ -1432,6 +1696,10 @@ const EventsManagement: React.FC = () => {
         await createEventsForCycle(cycle.id, cycleData);
       }
 
+      if (cycle && cycleData.recurrence) {
+        await syncCycleSeries(cycle.id, { ...cycleData, recurrence: cycleData.recurrence });
+      }
+
       // Reload cycles to get the latest data
       await loadCycles();
 
@@ -1814,8 +2082,43 @@ const EventsManagement: React.FC = () => {
               }}>
                 {/* Header */}
                 <div style={{
-                  padding: '16px 24px 8px'
+                  padding: '16px 24px 8px',
+                  position: 'relative'
                 }}>
+                  <button
+                    onClick={() => setShowCalendarFeedDialog(true)}
+                    title="Subscribe to calendar"
+                    style={{
+                      position: 'absolute',
+                      right: '16px',
+                      top: '14px',
+                      padding: '4px',
+                      border: 'none',
+                      borderRadius: '4px',
+                      backgroundColor: 'transparent',
+                      cursor: 'pointer',
+                      display: 'flex'
+                    }}
+                  >
+                    <CalendarPlus size={18} color="#64748B" />
+                  </button>
+                  <button
+                    onClick={() => setShowAvailabilityDialog(true)}
+                    title="My availability"
+                    style={{
+                      position: 'absolute',
+                      right: '44px',
+                      top: '14px',
+                      padding: '4px',
+                      border: 'none',
+                      borderRadius: '4px',
+                      backgroundColor: 'transparent',
+                      cursor: 'pointer',
+                      display: 'flex'
+                    }}
+                  >
+                    <CalendarOff size={18} color="#64748B" />
+                  </button>
                   <span style={{
                     fontFamily: 'Inter',
                     fontStyle: 'normal',
@@ -2053,7 +2356,39 @@ const EventsManagement: React.FC = () => {
                       'Plan Mission'
                     )}
                   </button>
-                ) : (
+                ) : null}
+                {selectedEvent?.id && !missionLoading[selectedEvent.id] && (
+                  <button
+                    onClick={() => setTemplateDialogMode(eventMissions[selectedEvent.id] ? 'save' : 'apply')}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '8px',
+                      padding: '12px 24px',
+                      border: '1px solid #D1D5DB',
+                      borderRadius: '6px',
+                      backgroundColor: 'transparent',
+                      color: '#6B7280',
+                      fontFamily: 'Inter',
+                      fontSize: '14px',
+                      fontWeight: 500,
+                      cursor: 'pointer',
+                      transition: 'all 0.2s ease'
+                    }}
+                    onMouseOver={(e) => {
+                      e.currentTarget.style.borderColor = '#9CA3AF';
+                      e.currentTarget.style.backgroundColor = '#F9FAFB';
+                    }}
+                    onMouseOut={(e) => {
+                      e.currentTarget.style.borderColor = '#D1D5DB';
+                      e.currentTarget.style.backgroundColor = 'transparent';
+                    }}
+                  >
+                    <Copy size={18} />
+                    {eventMissions[selectedEvent.id] ? 'Save as Template' : 'From Template'}
+                  </button>
+                )}
+                {!selectedEvent && (
                   <div style={{
                     color: '#9CA3AF',
                     fontFamily: 'Inter',
@@ -2069,9 +2404,45 @@ const EventsManagement: React.FC = () => {
         </div>
       )}
 
+      {templateDialogMode && selectedEvent?.id && (
+        <MissionTemplateDialog
+          mode={templateDialogMode}
+          event={{ id: selectedEvent.id, title: selectedEvent.title, datetime: selectedEvent.datetime, participants: selectedEvent.participants }}
+          mission={eventMissions[selectedEvent.id]}
+          cycleEvents={selectedEvent.cycleId
+            ? events
+                .filter(e => e.cycleId === selectedEvent.cycleId)
+                .map(e => ({ id: e.id, title: e.title, datetime: e.datetime, participants: e.participants }))
+            : []}
+          squadrons={squadrons}
+          onClose={() => setTemplateDialogMode(null)}
+          onApplied={(results) => {
+            setEventMissions(prev => {
+              const next = { ...prev };
+              results.forEach(result => {
+                if (result.mission?.id) next[result.eventId] = result.mission;
+              });
+              return next;
+            });
+          }}
+        />
+      )}
+
+      {showCalendarFeedDialog && (
+        <CalendarFeedDialog
+          cycles={cycles}
+          squadrons={squadrons}
+          onClose={() => setShowCalendarFeedDialog(false)}
+        />
+      )}
+
+      {showAvailabilityDialog && (
+        <AvailabilityDialog onClose={() => setShowAvailabilityDialog(false)} />
+      )}
+
       {showEventDialog && (
         <EventDialog
-          onSave={editingEvent ? handleEditEvent : handleCreateEvent}
+          onSave={editingEvent ? handleSaveEditedEvent : handleCreateEvent}
           onCancel={() => {
             setShowEventDialog(false);
             setEditingEvent(null);
@@ -2120,6 +2491,36 @@ const EventsManagement: React.FC = () => {
         />
       )}
 
+      {pendingSeriesEdit && editingEvent && (
+        <RecurrenceScopeDialog
+          eventTitle={editingEvent.title}
+          onConfirm={async scope => {
+            const { eventData, shouldPublish } = pendingSeriesEdit;
+            setPendingSeriesEdit(null);
+            await handleEditEvent(eventData, shouldPublish, scope);
+          }}
+          onCancel={() => setPendingSeriesEdit(null)}
+        />
+      )}
+
+      {pendingSeriesRemoval && (
+        <ConfirmationDialog
+          isOpen
+          title="Remove Unscheduled Events"
+          message={(() => {
+            const count = pendingSeriesRemoval.events.length;
+            const published = pendingSeriesRemoval.events.filter(e => e.discordEventId || e.discord_event_id).length;
+            return `${count} upcoming event${count === 1 ? ' is' : 's are'} no longer in the schedule` +
+              (published > 0 ? ` (${published} published to Discord)` : '') + '. Delete them?';
+          })()}
+          confirmText="Delete Events"
+          cancelText="Keep Them"
+          icon="trash"
+          onConfirm={confirmSeriesRemoval}
+          onCancel={() => setPendingSeriesRemoval(null)}
+        />
+      )}
+
       {showDeleteDialog && (isDeleteCycle ? cycleToDelete : eventToDelete) && (
         <DeleteDivisionDialog
           onConfirm={confirmDelete}
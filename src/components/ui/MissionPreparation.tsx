@@ -14,13 +14,18 @@ import type { MissionCommanderInfo } from '../../types/MissionCommanderTypes';
 import type { Pilot } from '../../utils/pilotTypes';
 import { useDragDrop } from '../../utils/useDragDrop';
 import { autoAssignPilots } from '../../utils/autoAssignUtils';
+import { getCycleAssignmentHistory } from '../../utils/leadRotationService';
+import { getPlannedAbsences } from '../../utils/availabilityService';
+import { getPilotsQualificationCurrency, withoutLapsedQualifications } from '../../utils/qualificationCurrencyService';
 import { getMissionCommanderCandidatesWithFlightInfo } from '../../utils/missionCommanderUtils';
 import { useMissionPrepData } from '../../hooks/useMissionPrepData';
 import { useMissionPrepState } from '../../hooks/useMissionPrepState';
 import { useMissionPrepDataPersistence } from '../../hooks/useMissionPrepDataPersistence';
 import MissionPresenceBanner from './mission prep/MissionPresenceBanner';
 import UnsavedChangesDialog from './mission prep/UnsavedChangesDialog';
-import type { AssignedPilot, AssignedPilotsRecord } from '../../types/MissionPrepTypes';
+import MissionHistoryPanel from './mission prep/MissionHistoryPanel';
+import MissionMergeDialog from './mission prep/MissionMergeDialog';
+import type { AssignedPilot, AssignedPilotsRecord, AssignmentExplanation, PilotAssignmentHistory } from '../../types/MissionPrepTypes';
 import AutoAssignConfigModal, { type AutoAssignConfig } from './mission prep/AutoAssignConfig';
 import { getUserSettings } from '../../utils/userSettingsService';
 import NoFlightsWarningDialog from './dialogs/NoFlightsWarningDialog';
@@ -38,7 +43,7 @@ interface RealtimeAttendanceRecord {
 
 
 interface MissionPreparationProps {
-  onTransferToMission?: (flights: Flight[]) => void;
+  onTransferToMission?: (flights: Flight[], missionId?: string) => void;
   assignedPilots?: AssignedPilotsRecord;
   onAssignedPilotsChange?: (pilots: AssignedPilotsRecord) => void;
   missionCommander?: MissionCommanderInfo | null;
@@ -111,7 +116,10 @@ const MissionPreparation: React.FC<MissionPreparationProps> = ({
     handleExtractedFlights: persistenceHandleExtractedFlights,
     updateMissionData,
     updateSupportRoles,
-    updateMissionSettings
+    updateMissionSettings,
+    restoreMissionVersion,
+    pendingMerge,
+    resolveMerge
   } = useMissionPrepDataPersistence(
     selectedEvent,
     externalAssignedPilots,
@@ -131,6 +139,8 @@ const MissionPreparation: React.FC<MissionPreparationProps> = ({
   //   console.log('🔍 MissionPreparation: Raw prepFlights value:', prepFlights);
   // }, [prepFlights]);
   const [isAutoAssignConfigOpen, setIsAutoAssignConfigOpen] = useState(false);
+  const [autoAssignExplanations, setAutoAssignExplanations] = useState<AssignmentExplanation[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [isTrainingEvent, setIsTrainingEvent] = useState(false);
   const [showNoFlightsDialog, setShowNoFlightsDialog] = useState(false);
   const [showUnsavedDialog, setShowUnsavedDialog] = useState(false);
@@ -343,20 +353,58 @@ const MissionPreparation: React.FC<MissionPreparationProps> = ({
     const config = await getStoredAutoAssignConfig();
 
     try {
+      // Earlier missions in the cycle, so lead and unpopular slots rotate between events
+      let history: Record<string, PilotAssignmentHistory> | undefined;
+      if (selectedEvent?.cycleId) {
+        const { history: cycleHistory, error: historyError } = await getCycleAssignmentHistory(selectedEvent.cycleId, selectedEvent.id);
+        if (historyError) {
+          console.warn('Failed to load cycle assignment history, auto-assigning without it:', historyError);
+        } else {
+          history = cycleHistory;
+        }
+      }
+
+      // Pilots who told us ahead of time they'll be away for this event
+      let plannedAbsences: Record<string, string> | undefined;
+      if (selectedEvent) {
+        const { absences, error: absencesError } = await getPlannedAbsences(
+          pilotsToAssign.map(p => p.id),
+          selectedEvent.datetime,
+          selectedEvent.eventSettings?.timezone
+        );
+        if (absencesError) {
+          console.warn('Failed to load planned absences, auto-assigning without them:', absencesError);
+        } else {
+          plannedAbsences = absences;
+        }
+      }
+
+      // Lapsed qualifications count as not held. The map is also keyed by board
+      // number, but auto-assign looks pilots up by ID first.
+      const assignableQualifications = Object.fromEntries(pilotsToAssign.map(p => [p.id, allPilotQualifications[p.id] || []]));
+      const { currency, error: currencyError } = await getPilotsQualificationCurrency(assignableQualifications);
+      if (currencyError) {
+        console.warn('Failed to check qualification currency, auto-assigning without trap/flight currency:', currencyError);
+      }
+      const currentQualifications = { ...allPilotQualifications, ...withoutLapsedQualifications(assignableQualifications, currency) };
+
       // Call the auto-assign function with configuration
-      const { newAssignments, suggestedMissionCommander } = await autoAssignPilots(
+      const { newAssignments, suggestedMissionCommander, explanations } = await autoAssignPilots(
         prepFlights,
         pilotsToAssign,
         assignedPilots,
-        allPilotQualifications,
+        currentQualifications,
         config,
         pilotSquadronMap,
-        selectedEvent?.cycleId // Pass cycle ID for training enrollment detection
+        selectedEvent?.cycleId, // Pass cycle ID for training enrollment detection
+        history,
+        plannedAbsences
       );
 
 
       // Update state with new assignments
       setAssignedPilots(newAssignments);
+      setAutoAssignExplanations(explanations);
       
       // Set mission commander if one was determined
       if (suggestedMissionCommander) {
@@ -366,7 +414,7 @@ const MissionPreparation: React.FC<MissionPreparationProps> = ({
       console.error('❌ MissionPreparation: Auto-assignment failed:', error);
       alert(`Auto-assignment failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-  }, [prepFlights, selectedEvent?.id, setAssignedPilots, setMissionCommander, assignedPilots, allPilotQualifications, pilotSquadronMap]);
+  }, [prepFlights, selectedEvent?.id, selectedEvent?.cycleId, setAssignedPilots, setMissionCommander, assignedPilots, allPilotQualifications, pilotSquadronMap]);
 
 
   // Handle settings modal cancellation
@@ -669,6 +717,7 @@ const MissionPreparation: React.FC<MissionPreparationProps> = ({
                 squadrons={squadrons}
                 participatingSquadrons={participatingSquadrons}
                 isLoading={isLoading}
+                onShowHistory={() => setIsHistoryOpen(true)}
               />              <div style={{
                 display: 'flex',
                 flexDirection: 'column',
@@ -723,6 +772,18 @@ const MissionPreparation: React.FC<MissionPreparationProps> = ({
         onCancel={handleCancelSwitch}
         targetEventName={pendingEventSwitch?.name || ''}
       />
+      <MissionMergeDialog
+        pendingMerge={pendingMerge}
+        pilots={activePilots}
+        onResolve={resolveMerge}
+      />
+      <MissionHistoryPanel
+        isOpen={isHistoryOpen}
+        missionId={mission?.id}
+        currentVersion={mission?.version}
+        onRestore={restoreMissionVersion}
+        onClose={() => setIsHistoryOpen(false)}
+      />
 
       {/* Auto-Assignment Configuration Modal */}
       <AutoAssignConfigModal
@@ -730,6 +791,7 @@ const MissionPreparation: React.FC<MissionPreparationProps> = ({
         onCancel={handleAutoAssignSettingsCancel}
         onSave={handleAutoAssignSettingsSave}
         isTrainingEvent={isTrainingEvent}
+        lastRunExplanations={autoAssignExplanations}
       />
 
       {/* No Flights Warning Dialog */}
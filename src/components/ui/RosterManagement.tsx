@@ -48,6 +48,9 @@ import PilotList from './roster/PilotList';
 import PilotDetails from './roster/PilotDetails';
 import BulkEditPilotDetails from './roster/BulkEditPilotDetails';
 import { DiscordPilotsDialog } from './dialogs/DiscordPilotsDialog';
+import RosterImportDialog from './dialogs/RosterImportDialog';
+import type { RosterImportResult } from '../../utils/rosterImportService';
+import { getPilotsQualificationCurrency, type QualificationCurrency } from '../../utils/qualificationCurrencyService';
 import { v4 as uuidv4 } from 'uuid';
 import type { QualificationFilterMode } from './roster/FilterDrawer';
 
@@ -134,6 +137,7 @@ const RosterManagement: React.FC = () => {
 
   // Discord integration state
   const [isDiscordImportOpen, setIsDiscordImportOpen] = useState(false);
+  const [isRosterImportOpen, setIsRosterImportOpen] = useState(false);
   const [syncMessage, setSyncMessage] = useState<{ 
     type: 'success' | 'error'; 
     text: string 
@@ -158,6 +162,8 @@ const RosterManagement: React.FC = () => {
 
   // Add a state variable to store qualifications for all pilots
   const [allPilotQualifications, setAllPilotQualifications] = useState<Record<string, any[]>>({});
+  // Lapse dates worked out from validity periods and currency rules, by pilot then qualification
+  const [qualificationCurrency, setQualificationCurrency] = useState<Record<string, Record<string, QualificationCurrency>>>({});
 
   // Add a state variable to store teams for all pilots
   const [allPilotTeams, setAllPilotTeams] = useState<Record<string, PilotTeam[]>>({});
@@ -224,6 +230,31 @@ const RosterManagement: React.FC = () => {
     }, 8000);
   };
 
+  // Handle CSV/JSON roster import completion
+  const handleRosterImportComplete = (result: RosterImportResult) => {
+    let message = `Roster import complete: ${result.updated} pilots updated, ${result.created} pilots created`;
+
+    if (result.errors.length) {
+      message += `, ${result.errors.length} errors`;
+    }
+    setSyncMessage({
+      type: result.errors.length ? 'error' : 'success',
+      text: message
+    });
+
+    if (result.updated > 0 || result.created > 0) {
+      refreshPilots();
+
+      if (selectedPilot) {
+        refreshSelectedPilot(selectedPilot.id);
+      }
+    }
+
+    setTimeout(() => {
+      setSyncMessage(null);
+    }, 8000);
+  };
+
   // Function to refresh a specific pilot's details
   const refreshSelectedPilot = async (pilotId: string) => {
     try {
@@ -2813,6 +2844,17 @@ const RosterManagement: React.FC = () => {
     }
   }, [pilots]);
 
+  useEffect(() => {
+    let cancelled = false;
+    getPilotsQualificationCurrency(allPilotQualifications).then(({ currency, error }) => {
+      if (error) console.error('Error working out qualification currency:', error);
+      if (!cancelled) setQualificationCurrency(currency);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [allPilotQualifications]);
+
   // When a pilot is selected, fetch their roles, qualifications, and teams
   useEffect(() => {
     if (selectedPilot) {
@@ -2934,6 +2976,7 @@ const RosterManagement: React.FC = () => {
       squadrons={squadrons}
       availableQualifications={availableQualifications}
       pilotQualifications={pilotQualifications}
+      qualificationCurrency={selectedPilot ? qualificationCurrency[selectedPilot.id] : undefined}
       availableTeams={availableTeams}
       pilotTeams={pilotTeams}
       pilotEnrollments={pilotEnrollments}
@@ -2976,7 +3019,7 @@ const RosterManagement: React.FC = () => {
       onQualificationAdded={handleQualificationAddedViaRepair}
       onTeamAdded={handleTeamAddedViaRepair}
     />
-  ), [selectedPilot, statuses, standings, roles, pilotRoles, squadrons, availableQualifications, pilotQualifications, availableTeams, pilotTeams, pilotEnrollments, availableTrainingCycles, loadingRoles, updatingRoles, updatingStatus, updatingStanding, updatingSquadron, loadingQualifications, loadingTeams, loadingEnrollments, updatingEnrollments, disabledRoles, selectedQualification, qualificationAchievedDate, selectedTeam, teamStartDate, isAddingQualification, isAddingTeam, updatingQualifications, updatingTeams, handleStatusChange, handleStandingChange, handleRoleChange, handleSquadronChange, handleAddQualification, handleRemoveQualification, handleAddTeam, handleRemoveTeam, handleAddEnrollment, handleRemoveEnrollment, handleDeletePilot, handleSavePilotChanges, handleQualificationAddedViaRepair, handleTeamAddedViaRepair]);
+  ), [selectedPilot, statuses, standings, roles, pilotRoles, squadrons, availableQualifications, pilotQualifications, qualificationCurrency, availableTeams, pilotTeams, pilotEnrollments, availableTrainingCycles, loadingRoles, updatingRoles, updatingStatus, updatingStanding, updatingSquadron, loadingQualifications, loadingTeams, loadingEnrollments, updatingEnrollments, disabledRoles, selectedQualification, qualificationAchievedDate, selectedTeam, teamStartDate, isAddingQualification, isAddingTeam, updatingQualifications, updatingTeams, handleStatusChange, handleStandingChange, handleRoleChange, handleSquadronChange, handleAddQualification, handleRemoveQualification, handleAddTeam, handleRemoveTeam, handleAddEnrollment, handleRemoveEnrollment, handleDeletePilot, handleSavePilotChanges, handleQualificationAddedViaRepair, handleTeamAddedViaRepair]);
 
   return (
     <div style={rosterStyles.container}>
@@ -2986,6 +3029,23 @@ const RosterManagement: React.FC = () => {
         onClose={() => setIsDiscordImportOpen(false)}
         onComplete={handleDiscordSyncComplete}
       />
+
+      {/* CSV/JSON roster import modal */}
+      {isRosterImportOpen && (
+        <RosterImportDialog
+          context={{
+            pilots,
+            squadrons,
+            statuses,
+            standings,
+            roles,
+            qualifications: availableQualifications,
+            pilotQualifications: allPilotQualifications
+          }}
+          onClose={() => setIsRosterImportOpen(false)}
+          onComplete={handleRosterImportComplete}
+        />
+      )}
       
       {/* Squadron conflict warning dialog */}
       {squadronConflictWarning.show && (
@@ -3191,6 +3251,7 @@ const RosterManagement: React.FC = () => {
               qualificationFilters={qualificationFilters}
               filtersEnabled={filtersEnabled}
               allPilotQualifications={allPilotQualifications}
+              qualificationCurrency={qualificationCurrency}
               setSelectedPilot={isAddingNewPilot ? undefined : setSelectedPilot}
               onPilotSelection={!isAddingNewPilot ? handlePilotSelection : undefined}
               setHoveredPilot={setHoveredPilot}
@@ -3202,6 +3263,7 @@ const RosterManagement: React.FC = () => {
               setFiltersEnabled={setFiltersEnabled}
               onAddPilot={handleAddPilot}
               onSyncWithDiscord={() => setIsDiscordImportOpen(true)}
+              onImportRoster={() => setIsRosterImportOpen(true)}
               isAddingNewPilot={isAddingNewPilot}
             />
 
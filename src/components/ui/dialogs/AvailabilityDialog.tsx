@@ -0,0 +1,336 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { useAuth } from '../../../context/AuthContext';
+import {
+  getPilotAvailability,
+  createPilotAvailability,
+  deletePilotAvailability,
+  describeAbsence,
+  type AvailabilityKind,
+  type PilotAvailability
+} from '../../../utils/availabilityService';
+import { WEEKDAY_LABELS } from '../../../utils/recurrenceUtils';
+
+interface AvailabilityDialogProps {
+  onClose: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid #CBD5E1',
+  borderRadius: '6px',
+  fontFamily: 'Inter',
+  fontSize: '14px',
+  color: '#1F2937',
+  boxSizing: 'border-box',
+  height: '38px',
+  backgroundColor: '#FFFFFF'
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontFamily: 'Inter',
+  fontSize: '13px',
+  fontWeight: 500,
+  color: '#64748B',
+  marginBottom: '6px'
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * The signed-in pilot's planned absences: leave windows and weekdays they
+ * can never make. Events pre-fill these as declines, reminders skip them
+ * and auto-assign leaves them out.
+ */
+const AvailabilityDialog: React.FC<AvailabilityDialogProps> = ({ onClose }) => {
+  const { userProfile } = useAuth();
+  const pilotId = userProfile?.pilot?.id || userProfile?.pilotId || null;
+
+  const [entries, setEntries] = useState<PilotAvailability[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [kind, setKind] = useState<AvailabilityKind>('leave');
+  const [startDate, setStartDate] = useState(today());
+  const [endDate, setEndDate] = useState('');
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (!pilotId) {
+      setLoading(false);
+      return;
+    }
+    getPilotAvailability(pilotId).then(({ entries, error }) => {
+      if (error) setError(error);
+      setEntries(entries);
+      setLoading(false);
+    });
+  }, [pilotId]);
+
+  const validationError = (): string | null => {
+    if (!startDate) return 'Choose a start date';
+    if (kind === 'leave' && !endDate) return 'Choose the date you are back';
+    if (endDate && endDate < startDate) return 'End date must be on or after the start date';
+    if (kind === 'weekly' && weekdays.length === 0) return 'Choose at least one weekday';
+    return null;
+  };
+
+  const handleAdd = async () => {
+    if (!pilotId) return;
+    const invalid = validationError();
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const { entry, error } = await createPilotAvailability({
+      pilotId,
+      kind,
+      startDate,
+      endDate: endDate || null,
+      weekdays,
+      reason: reason.trim() || null
+    });
+    setSaving(false);
+
+    if (error || !entry) {
+      setError(error || 'Failed to save availability');
+      return;
+    }
+
+    setEntries(prev => [...prev, entry].sort((a, b) => a.startDate.localeCompare(b.startDate)));
+    setEndDate('');
+    setWeekdays([]);
+    setReason('');
+  };
+
+  const handleDelete = async (entry: PilotAvailability) => {
+    const { error } = await deletePilotAvailability(entry.id);
+    if (error) {
+      setError(error);
+      return;
+    }
+    setEntries(prev => prev.filter(e => e.id !== entry.id));
+  };
+
+  const describeDates = (entry: PilotAvailability): string => {
+    if (entry.kind === 'leave') return `${entry.startDate} to ${entry.endDate}`;
+    const days = entry.weekdays.map(d => WEEKDAY_LABELS[d]).join(', ');
+    return `Every ${days} from ${entry.startDate}${entry.endDate ? ` until ${entry.endDate}` : ''}`;
+  };
+
+  // Past leave stays in the list for the attendance report, but isn't worth showing here
+  const visibleEntries = entries.filter(entry => !entry.endDate || entry.endDate >= today());
+
+  return (
+    <>
+      {/* Semi-transparent overlay */}
+      <div style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        zIndex: 1000
+      }} onClick={onClose} />
+
+      {/* Dialog */}
+      <div style={{
+        position: 'fixed',
+        top: '50%',
+        left: '50%',
+        transform: 'translate(-50%, -50%)',
+        backgroundColor: '#FFFFFF',
+        borderRadius: '8px',
+        padding: '24px',
+        boxShadow: '0px 10px 15px -3px rgba(0, 0, 0, 0.25), 0px 4px 6px -4px rgba(0, 0, 0, 0.1)',
+        zIndex: 1001,
+        width: '560px',
+        maxWidth: '90vw',
+        maxHeight: '90vh',
+        overflowY: 'auto'
+      }}>
+        <div style={{
+          fontFamily: 'Inter',
+          fontSize: '18px',
+          fontWeight: 500,
+          color: '#1F2937',
+          marginBottom: '8px',
+          textAlign: 'center'
+        }}>
+          My Availability
+        </div>
+        <div style={{
+          fontFamily: 'Inter',
+          fontSize: '14px',
+          color: '#6B7280',
+          marginBottom: '24px',
+          textAlign: 'center',
+          lineHeight: '1.5'
+        }}>
+          Let your squadron know ahead of time when you'll be away. Events on these dates
+          show you as declined and you won't get no-response reminders for them.
+        </div>
+
+        {error && (
+          <div style={{ padding: '12px', backgroundColor: '#FEE2E2', border: '1px solid #EF4444', borderRadius: '6px', marginBottom: '16px', fontFamily: 'Inter', fontSize: '14px' }}>
+            {error}
+          </div>
+        )}
+
+        {!pilotId ? (
+          <div style={{ fontFamily: 'Inter', fontSize: '14px', color: '#64748B', textAlign: 'center', marginBottom: '24px' }}>
+            Your account isn't linked to a pilot record yet.
+          </div>
+        ) : (
+          <>
+            <div style={{ marginBottom: '20px' }}>
+              {loading ? (
+                <div style={{ fontFamily: 'Inter', fontSize: '14px', color: '#64748B' }}>Loading...</div>
+              ) : visibleEntries.length === 0 ? (
+                <div style={{ fontFamily: 'Inter', fontSize: '14px', color: '#94A3B8' }}>No planned absences</div>
+              ) : (
+                visibleEntries.map((entry, index) => (
+                  <div
+                    key={entry.id}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '12px',
+                      padding: '8px 10px',
+                      borderRadius: '6px',
+                      backgroundColor: index % 2 === 0 ? '#F8FAFC' : 'transparent',
+                      fontFamily: 'Inter',
+                      fontSize: '14px'
+                    }}
+                  >
+                    <div style={{ flex: 1 }}>
+                      <div style={{ color: '#1F2937', fontWeight: 500 }}>{describeAbsence(entry)}</div>
+                      <div style={{ color: '#64748B', fontSize: '13px' }}>{describeDates(entry)}</div>
+                    </div>
+                    <button
+                      onClick={() => handleDelete(entry)}
+                      title="Remove"
+                      style={{ padding: '4px', border: 'none', backgroundColor: 'transparent', cursor: 'pointer', display: 'flex' }}
+                    >
+                      <Trash2 size={16} color="#64748B" />
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div style={{ borderTop: '1px solid #E2E8F0', paddingTop: '16px' }}>
+              <div style={{ display: 'flex', gap: '12px', marginBottom: '12px' }}>
+                <div style={{ flex: 1 }}>
+                  <label style={labelStyle}>Type</label>
+                  <select value={kind} onChange={e => setKind(e.target.value as AvailabilityKind)} style={inputStyle}>
+                    <option value="leave">Leave of absence</option>
+                    <option value="weekly">Unavailable every week</option>
+                  </select>
+                </div>
+                <div style={{ flex: 1 }}>
+                  <label style={labelStyle}>{kind === 'leave' ? 'Away From' : 'Starting'}</label>
+                  <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} style={inputStyle} />
+                </div>
+                <div style={{ flex: 1 }}>
+                  <label style={labelStyle}>{kind === 'leave' ? 'Away Until' : 'Until (optional)'}</label>
+                  <input type="date" value={endDate} min={startDate} onChange={e => setEndDate(e.target.value)} style={inputStyle} />
+                </div>
+              </div>
+
+              {kind === 'weekly' && (
+                <div style={{ marginBottom: '12px' }}>
+                  <label style={labelStyle}>On</label>
+                  <div style={{ display: 'flex', gap: '6px' }}>
+                    {WEEKDAY_LABELS.map((label, day) => {
+                      const selected = weekdays.includes(day);
+                      return (
+                        <button
+                          key={label}
+                          type="button"
+                          onClick={() => setWeekdays(selected ? weekdays.filter(d => d !== day) : [...weekdays, day].sort())}
+                          style={{
+                            flex: 1,
+                            padding: '6px 0',
+                            border: `1px solid ${selected ? '#3B82F6' : '#CBD5E1'}`,
+                            borderRadius: '4px',
+                            backgroundColor: selected ? '#3B82F6' : 'white',
+                            color: selected ? 'white' : '#475569',
+                            fontSize: '13px',
+                            cursor: 'pointer'
+                          }}
+                        >
+                          {label}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              <div style={{ display: 'flex', gap: '12px', alignItems: 'flex-end' }}>
+                <div style={{ flex: 1 }}>
+                  <label style={labelStyle}>Reason (optional)</label>
+                  <input
+                    type="text"
+                    value={reason}
+                    placeholder={kind === 'leave' ? 'e.g. Deployed' : 'e.g. Work shift'}
+                    onChange={e => setReason(e.target.value)}
+                    style={inputStyle}
+                  />
+                </div>
+                <button
+                  onClick={handleAdd}
+                  disabled={saving}
+                  style={{
+                    height: '38px',
+                    padding: '0 16px',
+                    border: '1px solid #CBD5E1',
+                    borderRadius: '6px',
+                    backgroundColor: '#FFFFFF',
+                    cursor: saving ? 'not-allowed' : 'pointer',
+                    fontFamily: 'Inter',
+                    fontSize: '14px',
+                    color: '#1F2937'
+                  }}
+                >
+                  {saving ? 'Adding...' : 'Add'}
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '24px' }}>
+          <button
+            onClick={onClose}
+            style={{
+              width: '120px',
+              height: '40px',
+              background: '#3B82F6',
+              borderRadius: '6px',
+              border: 'none',
+              cursor: 'pointer',
+              fontFamily: 'Inter',
+              fontSize: '14px',
+              fontWeight: 500,
+              color: '#FFFFFF'
+            }}
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default AvailabilityDialog;
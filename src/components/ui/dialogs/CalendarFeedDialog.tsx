@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, Check, CalendarPlus, RefreshCw } from 'lucide-react';
+import type { Cycle } from '../../../types/EventTypes';
+import type { Squadron } from '../../../types/OrganizationTypes';
+import {
+  getCalendarFeedToken,
+  regenerateCalendarFeedToken,
+  getCalendarFeedUrl,
+  type CalendarFeedScope
+} from '../../../utils/calendarFeedService';
+
+interface CalendarFeedDialogProps {
+  cycles: Cycle[];
+  squadrons: Squadron[];
+  onClose: () => void;
+}
+
+const selectStyle: React.CSSProperties = {
+  flex: 1,
+  padding: '8px 12px',
+  border: '1px solid #CBD5E1',
+  borderRadius: '6px',
+  fontFamily: 'Inter',
+  fontSize: '14px',
+  color: '#1F2937'
+};
+
+/**
+ * Links for subscribing to events from a phone or desktop calendar. Every
+ * link carries the user's personal feed token, so it also shows their RSVP.
+ */
+const CalendarFeedDialog: React.FC<CalendarFeedDialogProps> = ({ cycles, squadrons, onClose }) => {
+  const [token, setToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [regenerating, setRegenerating] = useState(false);
+  const [squadronId, setSquadronId] = useState(squadrons[0]?.id || '');
+  const [cycleId, setCycleId] = useState(cycles.find(c => c.status === 'active')?.id || cycles[0]?.id || '');
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCalendarFeedToken().then(({ token, error }) => {
+      if (error) setError(error);
+      setToken(token);
+    });
+  }, []);
+
+  const handleRegenerate = async () => {
+    if (!confirm('Reset your calendar links? Calendars subscribed with the current links will stop updating.')) return;
+    setRegenerating(true);
+    const { token: newToken, error } = await regenerateCalendarFeedToken();
+    if (error) setError(error);
+    else setToken(newToken);
+    setRegenerating(false);
+  };
+
+  const handleCopy = async (key: string, url: string) => {
+    await navigator.clipboard.writeText(url);
+    setCopied(key);
+    setTimeout(() => setCopied(prev => (prev === key ? null : prev)), 2000);
+  };
+
+  const renderFeed = (key: string, label: string, scope: CalendarFeedScope | null, picker?: React.ReactNode) => {
+    const url = token && scope ? getCalendarFeedUrl(token, scope) : '';
+    return (
+      <div style={{ marginBottom: '20px' }}>
+        <div style={{ fontFamily: 'Inter', fontSize: '14px', fontWeight: 500, color: '#1F2937', marginBottom: '8px' }}>
+          {label}
+        </div>
+        {picker && <div style={{ display: 'flex', marginBottom: '8px' }}>{picker}</div>}
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <input
+            readOnly
+            value={url}
+            onFocus={e => e.currentTarget.select()}
+            style={{ ...selectStyle, fontSize: '12px', color: '#475569', backgroundColor: '#F8FAFC' }}
+          />
+          <button
+            onClick={() => handleCopy(key, url)}
+            disabled={!url}
+            title="Copy link"
+            style={{ padding: '8px', border: '1px solid #CBD5E1', borderRadius: '6px', backgroundColor: '#FFFFFF', cursor: url ? 'pointer' : 'not-allowed', display: 'flex' }}
+          >
+            {copied === key ? <Check size={16} color="#16A34A" /> : <Copy size={16} color="#64748B" />}
+          </button>
+          <a
+            href={url ? getCalendarFeedUrl(token!, scope!, true) : undefined}
+            title="Open in calendar app"
+            style={{ padding: '8px', border: '1px solid #CBD5E1', borderRadius: '6px', backgroundColor: '#FFFFFF', display: 'flex', pointerEvents: url ? 'auto' : 'none' }}
+          >
+            <CalendarPlus size={16} color="#64748B" />
+          </a>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {/* Semi-transparent overlay */}
+      <div style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        zIndex: 1000
+      }} onClick={onClose} />
+
+      {/* Dialog */}
+      <div style={{
+        position: 'fixed',
+        top: '50%',
+        left: '50%',
+        transform: 'translate(-50%, -50%)',
+        backgroundColor: '#FFFFFF',
+        borderRadius: '8px',
+        padding: '24px',
+        boxShadow: '0px 10px 15px -3px rgba(0, 0, 0, 0.25), 0px 4px 6px -4px rgba(0, 0, 0, 0.1)',
+        zIndex: 1001,
+        width: '560px',
+        maxWidth: '90vw'
+      }}>
+        <div style={{
+          fontFamily: 'Inter',
+          fontSize: '18px',
+          fontWeight: 500,
+          color: '#1F2937',
+          marginBottom: '8px',
+          textAlign: 'center'
+        }}>
+          Subscribe to Calendar
+        </div>
+        <div style={{
+          fontFamily: 'Inter',
+          fontSize: '14px',
+          color: '#6B7280',
+          marginBottom: '24px',
+          textAlign: 'center',
+          lineHeight: '1.5'
+        }}>
+          Add a link to Google Calendar, Outlook or your phone's calendar as a subscription.
+          Event changes and your RSVPs show up the next time it refreshes. These links are personal; don't share them.
+        </div>
+
+        {error && (
+          <div style={{ padding: '12px', backgroundColor: '#FEE2E2', border: '1px solid #EF4444', borderRadius: '6px', marginBottom: '16px', fontFamily: 'Inter', fontSize: '14px' }}>
+            {error}
+          </div>
+        )}
+
+        {renderFeed('pilot', 'My Events', { kind: 'pilot' })}
+        {squadrons.length > 0 && renderFeed(
+          'squadron',
+          'Squadron',
+          squadronId ? { kind: 'squadron', id: squadronId } : null,
+          <select value={squadronId} onChange={e => setSquadronId(e.target.value)} style={selectStyle}>
+            {squadrons.map(squadron => (
+              <option key={squadron.id} value={squadron.id}>{squadron.designation} {squadron.name}</option>
+            ))}
+          </select>
+        )}
+        {cycles.length > 0 && renderFeed(
+          'cycle',
+          'Cycle',
+          cycleId ? { kind: 'cycle', id: cycleId } : null,
+          <select value={cycleId} onChange={e => setCycleId(e.target.value)} style={selectStyle}>
+            {cycles.map(cycle => (
+              <option key={cycle.id} value={cycle.id}>{cycle.name}</option>
+            ))}
+          </select>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '8px' }}>
+          <button
+            onClick={handleRegenerate}
+            disabled={!token || regenerating}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              padding: '8px 12px',
+              border: '1px solid #CBD5E1',
+              borderRadius: '6px',
+              backgroundColor: '#FFFFFF',
+              cursor: token && !regenerating ? 'pointer' : 'not-allowed',
+              fontFamily: 'Inter',
+              fontSize: '14px',
+              color: '#64748B'
+            }}
+          >
+            <RefreshCw size={14} />
+            {regenerating ? 'Resetting...' : 'Reset Links'}
+          </button>
+          <button
+            onClick={onClose}
+            style={{
+              width: '120px',
+              height: '40px',
+              background: '#3B82F6',
+              borderRadius: '6px',
+              border: 'none',
+              cursor: 'pointer',
+              fontFamily: 'Inter',
+              fontSize: '14px',
+              fontWeight: 500,
+              color: '#FFFFFF'
+            }}
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default CalendarFeedDialog;
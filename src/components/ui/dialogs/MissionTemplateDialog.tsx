@@ -0,0 +1,318 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, Trash2, X } from 'lucide-react';
+import {
+  getMissionTemplates,
+  saveMissionAsTemplate,
+  deleteMissionTemplate,
+  instantiateMissionTemplate,
+  instantiateMissionTemplateForEvents,
+  type TemplateInstantiationResult,
+  type TemplateTargetEvent
+} from '../../../utils/missionTemplateService';
+import type { Mission, MissionTemplate } from '../../../types/MissionTypes';
+import type { Squadron } from '../../../types/OrganizationTypes';
+
+interface MissionTemplateDialogProps {
+  mode: 'save' | 'apply';
+  event: TemplateTargetEvent;
+  mission?: Mission | null; // Mission to save as a template (save mode)
+  cycleEvents?: TemplateTargetEvent[]; // Other events in the event's cycle (apply mode)
+  squadrons: Squadron[]; // Squadrons templates can be saved under
+  onClose: () => void;
+  onApplied?: (results: TemplateInstantiationResult[]) => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid #CBD5E1',
+  borderRadius: '6px',
+  fontFamily: 'Inter',
+  fontSize: '14px',
+  boxSizing: 'border-box'
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: '14px',
+  fontWeight: 500,
+  color: '#1F2937',
+  marginBottom: '6px'
+};
+
+/**
+ * Save the event's mission as a reusable template, or create the event's
+ * mission (optionally every mission in its cycle) from a saved template.
+ */
+const MissionTemplateDialog: React.FC<MissionTemplateDialogProps> = ({
+  mode,
+  event,
+  mission,
+  cycleEvents = [],
+  squadrons,
+  onClose,
+  onApplied
+}) => {
+  const [templates, setTemplates] = useState<MissionTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
+  const [squadronId, setSquadronId] = useState<string>(
+    () => mission?.selected_squadrons.find(id => squadrons.some(s => s.id === id)) || squadrons[0]?.id || ''
+  );
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [applyToCycle, setApplyToCycle] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Applying offers the templates of the event's squadrons (all squadrons
+  // when the event has none); saving checks names against every squadron's
+  const templateSquadronIds = mode === 'apply' && event.participants?.length
+    ? event.participants
+    : squadrons.map(s => s.id);
+  const templateSquadronKey = templateSquadronIds.join(',');
+
+  useEffect(() => {
+    getMissionTemplates(templateSquadronKey ? templateSquadronKey.split(',') : []).then(({ templates: loaded, error: loadError }) => {
+      if (loadError) setError(`Failed to load templates: ${loadError}`);
+      setTemplates(loaded);
+      if (loaded.length > 0) setSelectedTemplateId(loaded[0].id);
+    });
+  }, [templateSquadronKey]);
+
+  const squadronLabel = (id: string) => squadrons.find(s => s.id === id)?.designation || 'Unknown squadron';
+
+  // Events in the cycle from this one onwards
+  const remainingCycleEvents = cycleEvents.filter(e => new Date(e.datetime) >= new Date(event.datetime));
+
+  const handleSave = async () => {
+    if (!mission || !name.trim() || !squadronId) return;
+    const existing = templates.find(t => t.squadron_id === squadronId && t.name === name.trim());
+    if (existing && !confirm(`Overwrite the ${squadronLabel(squadronId)} template "${existing.name}"?`)) return;
+
+    setIsWorking(true);
+    const { error: saveError } = await saveMissionAsTemplate(squadronId, mission, name.trim(), description.trim(), event.datetime);
+    setIsWorking(false);
+
+    if (saveError) {
+      setError(`Failed to save template: ${saveError}`);
+      return;
+    }
+    onClose();
+  };
+
+  const handleApply = async () => {
+    const template = templates.find(t => t.id === selectedTemplateId);
+    if (!template) return;
+
+    setIsWorking(true);
+    const results = applyToCycle
+      ? await instantiateMissionTemplateForEvents(template, remainingCycleEvents)
+      : [await instantiateMissionTemplate(template, event)];
+    setIsWorking(false);
+
+    const failed = results.filter(r => r.error);
+    if (failed.length > 0) {
+      setError(failed.map(r => `${r.eventTitle}: ${r.error}`).join('\n'));
+      onApplied?.(results);
+      return;
+    }
+    onApplied?.(results);
+    onClose();
+  };
+
+  const handleDelete = async () => {
+    const template = templates.find(t => t.id === selectedTemplateId);
+    if (!template || !confirm(`Delete the template "${template.name}"?`)) return;
+
+    const { error: deleteError } = await deleteMissionTemplate(template.id);
+    if (deleteError) {
+      setError(`Failed to delete template: ${deleteError}`);
+      return;
+    }
+    const remaining = templates.filter(t => t.id !== template.id);
+    setTemplates(remaining);
+    setSelectedTemplateId(remaining[0]?.id || '');
+  };
+
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId);
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1002,
+      padding: '20px',
+      fontFamily: 'Inter'
+    }}>
+      <div style={{
+        backgroundColor: '#FFFFFF',
+        borderRadius: '12px',
+        width: '100%',
+        maxWidth: '460px',
+        boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25)'
+      }}>
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '20px 24px',
+          borderBottom: '1px solid #E5E7EB'
+        }}>
+          <h2 style={{ fontSize: '18px', fontWeight: 600, color: '#1F2937', margin: 0 }}>
+            {mode === 'save' ? 'Save Mission as Template' : 'Create Mission from Template'}
+          </h2>
+          <button onClick={onClose} style={{ background: 'none', border: 'none', cursor: 'pointer', color: '#6B7280' }}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div style={{ padding: '20px 24px', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          {mode === 'save' ? (
+            <>
+              <p style={{ fontSize: '13px', color: '#6B7280', margin: 0, lineHeight: '1.5' }}>
+                Saves the flights, comms plan, support role slots, step time and publication
+                settings of this mission. Pilot assignments are not saved.
+              </p>
+              <div>
+                <label style={labelStyle}>Squadron</label>
+                <select value={squadronId} onChange={e => setSquadronId(e.target.value)} style={inputStyle}>
+                  {squadrons.map(squadron => (
+                    <option key={squadron.id} value={squadron.id}>{squadron.designation}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label style={labelStyle}>Template name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={e => setName(e.target.value)}
+                  placeholder="e.g. CASE I Blue Flag"
+                  autoFocus
+                  style={inputStyle}
+                />
+              </div>
+              <div>
+                <label style={labelStyle}>Description</label>
+                <textarea
+                  value={description}
+                  onChange={e => setDescription(e.target.value)}
+                  rows={3}
+                  style={{ ...inputStyle, resize: 'vertical' }}
+                />
+              </div>
+            </>
+          ) : templates.length === 0 ? (
+            <p style={{ fontSize: '14px', color: '#6B7280', margin: 0 }}>
+              No mission templates yet. Open a planned mission's event and use "Save as Template".
+            </p>
+          ) : (
+            <>
+              <div>
+                <label style={labelStyle}>Template</label>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  <select
+                    value={selectedTemplateId}
+                    onChange={e => setSelectedTemplateId(e.target.value)}
+                    style={inputStyle}
+                  >
+                    {templates.map(template => (
+                      <option key={template.id} value={template.id}>{squadronLabel(template.squadron_id)} — {template.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleDelete}
+                    title="Delete this template"
+                    style={{
+                      padding: '0 10px',
+                      border: '1px solid #CBD5E1',
+                      borderRadius: '6px',
+                      backgroundColor: '#FFFFFF',
+                      color: '#6B7280',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+                {selectedTemplate && (
+                  <div style={{ fontSize: '12px', color: '#6B7280', marginTop: '6px' }}>
+                    {selectedTemplate.flights.length} flight{selectedTemplate.flights.length === 1 ? '' : 's'}
+                    {', '}{selectedTemplate.support_role_assignments.length} support role{selectedTemplate.support_role_assignments.length === 1 ? '' : 's'}
+                    {selectedTemplate.description ? ` — ${selectedTemplate.description}` : ''}
+                  </div>
+                )}
+              </div>
+              {remainingCycleEvents.length > 1 && (
+                <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px', color: '#374151' }}>
+                  <input type="checkbox" checked={applyToCycle} onChange={e => setApplyToCycle(e.target.checked)} />
+                  Also create missions for the {remainingCycleEvents.length - 1} later event{remainingCycleEvents.length === 2 ? '' : 's'} in this cycle
+                </label>
+              )}
+            </>
+          )}
+
+          {error && (
+            <div style={{ fontSize: '13px', color: '#DC2626', whiteSpace: 'pre-line' }}>{error}</div>
+          )}
+        </div>
+
+        <div style={{
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: '12px',
+          padding: '16px 24px 20px 24px',
+          borderTop: '1px solid #E5E7EB'
+        }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              fontSize: '14px',
+              fontWeight: 500,
+              color: '#374151',
+              backgroundColor: '#FFFFFF',
+              border: '1px solid #D1D5DB',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontFamily: 'Inter'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={mode === 'save' ? handleSave : handleApply}
+            disabled={isWorking || (mode === 'save' ? !name.trim() || !mission || !squadronId : !selectedTemplate)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              padding: '8px 16px',
+              fontSize: '14px',
+              fontWeight: 500,
+              color: '#FFFFFF',
+              backgroundColor: '#3B82F6',
+              border: '1px solid transparent',
+              borderRadius: '6px',
+              cursor: isWorking ? 'not-allowed' : 'pointer',
+              opacity: isWorking || (mode === 'save' ? !name.trim() || !mission || !squadronId : !selectedTemplate) ? 0.6 : 1,
+              fontFamily: 'Inter'
+            }}
+          >
+            <Copy size={14} />
+            {isWorking ? 'Working...' : mode === 'save' ? 'Save Template' : 'Create Mission'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MissionTemplateDialog;
@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { X, Download, Upload, AlertTriangle } from 'lucide-react';
+import {
+  parseRosterCsv,
+  parseRosterJson,
+  planRosterImport,
+  applyRosterImport,
+  rosterCsvTemplate,
+  type ParsedRosterFile,
+  type RosterImportContext,
+  type RosterImportEntry,
+  type RosterImportPlan,
+  type RosterImportResult
+} from '../../../utils/rosterImportService';
+
+interface RosterImportDialogProps {
+  context: RosterImportContext;
+  onClose: () => void;
+  onComplete: (result: RosterImportResult) => void;
+}
+
+const sectionTitleStyle: React.CSSProperties = {
+  fontSize: '14px',
+  fontWeight: 600,
+  margin: '16px 0 8px',
+  color: '#6B7280',
+  textTransform: 'uppercase'
+};
+
+const secondaryButtonStyle: React.CSSProperties = {
+  padding: '8px 16px',
+  backgroundColor: 'white',
+  border: '1px solid #D1D5DB',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontSize: '14px',
+  fontWeight: 500,
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px'
+};
+
+const ACTION_COLORS: Record<RosterImportEntry['action'], string> = {
+  create: '#16A34A',
+  update: '#2563EB',
+  unchanged: '#6B7280',
+  conflict: '#DC2626'
+};
+
+/**
+ * Import pilots from a CSV or JSON roster. Shows what would be created,
+ * updated or can't be imported before anything is written.
+ */
+const RosterImportDialog: React.FC<RosterImportDialogProps> = ({ context, onClose, onComplete }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedRosterFile | null>(null);
+  const [plan, setPlan] = useState<RosterImportPlan | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<RosterImportResult | null>(null);
+
+  const handleDownloadTemplate = () => {
+    const blob = new Blob([rosterCsvTemplate()], { type: 'text/csv' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'roster-template.csv';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    const parsedFile = file.name.toLowerCase().endsWith('.json') ? parseRosterJson(text) : parseRosterCsv(text);
+
+    setFileName(file.name);
+    setParsed(parsedFile);
+    setResult(null);
+    setPlan(parsedFile.errors.length === 0 ? planRosterImport(parsedFile.rows, context) : null);
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setProgress({ done: 0, total: plan.creates + plan.updates });
+    const importResult = await applyRosterImport(plan, (done, total) => setProgress({ done, total }));
+    setProgress(null);
+    setPlan(null);
+    setResult(importResult);
+    onComplete(importResult);
+  };
+
+  const importCount = plan ? plan.creates + plan.updates : 0;
+  const importing = progress !== null;
+  const listedEntries = plan
+    ? [...plan.entries.filter(e => e.action === 'conflict'), ...plan.entries.filter(e => e.action === 'create' || e.action === 'update')]
+    : [];
+
+  const renderEntry = (entry: RosterImportEntry) => (
+    <div key={entry.row.line} style={{ padding: '8px 0', borderBottom: '1px solid #F1F5F9', fontSize: '14px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <span style={{
+          fontSize: '11px',
+          fontWeight: 600,
+          textTransform: 'uppercase',
+          color: ACTION_COLORS[entry.action],
+          width: '64px'
+        }}>
+          {entry.action}
+        </span>
+        <span style={{ fontWeight: 500 }}>{entry.row.boardNumber} {entry.row.callsign}</span>
+        {entry.pilot && entry.pilot.callsign !== entry.row.callsign && (
+          <span style={{ color: '#6B7280' }}>(currently {entry.pilot.callsign})</span>
+        )}
+        <span style={{ marginLeft: 'auto', color: '#94A3B8', fontSize: '12px' }}>Row {entry.row.line}</span>
+      </div>
+      {entry.conflicts.length > 0 && (
+        <ul style={{ margin: '4px 0 0 72px', paddingLeft: '16px', color: '#B91C1C', fontSize: '13px' }}>
+          {entry.conflicts.map((conflict, index) => <li key={index}>{conflict}</li>)}
+        </ul>
+      )}
+      {entry.action === 'update' && (
+        <ul style={{ margin: '4px 0 0 72px', paddingLeft: '16px', color: '#475569', fontSize: '13px' }}>
+          {entry.changes.map((change, index) => (
+            <li key={index}>
+              {change.field}: {change.from === '—' ? '' : <span style={{ textDecoration: 'line-through' }}>{change.from}</span>} {change.from === '—' ? '+ ' : '→ '}{change.to}
+            </li>
+          ))}
+        </ul>
+      )}
+      {entry.action === 'create' && (
+        <div style={{ margin: '4px 0 0 72px', color: '#475569', fontSize: '13px' }}>
+          {[entry.row.squadron, entry.row.status, entry.row.standing, entry.row.role].filter(Boolean).join(' · ')}
+          {entry.qualificationsToAdd.length > 0 && ` · ${entry.qualificationsToAdd.map(q => q.name).join(', ')}`}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1000
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '8px',
+        width: '90%',
+        maxWidth: '720px',
+        maxHeight: '90vh',
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)'
+      }}>
+        <div style={{ padding: '20px 24px', borderBottom: '1px solid #E5E7EB', display: 'flex', alignItems: 'center' }}>
+          <h2 style={{ fontSize: '18px', fontWeight: 600, margin: 0, flex: 1 }}>Import Roster</h2>
+          <button onClick={onClose} disabled={importing} style={{ background: 'none', border: 'none', cursor: importing ? 'not-allowed' : 'pointer', display: 'flex' }}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div style={{ padding: '24px', overflowY: 'auto' }}>
+          <p style={{ color: '#6B7280', fontSize: '14px', marginTop: 0 }}>
+            Pilots are matched by Discord ID, then board number. Matched pilots are updated with what
+            the file lists; qualifications are added but never removed. Squadrons, statuses, standings,
+            roles and qualifications are given by name, with qualification dates as "Name (YYYY-MM-DD)".
+          </p>
+          <div style={{ display: 'flex', gap: '12px' }}>
+            <label style={{ ...secondaryButtonStyle, display: 'inline-flex', cursor: importing ? 'not-allowed' : 'pointer' }}>
+              <Upload size={16} />
+              {fileName || 'Choose CSV or JSON file'}
+              <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileSelected} disabled={importing} style={{ display: 'none' }} />
+            </label>
+            <button onClick={handleDownloadTemplate} style={secondaryButtonStyle}>
+              <Download size={16} />
+              CSV Template
+            </button>
+          </div>
+
+          {parsed && parsed.errors.length > 0 && (
+            <div style={{ padding: '12px', backgroundColor: '#FEE2E2', border: '1px solid #EF4444', borderRadius: '6px', marginTop: '16px', fontSize: '14px' }}>
+              <div style={{ fontWeight: 500, marginBottom: '4px' }}>The file can't be imported:</div>
+              <ul style={{ margin: 0, paddingLeft: '20px' }}>
+                {parsed.errors.map((message, index) => <li key={index}>{message}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {parsed && parsed.warnings.length > 0 && (
+            <div style={{ padding: '12px', backgroundColor: '#FEF3C7', border: '1px solid #F59E0B', borderRadius: '6px', marginTop: '16px', fontSize: '14px' }}>
+              <ul style={{ margin: 0, paddingLeft: '20px' }}>
+                {parsed.warnings.map((message, index) => <li key={index}>{message}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {plan && (
+            <>
+              <h3 style={sectionTitleStyle}>Preview</h3>
+              <div style={{ fontSize: '14px', fontWeight: 500, marginBottom: '8px' }}>
+                {plan.creates} to create · {plan.updates} to update
+                <span style={{ color: '#6B7280', fontWeight: 400 }}> · {plan.unchanged} unchanged</span>
+              </div>
+              {plan.conflicts > 0 && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '8px 12px', backgroundColor: '#FEF3C7', border: '1px solid #F59E0B', borderRadius: '6px', fontSize: '14px', marginBottom: '8px' }}>
+                  <AlertTriangle size={16} color="#D97706" />
+                  {plan.conflicts} row{plan.conflicts === 1 ? ' has' : 's have'} conflicts and will be skipped
+                </div>
+              )}
+              {listedEntries.map(renderEntry)}
+            </>
+          )}
+
+          {progress && (
+            <div style={{ marginTop: '16px', fontSize: '14px', color: '#475569' }}>
+              Importing {progress.done} of {progress.total}...
+            </div>
+          )}
+
+          {result && (
+            <div style={{
+              padding: '12px',
+              backgroundColor: result.errors.length > 0 ? '#FEF3C7' : '#DCFCE7',
+              border: `1px solid ${result.errors.length > 0 ? '#F59E0B' : '#16A34A'}`,
+              borderRadius: '6px',
+              marginTop: '16px',
+              fontSize: '14px'
+            }}>
+              <div style={{ fontWeight: 500 }}>
+                {result.created} pilot{result.created === 1 ? '' : 's'} created, {result.updated} updated
+              </div>
+              {result.errors.length > 0 && (
+                <ul style={{ margin: '4px 0 0', paddingLeft: '20px' }}>
+                  {result.errors.map((message, index) => <li key={index}>{message}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div style={{ padding: '16px 24px', borderTop: '1px solid #E5E7EB', display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
+          <button onClick={onClose} disabled={importing} style={secondaryButtonStyle}>
+            Close
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={importCount === 0 || importing}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: importCount > 0 && !importing ? '#2563EB' : '#9CA3AF',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: importCount > 0 && !importing ? 'pointer' : 'not-allowed',
+              fontSize: '14px',
+              fontWeight: 500
+            }}
+          >
+            {importing ? 'Importing...' : `Import ${importCount} Pilot${importCount === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RosterImportDialog;
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { X, Users, Trash2, ArrowUpDown, UserCheck } from 'lucide-react';
-import { CycleType, TrainingSyllabus } from '../../../types/EventTypes';
+import { CycleType, TrainingSyllabus, RecurrenceRule } from '../../../types/EventTypes';
 import { Squadron } from '../../../types/OrganizationTypes';
 import { supabase } from '../../../utils/supabaseClient';
 import { enrollPilots, removeEnrollment, getCycleEnrollments, getSuggestedEnrollments, type EnrolledPilot } from '../../../utils/trainingEnrollmentService';
@@ -12,6 +12,7 @@ import {
   type EnrolledInstructor 
 } from '../../../utils/instructorEnrollmentService';
 import PilotIDBadgeSm from '../PilotIDBadgeSm';
+import RecurrenceRuleEditor from './RecurrenceRuleEditor';
 import FilterDrawer, { QualificationFilterMode } from '../roster/FilterDrawer';
 import { Status } from '../../../utils/statusService';
 import { Standing } from '../../../utils/standingService';
@@ -29,6 +30,7 @@ interface CycleDialogProps {
     participants?: string[];
     syllabusId?: string;
     autoCreateEvents?: boolean;
+    recurrence?: RecurrenceRule | null;
     stagedEnrollmentIds?: string[];
     stagedInstructorIds?: string[];
   }) => void;
@@ -48,6 +50,7 @@ interface CycleDialogProps {
     restrictedTo?: string[];
     participants?: string[];
     syllabusId?: string;
+    recurrence?: RecurrenceRule | null;
   };
   hasEvents?: boolean;
   isSaving?: boolean;
@@ -85,6 +88,7 @@ export const CycleDialog: React.FC<CycleDialogProps> = ({
   );
   const [selectedSyllabusId, setSelectedSyllabusId] = useState<string>(initialData?.syllabusId || '');
   const [autoCreateEvents, setAutoCreateEvents] = useState<boolean>(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(initialData?.recurrence || null);
 
   // Tab state (show tabs for Training cycles with syllabus selected OR when editing)
   const showTabs = type === 'Training' && (!!cycleId || !!selectedSyllabusId);
@@ -830,6 +834,11 @@ export const CycleDialog: React.FC<CycleDialogProps> = ({
       return;
     }
 
+    if (recurrence && recurrence.weekdays.length === 0) {
+      setError('Pick at least one day for the recurring events');
+      return;
+    }
+
     onSave({
       name: name.trim(),
       description: description.trim(),
@@ -839,7 +848,8 @@ export const CycleDialog: React.FC<CycleDialogProps> = ({
       restrictedTo: restrictedTo.length > 0 ? restrictedTo : undefined,
       participants: participants.length > 0 ? participants : undefined,
       syllabusId: type === 'Training' ? (selectedSyllabusId || undefined) : undefined,
-      autoCreateEvents: !hasEvents && autoCreateEvents, // Only for cycles with no events
+      autoCreateEvents: !hasEvents && autoCreateEvents && !recurrence, // Only for cycles with no events; a recurrence creates its own
+      recurrence,
       stagedEnrollmentIds: stagedEnrollmentIds.length > 0 ? stagedEnrollmentIds : undefined,
       stagedInstructorIds: stagedInstructorIds.length > 0 ? stagedInstructorIds : undefined
     });
@@ -1120,7 +1130,7 @@ export const CycleDialog: React.FC<CycleDialogProps> = ({
             </div>
 
             {/* Auto-create Events Toggle - show for new cycles OR cycles with no events */}
-            {!hasEvents && type === 'Training' && selectedSyllabusId && (
+            {!hasEvents && type === 'Training' && selectedSyllabusId && !recurrence && (
               <div style={{
                 marginBottom: '16px',
                 padding: '12px',
@@ -1327,6 +1337,14 @@ export const CycleDialog: React.FC<CycleDialogProps> = ({
               {/* Remove the helper text as requested */}
             </div>
 
+            <RecurrenceRuleEditor
+              value={recurrence}
+              onChange={setRecurrence}
+              startDate={startDate}
+              endDate={endDate}
+              cycleName={name}
+            />
+
             <div style={{ marginBottom: '16px' }}>
               <label style={{
                 display: 'block',
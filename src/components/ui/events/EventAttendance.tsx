@@ -1,11 +1,12 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useId, useRef, useState } from 'react';
 import type { Event, Cycle } from '../../../types/EventTypes';
 import QualificationBadge from '../QualificationBadge';
-import { getPilotByDiscordId } from '../../../utils/pilotService';
+import { getPilotByDiscordId, getPilotsByIds } from '../../../utils/pilotService';
 import type { Pilot } from '../../../utils/pilotTypes';
-import { fetchCycles } from '../../../utils/supabaseClient';
+import { fetchCycles, supabase } from '../../../utils/supabaseClient';
 import { getBatchPilotQualifications, getAllQualifications } from '../../../utils/qualificationService';
 import { getCycleEnrollments } from '../../../utils/trainingEnrollmentService';
+import { getSquadronPlannedAbsences } from '../../../utils/availabilityService';
 
 interface EventAttendanceProps {
   event: Event | null;
@@ -34,6 +35,7 @@ interface AttendanceData {
   billet?: string;
   discord_id?: string;
   pilotRecord?: EnhancedPilot | null;
+  plannedAbsence?: string; // Why the pilot is away, from their availability calendar
 }
 
 // Enhanced pilot type with role information and qualifications attached at runtime
@@ -42,15 +44,81 @@ interface EnhancedPilot extends Pilot {
   qualifications?: { id: string; type: string; dateAchieved: string }[];
 }
 
+// Squadrons whose pilots are expected at the event
+const eventSquadronIds = (currentEvent: Event): string[] => currentEvent.participants?.length
+  ? currentEvent.participants
+  : [...new Set((currentEvent.discord_event_id || []).map(pub => pub.squadronId).filter(Boolean))];
+
+// Pilots from the participating squadrons who are planned to be away for the event
+const loadPlannedAbsentees = async (currentEvent: Event): Promise<AttendanceData[]> => {
+  const { absences, error: absencesError } = await getSquadronPlannedAbsences(
+    eventSquadronIds(currentEvent),
+    currentEvent.datetime,
+    currentEvent.eventSettings?.timezone
+  );
+  if (absencesError) throw new Error(absencesError);
+
+  const { data: pilots, error } = await getPilotsByIds(Object.keys(absences));
+  if (error) throw error;
+
+  return (pilots || []).map(pilot => ({
+    boardNumber: String(pilot.boardNumber),
+    callsign: pilot.callsign,
+    status: 'declined' as const,
+    discord_id: pilot.discord_id || undefined,
+    pilotRecord: pilot,
+    plannedAbsence: absences[pilot.id]
+  }));
+};
+
+interface PlannedAbsenceCache {
+  key: string;
+  absentees: Promise<AttendanceData[]>;
+}
+
+// Planned absentees for an event, loaded again only when the cache is cleared
+// or the event's date or squadrons change
+const getPlannedAbsentees = (cache: { current: PlannedAbsenceCache | null }, currentEvent: Event): Promise<AttendanceData[]> => {
+  const key = [
+    currentEvent.id,
+    currentEvent.datetime,
+    currentEvent.eventSettings?.timezone || '',
+    eventSquadronIds(currentEvent).join(',')
+  ].join('|');
+
+  if (cache.current?.key !== key) {
+    cache.current = {
+      key,
+      absentees: loadPlannedAbsentees(currentEvent).catch(err => {
+        console.warn('EventAttendance: Failed to load planned absences:', err);
+        // Try again on the next poll rather than caching the failure
+        if (cache.current?.key === key) cache.current = null;
+        return [];
+      })
+    };
+  }
+  return cache.current.absentees;
+};
+
 const EventAttendance: React.FC<EventAttendanceProps> = ({ event }) => {
   const [attendance, setAttendance] = useState<AttendanceData[]>([]);
   const [error, setError] = useState<string | null>(null);
   // Tracks the currently displayed event so in-flight responses from a
   // previously selected event can't overwrite the list
   const activeEventIdRef = useRef<string | null>(null);
+  // The poller reads the latest event through this, so edits to its date or
+  // squadrons are seen without restarting the poll
+  const latestEventRef = useRef<Event | null>(event);
+  latestEventRef.current = event;
   const [cycles, setCycles] = useState<Cycle[]>([]);
   const [qualificationConfigs, setQualificationConfigs] = useState<any[]>([]);
   const [enrolledTraineePilotIds, setEnrolledTraineePilotIds] = useState<Set<string>>(new Set());
+  // Availability only changes when a pilot edits it, so planned absences are
+  // loaded once per event (and again when its date or squadrons change, or an
+  // availability entry changes) instead of on every poll
+  const plannedAbsencesRef = useRef<PlannedAbsenceCache | null>(null);
+  // Keeps this instance's availability channel apart from other mounted lists
+  const instanceId = useId();
 
   // Load qualification configs once on component mount
   useEffect(() => {
@@ -68,6 +136,25 @@ const EventAttendance: React.FC<EventAttendanceProps> = ({ event }) => {
     loadQualificationConfigs();
   }, []);
 
+  // Drop the cached absences when any pilot edits their availability, so the
+  // next poll picks the change up
+  useEffect(() => {
+    const channel = supabase
+      .channel(`event-attendance-availability-${instanceId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'pilot_availability' },
+        () => {
+          plannedAbsencesRef.current = null;
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [instanceId]);
+
   // Function to fetch attendance data from API
   const fetchAttendance = async (eventId: string) => {
     // Don't clear previous attendance - let it persist while loading new data
@@ -108,7 +195,7 @@ const EventAttendance: React.FC<EventAttendanceProps> = ({ event }) => {
       ];
 
       // First pass: fetch all pilot records
-      const attendeeWithPilotRecords = await Promise.all(
+      const respondedWithPilotRecords = await Promise.all(
         formattedAttendance.map(async (attendee) => {
           if (attendee.discord_id) {
             const { data: pilotData } = await getPilotByDiscordId(attendee.discord_id);
@@ -131,6 +218,21 @@ const EventAttendance: React.FC<EventAttendanceProps> = ({ event }) => {
         })
       );
 
+      // Pilots who are planned to be away show as declined until they respond
+      // themselves; a decline from one of them is labelled with the reason too
+      const currentEvent = latestEventRef.current;
+      const plannedAbsentees = currentEvent?.id === eventId ? await getPlannedAbsentees(plannedAbsencesRef, currentEvent) : [];
+      const respondedPilotIds = new Set(respondedWithPilotRecords.map(a => a.pilotRecord?.id).filter(Boolean));
+      const attendeeWithPilotRecords: AttendanceData[] = [
+        ...respondedWithPilotRecords.map(attendee => {
+          const absence = attendee.status === 'declined'
+            ? plannedAbsentees.find(a => a.pilotRecord?.id === attendee.pilotRecord?.id)
+            : undefined;
+          return absence ? { ...attendee, plannedAbsence: absence.plannedAbsence } : attendee;
+        }),
+        ...plannedAbsentees.filter(absentee => !respondedPilotIds.has(absentee.pilotRecord?.id))
+      ];
+
       // Set attendance immediately without qualifications for fast initial render
       if (activeEventIdRef.current !== eventId) {
         return;
@@ -473,7 +575,7 @@ const EventAttendance: React.FC<EventAttendanceProps> = ({ event }) => {
               fontWeight: 300,
               color: '#646F7E'
             }}>
-              {(pilot.pilotRecord as EnhancedPilot)?.displayRole || ''}
+              {pilot.plannedAbsence ? `Away: ${pilot.plannedAbsence}` : (pilot.pilotRecord as EnhancedPilot)?.displayRole || ''}
             </span>
             
             {/* Qualification badges */}
@@ -629,7 +731,7 @@ const EventAttendance: React.FC<EventAttendanceProps> = ({ event }) => {
                 fontWeight: 300,
                 color: '#646F7E'
               }}>
-                {(pilot.pilotRecord as EnhancedPilot)?.displayRole || ''}
+                {pilot.plannedAbsence ? `Away: ${pilot.plannedAbsence}` : (pilot.pilotRecord as EnhancedPilot)?.displayRole || ''}
               </span>
               
               {/* Qualification badges */}
@@ -831,7 +933,7 @@ const EventAttendance: React.FC<EventAttendanceProps> = ({ event }) => {
                 fontWeight: 300,
                 color: '#646F7E'
               }}>
-                {(pilot.pilotRecord as EnhancedPilot)?.displayRole || ''}
+                {pilot.plannedAbsence ? `Away: ${pilot.plannedAbsence}` : (pilot.pilotRecord as EnhancedPilot)?.displayRole || ''}
               </span>
               
               {/* Qualification badges */}
@@ -976,7 +1078,7 @@ const EventAttendance: React.FC<EventAttendanceProps> = ({ event }) => {
                 fontWeight: 300,
                 color: '#646F7E'
               }}>
-                {(pilot.pilotRecord as EnhancedPilot)?.displayRole || ''}
+                {pilot.plannedAbsence ? `Away: ${pilot.plannedAbsence}` : (pilot.pilotRecord as EnhancedPilot)?.displayRole || ''}
               </span>
               
               {/* Qualification badges */}
@@ -0,0 +1,319 @@
+import React, { useMemo } from 'react';
+import { Repeat, RotateCcw } from 'lucide-react';
+import type { RecurrenceRule, RecurrenceException } from '../../../types/EventTypes';
+import { useAppSettings } from '../../../context/AppSettingsContext';
+import { expandRecurrence, describeRecurrence, formatOccurrenceTitle, WEEKDAY_LABELS } from '../../../utils/recurrenceUtils';
+
+interface RecurrenceRuleEditorProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  startDate: string;
+  endDate: string;
+  cycleName: string;
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  marginBottom: '8px',
+  fontSize: '14px',
+  fontWeight: 500,
+  color: '#64748B'
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px',
+  border: '1px solid #CBD5E1',
+  borderRadius: '4px',
+  fontSize: '14px',
+  boxSizing: 'border-box',
+  height: '35px',
+  backgroundColor: 'white'
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '2px 8px',
+  border: '1px solid #CBD5E1',
+  borderRadius: '4px',
+  backgroundColor: 'white',
+  cursor: 'pointer',
+  fontSize: '12px',
+  color: '#475569'
+};
+
+type EndMode = 'cycle' | 'until' | 'count';
+
+/**
+ * Recurring events for a cycle: which days they fall on, when the series
+ * ends, and per-date exceptions (skipping a holiday or moving one date)
+ */
+export const RecurrenceRuleEditor: React.FC<RecurrenceRuleEditorProps> = ({ value, onChange, startDate, endDate, cycleName }) => {
+  const { settings } = useAppSettings();
+
+  const handleToggle = () => {
+    if (value) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      frequency: 'weekly',
+      interval: 1,
+      weekdays: startDate ? [new Date(`${startDate}T00:00:00Z`).getUTCDay()] : [],
+      startTime: settings.eventDefaults.defaultStartTime || '20:30',
+      timezone: settings.eventDefaults.referenceTimezone || 'America/New_York',
+      durationMinutes: (settings.eventDefaults.defaultDurationHours * 60 + settings.eventDefaults.defaultDurationMinutes) || 120,
+      titleTemplate: `${cycleName || 'Event'} #{n}`,
+      exceptions: []
+    });
+  };
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  // Every date the rule produces, including skipped ones, so they can be restored
+  const baseOccurrences = useMemo(
+    () => (value && startDate && endDate ? expandRecurrence({ ...value, exceptions: [] }, startDate, endDate) : []),
+    [value, startDate, endDate]
+  );
+
+  const setException = (date: string, exception: RecurrenceException | null) => {
+    if (!value) return;
+    const others = value.exceptions.filter(e => e.date !== date);
+    update({ exceptions: exception ? [...others, exception].sort((a, b) => a.date.localeCompare(b.date)) : others });
+  };
+
+  const endMode: EndMode = value?.count ? 'count' : value?.until ? 'until' : 'cycle';
+
+  const handleEndModeChange = (mode: EndMode) => {
+    update({
+      until: mode === 'until' ? (value?.until || endDate) : undefined,
+      count: mode === 'count' ? (value?.count || Math.max(baseOccurrences.length, 1)) : undefined
+    });
+  };
+
+  return (
+    <div style={{
+      marginBottom: '16px',
+      padding: '12px',
+      backgroundColor: '#F8FAFC',
+      border: '1px solid #E2E8F0',
+      borderRadius: '6px'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+        <Repeat size={18} color="#64748B" />
+        <div style={{ flex: 1 }}>
+          <div style={{ fontSize: '14px', fontWeight: 500, color: '#0F172A', marginBottom: '4px' }}>
+            Recurring Events
+          </div>
+          <div style={{ fontSize: '13px', color: '#64748B' }}>
+            {value ? describeRecurrence(value) : 'Create this cycle\'s events on a repeating schedule'}
+          </div>
+        </div>
+        <div
+          onClick={handleToggle}
+          style={{
+            width: '44px',
+            height: '24px',
+            backgroundColor: value ? '#3B82F6' : '#E5E7EB',
+            borderRadius: '12px',
+            position: 'relative',
+            cursor: 'pointer',
+            transition: 'background-color 0.2s ease',
+            flexShrink: 0
+          }}
+        >
+          <div
+            style={{
+              width: '20px',
+              height: '20px',
+              backgroundColor: 'white',
+              borderRadius: '50%',
+              position: 'absolute',
+              top: '2px',
+              left: value ? '22px' : '2px',
+              transition: 'left 0.2s ease',
+              boxShadow: '0 2px 4px rgba(0, 0, 0, 0.2)'
+            }}
+          />
+        </div>
+      </div>
+
+      {value && (
+        <div style={{ marginTop: '16px' }}>
+          <div style={{ display: 'flex', gap: '12px', marginBottom: '12px' }}>
+            <div style={{ flex: 1 }}>
+              <label style={labelStyle}>Repeat</label>
+              <select value={value.interval} onChange={e => update({ interval: Number(e.target.value) })} style={inputStyle}>
+                <option value={1}>Every week</option>
+                <option value={2}>Every 2 weeks</option>
+                <option value={3}>Every 3 weeks</option>
+                <option value={4}>Every 4 weeks</option>
+              </select>
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={labelStyle}>Start Time</label>
+              <input type="time" value={value.startTime} onChange={e => update({ startTime: e.target.value })} style={inputStyle} />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={labelStyle}>Duration (min)</label>
+              <input
+                type="number"
+                min={15}
+                step={15}
+                value={value.durationMinutes}
+                onChange={e => update({ durationMinutes: Math.max(15, Number(e.target.value) || 0) })}
+                style={inputStyle}
+              />
+            </div>
+          </div>
+
+          <div style={{ marginBottom: '12px' }}>
+            <label style={labelStyle}>On</label>
+            <div style={{ display: 'flex', gap: '6px' }}>
+              {WEEKDAY_LABELS.map((label, day) => {
+                const selected = value.weekdays.includes(day);
+                return (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => update({ weekdays: selected ? value.weekdays.filter(d => d !== day) : [...value.weekdays, day].sort() })}
+                    style={{
+                      flex: 1,
+                      padding: '6px 0',
+                      border: `1px solid ${selected ? '#3B82F6' : '#CBD5E1'}`,
+                      borderRadius: '4px',
+                      backgroundColor: selected ? '#3B82F6' : 'white',
+                      color: selected ? 'white' : '#475569',
+                      fontSize: '13px',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', gap: '12px', marginBottom: '12px' }}>
+            <div style={{ flex: 1 }}>
+              <label style={labelStyle}>Ends</label>
+              <select value={endMode} onChange={e => handleEndModeChange(e.target.value as EndMode)} style={inputStyle}>
+                <option value="cycle">With the cycle</option>
+                <option value="until">On date</option>
+                <option value="count">After a number of events</option>
+              </select>
+            </div>
+            <div style={{ flex: 1 }}>
+              {endMode === 'until' && (
+                <>
+                  <label style={labelStyle}>Last Date</label>
+                  <input type="date" value={value.until || ''} min={startDate} max={endDate} onChange={e => update({ until: e.target.value || undefined })} style={inputStyle} />
+                </>
+              )}
+              {endMode === 'count' && (
+                <>
+                  <label style={labelStyle}>Events</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={value.count || 1}
+                    onChange={e => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                    style={inputStyle}
+                  />
+                </>
+              )}
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={labelStyle}>Timezone</label>
+              <select value={value.timezone} onChange={e => update({ timezone: e.target.value })} style={inputStyle}>
+                <option value="America/New_York">Eastern Time</option>
+                <option value="America/Chicago">Central Time</option>
+                <option value="America/Denver">Mountain Time</option>
+                <option value="America/Los_Angeles">Pacific Time</option>
+                <option value="America/Anchorage">Alaska Time</option>
+                <option value="Pacific/Honolulu">Hawaii Time</option>
+                <option value="UTC">UTC</option>
+                <option value="Europe/London">British Time</option>
+                <option value="Europe/Berlin">Central European</option>
+                <option value="Europe/Athens">Eastern European</option>
+                <option value="Asia/Tokyo">Japan Time</option>
+                <option value="Australia/Sydney">Australian Eastern</option>
+              </select>
+            </div>
+          </div>
+
+          <div style={{ marginBottom: '12px' }}>
+            <label style={labelStyle}>Event Title</label>
+            <input type="text" value={value.titleTemplate} onChange={e => update({ titleTemplate: e.target.value })} style={inputStyle} />
+            <div style={{ fontSize: '12px', color: '#64748B', marginTop: '4px' }}>
+              {'{n}'} is replaced with the event number and {'{date}'} with its date.
+            </div>
+          </div>
+
+          <label style={labelStyle}>Events ({baseOccurrences.length - value.exceptions.filter(e => e.action === 'skip').length})</label>
+          {baseOccurrences.length === 0 ? (
+            <div style={{ fontSize: '13px', color: '#64748B' }}>No dates match this schedule within the cycle.</div>
+          ) : (
+            <div style={{ maxHeight: '200px', overflowY: 'auto', border: '1px solid #E2E8F0', borderRadius: '4px', backgroundColor: 'white' }}>
+              {baseOccurrences.map(occurrence => {
+                const exception = value.exceptions.find(e => e.date === occurrence.key);
+                const skipped = exception?.action === 'skip';
+                const movedTo = exception?.action === 'move' ? exception.movedTo : undefined;
+                return (
+                  <div
+                    key={occurrence.key}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '8px',
+                      padding: '6px 10px',
+                      borderBottom: '1px solid #F1F5F9',
+                      fontSize: '13px',
+                      color: skipped ? '#94A3B8' : '#1F2937'
+                    }}
+                  >
+                    <span style={{ width: '110px', textDecoration: skipped || movedTo ? 'line-through' : 'none' }}>
+                      {WEEKDAY_LABELS[new Date(`${occurrence.key}T00:00:00Z`).getUTCDay()]} {occurrence.key}
+                    </span>
+                    <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {skipped ? 'Skipped' : formatOccurrenceTitle(value.titleTemplate, { ...occurrence, date: movedTo || occurrence.date })}
+                    </span>
+                    {movedTo !== undefined && (
+                      <input
+                        type="date"
+                        value={movedTo}
+                        onChange={e => setException(occurrence.key, { date: occurrence.key, action: 'move', movedTo: e.target.value || occurrence.key })}
+                        style={{ ...inputStyle, width: '140px', height: '26px', padding: '2px 6px', fontSize: '12px' }}
+                      />
+                    )}
+                    {exception ? (
+                      <button type="button" title="Restore" onClick={() => setException(occurrence.key, null)} style={{ ...smallButtonStyle, display: 'flex' }}>
+                        <RotateCcw size={12} />
+                      </button>
+                    ) : (
+                      <>
+                        <button type="button" onClick={() => setException(occurrence.key, { date: occurrence.key, action: 'move', movedTo: occurrence.key })} style={smallButtonStyle}>
+                          Move
+                        </button>
+                        <button type="button" onClick={() => setException(occurrence.key, { date: occurrence.key, action: 'skip' })} style={smallButtonStyle}>
+                          Skip
+                        </button>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <div style={{ fontSize: '12px', color: '#64748B', marginTop: '4px' }}>
+            Saving creates any missing upcoming events. Skipped or removed dates delete their upcoming events, including Discord posts.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceRuleEditor;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Repeat, X } from 'lucide-react';
+import type { RecurrenceEditScope } from '../../../types/EventTypes';
+
+interface RecurrenceScopeDialogProps {
+  eventTitle: string;
+  onConfirm: (scope: RecurrenceEditScope) => void;
+  onCancel: () => void;
+}
+
+const SCOPE_OPTIONS: Array<{ scope: RecurrenceEditScope; label: string; description: string }> = [
+  { scope: 'this', label: 'This event', description: 'Only this event changes, including its date. Cycle saves keep the change.' },
+  { scope: 'following', label: 'This and following events', description: 'Later events in the series get the same changes and start time. The cycle\'s schedule stays as it is.' },
+  { scope: 'all', label: 'All events', description: 'Every event in the series gets the same changes and start time, and so does the cycle\'s schedule.' }
+];
+
+/**
+ * Asks which events of a recurring series an edit applies to. Date changes
+ * only ever move the edited event; other events keep their own dates.
+ */
+export const RecurrenceScopeDialog: React.FC<RecurrenceScopeDialogProps> = ({ eventTitle, onConfirm, onCancel }) => {
+  const [scope, setScope] = useState<RecurrenceEditScope>('this');
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 1002,
+      padding: '20px'
+    }}>
+      <div style={{
+        backgroundColor: '#FFFFFF',
+        borderRadius: '12px',
+        width: '100%',
+        maxWidth: '440px',
+        overflow: 'hidden',
+        boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25)'
+      }}>
+        <div style={{ padding: '24px', borderBottom: '1px solid #E5E7EB', display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+            <Repeat size={20} color="#3B82F6" />
+            <h2 style={{ fontSize: '18px', fontWeight: 600, color: '#1F2937', margin: 0 }}>Edit Recurring Event</h2>
+          </div>
+          <button onClick={onCancel} style={{ background: 'none', border: 'none', cursor: 'pointer', color: '#6B7280', padding: '4px', display: 'flex' }}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div style={{ padding: '24px' }}>
+          <div style={{ fontSize: '14px', color: '#6B7280', marginBottom: '16px' }}>
+            {eventTitle} is part of a series. Apply your changes to:
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            {SCOPE_OPTIONS.map(option => (
+              <label
+                key={option.scope}
+                style={{
+                  display: 'flex',
+                  alignItems: 'flex-start',
+                  gap: '12px',
+                  padding: '12px',
+                  borderRadius: '6px',
+                  border: `1px solid ${scope === option.scope ? '#3B82F6' : '#E5E7EB'}`,
+                  cursor: 'pointer'
+                }}
+              >
+                <input
+                  type="radio"
+                  name="recurrence-scope"
+                  checked={scope === option.scope}
+                  onChange={() => setScope(option.scope)}
+                  style={{ marginTop: '3px' }}
+                />
+                <div>
+                  <div style={{ fontSize: '14px', fontWeight: 500, color: '#1F2937' }}>{option.label}</div>
+                  <div style={{ fontSize: '12px', color: '#6B7280', marginTop: '2px' }}>{option.description}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div style={{ padding: '16px 24px', borderTop: '1px solid #E5E7EB', display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
+          <button
+            onClick={onCancel}
+            style={{ padding: '8px 16px', backgroundColor: 'white', border: '1px solid #D1D5DB', borderRadius: '6px', cursor: 'pointer', fontSize: '14px' }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(scope)}
+            style={{ padding: '8px 16px', backgroundColor: '#3B82F6', color: 'white', border: 'none', borderRadius: '6px', cursor: 'pointer', fontSize: '14px', fontWeight: 500 }}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecurrenceScopeDialog;
@@ -1,7 +1,9 @@
 import React, { useState, memo } from 'react';
 import { useDroppable } from '@dnd-kit/core';
 import AircraftTile from './AircraftTile';
-import { Edit2, Trash2, Clock } from 'lucide-react';
+import FlightRouteCard from './FlightRouteCard';
+import { Edit2, Trash2, Clock, Route } from 'lucide-react';
+import type { LoadoutStation, RouteWaypoint } from '../../../types/FlightRouteTypes';
 
 // Add mission commander interface
 interface MissionCommanderInfo {
@@ -29,6 +31,8 @@ interface FlightAssignmentCardProps {
   midsA?: string;
   midsB?: string;
   stepTime?: number; // Step time offset in minutes
+  route?: RouteWaypoint[]; // Steerpoints decoded from the .miz
+  loadout?: LoadoutStation[]; // Flight lead's stores decoded from the .miz
   onDeleteFlight?: (id: string) => void;
   onEditFlight?: (id: string, callsign: string) => void;
   onStepTimeChange?: (id: string, stepTime: number) => void;
@@ -43,6 +47,8 @@ const FlightAssignmentCard: React.FC<FlightAssignmentCardProps> = ({
   midsA = '',
   midsB = '',
   stepTime = 0,
+  route,
+  loadout,
   onDeleteFlight,
   onEditFlight,
   onStepTimeChange,
@@ -50,6 +56,8 @@ const FlightAssignmentCard: React.FC<FlightAssignmentCardProps> = ({
 }) => {
   const [isEditingStepTime, setIsEditingStepTime] = useState(false);
   const [editedStepTime, setEditedStepTime] = useState(stepTime.toString());
+  const [showRoute, setShowRoute] = useState(false);
+  const hasRouteCard = (route?.length || 0) > 0 || (loadout?.length || 0) > 0;
 
   // Format step time for display
   const formatStepTime = (minutes: number): string => {
@@ -135,6 +143,7 @@ const FlightAssignmentCard: React.FC<FlightAssignmentCardProps> = ({
         transition: 'all 0.2s ease-in-out',
         display: 'flex',
         flexDirection: 'row', // Changed to row for horizontal layout
+        flexWrap: 'wrap', // Lets the route card drop below the tiles
         alignItems: 'stretch',
         marginBottom: '10px' // Add consistent spacing between cards
       }}
@@ -200,6 +209,27 @@ const FlightAssignmentCard: React.FC<FlightAssignmentCardProps> = ({
             <span style={{ fontSize: '12px', fontWeight: 500 }}>{formatStepTime(stepTime)}</span>
           )}
         </div>
+        {hasRouteCard && (
+          <button
+            onClick={() => setShowRoute(prev => !prev)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '3px',
+              padding: '0 2px',
+              border: 'none',
+              background: 'none',
+              cursor: 'pointer',
+              fontSize: '12px',
+              fontWeight: 500,
+              color: showRoute ? '#2563EB' : '#64748B'
+            }}
+            title={showRoute ? 'Hide route and loadout' : 'Show route and loadout'}
+          >
+            <Route size={13} style={{ flexShrink: 0 }} />
+            {route?.length || 0}
+          </button>
+        )}
       </div>
 
       {/* Edit and Delete buttons - top right corner of card */}
@@ -378,6 +408,10 @@ const FlightAssignmentCard: React.FC<FlightAssignmentCardProps> = ({
         />
         </div>
       </div>
+
+      {showRoute && hasRouteCard && (
+        <FlightRouteCard route={route} loadout={loadout} />
+      )}
     </div>
   );
 };
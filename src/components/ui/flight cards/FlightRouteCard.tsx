@@ -0,0 +1,91 @@
+import React from 'react';
+import { formatEta, summarizeLoadout } from '../../../utils/flightRouteUtils';
+import type { LoadoutStation, RouteWaypoint } from '../../../types/FlightRouteTypes';
+
+interface FlightRouteCardProps {
+  route?: RouteWaypoint[];
+  loadout?: LoadoutStation[];
+}
+
+const headerCellStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  fontSize: '11px',
+  fontWeight: 600,
+  color: '#64748B',
+  textTransform: 'uppercase',
+  textAlign: 'left',
+  borderBottom: '1px solid #E2E8F0',
+  whiteSpace: 'nowrap'
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  fontSize: '12px',
+  color: '#0F172A',
+  borderBottom: '1px solid #F1F5F9',
+  whiteSpace: 'nowrap'
+};
+
+/**
+ * Compact steerpoint table and loadout summary shown under a flight card.
+ */
+const FlightRouteCard: React.FC<FlightRouteCardProps> = ({ route = [], loadout = [] }) => {
+  return (
+    <div style={{
+      width: '100%',
+      marginTop: '4px',
+      padding: '8px 0 20px 0',
+      borderTop: '1px solid #E2E8F0',
+      fontFamily: 'Inter, sans-serif'
+    }}>
+      {route.length === 0 ? (
+        <div style={{ fontSize: '12px', color: '#94A3B8', padding: '0 6px' }}>
+          No route in the mission file for this flight.
+        </div>
+      ) : (
+        <div style={{ overflowX: 'auto' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={headerCellStyle}>WP</th>
+                <th style={headerCellStyle}>Name</th>
+                <th style={headerCellStyle}>Position</th>
+                <th style={headerCellStyle}>Alt</th>
+                <th style={headerCellStyle}>Spd</th>
+                <th style={headerCellStyle}>ETA</th>
+                <th style={headerCellStyle}>Task</th>
+              </tr>
+            </thead>
+            <tbody>
+              {route.map(waypoint => (
+                <tr key={waypoint.number}>
+                  <td style={cellStyle}>{waypoint.number}</td>
+                  <td style={cellStyle}>{waypoint.name || '——'}</td>
+                  <td style={{ ...cellStyle, fontFamily: 'monospace', fontSize: '11px' }}>
+                    {waypoint.coordinate || '——'}
+                  </td>
+                  <td style={cellStyle}>
+                    {waypoint.altitudeFt.toLocaleString()}{waypoint.altitudeType === 'RADIO' ? ' AGL' : ''}
+                  </td>
+                  <td style={cellStyle}>{waypoint.speedKts}</td>
+                  <td style={cellStyle}>{formatEta(waypoint.etaSeconds)}</td>
+                  <td style={cellStyle}>{waypoint.task || '——'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {loadout.length > 0 && (
+        <div style={{ fontSize: '12px', color: '#0F172A', padding: '8px 6px 0 6px' }}>
+          <span style={{ fontWeight: 600, color: '#64748B', textTransform: 'uppercase', fontSize: '11px' }}>
+            Loadout:
+          </span>{' '}
+          {summarizeLoadout(loadout)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FlightRouteCard;
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
 import { getUserSettings, updateUserSettings } from '../../../utils/userSettingsService';
+import type { AssignmentExplanation } from '../../../types/MissionPrepTypes';
 
 export interface AutoAssignConfig {
   assignmentScope: 'clear' | 'fillGaps';
@@ -20,14 +22,18 @@ interface AutoAssignConfigModalProps {
   onCancel: () => void;
   onSave: (config: AutoAssignConfig) => void;
   isTrainingEvent?: boolean; // Indicates if the current event is a training event
+  lastRunExplanations?: AssignmentExplanation[]; // Why each pilot was placed by the last auto-assign run
 }
 
 const AutoAssignConfigModal: React.FC<AutoAssignConfigModalProps> = ({
   isOpen,
   onCancel,
   onSave,
-  isTrainingEvent = false
+  isTrainingEvent = false,
+  lastRunExplanations = []
 }) => {
+  const [expandedPilotId, setExpandedPilotId] = useState<string | null>(null);
+
   // Load settings from user preferences or use defaults
   const getStoredConfig = async (): Promise<AutoAssignConfig> => {
     try {
@@ -408,6 +414,74 @@ const AutoAssignConfigModal: React.FC<AutoAssignConfigModalProps> = ({
             </OptionRow>
           </div>
 
+          {/* Last Run Explanations */}
+          {lastRunExplanations.length > 0 && (
+            <div style={{
+              marginTop: '16px',
+              paddingTop: '16px',
+              borderTop: '1px solid #E5E7EB'
+            }}>
+              <div style={{
+                fontSize: '14px',
+                fontWeight: 500,
+                color: '#1F2937',
+                marginBottom: '2px'
+              }}>
+                Last Auto-Assignment
+              </div>
+              <div style={{
+                fontSize: '12px',
+                color: '#6B7280',
+                marginBottom: '8px'
+              }}>
+                Click a pilot to see why they were placed in that slot
+              </div>
+              {lastRunExplanations.map(explanation => {
+                const isExpanded = expandedPilotId === explanation.pilotId;
+                return (
+                  <div key={explanation.pilotId} style={{ borderBottom: '1px solid #F3F4F6' }}>
+                    <div
+                      onClick={() => setExpandedPilotId(isExpanded ? null : explanation.pilotId)}
+                      style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '6px',
+                        padding: '6px 0',
+                        fontSize: '13px',
+                        color: '#1F2937',
+                        cursor: 'pointer'
+                      }}
+                    >
+                      {isExpanded ? <ChevronDown size={14} color="#6B7280" /> : <ChevronRight size={14} color="#6B7280" />}
+                      <span style={{ fontWeight: 500, minWidth: '110px' }}>
+                        {explanation.flightLabel}-{explanation.dashNumber}
+                      </span>
+                      <span style={{ flex: 1 }}>
+                        {explanation.boardNumber} {explanation.pilotCallsign}
+                      </span>
+                      <span style={{ fontSize: '12px', color: '#6B7280' }}>
+                        {explanation.score === null ? 'Rule' : `Score ${explanation.score}`}
+                      </span>
+                    </div>
+                    {isExpanded && (
+                      <ul style={{
+                        margin: '0 0 8px 0',
+                        paddingLeft: '40px',
+                        fontSize: '12px',
+                        color: '#6B7280',
+                        lineHeight: '1.5'
+                      }}>
+                        {explanation.reasons.map((reason, index) => (
+                          <li key={index}>{reason}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div style={{
             display: 'flex',
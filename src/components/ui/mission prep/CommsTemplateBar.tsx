@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Save, Wand2, Trash2 } from 'lucide-react';
+import { getCommsTemplates, saveCommsTemplate, deleteCommsTemplate } from '../../../utils/commsTemplateService';
+import type { CommsPlanEntry, CommsTemplate } from '../../../types/CommsTypes';
+
+interface CommsTemplateBarProps {
+  squadrons: Array<{ id: string; name: string }>;
+  defaultSquadronId?: string;
+  currentEntries: CommsPlanEntry[];
+  onApplyEntries: (entries: CommsPlanEntry[]) => void;
+  /** Called with the squadron's default template whenever templates are loaded */
+  onDefaultTemplateLoaded?: (template: CommsTemplate) => void;
+  canGenerate: boolean;
+  onGenerate: () => void;
+  disabled?: boolean;
+}
+
+const controlStyle: React.CSSProperties = {
+  height: '28px',
+  padding: '0 8px',
+  border: '1px solid #CBD5E1',
+  borderRadius: '6px',
+  backgroundColor: '#FFFFFF',
+  fontFamily: 'Inter',
+  fontSize: '12px',
+  color: '#0F172A'
+};
+
+const iconButtonStyle: React.CSSProperties = {
+  ...controlStyle,
+  display: 'flex',
+  alignItems: 'center',
+  gap: '4px',
+  color: '#64748B',
+  cursor: 'pointer',
+  whiteSpace: 'nowrap'
+};
+
+/**
+ * Toolbar above the comms plan for loading/saving per-squadron comms templates
+ * and generating a plan from the imported mission file.
+ */
+const CommsTemplateBar: React.FC<CommsTemplateBarProps> = ({
+  squadrons,
+  defaultSquadronId,
+  currentEntries,
+  onApplyEntries,
+  onDefaultTemplateLoaded,
+  canGenerate,
+  onGenerate,
+  disabled = false
+}) => {
+  const [squadronId, setSquadronId] = useState<string>(defaultSquadronId || squadrons[0]?.id || '');
+  const [templates, setTemplates] = useState<CommsTemplate[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newTemplateName, setNewTemplateName] = useState<string | null>(null);
+  const [saveAsDefault, setSaveAsDefault] = useState(false);
+  // Reloading templates is keyed on the squadron only, not on the parent's callback identity
+  const onDefaultTemplateLoadedRef = useRef(onDefaultTemplateLoaded);
+  onDefaultTemplateLoadedRef.current = onDefaultTemplateLoaded;
+
+  useEffect(() => {
+    if (!squadronId && (defaultSquadronId || squadrons[0]?.id)) {
+      setSquadronId(defaultSquadronId || squadrons[0].id);
+    }
+  }, [defaultSquadronId, squadrons, squadronId]);
+
+  useEffect(() => {
+    if (!squadronId) {
+      setTemplates([]);
+      return;
+    }
+
+    let cancelled = false;
+    getCommsTemplates(squadronId).then(({ templates: loaded }) => {
+      if (cancelled) return;
+      setTemplates(loaded);
+      const defaultTemplate = loaded.find(t => t.is_default);
+      if (defaultTemplate) onDefaultTemplateLoadedRef.current?.(defaultTemplate);
+    });
+    return () => { cancelled = true; };
+  }, [squadronId]);
+
+  const handleLoadTemplate = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+    if (!confirm(`Replace the current comms plan with "${template.name}"?`)) return;
+    onApplyEntries(template.entries);
+  };
+
+  const handleSaveTemplate = async () => {
+    const name = newTemplateName?.trim();
+    if (!name || !squadronId) return;
+
+    setIsSaving(true);
+    const { template, error } = await saveCommsTemplate(squadronId, name, currentEntries, saveAsDefault);
+    setIsSaving(false);
+
+    if (error || !template) {
+      alert(`Failed to save comms template: ${error || 'Unknown error'}`);
+      return;
+    }
+
+    setTemplates(prev => [
+      ...prev
+        .filter(t => t.id !== template.id && t.name !== template.name)
+        .map(t => (template.is_default ? { ...t, is_default: false } : t)),
+      template
+    ].sort((a, b) => Number(b.is_default) - Number(a.is_default) || a.name.localeCompare(b.name)));
+    setNewTemplateName(null);
+    setSaveAsDefault(false);
+  };
+
+  const handleDeleteTemplate = async (template: CommsTemplate) => {
+    if (!confirm(`Delete the comms template "${template.name}"?`)) return;
+    const { error } = await deleteCommsTemplate(template.id);
+    if (error) {
+      alert(`Failed to delete comms template: ${error}`);
+      return;
+    }
+    setTemplates(prev => prev.filter(t => t.id !== template.id));
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexWrap: 'wrap',
+      alignItems: 'center',
+      gap: '8px',
+      marginBottom: '12px'
+    }}>
+      {squadrons.length > 1 && (
+        <select
+          value={squadronId}
+          onChange={e => setSquadronId(e.target.value)}
+          style={{ ...controlStyle, maxWidth: '150px' }}
+          title="Squadron whose templates are shown"
+        >
+          {squadrons.map(squadron => (
+            <option key={squadron.id} value={squadron.id}>{squadron.name}</option>
+          ))}
+        </select>
+      )}
+
+      <select
+        value=""
+        onChange={e => handleLoadTemplate(e.target.value)}
+        disabled={disabled || templates.length === 0}
+        style={{ ...controlStyle, flex: '1 1 120px' }}
+      >
+        <option value="">{templates.length === 0 ? 'No templates' : 'Load template...'}</option>
+        {templates.map(template => (
+          <option key={template.id} value={template.id}>
+            {template.name}{template.is_default ? ' (default)' : ''}
+          </option>
+        ))}
+      </select>
+
+      {newTemplateName === null ? (
+        <button
+          onClick={() => setNewTemplateName('')}
+          disabled={disabled || !squadronId}
+          style={iconButtonStyle}
+          title="Save the current plan as a squadron template"
+        >
+          <Save size={14} />
+          Save template
+        </button>
+      ) : (
+        <>
+          <input
+            type="text"
+            value={newTemplateName}
+            onChange={e => setNewTemplateName(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') handleSaveTemplate();
+              if (e.key === 'Escape') setNewTemplateName(null);
+            }}
+            placeholder="Template name"
+            autoFocus
+            style={{ ...controlStyle, width: '130px' }}
+          />
+          <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '12px', color: '#64748B' }}>
+            <input type="checkbox" checked={saveAsDefault} onChange={e => setSaveAsDefault(e.target.checked)} />
+            Default
+          </label>
+          <button
+            onClick={handleSaveTemplate}
+            disabled={isSaving || !newTemplateName.trim()}
+            style={iconButtonStyle}
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+          {templates.some(t => t.name === newTemplateName.trim()) && (
+            <button
+              onClick={() => {
+                const existing = templates.find(t => t.name === newTemplateName.trim());
+                if (existing) handleDeleteTemplate(existing);
+              }}
+              style={iconButtonStyle}
+              title="Delete this template"
+            >
+              <Trash2 size={14} />
+            </button>
+          )}
+        </>
+      )}
+
+      <button
+        onClick={onGenerate}
+        disabled={disabled || !canGenerate}
+        style={{
+          ...iconButtonStyle,
+          opacity: disabled || !canGenerate ? 0.5 : 1,
+          cursor: disabled || !canGenerate ? 'not-allowed' : 'pointer'
+        }}
+        title={canGenerate
+          ? 'Propose channels for the carriers, tankers, AWACS and FARPs in the mission file'
+          : 'Import a mission file to generate the comms plan from it'}
+      >
+        <Wand2 size={14} />
+        From mission
+      </button>
+    </div>
+  );
+};
+
+export default CommsTemplateBar;
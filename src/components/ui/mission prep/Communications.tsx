@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Card } from '../card';
-import { FileDown, Edit2, Check, X, Send } from 'lucide-react';
+import { FileDown, Edit2, Check, X, Send, FileArchive } from 'lucide-react';
+import { saveAs } from 'file-saver';
 import { styles } from '../../../styles/commsStyles';
 import { 
   isValidFrequency, 
@@ -13,13 +14,17 @@ import {
   CommsPlanEntry, 
   generateInitialCommsData 
 } from '../../../types/CommsTypes';
+import type { CommsStation, CommsTemplate } from '../../../types/CommsTypes';
 import { Flight, FlightMember } from '../../../types/FlightData';
 import { saveToLocalStorage, loadFromLocalStorage, STORAGE_KEYS } from '../../../utils/localStorageUtils';
+import { buildMizWithAssignments } from '../../../utils/mizExportService';
+import { buildCommsPlanFromStations } from '../../../utils/commsPlanGenerator';
+import CommsTemplateBar from './CommsTemplateBar';
 
 interface CommunicationsProps {
   width: string;
   assignedPilots?: Record<string, any> | null;
-  onTransferToMission?: (flights: Flight[]) => void;
+  onTransferToMission?: (flights: Flight[], missionId?: string) => void;
   flights?: any[];
   extractedFlights?: Array<{
     name: string;
@@ -63,7 +68,7 @@ const Communications: React.FC<CommunicationsProps> = ({
       console.log('[COMMS] Loading from localStorage (fallback)');
       return cached;
     }
-    // Final fallback to default
+    // Final fallback to default; a squadron's default template replaces it once loaded
     console.log('[COMMS] Using default comms plan');
     return generateInitialCommsData();
   });
@@ -72,6 +77,7 @@ const Communications: React.FC<CommunicationsProps> = ({
   const [editedData, setEditedData] = useState<CommsPlanEntry[]>([]);
   const [hoveredRow, setHoveredRow] = useState<number | null>(null);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
+  const [isExportingMiz, setIsExportingMiz] = useState(false);
   // Tracks the JSON of the last comms plan loaded from DB so we only call setCommsData
   // when the content actually changed (prevents re-save loops when other mission fields save).
   const lastLoadedCommsJsonRef = useRef<string>('');
@@ -99,6 +105,53 @@ const Communications: React.FC<CommunicationsProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [commsData]);
 
+  // Only an untouched default plan is replaced by the squadron's default template
+  const commsDataRef = useRef(commsData);
+  commsDataRef.current = commsData;
+
+  const handleDefaultTemplateLoaded = (template: CommsTemplate) => {
+    if (isEditing || template.entries.length === 0) return;
+    if (JSON.stringify(commsDataRef.current) !== JSON.stringify(generateInitialCommsData())) return;
+    console.log('[COMMS] Applying squadron default template:', template.name);
+    setCommsData(template.entries);
+  };
+
+  const handleApplyTemplate = (entries: CommsPlanEntry[]) => {
+    setIsEditing(false);
+    setEditedData([]);
+    setCommsData(entries);
+  };
+
+  const missionCommsStations: CommsStation[] = Array.isArray(mission?.miz_file_data?.comms_stations)
+    ? mission.miz_file_data.comms_stations
+    : [];
+
+  // Propose a plan from the mission file and open it for review in edit mode
+  const handleGenerateFromMission = () => {
+    if (missionCommsStations.length === 0) {
+      alert('No carriers, tankers, AWACS or FARPs were found in the imported mission file.');
+      return;
+    }
+
+    const { entries, conflicts, unplaced } = buildCommsPlanFromStations(
+      missionCommsStations,
+      isEditing ? editedData : commsData
+    );
+    setEditedData(entries);
+    setIsEditing(true);
+
+    const notes: string[] = [];
+    if (conflicts.length > 0) {
+      notes.push(`Frequency conflicts on channel(s) ${conflicts.map(i => entries[i].chan).join(', ')} are highlighted in red.`);
+    }
+    if (unplaced.length > 0) {
+      notes.push(`No free channel for: ${unplaced.map(station => station.name).join(', ')}.`);
+    }
+    if (notes.length > 0) {
+      alert(`Review the proposed comms plan before saving.\n\n${notes.join('\n')}`);
+    }
+  };
+
   const startEditing = () => {
     setIsEditing(true);
     setEditedData([...commsData]);
@@ -316,10 +369,40 @@ const Communications: React.FC<CommunicationsProps> = ({
 
       return flightData;
     }).filter(Boolean) as Flight[];
-      onTransferToMission(transferFlights);
+      onTransferToMission(transferFlights, mission?.id);
     setShowConfirmDialog(false);
   };
 
+  const handleExportMiz = async () => {
+    const originalUrl: string | undefined = mission?.miz_file_data?.file_url;
+    if (!originalUrl) {
+      alert('No original .miz file is stored for this mission. Import the mission file again, then export.');
+      return;
+    }
+
+    setIsExportingMiz(true);
+    try {
+      const { blob, report } = await buildMizWithAssignments(
+        originalUrl,
+        flights,
+        assignedPilots || {},
+        commsData
+      );
+
+      const fileName: string = mission?.miz_file_data?.file_name || `${mission?.name || 'mission'}.miz`;
+      saveAs(blob, fileName);
+
+      if (report.unmatchedFlights.length > 0) {
+        alert(`Exported ${report.updatedUnits} aircraft. No matching group was found in the mission file for: ${report.unmatchedFlights.join(', ')}`);
+      }
+    } catch (error) {
+      console.error('[COMMS] Failed to export .miz:', error);
+      alert(`Failed to export .miz: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsExportingMiz(false);
+    }
+  };
+
   const renderCommsPlanTable = () => (
     <table className="w-full" style={{ tableLayout: 'auto' }}>
       <colgroup>
@@ -525,6 +608,15 @@ const Communications: React.FC<CommunicationsProps> = ({
             </div>
           )}
         </div>
+        <CommsTemplateBar
+          squadrons={squadrons}
+          defaultSquadronId={mission?.selected_squadrons?.[0]}
+          currentEntries={isEditing ? editedData : commsData}
+          onApplyEntries={handleApplyTemplate}
+          onDefaultTemplateLoaded={handleDefaultTemplateLoaded}
+          canGenerate={missionCommsStations.length > 0}
+          onGenerate={handleGenerateFromMission}
+        />
         <div className="space-y-4" style={{ overflowX: 'hidden' }}>
           {renderCommsPlanTable()}
         </div>
@@ -543,7 +635,7 @@ const Communications: React.FC<CommunicationsProps> = ({
             style={{
               ...styles.exportButton,
               flex: '1', // Changed from fixed percentage to flexible width
-              margin: '0 16px',
+              margin: '0 8px',
               whiteSpace: 'nowrap', // Prevent text wrapping
               minWidth: '150px' // Add minimum width to ensure buttons have enough space
             }}
@@ -561,7 +653,7 @@ const Communications: React.FC<CommunicationsProps> = ({
             style={{
               ...styles.exportButton,
               flex: '1', // Changed from fixed percentage to flexible width
-              margin: '0 16px',
+              margin: '0 8px',
               whiteSpace: 'nowrap', // Prevent text wrapping
               minWidth: '150px' // Add minimum width to ensure buttons have enough space
             }}
@@ -576,6 +668,29 @@ const Communications: React.FC<CommunicationsProps> = ({
             <Send size={16} />
             Transfer to Mission
           </button>
+          <button 
+            style={{
+              ...styles.exportButton,
+              flex: '1',
+              margin: '0 8px',
+              whiteSpace: 'nowrap',
+              minWidth: '150px',
+              opacity: isExportingMiz ? 0.6 : 1,
+              cursor: isExportingMiz ? 'wait' : 'pointer'
+            }}
+            onClick={handleExportMiz}
+            disabled={isExportingMiz}
+            title="Download the mission file with pilot names, board numbers, callsigns and radio presets applied"
+            onMouseEnter={e => {
+              e.currentTarget.style.backgroundColor = '#F8FAFC';
+            }}
+            onMouseLeave={e => {
+              e.currentTarget.style.backgroundColor = '#FFFFFF';
+            }}
+          >
+            <FileArchive size={16} />
+            {isExportingMiz ? 'Exporting...' : 'Export .miz'}
+          </button>
         </div>
       </Card>
 
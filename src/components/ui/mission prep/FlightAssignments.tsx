@@ -5,7 +5,8 @@ import AddFlightDialog from '../dialogs/AddFlightDialog';
 import FlightPostOptionsDialog from '../dialogs/FlightPostOptionsDialog';
 import type { AssignedPilot } from '../../../types/MissionPrepTypes';
 import type { Mission } from '../../../types/MissionTypes';
-import { Trash2, Settings } from 'lucide-react';
+import type { LoadoutStation, RouteWaypoint } from '../../../types/FlightRouteTypes';
+import { Trash2, Settings, History } from 'lucide-react';
 import { useAppSettings } from '../../../context/AppSettingsContext';
 import type { Squadron } from '../../../types/OrganizationTypes';
 import { authFetch } from '../../../utils/authFetch';
@@ -36,6 +37,8 @@ interface Flight {
   midsB?: string;
   stepTime?: number; // Step time offset in minutes
   creationOrder: number; // Track the creation order
+  route?: RouteWaypoint[];
+  loadout?: LoadoutStation[];
 }
 
 // Extended Pilot type with dashNumber for flight assignments
@@ -108,6 +111,8 @@ interface ExtractedFlight {
     callsign?: { [key: number]: string | number } | string;
     fuel: number;
   }[];
+  route?: RouteWaypoint[];
+  loadout?: LoadoutStation[];
 }
 
 interface FlightAssignmentsProps {
@@ -124,6 +129,7 @@ interface FlightAssignmentsProps {
   squadrons?: Squadron[];
   participatingSquadrons?: any[];
   isLoading?: boolean;
+  onShowHistory?: () => void; // Open the mission version history panel
 }
 
 const FlightAssignments: React.FC<FlightAssignmentsProps> = ({
@@ -139,7 +145,8 @@ const FlightAssignments: React.FC<FlightAssignmentsProps> = ({
   selectedEvent: selectedEventProp,
   squadrons = [],
   participatingSquadrons = [],
-  isLoading = false
+  isLoading = false,
+  onShowHistory
 }) => {
   // Debug logging for assignedPilots data
   // React.useEffect(() => {
@@ -520,6 +527,8 @@ const FlightAssignments: React.FC<FlightAssignmentsProps> = ({
           midsA: "",
           midsB: "",
           creationOrder: maxCreationOrder + index + 1,
+          route: extractedFlight.route,
+          loadout: extractedFlight.loadout,
           // Store metadata about the original extracted flight index for later reference
           metadata: {
             extractedIndex: index,
@@ -957,12 +966,17 @@ const FlightAssignments: React.FC<FlightAssignmentsProps> = ({
     setShowRemoveAllDialog(false);
   }, []);
 
+  const templatePublicationConfig = mission?.mission_settings?.publication_config;
+
   // Group flights by squadron based on callsigns
   const groupFlightsBySquadron = useCallback(async (): Promise<SquadronFlightGroup[]> => {
     const squadronGroups: SquadronFlightGroup[] = [];
 
-    // Load publication config to determine if we should include empty flights
-    const publicationConfig = await getStoredPublicationConfig();
+    // Load publication config to determine if we should include empty flights.
+    // Missions created from a template carry the template's setting.
+    const publicationConfig: FlightPublicationConfig = templatePublicationConfig
+      ? { includeEmptyFlights: templatePublicationConfig.includeEmptyFlights ?? false }
+      : await getStoredPublicationConfig();
 
     for (const squadron of squadrons) {
       if (!squadron.callsigns || !Array.isArray(squadron.callsigns)) {
@@ -1007,7 +1021,7 @@ const FlightAssignments: React.FC<FlightAssignmentsProps> = ({
     }
 
     return squadronGroups;
-  }, [flights, squadrons, assignedPilots]);
+  }, [flights, squadrons, assignedPilots, templatePublicationConfig]);
 
   // Generate flight assignment table image for a squadron using Canvas
   const generateFlightAssignmentImage = useCallback(async (squadronGroup: SquadronFlightGroup, revision?: number): Promise<Blob | null> => {
@@ -2064,6 +2078,8 @@ const FlightAssignments: React.FC<FlightAssignmentsProps> = ({
                 midsA={flight.midsA}
                 midsB={flight.midsB}
                 stepTime={flight.stepTime || 0}
+                route={flight.route}
+                loadout={flight.loadout}
                 onDeleteFlight={handleDeleteFlight}
                 onEditFlight={handleEditFlight}
                 onStepTimeChange={handleStepTimeChange}
@@ -2079,35 +2095,63 @@ const FlightAssignments: React.FC<FlightAssignmentsProps> = ({
           padding: '18px 0 0 0',
           borderTop: '1px solid #E2E8F0'
         }}>
-          <button
-            onClick={handleRemoveAll}
-            style={{
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              gap: '8px',
-              padding: '8px 16px',
-              backgroundColor: '#FFFFFF',
-              color: '#64748B',
-              borderRadius: '8px',
-              border: '1px solid #CBD5E1',
-              cursor: 'pointer',
-              transition: 'background-color 0.2s ease',
-              fontFamily: 'Inter',
-              fontSize: '14px',
-              fontWeight: 400,
-              flex: '0 0 30%'
-            }}
-            onMouseEnter={e => {
-              e.currentTarget.style.backgroundColor = '#F8FAFC';
-            }}
-            onMouseLeave={e => {
-              e.currentTarget.style.backgroundColor = '#FFFFFF';
-            }}
-          >
-            <Trash2 size={16} />
-            Remove All
-          </button>
+          <div style={{ display: 'flex', gap: '8px', flex: '0 0 30%' }}>
+            <button
+              onClick={handleRemoveAll}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: '8px',
+                padding: '8px 16px',
+                backgroundColor: '#FFFFFF',
+                color: '#64748B',
+                borderRadius: '8px',
+                border: '1px solid #CBD5E1',
+                cursor: 'pointer',
+                transition: 'background-color 0.2s ease',
+                fontFamily: 'Inter',
+                fontSize: '14px',
+                fontWeight: 400,
+                flex: 1
+              }}
+              onMouseEnter={e => {
+                e.currentTarget.style.backgroundColor = '#F8FAFC';
+              }}
+              onMouseLeave={e => {
+                e.currentTarget.style.backgroundColor = '#FFFFFF';
+              }}
+            >
+              <Trash2 size={16} />
+              Remove All
+            </button>
+            {onShowHistory && mission && (
+              <button
+                onClick={onShowHistory}
+                title="Version history"
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  padding: '8px',
+                  backgroundColor: '#FFFFFF',
+                  color: '#64748B',
+                  borderRadius: '8px',
+                  border: '1px solid #CBD5E1',
+                  cursor: 'pointer',
+                  transition: 'background-color 0.2s ease'
+                }}
+                onMouseEnter={e => {
+                  e.currentTarget.style.backgroundColor = '#F8FAFC';
+                }}
+                onMouseLeave={e => {
+                  e.currentTarget.style.backgroundColor = '#FFFFFF';
+                }}
+              >
+                <History size={16} />
+              </button>
+            )}
+          </div>
           <button
             onClick={() => setShowAddFlightDialog(true)}
             style={{
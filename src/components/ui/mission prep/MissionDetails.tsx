@@ -6,14 +6,29 @@ import type { Event, Cycle } from '../../../types/EventTypes';
 import { processMissionCoordinates } from '../../../utils/coordinateUtils';
 import { saveToLocalStorage, loadFromLocalStorage, STORAGE_KEYS } from '../../../utils/localStorageUtils';
 import { fetchCycles } from '../../../utils/supabaseClient';
-import JSZip from 'jszip';
-import { load } from 'fengari-web';
+import { readMizFileContents, parseMizContentsAsync } from '../../../utils/mizParserService';
+import { uploadOriginalMiz } from '../../../utils/mizExportService';
+import { extractFlightRoute, decodeLoadout } from '../../../utils/flightRouteUtils';
+import { extractCommsStations } from '../../../utils/commsPlanGenerator';
 import AircraftGroups from './AircraftGroups';
 import { useAppSettings } from '../../../context/AppSettingsContext';
-import { extractRedCoalitionUnitTypes } from '../../../utils/redUnitExtractor';
+import { extractRedCoalitionUnitTypes, extractRedCoalitionGroups } from '../../../utils/redUnitExtractor';
+import MissionObjectives from './MissionObjectives';
 import { MizImportOptionsDialog, type MizImportMode } from '../dialogs/MizImportOptionsDialog';
 import { ConfirmationDialog } from '../dialogs/ConfirmationDialog';
 
+// Fields of the parsed mission table read while importing a .miz
+interface ImportedMissionTable {
+  coalition?: { blue?: { country?: Array<{ name?: string; plane?: { group?: unknown }; helicopter?: { group?: unknown } }> } };
+  date?: { Year: number; Month: number; Day: number };
+  start_time?: number;
+  weather?: {
+    clouds?: { base?: number };
+    visibility?: { distance?: number };
+    wind?: { at8000?: { speed?: number; dir?: number } };
+  };
+}
+
 interface MissionCommanderInfo {
   boardNumber: string;
   callsign: string;
@@ -278,7 +293,6 @@ const MissionDetails: React.FC<MissionDetailsProps> = ({
   const [isProcessingFile, setIsProcessingFile] = useState(false);
   const [parsedMission, setParsedMission] = useState<any>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [json2Lua, setJson2Lua] = useState<string | null>(null);
   const [hasExtractedForCurrentFile, setHasExtractedForCurrentFile] = useState(false);
 
   // Dialog states
@@ -362,25 +376,6 @@ const MissionDetails: React.FC<MissionDetailsProps> = ({
     loadCycles();
   }, []);
 
-  // Load the json2.lua file on component mount
-  useEffect(() => {
-    async function loadJson2Lua() {
-      try {
-        // Make sure to use the correct path for json2.lua
-        const response = await fetch('/assets/json2.lua');
-        if (!response.ok) {
-          throw new Error(`Failed to load json2.lua: ${response.status} ${response.statusText}`);
-        }
-        const luaCode = await response.text();
-        setJson2Lua(luaCode);
-      } catch (error) {
-        console.error('Error loading json2.lua:', error);
-      }
-    }
-
-    loadJson2Lua();
-  }, []);
-
   // Save mission details to localStorage whenever they change
   useEffect(() => {
     saveToLocalStorage(STORAGE_KEYS.MISSION_DETAILS, missionDetails);
@@ -636,113 +631,37 @@ const MissionDetails: React.FC<MissionDetailsProps> = ({
     const mizExtractedSettings: Record<string, string> = {};
 
     try {
-      // Make sure json2Lua is loaded
-      if (!json2Lua) {
-        console.error('❌ MissionDetails: json2.lua not loaded');
-        throw new Error("json2.lua hasn't been loaded yet. Please try again.");
-      }
-      console.log('✅ MissionDetails: json2.lua is loaded');
-      
-      // Load the .miz file as a JSZip archive
-      const zip = new JSZip();
-      console.log('🔄 MissionDetails: Loading ZIP archive...');
-      const archive = await zip.loadAsync(file);
-      console.log('✅ MissionDetails: ZIP archive loaded successfully');
-      
-      // List all files in the archive for debugging
-      console.log('📁 MissionDetails: Files in .miz archive:', Object.keys(archive.files));
-      
-      // Look for the mission file in the archive (usually named "mission")
-      const missionFile = archive.file('mission');
-      
-      if (!missionFile) {
-        console.error('❌ MissionDetails: Mission file not found in ZIP archive');
-        console.error('Available files:', Object.keys(archive.files));
-        throw new Error("Could not find mission file in the .miz archive");
-      }
-      console.log('✅ MissionDetails: Mission file found in archive');
-      
-      // Extract and read the mission file content
-      console.log('🔄 MissionDetails: Extracting mission file content...');
-      const missionContent = await missionFile.async('string');
-      console.log('✅ MissionDetails: Mission content extracted, length:', missionContent.length);
-      
-      // Process the mission content to extract coordinates
-      const coordinateData = processMissionCoordinates(missionContent);
-      
-      // Update the bullseye coordinates in the mission details
-      if (coordinateData.blueBullseye.formatted) {
-        setMissionDetails(prev => ({
-          ...prev,
-          bullseyeLatLon: coordinateData.blueBullseye.formatted || ''
-        }));
-
-        setEditedDetails(prev => ({
-          ...prev,
-          bullseyeLatLon: coordinateData.blueBullseye.formatted || ''
-        }));
-
-        mizExtractedSettings.bullseyeLatLon = coordinateData.blueBullseye.formatted;
-      }
-      
+      // Read the Lua files out of the .miz archive
+      console.log('🔄 MissionDetails: Reading .miz archive...');
+      const mizContents = await readMizFileContents(file);
+      console.log('✅ MissionDetails: Mission content extracted, length:', mizContents.mission.length);
+
       try {
-        // First execute json2.lua to define the json module
-        console.log('🔄 MissionDetails: Loading json2.lua module...');
-        load(json2Lua)();
-        console.log('✅ MissionDetails: json2.lua module loaded successfully');
-        
-        // Create and execute the Lua code to process the mission
-        console.log('🔄 MissionDetails: Preparing Lua code for mission parsing...');
-        const luaCode = `
-          local mission_content = [=[${missionContent}]=]
-          
-          -- Create a sandbox environment
-          local env = {}
-          
-          -- Load the mission code into our environment
-          local fn, err = load(mission_content, "mission", "t", env)
-          if not fn then
-            error("Failed to load mission content: " .. tostring(err))
-          end
-          
-          -- Execute the mission code in our environment
-          local status, err = pcall(fn)
-          if not status then
-            error("Failed to execute mission code: " .. tostring(err))
-          end
-          
-          -- Now we should have a mission table in our environment
-          local mission_table = env.mission
-          if not mission_table then
-            error("No mission table found after execution")
-          end
-          
-          -- Return the mission table as JSON
-          return json.encode(mission_table)
-        `;
-        
-        // Execute the Lua code and get the JSON result
-        console.log('🔄 MissionDetails: Executing Lua code...');
-        const jsonResult = load(luaCode)();
-        console.log('✅ MissionDetails: Lua code executed successfully');
-        
-        if (typeof jsonResult !== 'string') {
-          console.error('❌ MissionDetails: Invalid result type:', typeof jsonResult);
-          throw new Error('Invalid JSON result from Lua conversion');
-        }
-        
-        if (!jsonResult || jsonResult === 'null') {
-          console.error('❌ MissionDetails: Empty or null JSON result');
-          throw new Error('JSON conversion resulted in null or empty output');
-        }
-        
-        console.log('✅ MissionDetails: JSON result received, length:', jsonResult.length);
-        
-        // Parse the JSON into a JavaScript object
-        console.log('🔄 MissionDetails: Parsing JSON data...');
-        const missionData = JSON.parse(jsonResult);
+        // Parse the mission tables in a Web Worker so large missions don't block the UI
+        console.log('🔄 MissionDetails: Parsing mission data...');
+        const { mission: missionTable } = await parseMizContentsAsync(mizContents);
+        if (!missionTable) throw new Error('Mission file does not contain a mission table');
+        const missionData = missionTable as unknown as ImportedMissionTable;
         console.log('✅ MissionDetails: Successfully parsed mission data');
-        
+
+        // Process the mission data to extract coordinates
+        const coordinateData = processMissionCoordinates(missionTable);
+
+        // Update the bullseye coordinates in the mission details
+        if (coordinateData.blueBullseye.formatted) {
+          setMissionDetails(prev => ({
+            ...prev,
+            bullseyeLatLon: coordinateData.blueBullseye.formatted || ''
+          }));
+
+          setEditedDetails(prev => ({
+            ...prev,
+            bullseyeLatLon: coordinateData.blueBullseye.formatted || ''
+          }));
+
+          mizExtractedSettings.bullseyeLatLon = coordinateData.blueBullseye.formatted;
+        }
+
         // Detailed coalition structure logging
         console.log('🔍 MissionDetails: Mission data structure check:');
         console.log('- Coalition exists:', !!missionData.coalition);
@@ -765,13 +684,20 @@ const MissionDetails: React.FC<MissionDetailsProps> = ({
         
         // Store the parsed mission data
         console.log('💾 MissionDetails: Storing parsed mission data');
-        setParsedMission(missionData);
+        setParsedMission(missionTable);
 
         // Extract red coalition unit types for AAR pre-population
         console.log('🎯 MissionDetails: Extracting red coalition unit types...');
-        const redUnitTypes = extractRedCoalitionUnitTypes(missionData);
+        const redUnitTypes = extractRedCoalitionUnitTypes(missionTable);
         console.log(`✅ MissionDetails: Extracted ${redUnitTypes.length} unique red unit types`);
 
+        // Red groups the planner can pick as objective targets
+        const redGroups = extractRedCoalitionGroups(missionTable);
+
+        // Carriers, tankers, AWACS and FARPs for the comms plan generator
+        const commsStations = extractCommsStations(missionTable);
+        console.log(`📻 MissionDetails: Found ${commsStations.length} comms stations`);
+
         // Save extracted red unit types to database with retry logic
         const saveMizFileData = async (retryCount = 0, maxRetries = 5) => {
           const retryDelay = 500; // 500ms between retries
@@ -783,18 +709,26 @@ const MissionDetails: React.FC<MissionDetailsProps> = ({
 
           if (redUnitTypes.length === 0) {
             console.warn('⚠️ MissionDetails: No red coalition units found in mission file');
-            return;
           }
 
           if (mission) {
+            // Keep the original archive so assignments can be written back into it (Export .miz)
+            const { url: fileUrl, error: uploadError } = await uploadOriginalMiz(mission.id, file);
+            if (uploadError) {
+              console.warn('⚠️ MissionDetails: Failed to store original .miz file:', uploadError);
+            }
+
             console.log('💾 MissionDetails: Saving red unit types and extracted details to database...');
             try {
               await updateMissionData({
                 miz_file_data: {
                   ...mission.miz_file_data,
                   red_coalition_units: redUnitTypes,
+                  red_coalition_groups: redGroups,
                   processed_at: new Date().toISOString(),
-                  file_name: file.name
+                  file_name: file.name,
+                  comms_stations: commsStations,
+                  ...(fileUrl ? { file_url: fileUrl } : {})
                 },
                 // Persist .miz-extracted details so they sync to other users via realtime
                 ...(Object.keys(mizExtractedSettings).length > 0 ? {
@@ -873,14 +807,9 @@ const MissionDetails: React.FC<MissionDetailsProps> = ({
           mizExtractedSettings.weather = weatherDetails;
         }
         
-      } catch (luaError) {
-        console.error('❌ MissionDetails: Error in Lua execution:', luaError);
-        console.error('❌ MissionDetails: Lua error details:', {
-          error: luaError,
-          type: typeof luaError,
-          message: luaError instanceof Error ? luaError.message : String(luaError)
-        });
-        throw new Error(`Failed to process mission file using Lua: ${luaError}`);
+      } catch (parseError) {
+        console.error('❌ MissionDetails: Error parsing mission data:', parseError);
+        throw new Error(`Failed to parse mission file: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
       }
     } catch (error) {
       console.error('❌ MissionDetails: Error processing mission file:', error);
@@ -1235,6 +1164,9 @@ const MissionDetails: React.FC<MissionDetailsProps> = ({
         </div>
       </Card>
 
+      {/* Objectives Card */}
+      <MissionObjectives mission={mission} updateMissionData={updateMissionData} />
+
       {/* Import Card */}
       <Card 
         style={{
@@ -1326,8 +1258,14 @@ const MissionDetails: React.FC<MissionDetailsProps> = ({
               if (!!selectedFile && !hasExtractedForCurrentFile && onExtractedFlights) {
                 console.log('🎯 MissionDetails: Extracting flights for new file upload with mode:', selectedImportMode);
                 setHasExtractedForCurrentFile(true);
+                // Decode each group's steerpoints and the lead's loadout for the route card
+                const flightsWithRoutes = flights.map(flight => ({
+                  ...flight,
+                  route: extractFlightRoute(flight, parsedMission),
+                  loadout: decodeLoadout(flight.units[0]?.payload)
+                }));
                 // Pass the import mode to the parent component
-                onExtractedFlights(flights, selectedImportMode || 'clear');
+                onExtractedFlights(flightsWithRoutes, selectedImportMode || 'clear');
               } else {
                 console.log('⚠️ MissionDetails: Skipping extraction:', {
                   hasFile: !!selectedFile,
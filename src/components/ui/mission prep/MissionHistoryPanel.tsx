@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import LoadingSpinner from '../LoadingSpinner';
+import { getMissionVersions, diffMissionVersions } from '../../../utils/missionVersionService';
+import type { MissionVersion } from '../../../types/MissionTypes';
+
+interface MissionHistoryPanelProps {
+  isOpen: boolean;
+  missionId?: string;
+  currentVersion?: number;
+  onRestore: (version: MissionVersion) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const VERSION_LIMIT = 50;
+
+/**
+ * Side panel listing every saved version of the mission's flights and
+ * assignments, newest first, with who saved it and what changed from the
+ * version before. Restoring saves the old version as a new one, so a restore
+ * can itself be undone from here.
+ */
+const MissionHistoryPanel: React.FC<MissionHistoryPanelProps> = ({
+  isOpen,
+  missionId,
+  currentVersion,
+  onRestore,
+  onClose
+}) => {
+  const [versions, setVersions] = useState<MissionVersion[]>([]);
+  const [pilotNames, setPilotNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !missionId) return;
+    let cancelled = false;
+    setLoading(true);
+    getMissionVersions(missionId, VERSION_LIMIT + 1).then(result => {
+      if (cancelled) return;
+      setVersions(result.versions);
+      setPilotNames(result.pilotNames);
+      setError(result.error ? `Failed to load history: ${result.error}` : null);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [isOpen, missionId, currentVersion]);
+
+  if (!isOpen) return null;
+
+  const handleRestore = async (version: MissionVersion) => {
+    if (!confirm(`Restore the flights and assignments saved in version ${version.version}?`)) return;
+    setRestoringVersion(version.version);
+    const restored = await onRestore(version);
+    setRestoringVersion(null);
+    if (!restored) {
+      setError(`Failed to restore version ${version.version}`);
+    }
+  };
+
+  // The extra version fetched past the limit is only used to diff the oldest one shown
+  const shownVersions = versions.slice(0, VERSION_LIMIT);
+
+  return (
+    <>
+      <div style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.3)',
+        zIndex: 1000
+      }} onClick={onClose} />
+
+      <div style={{
+        position: 'fixed',
+        top: 0,
+        right: 0,
+        bottom: 0,
+        width: '440px',
+        backgroundColor: '#FFFFFF',
+        boxShadow: '-10px 0 15px -3px rgba(0, 0, 0, 0.15)',
+        zIndex: 1001,
+        display: 'flex',
+        flexDirection: 'column',
+        fontFamily: 'Inter'
+      }}>
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '20px 24px',
+          borderBottom: '1px solid #E5E7EB'
+        }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <History size={18} color="#64748B" />
+            <h2 style={{ fontSize: '18px', fontWeight: 600, color: '#1F2937', margin: 0 }}>Version History</h2>
+          </div>
+          <button onClick={onClose} style={{ background: 'none', border: 'none', cursor: 'pointer', color: '#6B7280' }}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div style={{ flex: 1, overflowY: 'auto', padding: '16px 24px' }}>
+          {error && (
+            <div style={{ fontSize: '13px', color: '#DC2626', marginBottom: '12px' }}>{error}</div>
+          )}
+
+          {loading ? (
+            <div style={{ display: 'flex', justifyContent: 'center', padding: '48px 0' }}>
+              <LoadingSpinner size="medium" color="#82728C" />
+            </div>
+          ) : shownVersions.length === 0 ? (
+            <p style={{ fontSize: '14px', color: '#6B7280', margin: 0 }}>
+              No saved versions yet. A version is recorded each time flights or assignments are saved.
+            </p>
+          ) : (
+            shownVersions.map((version, index) => {
+              const previous = versions[index + 1] || null;
+              const isOldestKnown = !previous && versions.length > VERSION_LIMIT;
+              const changes = isOldestKnown ? [] : diffMissionVersions(previous, version, pilotNames);
+              const isCurrent = version.version === currentVersion;
+
+              return (
+                <div key={version.id} style={{
+                  padding: '12px 0',
+                  borderBottom: '1px solid #F1F5F9'
+                }}>
+                  <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+                    <div>
+                      <div style={{ fontSize: '14px', fontWeight: 500, color: '#1F2937' }}>
+                        Version {version.version}
+                        {isCurrent && <span style={{ marginLeft: '8px', fontSize: '12px', color: '#16A34A' }}>Current</span>}
+                      </div>
+                      <div style={{ fontSize: '12px', color: '#64748B' }}>
+                        {version.changed_by_name || 'Unknown'} · {new Date(version.created_at).toLocaleString()}
+                      </div>
+                    </div>
+                    {!isCurrent && (
+                      <button
+                        onClick={() => handleRestore(version)}
+                        disabled={restoringVersion !== null}
+                        style={{
+                          display: 'flex',
+                          alignItems: 'center',
+                          gap: '6px',
+                          padding: '6px 10px',
+                          fontSize: '13px',
+                          color: '#374151',
+                          backgroundColor: '#FFFFFF',
+                          border: '1px solid #D1D5DB',
+                          borderRadius: '6px',
+                          cursor: restoringVersion !== null ? 'not-allowed' : 'pointer',
+                          opacity: restoringVersion !== null ? 0.6 : 1,
+                          fontFamily: 'Inter'
+                        }}
+                      >
+                        <RotateCcw size={14} />
+                        {restoringVersion === version.version ? 'Restoring...' : 'Restore'}
+                      </button>
+                    )}
+                  </div>
+                  <ul style={{ margin: '8px 0 0 0', paddingLeft: '18px', fontSize: '13px', color: '#374151', lineHeight: '1.6' }}>
+                    {isOldestKnown ? (
+                      <li style={{ color: '#64748B' }}>Earlier history not shown</li>
+                    ) : version.changed_fields.length === 0 ? (
+                      <li style={{ color: '#64748B' }}>As it was before version history started</li>
+                    ) : changes.length === 0 ? (
+                      <li style={{ color: '#64748B' }}>No flight or assignment changes</li>
+                    ) : (
+                      changes.map((change, i) => <li key={i}>{change}</li>)
+                    )}
+                  </ul>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default MissionHistoryPanel;
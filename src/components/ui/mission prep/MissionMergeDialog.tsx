@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { GitMerge } from 'lucide-react';
+import type { PendingMissionMerge } from '../../../hooks/useMission';
+import type { MissionFlight, MissionMergeChoice, MissionMergeConflict } from '../../../types/MissionTypes';
+
+interface MissionMergeDialogProps {
+  pendingMerge: PendingMissionMerge | null;
+  pilots?: Array<{ id: string; callsign: string; boardNumber?: string | number }>;
+  onResolve: (choices: Record<string, MissionMergeChoice>) => Promise<boolean>;
+}
+
+const conflictTitle = (conflict: MissionMergeConflict, flightLabel: (flightId: string) => string): string => {
+  switch (conflict.kind) {
+    case 'slot':
+      return `${flightLabel(conflict.flightId)}-${conflict.dashNumber}`;
+    case 'pilot':
+      return 'Pilot placed twice';
+    case 'flight':
+      return `Flight ${flightLabel(conflict.flightId)}`;
+    case 'comms':
+      return `Comms channel ${conflict.chan}`;
+    case 'setting':
+      return `Mission setting "${conflict.key}"`;
+  }
+};
+
+/**
+ * Shown when this planner's save collided with another planner's changes to the
+ * same slots, flights or comms channels. Everything that didn't overlap has
+ * already been merged; only the true conflicts are listed, each with a choice
+ * between this planner's version and the other one.
+ */
+const MissionMergeDialog: React.FC<MissionMergeDialogProps> = ({
+  pendingMerge,
+  pilots = [],
+  onResolve
+}) => {
+  const [choices, setChoices] = useState<Record<string, MissionMergeChoice>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Default every conflict to the local version whenever a new merge comes in
+  useEffect(() => {
+    if (!pendingMerge) return;
+    setChoices(Object.fromEntries(pendingMerge.conflicts.map(c => [c.id, 'local' as MissionMergeChoice])));
+  }, [pendingMerge]);
+
+  if (!pendingMerge) return null;
+
+  const allFlights: MissionFlight[] = [
+    ...(pendingMerge.local.flights || []),
+    ...pendingMerge.remote.flights,
+    ...pendingMerge.base.flights
+  ];
+  const flightLabel = (flightId: string) => {
+    const flight = allFlights.find(f => f.id === flightId);
+    if (!flight) return 'Removed flight';
+    return flight.flight_data?.flightNumber ? `${flight.callsign} ${flight.flight_data.flightNumber}` : flight.callsign;
+  };
+  const pilotName = (pilotId: string | null) => {
+    if (!pilotId) return 'Empty';
+    const pilot = pilots.find(p => p.id === pilotId);
+    return pilot ? `${pilot.boardNumber ?? ''} ${pilot.callsign}`.trim() : 'Unknown pilot';
+  };
+  const slotLabel = (key: string) => {
+    const [flightId, dashNumber] = key.split('|');
+    return `${flightLabel(flightId)}-${dashNumber}`;
+  };
+
+  const describe = (conflict: MissionMergeConflict, side: MissionMergeChoice): string => {
+    switch (conflict.kind) {
+      case 'slot':
+        return pilotName(conflict[side]);
+      case 'pilot':
+        return `${pilotName(conflict.pilotId)} in ${slotLabel(conflict[side])}`;
+      case 'flight': {
+        const flight = conflict[side];
+        return flight ? `${flight.callsign}, ${flight.slots} slot${flight.slots === 1 ? '' : 's'}` : 'Removed';
+      }
+      case 'comms': {
+        const entry = conflict[side];
+        return entry ? `${entry.name} ${entry.freq}` : 'Removed';
+      }
+      case 'setting': {
+        const value = conflict[side];
+        return value === undefined ? 'Removed' : JSON.stringify(value).slice(0, 60);
+      }
+    }
+  };
+
+  const chooseAll = (side: MissionMergeChoice) => {
+    setChoices(Object.fromEntries(pendingMerge.conflicts.map(c => [c.id, side])));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onResolve(choices);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const optionStyle = (selected: boolean): React.CSSProperties => ({
+    flex: 1,
+    padding: '8px 10px',
+    textAlign: 'left',
+    fontFamily: 'Inter',
+    fontSize: '13px',
+    color: selected ? '#1E40AF' : '#374151',
+    backgroundColor: selected ? '#EFF6FF' : '#FFFFFF',
+    border: `1px solid ${selected ? '#93C5FD' : '#D1D5DB'}`,
+    borderRadius: '6px',
+    cursor: 'pointer'
+  });
+
+  return (
+    <>
+      {/* Overlay */}
+      <div style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        zIndex: 1000
+      }} />
+
+      {/* Dialog */}
+      <div style={{
+        position: 'fixed',
+        top: '50%',
+        left: '50%',
+        transform: 'translate(-50%, -50%)',
+        backgroundColor: '#FFFFFF',
+        borderRadius: '8px',
+        padding: '24px',
+        boxShadow: '0px 10px 15px -3px rgba(0, 0, 0, 0.25), 0px 4px 6px -4px rgba(0, 0, 0, 0.1)',
+        zIndex: 1001,
+        width: '560px',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        fontFamily: 'Inter'
+      }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '18px', fontWeight: 500, color: '#1F2937', marginBottom: '12px' }}>
+          <GitMerge size={18} color="#64748B" />
+          Conflicting Changes
+        </div>
+        <div style={{ fontSize: '14px', color: '#6B7280', marginBottom: '16px', lineHeight: '1.5' }}>
+          Another planner changed the same {pendingMerge.conflicts.length === 1 ? 'item' : `${pendingMerge.conflicts.length} items`} while
+          you were editing. Their other changes and yours have been combined; choose which version to keep below.
+        </div>
+
+        <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+          <button onClick={() => chooseAll('local')} style={{ ...optionStyle(false), flex: 'none' }}>Keep all mine</button>
+          <button onClick={() => chooseAll('remote')} style={{ ...optionStyle(false), flex: 'none' }}>Take all theirs</button>
+        </div>
+
+        <div style={{ overflowY: 'auto', flex: 1, marginBottom: '20px' }}>
+          {pendingMerge.conflicts.map(conflict => (
+            <div key={conflict.id} style={{ padding: '10px 0', borderBottom: '1px solid #F1F5F9' }}>
+              <div style={{ fontSize: '14px', fontWeight: 500, color: '#1F2937', marginBottom: '6px' }}>
+                {conflictTitle(conflict, flightLabel)}
+              </div>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                {(['local', 'remote'] as MissionMergeChoice[]).map(side => (
+                  <button
+                    key={side}
+                    onClick={() => setChoices(prev => ({ ...prev, [conflict.id]: side }))}
+                    style={optionStyle(choices[conflict.id] === side)}
+                  >
+                    <div style={{ fontSize: '11px', color: '#64748B', textTransform: 'uppercase', marginBottom: '2px' }}>
+                      {side === 'local' ? 'Mine' : 'Theirs'}
+                    </div>
+                    {describe(conflict, side)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            style={{
+              padding: '8px 16px',
+              fontFamily: 'Inter',
+              fontSize: '14px',
+              fontWeight: 500,
+              color: '#FFFFFF',
+              backgroundColor: '#2563EB',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: isSaving ? 'not-allowed' : 'pointer',
+              opacity: isSaving ? 0.6 : 1
+            }}
+          >
+            {isSaving ? 'Saving...' : 'Save Merged Mission'}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default MissionMergeDialog;
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Card } from '../card';
+import { Plus, X } from 'lucide-react';
+import { styles } from '../../../styles/MissionPrepStyles';
+import type { RedCoalitionGroup } from '../../../utils/redUnitExtractor';
+import type { MissionObjective } from '../../../types/DebriefingTypes';
+import type { Mission, UpdateMissionRequest } from '../../../types/MissionTypes';
+import { createTargetObjective, objectiveUnitTotal } from '../../../utils/missionObjectiveUtils';
+
+interface MissionObjectivesProps {
+  mission?: Mission | null;
+  updateMissionData?: (updates: UpdateMissionRequest) => Promise<unknown>;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  border: '1px solid #CBD5E1',
+  borderRadius: '4px',
+  fontSize: '14px',
+  boxSizing: 'border-box',
+  backgroundColor: '#FFFFFF'
+};
+
+const formatUnits = (units: Record<string, number> = {}) =>
+  Object.entries(units).map(([type, count]) => `${count}× ${type}`).join(', ');
+
+/**
+ * Target group objectives for the mission. Groups come from the red coalition
+ * of the imported .miz; the debrief marks each achieved once enough of the
+ * group has been recorded as killed.
+ */
+const MissionObjectives: React.FC<MissionObjectivesProps> = ({ mission, updateMissionData }) => {
+  const [selectedGroup, setSelectedGroup] = useState('');
+
+  const objectives: MissionObjective[] = mission?.mission_settings?.objectives || [];
+  const redGroups: RedCoalitionGroup[] = mission?.miz_file_data?.red_coalition_groups || [];
+  const availableGroups = redGroups.filter(group => !objectives.some(o => o.target_group === group.name));
+  const canEdit = !!(mission && updateMissionData);
+
+  const saveObjectives = (updated: MissionObjective[]) => {
+    if (!mission || !updateMissionData) return;
+    updateMissionData({
+      mission_settings: {
+        ...(mission.mission_settings || {}),
+        objectives: updated
+      }
+    });
+  };
+
+  const handleAdd = () => {
+    const group = redGroups.find(g => g.name === selectedGroup);
+    if (!group) return;
+    saveObjectives([...objectives, createTargetObjective(group, objectives.length === 0 ? 'primary' : 'secondary')]);
+    setSelectedGroup('');
+  };
+
+  const handleChange = (id: string, changes: Partial<MissionObjective>) => {
+    saveObjectives(objectives.map(o => (o.id === id ? { ...o, ...changes } : o)));
+  };
+
+  return (
+    <Card
+      style={{
+        width: '100%',
+        backgroundColor: '#FFFFFF',
+        boxShadow: '0px 10px 15px -3px rgba(0, 0, 0, 0.25), 0px 4px 6px -4px rgba(0, 0, 0, 0.1)',
+        borderRadius: '8px',
+        padding: '24px',
+        display: 'flex',
+        flexDirection: 'column',
+        position: 'relative',
+        boxSizing: 'border-box',
+        height: 'auto',
+        overflow: 'visible'
+      }}
+    >
+      <div style={{ width: '100%', textAlign: 'center', marginBottom: '16px' }}>
+        <span style={styles.headerLabel}>Objectives</span>
+      </div>
+
+      {objectives.length === 0 && (
+        <div style={{ fontSize: '14px', color: '#64748B', textAlign: 'center', marginBottom: '12px' }}>
+          {redGroups.length === 0
+            ? 'Import a .miz file to pick target groups from the red coalition.'
+            : 'No objectives yet. The mission outcome is set by hand in the debrief.'}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+        {objectives.map(objective => (
+          <div
+            key={objective.id}
+            style={{ padding: '10px 12px', border: '1px solid #E2E8F0', borderRadius: '6px', backgroundColor: '#F8FAFC' }}
+          >
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <span style={{ flex: 1, fontSize: '14px', fontWeight: 500, color: '#1E293B' }}>
+                {objective.target_group || objective.description}
+              </span>
+              <select
+                value={objective.priority}
+                onChange={e => handleChange(objective.id, { priority: e.target.value as MissionObjective['priority'] })}
+                disabled={!canEdit}
+                style={inputStyle}
+              >
+                <option value="primary">Primary</option>
+                <option value="secondary">Secondary</option>
+              </select>
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={objective.required_percentage ?? 100}
+                onChange={e => {
+                  const value = parseInt(e.target.value, 10);
+                  if (value >= 1 && value <= 100) handleChange(objective.id, { required_percentage: value });
+                }}
+                disabled={!canEdit}
+                title="Share of the group that has to be destroyed"
+                style={{ ...inputStyle, width: '64px' }}
+              />
+              <span style={{ fontSize: '14px', color: '#64748B' }}>%</span>
+              <button
+                onClick={() => saveObjectives(objectives.filter(o => o.id !== objective.id))}
+                disabled={!canEdit}
+                title="Remove objective"
+                style={{ ...styles.editButton, marginLeft: 0 }}
+              >
+                <X size={14} />
+              </button>
+            </div>
+            <div style={{ fontSize: '12px', color: '#64748B', marginTop: '4px' }}>
+              {objectiveUnitTotal(objective)} unit{objectiveUnitTotal(objective) === 1 ? '' : 's'}: {formatUnits(objective.target_units)}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {availableGroups.length > 0 && (
+        <div style={{ display: 'flex', gap: '8px', marginTop: '12px' }}>
+          <select
+            value={selectedGroup}
+            onChange={e => setSelectedGroup(e.target.value)}
+            disabled={!canEdit}
+            style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+          >
+            <option value="">Select a target group</option>
+            {availableGroups.map(group => (
+              <option key={group.name} value={group.name}>
+                {group.name} ({formatUnits(group.unitCounts)})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            disabled={!canEdit || !selectedGroup}
+            title="Add objective"
+            style={{ ...styles.editButton, marginLeft: 0, width: '32px', height: '32px', opacity: selectedGroup ? 1 : 0.5 }}
+          >
+            <Plus size={16} />
+          </button>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default MissionObjectives;
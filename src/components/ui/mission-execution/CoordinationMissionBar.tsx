@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { getMissions } from '../../../utils/missionService';
+import { useMissionCoordinationBoard } from '../../../hooks/useMissionCoordinationBoard';
+import MissionPresenceBanner from '../mission prep/MissionPresenceBanner';
+import type { Flight } from '../../../types/FlightData';
+import type { Mission } from '../../../types/MissionTypes';
+
+interface CoordinationMissionBarProps {
+  missionId: string | null;
+  onMissionChange: (missionId: string | null) => void;
+  flights: Flight[];
+  onFlightsChange: (flights: Flight[]) => void;
+  overwriteRemote?: boolean;
+  onOverwriteComplete?: () => void;
+}
+
+const getMissionLabel = (mission: Mission): string => {
+  const title = mission.event?.title || mission.name;
+  if (!mission.event?.datetime) return title;
+  return `${title} (${new Date(mission.event.datetime).toLocaleDateString()})`;
+};
+
+/**
+ * Floating bar on the Mission Coordination page that picks which mission's
+ * board is being worked, shows its sync state and who else is on it.
+ */
+const CoordinationMissionBar: React.FC<CoordinationMissionBarProps> = ({
+  missionId,
+  onMissionChange,
+  flights,
+  onFlightsChange,
+  overwriteRemote,
+  onOverwriteComplete
+}) => {
+  const [missions, setMissions] = useState<Mission[]>([]);
+
+  const { isLoaded, isSaving, error, isConnected, activeUsers } = useMissionCoordinationBoard({
+    missionId,
+    flights,
+    onFlightsChange,
+    overwriteRemote,
+    onOverwriteComplete
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    getMissions({ limit: 25 }).then(({ missions: recentMissions }) => {
+      if (!cancelled) setMissions(recentMissions);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const statusText = !missionId
+    ? 'Local only'
+    : error
+      ? 'Sync error'
+      : !isLoaded
+        ? 'Loading...'
+        : isSaving
+          ? 'Saving...'
+          : isConnected
+            ? 'Live'
+            : 'Offline';
+
+  const statusColor = error ? '#DC2626' : missionId && isConnected ? '#16A34A' : '#64748B';
+
+  return (
+    <>
+      <div style={{
+        position: 'fixed',
+        top: '20px',
+        right: '20px',
+        backgroundColor: '#FFFFFF',
+        border: '1px solid #CBD5E1',
+        borderRadius: '6px',
+        padding: '6px 10px',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        zIndex: 900,
+        fontFamily: 'Inter',
+        fontSize: '13px',
+        color: '#0F172A',
+        boxShadow: '0 1px 3px rgba(0,0,0,0.1)'
+      }}>
+        <select
+          value={missionId || ''}
+          onChange={(e) => onMissionChange(e.target.value || null)}
+          style={{
+            border: 'none',
+            backgroundColor: 'transparent',
+            fontFamily: 'Inter',
+            fontSize: '13px',
+            maxWidth: '260px'
+          }}
+        >
+          <option value="">No mission (local board)</option>
+          {missionId && !missions.some(m => m.id === missionId) && (
+            <option value={missionId}>Current mission</option>
+          )}
+          {missions.map(mission => (
+            <option key={mission.id} value={mission.id}>
+              {getMissionLabel(mission)}
+            </option>
+          ))}
+        </select>
+        <span
+          title={error || undefined}
+          style={{ display: 'flex', alignItems: 'center', gap: '4px', color: statusColor }}
+        >
+          <span style={{
+            display: 'inline-block',
+            width: '8px',
+            height: '8px',
+            borderRadius: '50%',
+            backgroundColor: statusColor
+          }} />
+          {statusText}
+        </span>
+      </div>
+      <MissionPresenceBanner activeUsers={activeUsers} isConnected={isConnected} />
+    </>
+  );
+};
+
+export default CoordinationMissionBar;
@@ -22,6 +22,7 @@ import { fetchDiscordGuildMember, fetchDiscordGuildRoles } from '../../../utils/
 import { fetchDiscordGuildMembers, DiscordMember } from '../../../utils/discordPilotService';
 import { supabase } from '../../../utils/supabaseClient';
 import BoardNumberModal from './BoardNumberModal';
+import type { QualificationCurrency } from '../../../utils/qualificationCurrencyService';
 
 interface DiscordRole {
   id: string;
@@ -69,6 +70,7 @@ interface PilotDetailsProps {
   squadrons: Squadron[];
   availableQualifications: Qualification[];
   pilotQualifications: any[];
+  qualificationCurrency?: Record<string, QualificationCurrency>; // Keyed by qualification ID
   availableTeams: Team[];
   pilotTeams: PilotTeam[];
   loadingRoles: boolean;
@@ -127,6 +129,7 @@ const PilotDetails: React.FC<PilotDetailsProps> = ({
   squadrons,
   availableQualifications,
   pilotQualifications,
+  qualificationCurrency,
   availableTeams,
   pilotTeams,
   loadingRoles,
@@ -1616,6 +1619,7 @@ const PilotDetails: React.FC<PilotDetailsProps> = ({
 
               <QualificationsManager
                 pilotQualifications={pilotQualifications}
+                qualificationCurrency={qualificationCurrency}
                 availableQualifications={availableQualifications}
                 selectedQualification={selectedQualification}
                 qualificationAchievedDate={qualificationAchievedDate}
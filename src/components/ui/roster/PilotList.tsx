@@ -5,10 +5,11 @@ import { Standing } from '../../../utils/standingService';
 import { Squadron } from '../../../utils/squadronService';
 import { Role } from '../../../utils/roleService';
 import { Qualification } from '../../../utils/qualificationService';
+import type { QualificationCurrency } from '../../../utils/qualificationCurrencyService';
 import { pilotListStyles, rosterStyles } from '../../../styles/RosterManagementStyles';
 import FilterDrawer, { QualificationFilterMode } from './FilterDrawer';
 import PilotListItem from './PilotListItem';
-import { ArrowUpDown } from 'lucide-react';
+import { ArrowUpDown, Upload } from 'lucide-react';
 
 interface PilotListProps {
   pilots: Pilot[];
@@ -27,6 +28,7 @@ interface PilotListProps {
   qualificationFilters: Record<string, QualificationFilterMode>;
   filtersEnabled: boolean;
   allPilotQualifications: Record<string, any[]>;
+  qualificationCurrency: Record<string, Record<string, QualificationCurrency>>;
   setSelectedPilot?: (pilot: Pilot) => void;
   onPilotSelection?: (pilot: Pilot, visiblePilots: Pilot[], event?: React.MouseEvent) => void; // For multi-select
   setHoveredPilot: (id: string | null) => void;
@@ -38,6 +40,7 @@ interface PilotListProps {
   setFiltersEnabled: (enabled: boolean) => void;
   onAddPilot: () => void;
   onSyncWithDiscord: () => void;
+  onImportRoster: () => void;
   isAddingNewPilot?: boolean;
 }
 
@@ -58,6 +61,7 @@ const PilotList: React.FC<PilotListProps> = ({
   qualificationFilters,
   filtersEnabled,
   allPilotQualifications,
+  qualificationCurrency,
   setSelectedPilot,
   onPilotSelection,
   setHoveredPilot,
@@ -69,6 +73,7 @@ const PilotList: React.FC<PilotListProps> = ({
   setFiltersEnabled,
   onAddPilot,
   onSyncWithDiscord,
+  onImportRoster,
   isAddingNewPilot = false
 }) => {
   const rosterContentRef = useRef<HTMLDivElement>(null);
@@ -466,6 +471,7 @@ const PilotList: React.FC<PilotListProps> = ({
                         onMouseEnter={() => setHoveredPilot(pilot.id)}
                         onMouseLeave={() => setHoveredPilot(null)}
                         pilotQualifications={allPilotQualifications[pilot.id] || []}
+                        qualificationCurrency={qualificationCurrency[pilot.id]}
                         isDisabled={isAddingNewPilot}
                       />
                     );
@@ -542,6 +548,7 @@ const PilotList: React.FC<PilotListProps> = ({
                         onMouseEnter={() => setHoveredPilot(pilot.id)}
                         onMouseLeave={() => setHoveredPilot(null)}
                         pilotQualifications={allPilotQualifications[pilot.id] || []}
+                        qualificationCurrency={qualificationCurrency[pilot.id]}
                         isDisabled={isAddingNewPilot}
                       />
                     );
@@ -609,6 +616,7 @@ const PilotList: React.FC<PilotListProps> = ({
                   onMouseEnter={() => setHoveredPilot(pilot.id)}
                   onMouseLeave={() => setHoveredPilot(null)}
                   pilotQualifications={allPilotQualifications[pilot.id] || []}
+                  qualificationCurrency={qualificationCurrency[pilot.id]}
                   isDisabled={isAddingNewPilot}
                 />
               );
@@ -623,7 +631,7 @@ const PilotList: React.FC<PilotListProps> = ({
         )}
       </div>
 
-      {/* Footer with Add Pilot button (centered) and Sync with Discord (right) */}
+      {/* Footer with Import (left), Add Pilot button (centered) and Sync with Discord (right) */}
       <div style={{
         display: 'flex',
         justifyContent: 'center',
@@ -633,6 +641,36 @@ const PilotList: React.FC<PilotListProps> = ({
         zIndex: 5,
         borderTop: '1px solid #E2E8F0'
       }}>
+        <button
+          onClick={onImportRoster}
+          title="Import pilots from a CSV or JSON roster"
+          style={{
+            position: 'absolute',
+            left: '18px',
+            backgroundColor: 'white',
+            color: '#475569',
+            border: '1px solid #CBD5E1',
+            borderRadius: '4px',
+            padding: '8px 12px',
+            fontSize: '13px',
+            fontWeight: 500,
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            transition: 'background-color 0.2s'
+          }}
+          onMouseEnter={e => {
+            e.currentTarget.style.backgroundColor = '#F1F5F9';
+          }}
+          onMouseLeave={e => {
+            e.currentTarget.style.backgroundColor = 'white';
+          }}
+        >
+          <Upload size={14} />
+          Import
+        </button>
+
         <button
           onClick={onAddPilot}
           disabled={isAddingNewPilot}
@@ -1,9 +1,16 @@
 import React, { useState, useRef } from 'react';
+import { AlertTriangle } from 'lucide-react';
 import type { Pilot } from '../../../utils/pilotTypes';
 import QualificationBadge from '../QualificationBadge';
 import PilotIDBadgeSm from '../PilotIDBadgeSm';
 import { pilotListStyles } from '../../../styles/RosterManagementStyles';
 import { useAppSettings } from '../../../context/AppSettingsContext';
+import type { PilotQualificationRecord, QualificationCurrency } from '../../../utils/qualificationCurrencyService';
+import type { Qualification } from '../../../utils/qualificationService';
+
+type QualifiedRecord = PilotQualificationRecord & { qualification: Qualification };
+
+const isQualifiedRecord = (pq: PilotQualificationRecord): pq is QualifiedRecord => !!pq.qualification;
 
 interface PilotListItemProps {
   pilot: Pilot;
@@ -13,6 +20,7 @@ interface PilotListItemProps {
   onMouseEnter: () => void;
   onMouseLeave: () => void;
   pilotQualifications: any[];
+  qualificationCurrency?: Record<string, QualificationCurrency>; // Keyed by qualification ID
   isDisabled?: boolean;
 }
 
@@ -24,6 +32,7 @@ const PilotListItem: React.FC<PilotListItemProps> = ({
   onMouseEnter,
   onMouseLeave,
   pilotQualifications,
+  qualificationCurrency = {},
   isDisabled = false
 }) => {
   const { settings } = useAppSettings();
@@ -42,6 +51,40 @@ const PilotListItem: React.FC<PilotListItemProps> = ({
     return colorPalette?.primary || '#374151';
   };
 
+  const describeCurrency = (name: string, currency: QualificationCurrency) => {
+    const date = new Date(currency.expiresAt).toLocaleDateString('en-US', { month: '2-digit', day: '2-digit', year: 'numeric' });
+    return currency.status === 'lapsed'
+      ? `${name} lapsed ${date} (${currency.reason})`
+      : `${name} expires ${date} (${currency.reason})`;
+  };
+
+  // Lapsed qualifications are faded; the tooltip says why
+  const renderBadge = (pq: QualifiedRecord, key: string) => {
+    const currency = qualificationCurrency[pq.qualification.id];
+    const flagged = currency && currency.status !== 'current';
+    return (
+      <span
+        key={key}
+        title={flagged ? describeCurrency(pq.qualification.name, currency) : undefined}
+        style={{ display: 'inline-flex', opacity: currency?.status === 'lapsed' ? 0.35 : 1 }}
+      >
+        <QualificationBadge
+          type={pq.qualification.name}
+          code={pq.qualification.code}
+          color={pq.qualification.color || undefined}
+        />
+      </span>
+    );
+  };
+
+  // One warning per lapsed or soon-to-lapse qualification, for the icon by the callsign
+  const currencyWarnings = Array.from(new Map((pilotQualifications || [])
+    .filter(isQualifiedRecord)
+    .map(pq => [pq.qualification.id, pq.qualification.name] as [string, string])).entries())
+    .filter(([qualificationId]) => qualificationCurrency[qualificationId] && qualificationCurrency[qualificationId].status !== 'current')
+    .map(([qualificationId, name]) => ({ currency: qualificationCurrency[qualificationId], name }));
+  const hasLapsed = currencyWarnings.some(w => w.currency.status === 'lapsed');
+
   // Render qualification badges for the pilot
   const renderQualificationBadges = () => {
     if (!pilotQualifications || pilotQualifications.length === 0) {
@@ -49,8 +92,8 @@ const PilotListItem: React.FC<PilotListItemProps> = ({
     }
 
     // Use a Map for efficient deduplication
-    const qualMap = new Map();
-    pilotQualifications.forEach((pq: any) => {
+    const qualMap = new Map<string, QualifiedRecord>();
+    pilotQualifications.filter(isQualifiedRecord).forEach(pq => {
       if (!qualMap.has(pq.qualification.id)) {
         qualMap.set(pq.qualification.id, pq);
       }
@@ -58,7 +101,7 @@ const PilotListItem: React.FC<PilotListItemProps> = ({
 
     // Convert map back to array and sort by qualification order
     const uniqueQuals = Array.from(qualMap.values())
-      .sort((a, b) => a.qualification.order - b.qualification.order);
+      .sort((a, b) => (a.qualification.order ?? 0) - (b.qualification.order ?? 0));
 
     // Each badge is 37px wide with 4px gap = 41px per badge
     // With the increased width, we can show up to 8 badges before overflow
@@ -66,14 +109,7 @@ const PilotListItem: React.FC<PilotListItemProps> = ({
 
     if (uniqueQuals.length <= MAX_VISIBLE_BADGES) {
       // Show all badges normally
-      return uniqueQuals.map((pq: any) => (
-        <QualificationBadge
-          key={`${pilot.id}-${pq.qualification.id}`}
-          type={pq.qualification.name}
-          code={pq.qualification.code}
-          color={pq.qualification.color}
-        />
-      ));
+      return uniqueQuals.map(pq => renderBadge(pq, `${pilot.id}-${pq.qualification.id}`));
     }
 
     // Show first (MAX_VISIBLE_BADGES - 1) badges plus overflow indicator
@@ -82,14 +118,7 @@ const PilotListItem: React.FC<PilotListItemProps> = ({
 
     return (
       <>
-        {visibleQuals.map((pq: any) => (
-          <QualificationBadge
-            key={`${pilot.id}-${pq.qualification.id}`}
-            type={pq.qualification.name}
-            code={pq.qualification.code}
-            color={pq.qualification.color}
-          />
-        ))}
+        {visibleQuals.map(pq => renderBadge(pq, `${pilot.id}-${pq.qualification.id}`))}
         <div
           style={{ position: 'relative' }}
           onMouseEnter={() => setShowTooltip(true)}
@@ -131,14 +160,7 @@ const PilotListItem: React.FC<PilotListItemProps> = ({
                 boxShadow: '0px 4px 6px -1px rgba(0, 0, 0, 0.1), 0px 2px 4px -1px rgba(0, 0, 0, 0.06)'
               }}
             >
-              {overflowQuals.map((pq: any) => (
-                <QualificationBadge
-                  key={`${pilot.id}-${pq.qualification.id}-tooltip`}
-                  type={pq.qualification.name}
-                  code={pq.qualification.code}
-                  color={pq.qualification.color}
-                />
-              ))}
+              {overflowQuals.map(pq => renderBadge(pq, `${pilot.id}-${pq.qualification.id}-tooltip`))}
             </div>
           )}
         </div>
@@ -172,6 +194,14 @@ const PilotListItem: React.FC<PilotListItemProps> = ({
         color: getSquadronPrimaryColor()
       }}>
         {pilot.callsign}
+        {currencyWarnings.length > 0 && (
+          <span
+            title={currencyWarnings.map(w => describeCurrency(w.name, w.currency)).join('\n')}
+            style={{ display: 'inline-flex', marginLeft: '4px', verticalAlign: 'middle' }}
+          >
+            <AlertTriangle size={14} color={hasLapsed ? '#DC2626' : '#F59E0B'} />
+          </span>
+        )}
       </span>
       <span style={pilotListStyles.role}>
         {pilot.roles?.[0]?.role?.name || ''}
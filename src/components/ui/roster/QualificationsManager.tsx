@@ -1,11 +1,13 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { pilotDetailsStyles } from '../../../styles/RosterManagementStyles';
 import { Qualification } from '../../../utils/qualificationService';
+import type { QualificationCurrency } from '../../../utils/qualificationCurrencyService';
 import QualificationBadge from '../QualificationBadge';
 import { X } from 'lucide-react';
 
 interface QualificationsManagerProps {
   pilotQualifications: any[];
+  qualificationCurrency?: Record<string, QualificationCurrency>; // Keyed by qualification ID
   availableQualifications: Qualification[];
   selectedQualification: string;
   qualificationAchievedDate: string;
@@ -20,6 +22,7 @@ interface QualificationsManagerProps {
 
 const QualificationsManager: React.FC<QualificationsManagerProps> = ({
   pilotQualifications,
+  qualificationCurrency = {},
   availableQualifications,
   selectedQualification,
   qualificationAchievedDate,
@@ -313,13 +316,20 @@ const QualificationsManager: React.FC<QualificationsManagerProps> = ({
                       borderRight: '1px solid #F3F4F6'
                     }}>
                       {(() => {
-                        const expiryDate = calculateExpiryDate(pilotQual.achieved_date, pilotQual.qualification);
-                        const isExpiringSoon = isExpiringWithin30Days(expiryDate);
+                        // Currency rules depend on logged traps/flights, so those come
+                        // precomputed; plain validity periods are worked out per record
+                        const currency = pilotQual.qualification.currency_rule
+                          ? qualificationCurrency[pilotQual.qualification.id]
+                          : undefined;
+                        const expiryDate = currency
+                          ? new Date(currency.expiresAt)
+                          : calculateExpiryDate(pilotQual.achieved_date, pilotQual.qualification);
                         const daysUntil = getDaysUntilExpiry(expiryDate);
-                        const isExpired = daysUntil !== null && daysUntil < 0;
+                        const isExpired = currency ? currency.status === 'lapsed' : daysUntil !== null && daysUntil < 0;
+                        const isExpiringSoon = currency ? currency.status === 'expiring' : isExpiringWithin30Days(expiryDate);
 
                         return (
-                          <span style={{
+                          <span title={currency?.reason} style={{
                             fontSize: '13px',
                             color: isExpired ? '#DC2626' : isExpiringSoon ? '#F59E0B' : '#6B7280',
                             fontWeight: isExpired || isExpiringSoon ? '500' : 'normal'
@@ -1,4 +0,0 @@
-declare module 'fengari-web' {
-  export const luastring_of: (str: string) => Uint8Array
-  export function load(code: string): () => string
-}
\ No newline at end of file
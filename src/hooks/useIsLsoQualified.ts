@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { getPilotQualifications } from '../utils/qualificationService';
+
+interface QualificationRecord {
+  qualification?: { code?: string | null } | null;
+}
+
+/**
+ * Whether the signed-in user's pilot holds the LSO qualification, which lets
+ * them import carrier trap logs and regrade passes.
+ */
+export const useIsLsoQualified = (): boolean => {
+  const { userProfile } = useAuth();
+  const pilotId = userProfile?.pilot?.id;
+  const [isLso, setIsLso] = useState(false);
+
+  useEffect(() => {
+    if (!pilotId) {
+      setIsLso(false);
+      return;
+    }
+
+    let cancelled = false;
+    getPilotQualifications(pilotId)
+      .then(({ data }) => {
+        if (cancelled) return;
+        setIsLso(((data || []) as QualificationRecord[]).some(q => q.qualification?.code === 'LSO'));
+      })
+      .catch(err => {
+        console.error('Failed to check LSO qualification:', err);
+        if (!cancelled) setIsLso(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pilotId]);
+
+  return isLso;
+};
@@ -6,8 +6,11 @@ import {
   createMission,
   linkMissionToEvent
 } from '../utils/missionService';
+import { mergeMissionChanges, isMergeableUpdate } from '../utils/missionMergeUtils';
 import type {
   Mission,
+  MissionMergeChoice,
+  MissionMergeConflict,
   MissionResponse,
   CreateMissionRequest,
   UpdateMissionRequest,
@@ -19,6 +22,17 @@ import type {
 // Global cache for mission loading requests to prevent duplicates
 const loadingCache = new Map<string, Promise<any>>();
 
+// How many times a cleanly merged save is retried if yet another save lands first
+const MAX_MERGE_ATTEMPTS = 3;
+
+// A local save that clashed with another planner's changes, waiting on the user
+export interface PendingMissionMerge {
+  base: Mission; // Server copy the local edit started from
+  local: UpdateMissionRequest;
+  remote: Mission;
+  conflicts: MissionMergeConflict[];
+}
+
 /**
  * Custom hook for mission database operations
  */
@@ -31,6 +45,15 @@ export const useMission = (initialMissionId?: string, eventId?: string) => {
   // Track the current event ID to detect stale responses
   const currentEventIdRef = useRef<string | undefined>(undefined);
 
+  // ── Three-way merge state ──
+  // The last server copy the local edits are based on. Saves of mergeable fields
+  // are version-checked against it; on a conflict the local changes are merged
+  // with the newer server copy instead of overwriting it.
+  const baseMissionRef = useRef<Mission | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<PendingMissionMerge | null>(null);
+  // Incremented when a merge changed the mission under the UI, so it re-hydrates
+  const [mergeRevision, setMergeRevision] = useState(0);
+
   // Load mission on mount
   useEffect(() => {
     const loadMission = async () => {
@@ -92,9 +115,11 @@ export const useMission = (initialMissionId?: string, eventId?: string) => {
         } else if (result?.mission === null) {
           // No mission found for this event - this is normal
           console.log(`No mission found for event ${eventId}`);
+          baseMissionRef.current = null;
           setMission(null);
         } else if (result?.mission) {
           console.log(`Mission loaded: ${result.mission.id} for event ${eventId}`);
+          baseMissionRef.current = result.mission;
           setMission(result.mission);
         }
       } catch (err: any) {
@@ -137,6 +162,7 @@ export const useMission = (initialMissionId?: string, eventId?: string) => {
         return null;
       }
 
+      baseMissionRef.current = newMission;
       setMission(newMission);
       return newMission;
     } catch (err: any) {
@@ -148,6 +174,46 @@ export const useMission = (initialMissionId?: string, eventId?: string) => {
     }
   }, []);
 
+  // Save a merged update on top of the server copy it was merged against. True
+  // conflicts are parked in pendingMerge for the user; if yet another save lands
+  // while saving, the merge is simply redone on top of that one.
+  const mergeAndSave = useCallback(async (
+    missionId: string,
+    base: Mission,
+    local: UpdateMissionRequest,
+    remote: Mission,
+    choices: Record<string, MissionMergeChoice> = {},
+    attempt: number = 1
+  ): Promise<MissionResponse> => {
+    const { merged, conflicts } = mergeMissionChanges(base, local, remote, choices);
+
+    if (conflicts.length > 0) {
+      console.warn(`⚠️ useMission: ${conflicts.length} conflicting change(s) need resolving`);
+      setPendingMerge({ base, local, remote, conflicts });
+      return { mission: {} as Mission, error: 'Conflicting changes need resolving', conflict: true, serverMission: remote };
+    }
+
+    const result = await updateMission(missionId, { ...merged, expected_version: remote.version });
+
+    if (result.conflict && result.serverMission && attempt < MAX_MERGE_ATTEMPTS) {
+      return mergeAndSave(missionId, remote, merged, result.serverMission, {}, attempt + 1);
+    }
+
+    if (result.error) {
+      setError(result.error);
+      return result;
+    }
+
+    // The saved row is now the other planner's changes plus ours, so take it
+    // wholesale and let the UI re-hydrate from it
+    console.log(`✅ useMission: merged local changes onto version ${remote.version}`);
+    baseMissionRef.current = result.mission;
+    setMission(result.mission);
+    setPendingMerge(null);
+    setMergeRevision(prev => prev + 1);
+    return result;
+  }, []);
+
   // Update mission data.
   // Returns full MissionResponse so callers can detect version conflicts.
   const updateMissionData = useCallback(async (
@@ -164,7 +230,19 @@ export const useMission = (initialMissionId?: string, eventId?: string) => {
     setError(null);
 
     try {
-      const result = await updateMission(targetMissionId, updates);
+      // Version-check saves of mergeable fields against the copy the edit started
+      // from, so a save another planner made in between is merged, not overwritten
+      const base = baseMissionRef.current?.id === targetMissionId ? baseMissionRef.current : null;
+      const versioned = !!base && updates.expected_version === undefined && isMergeableUpdate(updates);
+
+      const result = await updateMission(
+        targetMissionId,
+        versioned ? { ...updates, expected_version: base!.version } : updates
+      );
+
+      if (result.conflict && versioned && result.serverMission) {
+        return await mergeAndSave(targetMissionId, base!, updates, result.serverMission);
+      }
 
       if (result.conflict) {
         // Version conflict — don't overwrite local mission state.
@@ -177,6 +255,16 @@ export const useMission = (initialMissionId?: string, eventId?: string) => {
         return result;
       }
 
+      // Strip non-column fields from updates before merging into mission state
+      const fieldsToMerge = { ...updates };
+      delete fieldsToMerge.expected_version;
+
+      // Advance the base only when no other save landed in between; otherwise
+      // keep it so the next versioned save merges the other planner's changes in
+      if (base && (versioned || result.mission.version === base.version + 1)) {
+        baseMissionRef.current = { ...base, ...fieldsToMerge, version: result.mission.version };
+      }
+
       // CRITICAL: Merge the DB response into the existing mission state instead of
       // replacing it wholesale. When saving a subset of fields (e.g. only
       // support_role_assignments), the DB response includes the ENTIRE row — including
@@ -188,8 +276,6 @@ export const useMission = (initialMissionId?: string, eventId?: string) => {
       // (version, updated_at, etc.) into the current mission state.
       setMission(prev => {
         if (!prev || !result.mission) return result.mission;
-        // Strip non-column fields from updates before merging into mission state
-        const { expected_version: _ev, ...fieldsToMerge } = updates as any;
         return {
           ...prev,
           // Always take server-computed fields from the response
@@ -210,7 +296,22 @@ export const useMission = (initialMissionId?: string, eventId?: string) => {
     } finally {
       setSaving(false);
     }
-  }, [mission?.id]);
+  }, [mission?.id, mergeAndSave]);
+
+  // Save the parked merge with the user's pick for each conflicting item
+  const resolveMerge = useCallback(async (
+    choices: Record<string, MissionMergeChoice>
+  ): Promise<boolean> => {
+    if (!pendingMerge || !mission?.id) return false;
+
+    setSaving(true);
+    try {
+      const result = await mergeAndSave(mission.id, pendingMerge.base, pendingMerge.local, pendingMerge.remote, choices);
+      return !result.error && !result.conflict;
+    } finally {
+      setSaving(false);
+    }
+  }, [pendingMerge, mission?.id, mergeAndSave]);
 
   // Convenience wrappers return boolean for backward compatibility
   const updateFlights = useCallback(async (flights: MissionFlight[]): Promise<boolean> => {
@@ -232,11 +333,22 @@ export const useMission = (initialMissionId?: string, eventId?: string) => {
     return !result.error && !result.conflict;
   }, [updateMissionData]);
 
-  // Allow external code (e.g. realtime hook) to update the mission state directly
-  const setMissionExternal = useCallback((m: Mission | null) => {
+  // Allow external code (e.g. realtime hook) to update the mission state directly.
+  // Pass rebase=false when the UI still holds unsaved edits made against the old
+  // copy, so their save is merged with this one rather than overwriting it.
+  const setMissionExternal = useCallback((m: Mission | null, rebase: boolean = true) => {
+    if (rebase) baseMissionRef.current = m;
     setMission(m);
   }, []);
 
+  // Treat the current mission state as what the UI is based on (after it has
+  // been re-hydrated from a deferred remote update)
+  const missionRef = useRef(mission);
+  missionRef.current = mission;
+  const rebaseMission = useCallback(() => {
+    baseMissionRef.current = missionRef.current;
+  }, []);
+
   // Link mission to an event
   const linkToEvent = useCallback(async (targetEventId: string): Promise<boolean> => {
     if (!mission?.id) {
@@ -255,6 +367,7 @@ export const useMission = (initialMissionId?: string, eventId?: string) => {
         return false;
       }
 
+      baseMissionRef.current = linkedMission;
       setMission(linkedMission);
       return true;
     } catch (err: any) {
@@ -266,11 +379,12 @@ export const useMission = (initialMissionId?: string, eventId?: string) => {
     }
   }, [mission?.id]);
 
-  // Helper to update mission settings
+  // Helper to update mission settings. Merges into the existing settings so
+  // saving one key (e.g. comms_plan) doesn't drop the others.
   const updateSettings = useCallback(async (settings: any): Promise<boolean> => {
-    const result = await updateMissionData({ mission_settings: settings });
+    const result = await updateMissionData({ mission_settings: { ...(mission?.mission_settings || {}), ...settings } });
     return !result.error && !result.conflict;
-  }, [updateMissionData]);
+  }, [updateMissionData, mission?.mission_settings]);
 
   // Helper to update selected squadrons
   const updateSelectedSquadrons = useCallback(async (squadrons: string[]): Promise<boolean> => {
@@ -297,6 +411,12 @@ export const useMission = (initialMissionId?: string, eventId?: string) => {
 
     // Direct state setter (for realtime updates)
     setMission: setMissionExternal,
+    rebaseMission,
+
+    // Three-way merge of concurrent edits
+    pendingMerge,
+    resolveMerge,
+    mergeRevision,
 
     // Utility
     refetch: () => {
@@ -0,0 +1,183 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useMissionRealtime } from './useMissionRealtime';
+import { useAuth } from '../context/AuthContext';
+import { useSections, type Section } from '../components/layout/SectionContext';
+import { getCoordinationBoard, saveCoordinationBoard } from '../utils/missionCoordinationService';
+import { mergeCoordinationBoards, type CoordinationBoardContent } from '../utils/missionMergeUtils';
+import { tabSessionId } from '../utils/tabSessionId';
+import type { Flight } from '../types/FlightData';
+
+const SAVE_DEBOUNCE_MS = 500;
+// Saves that keep losing the race to other controllers give up after this many tries
+const MAX_SAVE_ATTEMPTS = 3;
+
+const EMPTY_BOARD: CoordinationBoardContent = { flights: [], sections: [] };
+
+interface UseMissionCoordinationBoardConfig {
+  /** The mission whose board is being worked. When falsy the board stays local only. */
+  missionId: string | null | undefined;
+  flights: Flight[];
+  onFlightsChange: (flights: Flight[]) => void;
+  /**
+   * When true, the local board (e.g. flights just transferred from mission prep)
+   * replaces whatever is stored for the mission instead of being hydrated from it.
+   */
+  overwriteRemote?: boolean;
+  /** Called once the local board has been published after an overwrite */
+  onOverwriteComplete?: () => void;
+}
+
+const serializeBoard = (flights: Flight[], sections: Section[]) =>
+  JSON.stringify({ flights, sections });
+
+/**
+ * Hook that persists the Mission Coordination board (flights and SectionContext
+ * divisions) against a mission and keeps it in sync across everyone viewing it.
+ *
+ * Local changes are debounced and saved against the board version they were
+ * made on; remote changes arrive through the same realtime channel + presence
+ * pattern used by mission prep. When another controller saved first, the two
+ * boards are merged flight by flight and section by section and saved again.
+ */
+export const useMissionCoordinationBoard = ({
+  missionId,
+  flights,
+  onFlightsChange,
+  overwriteRemote = false,
+  onOverwriteComplete
+}: UseMissionCoordinationBoardConfig) => {
+  const { user, userProfile } = useAuth();
+  const { sections, replaceSections } = useSections();
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Serialized board as last loaded from or saved to the database. Local state
+  // matching it has nothing new to save (this also breaks remote echo loops).
+  const lastSyncedRef = useRef<string>('');
+  // The board as last loaded or saved, and its version: the base for merges
+  const baseRef = useRef<CoordinationBoardContent & { version: number | null }>({ ...EMPTY_BOARD, version: null });
+  // The local board as of the latest render, for merging into from async handlers
+  const localRef = useRef<CoordinationBoardContent>({ flights, sections });
+  localRef.current = { flights, sections };
+
+  // Stable refs so load/realtime handlers don't re-subscribe on every render
+  const onFlightsChangeRef = useRef(onFlightsChange);
+  onFlightsChangeRef.current = onFlightsChange;
+  const overwriteRemoteRef = useRef(overwriteRemote);
+  overwriteRemoteRef.current = overwriteRemote;
+
+  // ── Initial load ──
+  useEffect(() => {
+    setIsLoaded(false);
+    setError(null);
+    lastSyncedRef.current = '';
+    baseRef.current = { ...EMPTY_BOARD, version: null };
+    if (!missionId) return;
+
+    let cancelled = false;
+    getCoordinationBoard(missionId).then(({ board, error: loadError }) => {
+      if (cancelled) return;
+      if (loadError) {
+        setError(loadError);
+        return;
+      }
+      if (board) baseRef.current = { flights: board.flights, sections: board.sections, version: board.version };
+
+      // A fresh transfer wins over the stored board; the save effect publishes it
+      if (!overwriteRemoteRef.current) {
+        if (board) {
+          lastSyncedRef.current = serializeBoard(board.flights, board.sections);
+          onFlightsChangeRef.current(board.flights);
+          replaceSections(board.sections);
+        } else {
+          // Nothing stored yet - don't carry another mission's board across
+          onFlightsChangeRef.current([]);
+          replaceSections();
+        }
+      }
+      setIsLoaded(true);
+    });
+
+    return () => { cancelled = true; };
+  }, [missionId, replaceSections]);
+
+  // ── Debounced save of local changes ──
+  useEffect(() => {
+    if (!missionId || !isLoaded) return;
+
+    const serialized = serializeBoard(flights, sections);
+    if (serialized === lastSyncedRef.current) return;
+    // Nothing worth publishing until the board has flights on it
+    if (!lastSyncedRef.current && flights.length === 0) return;
+
+    const timeout = setTimeout(async () => {
+      setIsSaving(true);
+      const local: CoordinationBoardContent = { flights, sections };
+      let board = local;
+      let result = await saveCoordinationBoard(missionId, board.flights, board.sections, baseRef.current.version);
+      for (let attempt = 1; result.conflict && result.serverBoard && attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+        const server = result.serverBoard;
+        // A fresh transfer replaces the stored board rather than merging into it
+        if (!overwriteRemoteRef.current) board = mergeCoordinationBoards(baseRef.current, board, server);
+        baseRef.current = { flights: server.flights, sections: server.sections, version: server.version };
+        result = await saveCoordinationBoard(missionId, board.flights, board.sections, server.version);
+      }
+      setIsSaving(false);
+
+      if (result.error || !result.board) {
+        setError(result.error || 'Failed to save the coordination board');
+        return;
+      }
+
+      baseRef.current = { flights: board.flights, sections: board.sections, version: result.board.version };
+      lastSyncedRef.current = serializeBoard(board.flights, board.sections);
+      setError(null);
+      if (board !== local) {
+        // Show the merged board, keeping anything changed locally while it saved
+        const next = mergeCoordinationBoards(local, localRef.current, board);
+        onFlightsChangeRef.current(next.flights);
+        replaceSections(next.sections);
+      }
+      if (overwriteRemoteRef.current) {
+        onOverwriteComplete?.();
+      }
+    }, SAVE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [missionId, isLoaded, flights, sections, onOverwriteComplete, replaceSections]);
+
+  // ── Realtime subscription ──
+  const handleRemoteBoardUpdate = useCallback((newRow: Record<string, unknown>) => {
+    if (newRow.mission_id !== missionId) return;
+
+    // Ignore the echo of this tab's own save
+    if (newRow.last_modified_session === tabSessionId) return;
+
+    const remoteFlights: Flight[] = Array.isArray(newRow.flights) ? newRow.flights : [];
+    const remoteSections: Section[] = Array.isArray(newRow.sections) ? newRow.sections : [];
+
+    const remote: CoordinationBoardContent = { flights: remoteFlights, sections: remoteSections };
+
+    // Local changes not saved yet are kept on top of the remote board
+    const merged = mergeCoordinationBoards(baseRef.current, localRef.current, remote);
+    baseRef.current = { ...remote, version: typeof newRow.version === 'number' ? newRow.version : baseRef.current.version };
+    lastSyncedRef.current = serializeBoard(remoteFlights, remoteSections);
+    onFlightsChangeRef.current(merged.flights);
+    replaceSections(merged.sections);
+  }, [missionId, replaceSections]);
+
+  const { isConnected, activeUsers } = useMissionRealtime({
+    missionId: missionId || undefined,
+    onRemoteMissionUpdate: handleRemoteBoardUpdate,
+    currentUserId: user?.id,
+    currentUserName: userProfile?.pilot?.callsign || user?.email || undefined,
+    enabled: isLoaded,
+    table: 'mission_coordination_boards',
+    filterColumn: 'mission_id',
+    event: '*',
+    channelPrefix: 'mission-coordination'
+  });
+
+  return { isLoaded, isSaving, error, isConnected, activeUsers };
+};
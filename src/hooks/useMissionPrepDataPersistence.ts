@@ -6,7 +6,7 @@ import { tabSessionId } from '../utils/tabSessionId';
 import type { AssignedPilotsRecord } from '../types/MissionPrepTypes';
 import type { MissionCommanderInfo } from '../types/MissionCommanderTypes';
 import type { Event } from '../types/EventTypes';
-import type { Mission, MissionFlight, PilotAssignment, SupportRoleAssignment } from '../types/MissionTypes';
+import type { Mission, MissionFlight, MissionVersion, PilotAssignment, SupportRoleAssignment } from '../types/MissionTypes';
 
 // Define the structure for the polled attendance data
 interface RealtimeAttendanceRecord {
@@ -41,7 +41,11 @@ export const useMissionPrepDataPersistence = (
     updateSettings,
     updateMissionData,
     createNewMission,
-    setMission: setMissionDirect
+    setMission: setMissionDirect,
+    rebaseMission,
+    pendingMerge,
+    resolveMerge,
+    mergeRevision
   } = useMission(undefined, selectedEvent?.id);
 
   // ── Version tracking for optimistic locking ──
@@ -52,6 +56,9 @@ export const useMissionPrepDataPersistence = (
   // Incremented each time a remote update arrives to force the sync effect to re-run
   const [remoteUpdateTrigger, setRemoteUpdateTrigger] = useState(0);
   const isRemoteUpdateRef = useRef(false);
+  // Set when a remote update arrived while local edits were still unsaved. The UI
+  // isn't re-hydrated until those edits are saved (and merged with it).
+  const deferredRemoteUpdateRef = useRef(false);
 
   // ── Remote support-roles revision ──
   // A narrower counter that only increments when support_role_assignments content
@@ -162,6 +169,11 @@ export const useMissionPrepDataPersistence = (
       missionVersionRef.current = newRow.version;
     }
 
+    // If this tab has unsaved edits, applying the remote copy now would throw them
+    // away. Keep the UI as it is and don't rebase: the pending save is then
+    // version-checked against the old copy and three-way merged with this one.
+    const hasUnsavedEdits = hasPendingChangesRef.current;
+
     // Update the mission object so the sync effect fires with fresh data.
     // We cast the row into a Mission-like shape — convertRowToMission is in missionService
     // but we can do a lightweight update here:
@@ -179,13 +191,18 @@ export const useMissionPrepDataPersistence = (
       mission_settings: typeof newRow.mission_settings === 'object' && newRow.mission_settings !== null ? newRow.mission_settings : mission?.mission_settings,
       miz_file_data: typeof newRow.miz_file_data === 'object' && newRow.miz_file_data !== null ? newRow.miz_file_data : mission?.miz_file_data,
       updated_at: newRow.updated_at || mission?.updated_at || new Date().toISOString()
-    } as Mission);
+    } as Mission, !hasUnsavedEdits);
 
     // Signal the sync effect to re-run. The sync effect only watches mission.id in its
     // deps, so it won't re-run when the same mission's data changes. Incrementing this
     // counter ensures it fires and hydrates the UI from the updated mission object.
-    isRemoteUpdateRef.current = true;
-    setRemoteUpdateTrigger(prev => prev + 1);
+    if (hasUnsavedEdits) {
+      console.log('[REALTIME] Unsaved local edits — deferring re-hydration until they are saved and merged');
+      deferredRemoteUpdateRef.current = true;
+    } else {
+      isRemoteUpdateRef.current = true;
+      setRemoteUpdateTrigger(prev => prev + 1);
+    }
 
     // Only signal MissionSupportAssignments when support_role_assignments content
     // actually changed. This breaks the inter-session ping-pong where pilot_assignments
@@ -542,7 +559,10 @@ export const useMissionPrepDataPersistence = (
           stepTime: flightData.stepTime || 0,
           creationOrder: flightData.creationOrder || index,
           // Preserve any additional metadata
-          metadata: flightData.metadata
+          metadata: flightData.metadata,
+          // Steerpoints and loadout decoded at .miz import
+          route: Array.isArray(flightData.route) ? flightData.route : undefined,
+          loadout: Array.isArray(flightData.loadout) ? flightData.loadout : undefined
         };
       });
       
@@ -728,6 +748,26 @@ export const useMissionPrepDataPersistence = (
     }
   }, [saveTimeout]);
 
+  // A save was merged with another planner's changes — re-hydrate the UI from the
+  // merged mission the same way a remote update does
+  useEffect(() => {
+    if (mergeRevision === 0) return;
+    deferredRemoteUpdateRef.current = false;
+    isRemoteUpdateRef.current = true;
+    setRemoteUpdateTrigger(prev => prev + 1);
+  }, [mergeRevision]);
+
+  // Apply a deferred remote update once the local edits have been saved without
+  // needing a merge (e.g. they didn't touch a merged field), unless the user is
+  // still resolving conflicts
+  useEffect(() => {
+    if (hasPendingChanges || pendingMerge || !deferredRemoteUpdateRef.current) return;
+    deferredRemoteUpdateRef.current = false;
+    rebaseMission();
+    isRemoteUpdateRef.current = true;
+    setRemoteUpdateTrigger(prev => prev + 1);
+  }, [hasPendingChanges, pendingMerge, rebaseMission]);
+
   // Monitor for drag completion and execute queued operations
   useEffect(() => {
     if (!isDragInProgress && pendingOperations.length > 0) {
@@ -1181,6 +1221,8 @@ export const useMissionPrepDataPersistence = (
         midsA: "",
         midsB: "",
         creationOrder: index,
+        route: extractedFlight.route,
+        loadout: extractedFlight.loadout,
         extractedFlightData: extractedFlight
       };
     });
@@ -1250,6 +1292,8 @@ export const useMissionPrepDataPersistence = (
     forceSavePendingChanges,
     remoteUpdateTrigger,
     remoteSupportRolesRevision,
+    pendingMerge,
+    resolveMerge,
 
     // Additional helpers
     updateSelectedSquadrons: (squadrons: string[]) => {
@@ -1273,6 +1317,27 @@ export const useMissionPrepDataPersistence = (
       return Promise.resolve(false);
     },
 
+    // Save a prior version's flights and assignments as the current state, then
+    // re-hydrate the UI from it the same way a remote update does. Any pending
+    // local edit is saved first so it is kept in the history too.
+    restoreMissionVersion: async (version: MissionVersion) => {
+      if (!mission) return false;
+      await forceSavePendingChanges();
+
+      const result = await updateMissionData({
+        flights: version.flights,
+        pilot_assignments: version.pilot_assignments,
+        support_role_assignments: version.support_role_assignments
+      });
+      if (result.error) return false;
+
+      isRemoteUpdateRef.current = true;
+      setRemoteUpdateTrigger(prev => prev + 1);
+      lastRemoteSupportRolesHashRef.current = JSON.stringify(version.support_role_assignments);
+      setRemoteSupportRolesRevision(prev => prev + 1);
+      return true;
+    },
+
     updateSupportRoles: (roles: SupportRoleAssignment[]) => {
       if (mission) {
         return updateSupportRoles(roles);
@@ -22,11 +22,20 @@ interface UseMissionRealtimeConfig {
   currentUserName: string | undefined;
   /** Whether the hook is enabled (e.g. set false during initial load) */
   enabled?: boolean;
+  /** Table to watch for changes. Defaults to the missions row itself. */
+  table?: string;
+  /** Column the mission ID is matched against. Defaults to `id`. */
+  filterColumn?: string;
+  /** Change events to listen for. Defaults to UPDATE only. */
+  event?: 'UPDATE' | '*';
+  /** Channel name prefix, so separate views of a mission get separate presence. */
+  channelPrefix?: string;
 }
 
 /**
  * Hook that subscribes to Supabase Realtime for:
- * 1. postgres_changes on the missions table (filtered to a single mission)
+ * 1. postgres_changes on the missions table (filtered to a single mission),
+ *    or on another mission-keyed table when `table`/`filterColumn` are given
  * 2. Presence tracking (who's editing this mission)
  *
  * Uses Supabase's built-in Presence feature on the channel —
@@ -37,7 +46,11 @@ export const useMissionRealtime = ({
   onRemoteMissionUpdate,
   currentUserId,
   currentUserName,
-  enabled = true
+  enabled = true,
+  table = 'missions',
+  filterColumn = 'id',
+  event = 'UPDATE',
+  channelPrefix = 'mission-collab'
 }: UseMissionRealtimeConfig) => {
   const channelRef = useRef<RealtimeChannel | null>(null);
   const [isConnected, setIsConnected] = useState(false);
@@ -73,22 +86,25 @@ export const useMissionRealtime = ({
       return;
     }
 
-    const channelName = `mission-collab:${missionId}`;
+    const channelName = `${channelPrefix}:${missionId}`;
     const channel = supabase.channel(channelName, {
       config: { presence: { key: currentUserId } }
     });
 
-    // Listen for postgres_changes on this mission row
+    // Listen for postgres_changes on this mission's row
     channel.on(
       'postgres_changes',
       {
-        event: 'UPDATE',
+        event: event as '*',
         schema: 'public',
-        table: 'missions',
-        filter: `id=eq.${missionId}`
+        table,
+        filter: `${filterColumn}=eq.${missionId}`
       },
       (payload) => {
-        onRemoteUpdateRef.current(payload.new);
+        // DELETE payloads carry an empty `new` record
+        if (payload.new && Object.keys(payload.new).length > 0) {
+          onRemoteUpdateRef.current(payload.new);
+        }
       }
     );
 
@@ -131,7 +147,7 @@ export const useMissionRealtime = ({
       setActiveUsers([]);
     };
     // Only re-subscribe when these values change
-  }, [missionId, currentUserId, currentUserName, enabled]);
+  }, [missionId, currentUserId, currentUserName, enabled, table, filterColumn, event, channelPrefix]);
 
   return { isConnected, activeUsers, updatePresence };
 };
@@ -0,0 +1,263 @@
+import { supabase } from '../utils/supabaseClient';
+import { getAccessToken, uploadToR2 } from '../utils/r2StorageService';
+import type { MissionFlight, PilotAssignment } from '../types/MissionTypes';
+import type {
+  MissionObjective,
+  MissionOutcome,
+  PerformanceRatings
+} from '../types/DebriefingTypes';
+
+export interface AarKillLine {
+  unitName: string;
+  category: string | null; // A2A, A2G, A2S
+  count: number;
+  isFriendly: boolean;
+}
+
+export interface AarPilotLine {
+  pilotId: string;
+  dashNumber: string;
+  boardNumber: string;
+  callsign: string;
+  rollCall: PilotAssignment['roll_call_status'];
+  pilotStatus: 'alive' | 'mia' | 'kia' | null;
+  aircraftStatus: 'recovered' | 'damaged' | 'destroyed' | 'down' | null;
+  kills: AarKillLine[];
+}
+
+export interface AarFlight {
+  flightId: string;
+  callsign: string;
+  aircraftType: string;
+  squadronId: string | null;
+  flightLead: string | null;
+  flightStatus: string | null;
+  debriefStatus: string | null; // null when no AAR was filed
+  submittedAt: string | null;
+  ratings: Partial<PerformanceRatings> | null;
+  lessonsLearned: string | null;
+  pilots: AarPilotLine[];
+}
+
+export interface AarSquadron {
+  id: string;
+  designation: string;
+  name: string;
+  insigniaUrl: string | null;
+}
+
+export interface MissionAarData {
+  missionId: string;
+  missionName: string;
+  eventName: string | null;
+  eventStart: string | null;
+  outcome: MissionOutcome;
+  debriefStatus: string | null;
+  finalizedAt: string | null;
+  objectives: MissionObjective[];
+  squadrons: AarSquadron[];
+  flights: AarFlight[];
+  totals: {
+    sorties: number;
+    kills: number;
+    friendlyKills: number;
+    losses: number;
+    pilotsLost: number;
+  };
+}
+
+/**
+ * Service for compiling a mission's debrief into a formal after-action
+ * report, and storing the generated document for sharing
+ */
+class AarExportService {
+  /**
+   * Everything the AAR document shows, in mission flight order
+   */
+  async getMissionAarData(missionId: string): Promise<MissionAarData> {
+    const { data: mission, error: missionError } = await supabase
+      .from('missions')
+      .select('id, name, event_id, flights, pilot_assignments')
+      .eq('id', missionId)
+      .single();
+
+    if (missionError) {
+      throw new Error(`Failed to fetch mission: ${missionError.message}`);
+    }
+
+    const [eventResult, debriefResult] = await Promise.all([
+      mission.event_id
+        ? supabase.from('events').select('name, start_datetime').eq('id', mission.event_id).maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+      supabase.from('mission_debriefings').select('*').eq('mission_id', missionId).maybeSingle()
+    ]);
+
+    if (debriefResult.error) {
+      throw new Error(`Failed to fetch mission debrief: ${debriefResult.error.message}`);
+    }
+
+    const debrief = debriefResult.data;
+    const { data: flightDebriefs, error: flightDebriefsError } = debrief
+      ? await supabase
+          .from('flight_debriefs')
+          .select('id, flight_id, squadron_id, flight_lead_pilot_id, flight_status, status, submitted_at, performance_ratings, key_lessons_learned')
+          .eq('mission_debriefing_id', debrief.id)
+      : { data: [], error: null };
+
+    if (flightDebriefsError) {
+      throw new Error(`Failed to fetch flight debriefs: ${flightDebriefsError.message}`);
+    }
+
+    const { data: pilotKills, error: killsError } = flightDebriefs && flightDebriefs.length > 0
+      ? await supabase
+          .from('pilot_kills')
+          .select('pilot_id, pilot_status, aircraft_status, kills_detail')
+          .in('flight_debrief_id', flightDebriefs.map(fd => fd.id))
+      : { data: [], error: null };
+
+    if (killsError) {
+      throw new Error(`Failed to fetch pilot kills: ${killsError.message}`);
+    }
+
+    const flights = (Array.isArray(mission.flights) ? mission.flights : []) as unknown as MissionFlight[];
+    const assignments = (mission.pilot_assignments || {}) as unknown as Record<string, PilotAssignment[]>;
+    const pilotIds = [...new Set([
+      ...Object.values(assignments).flat().map(a => a.pilot_id),
+      ...(flightDebriefs || []).map(fd => fd.flight_lead_pilot_id)
+    ].filter(Boolean))];
+
+    type KillDetail = { unit_type_id: string; kill_count: number; is_friendly?: boolean };
+    const unitTypeIds = [...new Set((pilotKills || []).flatMap(record =>
+      ((record.kills_detail || []) as unknown as KillDetail[]).map(k => k.unit_type_id)
+    ))];
+
+    const squadronIds = [...new Set([
+      ...flights.map(f => f.squadron_id),
+      ...(flightDebriefs || []).map(fd => fd.squadron_id)
+    ].filter((id): id is string => !!id))];
+
+    const [pilotsResult, unitTypesResult, squadronsResult] = await Promise.all([
+      pilotIds.length > 0
+        ? supabase.from('pilots').select('id, callsign, boardNumber').in('id', pilotIds)
+        : Promise.resolve({ data: [], error: null }),
+      unitTypeIds.length > 0
+        ? supabase.from('dcs_unit_types').select('id, type_name, display_name, kill_category').in('id', unitTypeIds)
+        : Promise.resolve({ data: [], error: null }),
+      squadronIds.length > 0
+        ? supabase.from('org_squadrons').select('id, designation, name, insignia_url').in('id', squadronIds)
+        : Promise.resolve({ data: [], error: null })
+    ]);
+
+    if (pilotsResult.error) {
+      throw new Error(`Failed to fetch pilots: ${pilotsResult.error.message}`);
+    }
+    if (unitTypesResult.error) {
+      throw new Error(`Failed to fetch unit types: ${unitTypesResult.error.message}`);
+    }
+    if (squadronsResult.error) {
+      throw new Error(`Failed to fetch squadrons: ${squadronsResult.error.message}`);
+    }
+
+    const pilotsById = new Map((pilotsResult.data || []).map(p => [p.id, p]));
+    const unitTypesById = new Map((unitTypesResult.data || []).map(u => [u.id, u]));
+    const killsByPilot = new Map((pilotKills || []).map(record => [record.pilot_id, record]));
+    const debriefsByFlight = new Map((flightDebriefs || []).map(fd => [fd.flight_id, fd]));
+
+    const totals = { sorties: 0, kills: 0, friendlyKills: 0, losses: 0, pilotsLost: 0 };
+    const aarFlights: AarFlight[] = flights
+      .filter(flight => (assignments[flight.id] || []).length > 0 || debriefsByFlight.has(flight.id))
+      .map(flight => {
+        const flightDebrief = debriefsByFlight.get(flight.id);
+        const pilots: AarPilotLine[] = [...(assignments[flight.id] || [])]
+          .sort((a, b) => a.dash_number.localeCompare(b.dash_number, undefined, { numeric: true }))
+          .map(assignment => {
+            const pilot = pilotsById.get(assignment.pilot_id);
+            const record = killsByPilot.get(assignment.pilot_id);
+            const kills = ((record?.kills_detail || []) as unknown as KillDetail[]).map(kill => {
+              const unitType = unitTypesById.get(kill.unit_type_id);
+              return {
+                unitName: unitType?.display_name || unitType?.type_name || 'Unknown unit',
+                category: unitType?.kill_category || null,
+                count: kill.kill_count,
+                isFriendly: !!kill.is_friendly
+              };
+            });
+
+            if (flightDebrief?.flight_status !== 'scrubbed') {
+              totals.sorties++;
+              kills.forEach(kill => {
+                if (kill.isFriendly) totals.friendlyKills += kill.count;
+                else totals.kills += kill.count;
+              });
+              if (record?.aircraft_status === 'destroyed' || record?.aircraft_status === 'down') totals.losses++;
+              if (record?.pilot_status === 'kia' || record?.pilot_status === 'mia') totals.pilotsLost++;
+            }
+
+            return {
+              pilotId: assignment.pilot_id,
+              dashNumber: assignment.dash_number,
+              boardNumber: pilot ? String(pilot.boardNumber) : '',
+              callsign: pilot?.callsign || 'Unknown',
+              rollCall: assignment.roll_call_status ?? null,
+              pilotStatus: (record?.pilot_status as AarPilotLine['pilotStatus']) || null,
+              aircraftStatus: (record?.aircraft_status as AarPilotLine['aircraftStatus']) || null,
+              kills
+            };
+          });
+
+        const lead = flightDebrief ? pilotsById.get(flightDebrief.flight_lead_pilot_id) : undefined;
+        return {
+          flightId: flight.id,
+          callsign: flight.callsign,
+          aircraftType: flight.aircraft_type,
+          squadronId: flight.squadron_id || flightDebrief?.squadron_id || null,
+          flightLead: lead ? `${lead.boardNumber} ${lead.callsign}` : null,
+          flightStatus: flightDebrief?.flight_status || null,
+          debriefStatus: flightDebrief?.status || null,
+          submittedAt: flightDebrief?.submitted_at || null,
+          ratings: (flightDebrief?.performance_ratings as unknown as Partial<PerformanceRatings>) || null,
+          lessonsLearned: flightDebrief?.key_lessons_learned || null,
+          pilots
+        };
+      });
+
+    return {
+      missionId,
+      missionName: mission.name,
+      eventName: eventResult.data?.name || null,
+      eventStart: eventResult.data?.start_datetime || null,
+      outcome: (debrief?.mission_outcome as MissionOutcome) || 'pending',
+      debriefStatus: debrief?.status || null,
+      finalizedAt: debrief?.finalized_at || null,
+      objectives: (debrief?.mission_objectives as unknown as MissionObjective[]) || [],
+      squadrons: (squadronsResult.data || []).map(s => ({
+        id: s.id,
+        designation: s.designation,
+        name: s.name,
+        insigniaUrl: s.insignia_url
+      })),
+      flights: aarFlights,
+      totals
+    };
+  }
+
+  /**
+   * Upload a generated AAR document to R2 and return its public URL
+   */
+  async uploadAarDocument(missionId: string, pdf: Blob, fileName: string): Promise<string> {
+    const accessToken = await getAccessToken();
+    if (!accessToken) {
+      throw new Error('Not signed in');
+    }
+
+    const file = new File([pdf], fileName, { type: 'application/pdf' });
+    const { url, error } = await uploadToR2(file, `debriefs/${missionId}/${Date.now()}-${fileName}`, accessToken);
+    if (error || !url) {
+      throw new Error(`Failed to upload AAR: ${error || 'no URL returned'}`);
+    }
+
+    return url;
+  }
+}
+
+export const aarExportService = new AarExportService();
@@ -0,0 +1,279 @@
+import { supabase } from '../utils/supabaseClient';
+import {
+  PERFORMANCE_CATEGORIES,
+  type CycleDebriefAnalytics,
+  type DebriefTimelinessSummary,
+  type DebriefTrendPoint,
+  type KillLossSummary,
+  type PerformanceCategoryKey,
+  type PerformanceStatistics
+} from '../types/DebriefingTypes';
+import type { MissionFlight } from '../types/MissionTypes';
+
+// AARs submitted within this many hours of the event ending count as on time
+export const AAR_DUE_HOURS = 24;
+
+type KillDetail = { unit_type_id: string; kill_count: number; is_friendly?: boolean };
+
+const emptyKillLoss = (key: string, label: string): KillLossSummary => ({
+  key,
+  label,
+  sorties: 0,
+  kills: 0,
+  friendlyKills: 0,
+  losses: 0,
+  pilotsLost: 0,
+  killLossRatio: null
+});
+
+/**
+ * Service for debrief analytics across every mission in a cycle, so trends
+ * that a single mission summary can't show stand out (a category that keeps
+ * getting UNSATs, a squadron that keeps losing aircraft, late AARs).
+ */
+class DebriefAnalyticsService {
+  async getCycleAnalytics(cycleId: string): Promise<CycleDebriefAnalytics> {
+    const empty: CycleDebriefAnalytics = {
+      missionCount: 0,
+      flightCount: 0,
+      categoryStats: [],
+      bySquadron: [],
+      byAircraftType: [],
+      trend: [],
+      timeliness: []
+    };
+
+    const { data: events, error: eventsError } = await supabase
+      .from('events')
+      .select('id, start_datetime, end_datetime')
+      .eq('cycle_id', cycleId);
+
+    if (eventsError) {
+      throw new Error(`Failed to fetch cycle events: ${eventsError.message}`);
+    }
+    if (!events || events.length === 0) return empty;
+
+    const eventsById = new Map(events.map(e => [e.id, e]));
+    const { data: missions, error: missionsError } = await supabase
+      .from('missions')
+      .select('id, name, event_id, flights, pilot_assignments')
+      .in('event_id', events.map(e => e.id))
+      .neq('status', 'cancelled');
+
+    if (missionsError) {
+      throw new Error(`Failed to fetch cycle missions: ${missionsError.message}`);
+    }
+    if (!missions || missions.length === 0) return empty;
+
+    const { data: missionDebriefs, error: missionDebriefsError } = await supabase
+      .from('mission_debriefings')
+      .select('id, mission_id')
+      .in('mission_id', missions.map(m => m.id));
+
+    if (missionDebriefsError) {
+      throw new Error(`Failed to fetch mission debriefs: ${missionDebriefsError.message}`);
+    }
+
+    const missionIdByDebrief = new Map((missionDebriefs || []).map(d => [d.id, d.mission_id]));
+    const { data: flightDebriefs, error: flightDebriefsError } = missionIdByDebrief.size > 0
+      ? await supabase
+          .from('flight_debriefs')
+          .select('id, mission_debriefing_id, flight_id, squadron_id, flight_status, performance_ratings, submitted_at')
+          .in('mission_debriefing_id', [...missionIdByDebrief.keys()])
+      : { data: [], error: null };
+
+    if (flightDebriefsError) {
+      throw new Error(`Failed to fetch flight debriefs: ${flightDebriefsError.message}`);
+    }
+
+    const { data: pilotKills, error: killsError } = flightDebriefs && flightDebriefs.length > 0
+      ? await supabase
+          .from('pilot_kills')
+          .select('flight_debrief_id, pilot_status, aircraft_status, kills_detail')
+          .in('flight_debrief_id', flightDebriefs.map(fd => fd.id))
+      : { data: [], error: null };
+
+    if (killsError) {
+      throw new Error(`Failed to fetch pilot kills: ${killsError.message}`);
+    }
+
+    // Missions of events that haven't started yet are planned, not flown, so
+    // their sorties would only water down the rates
+    const now = Date.now();
+    const startedMissions = missions.filter(mission => {
+      const start = mission.event_id ? eventsById.get(mission.event_id)?.start_datetime : null;
+      return !start || new Date(start).getTime() <= now;
+    });
+
+    // Flights that flew, per mission, from the mission's own assignments
+    const flown: Array<{ missionId: string; flightId: string; squadronId: string | null; aircraftType: string; sorties: number }> = [];
+    startedMissions.forEach(mission => {
+      const assignments = (mission.pilot_assignments || {}) as unknown as Record<string, unknown[]>;
+      const flights = Array.isArray(mission.flights) ? mission.flights as unknown as MissionFlight[] : [];
+      flights.forEach(flight => {
+        const sorties = Array.isArray(assignments[flight.id]) ? assignments[flight.id].length : 0;
+        if (sorties === 0) return;
+        flown.push({
+          missionId: mission.id,
+          flightId: flight.id,
+          squadronId: flight.squadron_id || null,
+          aircraftType: flight.aircraft_type || 'Unknown',
+          sorties
+        });
+      });
+    });
+
+    const debriefByFlight = new Map((flightDebriefs || []).map(fd => [`${missionIdByDebrief.get(fd.mission_debriefing_id)}|${fd.flight_id}`, fd]));
+    const killsByDebrief = new Map<string, typeof pilotKills>();
+    (pilotKills || []).forEach(record => {
+      killsByDebrief.set(record.flight_debrief_id, [...(killsByDebrief.get(record.flight_debrief_id) || []), record]);
+    });
+
+    const squadronIds = [...new Set([
+      ...flown.map(f => f.squadronId),
+      ...(flightDebriefs || []).map(fd => fd.squadron_id)
+    ].filter((id): id is string => !!id))];
+    const { data: squadrons } = squadronIds.length > 0
+      ? await supabase.from('org_squadrons').select('id, designation, name').in('id', squadronIds)
+      : { data: [] };
+    const squadronLabel = (id: string) => {
+      const squadron = (squadrons || []).find(s => s.id === id);
+      return squadron ? `${squadron.designation} ${squadron.name}` : 'Unknown Squadron';
+    };
+
+    const bySquadron = new Map<string, KillLossSummary>();
+    const byAircraftType = new Map<string, KillLossSummary>();
+    const trendByMission = new Map<string, DebriefTrendPoint>();
+    const timeliness = new Map<string, DebriefTimelinessSummary & { totalHours: number; submittedCount: number }>();
+    const categoryCounts = new Map<PerformanceCategoryKey, { sat: number; unsat: number }>();
+
+    flown.forEach(flight => {
+      const debrief = debriefByFlight.get(`${flight.missionId}|${flight.flightId}`);
+      if (debrief?.flight_status === 'scrubbed') return;
+      const squadronId = flight.squadronId || debrief?.squadron_id || 'unassigned';
+      const mission = missions.find(m => m.id === flight.missionId)!;
+      const event = mission.event_id ? eventsById.get(mission.event_id) : undefined;
+
+      // Kills and losses reported for the flight
+      let kills = 0;
+      let friendlyKills = 0;
+      let losses = 0;
+      let pilotsLost = 0;
+      (debrief ? killsByDebrief.get(debrief.id) || [] : []).forEach(record => {
+        const details = Array.isArray(record.kills_detail) ? record.kills_detail as unknown as KillDetail[] : [];
+        details.forEach(kill => {
+          if (kill.is_friendly) friendlyKills += kill.kill_count;
+          else kills += kill.kill_count;
+        });
+        if (record.aircraft_status === 'destroyed' || record.aircraft_status === 'down') losses++;
+        if (record.pilot_status === 'kia' || record.pilot_status === 'mia') pilotsLost++;
+      });
+
+      const add = (summary: KillLossSummary | DebriefTrendPoint) => {
+        summary.sorties += flight.sorties;
+        summary.kills += kills;
+        summary.friendlyKills += friendlyKills;
+        summary.losses += losses;
+        summary.pilotsLost += pilotsLost;
+      };
+      if (!bySquadron.has(squadronId)) bySquadron.set(squadronId, emptyKillLoss(squadronId, squadronLabel(squadronId)));
+      add(bySquadron.get(squadronId)!);
+      if (!byAircraftType.has(flight.aircraftType)) byAircraftType.set(flight.aircraftType, emptyKillLoss(flight.aircraftType, flight.aircraftType));
+      add(byAircraftType.get(flight.aircraftType)!);
+
+      if (debrief) {
+        if (!trendByMission.has(mission.id)) {
+          trendByMission.set(mission.id, {
+            missionId: mission.id,
+            missionName: mission.name,
+            date: event?.start_datetime || '',
+            sorties: 0,
+            kills: 0,
+            friendlyKills: 0,
+            losses: 0,
+            pilotsLost: 0
+          });
+        }
+        add(trendByMission.get(mission.id)!);
+
+        const ratings = (debrief.performance_ratings || {}) as Record<string, { rating?: string }>;
+        (Object.keys(PERFORMANCE_CATEGORIES) as PerformanceCategoryKey[]).forEach(key => {
+          const rating = ratings[key]?.rating?.toUpperCase();
+          if (rating !== 'SAT' && rating !== 'UNSAT') return;
+          const counts = categoryCounts.get(key) || { sat: 0, unsat: 0 };
+          if (rating === 'SAT') counts.sat++;
+          else counts.unsat++;
+          categoryCounts.set(key, counts);
+        });
+      }
+
+      // AAR timeliness, measured from the end of the event. Flights still
+      // inside the window without an AAR are not due yet, so they're left out.
+      const missionEnd = event?.end_datetime ? new Date(event.end_datetime).getTime() : null;
+      const dueAt = missionEnd === null ? null : missionEnd + AAR_DUE_HOURS * 3600000;
+      if (!debrief?.submitted_at && dueAt !== null && now < dueAt) return;
+
+      if (!timeliness.has(squadronId)) {
+        timeliness.set(squadronId, {
+          squadronId,
+          squadronName: squadronLabel(squadronId),
+          expected: 0,
+          onTime: 0,
+          late: 0,
+          missing: 0,
+          unknown: 0,
+          averageHoursToSubmit: null,
+          totalHours: 0,
+          submittedCount: 0
+        });
+      }
+      const entry = timeliness.get(squadronId)!;
+      entry.expected++;
+      if (missionEnd === null) {
+        // Without an end time there's no due date to measure against
+        entry.unknown++;
+      } else if (!debrief?.submitted_at) {
+        entry.missing++;
+      } else {
+        const hours = Math.max(0, (new Date(debrief.submitted_at).getTime() - missionEnd) / 3600000);
+        entry.totalHours += hours;
+        entry.submittedCount++;
+        if (hours <= AAR_DUE_HOURS) entry.onTime++;
+        else entry.late++;
+      }
+    });
+
+    const withRatio = (summary: KillLossSummary) => ({
+      ...summary,
+      killLossRatio: summary.losses > 0 ? summary.kills / summary.losses : null
+    });
+
+    const categoryStats: PerformanceStatistics[] = (Object.keys(PERFORMANCE_CATEGORIES) as PerformanceCategoryKey[]).map(category => {
+      const counts = categoryCounts.get(category) || { sat: 0, unsat: 0 };
+      const total = counts.sat + counts.unsat;
+      return {
+        category,
+        sat_count: counts.sat,
+        unsat_count: counts.unsat,
+        sat_percentage: total > 0 ? (counts.sat / total) * 100 : 0
+      };
+    });
+
+    return {
+      missionCount: startedMissions.length,
+      flightCount: flown.length,
+      categoryStats,
+      bySquadron: [...bySquadron.values()].map(withRatio).sort((a, b) => a.label.localeCompare(b.label)),
+      byAircraftType: [...byAircraftType.values()].map(withRatio).sort((a, b) => b.sorties - a.sorties),
+      trend: [...trendByMission.values()].sort((a, b) => a.date.localeCompare(b.date)),
+      timeliness: [...timeliness.values()]
+        .map(({ totalHours, submittedCount, ...entry }) => ({
+          ...entry,
+          averageHoursToSubmit: submittedCount > 0 ? totalHours / submittedCount : null
+        }))
+        .sort((a, b) => a.squadronName.localeCompare(b.squadronName))
+    };
+  }
+}
+
+export const debriefAnalyticsService = new DebriefAnalyticsService();
@@ -1,9 +1,28 @@
 import { supabase } from '../utils/supabaseClient';
+import { killTrackingService } from './killTrackingService';
+import { parseServerEventLog } from '../utils/serverEventLogParser';
+import {
+  formatRecordingTime,
+  matchDebriefPilot,
+  toPilotMissionStatus,
+  addKillTally,
+  type DebriefImportPilot,
+  type DebriefKillTally
+} from '../utils/debriefImportUtils';
+import { assessMissionObjectives, deriveMissionOutcome } from '../utils/missionObjectiveUtils';
 import type {
   MissionDebriefing,
   FlightDebrief,
-  DebriefDelegation
+  DebriefDelegation,
+  DebriefImportProposals,
+  MissionObjective,
+  ProposedPilotStatus
 } from '../types/DebriefingTypes';
+import type { MissionSettings } from '../types/MissionTypes';
+import type { Json } from '../types/supabase';
+
+// Worst outcome wins when a pilot has several lives in one log
+const STATUS_SEVERITY: Record<ProposedPilotStatus['pilotStatus'], number> = { alive: 0, mia: 1, kia: 2 };
 
 /**
  * Service for managing mission debriefings
@@ -68,7 +87,8 @@ class DebriefingService {
   }
 
   /**
-   * Update mission outcome
+   * Update mission outcome by hand. Objective assessment leaves a manual
+   * outcome alone; setting it back to pending hands it to the objectives again.
    */
   async updateMissionOutcome(
     missionDebriefId: string,
@@ -76,7 +96,7 @@ class DebriefingService {
   ): Promise<MissionDebriefing> {
     const { data, error } = await supabase
       .from('mission_debriefings')
-      .update({ mission_outcome: outcome })
+      .update({ mission_outcome: outcome, mission_outcome_manual: outcome !== 'pending' })
       .eq('id', missionDebriefId)
       .select()
       .single();
@@ -88,6 +108,228 @@ class DebriefingService {
     return data as MissionDebriefing;
   }
 
+  /**
+   * Assess the objectives planned for the mission (mission_settings.objectives)
+   * against the enemy kills recorded so far, and store them on the debrief
+   * together with the mission outcome they give. Stays pending until the
+   * first AAR is submitted. Run when an AAR is saved or on request, not on
+   * every view. Finalized debriefs are returned unchanged, and an outcome
+   * picked by hand is kept. Returns null when no objectives were planned, in
+   * which case the outcome is still set by hand.
+   */
+  async assessMissionObjectives(missionDebriefId: string): Promise<MissionDebriefing | null> {
+    const { data: debrief, error: debriefError } = await supabase
+      .from('mission_debriefings')
+      .select('*')
+      .eq('id', missionDebriefId)
+      .single();
+
+    if (debriefError) {
+      throw new Error(`Failed to get debrief: ${debriefError.message}`);
+    }
+
+    if (debrief.status === 'finalized') {
+      return debrief as MissionDebriefing;
+    }
+
+    const { data: mission, error: missionError } = await supabase
+      .from('missions')
+      .select('mission_settings')
+      .eq('id', debrief.mission_id)
+      .single();
+
+    if (missionError) {
+      throw new Error(`Failed to fetch mission: ${missionError.message}`);
+    }
+
+    const settings = mission.mission_settings as MissionSettings | null;
+    const planned = settings?.objectives || [];
+    if (planned.length === 0) return null;
+
+    const { data: flightDebriefs, error: flightDebriefsError } = await supabase
+      .from('flight_debriefs')
+      .select('id, submitted_at')
+      .eq('mission_debriefing_id', missionDebriefId);
+
+    if (flightDebriefsError) {
+      throw new Error(`Failed to fetch flight debriefs: ${flightDebriefsError.message}`);
+    }
+
+    let objectives: MissionObjective[] = planned.map(objective => ({ ...objective, status: 'pending', destroyed_count: undefined }));
+    if ((flightDebriefs || []).some(fd => fd.submitted_at)) {
+      const { data: pilotKills, error: killsError } = await supabase
+        .from('pilot_kills')
+        .select('kills_detail')
+        .in('flight_debrief_id', flightDebriefs.map(fd => fd.id));
+
+      if (killsError) {
+        throw new Error(`Failed to fetch pilot kills: ${killsError.message}`);
+      }
+
+      // Enemy kills per unit type id, then per type_name as in the .miz
+      const killsByTypeId: Record<string, number> = {};
+      (pilotKills || []).forEach(record => {
+        const details = (record.kills_detail || []) as Array<{ unit_type_id: string; kill_count: number; is_friendly?: boolean }>;
+        details.forEach(kill => {
+          if (kill.is_friendly) return;
+          killsByTypeId[kill.unit_type_id] = (killsByTypeId[kill.unit_type_id] || 0) + kill.kill_count;
+        });
+      });
+
+      const killsByType: Record<string, number> = {};
+      const typeIds = Object.keys(killsByTypeId);
+      if (typeIds.length > 0) {
+        const { data: unitTypes, error: unitTypesError } = await supabase
+          .from('dcs_unit_types')
+          .select('id, type_name')
+          .in('id', typeIds);
+
+        if (unitTypesError) {
+          throw new Error(`Failed to fetch unit types: ${unitTypesError.message}`);
+        }
+
+        (unitTypes || []).forEach(unitType => {
+          killsByType[unitType.type_name] = (killsByType[unitType.type_name] || 0) + killsByTypeId[unitType.id];
+        });
+      }
+
+      objectives = assessMissionObjectives(planned, killsByType);
+    }
+
+    const { data, error } = await supabase
+      .from('mission_debriefings')
+      .update({
+        mission_objectives: objectives as unknown as Json,
+        ...(debrief.mission_outcome_manual ? {} : { mission_outcome: deriveMissionOutcome(objectives) })
+      })
+      .eq('id', missionDebriefId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save mission objectives: ${error.message}`);
+    }
+
+    return data as MissionDebriefing;
+  }
+
+  /**
+   * Record the Tacview recording uploaded for a mission
+   */
+  async setTacviewRecording(
+    missionDebriefId: string,
+    fileUrl: string,
+    uploadedBy: string
+  ): Promise<MissionDebriefing> {
+    const { data, error } = await supabase
+      .from('mission_debriefings')
+      .update({
+        tacview_file_url: fileUrl,
+        tacview_uploaded_by: uploadedBy,
+        tacview_uploaded_at: new Date().toISOString()
+      })
+      .eq('id', missionDebriefId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save Tacview recording: ${error.message}`);
+    }
+
+    return data as MissionDebriefing;
+  }
+
+  /**
+   * Turn a server event log (JSON lines, see serverEventLogParser) into kill
+   * and status proposals for one flight. S_EVENT_KILL becomes kills against
+   * the initiator; ejections, crashes and landings become pilot/aircraft
+   * status. Nothing is saved until the flight lead confirms the proposals in
+   * the debrief, which stores them as pilot_kills rows.
+   */
+  async importServerEventLog(
+    logText: string,
+    missionDebriefId: string,
+    pilots: DebriefImportPilot[]
+  ): Promise<DebriefImportProposals> {
+    const { events, invalidLines } = parseServerEventLog(logText);
+    const matchedPilots: Record<string, string> = {};
+
+    const pilotFor = (unit: { player?: string; onboard_num?: string } | undefined) => {
+      if (!unit?.player) return null;
+      const pilot = matchDebriefPilot(unit.player, pilots, unit.onboard_num);
+      if (pilot) matchedPilots[pilot.id] = unit.player;
+      return pilot;
+    };
+
+    const tallies = new Map<string, DebriefKillTally>();
+    const outcomes = new Map<string, Omit<ProposedPilotStatus, 'missionStatus'>>();
+    const ejectedThisSortie = new Set<string>();
+
+    const propose = (pilotId: string, outcome: Omit<ProposedPilotStatus, 'missionStatus'>) => {
+      const current = outcomes.get(pilotId);
+      if (!current || STATUS_SEVERITY[outcome.pilotStatus] > STATUS_SEVERITY[current.pilotStatus]) {
+        outcomes.set(pilotId, outcome);
+      }
+    };
+
+    events.forEach(event => {
+      const pilot = pilotFor(event.initiator);
+      if (!pilot) return;
+      const at = formatRecordingTime(event.t);
+
+      switch (event.event) {
+        case 'S_EVENT_KILL': {
+          const typeName = event.target?.type;
+          if (!typeName) return;
+          const isFriendly = !!event.target?.coalition && event.target.coalition === event.initiator.coalition;
+          addKillTally(tallies, pilot.id, typeName, isFriendly);
+          break;
+        }
+        case 'S_EVENT_EJECTION':
+          ejectedThisSortie.add(pilot.id);
+          propose(pilot.id, { pilotId: pilot.id, pilotStatus: 'mia', aircraftStatus: 'destroyed', reason: `Ejected at ${at}` });
+          break;
+        case 'S_EVENT_CRASH':
+          // The aircraft of an ejected pilot crashing afterwards is expected
+          if (!ejectedThisSortie.has(pilot.id)) {
+            propose(pilot.id, { pilotId: pilot.id, pilotStatus: 'kia', aircraftStatus: 'destroyed', reason: `Crashed at ${at} with no ejection` });
+          }
+          break;
+        case 'S_EVENT_LAND':
+          ejectedThisSortie.delete(pilot.id);
+          propose(pilot.id, {
+            pilotId: pilot.id,
+            pilotStatus: 'alive',
+            aircraftStatus: 'recovered',
+            reason: `Landed at ${at}${event.place ? ` on ${event.place}` : ''}`
+          });
+          break;
+      }
+    });
+
+    const { kills, unknownUnitTypes } = await killTrackingService.resolveKillTallies(missionDebriefId, [...tallies.values()]);
+
+    const warnings: string[] = [];
+    if (invalidLines.length > 0) {
+      warnings.push(`${invalidLines.length} line${invalidLines.length === 1 ? '' : 's'} could not be read (line ${invalidLines.slice(0, 5).join(', ')}${invalidLines.length > 5 ? ', ...' : ''})`);
+    }
+    if (events.length === 0) {
+      warnings.push('No kill, ejection, crash or landing events found in the log');
+    }
+
+    return {
+      source: 'server_log',
+      kills,
+      statuses: [...outcomes.values()].map(outcome => ({
+        ...outcome,
+        missionStatus: toPilotMissionStatus(outcome.pilotStatus, outcome.aircraftStatus)
+      })),
+      matchedPilots,
+      unknownUnitTypes,
+      warnings
+    };
+  }
+
   /**
    * Get all flight debriefs for a mission
    */
@@ -1,6 +1,10 @@
-// @ts-nocheck
 import { supabase } from '../utils/supabaseClient';
-import type { AppliedOutcome } from '../types/TrainingTypes';
+import type {
+  AppliedOutcome,
+  GraduationChange,
+  GraduationPreview,
+} from '../types/TrainingTypes';
+import type { Json } from '../types/supabase';
 import type { GraduationSubmission } from '../components/training/GraduationDialog';
 
 interface GraduateParams {
@@ -14,11 +18,28 @@ interface GraduateParams {
   graduationDate?: string;
 }
 
+const qualificationEntries = (outcome: AppliedOutcome) =>
+  (Array.isArray(outcome.value) ? outcome.value : []).map(qual => ({
+    id: typeof qual === 'string' ? qual : qual.id,
+    effectiveDate: typeof qual === 'string' ? outcome.effectiveDate : (qual.effectiveDate || outcome.effectiveDate),
+  }));
+
+// The callsign, standing_id or squadron_id an outcome sets
+const textValue = (outcome: AppliedOutcome) => (typeof outcome.value === 'string' ? outcome.value.trim() : '');
+
+const hasValue = (outcome: AppliedOutcome) =>
+  outcome.type === 'qualifications'
+    ? Array.isArray(outcome.value) && outcome.value.length > 0
+    : !!textValue(outcome);
+
 /**
  * Apply graduation for a single student:
  * 1. Update training_enrollments status to 'graduated'
  * 2. Apply each outcome (callsign, standing, squadron, qualifications)
- * 3. Insert graduation_records audit row
+ * 3. Insert graduation_records audit row, with the prior state for undo
+ *
+ * All of it happens in the graduate_student database function, in one
+ * transaction, so a student is never left half-graduated.
  */
 export async function graduateStudent(params: GraduateParams): Promise<void> {
   const { enrollmentId, cycleId, syllabusId, studentPilotId, graduatedByUserId, outcomes, graduationDate } = params;
@@ -28,118 +49,136 @@ export async function graduateStudent(params: GraduateParams): Promise<void> {
     ? new Date(`${graduationDate}T12:00:00`).toISOString()
     : new Date().toISOString();
 
-  // 1. Mark enrollment as graduated
-  const { error: enrollmentError } = await supabase
-    .from('training_enrollments')
-    .update({
-      status: 'graduated',
-      status_changed_at: new Date().toISOString(),
-      status_changed_by: graduatedByUserId,
-    })
-    .eq('id', enrollmentId);
-
-  if (enrollmentError) throw new Error(`Failed to update enrollment: ${enrollmentError.message}`);
-
-  // 2. Apply each outcome
-  for (const outcome of outcomes) {
-    if (outcome.value === null && outcome.value === undefined) continue;
-
-    switch (outcome.type) {
-      case 'callsign': {
-        if (typeof outcome.value === 'string' && outcome.value.trim()) {
-          const { error } = await supabase
-            .from('pilots')
-            .update({ callsign: outcome.value.trim() })
-            .eq('id', studentPilotId);
-          if (error) throw new Error(`Failed to update callsign: ${error.message}`);
-        }
-        break;
-      }
+  const { error } = await supabase.rpc('graduate_student', {
+    p_enrollment_id: enrollmentId,
+    p_cycle_id: cycleId,
+    p_syllabus_id: syllabusId,
+    p_student_pilot_id: studentPilotId,
+    p_graduated_by: graduatedByUserId,
+    p_graduated_at: graduatedAt,
+    p_outcomes: outcomes.filter(hasValue) as unknown as Json,
+  });
+
+  if (error) throw new Error(`Failed to graduate student: ${error.message}. No changes were kept.`);
+}
 
-      case 'standing': {
-        if (typeof outcome.value === 'string' && outcome.value) {
-          // Close current standing
-          const { error: closeError } = await supabase
-            .from('pilot_standings')
-            .update({ end_date: outcome.effectiveDate })
-            .eq('pilot_id', studentPilotId)
-            .is('end_date', null);
-
-          if (closeError) throw new Error(`Failed to close current standing: ${closeError.message}`);
-
-          // Insert new standing
-          const { error: insertError } = await supabase
-            .from('pilot_standings')
-            .insert({
-              pilot_id: studentPilotId,
-              standing_id: outcome.value,
-              start_date: outcome.effectiveDate,
-            });
+/**
+ * Reverse a student's graduation in a cycle: restore the callsign, standing
+ * and squadron it replaced, remove the qualifications it granted, reopen the
+ * enrollment and delete the graduation record. Refuses when the pilot has
+ * been changed since, rather than overwriting the newer change. Runs in one
+ * transaction in the undo_graduation database function.
+ */
+export async function undoGraduation(studentPilotId: string, cycleId: string): Promise<void> {
+  const { error } = await supabase.rpc('undo_graduation', {
+    p_student_pilot_id: studentPilotId,
+    p_cycle_id: cycleId,
+  });
 
-          if (insertError) throw new Error(`Failed to insert new standing: ${insertError.message}`);
-        }
-        break;
-      }
+  if (error) throw new Error(error.message);
+}
 
-      case 'squadron_assignment': {
-        if (typeof outcome.value === 'string' && outcome.value) {
-          // Close current assignment
-          const { error: closeError } = await supabase
-            .from('pilot_assignments')
-            .update({ end_date: outcome.effectiveDate })
-            .eq('pilot_id', studentPilotId)
-            .is('end_date', null);
-
-          if (closeError) throw new Error(`Failed to close current assignment: ${closeError.message}`);
-
-          // Insert new assignment
-          const { error: insertError } = await supabase
-            .from('pilot_assignments')
-            .insert({
-              pilot_id: studentPilotId,
-              squadron_id: outcome.value,
-              start_date: outcome.effectiveDate,
+/**
+ * Work out what graduating each submission would change, without changing
+ * anything. Per-student problems (no enrollment) are returned as errors.
+ */
+export async function previewGraduation(
+  submissions: GraduationSubmission[],
+  cycleId: string,
+): Promise<GraduationPreview[]> {
+  const studentIds = submissions.map(s => s.studentId);
+  const outcomes = submissions.flatMap(s => s.outcomes);
+  const idsFor = (type: string) => [...new Set(outcomes
+    .filter(o => o.type === type && hasValue(o))
+    .flatMap(o => (o.type === 'qualifications' ? qualificationEntries(o).map(e => e.id) : [textValue(o)])))];
+
+  const [pilotsRes, enrollmentsRes, standingsRes, assignmentsRes, heldQualsRes, standingNamesRes, squadronNamesRes, qualNamesRes] =
+    await Promise.all([
+      supabase.from('pilots').select('id, callsign').in('id', studentIds),
+      supabase
+        .from('training_enrollments')
+        .select('pilot_id, status')
+        .eq('cycle_id', cycleId)
+        .in('pilot_id', studentIds)
+        .in('status', ['active', 'completed']),
+      supabase
+        .from('pilot_standings')
+        .select('pilot_id, standings:standing_id (name)')
+        .in('pilot_id', studentIds)
+        .is('end_date', null),
+      supabase
+        .from('pilot_assignments')
+        .select('pilot_id, org_squadrons:squadron_id (designation)')
+        .in('pilot_id', studentIds)
+        .is('end_date', null),
+      supabase
+        .from('pilot_qualifications')
+        .select('pilot_id, qualification_id')
+        .in('pilot_id', studentIds)
+        .eq('is_current', true),
+      supabase.from('standings').select('id, name').in('id', idsFor('standing')),
+      supabase.from('org_squadrons').select('id, designation').in('id', idsFor('squadron_assignment')),
+      supabase.from('qualifications').select('id, name').in('id', idsFor('qualifications')),
+    ]);
+
+  const firstError = [pilotsRes, enrollmentsRes, standingsRes, assignmentsRes, heldQualsRes].find(r => r.error)?.error;
+  if (firstError) throw new Error(`Failed to load graduation preview: ${firstError.message}`);
+
+  const nameById = new Map<string, string>([
+    ...(standingNamesRes.data || []).map(s => [s.id, s.name] as [string, string]),
+    ...(squadronNamesRes.data || []).map(s => [s.id, s.designation] as [string, string]),
+    ...(qualNamesRes.data || []).map(q => [q.id, q.name] as [string, string]),
+  ]);
+
+  return submissions.map(submission => {
+    const pilotId = submission.studentId;
+    const pilot = (pilotsRes.data || []).find(p => p.id === pilotId);
+    const enrollment = (enrollmentsRes.data || []).find(e => e.pilot_id === pilotId);
+    const currentStanding = (standingsRes.data || []).filter(s => s.pilot_id === pilotId).map(s => s.standings?.name).filter(Boolean).join(', ');
+    const currentSquadron = (assignmentsRes.data || []).filter(a => a.pilot_id === pilotId).map(a => a.org_squadrons?.designation).filter(Boolean).join(', ');
+    const heldQuals = new Set((heldQualsRes.data || []).filter(q => q.pilot_id === pilotId).map(q => q.qualification_id));
+
+    const errors: string[] = [];
+    if (!enrollment) errors.push('No active enrollment found');
+
+    const changes: GraduationChange[] = [
+      { type: 'enrollment', label: 'Enrollment', from: enrollment?.status || null, to: 'graduated' },
+    ];
+
+    for (const outcome of submission.outcomes) {
+      if (!hasValue(outcome)) continue;
+      switch (outcome.type) {
+        case 'callsign':
+          changes.push({
+            type: 'callsign',
+            label: 'Callsign',
+            from: pilot?.callsign || null,
+            to: textValue(outcome),
+            skippedReason: pilot?.callsign === textValue(outcome) ? 'Unchanged' : undefined,
+          });
+          break;
+        case 'standing':
+          changes.push({ type: 'standing', label: `Standing from ${outcome.effectiveDate}`, from: currentStanding || null, to: nameById.get(textValue(outcome)) || textValue(outcome) });
+          break;
+        case 'squadron_assignment':
+          changes.push({ type: 'squadron_assignment', label: `Squadron from ${outcome.effectiveDate}`, from: currentSquadron || null, to: nameById.get(textValue(outcome)) || textValue(outcome) });
+          break;
+        case 'qualifications':
+          qualificationEntries(outcome).forEach(entry => {
+            changes.push({
+              type: 'qualifications',
+              label: `Qualification from ${entry.effectiveDate}`,
+              from: null,
+              to: nameById.get(entry.id) || entry.id,
+              skippedReason: heldQuals.has(entry.id) ? 'Already held' : undefined,
             });
-
-          if (insertError) throw new Error(`Failed to insert new assignment: ${insertError.message}`);
-        }
-        break;
-      }
-
-      case 'qualifications': {
-        if (Array.isArray(outcome.value) && outcome.value.length > 0) {
-          const qualRows = outcome.value.map((qual: any) => ({
-            pilot_id: studentPilotId,
-            qualification_id: typeof qual === 'string' ? qual : qual.id,
-            achieved_date: typeof qual === 'string' ? outcome.effectiveDate : (qual.effectiveDate || outcome.effectiveDate),
-            is_current: true,
-          }));
-
-          const { error } = await supabase
-            .from('pilot_qualifications')
-            .insert(qualRows);
-
-          if (error) throw new Error(`Failed to insert qualifications: ${error.message}`);
-        }
-        break;
+          });
+          break;
       }
     }
-  }
 
-  // 3. Insert graduation audit record
-  const { error: recordError } = await supabase
-    .from('graduation_records')
-    .insert({
-      enrollment_id: enrollmentId,
-      cycle_id: cycleId,
-      syllabus_id: syllabusId,
-      student_pilot_id: studentPilotId,
-      graduated_by: graduatedByUserId,
-      graduated_at: graduatedAt,
-      outcomes_applied: outcomes,
-    });
-
-  if (recordError) throw new Error(`Failed to insert graduation record: ${recordError.message}`);
+    return { studentId: pilotId, callsign: pilot?.callsign || 'Unknown', changes, errors };
+  });
 }
 
 /**
@@ -160,7 +199,8 @@ export async function getEnrollmentId(studentPilotId: string, cycleId: string):
 }
 
 /**
- * Graduate multiple students in sequence
+ * Graduate multiple students in sequence. Each student is all-or-nothing;
+ * one failing doesn't affect the others.
  */
 export async function graduateStudents(
   submissions: GraduationSubmission[],
@@ -191,8 +231,8 @@ export async function graduateStudents(
       });
 
       succeeded.push(submission.studentId);
-    } catch (err: any) {
-      failed.push({ studentId: submission.studentId, error: err.message });
+    } catch (err) {
+      failed.push({ studentId: submission.studentId, error: err instanceof Error ? err.message : String(err) });
     }
   }
 
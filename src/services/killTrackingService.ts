@@ -1,5 +1,6 @@
 import { supabase } from '../utils/supabaseClient';
-import type { PilotKill } from '../types/DebriefingTypes';
+import type { MissionUnitPoolItem, PilotKill, ProposedUnitKill } from '../types/DebriefingTypes';
+import type { DebriefKillTally } from '../utils/debriefImportUtils';
 
 /**
  * Service for tracking pilot kills in debriefs
@@ -234,6 +235,74 @@ class KillTrackingService {
     }
   }
 
+  /**
+   * Look up DCS unit types by type name (as recorded by Tacview or the server
+   * log) and flag which are already in the mission's unit pool. Names with no
+   * matching active unit type are left out of the result.
+   */
+  async resolveUnitTypes(
+    missionDebriefingId: string,
+    typeNames: string[]
+  ): Promise<Map<string, { unit: MissionUnitPoolItem; inUnitPool: boolean }>> {
+    const resolved = new Map<string, { unit: MissionUnitPoolItem; inUnitPool: boolean }>();
+    const uniqueNames = [...new Set(typeNames.filter(Boolean))];
+    if (uniqueNames.length === 0) return resolved;
+
+    const [{ data: units, error: unitsError }, { data: debrief }] = await Promise.all([
+      supabase
+        .from('dcs_unit_types')
+        .select('*')
+        .in('type_name', uniqueNames)
+        .eq('is_active', true),
+      supabase
+        .from('mission_debriefings')
+        .select('unit_type_pool')
+        .eq('id', missionDebriefingId)
+        .maybeSingle()
+    ]);
+
+    if (unitsError) {
+      throw new Error(`Failed to look up unit types: ${unitsError.message}`);
+    }
+
+    const pool = (debrief?.unit_type_pool || []) as unknown as Array<{ unit_type_id: string }>;
+    const poolIds = new Set(pool.map(item => item.unit_type_id));
+    (units || []).forEach(unit => {
+      resolved.set(unit.type_name, { unit: unit as MissionUnitPoolItem, inUnitPool: poolIds.has(unit.id) });
+    });
+    return resolved;
+  }
+
+  /**
+   * Turn imported kill tallies into proposed unit kills. Types missing from
+   * dcs_unit_types come back separately so the flight lead can add them by hand.
+   */
+  async resolveKillTallies(
+    missionDebriefingId: string,
+    tallies: DebriefKillTally[]
+  ): Promise<{ kills: ProposedUnitKill[]; unknownUnitTypes: string[] }> {
+    const unitTypes = await this.resolveUnitTypes(missionDebriefingId, tallies.map(t => t.typeName));
+
+    const kills: ProposedUnitKill[] = [];
+    const unknownUnitTypes = new Set<string>();
+    tallies.forEach(tally => {
+      const resolved = unitTypes.get(tally.typeName);
+      if (!resolved) {
+        unknownUnitTypes.add(tally.typeName);
+        return;
+      }
+      kills.push({
+        pilotId: tally.pilotId,
+        unit: resolved.unit,
+        killCount: tally.count,
+        isFriendly: tally.isFriendly,
+        inUnitPool: resolved.inUnitPool
+      });
+    });
+
+    return { kills, unknownUnitTypes: [...unknownUnitTypes] };
+  }
+
   /**
    * Record unit-specific kills for a pilot (using JSONB structure)
    */
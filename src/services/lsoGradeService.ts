@@ -0,0 +1,221 @@
+import { supabase } from '../utils/supabaseClient';
+import { matchDebriefPilot, type DebriefImportPilot } from '../utils/debriefImportUtils';
+import {
+  formatLsoDeviations,
+  lsoGradePoints,
+  lsoOutcomeType,
+  normalizeLsoGrade,
+  parseLsoDeviations,
+  type ParsedLsoPass
+} from '../utils/lsoGradeParser';
+import type { PilotAssignment } from '../types/MissionTypes';
+import type { Json } from '../types/supabase';
+import type { TrapRecord } from '../utils/dossierService';
+
+// A parsed pass and who it belongs to, for review before importing
+export interface LsoPassMatch {
+  pass: ParsedLsoPass;
+  pilot: DebriefImportPilot | null;
+  passTime: string | null;
+  importKey: string; // Identifies the pass's log line, see passImportKeys
+  duplicate: boolean; // Already imported for this mission
+}
+
+export interface LsoRegrade {
+  grade: string;
+  wireNumber: number | null;
+  grooveTimeSeconds: number | null;
+  deviations: string; // Shorthand, e.g. "(LUL)X _F_IM"
+  isNight: boolean;
+  lsoComment: string | null;
+}
+
+/**
+ * Key each pass by a hash of the log line it came from, numbered when the
+ * same line appears more than once, so re-importing a log (or a longer copy
+ * of it) recognises the passes already stored.
+ */
+const passImportKeys = async (passes: ParsedLsoPass[]): Promise<string[]> => {
+  const seen = new Map<string, number>();
+  return Promise.all(passes.map(async pass => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(pass.sourceLine));
+    const hash = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+    const occurrence = seen.get(hash) ?? 0;
+    seen.set(hash, occurrence + 1);
+    return `${hash}:${occurrence}`;
+  }));
+};
+
+const toImportPilot = (pilot: { id: string; boardNumber: string | number | null; callsign: string }): DebriefImportPilot => ({
+  id: pilot.id,
+  callsign: pilot.callsign || '',
+  boardNumber: pilot.boardNumber != null ? String(pilot.boardNumber) : ''
+});
+
+/**
+ * Service for carrier trap grades. Imported passes are stored without a
+ * grading_lso_id, which is how the trap sheet tells app-sourced passes from
+ * ones graded by a squadron LSO; regrading a pass sets it.
+ */
+class LsoGradeService {
+  /**
+   * Work out which pilot flew each pass. Pilots assigned to the mission are
+   * tried first, by onboard number and then callsign, so a board number
+   * reused in another squadron doesn't steal the pass; anyone left over is
+   * matched against the whole roster.
+   */
+  async matchPasses(missionId: string, passes: ParsedLsoPass[]): Promise<LsoPassMatch[]> {
+    const { data: mission, error: missionError } = await supabase
+      .from('missions')
+      .select(`
+        id,
+        pilot_assignments,
+        events!missions_event_id_fkey(start_datetime)
+      `)
+      .eq('id', missionId)
+      .single();
+
+    if (missionError) {
+      throw new Error(`Failed to get mission: ${missionError.message}`);
+    }
+
+    const assignments = Object.values((mission.pilot_assignments || {}) as unknown as Record<string, PilotAssignment[]>).flat();
+    const assignedIds = [...new Set(assignments.map(a => a.pilot_id).filter(Boolean))];
+
+    let missionPilots: DebriefImportPilot[] = [];
+    if (assignedIds.length > 0) {
+      const { data, error } = await supabase
+        .from('pilots')
+        .select('id, boardNumber, callsign')
+        .in('id', assignedIds);
+      if (error) {
+        throw new Error(`Failed to get mission pilots: ${error.message}`);
+      }
+      missionPilots = (data || []).map(toImportPilot);
+    }
+
+    let rosterPilots: DebriefImportPilot[] | null = null;
+    const matches: LsoPassMatch[] = [];
+    const event = Array.isArray(mission.events) ? mission.events[0] : mission.events;
+    const missionStart = event?.start_datetime ? new Date(event.start_datetime).getTime() : null;
+
+    const importKeys = await passImportKeys(passes);
+    for (const [index, pass] of passes.entries()) {
+      let pilot = matchDebriefPilot(pass.pilotName, missionPilots, pass.onboardNumber);
+      if (!pilot) {
+        if (!rosterPilots) {
+          const { data, error } = await supabase.from('pilots').select('id, boardNumber, callsign');
+          if (error) {
+            throw new Error(`Failed to get pilots: ${error.message}`);
+          }
+          rosterPilots = (data || []).map(toImportPilot);
+        }
+        pilot = matchDebriefPilot(pass.pilotName, rosterPilots, pass.onboardNumber);
+      }
+
+      const passTime = pass.passTime
+        ?? (missionStart !== null ? new Date(missionStart + (pass.missionTime ?? 0) * 1000).toISOString() : null);
+      matches.push({ pass, pilot, passTime, importKey: importKeys[index], duplicate: false });
+    }
+
+    // Flag passes already imported, so loading the same log twice is harmless
+    const { data: existing, error: existingError } = await supabase
+      .from('lso_grades')
+      .select('import_key')
+      .eq('mission_id', missionId)
+      .not('import_key', 'is', null);
+
+    if (existingError) {
+      throw new Error(`Failed to get existing grades: ${existingError.message}`);
+    }
+
+    const existingKeys = new Set((existing || []).map(row => row.import_key));
+    matches.forEach(match => {
+      match.duplicate = existingKeys.has(match.importKey);
+    });
+
+    return matches;
+  }
+
+  /**
+   * Store matched passes as app-sourced grades. Unmatched and duplicate
+   * passes are skipped. Returns the number of passes saved.
+   */
+  async importPasses(missionId: string, matches: LsoPassMatch[]): Promise<number> {
+    const rows = matches
+      .filter(match => match.pilot && !match.duplicate)
+      .map(({ pass, pilot, passTime, importKey }) => ({
+        pilot_id: pilot!.id,
+        mission_id: missionId,
+        pass_time: passTime,
+        overall_grade: pass.grade,
+        grade_points: pass.gradePoints,
+        wire_number: pass.wireNumber,
+        outcome_type: pass.outcomeType,
+        is_night: pass.isNight,
+        groove_time_seconds: pass.grooveTimeSeconds,
+        deviations: pass.deviations as unknown as Json,
+        lso_comment: pass.lsoComment,
+        aircraft_type: pass.aircraftType || null,
+        grading_lso_id: null,
+        import_key: importKey
+      }));
+
+    if (rows.length === 0) return 0;
+
+    // Another LSO may have imported the same log in the meantime; their
+    // passes are skipped and not counted
+    const { data, error } = await supabase
+      .from('lso_grades')
+      .upsert(rows, { onConflict: 'mission_id,import_key', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to save LSO grades: ${error.message}`);
+    }
+
+    return data?.length ?? 0;
+  }
+
+  /**
+   * Regrade a pass as a human LSO. Points and outcome follow the new grade.
+   * The first time an app-sourced pass is regraded its original grade is
+   * kept in the remarks so the change can be seen on the trap sheet.
+   */
+  async regradePass(trap: TrapRecord, update: LsoRegrade, lsoPilotId: string): Promise<TrapRecord> {
+    const grade = normalizeLsoGrade(update.grade);
+    const outcomeType = lsoOutcomeType(grade);
+
+    let remarks = trap.remarks;
+    if (!trap.grading_lso_id && trap.overall_grade) {
+      const original = [trap.overall_grade, formatLsoDeviations(trap.deviations)].filter(Boolean).join(' ');
+      remarks = [`Auto grade: ${original}`, trap.remarks].filter(Boolean).join('. ');
+    }
+
+    const { data, error } = await supabase
+      .from('lso_grades')
+      .update({
+        overall_grade: grade,
+        grade_points: lsoGradePoints(grade),
+        outcome_type: outcomeType,
+        wire_number: outcomeType === 'trap' ? update.wireNumber : null,
+        groove_time_seconds: update.grooveTimeSeconds,
+        deviations: parseLsoDeviations(update.deviations) as unknown as Json,
+        is_night: update.isNight,
+        lso_comment: update.lsoComment,
+        remarks,
+        grading_lso_id: lsoPilotId
+      })
+      .eq('id', trap.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to regrade pass: ${error.message}`);
+    }
+
+    return data as TrapRecord;
+  }
+}
+
+export const lsoGradeService = new LsoGradeService();
@@ -0,0 +1,184 @@
+import JSZip from 'jszip';
+import { killTrackingService } from './killTrackingService';
+import { debriefingService } from './debriefingService';
+import { acmiDistance, acmiTypeTags } from '../utils/acmiParser';
+import { getAccessToken, uploadToR2 } from '../utils/r2StorageService';
+import {
+  formatRecordingTime,
+  matchDebriefPilot,
+  toPilotMissionStatus,
+  addKillTally,
+  type DebriefImportPilot,
+  type DebriefKillTally
+} from '../utils/debriefImportUtils';
+import type { AcmiObject, AcmiRecording } from '../utils/acmiParser';
+import type { DebriefImportProposals, ProposedPilotStatus } from '../types/DebriefingTypes';
+
+// A weapon is credited with a kill when it ends within this distance of the
+// target, from a few seconds before to just after the target is destroyed
+const WEAPON_HIT_RADIUS_M = 500;
+const WEAPON_HIT_WINDOW_S = 5;
+
+// A parachutist appearing this close in time and space to a lost aircraft is
+// taken to be its pilot ejecting
+const EJECTION_WINDOW_S = 20;
+const EJECTION_RADIUS_M = 10000;
+
+const WEAPON_TAGS = ['Weapon', 'Missile', 'Rocket', 'Bomb', 'Projectile', 'Shell'];
+
+const hasTag = (object: AcmiObject, tags: string[]) => acmiTypeTags(object).some(tag => tags.includes(tag));
+const endTime = (object: AcmiObject) => object.removedAt ?? object.lastSeen;
+const coalitionOf = (object: AcmiObject) => object.props.Coalition || object.props.Color || '';
+
+/**
+ * Service for turning Tacview recordings into proposed kills and pilot
+ * statuses for a flight debrief. Nothing is saved here; the flight lead
+ * reviews the proposals and they are stored through the kill tracking card.
+ */
+class TacviewImportService {
+  /**
+   * Build kill and status proposals for one flight from a parsed recording.
+   * Kills are credited through the launching aircraft of the weapon that hit
+   * the target, so gun kills (not exported as objects) aren't picked up.
+   */
+  async buildProposals(
+    recording: AcmiRecording,
+    missionDebriefingId: string,
+    pilots: DebriefImportPilot[]
+  ): Promise<DebriefImportProposals> {
+    const objectsById = new Map(recording.objects.map(o => [o.id, o]));
+
+    // Flight members' aircraft (a pilot can have several after a respawn)
+    const pilotByObjectId = new Map<string, string>();
+    const aircraftByPilot = new Map<string, AcmiObject[]>();
+    const matchedPilots: Record<string, string> = {};
+    recording.objects.forEach(object => {
+      if (!object.props.Pilot || !hasTag(object, ['Air'])) return;
+      const pilot = matchDebriefPilot(object.props.Pilot, pilots, object.props.Registration);
+      if (!pilot) return;
+      pilotByObjectId.set(object.id, pilot.id);
+      aircraftByPilot.set(pilot.id, [...(aircraftByPilot.get(pilot.id) || []), object]);
+      matchedPilots[pilot.id] = object.props.Pilot;
+    });
+
+    const weapons = recording.objects.filter(o => o.props.Parent && o.lastPosition && hasTag(o, WEAPON_TAGS));
+    const parachutists = recording.objects.filter(o => hasTag(o, ['Parachutist']));
+    const destroyedAt = new Map<string, number>();
+    recording.events
+      .filter(event => event.type === 'Destroyed')
+      .forEach(event => event.objectIds.forEach(id => {
+        if (!destroyedAt.has(id)) destroyedAt.set(id, event.time);
+      }));
+
+    // Credit each destroyed target to the flight member whose weapon hit it
+    const tallies = new Map<string, DebriefKillTally>();
+    destroyedAt.forEach((time, targetId) => {
+      const target = objectsById.get(targetId);
+      if (!target?.lastPosition || !target.props.Name) return;
+      if (hasTag(target, [...WEAPON_TAGS, 'Parachutist'])) return;
+
+      let closest: AcmiObject | null = null;
+      let closestDistance = WEAPON_HIT_RADIUS_M;
+      for (const weapon of weapons) {
+        const end = endTime(weapon);
+        if (end < time - WEAPON_HIT_WINDOW_S || end > time + 1) continue;
+        const distance = acmiDistance(weapon.lastPosition!, target.lastPosition);
+        if (distance <= closestDistance) {
+          closest = weapon;
+          closestDistance = distance;
+        }
+      }
+      if (!closest) return;
+
+      const shooterId = closest.props.Parent.toLowerCase();
+      const pilotId = pilotByObjectId.get(shooterId);
+      if (!pilotId || shooterId === targetId) return;
+
+      const shooter = objectsById.get(shooterId);
+      const isFriendly = !!shooter && !!coalitionOf(target) && coalitionOf(target) === coalitionOf(shooter);
+      addKillTally(tallies, pilotId, target.props.Name, isFriendly);
+    });
+
+    const { kills, unknownUnitTypes } = await killTrackingService.resolveKillTallies(missionDebriefingId, [...tallies.values()]);
+
+    // Status from each pilot's worst outcome across their aircraft
+    const landedIds = new Map<string, number>();
+    recording.events
+      .filter(event => event.type === 'Landed')
+      .forEach(event => event.objectIds.forEach(id => landedIds.set(id, event.time)));
+
+    const statuses: ProposedPilotStatus[] = [];
+    aircraftByPilot.forEach((aircraft, pilotId) => {
+      let proposal: Omit<ProposedPilotStatus, 'missionStatus'> | null = null;
+
+      for (const object of aircraft) {
+        const lostAt = destroyedAt.get(object.id);
+        if (lostAt !== undefined) {
+          const ejected = parachutists.some(chute =>
+            Math.abs(chute.firstSeen - lostAt) <= EJECTION_WINDOW_S &&
+            (!chute.lastPosition || !object.lastPosition || acmiDistance(chute.lastPosition, object.lastPosition) <= EJECTION_RADIUS_M)
+          );
+          const candidate = ejected
+            ? { pilotId, pilotStatus: 'mia' as const, aircraftStatus: 'destroyed' as const, reason: `Ejected, aircraft lost at ${formatRecordingTime(lostAt)}` }
+            : { pilotId, pilotStatus: 'kia' as const, aircraftStatus: 'destroyed' as const, reason: `Aircraft destroyed at ${formatRecordingTime(lostAt)} with no ejection` };
+          // A loss without ejection outranks one with it
+          if (!proposal || proposal.pilotStatus !== 'kia') proposal = candidate;
+          continue;
+        }
+
+        const landedAt = landedIds.get(object.id);
+        if (landedAt !== undefined && !proposal) {
+          proposal = { pilotId, pilotStatus: 'alive', aircraftStatus: 'recovered', reason: `Landed at ${formatRecordingTime(landedAt)}` };
+        }
+      }
+
+      if (proposal) {
+        statuses.push({ ...proposal, missionStatus: toPilotMissionStatus(proposal.pilotStatus, proposal.aircraftStatus) });
+      }
+    });
+
+    return {
+      source: 'tacview',
+      kills,
+      statuses,
+      matchedPilots,
+      unknownUnitTypes
+    };
+  }
+
+  /**
+   * Store the recording against the mission debrief. Plain text recordings
+   * are zipped first (Tacview opens .zip.acmi directly, and the storage
+   * worker only accepts known MIME types).
+   */
+  async attachRecording(
+    missionDebriefingId: string,
+    missionId: string,
+    file: File,
+    uploadedByProfileId: string
+  ): Promise<string> {
+    const accessToken = await getAccessToken();
+    if (!accessToken) {
+      throw new Error('Not authenticated');
+    }
+
+    const baseName = file.name.replace(/\.(zip|txt)\.acmi$|\.acmi$/i, '').replace(/[^a-zA-Z0-9._-]/g, '_') || 'recording';
+    let archive: Blob = file;
+    if (!file.name.toLowerCase().endsWith('.zip.acmi')) {
+      const zip = new JSZip();
+      zip.file(`${baseName}.txt.acmi`, file);
+      archive = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+    }
+
+    const zipFile = new File([archive], `${baseName}.zip.acmi`, { type: 'application/zip' });
+    const { url, error } = await uploadToR2(zipFile, `debriefs/${missionId}/${Date.now()}-${baseName}.zip.acmi`, accessToken);
+    if (error || !url) {
+      throw new Error(error || 'Failed to upload Tacview recording');
+    }
+
+    await debriefingService.setTacviewRecording(missionDebriefingId, url, uploadedByProfileId);
+    return url;
+  }
+}
+
+export const tacviewImportService = new TacviewImportService();
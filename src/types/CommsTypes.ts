@@ -33,4 +33,28 @@ export interface CommsPlanEntry {
     }
   
     return baseData;
-  };
\ No newline at end of file
+  };
+
+// Radio/nav station found in a mission file, used to propose a comms plan
+export type CommsStationKind = 'carrier' | 'tanker' | 'awacs' | 'airfield';
+
+export interface CommsStation {
+  kind: CommsStationKind;
+  name: string;
+  freq: string | null; // MHz, formatted like the comms plan ("251.000")
+  tacan: string | null; // e.g. "72X"
+  ils: string | null; // ICLS channel
+  link4: string | null; // MHz
+}
+
+// Reusable per-squadron comms plan stored in the database
+export interface CommsTemplate {
+  id: string;
+  squadron_id: string;
+  name: string;
+  entries: CommsPlanEntry[];
+  is_default: boolean;
+  updated_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
@@ -45,6 +45,7 @@ export interface MissionDebriefing {
   id: string;
   mission_id: string;
   mission_outcome?: MissionOutcome | null;
+  mission_outcome_manual?: boolean; // Picked by hand rather than from the objectives
   status: DebriefStatus;
 
   // Mission objectives (Phase 2+ feature)
@@ -153,11 +154,20 @@ export interface AARReminder {
 // Supporting Types
 // ============================================================================
 
+export type MissionObjectiveStatus = 'pending' | 'success' | 'partial' | 'failure';
+
 export interface MissionObjective {
   id: string;
   description: string;
   priority: 'primary' | 'secondary';
-  status: 'success' | 'failure' | 'partial';
+  status: MissionObjectiveStatus;
+
+  // Red coalition group from the .miz the objective is to destroy
+  target_group?: string;
+  target_units?: Record<string, number>; // Unit type_name → units in the group
+  required_percentage?: number;
+  destroyed_count?: number; // Set when assessed from recorded kills
+
   notes?: string;
   assessed_by?: string;
 }
@@ -285,6 +295,50 @@ export interface WingPerformanceSummary {
   total_a2g_kills: number;
 }
 
+// Kills against losses for one squadron or aircraft type across a cycle
+export interface KillLossSummary {
+  key: string; // Squadron id or aircraft type
+  label: string;
+  sorties: number;
+  kills: number;
+  friendlyKills: number;
+  losses: number; // Aircraft destroyed or down
+  pilotsLost: number; // KIA or MIA
+  killLossRatio: number | null; // null when there were no losses
+}
+
+export interface DebriefTrendPoint {
+  missionId: string;
+  missionName: string;
+  date: string;
+  sorties: number;
+  kills: number;
+  friendlyKills: number;
+  losses: number;
+  pilotsLost: number;
+}
+
+export interface DebriefTimelinessSummary {
+  squadronId: string;
+  squadronName: string;
+  expected: number; // Flights flown whose AAR is due (or already in)
+  onTime: number;
+  late: number;
+  missing: number;
+  unknown: number; // The event has no end time to measure against
+  averageHoursToSubmit: number | null;
+}
+
+export interface CycleDebriefAnalytics {
+  missionCount: number;
+  flightCount: number;
+  categoryStats: PerformanceStatistics[];
+  bySquadron: KillLossSummary[];
+  byAircraftType: KillLossSummary[];
+  trend: DebriefTrendPoint[]; // Oldest mission first
+  timeliness: DebriefTimelinessSummary[];
+}
+
 export interface TopPerformer {
   pilot_id: string;
   board_number: string;
@@ -444,3 +498,55 @@ export interface MissionUnitPoolItem {
   source: 'DCS' | 'Manual';
   is_active: boolean;
 }
+
+// ============================================================================
+// Debrief Import Types (Tacview / server logs)
+// ============================================================================
+
+export type DebriefImportSource = 'tacview' | 'server_log';
+
+// Kills imported from a recording, totalled per pilot and unit type
+export interface ProposedUnitKill {
+  pilotId: string;
+  unit: MissionUnitPoolItem;
+  killCount: number;
+  isFriendly: boolean;
+  inUnitPool: boolean; // False when the unit type isn't in the mission's pool yet
+}
+
+export interface ProposedPilotStatus {
+  pilotId: string;
+  pilotStatus: 'alive' | 'mia' | 'kia';
+  aircraftStatus: 'recovered' | 'damaged' | 'destroyed' | 'down';
+  missionStatus: PilotMissionStatus;
+  reason: string; // e.g. "Ejected at 01:12:40"
+}
+
+export interface DebriefImportProposals {
+  source: DebriefImportSource;
+  kills: ProposedUnitKill[];
+  statuses: ProposedPilotStatus[];
+  matchedPilots: Record<string, string>; // pilotId -> name in the recording
+  unknownUnitTypes: string[]; // Destroyed unit types missing from dcs_unit_types
+  warnings?: string[]; // Problems reading the source, e.g. unreadable log lines
+}
+
+// What the flight lead has already entered, compared against an import
+export interface DebriefEnteredKill {
+  pilotId: string;
+  unitTypeId: string;
+  unitDisplayName: string;
+  killCount: number;
+  isFriendly: boolean;
+}
+
+export interface DebriefEnteredStatus {
+  pilotId: string;
+  pilotStatus: 'alive' | 'mia' | 'kia' | 'unaccounted';
+  aircraftStatus: 'recovered' | 'damaged' | 'destroyed' | 'down' | 'unaccounted';
+}
+
+export interface DebriefEnteredEntries {
+  kills: DebriefEnteredKill[];
+  statuses: DebriefEnteredStatus[];
+}
@@ -50,6 +50,32 @@ export interface Cycle {
   participants?: string[]; // Array of squadron IDs that participate in this cycle
   discordGuildId?: string; // Legacy field for backward compatibility
   syllabusId?: string; // Optional training syllabus for Training cycles
+  recurrence?: RecurrenceRule | null; // Recurring event series, stored in the recurrence JSONB column
+}
+
+export type RecurrenceEditScope = 'this' | 'following' | 'all';
+
+export interface RecurrenceException {
+  date: string; // Series date (YYYY-MM-DD) the exception applies to
+  action: 'skip' | 'move';
+  movedTo?: string; // YYYY-MM-DD, for moved occurrences
+}
+
+/**
+ * RRULE-style weekly recurrence for a cycle's events. Times are wall-clock in
+ * the rule's timezone so events keep their local start time across DST.
+ */
+export interface RecurrenceRule {
+  frequency: 'weekly';
+  interval: number; // 1 = weekly, 2 = biweekly
+  weekdays: number[]; // 0 = Sunday
+  startTime: string; // HH:mm
+  timezone: string;
+  durationMinutes: number;
+  until?: string; // YYYY-MM-DD, defaults to the cycle's end date
+  count?: number; // Stop after this many occurrences (skipped dates still count)
+  titleTemplate: string; // {n} = occurrence number, {date} = event date
+  exceptions: RecurrenceException[];
 }
 
 export interface Event {
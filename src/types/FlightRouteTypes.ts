@@ -0,0 +1,20 @@
+// Route and loadout data decoded from a .miz group for flight briefing
+
+export interface RouteWaypoint {
+  number: number; // Steerpoint number as entered in the jet (takeoff point is 0)
+  name: string;
+  lat: number | null;
+  lon: number | null;
+  coordinate: string | null; // Formatted DMS, null when the theatre is unknown
+  altitudeFt: number;
+  altitudeType: 'BARO' | 'RADIO';
+  speedKts: number;
+  etaSeconds: number | null; // Seconds after midnight, mission local time
+  task: string;
+}
+
+export interface LoadoutStation {
+  station: number;
+  clsid: string;
+  name: string;
+}
@@ -0,0 +1,25 @@
+import type { Flight } from './FlightData';
+import type { Section } from '../components/layout/SectionContext';
+
+// Shared Mission Coordination board for a single mission.
+// Stored in the mission_coordination_boards table (one row per mission) so that
+// every controller viewing the mission works the same picture.
+export interface CoordinationBoard {
+  mission_id: string;
+  flights: Flight[];
+  sections: Section[];
+  version: number;
+  updated_by?: string;
+  updated_at?: string;
+  // Per-tab session ID of the last writer, used to skip our own realtime echoes
+  last_modified_session?: string;
+}
+
+export interface CoordinationBoardResponse {
+  board: CoordinationBoard | null;
+  error?: string;
+  /** True when the board was saved by someone else since the expected version */
+  conflict?: boolean;
+  /** The current server-side board when a conflict occurs */
+  serverBoard?: CoordinationBoard;
+}
@@ -11,3 +11,26 @@ export interface AssignedPilot extends Omit<Pilot, 'boardNumber'> {
 }
 
 export type AssignedPilotsRecord = Record<string, AssignedPilot[]>;
+
+// Flying history for a pilot within the current cycle, used by auto-assign to
+// rotate sorties, lead, mission commander and unpopular slots (tankers and
+// support roles) across the roster instead of always picking the same pilots.
+export interface PilotAssignmentHistory {
+  sorties: number;
+  leads: number;
+  missionCommander: number;
+  unpopular: number;
+}
+
+// Why auto-assign placed a pilot in a slot. Score is null for placements made
+// by fixed rules (training IP/trainee pairing) rather than candidate scoring.
+export interface AssignmentExplanation {
+  flightId: string;
+  flightLabel: string;
+  dashNumber: string;
+  pilotId: string;
+  pilotCallsign: string;
+  boardNumber: string;
+  score: number | null;
+  reasons: string[];
+}
@@ -1,6 +1,8 @@
 import type { Event } from './EventTypes';
 import type { AssignedPilotsRecord } from './MissionPrepTypes';
 import type { MissionCommanderInfo } from './MissionCommanderTypes';
+import type { CommsPlanEntry, CommsStation } from './CommsTypes';
+import type { MissionObjective } from './DebriefingTypes';
 
 export type MissionStatus = 'planning' | 'ready' | 'in_progress' | 'completed' | 'cancelled';
 export type FlightImportFilter = 'all' | 'wing_only' | 'selected_only';
@@ -47,6 +49,8 @@ export interface SupportRoleAssignment {
 export interface MissionSettings {
   auto_assign_enabled?: boolean;
   cross_squadron_assignments_allowed?: boolean;
+  publication_config?: { includeEmptyFlights: boolean }; // Carried over from a mission template
+  objectives?: MissionObjective[]; // Planned target groups, assessed in the debrief
   [key: string]: any;
 }
 
@@ -76,6 +80,8 @@ export interface Mission {
   miz_file_data: {
     processed_at?: string;
     file_name?: string;
+    file_url?: string; // Original .miz in storage, used to export assignments back into it
+    comms_stations?: CommsStation[]; // Carriers/tankers/AWACS/FARPs for comms plan generation
     [key: string]: any;
   };
   flights: MissionFlight[];
@@ -102,11 +108,57 @@ export interface UpdateMissionRequest extends Partial<CreateMissionRequest> {
   pilot_assignments?: Record<string, PilotAssignment[]>;
   support_role_assignments?: SupportRoleAssignment[];
   mission_settings?: MissionSettings;
+  miz_file_data?: Mission['miz_file_data'];
   step_time?: string; // UTC timestamp for step time
   // Optimistic locking: if set, update only succeeds when DB version matches
   expected_version?: number;
 }
 
+// Reusable mission layout saved from an existing mission. Pilot assignments
+// are never stored; support roles keep their slots but not their pilots.
+export interface MissionTemplate {
+  id: string;
+  squadron_id: string; // Owning squadron; names are unique per squadron
+  name: string;
+  description?: string;
+  source_mission_id?: string;
+  selected_squadrons: string[];
+  flight_import_filter: FlightImportFilter;
+  flights: MissionFlight[];
+  support_role_assignments: SupportRoleAssignment[];
+  mission_settings: MissionSettings;
+  miz_file_data: Mission['miz_file_data'];
+  step_offset_minutes?: number; // Step time relative to the event start
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Snapshot of a mission's flights and assignments as saved at a given version
+export interface MissionVersion {
+  id: string;
+  mission_id: string;
+  version: number;
+  flights: MissionFlight[];
+  pilot_assignments: Record<string, PilotAssignment[]>;
+  support_role_assignments: SupportRoleAssignment[];
+  changed_fields: string[];
+  changed_by?: string; // FK to user_profiles.id
+  changed_by_name?: string; // Resolved for display, not stored
+  created_at: string;
+}
+
+// A change made both locally and by another planner since the version the
+// local edit was based on. Values are null when that side removed the item.
+export type MissionMergeConflict =
+  | { id: string; kind: 'slot'; flightId: string; dashNumber: string; local: string | null; remote: string | null } // pilot ids
+  | { id: string; kind: 'pilot'; pilotId: string; local: string; remote: string } // slot keys the pilot ended up in
+  | { id: string; kind: 'flight'; flightId: string; local: MissionFlight | null; remote: MissionFlight | null }
+  | { id: string; kind: 'comms'; chan: string; local: CommsPlanEntry | null; remote: CommsPlanEntry | null }
+  | { id: string; kind: 'setting'; key: string; local: unknown; remote: unknown };
+
+export type MissionMergeChoice = 'local' | 'remote';
+
 // Mission state for frontend components (maps to current localStorage structure)
 export interface MissionState {
   mission?: Mission;
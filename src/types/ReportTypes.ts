@@ -22,6 +22,7 @@ export interface EventData {
     channelId: string;
     squadronId: string;
   }>;
+  timezone?: string; // From event_settings; used to find the event's local date
 }
 
 export interface AttendanceData {
@@ -73,6 +74,7 @@ export interface ChartDataPoint {
   advancedSniveCount: number;
   totalSnivelsCount: number;
   noResponseCount: number;
+  plannedAbsenceCount: number;
 }
 
 /**
@@ -86,6 +88,7 @@ export interface SquadronMetrics {
   advancedSniveCount: number;
   totalSnivelsCount: number;
   noResponseCount: number;
+  plannedAbsenceCount: number;
   totalPilots: number;
   attendancePercentage: number;
 }
@@ -118,12 +121,15 @@ export interface ReportFilters {
   showTotalSnivelsCount: boolean;
   showNoResponsePercent: boolean;
   showNoResponseCount: boolean;
+  showPlannedAbsencePercent: boolean;
+  showPlannedAbsenceCount: boolean;
   attendanceTrendLine: 'disabled' | 'linear' | 'moving-average';
   noShowsTrendLine: 'disabled' | 'linear' | 'moving-average';
   snivelsTrendLine: 'disabled' | 'linear' | 'moving-average';
   advancedSnivelsTrendLine: 'disabled' | 'linear' | 'moving-average';
   totalSnivelsTrendLine: 'disabled' | 'linear' | 'moving-average';
   noResponseTrendLine: 'disabled' | 'linear' | 'moving-average';
+  plannedAbsenceTrendLine: 'disabled' | 'linear' | 'moving-average';
 }
 
 /**
@@ -342,6 +342,34 @@ export interface PTRCellData {
   assignedIpCallsign?: string;
 }
 
+// Forecast of whether a student will finish the cycle, from the PTR grid
+export type ProgressionRisk = 'on_track' | 'at_risk' | 'unlikely';
+
+export interface ForecastEvent {
+  eventId: string;
+  eventName: string;
+  eventDate: string;
+  missionNumber: number | null;
+  missionName?: string;
+}
+
+export interface StudentProgressForecast {
+  studentId: string;
+  risk: ProgressionRisk;
+  missionsTotal: number;
+  missionsComplete: number; // Latest grade SAT
+  missionsRemaining: number;
+  unsatAttempts: number; // UNSAT grades across all attempts
+  missionsNeedingRepeat: number; // Latest grade UNSAT
+  missedMissions: number; // Date passed without a SAT; needs a makeup
+  eventsHeld: number;
+  eventsAttended: number;
+  attendanceRate: number | null; // null until an event has been held
+  upcomingEvents: number; // Syllabus events still scheduled in the cycle
+  mustAttend: ForecastEvent[];
+  reasons: string[];
+}
+
 // For grading dialog
 export interface GradingDialogData {
   studentId: string;
@@ -412,12 +440,47 @@ export interface GraduationRecord {
   graduatedBy: string;
   graduatedAt: string;
   outcomesApplied: AppliedOutcome[];
+  /** What graduation replaced, for undoing it; absent on older records */
+  priorState?: GraduationPriorState | null;
   createdAt: string;
 }
 
+/** Rows a graduation changed and what they held before, in the order applied */
+export interface GraduationPriorState {
+  enrollment: {
+    status: string;
+    statusChangedAt: string | null;
+    statusChangedBy: string | null;
+  };
+  callsign?: { previous: string; applied: string };
+  standing?: { closedIds: string[]; insertedId: string };
+  squadronAssignment?: { closedIds: string[]; insertedId: string };
+  qualificationIds?: string[]; // pilot_qualifications rows that were inserted
+}
+
+/** One change a graduation would make, shown before it is applied */
+export interface GraduationChange {
+  type: GraduationOutcomeType | 'enrollment';
+  label: string;
+  from: string | null;
+  to: string | null;
+  /** Why the change won't be made (e.g. qualification already held) */
+  skippedReason?: string;
+}
+
+export interface GraduationPreview {
+  studentId: string;
+  callsign: string;
+  changes: GraduationChange[];
+  errors: string[];
+}
+
+/** A qualification granted at graduation; older records hold bare qualification ids */
+export type GraduationQualificationEntry = string | { id: string; effectiveDate?: string };
+
 /** A single outcome that was applied during graduation */
 export interface AppliedOutcome {
   type: GraduationOutcomeType;
   effectiveDate: string; // resolved calendar date
-  value: string | string[] | null; // new callsign, standing_id, squadron_id, or qualification_ids[]
+  value: string | GraduationQualificationEntry[] | null; // new callsign, standing_id, squadron_id, or qualifications
 }
@@ -132,6 +132,35 @@ export type Database = {
         }
         Relationships: []
       }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          id: string
+          token: string
+          user_profile_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          token: string
+          user_profile_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          token?: string
+          user_profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feed_tokens_user_profile_id_fkey"
+            columns: ["user_profile_id"]
+            isOneToOne: true
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       carriers: {
         Row: {
           callsign: string
@@ -227,6 +256,7 @@ export type Database = {
           id: string
           name: string
           participants: Json | null
+          recurrence: Json | null
           restricted_to: string[] | null
           start_date: string
           status: string
@@ -246,6 +276,7 @@ export type Database = {
           id?: string
           name: string
           participants?: Json | null
+          recurrence?: Json | null
           restricted_to?: string[] | null
           start_date: string
           status: string
@@ -265,6 +296,7 @@ export type Database = {
           id?: string
           name?: string
           participants?: Json | null
+          recurrence?: Json | null
           restricted_to?: string[] | null
           start_date?: string
           status?: string
@@ -662,6 +694,200 @@ export type Database = {
           },
         ]
       }
+      graduation_records: {
+        Row: {
+          created_at: string
+          cycle_id: string
+          enrollment_id: string
+          graduated_at: string
+          graduated_by: string | null
+          id: string
+          outcomes_applied: Json
+          prior_state: Json | null
+          student_pilot_id: string
+          syllabus_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          cycle_id: string
+          enrollment_id: string
+          graduated_at?: string
+          graduated_by?: string | null
+          id?: string
+          outcomes_applied?: Json
+          prior_state?: Json | null
+          student_pilot_id: string
+          syllabus_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          cycle_id?: string
+          enrollment_id?: string
+          graduated_at?: string
+          graduated_by?: string | null
+          id?: string
+          outcomes_applied?: Json
+          prior_state?: Json | null
+          student_pilot_id?: string
+          syllabus_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "graduation_records_cycle_id_fkey"
+            columns: ["cycle_id"]
+            isOneToOne: false
+            referencedRelation: "cycles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "graduation_records_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "training_enrollments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "graduation_records_student_pilot_id_fkey"
+            columns: ["student_pilot_id"]
+            isOneToOne: false
+            referencedRelation: "pilots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "graduation_records_syllabus_id_fkey"
+            columns: ["syllabus_id"]
+            isOneToOne: false
+            referencedRelation: "training_syllabi"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lso_grades: {
+        Row: {
+          aircraft_type: string | null
+          created_at: string | null
+          deviations: Json | null
+          fuel_state: number | null
+          grade_points: number | null
+          grading_lso_id: string | null
+          groove_time_seconds: number | null
+          id: string
+          import_key: string | null
+          is_night: boolean | null
+          lso_comment: string | null
+          mission_id: string | null
+          outcome_type: string | null
+          overall_grade: string | null
+          pass_time: string | null
+          pilot_id: string
+          remarks: string | null
+          wire_number: number | null
+        }
+        Insert: {
+          aircraft_type?: string | null
+          created_at?: string | null
+          deviations?: Json | null
+          fuel_state?: number | null
+          grade_points?: number | null
+          grading_lso_id?: string | null
+          groove_time_seconds?: number | null
+          id?: string
+          import_key?: string | null
+          is_night?: boolean | null
+          lso_comment?: string | null
+          mission_id?: string | null
+          outcome_type?: string | null
+          overall_grade?: string | null
+          pass_time?: string | null
+          pilot_id: string
+          remarks?: string | null
+          wire_number?: number | null
+        }
+        Update: {
+          aircraft_type?: string | null
+          created_at?: string | null
+          deviations?: Json | null
+          fuel_state?: number | null
+          grade_points?: number | null
+          grading_lso_id?: string | null
+          groove_time_seconds?: number | null
+          id?: string
+          import_key?: string | null
+          is_night?: boolean | null
+          lso_comment?: string | null
+          mission_id?: string | null
+          outcome_type?: string | null
+          overall_grade?: string | null
+          pass_time?: string | null
+          pilot_id?: string
+          remarks?: string | null
+          wire_number?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lso_grades_grading_lso_id_fkey"
+            columns: ["grading_lso_id"]
+            isOneToOne: false
+            referencedRelation: "pilots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lso_grades_mission_id_fkey"
+            columns: ["mission_id"]
+            isOneToOne: false
+            referencedRelation: "missions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lso_grades_pilot_id_fkey"
+            columns: ["pilot_id"]
+            isOneToOne: false
+            referencedRelation: "pilots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mission_coordination_boards: {
+        Row: {
+          created_at: string
+          flights: Json
+          last_modified_session: string | null
+          mission_id: string
+          sections: Json
+          updated_at: string
+          updated_by: string | null
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          flights?: Json
+          last_modified_session?: string | null
+          mission_id: string
+          sections?: Json
+          updated_at?: string
+          updated_by?: string | null
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          flights?: Json
+          last_modified_session?: string | null
+          mission_id?: string
+          sections?: Json
+          updated_at?: string
+          updated_by?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mission_coordination_boards_mission_id_fkey"
+            columns: ["mission_id"]
+            isOneToOne: true
+            referencedRelation: "missions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       mission_debriefings: {
         Row: {
           created_at: string
@@ -673,6 +899,7 @@ export type Database = {
           mission_id: string
           mission_objectives: Json | null
           mission_outcome: string | null
+          mission_outcome_manual: boolean
           status: string
           tacview_file_url: string | null
           tacview_uploaded_at: string | null
@@ -690,6 +917,7 @@ export type Database = {
           mission_id: string
           mission_objectives?: Json | null
           mission_outcome?: string | null
+          mission_outcome_manual?: boolean
           status?: string
           tacview_file_url?: string | null
           tacview_uploaded_at?: string | null
@@ -707,6 +935,7 @@ export type Database = {
           mission_id?: string
           mission_objectives?: Json | null
           mission_outcome?: string | null
+          mission_outcome_manual?: boolean
           status?: string
           tacview_file_url?: string | null
           tacview_uploaded_at?: string | null
@@ -745,6 +974,126 @@ export type Database = {
           },
         ]
       }
+      mission_templates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          flight_import_filter: string
+          flights: Json
+          id: string
+          mission_settings: Json
+          miz_file_data: Json
+          name: string
+          selected_squadrons: Json
+          source_mission_id: string | null
+          squadron_id: string
+          step_offset_minutes: number | null
+          support_role_assignments: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          flight_import_filter?: string
+          flights?: Json
+          id?: string
+          mission_settings?: Json
+          miz_file_data?: Json
+          name: string
+          selected_squadrons?: Json
+          source_mission_id?: string | null
+          squadron_id: string
+          step_offset_minutes?: number | null
+          support_role_assignments?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          flight_import_filter?: string
+          flights?: Json
+          id?: string
+          mission_settings?: Json
+          miz_file_data?: Json
+          name?: string
+          selected_squadrons?: Json
+          source_mission_id?: string | null
+          squadron_id?: string
+          step_offset_minutes?: number | null
+          support_role_assignments?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mission_templates_source_mission_id_fkey"
+            columns: ["source_mission_id"]
+            isOneToOne: false
+            referencedRelation: "missions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mission_templates_squadron_id_fkey"
+            columns: ["squadron_id"]
+            isOneToOne: false
+            referencedRelation: "org_squadrons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mission_versions: {
+        Row: {
+          changed_by: string | null
+          changed_fields: string[]
+          created_at: string
+          flights: Json
+          id: string
+          mission_id: string
+          pilot_assignments: Json
+          support_role_assignments: Json
+          version: number
+        }
+        Insert: {
+          changed_by?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          flights?: Json
+          id?: string
+          mission_id: string
+          pilot_assignments?: Json
+          support_role_assignments?: Json
+          version: number
+        }
+        Update: {
+          changed_by?: string | null
+          changed_fields?: string[]
+          created_at?: string
+          flights?: Json
+          id?: string
+          mission_id?: string
+          pilot_assignments?: Json
+          support_role_assignments?: Json
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mission_versions_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mission_versions_mission_id_fkey"
+            columns: ["mission_id"]
+            isOneToOne: false
+            referencedRelation: "missions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       missions: {
         Row: {
           created_at: string | null
@@ -1132,6 +1481,47 @@ export type Database = {
           },
         ]
       }
+      pilot_availability: {
+        Row: {
+          created_at: string
+          end_date: string | null
+          id: string
+          kind: string
+          pilot_id: string
+          reason: string | null
+          start_date: string
+          weekdays: number[]
+        }
+        Insert: {
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          kind: string
+          pilot_id: string
+          reason?: string | null
+          start_date: string
+          weekdays?: number[]
+        }
+        Update: {
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          kind?: string
+          pilot_id?: string
+          reason?: string | null
+          start_date?: string
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pilot_availability_pilot_id_fkey"
+            columns: ["pilot_id"]
+            isOneToOne: false
+            referencedRelation: "pilots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pilot_kills: {
         Row: {
           air_to_air_kills: number
@@ -1193,6 +1583,7 @@ export type Database = {
         Row: {
           achieved_date: string | null
           created_at: string
+          currency_reminder_sent_for: string | null
           expiry_date: string | null
           id: string
           is_current: boolean
@@ -1206,6 +1597,7 @@ export type Database = {
         Insert: {
           achieved_date?: string | null
           created_at?: string
+          currency_reminder_sent_for?: string | null
           expiry_date?: string | null
           id?: string
           is_current?: boolean
@@ -1219,6 +1611,7 @@ export type Database = {
         Update: {
           achieved_date?: string | null
           created_at?: string
+          currency_reminder_sent_for?: string | null
           expiry_date?: string | null
           id?: string
           is_current?: boolean
@@ -1548,6 +1941,7 @@ export type Database = {
           code: string
           color: string | null
           created_at: string
+          currency_rule: Json | null
           id: string
           is_expirable: boolean
           is_support_role: boolean
@@ -1563,6 +1957,7 @@ export type Database = {
           code: string
           color?: string | null
           created_at?: string
+          currency_rule?: Json | null
           id?: string
           is_expirable?: boolean
           is_support_role?: boolean
@@ -1578,6 +1973,7 @@ export type Database = {
           code?: string
           color?: string | null
           created_at?: string
+          currency_rule?: Json | null
           id?: string
           is_expirable?: boolean
           is_support_role?: boolean
@@ -1678,6 +2074,47 @@ export type Database = {
           },
         ]
       }
+      squadron_comms_templates: {
+        Row: {
+          created_at: string
+          entries: Json
+          id: string
+          is_default: boolean
+          name: string
+          squadron_id: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          entries?: Json
+          id?: string
+          is_default?: boolean
+          name: string
+          squadron_id: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          entries?: Json
+          id?: string
+          is_default?: boolean
+          name?: string
+          squadron_id?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "squadron_comms_templates_squadron_id_fkey"
+            columns: ["squadron_id"]
+            isOneToOne: false
+            referencedRelation: "org_squadrons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       standings: {
         Row: {
           created_at: string
@@ -1803,6 +2240,60 @@ export type Database = {
         }
         Relationships: []
       }
+      training_enrollments: {
+        Row: {
+          created_at: string
+          cycle_id: string
+          enrolled_at: string
+          enrolled_by: string | null
+          id: string
+          pilot_id: string
+          status: string
+          status_changed_at: string | null
+          status_changed_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          cycle_id: string
+          enrolled_at?: string
+          enrolled_by?: string | null
+          id?: string
+          pilot_id: string
+          status?: string
+          status_changed_at?: string | null
+          status_changed_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          cycle_id?: string
+          enrolled_at?: string
+          enrolled_by?: string | null
+          id?: string
+          pilot_id?: string
+          status?: string
+          status_changed_at?: string | null
+          status_changed_by?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "training_enrollments_cycle_id_fkey"
+            columns: ["cycle_id"]
+            isOneToOne: false
+            referencedRelation: "cycles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "training_enrollments_pilot_id_fkey"
+            columns: ["pilot_id"]
+            isOneToOne: false
+            referencedRelation: "pilots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       training_syllabi: {
         Row: {
           created_at: string | null
@@ -1846,31 +2337,37 @@ export type Database = {
           created_at: string | null
           description: string | null
           id: string
+          image_url: Json | null
           mission_name: string
           mission_number: number
           reference_materials: Json | null
           syllabus_id: string
           updated_at: string | null
+          week_number: number | null
         }
         Insert: {
           created_at?: string | null
           description?: string | null
           id?: string
+          image_url?: Json | null
           mission_name: string
           mission_number: number
           reference_materials?: Json | null
           syllabus_id: string
           updated_at?: string | null
+          week_number?: number | null
         }
         Update: {
           created_at?: string | null
           description?: string | null
           id?: string
+          image_url?: Json | null
           mission_name?: string
           mission_number?: number
           reference_materials?: Json | null
           syllabus_id?: string
           updated_at?: string | null
+          week_number?: number | null
         }
         Relationships: [
           {
@@ -2013,7 +2510,25 @@ export type Database = {
       }
     }
     Functions: {
-      [_ in never]: never
+      graduate_student: {
+        Args: {
+          p_cycle_id: string
+          p_enrollment_id: string
+          p_graduated_at: string
+          p_graduated_by: string
+          p_outcomes: Json
+          p_student_pilot_id: string
+          p_syllabus_id: string
+        }
+        Returns: string
+      }
+      undo_graduation: {
+        Args: {
+          p_cycle_id: string
+          p_student_pilot_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       exclusivity_scope: "none" | "squadron" | "wing"
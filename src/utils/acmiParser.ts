@@ -0,0 +1,198 @@
+/**
+ * Tacview ACMI Parser
+ * Reads .txt.acmi / .zip.acmi flight recordings (ACMI 2.x text format) into the
+ * objects and events needed for debriefs. Positions are not kept as tracks;
+ * only each object's last known position is retained so multi-hour server
+ * recordings stay small in memory.
+ */
+
+import JSZip from 'jszip';
+
+export interface AcmiPosition {
+  lon: number;
+  lat: number;
+  alt: number;
+}
+
+export interface AcmiObject {
+  id: string;
+  /** Last value of every property other than T (Type, Name, Pilot, Group, Coalition, Parent...) */
+  props: Record<string, string>;
+  firstSeen: number;
+  lastSeen: number;
+  removedAt?: number;
+  lastPosition?: AcmiPosition;
+}
+
+export interface AcmiEvent {
+  time: number;
+  type: string; // Destroyed, Landed, TakenOff, LeftArea, Message...
+  objectIds: string[];
+  text?: string;
+}
+
+export interface AcmiRecording {
+  title?: string;
+  referenceTime?: string;
+  objects: AcmiObject[];
+  events: AcmiEvent[];
+}
+
+// Splits on commas that are not escaped with a backslash
+const FIELD_SEPARATOR = /(?<!\\),/;
+
+const unescapeValue = (value: string) => value.replace(/\\,/g, ',').replace(/\\\n/g, '\n');
+
+/**
+ * Parse the T= transform. Components are relative to the reference point and
+ * empty components mean "unchanged"; only lon|lat|alt are of interest here.
+ */
+const parseTransform = (
+  value: string,
+  previous: AcmiPosition | undefined,
+  reference: { lon: number; lat: number }
+): AcmiPosition | undefined => {
+  const [lon, lat, alt] = value.split('|');
+  const next = (raw: string | undefined, offset: number, fallback: number | undefined) =>
+    raw !== undefined && raw !== '' ? parseFloat(raw) + offset : fallback;
+
+  const position = {
+    lon: next(lon, reference.lon, previous?.lon),
+    lat: next(lat, reference.lat, previous?.lat),
+    alt: next(alt, 0, previous?.alt) ?? 0
+  };
+  if (position.lon === undefined || position.lat === undefined || isNaN(position.lon) || isNaN(position.lat)) {
+    return previous;
+  }
+  return position as AcmiPosition;
+};
+
+/**
+ * Parse the text content of an ACMI recording.
+ */
+export function parseAcmiText(text: string): AcmiRecording {
+  const objects = new Map<string, AcmiObject>();
+  const events: AcmiEvent[] = [];
+  const reference = { lon: 0, lat: 0 };
+  const recording: AcmiRecording = { objects: [], events };
+  let time = 0;
+
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i];
+
+    // A trailing backslash continues the value onto the next line
+    while (line.endsWith('\\') && i + 1 < lines.length) {
+      line = `${line}\n${lines[++i]}`;
+    }
+    if (!line || line.startsWith('//')) continue;
+
+    if (line.startsWith('#')) {
+      time = parseFloat(line.slice(1)) || time;
+      continue;
+    }
+
+    if (line.startsWith('-')) {
+      const removed = objects.get(line.slice(1).trim().toLowerCase());
+      if (removed) removed.removedAt = time;
+      continue;
+    }
+
+    const [rawId, ...fields] = line.split(FIELD_SEPARATOR);
+    const id = rawId.trim().toLowerCase();
+
+    // File header (FileType=..., FileVersion=...) has no object id
+    if (rawId.includes('=')) continue;
+
+    if (id === '0') {
+      fields.forEach(field => {
+        const separator = field.indexOf('=');
+        if (separator < 0) return;
+        const key = field.slice(0, separator);
+        const value = unescapeValue(field.slice(separator + 1));
+
+        switch (key) {
+          case 'ReferenceLongitude':
+            reference.lon = parseFloat(value) || 0;
+            break;
+          case 'ReferenceLatitude':
+            reference.lat = parseFloat(value) || 0;
+            break;
+          case 'ReferenceTime':
+            recording.referenceTime = value;
+            break;
+          case 'Title':
+            recording.title = value;
+            break;
+          case 'Event': {
+            // Event=Destroyed|11|optional text, Event=Landed|11|2a3b|
+            const [type, ...rest] = value.split('|');
+            const ids = rest.filter(part => /^[0-9a-fA-F]+$/.test(part)).map(part => part.toLowerCase());
+            const eventText = rest.filter(part => part && !/^[0-9a-fA-F]+$/.test(part)).join('|');
+            events.push({ time, type, objectIds: ids, text: eventText || undefined });
+            break;
+          }
+        }
+      });
+      continue;
+    }
+
+    let object = objects.get(id);
+    if (!object) {
+      object = { id, props: {}, firstSeen: time, lastSeen: time };
+      objects.set(id, object);
+    }
+    object.lastSeen = time;
+
+    fields.forEach(field => {
+      const separator = field.indexOf('=');
+      if (separator < 0) return;
+      const key = field.slice(0, separator);
+      const value = field.slice(separator + 1);
+      if (key === 'T') {
+        object!.lastPosition = parseTransform(value, object!.lastPosition, reference);
+      } else {
+        object!.props[key] = unescapeValue(value);
+      }
+    });
+  }
+
+  recording.objects = [...objects.values()];
+  return recording;
+}
+
+/**
+ * Read an uploaded recording. Zipped recordings (.zip.acmi) hold a single
+ * .txt.acmi entry; plain text recordings are parsed directly.
+ */
+export async function readAcmiFile(file: File): Promise<AcmiRecording> {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer, 0, Math.min(2, buffer.byteLength));
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b; // "PK"
+
+  if (!isZip) {
+    return parseAcmiText(new TextDecoder('utf-8').decode(buffer));
+  }
+
+  const zip = await JSZip.loadAsync(buffer);
+  const entry = Object.values(zip.files).find(f => !f.dir && /\.acmi$|\.txt$/i.test(f.name))
+    || Object.values(zip.files).find(f => !f.dir);
+  if (!entry) {
+    throw new Error('The Tacview archive does not contain a recording');
+  }
+  return parseAcmiText(await entry.async('string'));
+}
+
+/** Type tags of an object, e.g. "Air+FixedWing" -> ['Air', 'FixedWing'] */
+export const acmiTypeTags = (object: AcmiObject): string[] =>
+  (object.props.Type || '').split('+').map(tag => tag.trim()).filter(Boolean);
+
+/** Great-circle distance in metres between two recorded positions */
+export const acmiDistance = (a: AcmiPosition, b: AcmiPosition): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  const ground = 2 * 6371000 * Math.asin(Math.sqrt(h));
+  return Math.hypot(ground, b.alt - a.alt);
+};
@@ -0,0 +1,195 @@
+import { describe, expect, it, vi } from 'vitest';
+import { autoAssignPilots } from './autoAssignUtils';
+import type { Flight } from '../types/FlightData';
+import type { Pilot } from './pilotTypes';
+import type { AssignedPilot, PilotAssignmentHistory } from '../types/MissionPrepTypes';
+import type { AutoAssignConfig } from '../components/ui/mission prep/AutoAssignConfig';
+
+// Squadrons come from the pilot squadron map below, so the database is never queried
+vi.mock('./supabaseClient', () => ({ supabase: {} }));
+
+const VFA_1 = { id: 'sq-1', designation: 'VFA-1', callsigns: ['ENFIELD'], squadron_type: 'operational' };
+const VFA_2 = { id: 'sq-2', designation: 'VFA-2', callsigns: ['DUDE'], squadron_type: 'operational' };
+
+const pilot = (id: string, callsign: string, boardNumber: number, attendanceStatus?: Pilot['attendanceStatus']): Pilot => ({
+  id,
+  callsign,
+  boardNumber,
+  attendanceStatus,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: null,
+  discord_id: null,
+  discord_roles: null,
+  discord_username: null
+});
+
+const flight = (id: string, callsign: string, flightNumber: string): Flight => ({
+  id,
+  callsign,
+  flightNumber,
+  members: [],
+  lowState: 0,
+  currentSection: '',
+  currentDivision: 0,
+  formation: 'group'
+});
+
+const quals = (...names: string[]) => names.map(name => ({ qualification: { name } }));
+
+// Two squadrons with one flight each; Gus declined and Fox is tentative
+const ROSTER = [
+  pilot('p-ace', 'Ace', 101, 'accepted'),
+  pilot('p-bolt', 'Bolt', 102, 'accepted'),
+  pilot('p-chip', 'Chip', 103, 'accepted'),
+  pilot('p-dash', 'Dash', 104, 'accepted'),
+  pilot('p-gus', 'Gus', 105, 'declined'),
+  pilot('p-echo', 'Echo', 201, 'accepted'),
+  pilot('p-fox', 'Fox', 202, 'tentative')
+];
+
+const QUALIFICATIONS = {
+  'p-ace': quals('Mission Commander'),
+  'p-bolt': quals('Flight Lead'),
+  'p-chip': quals('Section Lead'),
+  'p-echo': quals('Flight Lead')
+};
+
+const SQUADRONS = {
+  'p-ace': VFA_1,
+  'p-bolt': VFA_1,
+  'p-chip': VFA_1,
+  'p-dash': VFA_1,
+  'p-gus': VFA_1,
+  'p-echo': VFA_2,
+  'p-fox': VFA_2
+};
+
+const FLIGHTS = [flight('f-enfield', 'ENFIELD', '1'), flight('f-dude', 'DUDE', '1')];
+
+const CONFIG: AutoAssignConfig = {
+  assignmentScope: 'clear',
+  includeTentative: false,
+  flightFillingPriority: 'depth',
+  squadronCohesion: 'prioritized',
+  assignUnqualified: false,
+  nonStandardCallsigns: 'fillInSequence'
+};
+
+const run = (
+  pilots: Pilot[] = ROSTER,
+  config: Partial<AutoAssignConfig> = {},
+  history?: Record<string, PilotAssignmentHistory>
+) => autoAssignPilots(FLIGHTS, pilots, {}, QUALIFICATIONS, { ...CONFIG, ...config }, SQUADRONS, undefined, history);
+
+// "<dash>:<callsign>" per flight, in dash order
+const slots = (assignments: Record<string, AssignedPilot[]>) =>
+  Object.fromEntries(Object.entries(assignments).map(([flightId, pilots]) => [
+    flightId,
+    [...pilots].sort((a, b) => a.dashNumber.localeCompare(b.dashNumber)).map(p => `${p.dashNumber}:${p.callsign}`)
+  ]));
+
+describe('autoAssignPilots (fixture roster)', () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+
+  it('fills lead slots with qualified pilots and keeps squadrons together', async () => {
+    const { newAssignments, suggestedMissionCommander } = await run();
+
+    expect(slots(newAssignments)).toEqual({
+      'f-enfield': ['1:Ace', '2:Dash', '3:Bolt', '4:Chip'],
+      'f-dude': ['1:Echo']
+    });
+    expect(suggestedMissionCommander).toEqual({
+      boardNumber: '101',
+      callsign: 'Ace',
+      flightId: 'f-enfield',
+      flightCallsign: 'ENFIELD',
+      flightNumber: '1'
+    });
+  });
+
+  it('gives the same result whatever order the roster comes in', async () => {
+    const expected = await run();
+    const reversed = await run([...ROSTER].reverse());
+    const rotated = await run([...ROSTER.slice(3), ...ROSTER.slice(0, 3)]);
+
+    expect(reversed).toEqual(expected);
+    expect(rotated).toEqual(expected);
+  });
+
+  it('explains each placement with its score', async () => {
+    const { explanations } = await run();
+
+    expect(explanations.map(e => `${e.flightLabel}-${e.dashNumber} ${e.pilotCallsign} ${e.score}`)).toEqual([
+      'ENFIELD 1-1 Ace 360',
+      'ENFIELD 1-2 Dash 260',
+      'ENFIELD 1-3 Bolt 260',
+      'ENFIELD 1-4 Chip 160',
+      'DUDE 1-1 Echo 260'
+    ]);
+
+    const ace = explanations.find(e => e.pilotId === 'p-ace')!;
+    expect(ace.reasons).toEqual([
+      'Same squadron as VFA-1 (+50)',
+      'Mission Commander qualified for flight lead (+300)',
+      'Confirmed attendance (+10)',
+      'Best of 3 eligible pilots (next: Bolt at 260)'
+    ]);
+
+    const bolt = explanations.find(e => e.pilotId === 'p-bolt')!;
+    expect(bolt.reasons).toContain('Tied with Chip at 260; chosen by billet seniority, then board number');
+  });
+
+  it('only places tentative pilots when configured to', async () => {
+    const { newAssignments, explanations } = await run(ROSTER, { includeTentative: true });
+
+    expect(slots(newAssignments)).toEqual({
+      'f-enfield': ['1:Ace', '2:Dash', '3:Bolt', '4:Chip'],
+      'f-dude': ['1:Echo', '2:Fox']
+    });
+    expect(explanations.find(e => e.pilotId === 'p-fox')!.reasons).toContain('Tentative attendance (+0)');
+  });
+
+  it('swaps pilots when the whole placement scores higher', async () => {
+    const { explanations } = await run(ROSTER, { includeTentative: true });
+
+    // Slot by slot, Fox's plain wingman fit took ENFIELD 1-4 from Chip, who is
+    // saved for lead slots, and Chip then flew wing outside their squadron.
+    // Swapping them puts both with their own squadron: 250 + 160 beats 200 + 110.
+    expect(explanations.map(e => `${e.flightLabel}-${e.dashNumber} ${e.pilotCallsign} ${e.score}`)).toEqual([
+      'ENFIELD 1-1 Ace 360',
+      'ENFIELD 1-2 Dash 260',
+      'ENFIELD 1-3 Bolt 260',
+      'ENFIELD 1-4 Chip 160',
+      'DUDE 1-1 Echo 260',
+      'DUDE 1-2 Fox 250'
+    ]);
+    expect(explanations.find(e => e.pilotId === 'p-chip')!.reasons).toEqual([
+      'Same squadron as VFA-1 (+50)',
+      'Lead qualified, kept for lead slots where possible (+100)',
+      'Confirmed attendance (+10)',
+      'Moved from DUDE 1-2; the placement as a whole scores higher this way'
+    ]);
+  });
+
+  it('leaves lead slots empty rather than place unqualified pilots', async () => {
+    const wingmen = ROSTER.filter(p => p.id === 'p-dash' || p.id === 'p-fox');
+    const { newAssignments } = await run(wingmen, { includeTentative: true });
+
+    expect(slots(newAssignments)).toEqual({ 'f-enfield': ['2:Dash', '4:Fox'], 'f-dude': [] });
+  });
+
+  it('rotates lead slots using cycle history', async () => {
+    const history = { 'p-bolt': { sorties: 1, leads: 1, missionCommander: 0, unpopular: 0 } };
+    const { newAssignments, explanations } = await run(ROSTER, {}, history);
+
+    // Bolt and Chip tie for -3 until Bolt's recent sortie and lead count against them
+    expect(slots(newAssignments)['f-enfield']).toEqual(['1:Ace', '2:Dash', '3:Chip', '4:Bolt']);
+    expect(explanations.find(e => e.pilotId === 'p-bolt')!.reasons).toContain('Flew 1 mission this cycle (-3)');
+  });
+
+  it('keeps pilots out of other squadrons\' flights when cohesion is enforced', async () => {
+    const { newAssignments } = await run(ROSTER.filter(p => p.id !== 'p-echo'), { squadronCohesion: 'enforced' });
+
+    expect(slots(newAssignments)['f-dude']).toEqual([]);
+  });
+});
@@ -1,22 +1,67 @@
 import type { Flight } from '../types/FlightData';
 import type { Pilot } from './pilotTypes';
-import type { AssignedPilot } from '../types/MissionPrepTypes';
+import type { AssignedPilot, AssignmentExplanation, PilotAssignmentHistory } from '../types/MissionPrepTypes';
 import type { MissionCommanderInfo } from '../types/MissionCommanderTypes';
 import type { AutoAssignConfig } from '../components/ui/mission prep/AutoAssignConfig';
 import { getSquadronCallsignMappings, getSquadronForCallsign, isStandardCallsign, type SquadronCallsignMapping } from './squadronCallsignService';
+import { TANKER_CALLSIGNS } from './leadRotationService';
 
-interface AssignmentGate {
-  attendance: string[];
-  squadron: SquadronCallsignMapping | null;
-  qualifications: string[] | 'NOT_OVERQUALIFIED' | null;
+/**
+ * Placement score weights. Qualification fit and squadron cohesion form tiers
+ * 50 points apart, in the same order the old assignment gates were tried.
+ * Attendance and history adjustments together stay under 50, so they only
+ * decide between pilots within the same tier.
+ */
+const SCORE = {
+  missionCommander: 300,
+  qualified: 200,
+  overqualifiedWingman: 100,
+  unqualified: 0,
+  sameSquadron: 50,
+  accepted: 10,
+  recentSortie: -3,
+  maxSortiePenalty: -9,
+  recentLead: -5,
+  maxLeadPenalty: -15,
+  recentUnpopular: -4,
+  maxUnpopularPenalty: -12
+};
+
+// Upper bound on improvePlacement's passes over every slot
+const MAX_IMPROVEMENT_PASSES = 10;
+
+interface ScoredCandidate {
+  pilot: Pilot;
+  score: number;
+  reasons: string[];
+}
+
+type ExplanationMap = Map<string, AssignmentExplanation>;
+
+// Prep flights imported from a .miz keep the source group, including its task
+type PrepFlight = Flight & { extractedFlightData?: { task?: string } };
+
+// The parts of a pilot qualification row auto-assign reads
+interface PilotQualificationEntry {
+  qualification?: { name?: string | null } | null;
+}
+
+// The parts of a pilot's squadron record auto-assign reads
+interface PilotSquadronEntry {
+  id: string;
+  designation?: string | null;
+  callsigns?: unknown;
+  squadron_type?: string | null;
 }
 
+const formatPoints = (points: number): string => (points >= 0 ? `+${points}` : `${points}`);
+
 /**
  * Get qualification rank for seniority sorting (lower number = higher qualification)
  */
-function getQualificationRank(pilot: AssignedPilot, allPilotQualifications: Record<string, any[]>): number {
+function getQualificationRank(pilot: AssignedPilot, allPilotQualifications: Record<string, PilotQualificationEntry[]>): number {
   const qualifications = allPilotQualifications[pilot.id] || allPilotQualifications[pilot.boardNumber] || [];
-  const hasQual = (pattern: string) => qualifications.some((qual: any) =>
+  const hasQual = (pattern: string) => qualifications.some(qual =>
     (qual.qualification?.name?.toLowerCase() || '').includes(pattern)
   );
 
@@ -48,14 +93,14 @@ async function consolidateSingletonFlights(
   newAssignments: Record<string, AssignedPilot[]>,
   squadronCallsigns: SquadronCallsignMapping[],
   config: AutoAssignConfig,
-  allPilotQualifications: Record<string, any[]>,
-  pilotSquadronMap?: Record<string, any>
+  allPilotQualifications: Record<string, PilotQualificationEntry[]>,
+  explanations: ExplanationMap,
+  pilotSquadronMap?: Record<string, PilotSquadronEntry>
 ): Promise<void> {
-  
-  let consolidationCount = 0;
-  let maxIterations = 10; // Prevent infinite loops
-  
-  while (consolidationCount < maxIterations) {
+
+  // Every move empties a singleton flight into a flight that already has a
+  // pilot, so the number of singletons strictly decreases and this terminates.
+  while (true) {
     // Re-detect singletons after each move to avoid unnecessary subsequent moves
     const singletonFlights: { flight: Flight; pilot: AssignedPilot }[] = [];
     const flightsWithGaps: { flight: Flight; availablePositions: string[] }[] = [];
@@ -152,6 +197,7 @@ async function consolidateSingletonFlights(
             dashNumber: lowestPosition
           };
           newAssignments[targetFlight.flight.id].push(newAssignment);
+          explanations.get(singleton.pilot.id)?.reasons.push(`Moved from ${singleton.flight.callsign} ${singleton.flight.flightNumber} to a same-squadron flight to avoid a single-ship`);
           
           moved = true;
           movedThisIteration = true;
@@ -174,6 +220,7 @@ async function consolidateSingletonFlights(
           dashNumber: lowestPosition
         };
         newAssignments[targetFlight.flight.id].push(newAssignment);
+        explanations.get(singleton.pilot.id)?.reasons.push(`Moved from ${singleton.flight.callsign} ${singleton.flight.flightNumber} to avoid a single-ship`);
         
         moved = true;
         movedThisIteration = true;
@@ -187,12 +234,125 @@ async function consolidateSingletonFlights(
     if (!movedThisIteration) {
       break;
     }
-    
-    consolidationCount++;
   }
   
 }
 
+/**
+ * Improve the placement as a whole. The passes above fill slots one at a
+ * time, so a pilot picked early can be worth more in a slot filled later (a
+ * Flight Lead flying wing while another flight's lead slot goes to someone
+ * unqualified). This swaps pilots placed in this run between slots, or with
+ * an eligible pilot left unplaced, whenever that raises the total score of
+ * the placement. Every swap strictly raises the total, so this terminates;
+ * the pass limit only bounds the work on very large rosters.
+ */
+function improvePlacement(
+  flightOrder: Flight[],
+  availablePilotPool: Pilot[],
+  newAssignments: Record<string, AssignedPilot[]>,
+  allPilotQualifications: Record<string, PilotQualificationEntry[]>,
+  squadronCallsigns: SquadronCallsignMapping[],
+  config: AutoAssignConfig,
+  explanations: ExplanationMap,
+  pilotSquadronMap?: Record<string, PilotSquadronEntry>,
+  history?: Record<string, PilotAssignmentHistory>
+): void {
+  const flightsById = new Map(flightOrder.map(flight => [flight.id, flight]));
+  const scoreAt = (pilot: Pilot, flightId: string, dashNumber: string): ScoredCandidate | null => {
+    const flight = flightsById.get(flightId)!;
+    const flightSquadron = getSquadronForCallsign(flight.callsign, squadronCallsigns);
+    return scorePilotForPosition(pilot, flight, `-${dashNumber}`, flightSquadron, allPilotQualifications, config, pilotSquadronMap, history);
+  };
+  const slotLabel = (flightId: string, dashNumber: string) => {
+    const flight = flightsById.get(flightId)!;
+    return `${flight.callsign} ${flight.flightNumber}-${dashNumber}`;
+  };
+
+  // Slots filled in this run, in flight and dash order so the result is
+  // deterministic. A pilot consolidation left in a slot they can't fill
+  // scores -Infinity, so any workable swap replaces them.
+  const poolById = new Map(availablePilotPool.map(pilot => [pilot.id, pilot]));
+  const slots: { flightId: string; dashNumber: string; pilot: Pilot; score: number }[] = [];
+  for (const flight of flightOrder) {
+    const flightPilots = [...(newAssignments[flight.id] || [])].sort((a, b) => a.dashNumber.localeCompare(b.dashNumber));
+    for (const assigned of flightPilots) {
+      const pilot = poolById.get(assigned.id);
+      if (!pilot || !explanations.has(pilot.id)) continue; // Kept from before this run (Fill Gaps)
+      slots.push({
+        flightId: flight.id,
+        dashNumber: assigned.dashNumber,
+        pilot,
+        score: scoreAt(pilot, flight.id, assigned.dashNumber)?.score ?? -Infinity
+      });
+    }
+  }
+  const originalSlots = new Map(slots.map(slot => [slot.pilot.id, slotLabel(slot.flightId, slot.dashNumber)]));
+  const originalPilots = slots.map(slot => slot.pilot.id);
+  const placedIds = new Set(originalPilots);
+  const bench = availablePilotPool
+    .filter(pilot => !placedIds.has(pilot.id))
+    .sort((a, b) => compareCandidates({ pilot: a, score: 0, reasons: [] }, { pilot: b, score: 0, reasons: [] }));
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+
+    slots.forEach((slot, i) => {
+      // Swap with a pilot placed in a later slot
+      for (const other of slots.slice(i + 1)) {
+        const here = scoreAt(other.pilot, slot.flightId, slot.dashNumber);
+        const there = scoreAt(slot.pilot, other.flightId, other.dashNumber);
+        if (!here || !there || here.score + there.score <= slot.score + other.score) continue;
+        [slot.pilot, other.pilot] = [other.pilot, slot.pilot];
+        slot.score = here.score;
+        other.score = there.score;
+        improved = true;
+      }
+
+      // Swap with a pilot who wasn't placed
+      bench.forEach((benched, k) => {
+        const here = scoreAt(benched, slot.flightId, slot.dashNumber);
+        if (!here || here.score <= slot.score) return;
+        bench[k] = slot.pilot;
+        slot.pilot = benched;
+        slot.score = here.score;
+        improved = true;
+      });
+    });
+
+    if (!improved) break;
+  }
+
+  // Write back the slots whose pilot changed, with reasons for the new slot
+  bench.forEach(pilot => explanations.delete(pilot.id));
+  slots.forEach((slot, i) => {
+    if (slot.pilot.id === originalPilots[i]) return;
+
+    const assignments = newAssignments[slot.flightId];
+    const index = assignments.findIndex(p => p.dashNumber === slot.dashNumber);
+    assignments[index] = { ...slot.pilot, boardNumber: String(slot.pilot.boardNumber), dashNumber: slot.dashNumber };
+
+    const scored = scoreAt(slot.pilot, slot.flightId, slot.dashNumber)!;
+    const from = originalSlots.get(slot.pilot.id);
+    const flight = flightsById.get(slot.flightId)!;
+    explanations.set(slot.pilot.id, {
+      flightId: flight.id,
+      flightLabel: `${flight.callsign} ${flight.flightNumber}`,
+      dashNumber: slot.dashNumber,
+      pilotId: slot.pilot.id,
+      pilotCallsign: slot.pilot.callsign,
+      boardNumber: String(slot.pilot.boardNumber),
+      score: scored.score,
+      reasons: [
+        ...scored.reasons,
+        from
+          ? `Moved from ${from}; the placement as a whole scores higher this way`
+          : `Placed instead of ${poolById.get(originalPilots[i])!.callsign}; the placement as a whole scores higher this way`
+      ]
+    });
+  });
+}
+
 /**
  * New configurable auto-assign pilots function
  * @param flights Available flights to assign pilots to
@@ -200,19 +360,24 @@ async function consolidateSingletonFlights(
  * @param assignedPilots Current assignment state
  * @param allPilotQualifications Qualification data for all pilots
  * @param config Auto-assignment configuration
- * @returns Object with new assignments and suggested mission commander
+ * @param history Recent sorties/leads per pilot id, used to rotate slots across the roster
+ * @param plannedAbsences Pilots planned to be away for the event (pilot id to reason); skipped unless they accepted anyway
+ * @returns Object with new assignments, suggested mission commander and why each pilot was placed
  */
 export const autoAssignPilots = async (
   flights: Flight[],
   availablePilots: Pilot[],
   assignedPilots: Record<string, AssignedPilot[]>,
-  allPilotQualifications: Record<string, any[]>,
+  allPilotQualifications: Record<string, PilotQualificationEntry[]>,
   config: AutoAssignConfig,
-  pilotSquadronMap?: Record<string, any>,
-  cycleId?: string
+  pilotSquadronMap?: Record<string, PilotSquadronEntry>,
+  cycleId?: string,
+  history?: Record<string, PilotAssignmentHistory>,
+  plannedAbsences?: Record<string, string>
 ): Promise<{
   newAssignments: Record<string, AssignedPilot[]>,
-  suggestedMissionCommander: MissionCommanderInfo | null
+  suggestedMissionCommander: MissionCommanderInfo | null,
+  explanations: AssignmentExplanation[]
 }> => {
   
   console.log('[AUTO-ASSIGN-DEBUG] Starting auto-assign with:', {
@@ -226,7 +391,8 @@ export const autoAssignPilots = async (
   if (!flights || flights.length === 0 || !availablePilots || availablePilots.length === 0) {
     return {
       newAssignments: { ...assignedPilots },
-      suggestedMissionCommander: null
+      suggestedMissionCommander: null,
+      explanations: []
     };
   }
 
@@ -251,7 +417,7 @@ export const autoAssignPilots = async (
   
   if (pilotSquadronMap && Object.keys(pilotSquadronMap).length > 0) {
     // Use cached squadron data if available
-    const uniqueSquadrons = new Map<string, any>();
+    const uniqueSquadrons = new Map<string, PilotSquadronEntry>();
     Object.values(pilotSquadronMap).forEach(squadron => {
       if (squadron && squadron.id) {
         uniqueSquadrons.set(squadron.id, squadron);
@@ -261,7 +427,7 @@ export const autoAssignPilots = async (
     squadronCallsigns = Array.from(uniqueSquadrons.values()).map(squadron => ({
       squadronId: squadron.id,
       designation: squadron.designation || 'Unknown Squadron',
-      callsigns: Array.isArray(squadron.callsigns) ? squadron.callsigns.filter((c: any) => typeof c === 'string') : [],
+      callsigns: Array.isArray(squadron.callsigns) ? squadron.callsigns.filter((c): c is string => typeof c === 'string') : [],
       squadronType: (squadron.squadron_type as 'operational' | 'training') || 'operational'
     }));
     
@@ -272,7 +438,8 @@ export const autoAssignPilots = async (
       console.error('❌ Failed to fetch squadron callsigns:', error);
       return {
         newAssignments,
-        suggestedMissionCommander: null
+        suggestedMissionCommander: null,
+        explanations: []
       };
     }
     squadronCallsigns = squadronMappings || [];
@@ -302,6 +469,13 @@ export const autoAssignPilots = async (
     !assignedPilotIds.has(pilot.id) && !assignedPilotIds.has(String(pilot.boardNumber))
   );
 
+  // A pilot who is planned to be away only gets a slot if they showed up or accepted regardless
+  if (plannedAbsences && Object.keys(plannedAbsences).length > 0) {
+    availablePilotPool = availablePilotPool.filter(pilot =>
+      !plannedAbsences[pilot.id] || pilot.rollCallStatus === 'Present' || pilot.attendanceStatus === 'accepted'
+    );
+  }
+
   console.log('[AUTO-ASSIGN-DEBUG] Available pilot pool after filtering assigned:', {
     totalCount: availablePilotPool.length,
     pilotsWithStatus: availablePilotPool.filter(p => p.rollCallStatus || p.attendanceStatus).map(p => ({
@@ -325,36 +499,44 @@ export const autoAssignPilots = async (
     squadron: getSquadronForCallsign(f.callsign, squadronCallsigns)?.designation || 'none'
   })), null, 2));
 
+  // Why each pilot was placed, keyed by pilot id
+  const explanations: ExplanationMap = new Map();
+
   // Execute assignment strategy
   if (config.trainingMode) {
     console.log('[STRATEGY-DEBUG] Using training mode IP-to-trainee assignment');
-    await executeTrainingAssignment(flightOrder, availablePilotPool, newAssignments, allPilotQualifications, squadronCallsigns, config, pilotSquadronMap, cycleId);
+    await executeTrainingAssignment(flightOrder, availablePilotPool, newAssignments, allPilotQualifications, squadronCallsigns, config, explanations, pilotSquadronMap, cycleId, history);
   } else {
     console.log(`[STRATEGY-DEBUG] Using ${config.flightFillingPriority} strategy`);
     if (config.flightFillingPriority === 'depth') {
       console.log('[STRATEGY-DEBUG] Executing depth-first assignment');
-      await executeDepthFirstAssignment(flightOrder, availablePilotPool, newAssignments, allPilotQualifications, squadronCallsigns, config, pilotSquadronMap);
+      await executeDepthFirstAssignment(flightOrder, availablePilotPool, newAssignments, allPilotQualifications, squadronCallsigns, config, explanations, pilotSquadronMap, history);
     } else {
       console.log('[STRATEGY-DEBUG] Executing breadth-first assignment');
-      await executeBreadthFirstAssignment(flightOrder, availablePilotPool, newAssignments, allPilotQualifications, squadronCallsigns, config, pilotSquadronMap);
+      await executeBreadthFirstAssignment(flightOrder, availablePilotPool, newAssignments, allPilotQualifications, squadronCallsigns, config, explanations, pilotSquadronMap, history);
     }
   }
 
   // Pass 2: Singleton Consolidation - Only run for depth-first (breadth-first and training intentionally create balanced flights)
   if (config.flightFillingPriority === 'depth' && !config.trainingMode) {
     console.log('[CONSOLIDATION-DEBUG] Running singleton consolidation for depth-first strategy');
-    await consolidateSingletonFlights(flightOrder, newAssignments, squadronCallsigns, config, allPilotQualifications, pilotSquadronMap);
+    await consolidateSingletonFlights(flightOrder, newAssignments, squadronCallsigns, config, allPilotQualifications, explanations, pilotSquadronMap);
   } else {
     console.log('[CONSOLIDATION-DEBUG] Skipping singleton consolidation (breadth-first or training mode)');
   }
 
-  // Find mission commander candidate
-  const suggestedMissionCommander = findMissionCommander(flights, newAssignments, allPilotQualifications);
+  // Pass 3: Compare whole placements - training mode keeps its IP/trainee pairing as assigned
+  if (!config.trainingMode) {
+    improvePlacement(flightOrder, availablePilotPool, newAssignments, allPilotQualifications, squadronCallsigns, config, explanations, pilotSquadronMap, history);
+  }
 
+  // Find mission commander candidate
+  const suggestedMissionCommander = findMissionCommander(flights, newAssignments, allPilotQualifications, history);
 
   return {
     newAssignments,
-    suggestedMissionCommander
+    suggestedMissionCommander,
+    explanations: collectExplanations(flights, newAssignments, explanations)
   };
 };
 
@@ -390,10 +572,12 @@ async function executeDepthFirstAssignment(
   flightOrder: Flight[],
   availablePilotPool: Pilot[],
   newAssignments: Record<string, AssignedPilot[]>,
-  allPilotQualifications: Record<string, any[]>,
+  allPilotQualifications: Record<string, PilotQualificationEntry[]>,
   squadronCallsigns: SquadronCallsignMapping[],
   config: AutoAssignConfig,
-  pilotSquadronMap?: Record<string, any>
+  explanations: ExplanationMap,
+  pilotSquadronMap?: Record<string, PilotSquadronEntry>,
+  history?: Record<string, PilotAssignmentHistory>
 ): Promise<void> {
 
   for (const flight of flightOrder) {
@@ -408,18 +592,20 @@ async function executeDepthFirstAssignment(
         continue;
       }
 
-      const bestPilot = await findBestPilotForPosition(
+      const best = await findBestPilotForPosition(
         flight, 
         position, 
         availablePilotPool, 
         allPilotQualifications, 
         squadronCallsigns, 
         config,
-        pilotSquadronMap
+        pilotSquadronMap,
+        history
       );
 
-      if (bestPilot) {
-        assignPilot(bestPilot, flight, position.substring(1), newAssignments);
+      if (best) {
+        const bestPilot = best.pilot;
+        assignPilot(bestPilot, flight, position.substring(1), newAssignments, explanations, best.reasons, best.score);
         // Remove pilot from available pool
         availablePilotPool = availablePilotPool.filter(p => p.id !== bestPilot.id && p.boardNumber !== bestPilot.boardNumber);
       }
@@ -435,11 +621,13 @@ async function executeTrainingAssignment(
   flightOrder: Flight[],
   availablePilotPool: Pilot[],
   newAssignments: Record<string, AssignedPilot[]>,
-  allPilotQualifications: Record<string, any[]>,
+  allPilotQualifications: Record<string, PilotQualificationEntry[]>,
   squadronCallsigns: SquadronCallsignMapping[],
   config: AutoAssignConfig,
-  pilotSquadronMap?: Record<string, any>,
-  cycleId?: string
+  explanations: ExplanationMap,
+  pilotSquadronMap?: Record<string, PilotSquadronEntry>,
+  cycleId?: string,
+  history?: Record<string, PilotAssignmentHistory>
 ): Promise<void> {
   console.log('[TRAINING-ASSIGN-DEBUG] Starting training assignment');
   console.log('[TRAINING-ASSIGN-DEBUG] Squadron mappings:', squadronCallsigns.map(s => ({
@@ -709,13 +897,21 @@ async function executeTrainingAssignment(
     if (assignedTraineesCount > 0) {
       // Assign IPs
       flightIPs.forEach((ip, idx) => {
-        assignPilot(ip, flight, ipPositions[idx], newAssignments);
+        assignPilot(ip, flight, ipPositions[idx], newAssignments, explanations, [
+          `Instructor for ${ratio} IP:trainee pairing`,
+          enrolledInstructorIds.size > 0 ? 'Enrolled as an instructor in this cycle' : 'Holds an Instructor Pilot qualification',
+          'IPs are taken in billet seniority order'
+        ]);
         console.log(`[TRAINING-ASSIGN-DEBUG] Assigned IP ${ip.callsign} to ${flight.callsign}-${ipPositions[idx]}`);
       });
 
       // Assign trainees
       flightTrainees.forEach((trainee, idx) => {
-        assignPilot(trainee, flight, traineePositions[idx], newAssignments);
+        assignPilot(trainee, flight, traineePositions[idx], newAssignments, explanations, [
+          `Trainee for ${ratio} IP:trainee pairing`,
+          enrolledTraineeIds.size > 0 ? 'Enrolled as a trainee in this cycle' : 'Holds no lead qualifications',
+          'Trainees are taken in board number order'
+        ]);
         console.log(`[TRAINING-ASSIGN-DEBUG] Assigned trainee ${trainee.callsign} to ${flight.callsign}-${traineePositions[idx]}`);
       });
 
@@ -766,7 +962,9 @@ async function executeTrainingAssignment(
         allPilotQualifications,
         squadronCallsigns,
         { ...config, trainingMode: false },
-        pilotSquadronMap
+        explanations,
+        pilotSquadronMap,
+        history
       );
     } else if (flightsForNonTrainees.length === 0 && pilotsForOperationalFlights.length > 0) {
       console.log(`[TRAINING-ASSIGN-DEBUG] No operational squadron flights available - ${pilotsForOperationalFlights.length} pilots will remain unassigned`);
@@ -807,7 +1005,10 @@ async function executeTrainingAssignment(
         }
 
         if (canAssign) {
-          assignPilot(nonTrainee, flight, position, newAssignments);
+          assignPilot(nonTrainee, flight, position, newAssignments, explanations, [
+            'Non-trainee integrated into an open slot of a training flight',
+            'Non-trainees are taken in billet seniority order'
+          ]);
           console.log(`[TRAINING-ASSIGN-DEBUG] Integrated non-trainee ${nonTrainee.callsign} to ${flight.callsign}-${position}`);
         }
 
@@ -827,10 +1028,12 @@ async function executeBreadthFirstAssignment(
   flightOrder: Flight[],
   availablePilotPool: Pilot[],
   newAssignments: Record<string, AssignedPilot[]>,
-  allPilotQualifications: Record<string, any[]>,
+  allPilotQualifications: Record<string, PilotQualificationEntry[]>,
   squadronCallsigns: SquadronCallsignMapping[],
   config: AutoAssignConfig,
-  pilotSquadronMap?: Record<string, any>
+  explanations: ExplanationMap,
+  pilotSquadronMap?: Record<string, PilotSquadronEntry>,
+  history?: Record<string, PilotAssignmentHistory>
 ): Promise<void> {
 
   console.log('[BREADTH-DEBUG] Starting breadth-first assignment - targeting balanced flights');
@@ -857,18 +1060,20 @@ async function executeBreadthFirstAssignment(
 
         console.log(`[BREADTH-DEBUG] Attempting to fill ${flight.callsign}-${flight.flightNumber || 'X'} position -${nextPosition} (current size: ${newAssignments[flight.id]?.length || 0}, target: ${targetSize})`);
 
-        const bestPilot = await findBestPilotForPosition(
+        const best = await findBestPilotForPosition(
           flight,
           `-${nextPosition}`,
           availablePilotPool,
           allPilotQualifications,
           squadronCallsigns,
           config,
-          pilotSquadronMap
+          pilotSquadronMap,
+          history
         );
 
-        if (bestPilot) {
-          assignPilot(bestPilot, flight, nextPosition.toString(), newAssignments);
+        if (best) {
+          const bestPilot = best.pilot;
+          assignPilot(bestPilot, flight, nextPosition.toString(), newAssignments, explanations, best.reasons, best.score);
           console.log(`[BREADTH-DEBUG] Assigned ${bestPilot.callsign} to ${flight.callsign}-${flight.flightNumber || 'X'} position -${nextPosition}`);
 
           // Remove pilot from available pool
@@ -898,251 +1103,186 @@ async function executeBreadthFirstAssignment(
 }
 
 /**
- * Find the best pilot for a specific position using gate-based filtering
+ * Find the best pilot for a specific position by scoring every eligible candidate
  */
 async function findBestPilotForPosition(
   flight: Flight,
   position: string,
   availablePilots: Pilot[],
-  allPilotQualifications: Record<string, any[]>,
+  allPilotQualifications: Record<string, PilotQualificationEntry[]>,
   squadronCallsigns: SquadronCallsignMapping[],
   config: AutoAssignConfig,
-  pilotSquadronMap?: Record<string, any>
-): Promise<Pilot | null> {
+  pilotSquadronMap?: Record<string, PilotSquadronEntry>,
+  history?: Record<string, PilotAssignmentHistory>
+): Promise<ScoredCandidate | null> {
   const flightSquadron = getSquadronForCallsign(flight.callsign, squadronCallsigns);
-  const gates = buildGatesForPosition(position, flightSquadron, config);
 
+  const candidates = availablePilots
+    .map(pilot => scorePilotForPosition(pilot, flight, position, flightSquadron, allPilotQualifications, config, pilotSquadronMap, history))
+    .filter((candidate): candidate is ScoredCandidate => candidate !== null)
+    .sort(compareCandidates);
 
-  for (let gateIndex = 0; gateIndex < gates.length; gateIndex++) {
-    const gate = gates[gateIndex];
-    const candidates = filterPilotsByGate(availablePilots, gate, allPilotQualifications, pilotSquadronMap);
+  console.log(`[SCORE-DEBUG] ${flight.callsign}${position}: ${candidates.length} eligible of ${availablePilots.length} (${candidates.slice(0, 3).map(c => `${c.pilot.callsign}=${c.score}`).join(', ')})`);
 
-    console.log(`[GATE-DEBUG] ${flight.callsign}${position} Gate ${gateIndex + 1}: ${candidates.length} candidates found (attendance: [${gate.attendance.join(', ')}], squadron: ${gate.squadron?.designation || 'any'}, quals: ${Array.isArray(gate.qualifications) ? gate.qualifications.join(',') : gate.qualifications || 'any'})`);
+  if (candidates.length === 0) {
+    return null;
+  }
 
-    if (candidates.length > 0) {
-      // Tiebreaker: select by billet seniority (lowest order number)
-      const bestPilot = selectByBilletSeniority(candidates);
-      console.log(`[GATE-DEBUG] ${flight.callsign}${position} Selected: ${bestPilot.callsign}`);
-      return bestPilot;
-    }
+  const [best, runnerUp] = candidates;
+  if (!runnerUp) {
+    best.reasons.push('Only eligible pilot for this slot');
+  } else if (runnerUp.score === best.score) {
+    best.reasons.push(`Tied with ${runnerUp.pilot.callsign} at ${best.score}; chosen by billet seniority, then board number`);
+  } else {
+    best.reasons.push(`Best of ${candidates.length} eligible pilots (next: ${runnerUp.pilot.callsign} at ${runnerUp.score})`);
   }
 
-  return null;
+  console.log(`[SCORE-DEBUG] ${flight.callsign}${position} Selected: ${best.pilot.callsign}`);
+  return best;
 }
 
 /**
- * Build gates for a specific position type
+ * Score a pilot for a position. Returns null when a hard constraint rules the
+ * pilot out (attendance, enforced squadron cohesion, or a missing lead
+ * qualification when unqualified pilots aren't allowed).
  */
-function buildGatesForPosition(
+function scorePilotForPosition(
+  pilot: Pilot,
+  flight: Flight,
   position: string,
   flightSquadron: SquadronCallsignMapping | null,
-  config: AutoAssignConfig
-): AssignmentGate[] {
-  const gates: AssignmentGate[] = [];
-  const attendanceOptions = config.includeTentative ? ['accepted', 'tentative'] : ['accepted'];
-  
-  // For training squadrons, always treat as if squadron cohesion is not enforced
+  allPilotQualifications: Record<string, PilotQualificationEntry[]>,
+  config: AutoAssignConfig,
+  pilotSquadronMap?: Record<string, PilotSquadronEntry>,
+  history?: Record<string, PilotAssignmentHistory>
+): ScoredCandidate | null {
+  const attendance = getEffectiveAttendance(pilot);
+  if (!attendance || (attendance === 'tentative' && !config.includeTentative)) {
+    return null;
+  }
+
+  const reasons: string[] = [];
+  let score = 0;
+
+  // Squadron cohesion - training squadrons are always treated as relaxed
   const isTrainingSquadron = flightSquadron?.squadronType === 'training';
   const effectiveCohesion = isTrainingSquadron ? 'prioritized' : config.squadronCohesion;
+  if (flightSquadron && pilotSquadronMap) {
+    const pilotSquadron = pilotSquadronMap[pilot.id] || pilotSquadronMap[pilot.boardNumber];
+    if (pilotSquadron && pilotSquadron.id === flightSquadron.squadronId) {
+      score += SCORE.sameSquadron;
+      reasons.push(`Same squadron as ${flightSquadron.designation} (${formatPoints(SCORE.sameSquadron)})`);
+    } else if (effectiveCohesion === 'enforced') {
+      return null;
+    } else {
+      reasons.push(`From ${pilotSquadron?.designation || 'no squadron'}, outside ${flightSquadron.designation} (+0)`);
+    }
+  }
 
+  // Qualification fit for the slot
+  const isLeadSlot = position === '-1' || position === '-3';
   if (position === '-1') {
-    // Gate 1: Mission Commander + Same Squadron (for all modes)
-    gates.push({
-      attendance: attendanceOptions,
-      squadron: flightSquadron,
-      qualifications: ['Mission Commander']
-    });
-
-    // Gate 2: Mission Commander + Any Squadron (for prioritized/ignore modes)
-    if (effectiveCohesion !== 'enforced') {
-      gates.push({
-        attendance: attendanceOptions,
-        squadron: null,
-        qualifications: ['Mission Commander']
-      });
+    if (hasRequiredQualifications(pilot, ['Mission Commander'], allPilotQualifications)) {
+      score += SCORE.missionCommander;
+      reasons.push(`Mission Commander qualified for flight lead (${formatPoints(SCORE.missionCommander)})`);
+    } else if (hasRequiredQualifications(pilot, ['Flight Lead'], allPilotQualifications)) {
+      score += SCORE.qualified;
+      reasons.push(`Flight Lead qualified (${formatPoints(SCORE.qualified)})`);
+    } else if (config.assignUnqualified) {
+      reasons.push(`Not Flight Lead qualified; allowed by Assign Unqualified (${formatPoints(SCORE.unqualified)})`);
+    } else {
+      return null;
     }
-
-    // Gate 3: Flight Lead + Same Squadron (for all modes)
-    gates.push({
-      attendance: attendanceOptions,
-      squadron: flightSquadron,
-      qualifications: ['Flight Lead']
-    });
-
-    // Gate 4: Flight Lead + Any Squadron (for prioritized/ignore modes)
-    if (effectiveCohesion !== 'enforced') {
-      gates.push({
-        attendance: attendanceOptions,
-        squadron: null,
-        qualifications: ['Flight Lead']
-      });
+  } else if (position === '-3') {
+    if (hasRequiredQualifications(pilot, ['Section Lead'], allPilotQualifications)) {
+      score += SCORE.qualified;
+      reasons.push(`Section Lead qualified (${formatPoints(SCORE.qualified)})`);
+    } else if (config.assignUnqualified) {
+      reasons.push(`Not Section Lead qualified; allowed by Assign Unqualified (${formatPoints(SCORE.unqualified)})`);
+    } else {
+      return null;
     }
+  } else if (hasOverQualifications(pilot, allPilotQualifications)) {
+    score += SCORE.overqualifiedWingman;
+    reasons.push(`Lead qualified, kept for lead slots where possible (${formatPoints(SCORE.overqualifiedWingman)})`);
+  } else {
+    score += SCORE.qualified;
+    reasons.push(`Wingman slot matches qualifications (${formatPoints(SCORE.qualified)})`);
+  }
 
-    // Gate 5: Unqualified + Same Squadron (if allowing unqualified)
-    if (config.assignUnqualified) {
-      gates.push({
-        attendance: attendanceOptions,
-        squadron: flightSquadron,
-        qualifications: null
-      });
-
-      // Gate 6: Unqualified + Any Squadron (for prioritized/ignore modes)
-      if (effectiveCohesion !== 'enforced') {
-        gates.push({
-          attendance: attendanceOptions,
-          squadron: null,
-          qualifications: null
-        });
-      }
-    }
-  } else if (position === '-3') {
-    // Section Lead position gates
-    gates.push({
-      attendance: attendanceOptions,
-      squadron: flightSquadron,
-      qualifications: ['Section Lead']
-    });
+  // Attendance - confirmed pilots ahead of tentative ones
+  if (attendance === 'accepted') {
+    score += SCORE.accepted;
+    reasons.push(`Confirmed attendance (${formatPoints(SCORE.accepted)})`);
+  } else {
+    reasons.push('Tentative attendance (+0)');
+  }
 
-    if (effectiveCohesion !== 'enforced') {
-      gates.push({
-        attendance: attendanceOptions,
-        squadron: null,
-        qualifications: ['Section Lead']
-      });
-    }
+  // Recent history - spread sorties and lead slots across the roster
+  const pilotHistory = history?.[pilot.id];
+  if (pilotHistory?.sorties) {
+    const penalty = Math.max(SCORE.recentSortie * pilotHistory.sorties, SCORE.maxSortiePenalty);
+    score += penalty;
+    reasons.push(`Flew ${pilotHistory.sorties} mission${pilotHistory.sorties === 1 ? '' : 's'} this cycle (${formatPoints(penalty)})`);
+  }
+  if (isLeadSlot && pilotHistory?.leads) {
+    const penalty = Math.max(SCORE.recentLead * pilotHistory.leads, SCORE.maxLeadPenalty);
+    score += penalty;
+    reasons.push(`Led ${pilotHistory.leads} element${pilotHistory.leads === 1 ? '' : 's'} this cycle (${formatPoints(penalty)})`);
+  }
+  if (isUnpopularFlight(flight) && pilotHistory?.unpopular) {
+    const penalty = Math.max(SCORE.recentUnpopular * pilotHistory.unpopular, SCORE.maxUnpopularPenalty);
+    score += penalty;
+    reasons.push(`Already took ${pilotHistory.unpopular} tanker/support slot${pilotHistory.unpopular === 1 ? '' : 's'} this cycle (${formatPoints(penalty)})`);
+  }
 
-    if (config.assignUnqualified) {
-      gates.push({
-        attendance: attendanceOptions,
-        squadron: flightSquadron,
-        qualifications: null
-      });
+  return { pilot, score, reasons };
+}
 
-      if (effectiveCohesion !== 'enforced') {
-        gates.push({
-          attendance: attendanceOptions,
-          squadron: null,
-          qualifications: null
-        });
-      }
-    }
-  } else if (position === '-2' || position === '-4') {
-    // Wingman positions - prefer non-overqualified pilots
-    gates.push({
-      attendance: attendanceOptions,
-      squadron: flightSquadron,
-      qualifications: 'NOT_OVERQUALIFIED'
-    });
+/**
+ * Check if a flight is a tanker flight, by mission group task or callsign.
+ * Tanker flights are the slots nobody volunteers for, so they rotate too.
+ */
+function isUnpopularFlight(flight: PrepFlight): boolean {
+  if (flight.extractedFlightData?.task === 'Refueling') return true;
+  return TANKER_CALLSIGNS.includes(flight.callsign.toUpperCase());
+}
 
-    if (effectiveCohesion !== 'enforced') {
-      gates.push({
-        attendance: attendanceOptions,
-        squadron: null,
-        qualifications: 'NOT_OVERQUALIFIED'
-      });
-    }
+/**
+ * Order candidates by score, then billet seniority, then board number, so the
+ * result never depends on the order pilots were passed in
+ */
+function compareCandidates(a: ScoredCandidate, b: ScoredCandidate): number {
+  if (a.score !== b.score) return b.score - a.score;
 
-    // Fallback to any pilot
-    gates.push({
-      attendance: attendanceOptions,
-      squadron: flightSquadron,
-      qualifications: null
-    });
+  const billetDiff = getBilletOrder(a.pilot) - getBilletOrder(b.pilot);
+  if (billetDiff !== 0) return billetDiff;
 
-    if (effectiveCohesion !== 'enforced') {
-      gates.push({
-        attendance: attendanceOptions,
-        squadron: null,
-        qualifications: null
-      });
-    }
-  }
+  const boardDiff = (Number(a.pilot.boardNumber) || 9999) - (Number(b.pilot.boardNumber) || 9999);
+  if (boardDiff !== 0) return boardDiff;
 
-  return gates;
+  return (a.pilot.callsign || '').localeCompare(b.pilot.callsign || '');
 }
 
 /**
- * Filter pilots by gate criteria
+ * Get a pilot's attendance - Roll Call takes precedence over Discord, and a
+ * roll call of Absent means unavailable regardless of the Discord response
  */
-function filterPilotsByGate(
-  pilots: Pilot[],
-  gate: AssignmentGate,
-  allPilotQualifications: Record<string, any[]>,
-  pilotSquadronMap?: Record<string, any>
-): Pilot[] {
-  return pilots.filter(pilot => {
-    // Check attendance - prioritize Roll Call over Discord
-    const rollCall = pilot.rollCallStatus;
-    const discord = pilot.attendanceStatus;
-    
-    let attendanceMatch = false;
-    
-    // If roll call status exists, use that (it takes precedence over Discord)
-    if (rollCall) {
-      if (gate.attendance.includes('accepted') && rollCall === 'Present') {
-        attendanceMatch = true;
-        console.log(`[ATTENDANCE-DEBUG] ${pilot.callsign}: Roll call Present matched accepted gate`);
-      }
-      if (gate.attendance.includes('tentative') && rollCall === 'Tentative') {
-        attendanceMatch = true;
-        console.log(`[ATTENDANCE-DEBUG] ${pilot.callsign}: Roll call Tentative matched tentative gate`);
-      }
-      // Roll call 'Absent' means pilot is not available, regardless of Discord status
-      if (rollCall === 'Absent') {
-        attendanceMatch = false;
-        console.log(`[ATTENDANCE-DEBUG] ${pilot.callsign}: Roll call Absent - not available`);
-      }
-    } else {
-      // Fall back to Discord attendance only if no roll call status
-      if (gate.attendance.includes('accepted') && discord === 'accepted') {
-        attendanceMatch = true;
-        console.log(`[ATTENDANCE-DEBUG] ${pilot.callsign}: Discord accepted matched accepted gate`);
-      }
-      if (gate.attendance.includes('tentative') && discord === 'tentative') {
-        attendanceMatch = true;
-        console.log(`[ATTENDANCE-DEBUG] ${pilot.callsign}: Discord tentative matched tentative gate`);
-      }
-    }
-    
-    // Only log attendance mismatches for pilots that have some status (avoid spam from pilots with no data)
-    if (!attendanceMatch && (rollCall || discord)) {
-      console.log(`[ATTENDANCE-DEBUG] ${pilot.callsign}: NO MATCH - rollCall: ${rollCall}, discord: ${discord}, gateAttendance: [${gate.attendance.join(', ')}], includeTentative: ${gate.attendance.includes('tentative')}`);
-    }
-    
-    if (!attendanceMatch) return false;
-
-    // Check squadron requirement
-    if (gate.squadron && pilotSquadronMap) {
-      const pilotSquadron = pilotSquadronMap[pilot.id] || pilotSquadronMap[pilot.boardNumber];
-      if (!pilotSquadron || pilotSquadron.id !== gate.squadron.squadronId) {
-        console.log(`[SQUADRON-DEBUG] ${pilot.callsign}: FAILED squadron check - pilot squadron: ${pilotSquadron?.designation || 'none'}, required: ${gate.squadron.designation}`);
-        return false; // Pilot not from required squadron
-      }
-    }
-
-    // Check qualifications
-    if (gate.qualifications === 'NOT_OVERQUALIFIED') {
-      const isOverqualified = hasOverQualifications(pilot, allPilotQualifications);
-      if (isOverqualified) {
-        console.log(`[QUALS-DEBUG] ${pilot.callsign}: FAILED overqualification check - is overqualified for wingman position`);
-      }
-      return !isOverqualified;
-    } else if (gate.qualifications && Array.isArray(gate.qualifications)) {
-      const hasQuals = hasRequiredQualifications(pilot, gate.qualifications, allPilotQualifications);
-      if (!hasQuals) {
-        console.log(`[QUALS-DEBUG] ${pilot.callsign}: FAILED qualification check - missing required: ${gate.qualifications.join(', ')}`);
-      }
-      return hasQuals;
-    }
-
-    return true;
-  });
+function getEffectiveAttendance(pilot: Pilot): 'accepted' | 'tentative' | null {
+  if (pilot.rollCallStatus) {
+    if (pilot.rollCallStatus === 'Present') return 'accepted';
+    if (pilot.rollCallStatus === 'Tentative') return 'tentative';
+    return null;
+  }
+  if (pilot.attendanceStatus === 'accepted') return 'accepted';
+  if (pilot.attendanceStatus === 'tentative') return 'tentative';
+  return null;
 }
 
 /**
  * Check if pilot has required qualifications
  */
-function hasRequiredQualifications(pilot: Pilot, requiredQuals: string[], allPilotQualifications: Record<string, any[]>): boolean {
+function hasRequiredQualifications(pilot: Pilot | AssignedPilot, requiredQuals: string[], allPilotQualifications: Record<string, PilotQualificationEntry[]>): boolean {
   const pilotQuals = allPilotQualifications[pilot.id] || allPilotQualifications[pilot.boardNumber] || [];
   
   return requiredQuals.some(reqQual => {
@@ -1166,7 +1306,7 @@ function hasRequiredQualifications(pilot: Pilot, requiredQuals: string[], allPil
 /**
  * Check if pilot has over-qualifications (FL/SL/MC for wingman positions)
  */
-function hasOverQualifications(pilot: Pilot, allPilotQualifications: Record<string, any[]>): boolean {
+function hasOverQualifications(pilot: Pilot, allPilotQualifications: Record<string, PilotQualificationEntry[]>): boolean {
   const pilotQuals = allPilotQualifications[pilot.id] || allPilotQualifications[pilot.boardNumber] || [];
   
   return pilotQuals.some(qual => {
@@ -1178,17 +1318,6 @@ function hasOverQualifications(pilot: Pilot, allPilotQualifications: Record<stri
   });
 }
 
-/**
- * Select pilot by billet seniority (lowest order number)
- */
-function selectByBilletSeniority(candidates: Pilot[]): Pilot {
-  return candidates.reduce((best, current) => {
-    const bestOrder = getBilletOrder(best);
-    const currentOrder = getBilletOrder(current);
-    return currentOrder < bestOrder ? current : best;
-  });
-}
-
 /**
  * Get billet order for seniority comparison
  */
@@ -1205,7 +1334,15 @@ function getBilletOrder(pilot: Pilot | AssignedPilot): number {
 /**
  * Assign pilot to flight position
  */
-function assignPilot(pilot: Pilot, flight: Flight, dashNumber: string, newAssignments: Record<string, AssignedPilot[]>): void {
+function assignPilot(
+  pilot: Pilot,
+  flight: Flight,
+  dashNumber: string,
+  newAssignments: Record<string, AssignedPilot[]>,
+  explanations: ExplanationMap,
+  reasons: string[],
+  score: number | null = null
+): void {
   if (!newAssignments[flight.id]) {
     newAssignments[flight.id] = [];
   }
@@ -1213,38 +1350,82 @@ function assignPilot(pilot: Pilot, flight: Flight, dashNumber: string, newAssign
   const assignedPilot: AssignedPilot = { ...pilot, boardNumber: String(pilot.boardNumber), dashNumber };
   newAssignments[flight.id].push(assignedPilot);
 
+  explanations.set(pilot.id, {
+    flightId: flight.id,
+    flightLabel: `${flight.callsign} ${flight.flightNumber}`,
+    dashNumber,
+    pilotId: pilot.id,
+    pilotCallsign: pilot.callsign,
+    boardNumber: String(pilot.boardNumber),
+    score,
+    reasons
+  });
 }
 
 /**
- * Find mission commander candidate
+ * List explanations for the pilots placed in this run, in flight and dash
+ * order, using each pilot's final slot (consolidation may have moved them)
  */
-function findMissionCommander(
+function collectExplanations(
   flights: Flight[],
   newAssignments: Record<string, AssignedPilot[]>,
-  _allPilotQualifications: Record<string, any[]>
-): MissionCommanderInfo | null {
-  let bestMissionCommander: { pilot: AssignedPilot; flight: Flight; billetOrder: number } | null = null;
+  explanations: ExplanationMap
+): AssignmentExplanation[] {
+  const result: AssignmentExplanation[] = [];
 
   for (const flight of flights) {
-    const flightLead = newAssignments[flight.id]?.find(p => p.dashNumber === '1');
-    if (flightLead) {
-      const billetOrder = getBilletOrder(flightLead);
-      
-      if (!bestMissionCommander || billetOrder < bestMissionCommander.billetOrder) {
-        bestMissionCommander = { pilot: flightLead, flight, billetOrder };
-      }
+    const flightPilots = [...(newAssignments[flight.id] || [])].sort((a, b) => a.dashNumber.localeCompare(b.dashNumber));
+    for (const assigned of flightPilots) {
+      const explanation = explanations.get(assigned.id);
+      if (!explanation) continue; // Kept from before this run (Fill Gaps)
+      result.push({
+        ...explanation,
+        flightId: flight.id,
+        flightLabel: `${flight.callsign} ${flight.flightNumber}`,
+        dashNumber: assigned.dashNumber
+      });
     }
   }
 
-  if (bestMissionCommander) {
-    return {
-      boardNumber: bestMissionCommander.pilot.boardNumber,
-      callsign: bestMissionCommander.pilot.callsign,
-      flightId: bestMissionCommander.flight.id,
-      flightCallsign: bestMissionCommander.flight.callsign,
-      flightNumber: bestMissionCommander.flight.flightNumber
-    };
+  return result;
+}
+
+/**
+ * Find mission commander candidate among the flight leads. Mission Commander
+ * qualified leads come first, then whoever has held the role least this cycle,
+ * then billet seniority.
+ */
+function findMissionCommander(
+  flights: Flight[],
+  newAssignments: Record<string, AssignedPilot[]>,
+  allPilotQualifications: Record<string, PilotQualificationEntry[]>,
+  history?: Record<string, PilotAssignmentHistory>
+): MissionCommanderInfo | null {
+  const candidates = flights
+    .map(flight => ({ flight, pilot: newAssignments[flight.id]?.find(p => p.dashNumber === '1') }))
+    .filter((c): c is { flight: Flight; pilot: AssignedPilot } => !!c.pilot)
+    .map(c => ({
+      ...c,
+      qualified: hasRequiredQualifications(c.pilot, ['Mission Commander'], allPilotQualifications),
+      timesMissionCommander: history?.[c.pilot.id]?.missionCommander || 0,
+      billetOrder: getBilletOrder(c.pilot)
+    }))
+    .sort((a, b) =>
+      Number(b.qualified) - Number(a.qualified) ||
+      a.timesMissionCommander - b.timesMissionCommander ||
+      a.billetOrder - b.billetOrder
+    );
+
+  const best = candidates[0];
+  if (!best) {
+    return null;
   }
 
-  return null;
-}
\ No newline at end of file
+  return {
+    boardNumber: best.pilot.boardNumber,
+    callsign: best.pilot.callsign,
+    flightId: best.flight.id,
+    flightCallsign: best.flight.callsign,
+    flightNumber: best.flight.flightNumber
+  };
+}
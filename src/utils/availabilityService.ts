@@ -0,0 +1,208 @@
+import { sb } from './supabaseClient';
+import { utcToZoned, WEEKDAY_LABELS } from './recurrenceUtils';
+import type { Database } from '../types/supabase';
+
+type PilotAvailabilityRow = Database['public']['Tables']['pilot_availability']['Row'];
+
+export type AvailabilityKind = 'leave' | 'weekly';
+
+/**
+ * A planned absence entered by the pilot. Leave covers every day from
+ * startDate to endDate; weekly entries cover the listed weekdays from
+ * startDate on, until endDate if one is set.
+ */
+export interface PilotAvailability {
+  id: string;
+  pilotId: string;
+  kind: AvailabilityKind;
+  startDate: string; // YYYY-MM-DD
+  endDate: string | null;
+  weekdays: number[]; // 0 = Sunday, only used by weekly entries
+  reason: string | null;
+  createdAt: string;
+}
+
+export type NewPilotAvailability = Omit<PilotAvailability, 'id' | 'createdAt'>;
+
+const mapAvailability = (row: PilotAvailabilityRow): PilotAvailability => ({
+  id: row.id,
+  pilotId: row.pilot_id,
+  kind: row.kind as AvailabilityKind,
+  startDate: row.start_date,
+  endDate: row.end_date || null,
+  weekdays: row.weekdays || [],
+  reason: row.reason || null,
+  createdAt: row.created_at
+});
+
+/**
+ * Get a pilot's availability entries, oldest first
+ */
+export const getPilotAvailability = async (pilotId: string): Promise<{ entries: PilotAvailability[]; error?: string }> => {
+  return await sb(async (supabase) => {
+    const { data, error } = await supabase
+      .from('pilot_availability')
+      .select('*')
+      .eq('pilot_id', pilotId)
+      .order('start_date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching pilot availability:', error);
+      return { entries: [], error: error.message };
+    }
+
+    return { entries: (data || []).map(mapAvailability), error: undefined };
+  });
+};
+
+/**
+ * Get availability entries for several pilots, keyed by pilot ID. Entries
+ * that ended before `fromDate` are left out.
+ */
+export const getAvailabilityForPilots = async (
+  pilotIds: string[],
+  fromDate?: string
+): Promise<{ entries: Record<string, PilotAvailability[]>; error?: string }> => {
+  if (pilotIds.length === 0) return { entries: {}, error: undefined };
+
+  return await sb(async (supabase) => {
+    let query = supabase
+      .from('pilot_availability')
+      .select('*')
+      .in('pilot_id', pilotIds);
+
+    if (fromDate) {
+      query = query.or(`end_date.is.null,end_date.gte.${fromDate}`);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching availability for pilots:', error);
+      return { entries: {}, error: error.message };
+    }
+
+    const entries: Record<string, PilotAvailability[]> = {};
+    (data || []).map(mapAvailability).forEach(entry => {
+      if (!entries[entry.pilotId]) entries[entry.pilotId] = [];
+      entries[entry.pilotId].push(entry);
+    });
+
+    return { entries, error: undefined };
+  });
+};
+
+export const createPilotAvailability = async (entry: NewPilotAvailability): Promise<{ entry: PilotAvailability | null; error?: string }> => {
+  return await sb(async (supabase) => {
+    const { data, error } = await supabase
+      .from('pilot_availability')
+      .insert({
+        pilot_id: entry.pilotId,
+        kind: entry.kind,
+        start_date: entry.startDate,
+        end_date: entry.endDate,
+        weekdays: entry.kind === 'weekly' ? entry.weekdays : [],
+        reason: entry.reason
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating pilot availability:', error);
+      return { entry: null, error: error.message };
+    }
+
+    return { entry: mapAvailability(data), error: undefined };
+  });
+};
+
+export const deletePilotAvailability = async (id: string): Promise<{ error?: string }> => {
+  return await sb(async (supabase) => {
+    const { error } = await supabase
+      .from('pilot_availability')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting pilot availability:', error);
+      return { error: error.message };
+    }
+
+    return { error: undefined };
+  });
+};
+
+/** The entry that makes a pilot unavailable on a date (YYYY-MM-DD), if any */
+export const findAbsence = (entries: PilotAvailability[], date: string): PilotAvailability | undefined =>
+  entries.find(entry => {
+    if (date < entry.startDate || (entry.endDate && date > entry.endDate)) return false;
+    if (entry.kind === 'leave') return true;
+    return entry.weekdays.includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+  });
+
+export const describeAbsence = (entry: PilotAvailability): string => {
+  if (entry.reason) return entry.reason;
+  if (entry.kind === 'leave') return 'Leave of absence';
+  return `Unavailable ${entry.weekdays.map(d => WEEKDAY_LABELS[d]).join(', ')}`;
+};
+
+/**
+ * Pilots who are planned to be away for an event, keyed by pilot ID with a
+ * short description of why. The event's date is taken in its own timezone,
+ * so a late-evening event doesn't fall on the next UTC day.
+ */
+export const plannedAbsencesOn = (
+  entriesByPilot: Record<string, PilotAvailability[]>,
+  datetime: string,
+  timeZone: string = 'UTC'
+): Record<string, string> => {
+  const { date } = utcToZoned(datetime, timeZone);
+  const absences: Record<string, string> = {};
+  Object.entries(entriesByPilot).forEach(([pilotId, entries]) => {
+    const absence = findAbsence(entries, date);
+    if (absence) absences[pilotId] = describeAbsence(absence);
+  });
+  return absences;
+};
+
+/**
+ * Fetch availability for a set of pilots and work out who is away for an event
+ */
+export const getPlannedAbsences = async (
+  pilotIds: string[],
+  datetime: string,
+  timeZone: string = 'UTC'
+): Promise<{ absences: Record<string, string>; error?: string }> => {
+  const { date } = utcToZoned(datetime, timeZone);
+  const { entries, error } = await getAvailabilityForPilots(pilotIds, date);
+  if (error) return { absences: {}, error };
+  return { absences: plannedAbsencesOn(entries, datetime, timeZone), error: undefined };
+};
+
+/**
+ * Planned absences among the pilots currently assigned to the given squadrons
+ */
+export const getSquadronPlannedAbsences = async (
+  squadronIds: string[],
+  datetime: string,
+  timeZone: string = 'UTC'
+): Promise<{ absences: Record<string, string>; error?: string }> => {
+  if (squadronIds.length === 0) return { absences: {}, error: undefined };
+
+  const { pilotIds, error } = await sb(async (supabase) => {
+    const { data, error } = await supabase
+      .from('pilot_assignments')
+      .select('pilot_id')
+      .in('squadron_id', squadronIds)
+      .is('end_date', null);
+
+    return { pilotIds: (data || []).map(a => a.pilot_id), error: error?.message };
+  });
+
+  if (error) {
+    console.error('Error fetching squadron pilots for planned absences:', error);
+    return { absences: {}, error };
+  }
+
+  return await getPlannedAbsences(pilotIds, datetime, timeZone);
+};
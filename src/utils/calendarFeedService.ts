@@ -0,0 +1,95 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../types/supabase';
+import { sb } from './supabaseClient';
+import { getWorkerUrl } from './r2StorageService';
+
+export type CalendarFeedScope =
+  | { kind: 'pilot' }
+  | { kind: 'squadron'; id: string }
+  | { kind: 'cycle'; id: string };
+
+// 32 random bytes, hex encoded; the worker accepts 32-128 alphanumerics
+const generateToken = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Subscription URL served by the storage worker. Calendar apps want
+ * webcal:// to offer a subscription rather than a one-off download.
+ */
+export const getCalendarFeedUrl = (token: string, scope: CalendarFeedScope, webcal = false): string => {
+  const path = scope.kind === 'pilot' ? 'pilot' : `${scope.kind}/${scope.id}`;
+  const url = `${getWorkerUrl()}/calendar/${token}/${path}.ics`;
+  return webcal ? url.replace(/^https?:/, 'webcal:') : url;
+};
+
+const getCurrentProfileId = async (supabase: SupabaseClient<Database>): Promise<string | null> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('id')
+    .eq('auth_user_id', user.id)
+    .single();
+
+  return profile?.id || null;
+};
+
+/**
+ * Get the signed-in user's calendar feed token, creating one the first time.
+ * There is one token per profile, so two tabs asking at once share it.
+ */
+export const getCalendarFeedToken = async (): Promise<{ token: string | null; error?: string }> => {
+  return await sb(async (supabase) => {
+    const profileId = await getCurrentProfileId(supabase);
+    if (!profileId) return { token: null, error: 'No user profile found' };
+
+    const { error: insertError } = await supabase
+      .from('calendar_feed_tokens')
+      .upsert({ user_profile_id: profileId, token: generateToken() }, { onConflict: 'user_profile_id', ignoreDuplicates: true });
+
+    if (insertError) {
+      console.error('Error creating calendar feed token:', insertError);
+      return { token: null, error: insertError.message };
+    }
+
+    const { data, error: fetchError } = await supabase
+      .from('calendar_feed_tokens')
+      .select('token')
+      .eq('user_profile_id', profileId)
+      .single();
+
+    if (fetchError) {
+      console.error('Error fetching calendar feed token:', fetchError);
+      return { token: null, error: fetchError.message };
+    }
+
+    return { token: data.token, error: undefined };
+  });
+};
+
+/**
+ * Replace the signed-in user's feed token with a new one. Calendars
+ * subscribed with the old links stop updating.
+ */
+export const regenerateCalendarFeedToken = async (): Promise<{ token: string | null; error?: string }> => {
+  return await sb(async (supabase) => {
+    const profileId = await getCurrentProfileId(supabase);
+    if (!profileId) return { token: null, error: 'No user profile found' };
+
+    const token = generateToken();
+    const { error } = await supabase
+      .from('calendar_feed_tokens')
+      .upsert(
+        { user_profile_id: profileId, token, created_at: new Date().toISOString() },
+        { onConflict: 'user_profile_id' }
+      );
+
+    if (error) {
+      console.error('Error regenerating calendar feed token:', error);
+      return { token: null, error: error.message };
+    }
+
+    return { token, error: undefined };
+  });
+};
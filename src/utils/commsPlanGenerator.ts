@@ -0,0 +1,181 @@
+/**
+ * Comms Plan Generator
+ * Reads carriers, tankers, AWACS and FARPs out of a parsed mission and
+ * proposes comms plan entries for them, so the plan doesn't have to be
+ * re-typed from the Mission Editor for every mission.
+ *
+ * Land airfield ATC frequencies come from the DCS terrain rather than the
+ * mission file, so only FARPs/heliports placed in the mission are picked up.
+ */
+
+import { hasFrequencyConflict } from './commsUtils';
+import type { CommsPlanEntry, CommsStation, CommsStationKind } from '../types/CommsTypes';
+
+const PLACEHOLDER = '——';
+const MAX_CHANNELS = 20;
+
+const CARRIER_TYPES = new Set([
+  'CVN_71', 'CVN_72', 'CVN_73', 'CVN_74', 'CVN_75', 'Stennis', 'VINSON',
+  'Forrestal', 'LHA_Tarawa', 'KUZNECOW', 'CV_1143_5'
+]);
+
+// Fields of the parsed mission read by the generator
+interface MizActionParams {
+  channel?: number;
+  modeChannel?: string;
+  frequency?: number;
+}
+
+interface MizRouteTask {
+  id?: string;
+  params?: { action?: { id?: string; params?: MizActionParams } };
+}
+
+interface MizUnit {
+  type?: string;
+  name?: string;
+  frequency?: number;
+  heliport_frequency?: number | string;
+}
+
+interface MizGroup {
+  name?: string;
+  task?: string;
+  frequency?: number;
+  units?: unknown;
+  route?: { points?: unknown };
+}
+
+interface MizCountry {
+  ship?: { group?: unknown };
+  plane?: { group?: unknown };
+  static?: { group?: unknown };
+}
+
+// Lua tables come through the parser as arrays, or as objects when sparse
+const asList = <T>(value: unknown): T[] => {
+  if (Array.isArray(value)) return value as T[];
+  if (value && typeof value === 'object') return Object.values(value) as T[];
+  return [];
+};
+
+// Aircraft group frequencies are stored in MHz, ship and beacon frequencies in Hz
+const formatMhz = (value: unknown): string | null => {
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  if (!num || isNaN(num)) return null;
+  const mhz = num > 100000 ? num / 1e6 : num;
+  return mhz.toFixed(3);
+};
+
+/**
+ * Collect the WrappedAction commands (beacons, ICLS, Link 4) set on a group's route.
+ */
+const getRouteActions = (group: MizGroup): Array<{ id: string; params: MizActionParams }> => {
+  const actions: Array<{ id: string; params: MizActionParams }> = [];
+  asList<{ task?: { params?: { tasks?: unknown } } }>(group.route?.points).forEach(point => {
+    asList<MizRouteTask>(point?.task?.params?.tasks).forEach(task => {
+      const action = task?.id === 'WrappedAction' ? task.params?.action : null;
+      if (action?.id) actions.push({ id: action.id, params: action.params || {} });
+    });
+  });
+  return actions;
+};
+
+const buildStation = (kind: CommsStationKind, name: string, group: MizGroup, freq: string | null): CommsStation => {
+  const actions = getRouteActions(group);
+  const beacon = actions.find(a => a.id === 'ActivateBeacon' && a.params.channel);
+  const icls = actions.find(a => a.id === 'ActivateICLS' && a.params.channel);
+  const link4 = actions.find(a => a.id === 'ActivateLink4' && a.params.frequency);
+
+  return {
+    kind,
+    name,
+    freq,
+    tacan: beacon ? `${beacon.params.channel}${beacon.params.modeChannel || 'X'}` : null,
+    ils: icls ? String(icls.params.channel) : null,
+    link4: link4 ? formatMhz(link4.params.frequency) : null
+  };
+};
+
+/**
+ * Extract the comms-relevant stations from the blue coalition of a parsed mission.
+ */
+export function extractCommsStations(missionData: unknown): CommsStation[] {
+  const stations: CommsStation[] = [];
+  const mission = missionData as { coalition?: { blue?: { country?: unknown } } } | null | undefined;
+  const isCarrier = (unit: MizUnit | undefined) => !!unit?.type && CARRIER_TYPES.has(unit.type);
+
+  asList<MizCountry>(mission?.coalition?.blue?.country).forEach(country => {
+    // Carriers: ship groups carrying a carrier unit or a TACAN/ICLS
+    asList<MizGroup>(country?.ship?.group).forEach(group => {
+      const units = asList<MizUnit>(group?.units);
+      const carrier = units.find(isCarrier) || units[0];
+      const station = buildStation('carrier', group?.name || carrier?.name || 'Carrier', group, formatMhz(carrier?.frequency ?? group?.frequency));
+      if (isCarrier(carrier) || station.tacan || station.ils) {
+        stations.push(station);
+      }
+    });
+
+    // Tankers and AWACS are identified by their group task
+    asList<MizGroup>(country?.plane?.group).forEach(group => {
+      if (group?.task === 'Refueling') {
+        stations.push(buildStation('tanker', group.name || 'Tanker', group, formatMhz(group.frequency)));
+      } else if (group?.task === 'AWACS') {
+        stations.push(buildStation('awacs', group.name || 'AWACS', group, formatMhz(group.frequency)));
+      }
+    });
+
+    // FARPs / heliports placed in the mission carry their own ATC frequency
+    asList<MizGroup>(country?.static?.group).forEach(group => {
+      asList<MizUnit>(group?.units).forEach(unit => {
+        const freq = formatMhz(unit?.heliport_frequency);
+        if (!freq) return;
+        stations.push({ kind: 'airfield', name: unit.name || group.name || 'FARP', freq, tacan: null, ils: null, link4: null });
+      });
+    });
+  });
+
+  return stations;
+}
+
+const isBlankEntry = (entry: CommsPlanEntry) =>
+  (entry.name === PLACEHOLDER || entry.name === '') && (entry.freq === PLACEHOLDER || entry.freq === '');
+
+/**
+ * Merge mission stations into a base plan (the current plan or a squadron
+ * template). A station updates the entry with the same name, otherwise it
+ * takes the first blank channel. Stations that don't fit are returned as
+ * unplaced; channels sharing a frequency are returned as conflicts.
+ */
+export function buildCommsPlanFromStations(
+  stations: CommsStation[],
+  base: CommsPlanEntry[]
+): { entries: CommsPlanEntry[]; conflicts: number[]; unplaced: CommsStation[] } {
+  const entries = base.map(entry => ({ ...entry }));
+  const unplaced: CommsStation[] = [];
+
+  stations.forEach(station => {
+    let index = entries.findIndex(entry => entry.name.toLowerCase() === station.name.toLowerCase());
+    if (index === -1) index = entries.findIndex(isBlankEntry);
+    if (index === -1 && entries.length < MAX_CHANNELS) {
+      entries.push({ chan: String(entries.length + 1), name: PLACEHOLDER, freq: PLACEHOLDER, tacan: PLACEHOLDER, ils: PLACEHOLDER, kyFill: PLACEHOLDER });
+      index = entries.length - 1;
+    }
+    if (index === -1) {
+      unplaced.push(station);
+      return;
+    }
+
+    const entry = entries[index];
+    entry.name = station.name;
+    if (station.freq) entry.freq = station.freq;
+    if (station.tacan) entry.tacan = station.tacan;
+    if (station.ils) entry.ils = station.ils;
+  });
+
+  const conflicts = entries
+    .map((entry, index) => (hasFrequencyConflict(entry.freq, entries, index) ? index : -1))
+    .filter(index => index !== -1);
+
+  return { entries, conflicts, unplaced };
+}
@@ -0,0 +1,109 @@
+import { sb } from './supabaseClient';
+import type { CommsPlanEntry, CommsTemplate } from '../types/CommsTypes';
+import type { Database, Json } from '../types/supabase';
+
+type CommsTemplateRow = Database['public']['Tables']['squadron_comms_templates']['Row'];
+
+const convertRowToTemplate = (row: CommsTemplateRow): CommsTemplate => {
+  return {
+    id: row.id,
+    squadron_id: row.squadron_id,
+    name: row.name,
+    entries: Array.isArray(row.entries) ? row.entries as unknown as CommsPlanEntry[] : [],
+    is_default: !!row.is_default,
+    updated_by: row.updated_by || undefined,
+    created_at: row.created_at || undefined,
+    updated_at: row.updated_at || undefined
+  };
+};
+
+/**
+ * Get the comms templates for a squadron, default template first.
+ */
+export const getCommsTemplates = async (
+  squadronId: string
+): Promise<{ templates: CommsTemplate[]; error?: string }> => {
+  return await sb(async (supabase) => {
+    const { data, error } = await supabase
+      .from('squadron_comms_templates')
+      .select('*')
+      .eq('squadron_id', squadronId)
+      .order('is_default', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching comms templates:', error);
+      return { templates: [], error: error.message };
+    }
+
+    return { templates: (data || []).map(convertRowToTemplate), error: undefined };
+  });
+};
+
+/**
+ * Save a comms template for a squadron. Templates are unique per squadron and
+ * name, so saving under an existing name overwrites it. Marking a template as
+ * the default clears the flag on the squadron's other templates.
+ */
+export const saveCommsTemplate = async (
+  squadronId: string,
+  name: string,
+  entries: CommsPlanEntry[],
+  isDefault: boolean = false
+): Promise<{ template: CommsTemplate | null; error?: string }> => {
+  return await sb(async (supabase) => {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (isDefault) {
+      const { error: clearError } = await supabase
+        .from('squadron_comms_templates')
+        .update({ is_default: false })
+        .eq('squadron_id', squadronId)
+        .neq('name', name);
+
+      if (clearError) {
+        console.error('Error clearing default comms template:', clearError);
+        return { template: null, error: clearError.message };
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('squadron_comms_templates')
+      .upsert({
+        squadron_id: squadronId,
+        name,
+        entries: entries as unknown as Json,
+        is_default: isDefault,
+        updated_by: user?.id || null, // FK to auth.users.id
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'squadron_id,name' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving comms template:', error);
+      return { template: null, error: error.message };
+    }
+
+    return { template: convertRowToTemplate(data), error: undefined };
+  });
+};
+
+/**
+ * Delete a comms template.
+ */
+export const deleteCommsTemplate = async (templateId: string): Promise<{ error?: string }> => {
+  return await sb(async (supabase) => {
+    const { error } = await supabase
+      .from('squadron_comms_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) {
+      console.error('Error deleting comms template:', error);
+      return { error: error.message };
+    }
+
+    return { error: undefined };
+  });
+};
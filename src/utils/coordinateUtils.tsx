@@ -1,6 +1,7 @@
 // Implementation adapted from [DCE Campaign Builder](https://github.com/bbirchnz/dce-campaign-builder) using methods from [PyDCS](https://github.com/pydcs/dcs)
 // JavaScript implementation of coordinate conversion using Proj4js
 import proj4 from 'proj4';
+import type { LuaJsonObject, LuaJsonValue } from './luaTableParser';
 
 /**
  * DMS (Degrees Minutes Seconds) coordinate format
@@ -198,9 +199,21 @@ export function extractRedBullseyeFromMission(missionContent: string): [number,
 }
 
 /**
- * Process a DCS mission file and extract key coordinates in human-readable format
+ * Extract a coalition's bullseye from parsed mission data
  */
-export function processMissionCoordinates(missionContent: string): {
+function extractBullseyeFromMissionData(missionData: LuaJsonObject, coalition: 'blue' | 'red'): [number, number] | null {
+  const asObject = (value: LuaJsonValue | undefined) =>
+    value && typeof value === 'object' && !Array.isArray(value) ? value : undefined;
+  const bullseye = asObject(asObject(asObject(missionData.coalition)?.[coalition])?.bullseye);
+  if (typeof bullseye?.x !== 'number' || typeof bullseye?.y !== 'number') return null;
+  return [bullseye.x, bullseye.y];
+}
+
+/**
+ * Process a DCS mission and extract key coordinates in human-readable format.
+ * Accepts either the raw `mission` file content or the parsed mission table.
+ */
+export function processMissionCoordinates(missionContentOrData: string | LuaJsonObject): {
   theatre: string | null;
   blueBullseye: {
     dcsCoords: [number, number] | null;
@@ -213,9 +226,16 @@ export function processMissionCoordinates(missionContent: string): {
     formatted: string | null;
   };
 } {
-  const theatre = extractTheatreFromMission(missionContent);
-  const blueBullseyeCoords = extractBlueBullseyeFromMission(missionContent);
-  const redBullseyeCoords = extractRedBullseyeFromMission(missionContent);
+  const isRawContent = typeof missionContentOrData === 'string';
+  const theatre = isRawContent
+    ? extractTheatreFromMission(missionContentOrData)
+    : (typeof missionContentOrData.theatre === 'string' ? missionContentOrData.theatre : null);
+  const blueBullseyeCoords = isRawContent
+    ? extractBlueBullseyeFromMission(missionContentOrData)
+    : extractBullseyeFromMissionData(missionContentOrData, 'blue');
+  const redBullseyeCoords = isRawContent
+    ? extractRedBullseyeFromMission(missionContentOrData)
+    : extractBullseyeFromMissionData(missionContentOrData, 'red');
   
   let blueBullseyeLatLon = null;
   let redBullseyeLatLon = null;
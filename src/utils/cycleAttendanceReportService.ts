@@ -2,7 +2,8 @@
  * Data service for Cycle Attendance Reports
  */
 
-import { supabase } from './supabaseClient';
+import { supabase, type EventSettings } from './supabaseClient';
+import { getAvailabilityForPilots, plannedAbsencesOn } from './availabilityService';
 import {
   CycleData,
   EventData,
@@ -213,6 +214,7 @@ interface ExtendedAttendanceData extends AttendanceData {
   hadLastMinuteSnivel?: boolean;
   hadAdvancedSnivel?: boolean;
   hadNoResponse?: boolean;
+  plannedAbsence?: boolean;
 }
 
 /**
@@ -284,6 +286,12 @@ async function fetchAttendanceData(events: EventData[], pilots: PilotData[]): Pr
   const pilotIds = pilots.map(p => p.id);
   const pilotStatusesMap = await fetchAllPilotStatuses(pilotIds);
 
+  // Pilots' planned absences, so being away as planned isn't counted against them
+  const { entries: availabilityByPilot } = await getAvailabilityForPilots(
+    pilotIds,
+    events.length > 0 ? events[0].start_datetime.slice(0, 10) : undefined
+  );
+
   // Map discord_id to pilot_id
   const discordToPilotMap = new Map<string, PilotData>();
   pilots.forEach(pilot => {
@@ -305,6 +313,8 @@ async function fetchAttendanceData(events: EventData[], pilots: PilotData[]): Pr
         activePilotsForEvent.push(pilot);
       }
     }
+    const plannedAbsences = plannedAbsencesOn(availabilityByPilot, event.start_datetime, event.timezone);
+
     const messageIds = event.discord_event_id.map(d => d.messageId);
     const syntheticId = `manual-${event.id}`;
     const allEventIds = messageIds.length > 0 ? messageIds : [syntheticId];
@@ -411,6 +421,16 @@ async function fetchAttendanceData(events: EventData[], pilots: PilotData[]): Pr
 
       const hadNoResponse = !latestRollCall && !hasValidDiscordResponse;
 
+      // Planned Absence: Pilot was away as entered in their availability and didn't
+      // accept or show up anyway. Counted instead of an advanced snivel or no response;
+      // a last minute snivel still counts as one.
+      const plannedAbsence = Boolean(
+        plannedAbsences[pilot.id] &&
+        !hadLastMinuteSnivel &&
+        latestRollCall?.roll_call_response !== 'Present' &&
+        latestDiscordResponse?.user_response !== 'accepted'
+      );
+
       attendanceRecords.push({
         pilotId: pilot.id,
         eventId: event.id,
@@ -418,8 +438,9 @@ async function fetchAttendanceData(events: EventData[], pilots: PilotData[]): Pr
         userResponse: latestDiscordResponse?.user_response,
         responseHistory,
         hadLastMinuteSnivel,
-        hadAdvancedSnivel,
-        hadNoResponse
+        hadAdvancedSnivel: hadAdvancedSnivel && !plannedAbsence,
+        hadNoResponse: hadNoResponse && !plannedAbsence,
+        plannedAbsence
       });
     });
 
@@ -435,7 +456,9 @@ async function fetchAttendanceData(events: EventData[], pilots: PilotData[]): Pr
           responseHistory: [],
           hadLastMinuteSnivel: false,
           hadAdvancedSnivel: false,
-          hadNoResponse: true  // They didn't respond and weren't present
+          // They didn't respond and weren't present, unless they'd planned to be away
+          hadNoResponse: !plannedAbsences[pilot.id],
+          plannedAbsence: Boolean(plannedAbsences[pilot.id])
         });
       }
     });
@@ -489,6 +512,9 @@ function calculateEventSquadronMetrics(
       // No Response: Pilots who didn't respond to Discord and weren't marked present
       const noResponseCount = squadronAttendance.filter(a => a.hadNoResponse === true).length;
 
+      // Planned Absences: Pilots away as entered in their availability calendar
+      const plannedAbsenceCount = squadronAttendance.filter(a => a.plannedAbsence === true).length;
+
       // Debug logging for development
       if (event.name && event.name.includes('Week 6') && squadronId !== 'unassigned') {
         const noResponsePilots = squadronAttendance.filter(a => a.hadNoResponse === true);
@@ -533,6 +559,7 @@ function calculateEventSquadronMetrics(
         advancedSniveCount,
         totalSnivelsCount,
         noResponseCount,
+        plannedAbsenceCount,
         totalPilots,
         attendancePercentage
       });
@@ -594,7 +621,8 @@ export async function fetchCycleAttendanceReport(
     cycle_id: event.cycle_id,
     discord_event_id: Array.isArray(event.discord_event_id)
       ? (event.discord_event_id as Array<{ messageId: string; guildId: string; channelId: string; squadronId: string; }>)
-      : []
+      : [],
+    timezone: (event.event_settings as EventSettings | null)?.timezone
   }));
 
   // Fetch active pilots with filters
@@ -652,6 +680,9 @@ export async function fetchCycleAttendanceReport(
     // No Response: Pilots who didn't respond to Discord and weren't marked present
     const noResponseCount = eventAttendance.filter(a => a.hadNoResponse === true).length;
 
+    // Planned Absences: Pilots away as entered in their availability calendar
+    const plannedAbsenceCount = eventAttendance.filter(a => a.plannedAbsence === true).length;
+
     // No Shows: Pilots who responded "accepted" to Discord but were NOT marked present during roll call
     // (excluding those counted as last minute snivels)
     const noShowCount = eventAttendance.filter(a => {
@@ -676,7 +707,8 @@ export async function fetchCycleAttendanceReport(
       lastMinuteSniveCount,
       advancedSniveCount,
       totalSnivelsCount,
-      noResponseCount
+      noResponseCount,
+      plannedAbsenceCount
     };
   });
 
@@ -703,7 +735,8 @@ export function exportToCSV(data: CycleAttendanceReportData): string {
     'Attendance %',
     'No Show Count',
     'Last Minute Snivel Count',
-    'Advanced Snivel Count'
+    'Advanced Snivel Count',
+    'Planned Absence Count'
   ];
 
   const rows = data.chartData.map(row => [
@@ -714,7 +747,8 @@ export function exportToCSV(data: CycleAttendanceReportData): string {
     `${row.attendancePercentage}%`,
     row.noShowCount.toString(),
     row.lastMinuteSniveCount.toString(),
-    row.advancedSniveCount.toString()
+    row.advancedSniveCount.toString(),
+    row.plannedAbsenceCount.toString()
   ]);
 
   const csv = [
@@ -0,0 +1,86 @@
+import type { PilotMissionStatus, ProposedPilotStatus } from '../types/DebriefingTypes';
+
+// A flight member as known to the debrief, used to match names in recordings
+export interface DebriefImportPilot {
+  id: string;
+  callsign: string;
+  boardNumber: string;
+}
+
+// Kills of one unit type by one pilot, before the type is looked up
+export interface DebriefKillTally {
+  pilotId: string;
+  typeName: string;
+  isFriendly: boolean;
+  count: number;
+}
+
+/** Count one more kill of `typeName` for a pilot */
+export const addKillTally = (
+  tallies: Map<string, DebriefKillTally>,
+  pilotId: string,
+  typeName: string,
+  isFriendly: boolean
+) => {
+  const key = `${pilotId}|${typeName}|${isFriendly}`;
+  const tally = tallies.get(key) || { pilotId, typeName, isFriendly, count: 0 };
+  tally.count += 1;
+  tallies.set(key, tally);
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Match a player name from a recording ("VF-31 | 507 | Jester", "[507] Jester",
+ * "Jester 1-2") to a flight member by onboard number and/or callsign. A pilot
+ * matching on both wins; a name that matches several pilots equally is left
+ * unmatched rather than guessed.
+ */
+export const matchDebriefPilot = (
+  name: string | undefined,
+  pilots: DebriefImportPilot[],
+  onboardNumber?: string
+): DebriefImportPilot | null => {
+  if (!name && !onboardNumber) return null;
+  const normalized = (name || '').toLowerCase();
+  const numbers = new Set([...(normalized.match(/\d+/g) || []), ...(onboardNumber ? [onboardNumber.replace(/^0+/, '')] : [])]);
+
+  const scored = pilots.map(pilot => {
+    const board = pilot.boardNumber.replace(/^0+/, '');
+    const boardMatch = !!board && (numbers.has(board) || numbers.has(pilot.boardNumber));
+    const callsignMatch = !!pilot.callsign &&
+      new RegExp(`(^|[^a-z0-9])${escapeRegExp(pilot.callsign.toLowerCase())}([^a-z0-9]|$)`).test(normalized);
+    return { pilot, score: (boardMatch ? 2 : 0) + (callsignMatch ? 1 : 0) };
+  }).filter(entry => entry.score > 0);
+
+  if (scored.length === 0) return null;
+  const best = Math.max(...scored.map(entry => entry.score));
+  const top = scored.filter(entry => entry.score === best);
+  return top.length === 1 ? top[0].pilot : null;
+};
+
+/** The debrief's pilot/aircraft status pair expressed as a PilotMissionStatus */
+export const toPilotMissionStatus = (
+  pilotStatus: ProposedPilotStatus['pilotStatus'],
+  aircraftStatus: ProposedPilotStatus['aircraftStatus']
+): PilotMissionStatus => {
+  if (pilotStatus === 'kia') return 'killed_in_action';
+  if (pilotStatus === 'mia') return 'missing_in_action';
+  return aircraftStatus === 'recovered' ? 'recovered' : 'damaged';
+};
+
+export const PILOT_MISSION_STATUS_LABELS: Record<PilotMissionStatus, string> = {
+  recovered: 'Recovered',
+  damaged: 'Damaged',
+  missing_in_action: 'MIA',
+  killed_in_action: 'KIA'
+};
+
+/** Seconds into a recording as h:mm:ss */
+export const formatRecordingTime = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+};
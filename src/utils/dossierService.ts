@@ -1,5 +1,6 @@
 import { supabase } from './supabaseClient';
 import { dateInputToLocalDate } from './dateUtils';
+import { getPilotsQualificationCurrency, type QualificationCurrency } from './qualificationCurrencyService';
 
 // ---------- Types ----------
 
@@ -66,6 +67,7 @@ export interface DossierQualification {
   code?: string | null;
   color?: string | null;
   achieved_date: string | null;
+  currency?: QualificationCurrency; // Only for qualifications that expire
 }
 
 export interface DossierTeam {
@@ -224,6 +226,7 @@ export interface DossierCycle {
 
 export interface TrapRecord {
   id: string;
+  pilot_id: string;
   mission_id: string | null;
   pass_time: string | null;
   created_at: string | null;
@@ -936,7 +939,7 @@ export async function getDossierProfile(pilotId: string, discordId: string | nul
         .order('effective_date', { ascending: true }),
       supabase
         .from('pilot_qualifications')
-        .select('id, achieved_date, is_current, qualification:qualification_id (id, name, code, color)')
+        .select('id, achieved_date, expiry_date, created_at, is_current, qualification_id, qualification:qualification_id (*)')
         .eq('pilot_id', pilotId),
       supabase
         .from('pilot_standings')
@@ -988,14 +991,17 @@ export async function getDossierProfile(pilotId: string, discordId: string | nul
       .sort((a, b) => new Date(b.effective_date).getTime() - new Date(a.effective_date).getTime());
     const currentRole = activeRoles[0];
 
-    const qualifications: DossierQualification[] = qualRecords
-      .filter(q => q.is_current && q.qualification)
+    const currentQualRecords = qualRecords.filter(q => q.is_current && q.qualification);
+    const { currency } = await getPilotsQualificationCurrency({ [pilotId]: currentQualRecords });
+
+    const qualifications: DossierQualification[] = currentQualRecords
       .map(q => ({
         id: q.id,
         name: q.qualification.name,
         code: q.qualification.code,
         color: q.qualification.color,
-        achieved_date: q.achieved_date
+        achieved_date: q.achieved_date,
+        currency: currency[pilotId]?.[q.qualification_id]
       }))
       .sort((a, b) => (a.achieved_date || '').localeCompare(b.achieved_date || ''));
 
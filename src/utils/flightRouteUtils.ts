@@ -0,0 +1,186 @@
+/**
+ * Flight route and loadout utilities
+ * Decodes a .miz group's route points into briefable steerpoints and its
+ * pylons into weapon names, for the flight card and kneeboard route card.
+ */
+
+import { convertDcsToLatLon, formatCoordinate } from './coordinateUtils';
+import type { LoadoutStation, RouteWaypoint } from '../types/FlightRouteTypes';
+
+const METERS_TO_FEET = 3.28084;
+const MPS_TO_KNOTS = 1.94384;
+
+// Common store CLSIDs. Anything not listed falls back to a cleaned-up CLSID,
+// which is already readable for most modern (non-GUID) entries.
+const CLSID_NAMES: Record<string, string> = {
+  '{6CEB49FC-DED8-4DED-B053-E1F033FF72D3}': 'AIM-9M',
+  '{5CE2FF2A-645A-4197-B48D-8720AC69394F}': 'AIM-9X',
+  '{8D399DDA-FF81-4F14-904D-099B34FE7918}': 'AIM-7M',
+  '{C8E06185-7CD6-4C90-959F-044679E90751}': 'AIM-120B',
+  '{40EF17B7-F508-45de-8566-6FFECC0C1AB8}': 'AIM-120C',
+  '{B06DD79A-F21E-4EB9-BD9D-AB3844618C93}': 'AGM-88C HARM',
+  '{8B7CADF9-4954-46B3-8CFB-93F2F5B90B03}': 'AGM-84D Harpoon',
+  '{DB769D48-67D7-42ED-A2BE-108D566C8B1E}': 'GBU-12',
+  '{0D33DDAE-524F-4A4E-B5B8-621754FE3ADE}': 'GBU-16',
+  '{51F9AAE5-964F-4D21-83FB-502E3BFE5F8A}': 'GBU-10',
+  '{GBU-38}': 'GBU-38',
+  '{BCE4E030-38E9-423E-98ED-24BE3DA87C32}': 'Mk-82',
+  '{AB8B8299-F1CC-4359-89B5-2172E0CF4A5A}': 'Mk-84',
+  '{ADD3FAE1-EBF6-4EF9-8EFC-B36B5DDF1E6B}': 'Mk-20 Rockeye',
+  '{5335D97A-35A5-4643-9D9B-026C75961E52}': 'CBU-97',
+  '{A111396E-D3E8-4b9c-8AC9-2432489304D5}': 'AN/AAQ-28 LITENING',
+  '{AN_ASQ_228}': 'AN/ASQ-228 ATFLIR',
+  '{FPU_8A_FUEL_TANK}': 'FPU-8A 330 gal tank',
+  '{F376DBEE-4CAE-41BA-ADD9-B2910AC95DEC}': '370 gal tank'
+};
+
+const TAKEOFF_TYPES = new Set(['TakeOff', 'TakeOffParking', 'TakeOffParkingHot', 'TakeOffGround', 'TakeOffGroundHot']);
+
+// Route tasks worth briefing; setup commands (options, EPLRS, frequencies) are skipped
+const TASK_LABELS: Record<string, string> = {
+  Orbit: 'Orbit',
+  Bombing: 'Bomb',
+  BombingRunway: 'Bomb runway',
+  AttackGroup: 'Attack',
+  AttackUnit: 'Attack',
+  AttackMapObject: 'Attack',
+  CarpetBombing: 'Bomb',
+  EngageTargets: 'Engage',
+  EngageTargetsInZone: 'Engage',
+  EngageGroup: 'Engage',
+  EngageUnit: 'Engage',
+  Escort: 'Escort',
+  FAC: 'FAC',
+  FAC_AttackGroup: 'FAC',
+  Refueling: 'Refuel',
+  Land: 'Land',
+  Follow: 'Follow'
+};
+
+/**
+ * Turn a CLSID into a weapon name.
+ */
+export function getStoreName(clsid: string): string {
+  if (CLSID_NAMES[clsid]) return CLSID_NAMES[clsid];
+  return clsid
+    .replace(/[{}]/g, '')
+    .replace(/\*/g, '×')
+    .replace(/_/g, ' ')
+    .trim();
+}
+
+/**
+ * Decode a unit's payload pylons into stations with weapon names. Pylons come
+ * through the parser as an array (stations 1..n) or an object keyed "_<station>".
+ */
+export function decodeLoadout(payload: unknown): LoadoutStation[] {
+  const pylons = (payload as { pylons?: unknown } | null | undefined)?.pylons;
+  if (!pylons || typeof pylons !== 'object') return [];
+
+  const entries: Array<[number, unknown]> = Array.isArray(pylons)
+    ? pylons.map((pylon, index) => [index + 1, pylon])
+    : Object.entries(pylons).map(([key, pylon]) => [parseInt(key.replace(/^_/, ''), 10), pylon]);
+
+  return entries
+    .map(([station, pylon]) => ({ station, clsid: (pylon as { CLSID?: unknown } | null)?.CLSID }))
+    .filter((entry): entry is { station: number; clsid: string } =>
+      !isNaN(entry.station) && typeof entry.clsid === 'string' && !!entry.clsid)
+    .map(({ station, clsid }) => ({ station, clsid, name: getStoreName(clsid) }))
+    .sort((a, b) => a.station - b.station);
+}
+
+/**
+ * Summarize a loadout as counts per store, e.g. "2× AIM-9X, 4× AIM-120C".
+ */
+export function summarizeLoadout(stations: LoadoutStation[]): string {
+  const counts = new Map<string, number>();
+  stations.forEach(({ name }) => counts.set(name, (counts.get(name) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([name, count]) => `${count}× ${name}`)
+    .join(', ');
+}
+
+// Fields of a .miz route point read for the route card
+interface MizRoutePoint {
+  type?: string;
+  name?: unknown;
+  x?: unknown;
+  y?: unknown;
+  alt?: number;
+  alt_type?: string;
+  speed?: number;
+  ETA?: unknown;
+  task?: { params?: { tasks?: unknown } };
+}
+
+// Lua tables come through the parser as arrays, or as objects when sparse
+const listOf = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : value && typeof value === 'object' ? Object.values(value) : [];
+
+const getWaypointTask = (point: MizRoutePoint): string => {
+  if (point.type && TAKEOFF_TYPES.has(point.type)) return 'Takeoff';
+  if (point.type === 'Land' || point.type === 'LandingReFuAr') return 'Land';
+
+  const labels = listOf(point.task?.params?.tasks)
+    .map(task => TASK_LABELS[String((task as { id?: unknown } | null)?.id)])
+    .filter((label): label is string => !!label);
+
+  return Array.from(new Set(labels)).join(', ');
+};
+
+/**
+ * Extract a group's route as steerpoints. Needs the parsed mission for the
+ * theatre (lat/long projection) and start time (ETAs are stored relative to it).
+ */
+export function extractFlightRoute(group: unknown, missionData: unknown): RouteWaypoint[] {
+  const pointList = listOf((group as { route?: { points?: unknown } } | null | undefined)?.route?.points) as MizRoutePoint[];
+  const mission = missionData as { theatre?: unknown; start_time?: unknown } | null | undefined;
+  const theatre: string | null = typeof mission?.theatre === 'string' ? mission.theatre : null;
+  const startTime: number | null = typeof mission?.start_time === 'number' ? mission.start_time : null;
+
+  return pointList.map((point, index): RouteWaypoint => {
+    let lat: number | null = null;
+    let lon: number | null = null;
+    let coordinate: string | null = null;
+
+    if (theatre && typeof point.x === 'number' && typeof point.y === 'number') {
+      try {
+        const latLon = convertDcsToLatLon(point.x, point.y, theatre);
+        lat = latLon.lat_decimal;
+        lon = latLon.lon_decimal;
+        coordinate = formatCoordinate(latLon);
+      } catch (error) {
+        console.warn('Could not convert waypoint coordinates:', error);
+      }
+    }
+
+    const eta = typeof point.ETA === 'number' && startTime !== null
+      ? (startTime + point.ETA) % 86400
+      : null;
+
+    return {
+      number: index,
+      name: typeof point.name === 'string' ? point.name : '',
+      lat,
+      lon,
+      coordinate,
+      altitudeFt: Math.round((point.alt || 0) * METERS_TO_FEET),
+      altitudeType: point.alt_type === 'RADIO' ? 'RADIO' : 'BARO',
+      speedKts: Math.round((point.speed || 0) * MPS_TO_KNOTS),
+      etaSeconds: eta,
+      task: getWaypointTask(point)
+    };
+  });
+}
+
+/**
+ * Format seconds after midnight as HH:MM:SS.
+ */
+export function formatEta(etaSeconds: number | null): string {
+  if (etaSeconds === null) return '——';
+  const total = Math.round(etaSeconds);
+  const hours = Math.floor(total / 3600) % 24;
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  return [hours, minutes, seconds].map(n => n.toString().padStart(2, '0')).join(':');
+}
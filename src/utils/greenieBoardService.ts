@@ -0,0 +1,161 @@
+import { sb } from './supabaseClient';
+import type { TrapRecord } from './dossierService';
+
+// Pilots need this many graded passes in the period to be ranked for top hook
+export const TOP_HOOK_MIN_PASSES = 3;
+
+export type GreenieTimeFilter = 'all' | 'day' | 'night';
+
+export interface GreenieBoardPilot {
+  pilotId: string;
+  callsign: string;
+  boardNumber: string;
+  squadronId: string | null;
+}
+
+export interface GreenieBoardData {
+  missionCount: number;
+  pilots: GreenieBoardPilot[];
+  traps: TrapRecord[]; // Oldest first
+}
+
+export interface GreenieBoardRow extends GreenieBoardPilot {
+  passes: TrapRecord[]; // Oldest first
+  gpa: number | null;   // Average grade points of passes that carry points
+  gradedCount: number;
+  trapCount: number;
+  bolterCount: number;
+  waveoffCount: number;
+}
+
+/**
+ * Get every graded pass flown in a cycle's missions, with the pilots who
+ * flew them and their current squadron.
+ */
+export const getCycleGreenieBoard = async (
+  cycleId: string
+): Promise<{ board: GreenieBoardData; error?: string }> => {
+  const empty: GreenieBoardData = { missionCount: 0, pilots: [], traps: [] };
+
+  return await sb(async (supabase) => {
+    const { data: events, error: eventsError } = await supabase
+      .from('events')
+      .select('id')
+      .eq('cycle_id', cycleId);
+
+    if (eventsError) {
+      console.error('Error fetching cycle events for greenie board:', eventsError);
+      return { board: empty, error: eventsError.message };
+    }
+
+    const eventIds = (events || []).map(e => e.id);
+    if (eventIds.length === 0) {
+      return { board: empty, error: undefined };
+    }
+
+    const { data: missions, error: missionsError } = await supabase
+      .from('missions')
+      .select('id')
+      .in('event_id', eventIds);
+
+    if (missionsError) {
+      console.error('Error fetching cycle missions for greenie board:', missionsError);
+      return { board: empty, error: missionsError.message };
+    }
+
+    const missionIds = (missions || []).map(m => m.id);
+    if (missionIds.length === 0) {
+      return { board: empty, error: undefined };
+    }
+
+    const { data: traps, error: trapsError } = await supabase
+      .from('lso_grades')
+      .select('*')
+      .in('mission_id', missionIds)
+      .order('pass_time', { ascending: true, nullsFirst: true });
+
+    if (trapsError) {
+      console.error('Error fetching LSO grades for greenie board:', trapsError);
+      return { board: { ...empty, missionCount: missionIds.length }, error: trapsError.message };
+    }
+
+    const pilotIds = [...new Set(((traps || []) as TrapRecord[]).map(t => t.pilot_id))];
+    if (pilotIds.length === 0) {
+      return { board: { missionCount: missionIds.length, pilots: [], traps: [] }, error: undefined };
+    }
+
+    const [pilotsResult, assignmentsResult] = await Promise.all([
+      supabase.from('pilots').select('id, callsign, boardNumber').in('id', pilotIds),
+      supabase.from('pilot_assignments').select('pilot_id, squadron_id').in('pilot_id', pilotIds).is('end_date', null)
+    ]);
+
+    if (pilotsResult.error) {
+      console.error('Error fetching pilots for greenie board:', pilotsResult.error);
+      return { board: { ...empty, missionCount: missionIds.length }, error: pilotsResult.error.message };
+    }
+    if (assignmentsResult.error) {
+      console.error('Error fetching squadron assignments for greenie board:', assignmentsResult.error);
+    }
+
+    const squadronByPilot = new Map((assignmentsResult.data || []).map(a => [a.pilot_id, a.squadron_id]));
+    const pilots: GreenieBoardPilot[] = (pilotsResult.data || []).map(pilot => ({
+      pilotId: pilot.id,
+      callsign: pilot.callsign || 'Unknown',
+      boardNumber: String(pilot.boardNumber ?? ''),
+      squadronId: squadronByPilot.get(pilot.id) || null
+    }));
+
+    return {
+      board: { missionCount: missionIds.length, pilots, traps: (traps || []) as TrapRecord[] },
+      error: undefined
+    };
+  });
+};
+
+/**
+ * One row per pilot with passes matching the filters, best GPA first. Pilots
+ * without a scored pass sort to the bottom.
+ */
+export const buildGreenieBoardRows = (
+  board: GreenieBoardData,
+  squadronId: string | null,
+  timeFilter: GreenieTimeFilter
+): GreenieBoardRow[] => {
+  const rows: GreenieBoardRow[] = [];
+
+  board.pilots.forEach(pilot => {
+    if (squadronId && pilot.squadronId !== squadronId) return;
+    const passes = board.traps.filter(trap => {
+      if (trap.pilot_id !== pilot.pilotId) return false;
+      if (timeFilter === 'day' && trap.is_night) return false;
+      if (timeFilter === 'night' && !trap.is_night) return false;
+      return true;
+    });
+    if (passes.length === 0) return;
+
+    const scored = passes.filter(trap => trap.grade_points != null);
+    rows.push({
+      ...pilot,
+      passes,
+      gpa: scored.length > 0 ? scored.reduce((sum, trap) => sum + trap.grade_points!, 0) / scored.length : null,
+      gradedCount: scored.length,
+      trapCount: passes.filter(trap => trap.outcome_type === 'trap' || (!trap.outcome_type && trap.wire_number)).length,
+      bolterCount: passes.filter(trap => trap.outcome_type === 'bolter').length,
+      waveoffCount: passes.filter(trap => ['waveoff', 'own_waveoff', 'foul_deck_waveoff'].includes(trap.outcome_type || '')).length
+    });
+  });
+
+  return rows.sort((a, b) =>
+    (b.gpa ?? -1) - (a.gpa ?? -1) || b.gradedCount - a.gradedCount || a.callsign.localeCompare(b.callsign)
+  );
+};
+
+/**
+ * Top hook standings: highest GPA among pilots with enough graded passes,
+ * ties going to the pilot with more of them.
+ */
+export const rankTopHooks = (rows: GreenieBoardRow[], limit: number = 3): GreenieBoardRow[] =>
+  rows
+    .filter(row => row.gpa !== null && row.gradedCount >= TOP_HOOK_MIN_PASSES)
+    .sort((a, b) => b.gpa! - a.gpa! || b.gradedCount - a.gradedCount)
+    .slice(0, limit);
@@ -0,0 +1,203 @@
+import { sb } from './supabaseClient';
+import type { PilotAssignmentHistory } from '../types/MissionPrepTypes';
+
+// Callsigns DCS uses for tanker groups, for flights imported without a group task
+export const TANKER_CALLSIGNS = ['TEXACO', 'ARCO', 'SHELL'];
+
+// The parts of a saved mission's flights, pilot assignments and support roles the tally reads
+interface SavedFlight {
+  id?: string;
+  callsign?: string;
+  flight_data?: { callsign?: string; extractedFlightData?: { task?: string } };
+}
+
+interface SavedPilotAssignment {
+  pilot_id?: string;
+  dash_number?: string;
+}
+
+interface SavedSupportRole {
+  role_type?: string;
+  pilot_id?: string;
+  boardNumber?: string | number;
+  pilots?: { boardNumber?: string | number }[];
+}
+
+export interface FairnessReportRow extends PilotAssignmentHistory {
+  pilotId: string;
+  callsign: string;
+  boardNumber: string;
+}
+
+export interface FairnessReport {
+  missionCount: number;
+  rows: FairnessReportRow[];
+}
+
+const emptyHistory = (): PilotAssignmentHistory => ({
+  sorties: 0,
+  leads: 0,
+  missionCommander: 0,
+  unpopular: 0
+});
+
+const isTankerFlight = (flight: SavedFlight): boolean => {
+  const data = flight?.flight_data || {};
+  if (data.extractedFlightData?.task === 'Refueling') return true;
+  const callsign = String(data.callsign || flight?.callsign || '').toUpperCase();
+  return TANKER_CALLSIGNS.includes(callsign);
+};
+
+/**
+ * Tally flying, lead (-1/-3), mission commander and unpopular slots (tanker
+ * flights and carrier/command support roles) for every mission linked to an
+ * event in the cycle. Support roles only store board numbers, so those are
+ * resolved to pilot ids through the pilots table.
+ */
+const tallyCycleAssignments = async (
+  cycleId: string,
+  excludeEventId?: string
+): Promise<{ history: Record<string, PilotAssignmentHistory>; missionCount: number; error?: string }> => {
+  return await sb(async (supabase) => {
+    const { data: events, error: eventsError } = await supabase
+      .from('events')
+      .select('id')
+      .eq('cycle_id', cycleId);
+
+    if (eventsError) {
+      console.error('Error fetching cycle events for lead rotation:', eventsError);
+      return { history: {}, missionCount: 0, error: eventsError.message };
+    }
+
+    const eventIds = (events || []).map(e => e.id).filter(id => id !== excludeEventId);
+    if (eventIds.length === 0) {
+      return { history: {}, missionCount: 0, error: undefined };
+    }
+
+    const { data: missions, error: missionsError } = await supabase
+      .from('missions')
+      .select('id, flights, pilot_assignments, support_role_assignments')
+      .in('event_id', eventIds)
+      .neq('status', 'cancelled');
+
+    if (missionsError) {
+      console.error('Error fetching cycle missions for lead rotation:', missionsError);
+      return { history: {}, missionCount: 0, error: missionsError.message };
+    }
+
+    const history: Record<string, PilotAssignmentHistory> = {};
+    const byBoardNumber: Record<string, PilotAssignmentHistory> = {};
+    const entryFor = (pilotId: string) => (history[pilotId] ??= emptyHistory());
+    const entryForBoard = (boardNumber: string) => (byBoardNumber[boardNumber] ??= emptyHistory());
+
+    (missions || []).forEach(mission => {
+      const flights = Array.isArray(mission.flights) ? mission.flights as unknown as SavedFlight[] : [];
+      const tankerFlightIds = new Set(flights.filter(isTankerFlight).map(f => f.id));
+      const assignments = (mission.pilot_assignments && typeof mission.pilot_assignments === 'object'
+        ? mission.pilot_assignments
+        : {}) as unknown as Record<string, SavedPilotAssignment[]>;
+
+      Object.entries(assignments).forEach(([flightId, pilots]) => {
+        if (!Array.isArray(pilots)) return;
+        pilots.forEach(assignment => {
+          if (!assignment?.pilot_id) return;
+          const entry = entryFor(assignment.pilot_id);
+          entry.sorties++;
+          if (assignment.dash_number === '1' || assignment.dash_number === '3') entry.leads++;
+          if (tankerFlightIds.has(flightId)) entry.unpopular++;
+        });
+      });
+
+      const supportRoles = Array.isArray(mission.support_role_assignments)
+        ? mission.support_role_assignments as unknown as SavedSupportRole[]
+        : [];
+      supportRoles.forEach(role => {
+        if (role?.role_type === 'mission_commander') {
+          if (role.pilot_id) entryFor(role.pilot_id).missionCommander++;
+          else if (role.boardNumber) entryForBoard(String(role.boardNumber)).missionCommander++;
+          return;
+        }
+        (Array.isArray(role?.pilots) ? role.pilots : []).forEach(pilot => {
+          if (pilot?.boardNumber) entryForBoard(String(pilot.boardNumber)).unpopular++;
+        });
+      });
+    });
+
+    const boardNumbers = Object.keys(byBoardNumber).map(Number).filter(n => !isNaN(n));
+    if (boardNumbers.length > 0) {
+      const { data: pilots, error: pilotsError } = await supabase
+        .from('pilots')
+        .select('id, boardNumber')
+        .in('boardNumber', boardNumbers);
+
+      if (pilotsError) {
+        console.error('Error resolving support role pilots for lead rotation:', pilotsError);
+        return { history, missionCount: missions?.length || 0, error: pilotsError.message };
+      }
+
+      (pilots || []).forEach(pilot => {
+        const counts = byBoardNumber[String(pilot.boardNumber)];
+        if (!counts) return;
+        const entry = entryFor(pilot.id);
+        entry.missionCommander += counts.missionCommander;
+        entry.unpopular += counts.unpopular;
+      });
+    }
+
+    return { history, missionCount: missions?.length || 0, error: undefined };
+  });
+};
+
+/**
+ * Get each pilot's assignment history within a cycle, for auto-assign to
+ * rotate lead, mission commander and unpopular slots. The event being planned
+ * is excluded so re-running auto-assign doesn't count its own assignments.
+ */
+export const getCycleAssignmentHistory = async (
+  cycleId: string,
+  excludeEventId?: string
+): Promise<{ history: Record<string, PilotAssignmentHistory>; error?: string }> => {
+  const { history, error } = await tallyCycleAssignments(cycleId, excludeEventId);
+  return { history, error };
+};
+
+/**
+ * Get the lead/mission commander/unpopular slot distribution for a cycle.
+ */
+export const getCycleFairnessReport = async (
+  cycleId: string
+): Promise<{ report: FairnessReport; error?: string }> => {
+  const { history, missionCount, error } = await tallyCycleAssignments(cycleId);
+  if (error) {
+    return { report: { missionCount, rows: [] }, error };
+  }
+
+  const pilotIds = Object.keys(history);
+  if (pilotIds.length === 0) {
+    return { report: { missionCount, rows: [] }, error: undefined };
+  }
+
+  return await sb(async (supabase) => {
+    const { data: pilots, error: pilotsError } = await supabase
+      .from('pilots')
+      .select('id, callsign, boardNumber')
+      .in('id', pilotIds);
+
+    if (pilotsError) {
+      console.error('Error fetching pilots for fairness report:', pilotsError);
+      return { report: { missionCount, rows: [] }, error: pilotsError.message };
+    }
+
+    const pilotsById = new Map((pilots || []).map(p => [p.id, p]));
+    const rows: FairnessReportRow[] = pilotIds
+      .map(pilotId => ({
+        pilotId,
+        callsign: pilotsById.get(pilotId)?.callsign || 'Unknown',
+        boardNumber: String(pilotsById.get(pilotId)?.boardNumber ?? ''),
+        ...history[pilotId]
+      }))
+      .sort((a, b) => b.leads - a.leads || b.missionCommander - a.missionCommander || a.callsign.localeCompare(b.callsign));
+
+    return { report: { missionCount, rows }, error: undefined };
+  });
+};
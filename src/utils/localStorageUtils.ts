@@ -11,7 +11,8 @@ const STORAGE_KEYS = {
   EXTRACTED_FLIGHTS: 'prifly-extracted-flights',
   PREP_FLIGHTS: 'prifly-prep-flights',
   SELECTED_EVENT: 'prifly-selected-event',
-  SUPPORT_ROLES: 'prifly-support-roles'
+  SUPPORT_ROLES: 'prifly-support-roles',
+  COORDINATION_MISSION: 'prifly-coordination-mission'
 };
 
 /**
@@ -124,4 +125,18 @@ export const loadSelectedEvent = (): any | null => {
   return loadFromLocalStorage<any | null>(STORAGE_KEYS.SELECTED_EVENT, null);
 };
 
+/**
+ * Save the mission whose coordination board is being worked
+ */
+export const saveCoordinationMissionId = (missionId: string | null): void => {
+  saveToLocalStorage(STORAGE_KEYS.COORDINATION_MISSION, missionId);
+};
+
+/**
+ * Load the mission whose coordination board is being worked
+ */
+export const loadCoordinationMissionId = (): string | null => {
+  return loadFromLocalStorage<string | null>(STORAGE_KEYS.COORDINATION_MISSION, null);
+};
+
 export { STORAGE_KEYS };
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { formatLsoDeviations, parseLsoComment, parseLsoDeviations, parseLsoTrapLog } from './lsoGradeParser';
+
+describe('parseLsoComment', () => {
+  it('reads grade, wire, groove time and deviations from a DCS remark', () => {
+    const pass = parseLsoComment('LSO: GRADE:OK  : (LUL)X  _F_IM  WIRE# 3 GROOVE 17.5');
+
+    expect(pass).toMatchObject({
+      grade: 'OK',
+      gradePoints: 4,
+      outcomeType: 'trap',
+      wireNumber: 3,
+      grooveTimeSeconds: 17.5
+    });
+    expect(pass.deviations.map(d => [d.code, d.severity, d.phase])).toEqual([
+      ['LUL', 'minor', 'X'],
+      ['F', 'major', 'IM']
+    ]);
+  });
+
+  it.each([
+    ['LSO: GRADE:---  : WO(AFU)IC', 'waveoff'],
+    ['LSO: GRADE:---  : OWO', 'own_waveoff'],
+    ['LSO: GRADE:--  : WOFD', 'foul_deck_waveoff'],
+    ['LSO: GRADE:C  : BOLTER  LOIC', 'bolter']
+  ])('takes the outcome of "%s" from its remarks', (comment, outcomeType) => {
+    const pass = parseLsoComment(comment);
+    expect(pass.outcomeType).toBe(outcomeType);
+    expect(pass.wireNumber).toBeNull();
+  });
+
+  it('never logs a wire for a waveoff or bolter, even when one was written', () => {
+    expect(parseLsoComment('GRADE:--- : WO(H)AR WIRE# 2').wireNumber).toBeNull();
+    expect(parseLsoComment('GRADE:B : _LO_IC WIRE# 1').outcomeType).toBe('bolter');
+  });
+
+  it('keeps the waveoff reason and drops the bolter marker from the deviations', () => {
+    expect(parseLsoComment('GRADE:--- : WO(AFU)IC').deviations).toEqual([
+      { code: 'AFU', description: 'All fouled up', severity: 'normal', phase: 'IC', waveoffReason: true, raw: '(AFU)IC' }
+    ]);
+    expect(parseLsoComment('GRADE:C : BOLTER LOIC').deviations.map(d => d.code)).toEqual(['LO']);
+  });
+
+  it('does not read a deviation code as an outcome marker', () => {
+    // "B" is flat in the middle, not a bolter, unless it is the grade
+    expect(parseLsoComment('GRADE:OK : (B)IM WIRE# 3').outcomeType).toBe('trap');
+  });
+});
+
+describe('parseLsoDeviations', () => {
+  it('splits run-together codes and trailing phases', () => {
+    expect(parseLsoDeviations('LULLOX DRIM').map(d => `${d.code}@${d.phase}`)).toEqual(['LUL@X', 'LO@X', 'DR@IM']);
+  });
+
+  it('round-trips through formatLsoDeviations', () => {
+    const shorthand = '(LUL)X _F_IM LOIC WO(AFU)IC';
+    expect(formatLsoDeviations(parseLsoDeviations(shorthand))).toBe(shorthand);
+  });
+});
+
+describe('parseLsoTrapLog', () => {
+  it('reads landing quality marks from a server event log', () => {
+    const log = [
+      '{"t":4410.5,"event":"S_EVENT_LANDING_QUALITY_MARK","initiator":{"unit_name":"Enfield 1-1","type":"FA-18C_hornet","player":"507 | Jester","onboard_num":"507"},"comment":"LSO: GRADE:OK  : (LUL)X  WIRE# 3"}',
+      '{"t":4500.0,"event":"S_EVENT_LAND","initiator":{"unit_name":"Enfield 1-1","player":"507 | Jester"}}',
+      'not json',
+      '{"t":4620.0,"event":"S_EVENT_LANDING_QUALITY_MARK","initiator":{"unit_name":"Enfield 1-2","player":"511 | Maverick"},"comment":"LSO: GRADE:---  : WO(AFU)IC"}'
+    ].join('\n');
+
+    const { format, passes, skippedLines } = parseLsoTrapLog(log, true);
+
+    expect(format).toBe('event_log');
+    expect(skippedLines).toEqual([3]);
+    expect(passes.map(p => [p.pilotName, p.grade, p.outcomeType, p.wireNumber, p.missionTime, p.isNight])).toEqual([
+      ['507 | Jester', 'OK', 'trap', 3, 4410.5, true],
+      ['511 | Maverick', 'NG', 'waveoff', null, 4620, true]
+    ]);
+    expect(passes[1].sourceLine).toBe(log.split('\n')[3]);
+  });
+
+  it('reads an AIRBOSS trap sheet', () => {
+    const csv = [
+      'Name,Pass,Points Final,Points Pass,Grade,Details,Wire,Tgroove,Case,Modex,Airframe,OS Date',
+      '507 | Jester,1,4,4,OK,(LUL)X _F_IM,3,17.2,III,507,FA-18C_hornet,2026-10-10 21:14:03',
+      '511 | Maverick,1,1,1,WO,WO(AFU)IC,,,I,511,FA-18C_hornet,2026-10-10 21:16:40',
+      '512 | Goose,1,,,,,,,I,512,FA-18C_hornet,2026-10-10 21:18:00'
+    ].join('\n');
+
+    const { format, passes, skippedLines } = parseLsoTrapLog(csv);
+
+    expect(format).toBe('airboss_csv');
+    expect(skippedLines).toEqual([4]);
+    expect(passes[0]).toMatchObject({
+      pilotName: '507 | Jester',
+      onboardNumber: '507',
+      grade: 'OK',
+      gradePoints: 4,
+      outcomeType: 'trap',
+      wireNumber: 3,
+      grooveTimeSeconds: 17.2,
+      isNight: true
+    });
+    expect(passes[1]).toMatchObject({ grade: 'WO', outcomeType: 'waveoff', wireNumber: null, isNight: false });
+  });
+
+  it('reads plain LSO remarks, one pass per line', () => {
+    const { format, passes, skippedLines } = parseLsoTrapLog([
+      '# Night recovery',
+      '507 Jester: GRADE:(OK) (LUL)X _F_IM WIRE# 2 GROOVE 17.5',
+      '511 Maverick: GRADE:--- BOLTER _LO_IC',
+      'no grade on this line'
+    ].join('\n'));
+
+    expect(format).toBe('text');
+    expect(skippedLines).toEqual([4]);
+    expect(passes.map(p => [p.pilotName, p.grade, p.outcomeType, p.wireNumber])).toEqual([
+      ['507 Jester', '(OK)', 'trap', 2],
+      ['511 Maverick', 'NG', 'bolter', null]
+    ]);
+    expect(passes[0].sourceLine).toBe('507 Jester: GRADE:(OK) (LUL)X _F_IM WIRE# 2 GROOVE 17.5');
+  });
+});
@@ -0,0 +1,489 @@
+/**
+ * LSO Grade Parser
+ * Reads carrier trap logs into structured passes for lso_grades. Three
+ * sources are understood:
+ *
+ *   - Server event logs (JSON lines, see serverEventLogParser) carrying
+ *     S_EVENT_LANDING_QUALITY_MARK events, whose comment is DCS's own LSO
+ *     remark: "LSO: GRADE:OK  : (LUL)X  _F_IM  WIRE# 3"
+ *   - AIRBOSS trap sheet CSVs (Name, Pass, Points Pass, Grade, Details, Wire,
+ *     Tgroove, Case, Modex, Airframe, OS Date ...)
+ *   - Plain text, one pass per line: "507 Jester: GRADE:(OK) (LUL)X _F_IM WIRE# 2 GROOVE 17.5"
+ *
+ * Deviations use standard LSO shorthand: a code (LUL, F, LO...) optionally
+ * followed by where in the approach it happened (X, IM, IC, AR, IW). A code
+ * wrapped in underscores is "a lot", one in parentheses is "a little", e.g.
+ * "(LUL)X" = a little lined up left at the start, "_F_IM" = very fast in the
+ * middle. Codes in parentheses straight after WO are the waveoff reason.
+ * A WO/OWO/WOFD or BOLTER marker in the remarks sets the pass outcome when
+ * the grade itself doesn't (DCS grades a waveoff "---" and notes "WO").
+ */
+
+import { parseServerEventLog } from './serverEventLogParser';
+
+export type LsoDeviationSeverity = 'minor' | 'normal' | 'major';
+
+export type LsoApproachPhase = 'BC' | 'X' | 'IM' | 'IC' | 'AR' | 'TL' | 'IW';
+
+export interface LsoDeviation {
+  code: string;
+  description: string | null; // null for codes not in LSO_DEVIATION_CODES
+  severity: LsoDeviationSeverity;
+  phase: LsoApproachPhase | null;
+  waveoffReason?: boolean;
+  raw: string; // The shorthand this deviation was read from, e.g. "(LUL)X"
+}
+
+export type LsoOutcomeType = 'trap' | 'bolter' | 'waveoff' | 'own_waveoff' | 'foul_deck_waveoff';
+
+export interface ParsedLsoPass {
+  pilotName?: string;   // Player name as logged ("507 | Jester")
+  onboardNumber?: string;
+  aircraftType?: string;
+  missionTime?: number; // Seconds into the mission, when known
+  passTime?: string;    // Real-world time of the pass (ISO), when known
+  grade: string | null;
+  gradePoints: number | null;
+  outcomeType: LsoOutcomeType;
+  wireNumber: number | null;
+  grooveTimeSeconds: number | null;
+  isNight: boolean;
+  deviations: LsoDeviation[];
+  lsoComment: string; // The comment as logged, kept for reference
+  sourceLine: string; // The log line the pass was read from, to recognise it on re-import
+}
+
+export interface LsoTrapLog {
+  format: 'event_log' | 'airboss_csv' | 'text';
+  passes: ParsedLsoPass[];
+  skippedLines: number[]; // 1-based lines that didn't contain a pass
+}
+
+export const LSO_DEVIATION_CODES: Record<string, string> = {
+  '3PTS': 'Three points (landed flat)',
+  'AA': 'Angling approach',
+  'ACC': 'Accelerating',
+  'AFU': 'All fouled up',
+  'B': 'Flat in the middle',
+  'CB': 'Climbing',
+  'CD': 'Coming down',
+  'DEC': 'Decelerating',
+  'DL': 'Drifted left',
+  'DN': 'Dipped nose',
+  'DR': 'Drifted right',
+  'EG': 'Eased gun',
+  'F': 'Fast',
+  'FD': 'Fouled deck',
+  'H': 'High',
+  'LIG': 'Long in the groove',
+  'LL': 'Landed left',
+  'LLWD': 'Landed left wing down',
+  'LNF': 'Landed nose first',
+  'LO': 'Low',
+  'LR': 'Landed right',
+  'LRWD': 'Landed right wing down',
+  'LUL': 'Lined up left',
+  'LUR': 'Lined up right',
+  'LWD': 'Left wing down',
+  'N': 'Nose',
+  'NC': 'Nice correction',
+  'ND': 'Nose down',
+  'NEA': 'Not enough attitude',
+  'NEP': 'Not enough power',
+  'NERD': 'Not enough rate of descent',
+  'NERR': 'Not enough right rudder',
+  'NESA': 'Not enough straight away',
+  'NSU': 'Not set up',
+  'OC': 'Over control',
+  'OS': 'Overshoot',
+  'P': 'Power',
+  'PD': 'Pitching deck',
+  'PNU': 'Pulled nose up',
+  'PPP': 'Power, power, power',
+  'RWD': 'Right wing down',
+  'S': 'Settle',
+  'SD': 'Spotted deck',
+  'SHT': 'Short in the groove',
+  'SKD': 'Skid',
+  'SLO': 'Slow',
+  'ST': 'Steep turn',
+  'TCA': 'Too close abeam',
+  'TMA': 'Too much attitude',
+  'TMP': 'Too much power',
+  'TMRD': 'Too much rate of descent',
+  'TTL': 'Turned too late',
+  'TWA': 'Too wide abeam',
+  'W': 'Wings',
+  'WU': 'Wrapped up'
+};
+
+const APPROACH_PHASES: LsoApproachPhase[] = ['BC', 'X', 'IM', 'IC', 'AR', 'TL', 'IW'];
+
+export const LSO_PHASE_LABELS: Record<LsoApproachPhase, string> = {
+  BC: 'Ball call',
+  X: 'At the start',
+  IM: 'In the middle',
+  IC: 'In close',
+  AR: 'At the ramp',
+  TL: 'To land',
+  IW: 'In the wires'
+};
+
+const CODES_BY_LENGTH = Object.keys(LSO_DEVIATION_CODES).sort((a, b) => b.length - a.length);
+const PHASES_BY_LENGTH = [...APPROACH_PHASES].sort((a, b) => b.length - a.length);
+
+const GRADE_ALIASES: Record<string, string> = {
+  '_OK_': '_OK_',
+  'OK': 'OK',
+  '(OK)': '(OK)',
+  '--': 'NG',
+  '---': 'NG',
+  'NG': 'NG',
+  'NO GRADE': 'NG',
+  'B': 'B',
+  'BOLTER': 'B',
+  'C': 'C',
+  'CUT': 'C',
+  'WO': 'WO',
+  'WOP': 'WO',
+  'OWO': 'OWO',
+  'WOFD': 'WOFD'
+};
+
+// AIRBOSS points per grade. A foul deck waveoff isn't the pilot's pass and
+// doesn't count towards the average.
+const GRADE_POINTS: Record<string, number | null> = {
+  '_OK_': 5,
+  'OK': 4,
+  '(OK)': 3,
+  'B': 2.5,
+  'NG': 2,
+  'OWO': 2,
+  'WO': 1,
+  'C': 0,
+  'WOFD': null
+};
+
+/** Normalize a logged grade ("---", "Bolter", "(ok)") to the greenie board set */
+export const normalizeLsoGrade = (grade: string | null | undefined): string | null => {
+  if (!grade) return null;
+  const key = grade.trim().toUpperCase();
+  return GRADE_ALIASES[key] ?? (key || null);
+};
+
+export const lsoGradePoints = (grade: string | null): number | null => {
+  if (!grade) return null;
+  return grade in GRADE_POINTS ? GRADE_POINTS[grade] : null;
+};
+
+export const lsoOutcomeType = (grade: string | null): LsoOutcomeType => {
+  switch (grade) {
+    case 'B':
+      return 'bolter';
+    case 'WO':
+      return 'waveoff';
+    case 'OWO':
+      return 'own_waveoff';
+    case 'WOFD':
+      return 'foul_deck_waveoff';
+    default:
+      return 'trap';
+  }
+};
+
+// Outcome markers written in the remarks rather than as the grade
+const OUTCOME_MARKERS: Record<string, LsoOutcomeType> = {
+  WO: 'waveoff',
+  WOP: 'waveoff',
+  OWO: 'own_waveoff',
+  WOFD: 'foul_deck_waveoff',
+  BOLTER: 'bolter'
+};
+const OUTCOME_MARKER_PATTERN = /(?:^|\s)(WOFD|OWO|WOP|WO|BOLTER)(?=[\s(]|$)/i;
+
+/**
+ * The outcome of a pass: the grade's own outcome, or for a pass graded like a
+ * trap ("---", "C"), the first outcome marker in its remarks.
+ */
+const remarkedOutcomeType = (grade: string | null, remarks: string | undefined): LsoOutcomeType => {
+  const fromGrade = lsoOutcomeType(grade);
+  if (fromGrade !== 'trap') return fromGrade;
+  const marker = remarks?.toUpperCase().match(OUTCOME_MARKER_PATTERN)?.[1];
+  return marker ? OUTCOME_MARKERS[marker] : fromGrade;
+};
+
+/**
+ * Split run-together shorthand ("LULLO") into known codes, preferring the
+ * longest code at each step and backtracking when that leaves a remainder.
+ */
+const splitCodes = (text: string): string[] | null => {
+  if (!text) return [];
+  for (const code of CODES_BY_LENGTH) {
+    if (!text.startsWith(code)) continue;
+    const rest = splitCodes(text.slice(code.length));
+    if (rest) return [code, ...rest];
+  }
+  return null;
+};
+
+/** Split "DRIM" into codes and a trailing phase; unknown shorthand is kept whole */
+const splitGroup = (text: string): { codes: string[]; phase: LsoApproachPhase | null } => {
+  for (const phase of PHASES_BY_LENGTH) {
+    if (text.length <= phase.length || !text.endsWith(phase)) continue;
+    const codes = splitCodes(text.slice(0, -phase.length));
+    if (codes) return { codes, phase };
+  }
+  return { codes: splitCodes(text) || [text], phase: null };
+};
+
+/**
+ * Parse LSO deviation shorthand ("(LUL)X _F_IM LOIC WO(AFU)IC") into
+ * structured deviations, in the order written.
+ */
+export function parseLsoDeviations(text: string | null | undefined): LsoDeviation[] {
+  if (!text) return [];
+  const deviations: LsoDeviation[] = [];
+  // Each token is an optional wrapped group followed by an unwrapped tail:
+  // "(LUL)X" -> group "(LUL)" + tail "X", "_F_IM" -> "_F_" + "IM", "LOIC" -> "" + "LOIC"
+  const tokenPattern = /(_[A-Z0-9]+_|\([A-Z0-9]+\))?([A-Z0-9]*)/g;
+
+  const push = (code: string, severity: LsoDeviationSeverity, phase: LsoApproachPhase | null, raw: string, waveoffReason = false) => {
+    deviations.push({
+      code,
+      description: LSO_DEVIATION_CODES[code] ?? null,
+      severity,
+      phase,
+      ...(waveoffReason ? { waveoffReason } : {}),
+      raw
+    });
+  };
+  const isPhase = (value: string): value is LsoApproachPhase => APPROACH_PHASES.includes(value as LsoApproachPhase);
+
+  text.toUpperCase().replace(/\[[^\]]*\]/g, ' ').split(/\s+/).filter(Boolean).forEach(word => {
+    let afterWaveoff = false;
+    for (const [raw, group, tail] of word.matchAll(tokenPattern)) {
+      if (!raw) continue;
+
+      if (!group) {
+        // A bare waveoff marker introduces a parenthesized reason ("WO(AFU)IC")
+        if (['WO', 'WOP', 'OWO', 'WOFD'].includes(tail)) {
+          afterWaveoff = true;
+          continue;
+        }
+        // A phase on its own ("LUL X") applies to the deviation before it
+        const last = deviations[deviations.length - 1];
+        if (isPhase(tail) && last && !last.phase) {
+          last.phase = tail;
+          continue;
+        }
+        const { codes, phase } = splitGroup(tail);
+        codes.forEach(code => push(code, 'normal', phase, raw));
+        continue;
+      }
+
+      const isReason = afterWaveoff && group.startsWith('(');
+      afterWaveoff = false;
+      const { codes, phase: innerPhase } = splitGroup(group.slice(1, -1));
+      const tailPhase = isPhase(tail) ? tail : null;
+      const severity = isReason ? 'normal' : group.startsWith('_') ? 'major' : 'minor';
+      codes.forEach(code => push(code, severity, innerPhase ?? tailPhase, raw, isReason));
+
+      // Anything after the group that isn't a phase is its own shorthand
+      if (tail && !tailPhase) {
+        const rest = splitGroup(tail);
+        rest.codes.forEach(code => push(code, 'normal', rest.phase, tail));
+      }
+    }
+  });
+
+  return deviations;
+}
+
+/**
+ * Format structured deviations back into shorthand, e.g. for editing. Older
+ * rows store plain strings, which are passed through.
+ */
+export const formatLsoDeviations = (deviations: Array<LsoDeviation | string> | null | undefined): string => {
+  if (!Array.isArray(deviations)) return '';
+  return deviations.map(d => {
+    if (typeof d === 'string') return d;
+    const code = d.waveoffReason ? `WO(${d.code})` : d.severity === 'major' ? `_${d.code}_` : d.severity === 'minor' ? `(${d.code})` : d.code;
+    return `${code}${d.phase ?? ''}`;
+  }).join(' ');
+};
+
+const parseGroove = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const seconds = parseFloat(value.replace(/s(ec(onds)?)?$/i, ''));
+  return isNaN(seconds) ? null : Math.round(seconds * 10) / 10;
+};
+
+const parseWire = (value: string | undefined): number | null => {
+  const wire = parseInt(value || '', 10);
+  return wire >= 1 && wire <= 4 ? wire : null;
+};
+
+/**
+ * Parse a single LSO remark as written by DCS or typed by an LSO:
+ * "LSO: GRADE:OK  : (LUL)X  _F_IM  WIRE# 3" or "(OK) LOIC 2-wire 17s".
+ */
+export function parseLsoComment(comment: string): Omit<ParsedLsoPass, 'isNight' | 'sourceLine'> {
+  const text = comment.replace(/^\s*LSO\s*:\s*/i, '');
+
+  const gradeMatch = text.match(/GRADE\s*:\s*(_OK_|\(OK\)|OK|-{2,3}|NG|NO GRADE|BOLTER|B|CUT|C|WOFD|OWO|WOP|WO)(?![A-Z0-9])/i)
+    || text.match(/^\s*(_OK_|\(OK\)|OK|-{2,3}|NG|B|C|WOFD|OWO|WO)(?![A-Z0-9(])/i);
+  const wireMatch = text.match(/WIRE\s*[#:]\s*(\d)/i) || text.match(/(?:^|\s)(\d)\s*-?\s*WIRE/i);
+  const grooveMatch = text.match(/GROOVE(?:\s*TIME)?\s*[:=]?\s*(\d+(?:\.\d+)?)/i) || text.match(/(?:^|\s)(\d+(?:\.\d+)?)\s*S(?:EC)?(?:\s|$)/i);
+
+  const grade = normalizeLsoGrade(gradeMatch?.[1]);
+
+  // Whatever is left once grade, wire and groove are removed is the comment shorthand
+  let remainder = text;
+  [gradeMatch, wireMatch, grooveMatch].forEach(match => {
+    if (match) remainder = remainder.replace(match[0], ' ');
+  });
+  remainder = remainder.replace(/(^|\s):(\s|$)/g, ' ').trim();
+
+  // A bolter/waveoff graded pass is never a trap even if a wire was logged
+  const outcomeType = remarkedOutcomeType(grade, remainder);
+  const deviations = parseLsoDeviations(remainder.replace(/(^|\s)BOLTER(?=\s|$)/gi, ' '));
+
+  return {
+    grade,
+    gradePoints: lsoGradePoints(grade),
+    outcomeType,
+    wireNumber: outcomeType === 'trap' ? parseWire(wireMatch?.[1]) : null,
+    grooveTimeSeconds: parseGroove(grooveMatch?.[1]),
+    deviations,
+    lsoComment: comment.trim()
+  };
+}
+
+/** Split a CSV line, honouring double-quoted fields */
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields.map(field => field.trim());
+};
+
+const parseDate = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const parseAirbossCsv = (lines: string[]): LsoTrapLog => {
+  const header = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+  const column = (row: string[], ...names: string[]) => {
+    for (const name of names) {
+      const index = header.indexOf(name);
+      if (index >= 0 && row[index]) return row[index];
+    }
+    return undefined;
+  };
+
+  const passes: ParsedLsoPass[] = [];
+  const skippedLines: number[] = [];
+  lines.slice(1).forEach((line, index) => {
+    if (!line.trim()) return;
+    const row = splitCsvLine(line);
+    const grade = normalizeLsoGrade(column(row, 'grade'));
+    if (!grade) {
+      skippedLines.push(index + 2);
+      return;
+    }
+
+    const outcomeType = remarkedOutcomeType(grade, column(row, 'details'));
+    const points = parseFloat(column(row, 'points pass', 'points') || '');
+    passes.push({
+      pilotName: column(row, 'name'),
+      onboardNumber: column(row, 'modex'),
+      aircraftType: column(row, 'airframe'),
+      passTime: parseDate(column(row, 'os date')),
+      grade,
+      // AIRBOSS already scored the pass; fall back to the grade table
+      gradePoints: isNaN(points) ? lsoGradePoints(grade) : points,
+      outcomeType,
+      wireNumber: outcomeType === 'trap' ? parseWire(column(row, 'wire')) : null,
+      grooveTimeSeconds: parseGroove(column(row, 'tgroove', 'groove')),
+      // Case III recoveries are flown at night
+      isNight: /^(III|3)$/i.test(column(row, 'case') || ''),
+      deviations: parseLsoDeviations(column(row, 'details')),
+      lsoComment: [grade, column(row, 'details')].filter(Boolean).join(' '),
+      sourceLine: line.trim()
+    });
+  });
+
+  return { format: 'airboss_csv', passes, skippedLines };
+};
+
+/**
+ * Parse a trap log in any of the supported formats. `isNight` is the default
+ * for sources that don't record day/night (everything but AIRBOSS Case III).
+ */
+export function parseLsoTrapLog(text: string, isNight: boolean = false): LsoTrapLog {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const firstLine = lines.find(line => line.trim()) || '';
+
+  if (firstLine.trim().startsWith('{')) {
+    const { events, invalidLines } = parseServerEventLog(text);
+    const eventLines = text.split(/\r?\n/);
+    const passes = events
+      .filter(event => event.event === 'S_EVENT_LANDING_QUALITY_MARK' && event.comment)
+      .map(event => ({
+        ...parseLsoComment(event.comment!),
+        pilotName: event.initiator.player,
+        onboardNumber: event.initiator.onboard_num,
+        aircraftType: event.initiator.type,
+        missionTime: event.t,
+        isNight,
+        sourceLine: eventLines[event.line - 1].trim()
+      }));
+    return { format: 'event_log', passes, skippedLines: invalidLines };
+  }
+
+  if (/(^|,)\s*"?grade"?\s*(,|$)/i.test(firstLine)) {
+    return parseAirbossCsv(lines.slice(lines.indexOf(firstLine)));
+  }
+
+  const passes: ParsedLsoPass[] = [];
+  const skippedLines: number[] = [];
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('//') || line.startsWith('#')) return;
+
+    // "507 Jester: GRADE:OK ..." - the pilot is everything before the first
+    // colon that isn't part of the "LSO:"/"GRADE:" remark itself
+    const remarkStart = line.search(/(LSO\s*:|GRADE\s*:)/i);
+    const separator = remarkStart > 0 ? line.lastIndexOf(':', remarkStart) : line.indexOf(':');
+    const pilotName = separator > 0 ? line.slice(0, separator).trim() : undefined;
+    const comment = separator > 0 ? line.slice(separator + 1) : line;
+
+    const pass = parseLsoComment(comment);
+    if (!pass.grade || !pilotName) {
+      skippedLines.push(index + 1);
+      return;
+    }
+    passes.push({ ...pass, pilotName, isNight, sourceLine: line });
+  });
+
+  return { format: 'text', passes, skippedLines };
+}
@@ -0,0 +1,131 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import JSZip from 'jszip';
+import { describe, expect, it, vi } from 'vitest';
+import { parseLuaAssignments, parseLuaGlobalTable, parseMizContents, type LuaJsonObject } from './luaTableParser';
+import { readMizFileContents } from './mizParserService';
+import { extractAircraftGroups } from './aircraftExtractor';
+import { extractRedCoalitionUnitTypes } from './redUnitExtractor';
+import { processMissionCoordinates } from './coordinateUtils';
+
+const FIXTURE_DIR = join(__dirname, '__fixtures__', 'miz', 'caucasus-training');
+const readFixture = (name: string) => readFileSync(join(FIXTURE_DIR, name), 'utf8');
+
+// Build a .miz archive from the fixture files, laid out as DCS writes it
+const buildMiz = async (): Promise<ArrayBuffer> => {
+  const zip = new JSZip();
+  zip.file('mission', readFixture('mission'));
+  zip.file('options', readFixture('options'));
+  zip.file('warehouses', readFixture('warehouses'));
+  zip.file('l10n/DEFAULT/dictionary', readFixture('dictionary'));
+  zip.file('l10n/DEFAULT/mapResource', 'mapResource = \n{\n} -- end of mapResource\n');
+  return zip.generateAsync({ type: 'arraybuffer' });
+};
+
+const asObject = (value: unknown) => value as LuaJsonObject;
+
+describe('parseMizContents (.miz fixture)', () => {
+  // The extractors log every group they visit
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+
+  it('reads and parses every Lua file in the archive', async () => {
+    const contents = await readMizFileContents(await buildMiz());
+    const parsed = parseMizContents(contents);
+
+    expect(parsed.mission?.theatre).toBe('Caucasus');
+    expect(parsed.options?.playerName).toBe('Enfield 1-1');
+    expect(asObject(parsed.dictionary).DictKey_ActionText_3).toBe('Range "Charlie" is hot');
+    expect(asObject(parsed.warehouses).warehouses).toEqual([]);
+  });
+
+  it('produces the shapes the mission prep extractors expect', async () => {
+    const { mission } = parseMizContents(await readMizFileContents(await buildMiz()));
+
+    const groups = extractAircraftGroups(mission);
+    expect(groups.map(group => group.name)).toEqual(['Enfield-1', 'Dude-1']);
+    expect(groups[0].units.map(unit => unit.onboard_num)).toEqual(['010', '011']);
+    expect(groups[0].units[0].callsign).toEqual({ _1: 1, _2: 1, _3: 1, name: 'Enfield11' });
+
+    expect(extractRedCoalitionUnitTypes(mission).sort()).toEqual(['Kub 1S91 str', 'Kub 2P25 ln', 'REZKY']);
+
+    const coordinates = processMissionCoordinates(mission!);
+    expect(coordinates.theatre).toBe('Caucasus');
+    expect(coordinates.blueBullseye.dcsCoords).toEqual([-291014, 617414]);
+    expect(coordinates.blueBullseye.formatted).toBeTruthy();
+  });
+
+  it('encodes tables the way json2.lua did', () => {
+    const mission = parseLuaGlobalTable(readFixture('mission'), 'mission');
+    const trig = asObject(mission.trig);
+
+    // Empty tables become arrays, sparse numeric keys become "_<n>"
+    expect(mission.requiredModules).toEqual([]);
+    expect(trig.flag).toEqual({ _1: true, _3: true });
+    expect(Object.keys(asObject(trig.actions))).toEqual(['_1', '_3']);
+
+    const blueCountry = (asObject(asObject(mission.coalition).blue).country as LuaJsonObject[])[0];
+    const units = (asObject(blueCountry.plane).group as LuaJsonObject[])[0].units as LuaJsonObject[];
+    expect(Object.keys(asObject(asObject(units[0].payload).pylons))).toEqual(['_1', '_9']);
+    expect(units[0].Radio).toEqual([{ channels: [305, 264, 265] }]);
+  });
+
+  it('unescapes strings, including escaped line breaks and long brackets', () => {
+    const dictionary = parseLuaGlobalTable(readFixture('dictionary'), 'dictionary');
+
+    expect(dictionary.DictKey_descriptionText_1).toBe('Day CAP training sortie.\nCheck in with Magic on 264.000 before the push.');
+    expect(dictionary.DictKey_WptName_7).toBe('');
+    expect(dictionary.DictKey_sortie_5).toBe('Long\nbracket string');
+
+    const trig = asObject(parseLuaGlobalTable(readFixture('mission'), 'mission').trig);
+    expect(asObject(trig.actions)._1).toBe('a_do_script("trigger.action.outText(\\"Range hot\\", 10)");');
+  });
+
+  it('keeps numeric table keys that are not a 1..n sequence', () => {
+    const warehouses = parseLuaGlobalTable(readFixture('warehouses'), 'warehouses');
+    expect(Object.keys(asObject(warehouses.airports))).toEqual(['_12', '_13']);
+  });
+});
+
+describe('parseLuaAssignments', () => {
+  it('rounds numbers to 14 significant digits like json2.lua', () => {
+    const { value } = parseLuaAssignments('value = 179.861111111111111');
+    expect(value).toBe(179.86111111111);
+  });
+
+  it('leaves integers, hex and exponents intact', () => {
+    expect(parseLuaAssignments('a = 123456789012 b = 0x1F c = -2.5e3 d = - 4')).toEqual({
+      a: 123456789012,
+      b: 31,
+      c: -2500,
+      d: -4
+    });
+  });
+
+  it('handles comments, semicolons and nil entries', () => {
+    const source = `
+      --[[ block
+      comment ]]
+      t = { 1, nil, 3; ["x"] = nil, y = "z" } -- trailing comment
+      local u = { true, false }
+      return { "done" }
+    `;
+    expect(parseLuaAssignments(source)).toEqual({
+      t: { _1: 1, _3: 3, y: 'z' },
+      u: [true, false],
+      return: ['done']
+    });
+  });
+
+  it('decodes numeric, hex and unicode escapes', () => {
+    expect(parseLuaAssignments('s = "\\65\\x42\\u{43}\\tD"').s).toBe('ABC\tD');
+  });
+
+  it('reports the line of a syntax error', () => {
+    expect(() => parseLuaAssignments('t = {\n  a = 1,\n  b = ,\n}')).toThrow(/line 3/);
+    expect(() => parseLuaAssignments('t = { "unterminated }')).toThrow(/unterminated string/);
+  });
+
+  it('fails when the requested global is missing', () => {
+    expect(() => parseLuaGlobalTable('options = {}', 'mission')).toThrow('No mission table found in Lua source');
+  });
+});
@@ -0,0 +1,520 @@
+/**
+ * Lua Table Parser Utility
+ * Parses the serialized Lua tables DCS writes inside a .miz archive
+ * (`mission`, `options`, `warehouses`, `l10n/DEFAULT/dictionary`, `mapResource`)
+ * into plain JSON-compatible objects, without running a Lua VM.
+ *
+ * The output mirrors what json2.lua's `json.encode` produced under fengari, so
+ * existing consumers (extractAircraftGroups, extractRedCoalitionUnitTypes, ...)
+ * see the same shapes:
+ * - tables keyed 1..n (or empty tables) become arrays
+ * - any other table becomes an object; numeric keys are written as "_<n>"
+ * - numbers are rounded to 14 significant digits (json2's "%.14g"), unless
+ *   `exactNumbers` is set for callers that write the mission back out
+ *
+ * This module has no DOM or Node dependencies, so it runs on the main thread,
+ * in a Web Worker and in Node alike.
+ */
+
+export type LuaJsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | LuaJsonValue[]
+  | { [key: string]: LuaJsonValue };
+
+export type LuaJsonObject = { [key: string]: LuaJsonValue };
+
+export interface LuaParseOptions {
+  // Keep numbers exactly as written instead of rounding them like json2.lua.
+  // Needed when the parsed table is serialized back into a .miz.
+  exactNumbers?: boolean;
+}
+
+/**
+ * Parsed contents of the Lua files in a .miz archive.
+ * Files that were not supplied are null.
+ */
+export interface ParsedMizData {
+  mission: LuaJsonObject | null;
+  options: LuaJsonObject | null;
+  warehouses: LuaJsonObject | null;
+  dictionary: LuaJsonObject | null;
+}
+
+/**
+ * Raw text of the Lua files in a .miz archive, as read from the zip.
+ */
+export interface MizFileContents {
+  mission: string;
+  options?: string | null;
+  warehouses?: string | null;
+  dictionary?: string | null;
+}
+
+// Intermediate table representation: keys in insertion order, last write wins.
+type LuaKey = string | number;
+type LuaTable = Map<LuaKey, LuaJsonValue>;
+
+const CHAR = {
+  TAB: 9,
+  LF: 10,
+  VT: 11,
+  FF: 12,
+  CR: 13,
+  SPACE: 32,
+  DQUOTE: 34,
+  SQUOTE: 39,
+  COMMA: 44,
+  MINUS: 45,
+  DOT: 46,
+  ZERO: 48,
+  NINE: 57,
+  SEMICOLON: 59,
+  EQUALS: 61,
+  LBRACKET: 91,
+  BACKSLASH: 92,
+  RBRACKET: 93,
+  UNDERSCORE: 95,
+  LBRACE: 123,
+  RBRACE: 125
+};
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  a: '\x07',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  v: '\v',
+  '\\': '\\',
+  '"': '"',
+  "'": "'",
+  '\n': '\n',
+  '\r': '\n'
+};
+
+const isDigit = (c: number) => c >= CHAR.ZERO && c <= CHAR.NINE;
+const isIdentStart = (c: number) =>
+  (c >= 65 && c <= 90) || (c >= 97 && c <= 122) || c === CHAR.UNDERSCORE;
+const isIdentPart = (c: number) => isIdentStart(c) || isDigit(c);
+
+// Match json2.lua's string.format("%.14g", n)
+const normalizeNumber = (n: number): number =>
+  Number.isFinite(n) && !Number.isInteger(n) ? Number(n.toPrecision(14)) : n;
+
+/**
+ * Convert a parsed table to the JSON shape json2.lua would have produced.
+ */
+function tableToJson(table: LuaTable): LuaJsonValue {
+  // json2: a table is an array when t[1] ~= nil (or it is empty) and its keys
+  // are exactly the integers 1..n
+  if (table.size === 0) return [];
+
+  if (table.has(1)) {
+    let isArray = true;
+    for (const key of table.keys()) {
+      if (typeof key !== 'number' || !Number.isInteger(key) || key < 1 || key > table.size) {
+        isArray = false;
+        break;
+      }
+    }
+    if (isArray) {
+      const array: LuaJsonValue[] = new Array(table.size);
+      for (let i = 1; i <= table.size; i++) {
+        array[i - 1] = table.get(i)!;
+      }
+      return array;
+    }
+  }
+
+  const object: LuaJsonObject = {};
+  for (const [key, value] of table) {
+    object[typeof key === 'number' ? `_${key}` : key] = value;
+  }
+  return object;
+}
+
+class LuaTableParser {
+  private pos = 0;
+  private readonly src: string;
+  private readonly exactNumbers: boolean;
+
+  constructor(src: string, options: LuaParseOptions = {}) {
+    this.src = src;
+    this.exactNumbers = options.exactNumbers ?? false;
+  }
+
+  /**
+   * Parse a chunk of `name = value` assignments (optionally `local`), plus an
+   * optional trailing `return value`. Returns the assigned globals.
+   */
+  parseChunk(): LuaJsonObject {
+    const globals: LuaJsonObject = {};
+
+    this.skipWhitespaceAndComments();
+    while (this.pos < this.src.length) {
+      const name = this.readIdentifier();
+      if (name === 'local') {
+        this.skipWhitespaceAndComments();
+        continue;
+      }
+      if (name === 'return') {
+        this.skipWhitespaceAndComments();
+        globals.return = this.parseValue();
+        this.skipWhitespaceAndComments();
+        if (this.src.charCodeAt(this.pos) === CHAR.SEMICOLON) this.pos++;
+        this.skipWhitespaceAndComments();
+        continue;
+      }
+
+      this.skipWhitespaceAndComments();
+      this.expect(CHAR.EQUALS, `'=' after '${name}'`);
+      this.skipWhitespaceAndComments();
+      globals[name] = this.parseValue();
+      this.skipWhitespaceAndComments();
+      if (this.src.charCodeAt(this.pos) === CHAR.SEMICOLON) {
+        this.pos++;
+        this.skipWhitespaceAndComments();
+      }
+    }
+
+    return globals;
+  }
+
+  private parseValue(): LuaJsonValue {
+    const c = this.src.charCodeAt(this.pos);
+
+    if (c === CHAR.LBRACE) return this.parseTable();
+    if (c === CHAR.DQUOTE || c === CHAR.SQUOTE) return this.parseQuotedString();
+    if (c === CHAR.LBRACKET) {
+      const longString = this.tryParseLongString();
+      if (longString !== null) return longString;
+    }
+    if (isDigit(c) || c === CHAR.MINUS || c === CHAR.DOT) return this.parseNumber();
+
+    if (isIdentStart(c)) {
+      const word = this.readIdentifier();
+      if (word === 'true') return true;
+      if (word === 'false') return false;
+      if (word === 'nil') return null;
+      this.fail(`unsupported expression '${word}'`);
+    }
+
+    this.fail(`unexpected ${this.describeChar()}`);
+  }
+
+  private parseTable(): LuaJsonValue {
+    this.pos++; // {
+    const table: LuaTable = new Map();
+    let nextIndex = 1;
+
+    for (;;) {
+      this.skipWhitespaceAndComments();
+      const c = this.src.charCodeAt(this.pos);
+
+      if (c === CHAR.RBRACE) {
+        this.pos++;
+        return tableToJson(table);
+      }
+      if (Number.isNaN(c)) this.fail("unterminated table, expected '}'");
+
+      let key: LuaKey | null = null;
+
+      if (c === CHAR.LBRACKET && !this.isLongBracketAt(this.pos)) {
+        // [expr] = value
+        this.pos++;
+        this.skipWhitespaceAndComments();
+        const keyValue = this.parseValue();
+        if (typeof keyValue !== 'string' && typeof keyValue !== 'number') {
+          this.fail('table keys must be strings or numbers');
+        }
+        key = keyValue;
+        this.skipWhitespaceAndComments();
+        this.expect(CHAR.RBRACKET, "']' after table key");
+        this.skipWhitespaceAndComments();
+        this.expect(CHAR.EQUALS, "'=' after table key");
+      } else if (isIdentStart(c)) {
+        // name = value, unless it's a bare true/false/nil value
+        const start = this.pos;
+        const name = this.readIdentifier();
+        this.skipWhitespaceAndComments();
+        if (this.src.charCodeAt(this.pos) === CHAR.EQUALS && this.src.charCodeAt(this.pos + 1) !== CHAR.EQUALS) {
+          this.pos++;
+          key = name;
+        } else {
+          this.pos = start;
+        }
+      }
+
+      this.skipWhitespaceAndComments();
+      const value = this.parseValue();
+
+      if (key === null) {
+        key = nextIndex++;
+      }
+      // Assigning nil removes the key, as in Lua
+      if (value === null) {
+        table.delete(key);
+      } else {
+        table.set(key, value);
+      }
+
+      this.skipWhitespaceAndComments();
+      const sep = this.src.charCodeAt(this.pos);
+      if (sep === CHAR.COMMA || sep === CHAR.SEMICOLON) {
+        this.pos++;
+      } else if (sep !== CHAR.RBRACE) {
+        this.fail(`expected ',' or '}' but found ${this.describeChar()}`);
+      }
+    }
+  }
+
+  private parseQuotedString(): string {
+    const src = this.src;
+    const quote = src.charCodeAt(this.pos);
+    let out = '';
+    let chunkStart = ++this.pos;
+
+    for (;;) {
+      const c = src.charCodeAt(this.pos);
+      if (Number.isNaN(c)) this.fail('unterminated string');
+
+      if (c === quote) {
+        out += src.slice(chunkStart, this.pos);
+        this.pos++;
+        return out;
+      }
+
+      if (c === CHAR.BACKSLASH) {
+        out += src.slice(chunkStart, this.pos);
+        this.pos++;
+        out += this.readEscape();
+        chunkStart = this.pos;
+        continue;
+      }
+
+      if (c === CHAR.LF || c === CHAR.CR) this.fail('unfinished string');
+      this.pos++;
+    }
+  }
+
+  private readEscape(): string {
+    const src = this.src;
+    const ch = src[this.pos];
+
+    if (ch === undefined) this.fail('unterminated escape sequence');
+
+    if (ch in SIMPLE_ESCAPES) {
+      this.pos++;
+      // Treat \r\n after a backslash as a single escaped newline
+      if (ch === '\r' && src[this.pos] === '\n') this.pos++;
+      return SIMPLE_ESCAPES[ch];
+    }
+
+    if (ch === 'x') {
+      const hex = src.slice(this.pos + 1, this.pos + 3);
+      if (!/^[0-9a-fA-F]{2}$/.test(hex)) this.fail('invalid \\x escape');
+      this.pos += 3;
+      return String.fromCharCode(parseInt(hex, 16));
+    }
+
+    if (ch === 'z') {
+      // \z skips the following whitespace
+      this.pos++;
+      while (this.pos < src.length && /\s/.test(src[this.pos])) this.pos++;
+      return '';
+    }
+
+    if (ch === 'u') {
+      const match = /^u\{([0-9a-fA-F]+)\}/.exec(src.slice(this.pos, this.pos + 12));
+      if (!match) this.fail('invalid \\u escape');
+      this.pos += match[0].length;
+      return String.fromCodePoint(parseInt(match[1], 16));
+    }
+
+    if (isDigit(src.charCodeAt(this.pos))) {
+      let digits = '';
+      while (digits.length < 3 && isDigit(src.charCodeAt(this.pos))) {
+        digits += src[this.pos++];
+      }
+      return String.fromCharCode(parseInt(digits, 10));
+    }
+
+    this.fail(`invalid escape sequence '\\${ch}'`);
+  }
+
+  private isLongBracketAt(index: number): boolean {
+    let i = index + 1;
+    while (this.src.charCodeAt(i) === CHAR.EQUALS) i++;
+    return this.src.charCodeAt(i) === CHAR.LBRACKET;
+  }
+
+  /**
+   * Parse a long string ([[...]] or [==[...]==]) at the current position.
+   * Returns null without consuming input when there isn't one.
+   */
+  private tryParseLongString(): string | null {
+    if (!this.isLongBracketAt(this.pos)) return null;
+
+    let level = 0;
+    let i = this.pos + 1;
+    while (this.src.charCodeAt(i) === CHAR.EQUALS) {
+      level++;
+      i++;
+    }
+    i++; // second [
+
+    // A newline immediately after the opening bracket is skipped
+    if (this.src.charCodeAt(i) === CHAR.CR) i++;
+    if (this.src.charCodeAt(i) === CHAR.LF) i++;
+
+    const close = `]${'='.repeat(level)}]`;
+    const end = this.src.indexOf(close, i);
+    if (end === -1) this.fail('unterminated long string');
+
+    this.pos = end + close.length;
+    return this.src.slice(i, end);
+  }
+
+  private parseNumber(): number {
+    const src = this.src;
+    const start = this.pos;
+    let negative = false;
+
+    if (src.charCodeAt(this.pos) === CHAR.MINUS) {
+      negative = true;
+      this.pos++;
+      this.skipWhitespaceAndComments();
+    }
+
+    const hexMatch = /^0[xX][0-9a-fA-F]+/.exec(src.slice(this.pos, this.pos + 20));
+    if (hexMatch) {
+      this.pos += hexMatch[0].length;
+      const value = parseInt(hexMatch[0], 16);
+      return negative ? -value : value;
+    }
+
+    const numberStart = this.pos;
+    while (isDigit(src.charCodeAt(this.pos))) this.pos++;
+    if (src.charCodeAt(this.pos) === CHAR.DOT) {
+      this.pos++;
+      while (isDigit(src.charCodeAt(this.pos))) this.pos++;
+    }
+    const e = src[this.pos];
+    if (e === 'e' || e === 'E') {
+      this.pos++;
+      if (src[this.pos] === '+' || src[this.pos] === '-') this.pos++;
+      while (isDigit(src.charCodeAt(this.pos))) this.pos++;
+    }
+
+    const text = src.slice(numberStart, this.pos);
+    const value = Number(text);
+    if (text === '' || text === '.' || Number.isNaN(value)) {
+      this.pos = start;
+      this.fail(`malformed number near '${src.slice(start, start + 20)}'`);
+    }
+
+    const signed = negative ? -value : value;
+    return this.exactNumbers ? signed : normalizeNumber(signed);
+  }
+
+  private readIdentifier(): string {
+    const start = this.pos;
+    if (!isIdentStart(this.src.charCodeAt(this.pos))) {
+      this.fail(`expected a name but found ${this.describeChar()}`);
+    }
+    while (isIdentPart(this.src.charCodeAt(this.pos))) this.pos++;
+    return this.src.slice(start, this.pos);
+  }
+
+  private skipWhitespaceAndComments(): void {
+    const src = this.src;
+    for (;;) {
+      const c = src.charCodeAt(this.pos);
+      if (c === CHAR.SPACE || c === CHAR.TAB || c === CHAR.LF || c === CHAR.CR || c === CHAR.VT || c === CHAR.FF) {
+        this.pos++;
+        continue;
+      }
+      if (c === CHAR.MINUS && src.charCodeAt(this.pos + 1) === CHAR.MINUS) {
+        this.pos += 2;
+        if (src.charCodeAt(this.pos) === CHAR.LBRACKET && this.isLongBracketAt(this.pos)) {
+          this.tryParseLongString();
+        } else {
+          const newline = src.indexOf('\n', this.pos);
+          this.pos = newline === -1 ? src.length : newline + 1;
+        }
+        continue;
+      }
+      // Skip a UTF-8 byte order mark at the start of the file
+      if (c === 0xfeff) {
+        this.pos++;
+        continue;
+      }
+      return;
+    }
+  }
+
+  private expect(code: number, description: string): void {
+    if (this.src.charCodeAt(this.pos) !== code) {
+      this.fail(`expected ${description} but found ${this.describeChar()}`);
+    }
+    this.pos++;
+  }
+
+  private describeChar(): string {
+    return this.pos >= this.src.length ? 'end of input' : `'${this.src[this.pos]}'`;
+  }
+
+  private fail(message: string): never {
+    let line = 1;
+    for (let i = 0; i < this.pos && i < this.src.length; i++) {
+      if (this.src.charCodeAt(i) === CHAR.LF) line++;
+    }
+    throw new Error(`Lua parse error (line ${line}): ${message}`);
+  }
+}
+
+/**
+ * Parse a Lua source file made of global assignments (`mission = { ... }`)
+ * and return the assigned values by name. A trailing `return value` is
+ * exposed under the `return` key.
+ */
+export function parseLuaAssignments(source: string, options?: LuaParseOptions): LuaJsonObject {
+  return new LuaTableParser(source, options).parseChunk();
+}
+
+/**
+ * Parse a single global table out of a Lua source file, e.g. the `mission`
+ * table from the `mission` file. Throws if the file doesn't assign it.
+ */
+export function parseLuaGlobalTable(source: string, globalName: string, options?: LuaParseOptions): LuaJsonObject {
+  const value = parseLuaAssignments(source, options)[globalName];
+  if (value === undefined || value === null) {
+    throw new Error(`No ${globalName} table found in Lua source`);
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    // Empty tables encode as [], which consumers treat as "no data"
+    if (Array.isArray(value) && value.length === 0) return {};
+    throw new Error(`${globalName} is not a table`);
+  }
+  return value;
+}
+
+/**
+ * Parse the Lua files of a .miz archive. Only `mission` is required; the
+ * optional files are parsed when present and otherwise returned as null.
+ */
+export function parseMizContents(files: MizFileContents, options?: LuaParseOptions): ParsedMizData {
+  const parseOptional = (source: string | null | undefined, globalName: string) =>
+    source ? parseLuaGlobalTable(source, globalName, options) : null;
+
+  return {
+    mission: parseLuaGlobalTable(files.mission, 'mission', options),
+    options: parseOptional(files.options, 'options'),
+    warehouses: parseOptional(files.warehouses, 'warehouses'),
+    dictionary: parseOptional(files.dictionary, 'dictionary')
+  };
+}
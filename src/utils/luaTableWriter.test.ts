@@ -0,0 +1,67 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseLuaGlobalTable, type LuaJsonObject } from './luaTableParser';
+import { serializeLuaGlobal } from './luaTableWriter';
+
+const FIXTURE_DIR = join(__dirname, '__fixtures__', 'miz', 'caucasus-training');
+const readFixture = (name: string) => readFileSync(join(FIXTURE_DIR, name), 'utf8');
+
+const roundTrip = (globalName: string, value: LuaJsonObject) =>
+  parseLuaGlobalTable(serializeLuaGlobal(globalName, value), globalName, { exactNumbers: true });
+
+describe('serializeLuaGlobal', () => {
+  it.each(['mission', 'options', 'warehouses', 'dictionary'])('round-trips the %s fixture', (name) => {
+    const parsed = parseLuaGlobalTable(readFixture(name), name, { exactNumbers: true });
+    expect(roundTrip(name, parsed)).toEqual(parsed);
+  });
+
+  it('keeps full coordinate precision', () => {
+    const source = 'mission = { ["x"] = -281713.7142857143, ["y"] = 647369.4285714286, ["speed"] = 179.86111111111111 }';
+    const parsed = parseLuaGlobalTable(source, 'mission', { exactNumbers: true });
+
+    expect(parsed.x).toBe(-281713.7142857143);
+    expect(roundTrip('mission', parsed)).toEqual(parsed);
+  });
+
+  it('escapes quotes, backslashes, line breaks and carriage returns', () => {
+    const value = {
+      quote: 'Range "Charlie"',
+      path: 'C:\\Saved Games\\DCS',
+      lines: 'first\nsecond',
+      crlf: 'first\r\nsecond',
+      cr: 'first\rsecond'
+    };
+
+    const serialized = serializeLuaGlobal('dictionary', value);
+    expect(serialized).toContain('["cr"] = "first\\rsecond"');
+    expect(serialized).toContain('["lines"] = "first\\\nsecond"');
+    expect(roundTrip('dictionary', value)).toEqual(value);
+  });
+
+  it('writes "_<n>" keys and arrays back as numeric keys', () => {
+    const value = { flag: { _1: true, _3: true }, channels: [305, 264.5] };
+    const serialized = serializeLuaGlobal('trig', value);
+
+    expect(serialized).toContain('[3] = true');
+    expect(serialized).toContain('[2] = 264.5');
+    expect(roundTrip('trig', value)).toEqual(value);
+  });
+
+  it('matches the DCS file layout', () => {
+    expect(serializeLuaGlobal('options', { playerName: 'Enfield 1-1', difficulty: { padlock: true } })).toBe(
+      'options = \n' +
+      '{\n' +
+      '    ["playerName"] = "Enfield 1-1",\n' +
+      '    ["difficulty"] = \n' +
+      '    {\n' +
+      '        ["padlock"] = true,\n' +
+      '    }, -- end of ["difficulty"]\n' +
+      '} -- end of options\n'
+    );
+  });
+
+  it('refuses numbers Lua cannot read back', () => {
+    expect(() => serializeLuaGlobal('mission', { x: Number.NaN })).toThrow('Cannot serialize number NaN to Lua');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Lua Table Writer Utility
+ * Serializes JSON-shaped data produced by luaTableParser back into the Lua
+ * table format DCS writes into a .miz archive, so an edited mission can be
+ * zipped up and loaded by the Mission Editor / server.
+ *
+ * Reverses the parser's json2-compatible encoding:
+ * - arrays become tables keyed [1]..[n]
+ * - object keys of the form "_<n>" become numeric keys [n]
+ */
+
+import type { LuaJsonValue } from './luaTableParser';
+
+const INDENT = '    ';
+const NUMERIC_KEY = /^_(-?\d+)$/;
+
+const escapeLuaString = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    // A raw CR would end the string literal, so it's written as \r
+    .replace(/\r/g, '\\r')
+    // DCS writes embedded newlines as an escaped line break
+    .replace(/\n/g, '\\\n');
+
+const formatKey = (key: string | number): string => {
+  if (typeof key === 'number') return `[${key}]`;
+  const numeric = NUMERIC_KEY.exec(key);
+  return numeric ? `[${numeric[1]}]` : `["${escapeLuaString(key)}"]`;
+};
+
+const formatScalar = (value: string | number | boolean | null): string => {
+  if (value === null) return 'nil';
+  if (typeof value === 'string') return `"${escapeLuaString(value)}"`;
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new Error(`Cannot serialize number ${value} to Lua`);
+    // Shortest representation that reads back as the same double
+    return String(value);
+  }
+  return value ? 'true' : 'false';
+};
+
+function writeValue(value: LuaJsonValue, depth: number, out: string[]): void {
+  if (value === null || typeof value !== 'object') {
+    out.push(formatScalar(value));
+    return;
+  }
+
+  const indent = INDENT.repeat(depth);
+  const entries: Array<[string | number, LuaJsonValue]> = Array.isArray(value)
+    ? value.map((item, index) => [index + 1, item])
+    : Object.entries(value);
+
+  out.push(`\n${indent}{\n`);
+  for (const [key, item] of entries) {
+    // nil entries don't exist in a Lua table
+    if (item === null || item === undefined) continue;
+    const formattedKey = formatKey(key);
+    out.push(`${indent}${INDENT}${formattedKey} = `);
+    writeValue(item, depth + 1, out);
+    out.push(typeof item === 'object' ? `, -- end of ${formattedKey}\n` : ',\n');
+  }
+  out.push(`${indent}}`);
+}
+
+/**
+ * Serialize a value as a global Lua assignment in DCS's file format,
+ * e.g. `mission = { ... } -- end of mission`.
+ */
+export function serializeLuaGlobal(globalName: string, value: LuaJsonValue): string {
+  const out: string[] = [`${globalName} = `];
+  writeValue(value, 0, out);
+  if (value !== null && typeof value === 'object') {
+    out.push(` -- end of ${globalName}`);
+  }
+  out.push('\n');
+  return out.join('');
+}
@@ -0,0 +1,108 @@
+import { sb } from './supabaseClient';
+import { tabSessionId } from './tabSessionId';
+import type { Flight } from '../types/FlightData';
+import type { Section } from '../components/layout/SectionContext';
+import type { CoordinationBoard, CoordinationBoardResponse } from '../types/MissionCoordinationTypes';
+import type { Database, Json } from '../types/supabase';
+
+type CoordinationBoardRow = Database['public']['Tables']['mission_coordination_boards']['Row'];
+
+const convertRowToBoard = (row: CoordinationBoardRow): CoordinationBoard => {
+  return {
+    mission_id: row.mission_id,
+    flights: Array.isArray(row.flights) ? row.flights as unknown as Flight[] : [],
+    sections: Array.isArray(row.sections) ? row.sections as unknown as Section[] : [],
+    version: row.version ?? 1,
+    updated_by: row.updated_by || undefined,
+    updated_at: row.updated_at || undefined,
+    last_modified_session: row.last_modified_session || undefined
+  };
+};
+
+/**
+ * Get the coordination board for a mission.
+ * Returns a null board (and no error) when nobody has worked the mission yet.
+ */
+export const getCoordinationBoard = async (missionId: string): Promise<CoordinationBoardResponse> => {
+  return await sb(async (supabase) => {
+    const { data, error } = await supabase
+      .from('mission_coordination_boards')
+      .select('*')
+      .eq('mission_id', missionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching coordination board:', error);
+      return { board: null, error: error.message };
+    }
+
+    return { board: data ? convertRowToBoard(data) : null, error: undefined };
+  });
+};
+
+/**
+ * Save the coordination board for a mission.
+ * Supports optimistic locking like updateMission: expectedVersion is the
+ * version the caller last loaded (null when there was no board yet). When
+ * another controller has saved since, nothing is written and the current
+ * server board comes back with a conflict for the caller to merge.
+ * Stamps the tab session ID so realtime listeners can ignore their own echo.
+ */
+export const saveCoordinationBoard = async (
+  missionId: string,
+  flights: Flight[],
+  sections: Section[],
+  expectedVersion: number | null
+): Promise<CoordinationBoardResponse> => {
+  return await sb(async (supabase) => {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const boardData = {
+      flights: flights as unknown as Json,
+      sections: sections as unknown as Json,
+      updated_by: user?.id || null, // FK to auth.users.id
+      updated_at: new Date().toISOString(),
+      last_modified_session: tabSessionId
+    };
+
+    // The first save creates the board; a unique violation means someone else just did
+    const { data, error } = expectedVersion === null
+      ? await supabase
+        .from('mission_coordination_boards')
+        .insert({ mission_id: missionId, ...boardData })
+        .select()
+        .maybeSingle()
+      : await supabase
+        .from('mission_coordination_boards')
+        .update(boardData)
+        .eq('mission_id', missionId)
+        .eq('version', expectedVersion)
+        .select()
+        .maybeSingle();
+
+    if (error && error.code !== '23505') {
+      console.error('Error saving coordination board:', error);
+      return { board: null, error: error.message };
+    }
+
+    if (!data) {
+      console.warn(`Coordination board conflict: expected version ${expectedVersion ?? 'none'} but it has changed`);
+
+      // Fetch the current server state so the caller can merge into it
+      const { data: currentData } = await supabase
+        .from('mission_coordination_boards')
+        .select('*')
+        .eq('mission_id', missionId)
+        .maybeSingle();
+
+      return {
+        board: null,
+        error: 'Version conflict: board was modified by another controller',
+        conflict: true,
+        serverBoard: currentData ? convertRowToBoard(currentData) : undefined
+      };
+    }
+
+    return { board: convertRowToBoard(data), error: undefined };
+  });
+};
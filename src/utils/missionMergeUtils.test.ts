@@ -0,0 +1,221 @@
+import { describe, expect, it } from 'vitest';
+import { isMergeableUpdate, mergeCoordinationBoards, mergeMissionChanges } from './missionMergeUtils';
+import type { Mission, MissionFlight, MissionMergeChoice, PilotAssignment, UpdateMissionRequest } from '../types/MissionTypes';
+import type { CommsPlanEntry } from '../types/CommsTypes';
+import type { Flight } from '../types/FlightData';
+import type { Section } from '../components/layout/SectionContext';
+
+const flight = (id: string, callsign: string, overrides: Partial<MissionFlight> = {}): MissionFlight => ({
+  id,
+  callsign,
+  aircraft_type: 'FA-18C_hornet',
+  slots: 4,
+  flight_data: {},
+  ...overrides
+});
+
+const seat = (flightId: string, dashNumber: string, pilotId: string): PilotAssignment => ({
+  pilot_id: pilotId,
+  flight_id: flightId,
+  slot_number: parseInt(dashNumber),
+  dash_number: dashNumber
+});
+
+const channel = (chan: string, name: string, freq: string): CommsPlanEntry => ({ chan, name, freq, tacan: '', ils: '', kyFill: '' });
+
+const FLIGHTS = [flight('f-enfield', 'ENFIELD'), flight('f-dude', 'DUDE')];
+
+const mission = (overrides: Partial<Mission> = {}): Mission => ({
+  id: 'mission',
+  name: 'Strike',
+  status: 'planning',
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+  version: 1,
+  selected_squadrons: [],
+  flight_import_filter: 'all',
+  miz_file_data: {},
+  flights: FLIGHTS,
+  pilot_assignments: {
+    'f-enfield': [seat('f-enfield', '1', 'p-ace')],
+    'f-dude': []
+  },
+  support_role_assignments: [],
+  mission_settings: {},
+  ...overrides
+});
+
+// "<flight>|<dash>:<pilot>" for every seat, in flight and dash order
+const seats = (assignments: Record<string, PilotAssignment[]> | undefined) =>
+  Object.entries(assignments || {}).flatMap(([flightId, pilots]) => pilots.map(p => `${flightId}|${p.dash_number}:${p.pilot_id}`));
+
+describe('mergeMissionChanges', () => {
+  const base = mission();
+
+  it('keeps both planners\' changes to different slots', () => {
+    const local: UpdateMissionRequest = {
+      pilot_assignments: { ...base.pilot_assignments, 'f-enfield': [seat('f-enfield', '1', 'p-ace'), seat('f-enfield', '2', 'p-bolt')] }
+    };
+    const remote = mission({
+      version: 2,
+      pilot_assignments: { ...base.pilot_assignments, 'f-dude': [seat('f-dude', '1', 'p-echo')] }
+    });
+
+    const { merged, conflicts } = mergeMissionChanges(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(seats(merged.pilot_assignments)).toEqual(['f-enfield|1:p-ace', 'f-enfield|2:p-bolt', 'f-dude|1:p-echo']);
+  });
+
+  it('reports a slot both planners filled with different pilots', () => {
+    const local: UpdateMissionRequest = { pilot_assignments: { ...base.pilot_assignments, 'f-dude': [seat('f-dude', '1', 'p-bolt')] } };
+    const remote = mission({ pilot_assignments: { ...base.pilot_assignments, 'f-dude': [seat('f-dude', '1', 'p-echo')] } });
+
+    const { merged, conflicts } = mergeMissionChanges(base, local, remote);
+
+    expect(conflicts).toEqual([{ id: 'slot:f-dude|1', kind: 'slot', flightId: 'f-dude', dashNumber: '1', local: 'p-bolt', remote: 'p-echo' }]);
+    // The local pilot holds the slot until the conflict is resolved
+    expect(seats(merged.pilot_assignments)).toContain('f-dude|1:p-bolt');
+  });
+
+  it('reports a pilot each planner moved somewhere different', () => {
+    const local: UpdateMissionRequest = { pilot_assignments: { 'f-enfield': [seat('f-enfield', '2', 'p-ace')], 'f-dude': [] } };
+    const remote = mission({ pilot_assignments: { 'f-enfield': [], 'f-dude': [seat('f-dude', '1', 'p-ace')] } });
+
+    const { merged, conflicts } = mergeMissionChanges(base, local, remote);
+
+    expect(conflicts).toEqual([{ id: 'pilot:p-ace', kind: 'pilot', pilotId: 'p-ace', local: 'f-enfield|2', remote: 'f-dude|1' }]);
+    expect(seats(merged.pilot_assignments)).toEqual(['f-enfield|2:p-ace']);
+  });
+
+  it('reports a flight deleted on one side and edited on the other', () => {
+    const local: UpdateMissionRequest = {
+      flights: [FLIGHTS[0]],
+      pilot_assignments: { 'f-enfield': base.pilot_assignments['f-enfield'] }
+    };
+    const editedDude = flight('f-dude', 'DUDE', { aircraft_type: 'F-14B' });
+    const remote = mission({ flights: [FLIGHTS[0], editedDude] });
+
+    const { merged, conflicts } = mergeMissionChanges(base, local, remote);
+
+    expect(conflicts).toEqual([{ id: 'flight:f-dude', kind: 'flight', flightId: 'f-dude', local: null, remote: editedDude }]);
+    expect(merged.flights!.map(f => f.id)).toEqual(['f-enfield']);
+
+    // Keeping the remote edit brings the flight back
+    const kept = mergeMissionChanges(base, local, remote, { 'flight:f-dude': 'remote' });
+    expect(kept.conflicts).toEqual([]);
+    expect(kept.merged.flights).toEqual([FLIGHTS[0], editedDude]);
+  });
+
+  it('drops the seats of a flight the other planner deleted', () => {
+    const local: UpdateMissionRequest = {
+      flights: FLIGHTS,
+      pilot_assignments: { ...base.pilot_assignments, 'f-dude': [seat('f-dude', '1', 'p-echo')] }
+    };
+    const remote = mission({ flights: [FLIGHTS[0]], pilot_assignments: { 'f-enfield': base.pilot_assignments['f-enfield'] } });
+
+    const { merged, conflicts } = mergeMissionChanges(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.flights!.map(f => f.id)).toEqual(['f-enfield']);
+    expect(merged.pilot_assignments).toEqual({ 'f-enfield': base.pilot_assignments['f-enfield'] });
+  });
+
+  it('merges the comms plan per channel', () => {
+    const plan = [channel('1', 'Tower', '250.000'), channel('2', 'Strike', '251.000')];
+    const baseWithPlan = mission({ mission_settings: { comms_plan: plan } });
+    const local: UpdateMissionRequest = { mission_settings: { comms_plan: [channel('1', 'Tower', '250.500'), plan[1]] } };
+    const remote = mission({ mission_settings: { comms_plan: [plan[0], channel('2', 'Strike', '252.000')] } });
+
+    const { merged, conflicts } = mergeMissionChanges(baseWithPlan, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect((merged.mission_settings!.comms_plan as CommsPlanEntry[]).map(c => `${c.chan}:${c.freq}`)).toEqual(['1:250.500', '2:252.000']);
+  });
+
+  it('has no conflicts left when re-run with a choice for each', () => {
+    const local: UpdateMissionRequest = {
+      flights: [FLIGHTS[0]],
+      pilot_assignments: { 'f-enfield': [seat('f-enfield', '2', 'p-ace')] },
+      mission_settings: { comms_plan: [channel('1', 'Tower', '250.500')] }
+    };
+    const remote = mission({
+      flights: [FLIGHTS[0], flight('f-dude', 'DUDE', { slots: 2 })],
+      pilot_assignments: { 'f-enfield': [], 'f-dude': [seat('f-dude', '1', 'p-ace')] },
+      mission_settings: { comms_plan: [channel('1', 'Tower', '251.000')] }
+    });
+    const baseWithPlan = mission({ mission_settings: { comms_plan: [channel('1', 'Tower', '250.000')] } });
+
+    const first = mergeMissionChanges(baseWithPlan, local, remote);
+    expect(first.conflicts.map(c => c.kind).sort()).toEqual(['comms', 'flight', 'pilot']);
+
+    const choices = Object.fromEntries(first.conflicts.map(c => [c.id, 'remote' as MissionMergeChoice]));
+    const { merged, conflicts } = mergeMissionChanges(baseWithPlan, local, remote, choices);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.flights!.map(f => f.id)).toEqual(['f-enfield', 'f-dude']);
+    expect(seats(merged.pilot_assignments)).toEqual(['f-dude|1:p-ace']);
+    expect((merged.mission_settings!.comms_plan as CommsPlanEntry[])[0].freq).toBe('251.000');
+  });
+
+  it('never sends the expected version on', () => {
+    const { merged } = mergeMissionChanges(base, { flights: FLIGHTS, expected_version: 1 }, mission({ version: 2 }));
+    expect(merged).not.toHaveProperty('expected_version');
+  });
+});
+
+describe('isMergeableUpdate', () => {
+  it('is true only for updates to merged fields', () => {
+    expect(isMergeableUpdate({ pilot_assignments: {} })).toBe(true);
+    expect(isMergeableUpdate({ name: 'Renamed' })).toBe(false);
+  });
+});
+
+describe('mergeCoordinationBoards', () => {
+  const boardFlight = (id: string, currentSection: string, currentDivision = 0): Flight => ({
+    id,
+    flightNumber: '1',
+    callsign: id.toUpperCase(),
+    members: [],
+    lowState: 0,
+    currentSection,
+    currentDivision,
+    formation: 'group'
+  });
+  const section = (title: string, labels: string[]): Section => ({
+    title,
+    type: 'altitude',
+    divisions: labels.map((label, index) => ({ id: `${title}-${index}`, label }))
+  });
+
+  const base = {
+    flights: [boardFlight('enfield', ''), boardFlight('dude', '')],
+    sections: [section('Launch', ['Step 0']), section('Marshal', ['Angels 6'])]
+  };
+
+  it('keeps both controllers\' moves of different flights and sections', () => {
+    const local = { ...base, flights: [boardFlight('enfield', 'Launch'), base.flights[1]] };
+    const remote = {
+      flights: [base.flights[0], boardFlight('dude', 'Marshal'), boardFlight('uzi', '')],
+      sections: [base.sections[0], section('Marshal', ['Angels 6', 'Angels 7'])]
+    };
+
+    const merged = mergeCoordinationBoards(base, local, remote);
+
+    expect(merged.flights.map(f => `${f.id}:${f.currentSection}`)).toEqual(['enfield:Launch', 'dude:Marshal', 'uzi:']);
+    expect(merged.sections[1].divisions.map(d => d.label)).toEqual(['Angels 6', 'Angels 7']);
+  });
+
+  it('keeps the local move of a flight both controllers moved', () => {
+    const local = { ...base, flights: [boardFlight('enfield', 'Launch'), base.flights[1]] };
+    const remote = { ...base, flights: [boardFlight('enfield', 'Marshal'), base.flights[1]] };
+
+    expect(mergeCoordinationBoards(base, local, remote).flights[0].currentSection).toBe('Launch');
+  });
+
+  it('drops a flight the other controller removed and left unchanged here', () => {
+    const remote = { ...base, flights: [base.flights[0]] };
+
+    expect(mergeCoordinationBoards(base, base, remote).flights.map(f => f.id)).toEqual(['enfield']);
+  });
+});
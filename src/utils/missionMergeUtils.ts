@@ -0,0 +1,275 @@
+import type {
+  Mission,
+  MissionFlight,
+  MissionMergeChoice,
+  MissionMergeConflict,
+  MissionSettings,
+  PilotAssignment,
+  UpdateMissionRequest
+} from '../types/MissionTypes';
+import type { CommsPlanEntry } from '../types/CommsTypes';
+import type { Flight } from '../types/FlightData';
+import type { Section } from '../components/layout/SectionContext';
+
+// Mission fields that are merged field-by-field when two planners save at once.
+// Any other field in an update is still last-write-wins.
+export const MERGEABLE_MISSION_FIELDS = ['flights', 'pilot_assignments', 'mission_settings'] as const;
+
+export interface MissionMergeResult {
+  merged: UpdateMissionRequest;
+  conflicts: MissionMergeConflict[];
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Standard three-way pick: a side that didn't change from the base yields to
+ * the side that did. When both changed differently the recorded choice wins,
+ * otherwise it's a conflict and the local value is kept until resolved.
+ */
+const pick = <T>(
+  base: T | undefined,
+  local: T | undefined,
+  remote: T | undefined,
+  choice: MissionMergeChoice | undefined,
+  project: (value: T | undefined) => unknown = value => value
+): { value: T | undefined; conflicted: boolean } => {
+  const [b, l, r] = [project(base), project(local), project(remote)];
+  if (sameValue(l, r) || sameValue(r, b)) return { value: local, conflicted: false };
+  if (sameValue(l, b)) return { value: remote, conflicted: false };
+  if (choice) return { value: choice === 'remote' ? remote : local, conflicted: false };
+  return { value: local, conflicted: true };
+};
+
+const mergeFlights = (
+  base: MissionFlight[],
+  local: MissionFlight[],
+  remote: MissionFlight[],
+  choices: Record<string, MissionMergeChoice>,
+  conflicts: MissionMergeConflict[]
+): MissionFlight[] => {
+  const byId = (flights: MissionFlight[]) => new Map(flights.map(f => [f.id, f]));
+  const [baseById, localById, remoteById] = [byId(base), byId(local), byId(remote)];
+
+  // Keep the local order, with flights only the other planner added at the end
+  const ids = [...localById.keys(), ...[...remoteById.keys()].filter(id => !localById.has(id))];
+
+  const merged: MissionFlight[] = [];
+  ids.forEach(flightId => {
+    const id = `flight:${flightId}`;
+    const { value, conflicted } = pick(baseById.get(flightId), localById.get(flightId), remoteById.get(flightId), choices[id]);
+    if (conflicted) {
+      conflicts.push({ id, kind: 'flight', flightId, local: localById.get(flightId) || null, remote: remoteById.get(flightId) || null });
+    }
+    if (value) merged.push(value);
+  });
+  return merged;
+};
+
+const slotKey = (flightId: string, dashNumber: string) => `${flightId}|${dashNumber}`;
+
+const toSlots = (assignments: Record<string, PilotAssignment[]>): Map<string, PilotAssignment> => {
+  const slots = new Map<string, PilotAssignment>();
+  Object.entries(assignments || {}).forEach(([flightId, pilots]) => {
+    if (flightId.startsWith('support-') || !Array.isArray(pilots)) return;
+    pilots.forEach(assignment => {
+      if (assignment?.pilot_id) slots.set(slotKey(flightId, assignment.dash_number), assignment);
+    });
+  });
+  return slots;
+};
+
+const mergePilotAssignments = (
+  base: Record<string, PilotAssignment[]>,
+  local: Record<string, PilotAssignment[]>,
+  remote: Record<string, PilotAssignment[]>,
+  deletedFlightIds: Set<string>,
+  choices: Record<string, MissionMergeChoice>,
+  conflicts: MissionMergeConflict[]
+): Record<string, PilotAssignment[]> => {
+  const [baseSlots, localSlots, remoteSlots] = [toSlots(base), toSlots(local), toSlots(remote)];
+  const keys = new Set([...baseSlots.keys(), ...localSlots.keys(), ...remoteSlots.keys()]);
+
+  // Only who is in the slot and their roll call matter; MIDS channels follow the flight
+  const project = (a: PilotAssignment | undefined) => a ? { pilot_id: a.pilot_id, roll_call_status: a.roll_call_status ?? null } : null;
+
+  const mergedSlots = new Map<string, PilotAssignment>();
+  keys.forEach(key => {
+    const [flightId, dashNumber] = key.split('|');
+    const id = `slot:${key}`;
+    const { value, conflicted } = pick(baseSlots.get(key), localSlots.get(key), remoteSlots.get(key), choices[id], project);
+    if (conflicted) {
+      conflicts.push({
+        id,
+        kind: 'slot',
+        flightId,
+        dashNumber,
+        local: localSlots.get(key)?.pilot_id || null,
+        remote: remoteSlots.get(key)?.pilot_id || null
+      });
+    }
+    if (value) mergedSlots.set(key, value);
+  });
+
+  // Two non-overlapping slot changes can still put one pilot in two places
+  // (each planner moved them somewhere different), which is a conflict too
+  const slotsByPilot = new Map<string, string[]>();
+  mergedSlots.forEach((assignment, key) => {
+    slotsByPilot.set(assignment.pilot_id, [...(slotsByPilot.get(assignment.pilot_id) || []), key]);
+  });
+  slotsByPilot.forEach((pilotKeys, pilotId) => {
+    if (pilotKeys.length < 2) return;
+    const findKey = (slots: Map<string, PilotAssignment>) =>
+      pilotKeys.find(key => slots.get(key)?.pilot_id === pilotId) || pilotKeys[0];
+    const localKey = findKey(localSlots);
+    const remoteKey = findKey(remoteSlots);
+    const id = `pilot:${pilotId}`;
+    const choice = choices[id];
+    if (!choice) {
+      conflicts.push({ id, kind: 'pilot', pilotId, local: localKey, remote: remoteKey });
+    }
+    const keepKey = choice === 'remote' ? remoteKey : localKey;
+    pilotKeys.filter(key => key !== keepKey).forEach(key => mergedSlots.delete(key));
+  });
+
+  // Keep every flight key either side saved (empty flights included), minus deleted flights
+  const merged: Record<string, PilotAssignment[]> = {};
+  [...Object.keys(local || {}), ...Object.keys(remote || {})].forEach(flightId => {
+    if (!flightId.startsWith('support-') && !deletedFlightIds.has(flightId)) merged[flightId] = [];
+  });
+  mergedSlots.forEach((assignment, key) => {
+    const [flightId] = key.split('|');
+    if (deletedFlightIds.has(flightId)) return;
+    (merged[flightId] ??= []).push(assignment);
+  });
+  Object.values(merged).forEach(pilots => pilots.sort((a, b) => parseInt(a.dash_number) - parseInt(b.dash_number)));
+  return merged;
+};
+
+const mergeCommsPlan = (
+  base: CommsPlanEntry[],
+  local: CommsPlanEntry[],
+  remote: CommsPlanEntry[],
+  choices: Record<string, MissionMergeChoice>,
+  conflicts: MissionMergeConflict[]
+): CommsPlanEntry[] => {
+  const byChan = (entries: CommsPlanEntry[]) => new Map(entries.map(e => [e.chan, e]));
+  const [baseByChan, localByChan, remoteByChan] = [byChan(base), byChan(local), byChan(remote)];
+  const chans = [...new Set([...localByChan.keys(), ...remoteByChan.keys(), ...baseByChan.keys()])];
+
+  const merged: CommsPlanEntry[] = [];
+  chans.forEach(chan => {
+    const id = `comms:${chan}`;
+    const { value, conflicted } = pick(baseByChan.get(chan), localByChan.get(chan), remoteByChan.get(chan), choices[id]);
+    if (conflicted) {
+      conflicts.push({ id, kind: 'comms', chan, local: localByChan.get(chan) || null, remote: remoteByChan.get(chan) || null });
+    }
+    if (value) merged.push(value);
+  });
+  return merged.sort((a, b) => (parseInt(a.chan) || 0) - (parseInt(b.chan) || 0));
+};
+
+const mergeSettings = (
+  base: MissionSettings,
+  local: MissionSettings,
+  remote: MissionSettings,
+  choices: Record<string, MissionMergeChoice>,
+  conflicts: MissionMergeConflict[]
+): MissionSettings => {
+  const merged: MissionSettings = {};
+  const keys = new Set([...Object.keys(base || {}), ...Object.keys(local || {}), ...Object.keys(remote || {})]);
+  keys.forEach(key => {
+    if (key === 'comms_plan') {
+      const asPlan = (settings: MissionSettings) => Array.isArray(settings?.comms_plan) ? settings.comms_plan : [];
+      merged.comms_plan = mergeCommsPlan(asPlan(base), asPlan(local), asPlan(remote), choices, conflicts);
+      return;
+    }
+    const id = `setting:${key}`;
+    const { value, conflicted } = pick(base?.[key], local?.[key], remote?.[key], choices[id]);
+    if (conflicted) {
+      conflicts.push({ id, kind: 'setting', key, local: local?.[key], remote: remote?.[key] });
+    }
+    if (value !== undefined) merged[key] = value;
+  });
+  return merged;
+};
+
+/**
+ * Three-way merge of a local mission update against the server copy another
+ * planner saved since `base` (the version the local edit started from).
+ * Flights merge per flight, pilot assignments per slot, the comms plan per
+ * channel and other settings per key; only changes both sides made to the
+ * same item come back as conflicts. Passing `choices` (by conflict id)
+ * resolves those, so re-running the merge with every conflict chosen yields a
+ * conflict-free update.
+ */
+export const mergeMissionChanges = (
+  base: Mission,
+  local: UpdateMissionRequest,
+  remote: Mission,
+  choices: Record<string, MissionMergeChoice> = {}
+): MissionMergeResult => {
+  const conflicts: MissionMergeConflict[] = [];
+  const merged: UpdateMissionRequest = { ...local };
+  delete merged.expected_version;
+
+  if (local.flights) {
+    merged.flights = mergeFlights(base.flights, local.flights, remote.flights, choices, conflicts);
+  }
+
+  if (local.pilot_assignments) {
+    const mergedFlightIds = new Set((merged.flights || remote.flights).map(f => f.id));
+    const deletedFlightIds = new Set(base.flights.map(f => f.id).filter(id => !mergedFlightIds.has(id)));
+    merged.pilot_assignments = mergePilotAssignments(
+      base.pilot_assignments,
+      local.pilot_assignments,
+      remote.pilot_assignments,
+      deletedFlightIds,
+      choices,
+      conflicts
+    );
+  }
+
+  if (local.mission_settings) {
+    merged.mission_settings = mergeSettings(base.mission_settings, local.mission_settings, remote.mission_settings, choices, conflicts);
+  }
+
+  return { merged, conflicts };
+};
+
+/**
+ * Whether an update touches any field that's merged rather than overwritten.
+ */
+export const isMergeableUpdate = (updates: UpdateMissionRequest): boolean =>
+  MERGEABLE_MISSION_FIELDS.some(field => updates[field] !== undefined);
+
+export interface CoordinationBoardContent {
+  flights: Flight[];
+  sections: Section[];
+}
+
+const mergeByKey = <T>(base: T[], local: T[], remote: T[], keyOf: (item: T) => string): T[] => {
+  const byKey = (items: T[]) => new Map(items.map(item => [keyOf(item), item]));
+  const [baseByKey, localByKey, remoteByKey] = [byKey(base), byKey(local), byKey(remote)];
+
+  // Keep the local order, with items only the other side added at the end
+  const keys = [...localByKey.keys(), ...[...remoteByKey.keys()].filter(key => !localByKey.has(key))];
+  return keys.flatMap(key => {
+    const { value } = pick(baseByKey.get(key), localByKey.get(key), remoteByKey.get(key), undefined);
+    return value === undefined ? [] : [value];
+  });
+};
+
+/**
+ * Three-way merge of a Mission Coordination board, flights by id and sections
+ * by title. Where both controllers changed the same one the local copy wins:
+ * the board is many small moves that are quicker to redo than to review.
+ */
+export const mergeCoordinationBoards = (
+  base: CoordinationBoardContent,
+  local: CoordinationBoardContent,
+  remote: CoordinationBoardContent
+): CoordinationBoardContent => ({
+  flights: mergeByKey(base.flights, local.flights, remote.flights, flight => flight.id),
+  sections: mergeByKey(base.sections, local.sections, remote.sections, section => section.title)
+});
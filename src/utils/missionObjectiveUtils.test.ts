@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { assessMissionObjectives, deriveMissionOutcome } from './missionObjectiveUtils';
+import type { MissionObjective } from '../types/DebriefingTypes';
+
+const objective = (
+  id: string,
+  priority: MissionObjective['priority'],
+  targetUnits: Record<string, number>,
+  requiredPercentage = 100
+): MissionObjective => ({
+  id,
+  description: `Destroy ${id}`,
+  priority,
+  status: 'pending',
+  target_group: id,
+  target_units: targetUnits,
+  required_percentage: requiredPercentage
+});
+
+const summary = (objectives: MissionObjective[]) => objectives.map(o => `${o.id} ${o.status} ${o.destroyed_count ?? '-'}`);
+
+describe('assessMissionObjectives', () => {
+  it('credits each kill to one objective only', () => {
+    const assessed = assessMissionObjectives([
+      objective('SAM North', 'primary', { 'SA-11 Buk LN 9A310M1': 2 }),
+      objective('SAM South', 'primary', { 'SA-11 Buk LN 9A310M1': 2 })
+    ], { 'SA-11 Buk LN 9A310M1': 3 });
+
+    expect(summary(assessed)).toEqual(['SAM North success 2', 'SAM South partial 1']);
+  });
+
+  it('fills primary objectives before secondary ones and keeps the planned order', () => {
+    const assessed = assessMissionObjectives([
+      objective('Convoy', 'secondary', { 'Ural-375': 4 }, 50),
+      objective('Depot', 'primary', { 'Ural-375': 2, 'T-72B': 1 })
+    ], { 'Ural-375': 3, 'T-72B': 1 });
+
+    expect(summary(assessed)).toEqual(['Convoy partial 1', 'Depot success 3']);
+  });
+
+  it('leaves objectives without target units to be assessed by hand', () => {
+    const manual: MissionObjective = { id: 'CAP', description: 'Hold the CAP', priority: 'secondary', status: 'success' };
+    const assessed = assessMissionObjectives([manual, objective('EWR', 'primary', { '55G6 EWR': 1 })], {});
+
+    expect(assessed[0]).toBe(manual);
+    expect(summary(assessed)).toEqual(['CAP success -', 'EWR failure 0']);
+  });
+});
+
+describe('deriveMissionOutcome', () => {
+  it('follows the primary objectives', () => {
+    const assessed = assessMissionObjectives([
+      objective('SAM', 'primary', { 'SA-6 Kub STR 9S91': 1 }),
+      objective('Convoy', 'secondary', { 'Ural-375': 2 })
+    ], { 'SA-6 Kub STR 9S91': 1 });
+
+    expect(deriveMissionOutcome(assessed)).toBe('success');
+    expect(deriveMissionOutcome(assessMissionObjectives(assessed, {}))).toBe('failure');
+  });
+});
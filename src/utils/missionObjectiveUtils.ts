@@ -0,0 +1,78 @@
+import type { MissionObjective, MissionOutcome } from '../types/DebriefingTypes';
+import type { RedCoalitionGroup } from './redUnitExtractor';
+
+// Share of a target group that has to be destroyed unless the planner says otherwise
+export const DEFAULT_REQUIRED_PERCENTAGE = 100;
+
+/** New planned objective to destroy a red coalition group */
+export const createTargetObjective = (
+  group: RedCoalitionGroup,
+  priority: MissionObjective['priority'] = 'primary',
+  requiredPercentage: number = DEFAULT_REQUIRED_PERCENTAGE
+): MissionObjective => ({
+  id: crypto.randomUUID(),
+  description: `Destroy ${group.name}`,
+  priority,
+  status: 'pending',
+  target_group: group.name,
+  target_units: { ...group.unitCounts },
+  required_percentage: requiredPercentage
+});
+
+export const objectiveUnitTotal = (objective: MissionObjective): number =>
+  Object.values(objective.target_units || {}).reduce((sum, count) => sum + count, 0);
+
+// Kills go to primary objectives before secondary ones
+const PRIORITY_ORDER: Record<MissionObjective['priority'], number> = { primary: 0, secondary: 1 };
+
+/**
+ * Assess objectives against the enemy kills recorded in the debriefs, keyed
+ * by unit type_name. Kills are only recorded per unit type, so each kill is
+ * credited to one objective whose group has that type: primary objectives
+ * first, then in planned order, capped at the number of such units in each
+ * group. Objectives come back in their original order.
+ */
+export const assessMissionObjectives = (
+  objectives: MissionObjective[],
+  killsByType: Record<string, number>
+): MissionObjective[] => {
+  const remaining = { ...killsByType };
+  const assessed = new Map<string, MissionObjective>();
+
+  [...objectives]
+    .sort((a, b) => (PRIORITY_ORDER[a.priority] ?? 2) - (PRIORITY_ORDER[b.priority] ?? 2))
+    .forEach(objective => {
+      const total = objectiveUnitTotal(objective);
+      if (total === 0) return; // Not a target group objective, assessed by hand
+
+      const destroyed = Object.entries(objective.target_units || {}).reduce((sum, [type, count]) => {
+        const credited = Math.min(count, remaining[type] || 0);
+        remaining[type] = (remaining[type] || 0) - credited;
+        return sum + credited;
+      }, 0);
+      const required = Math.ceil(total * (objective.required_percentage ?? DEFAULT_REQUIRED_PERCENTAGE) / 100);
+
+      assessed.set(objective.id, {
+        ...objective,
+        destroyed_count: destroyed,
+        status: destroyed >= required ? 'success' : destroyed > 0 ? 'partial' : 'failure'
+      });
+    });
+
+  return objectives.map(objective => assessed.get(objective.id) || objective);
+};
+
+/**
+ * Mission outcome from assessed objectives: success when every primary
+ * objective (or every objective, if none are primary) is achieved, partial
+ * success when anything was achieved or damaged, failure otherwise.
+ */
+export const deriveMissionOutcome = (objectives: MissionObjective[]): MissionOutcome => {
+  if (objectives.length === 0 || objectives.some(o => o.status === 'pending')) return 'pending';
+
+  const primaries = objectives.filter(o => o.priority === 'primary');
+  const deciding = primaries.length > 0 ? primaries : objectives;
+  if (deciding.every(o => o.status === 'success')) return 'success';
+  if (objectives.some(o => o.status === 'success' || o.status === 'partial')) return 'partial_success';
+  return 'failure';
+};
@@ -1,5 +1,6 @@
 import { supabase, sb } from './supabaseClient';
 import { tabSessionId } from './tabSessionId';
+import { hasMissionVersions, recordBaselineVersion, recordMissionVersion, VERSIONED_MISSION_FIELDS } from './missionVersionService';
 import type { 
   Mission, 
   CreateMissionRequest, 
@@ -265,6 +266,20 @@ export const updateMission = async (
       ...({ last_modified_session: tabSessionId } as any)
     };
 
+    // A mission first saved since version history started has nothing to
+    // restore yet, so keep the server copy from before this save
+    const changedFields = VERSIONED_MISSION_FIELDS.filter(field => restData[field] !== undefined);
+    if (changedFields.length > 0 && !(await hasMissionVersions(missionId))) {
+      const { data: currentRow } = await supabase
+        .from('missions')
+        .select('*')
+        .eq('id', missionId)
+        .maybeSingle();
+      if (currentRow) {
+        await recordBaselineVersion(convertRowToMission(currentRow));
+      }
+    }
+
     // Build the query
     let query = supabase
       .from('missions')
@@ -320,8 +335,19 @@ export const updateMission = async (
       return { mission: {} as Mission, error: 'Mission not found' };
     }
 
+    const updatedMission = convertRowToMission(data);
+
+    // Keep a snapshot of the saved flights and assignments so the history
+    // panel can diff and restore them. Recording runs in the background so
+    // autosaves don't wait on it.
+    if (changedFields.length > 0) {
+      recordMissionVersion(updatedMission, changedFields, userId).catch(err => {
+        console.error('Error recording mission version:', err);
+      });
+    }
+
     return {
-      mission: convertRowToMission(data),
+      mission: updatedMission,
       error: undefined
     };
   });
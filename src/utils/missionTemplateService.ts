@@ -0,0 +1,238 @@
+import { sb } from './supabaseClient';
+import { createMission, getMissionByEventId, linkMissionToEvent, updateMission, deleteMission } from './missionService';
+import { getUserSettings } from './userSettingsService';
+import type { Database, Json } from '../types/supabase';
+import type { FlightImportFilter, Mission, MissionFlight, MissionSettings, MissionTemplate, SupportRoleAssignment } from '../types/MissionTypes';
+
+type MissionTemplateRow = Database['public']['Tables']['mission_templates']['Row'];
+
+// Support roles carry their slots alongside the assigned pilot
+type SupportRoleWithSlots = SupportRoleAssignment & { pilots?: { dashNumber: string }[] };
+
+export interface TemplateTargetEvent {
+  id: string;
+  title: string;
+  datetime: string;
+  participants?: string[];
+}
+
+export interface TemplateInstantiationResult {
+  eventId: string;
+  eventTitle: string;
+  mission?: Mission;
+  skipped?: boolean; // Event already had a mission
+  error?: string;
+}
+
+const convertRowToTemplate = (row: MissionTemplateRow): MissionTemplate => {
+  return {
+    id: row.id,
+    squadron_id: row.squadron_id,
+    name: row.name,
+    description: row.description || undefined,
+    source_mission_id: row.source_mission_id || undefined,
+    selected_squadrons: Array.isArray(row.selected_squadrons) ? row.selected_squadrons as string[] : [],
+    flight_import_filter: (row.flight_import_filter || 'all') as FlightImportFilter,
+    flights: Array.isArray(row.flights) ? row.flights as unknown as MissionFlight[] : [],
+    support_role_assignments: Array.isArray(row.support_role_assignments)
+      ? row.support_role_assignments as unknown as SupportRoleAssignment[]
+      : [],
+    mission_settings: row.mission_settings && typeof row.mission_settings === 'object'
+      ? row.mission_settings as MissionSettings
+      : {},
+    miz_file_data: row.miz_file_data && typeof row.miz_file_data === 'object'
+      ? row.miz_file_data as unknown as Mission['miz_file_data']
+      : {},
+    step_offset_minutes: row.step_offset_minutes ?? undefined,
+    created_by: row.created_by || undefined,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+};
+
+/**
+ * Keep the support role layout (callsigns, carriers, slots) but drop the
+ * pilots, and leave out the mission commander which is per-event.
+ */
+const toSupportRoleLayout = (roles: SupportRoleWithSlots[]): SupportRoleAssignment[] => {
+  return roles
+    .filter(role => role.role_type !== 'mission_commander')
+    .map(role => ({
+      ...role,
+      pilot_id: '',
+      pilots: Array.isArray(role.pilots)
+        ? role.pilots.map(pilot => ({ dashNumber: pilot.dashNumber, boardNumber: '', callsign: '' }))
+        : []
+    }));
+};
+
+/**
+ * Get the mission templates of the given squadrons, alphabetically.
+ */
+export const getMissionTemplates = async (
+  squadronIds: string[]
+): Promise<{ templates: MissionTemplate[]; error?: string }> => {
+  if (squadronIds.length === 0) {
+    return { templates: [], error: undefined };
+  }
+
+  return await sb(async (supabase) => {
+    const { data, error } = await supabase
+      .from('mission_templates')
+      .select('*')
+      .in('squadron_id', squadronIds)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching mission templates:', error);
+      return { templates: [], error: error.message };
+    }
+
+    return { templates: (data || []).map(convertRowToTemplate), error: undefined };
+  });
+};
+
+/**
+ * Save a mission's flights, comms plan, support role layout, settings and step
+ * time as a named template of a squadron, overwriting that squadron's template
+ * of the same name. The step time is stored relative to the event start so it
+ * lands at the same point in each event it's applied to.
+ */
+export const saveMissionAsTemplate = async (
+  squadronId: string,
+  mission: Mission,
+  name: string,
+  description?: string,
+  eventStart?: string
+): Promise<{ template: MissionTemplate | null; error?: string }> => {
+  // Publication settings are a user preference, so capture the saver's current one
+  const settingsResult = await getUserSettings();
+  const publicationConfig = mission.mission_settings.publication_config
+    || settingsResult.data?.preferences?.missionPrep?.flightPublicationConfig;
+
+  return await sb(async (supabase) => {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const stepOffsetMinutes = mission.step_time && eventStart
+      ? Math.round((new Date(mission.step_time).getTime() - new Date(eventStart).getTime()) / 60000)
+      : null;
+
+    const { data, error } = await supabase
+      .from('mission_templates')
+      .upsert({
+        squadron_id: squadronId,
+        name,
+        description: description || null,
+        source_mission_id: mission.id,
+        selected_squadrons: mission.selected_squadrons,
+        flight_import_filter: mission.flight_import_filter,
+        flights: mission.flights as unknown as Json,
+        support_role_assignments: toSupportRoleLayout(mission.support_role_assignments) as unknown as Json,
+        mission_settings: {
+          ...mission.mission_settings,
+          ...(publicationConfig ? { publication_config: publicationConfig } : {})
+        } as Json,
+        miz_file_data: mission.miz_file_data as unknown as Json,
+        step_offset_minutes: stepOffsetMinutes,
+        created_by: user?.id || null, // FK to auth.users.id
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'squadron_id,name' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving mission template:', error);
+      return { template: null, error: error.message };
+    }
+
+    return { template: convertRowToTemplate(data), error: undefined };
+  });
+};
+
+/**
+ * Delete a mission template. Missions already created from it are unaffected.
+ */
+export const deleteMissionTemplate = async (templateId: string): Promise<{ error?: string }> => {
+  return await sb(async (supabase) => {
+    const { error } = await supabase
+      .from('mission_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) {
+      console.error('Error deleting mission template:', error);
+      return { error: error.message };
+    }
+
+    return { error: undefined };
+  });
+};
+
+/**
+ * Create a mission for an event from a template: create it, copy the template
+ * layout in, then link it to the event. Events that already have a mission are
+ * skipped rather than overwritten.
+ */
+export const instantiateMissionTemplate = async (
+  template: MissionTemplate,
+  event: TemplateTargetEvent
+): Promise<TemplateInstantiationResult> => {
+  const result: TemplateInstantiationResult = { eventId: event.id, eventTitle: event.title };
+
+  const { mission: existing, error: lookupError } = await getMissionByEventId(event.id);
+  if (lookupError) {
+    return { ...result, error: lookupError };
+  }
+  if (existing?.id) {
+    return { ...result, mission: existing, skipped: true };
+  }
+
+  const { mission: created, error: createError } = await createMission({
+    name: `${event.title} Mission`,
+    description: template.description || `Mission planning for ${event.title}`,
+    selected_squadrons: event.participants?.length ? event.participants : template.selected_squadrons,
+    flight_import_filter: template.flight_import_filter
+  });
+  if (createError || !created?.id) {
+    return { ...result, error: createError || 'Failed to create mission' };
+  }
+
+  const stepTime = template.step_offset_minutes !== undefined
+    ? new Date(new Date(event.datetime).getTime() + template.step_offset_minutes * 60000).toISOString()
+    : undefined;
+
+  const { error: updateError } = await updateMission(created.id, {
+    flights: template.flights,
+    support_role_assignments: template.support_role_assignments,
+    mission_settings: template.mission_settings,
+    miz_file_data: template.miz_file_data,
+    step_time: stepTime
+  });
+  if (updateError) {
+    await deleteMission(created.id);
+    return { ...result, error: updateError };
+  }
+
+  const { mission: linked, error: linkError } = await linkMissionToEvent(created.id, event.id);
+  if (linkError) {
+    await deleteMission(created.id);
+    return { ...result, error: linkError };
+  }
+
+  return { ...result, mission: linked };
+};
+
+/**
+ * Apply a template to several events (e.g. every event in a cycle), one at a
+ * time so a failure on one event doesn't stop the rest.
+ */
+export const instantiateMissionTemplateForEvents = async (
+  template: MissionTemplate,
+  events: TemplateTargetEvent[]
+): Promise<TemplateInstantiationResult[]> => {
+  const results: TemplateInstantiationResult[] = [];
+  for (const event of events) {
+    results.push(await instantiateMissionTemplate(template, event));
+  }
+  return results;
+};
@@ -0,0 +1,393 @@
+import { sb } from './supabaseClient';
+import type { Database, Json } from '../types/supabase';
+import type { Mission, MissionFlight, MissionVersion, PilotAssignment, SupportRoleAssignment } from '../types/MissionTypes';
+
+type MissionVersionRow = Database['public']['Tables']['mission_versions']['Row'];
+
+// Support roles carry their callsign and crew alongside the assigned pilot
+type SupportRoleWithCrew = SupportRoleAssignment & { callsign?: string; pilots?: { callsign?: string }[] };
+
+// Mission fields that are snapshotted on every save that touches them
+export const VERSIONED_MISSION_FIELDS = ['flights', 'pilot_assignments', 'support_role_assignments'] as const;
+
+// Saves by the same planner within this window of their latest version are
+// folded into it, so autosaves while dragging pilots around make one version
+const VERSION_COALESCE_MS = 2 * 60 * 1000;
+
+// Versions kept per mission; older ones are pruned as new ones are recorded
+const MAX_VERSIONS_PER_MISSION = 100;
+
+// Missions known to have history this session, so the baseline check before
+// each save only queries once per mission
+const missionsWithVersions = new Set<string>();
+
+const convertRowToVersion = (row: MissionVersionRow): MissionVersion => {
+  return {
+    id: row.id,
+    mission_id: row.mission_id,
+    version: row.version,
+    flights: Array.isArray(row.flights) ? row.flights as unknown as MissionFlight[] : [],
+    pilot_assignments: row.pilot_assignments && typeof row.pilot_assignments === 'object'
+      ? row.pilot_assignments as unknown as Record<string, PilotAssignment[]>
+      : {},
+    support_role_assignments: Array.isArray(row.support_role_assignments)
+      ? row.support_role_assignments as unknown as SupportRoleAssignment[]
+      : [],
+    changed_fields: row.changed_fields || [],
+    changed_by: row.changed_by || undefined,
+    created_at: row.created_at
+  };
+};
+
+// JSON with object keys sorted, since jsonb doesn't keep the key order it was written with
+const canonicalJson = (value: unknown): string => JSON.stringify(value, (_key, v) =>
+  v && typeof v === 'object' && !Array.isArray(v)
+    ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+    : v
+);
+
+const versionedContent = (version: Pick<Mission, typeof VERSIONED_MISSION_FIELDS[number]> | MissionVersion): string =>
+  canonicalJson([version.flights, version.pilot_assignments, version.support_role_assignments]);
+
+// Slot of each assigned pilot, keyed by pilot id
+const pilotSlots = (assignments: Record<string, PilotAssignment[]>): Map<string, string> => {
+  const slots = new Map<string, string>();
+  Object.entries(assignments || {}).forEach(([flightId, pilots]) => {
+    if (!Array.isArray(pilots)) return;
+    pilots.forEach(assignment => {
+      if (assignment?.pilot_id) slots.set(assignment.pilot_id, `${flightId}|${assignment.dash_number}`);
+    });
+  });
+  return slots;
+};
+
+// Whether a save takes a pilot out of, or moves them from, a slot they held.
+// Folding such a save would lose the only record of where they were.
+const removesOrMovesPilots = (older: MissionVersion, newer: Pick<Mission, 'pilot_assignments'>): boolean => {
+  const after = pilotSlots(newer.pilot_assignments);
+  return [...pilotSlots(older.pilot_assignments)].some(([pilotId, slot]) => after.get(pilotId) !== slot);
+};
+
+/**
+ * Whether any version of the mission has been recorded yet
+ */
+export const hasMissionVersions = async (missionId: string): Promise<boolean> => {
+  if (missionsWithVersions.has(missionId)) return true;
+
+  return await sb(async (supabase) => {
+    const { count, error } = await supabase
+      .from('mission_versions')
+      .select('id', { count: 'exact', head: true })
+      .eq('mission_id', missionId);
+
+    if (error) {
+      // Assume there is history rather than snapshot the mission on every save
+      console.error('Error checking mission version history:', error);
+      return true;
+    }
+    if (count) missionsWithVersions.add(missionId);
+    return !!count;
+  });
+};
+
+/**
+ * Store the mission as it is on the server before its first recorded save, so
+ * what it looked like before version history started can still be restored.
+ * Called by updateMission ahead of the write when hasMissionVersions is false.
+ * The row has no changed fields, which marks it as the baseline, and is dated
+ * when the mission was last saved.
+ */
+export const recordBaselineVersion = async (mission: Mission): Promise<{ error?: string }> => {
+  return await sb(async (supabase) => {
+    const { error } = await supabase
+      .from('mission_versions')
+      .insert({
+        mission_id: mission.id,
+        version: mission.version,
+        flights: mission.flights as unknown as Json,
+        pilot_assignments: mission.pilot_assignments as unknown as Json,
+        support_role_assignments: mission.support_role_assignments as unknown as Json,
+        changed_fields: [],
+        changed_by: mission.updated_by || null, // FK to user_profiles.id
+        created_at: mission.updated_at
+      });
+
+    if (error) {
+      console.error('Error recording baseline mission version:', error);
+      return { error: error.message };
+    }
+
+    missionsWithVersions.add(mission.id);
+    return { error: undefined };
+  });
+};
+
+/**
+ * Store a snapshot of the mission's flights and assignments as saved. Called by
+ * updateMission after a successful save; a failure here is logged but never
+ * fails the save itself. Saves that leave the snapshot unchanged are skipped,
+ * and a planner's saves in quick succession update their latest version
+ * instead of adding one each, unless they take pilots out of their slots.
+ */
+export const recordMissionVersion = async (
+  mission: Mission,
+  changedFields: string[],
+  changedBy: string | null
+): Promise<{ error?: string }> => {
+  return await sb(async (supabase) => {
+    const { data: latestRow, error: latestError } = await supabase
+      .from('mission_versions')
+      .select('*')
+      .eq('mission_id', mission.id)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      console.error('Error fetching latest mission version:', latestError);
+      return { error: latestError.message };
+    }
+
+    const latest = latestRow ? convertRowToVersion(latestRow) : null;
+    if (latest && versionedContent(latest) === versionedContent(mission)) {
+      return { error: undefined };
+    }
+
+    const snapshot = {
+      version: mission.version,
+      flights: mission.flights as unknown as Json,
+      pilot_assignments: mission.pilot_assignments as unknown as Json,
+      support_role_assignments: mission.support_role_assignments as unknown as Json
+    };
+
+    if (latest && latest.changed_fields.length > 0
+      && latest.changed_by === (changedBy || undefined)
+      && Date.now() - new Date(latest.created_at).getTime() < VERSION_COALESCE_MS
+      && !removesOrMovesPilots(latest, mission)) {
+      const { error } = await supabase
+        .from('mission_versions')
+        .update({
+          ...snapshot,
+          changed_fields: [...new Set([...latest.changed_fields, ...changedFields])]
+        })
+        .eq('id', latest.id);
+
+      if (error) {
+        console.error('Error updating mission version:', error);
+        return { error: error.message };
+      }
+      return { error: undefined };
+    }
+
+    const { error } = await supabase
+      .from('mission_versions')
+      .insert({
+        mission_id: mission.id,
+        ...snapshot,
+        changed_fields: changedFields,
+        changed_by: changedBy // FK to user_profiles.id
+      });
+
+    if (error) {
+      console.error('Error recording mission version:', error);
+      return { error: error.message };
+    }
+    missionsWithVersions.add(mission.id);
+
+    const { data: expired, error: expiredError } = await supabase
+      .from('mission_versions')
+      .select('id')
+      .eq('mission_id', mission.id)
+      .order('version', { ascending: false })
+      .range(MAX_VERSIONS_PER_MISSION, MAX_VERSIONS_PER_MISSION + 999);
+
+    if (expiredError) {
+      console.error('Error finding old mission versions to prune:', expiredError);
+      return { error: undefined };
+    }
+
+    if (expired && expired.length > 0) {
+      const { error: pruneError } = await supabase
+        .from('mission_versions')
+        .delete()
+        .in('id', expired.map(row => row.id));
+      if (pruneError) {
+        console.error('Error pruning old mission versions:', pruneError);
+      }
+    }
+
+    return { error: undefined };
+  });
+};
+
+/**
+ * Get a mission's saved versions, newest first, with the author's name
+ * resolved and a callsign lookup for every pilot appearing in them.
+ */
+export const getMissionVersions = async (
+  missionId: string,
+  limit: number = 50
+): Promise<{ versions: MissionVersion[]; pilotNames: Record<string, string>; error?: string }> => {
+  return await sb(async (supabase) => {
+    const { data, error } = await supabase
+      .from('mission_versions')
+      .select('*')
+      .eq('mission_id', missionId)
+      .order('version', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching mission versions:', error);
+      return { versions: [], pilotNames: {}, error: error.message };
+    }
+
+    const versions: MissionVersion[] = (data || []).map(convertRowToVersion);
+
+    const profileIds = [...new Set(versions.map(v => v.changed_by).filter((id): id is string => !!id))];
+    const { data: profiles, error: profilesError } = profileIds.length > 0
+      ? await supabase.from('user_profiles').select('id, discord_username, pilot_id').in('id', profileIds)
+      : { data: [], error: null };
+
+    if (profilesError) {
+      console.error('Error fetching mission version authors:', profilesError);
+      return { versions, pilotNames: {}, error: profilesError.message };
+    }
+
+    const pilotIds = new Set<string>();
+    versions.forEach(version => {
+      Object.values(version.pilot_assignments).forEach(assignments => {
+        (Array.isArray(assignments) ? assignments : []).forEach(a => { if (a?.pilot_id) pilotIds.add(a.pilot_id); });
+      });
+    });
+    (profiles || []).forEach(profile => { if (profile.pilot_id) pilotIds.add(profile.pilot_id); });
+
+    const { data: pilots, error: pilotsError } = pilotIds.size > 0
+      ? await supabase.from('pilots').select('id, callsign').in('id', [...pilotIds])
+      : { data: [], error: null };
+
+    if (pilotsError) {
+      console.error('Error fetching pilots for mission versions:', pilotsError);
+      return { versions, pilotNames: {}, error: pilotsError.message };
+    }
+
+    const pilotNames: Record<string, string> = {};
+    (pilots || []).forEach(pilot => { pilotNames[pilot.id] = pilot.callsign; });
+
+    const authorNames = new Map((profiles || []).map(profile => [
+      profile.id,
+      (profile.pilot_id && pilotNames[profile.pilot_id]) || profile.discord_username || 'Unknown'
+    ]));
+    versions.forEach(version => {
+      version.changed_by_name = version.changed_by ? authorNames.get(version.changed_by) || 'Unknown' : undefined;
+    });
+
+    return { versions, pilotNames, error: undefined };
+  });
+};
+
+const flightLabel = (flight: MissionFlight): string => {
+  const flightNumber = flight.flight_data?.flightNumber;
+  return flightNumber ? `${flight.callsign} ${flightNumber}` : flight.callsign;
+};
+
+/**
+ * Where each pilot sits in a version, e.g. "ENFIELD 1-3", keyed by pilot id.
+ * Support role keys in pilot_assignments are UI-only and never saved, but are
+ * skipped here anyway in case an older row carries them.
+ */
+const pilotPositions = (
+  flights: MissionFlight[],
+  assignments: Record<string, PilotAssignment[]>
+): Map<string, string> => {
+  const labels = new Map(flights.map(flight => [flight.id, flightLabel(flight)]));
+  const positions = new Map<string, string>();
+  Object.entries(assignments).forEach(([flightId, pilots]) => {
+    if (flightId.startsWith('support-') || !Array.isArray(pilots)) return;
+    const label = labels.get(flightId) || 'a removed flight';
+    pilots.forEach(assignment => {
+      if (!assignment?.pilot_id) return;
+      positions.set(assignment.pilot_id, `${label}-${assignment.dash_number}`);
+    });
+  });
+  return positions;
+};
+
+/**
+ * Support role crew by role, keyed "<role callsign>" → set of pilot callsigns,
+ * plus the mission commander's callsign.
+ */
+const supportCrew = (roles: SupportRoleWithCrew[]): { crews: Map<string, Set<string>>; missionCommander: string | null } => {
+  const crews = new Map<string, Set<string>>();
+  let missionCommander: string | null = null;
+  roles.forEach(role => {
+    if (role.role_type === 'mission_commander') {
+      missionCommander = role.callsign || null;
+      return;
+    }
+    const label = role.callsign || role.role_type;
+    const crew = crews.get(label) ?? new Set<string>();
+    (Array.isArray(role.pilots) ? role.pilots : []).forEach(pilot => {
+      if (pilot?.callsign) crew.add(pilot.callsign);
+    });
+    crews.set(label, crew);
+  });
+  return { crews, missionCommander };
+};
+
+/**
+ * Describe what changed between two versions in plain sentences, e.g.
+ * "JESTER moved from ENFIELD 1-3 to VIPER 1-2". An omitted older version
+ * describes the first save.
+ */
+export const diffMissionVersions = (
+  older: MissionVersion | null,
+  newer: MissionVersion,
+  pilotNames: Record<string, string>
+): string[] => {
+  const changes: string[] = [];
+  const olderFlights = older?.flights || [];
+  const nameOf = (pilotId: string) => pilotNames[pilotId] || 'Unknown pilot';
+
+  // Flights
+  const olderFlightIds = new Set(olderFlights.map(f => f.id));
+  const newerFlightIds = new Set(newer.flights.map(f => f.id));
+  newer.flights.filter(f => !olderFlightIds.has(f.id)).forEach(f => changes.push(`Added flight ${flightLabel(f)}`));
+  olderFlights.filter(f => !newerFlightIds.has(f.id)).forEach(f => changes.push(`Removed flight ${flightLabel(f)}`));
+
+  // Flight assignments
+  const before = pilotPositions(olderFlights, older?.pilot_assignments || {});
+  const after = pilotPositions(newer.flights, newer.pilot_assignments);
+  after.forEach((position, pilotId) => {
+    const previous = before.get(pilotId);
+    if (!previous) changes.push(`${nameOf(pilotId)} assigned to ${position}`);
+    else if (previous !== position) changes.push(`${nameOf(pilotId)} moved from ${previous} to ${position}`);
+  });
+  before.forEach((position, pilotId) => {
+    if (!after.has(pilotId)) changes.push(`${nameOf(pilotId)} removed from ${position}`);
+  });
+
+  // Support roles and mission commander
+  const beforeSupport = supportCrew(older?.support_role_assignments || []);
+  const afterSupport = supportCrew(newer.support_role_assignments);
+  afterSupport.crews.forEach((crew, label) => {
+    const previousCrew = beforeSupport.crews.get(label);
+    if (!previousCrew) changes.push(`Added support role ${label}`);
+    crew.forEach(callsign => { if (!previousCrew?.has(callsign)) changes.push(`${callsign} assigned to ${label}`); });
+    previousCrew?.forEach(callsign => { if (!crew.has(callsign)) changes.push(`${callsign} removed from ${label}`); });
+  });
+  beforeSupport.crews.forEach((_crew, label) => {
+    if (!afterSupport.crews.has(label)) changes.push(`Removed support role ${label}`);
+  });
+  if (beforeSupport.missionCommander !== afterSupport.missionCommander) {
+    if (!afterSupport.missionCommander) changes.push(`${beforeSupport.missionCommander} removed as mission commander`);
+    else if (!beforeSupport.missionCommander) changes.push(`${afterSupport.missionCommander} set as mission commander`);
+    else changes.push(`Mission commander changed from ${beforeSupport.missionCommander} to ${afterSupport.missionCommander}`);
+  }
+
+  // Saves that only changed flight details (route, loadout, step time, ...)
+  if (changes.length === 0 && older && JSON.stringify(older.flights) !== JSON.stringify(newer.flights)) {
+    changes.push('Updated flight details');
+  }
+
+  return changes;
+};
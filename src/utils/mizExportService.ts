@@ -0,0 +1,215 @@
+/**
+ * .miz Export Service
+ * Writes mission prep results (pilot assignments, board numbers, callsigns and
+ * comms plan presets) back into the original mission file so it no longer has
+ * to be hand-edited in the DCS Mission Editor before it goes on the server.
+ */
+
+import JSZip from 'jszip';
+import { parseMizContentsAsync, readMizFileContents } from './mizParserService';
+import { serializeLuaGlobal } from './luaTableWriter';
+import { getAccessToken, toCorsSafeImageUrl, uploadToR2 } from './r2StorageService';
+import type { LuaJsonObject, LuaJsonValue } from './luaTableParser';
+import type { CommsPlanEntry } from '../types/CommsTypes';
+
+/** Minimal shape of a mission prep flight card needed to find its group */
+export interface MizExportFlight {
+  id: string;
+  callsign: string;
+  flightNumber: string;
+  metadata?: {
+    originalName?: string;
+  };
+}
+
+export interface MizExportPilot {
+  dashNumber: string;
+  boardNumber?: string;
+  callsign?: string;
+}
+
+export interface MizExportReport {
+  updatedGroups: string[];
+  updatedUnits: number;
+  unmatchedFlights: string[];
+}
+
+/**
+ * Upload the original .miz so it can be rewritten later. The storage worker
+ * only accepts known MIME types, so the archive is always sent as a zip.
+ */
+export async function uploadOriginalMiz(
+  missionId: string,
+  file: File
+): Promise<{ url: string | null; error: string | null }> {
+  const accessToken = await getAccessToken();
+  if (!accessToken) return { url: null, error: 'Not authenticated' };
+
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+  const zipFile = new File([file], safeName, { type: 'application/zip' });
+  return uploadToR2(zipFile, `missions/${missionId}/${Date.now()}-${safeName}`, accessToken);
+}
+
+const asList = (value: LuaJsonValue | undefined): LuaJsonValue[] => {
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === 'object') return Object.values(value);
+  return [];
+};
+
+const isObject = (value: LuaJsonValue | undefined): value is LuaJsonObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const withoutDashes = (name: string) => name.replace(/-/g, ' ');
+
+// "Enfield 1" -> { callsign: 'ENFIELD', flightNumber: '1' }, same rules as the flight cards
+const parseGroupName = (name: string): { callsign: string; flightNumber: string } => {
+  const match = /^(.*\S)\s+(\d+)$/.exec(name.trim());
+  return match
+    ? { callsign: match[1].toUpperCase(), flightNumber: match[2] }
+    : { callsign: name.trim().toUpperCase(), flightNumber: '1' };
+};
+
+/**
+ * Set a preset channel frequency. Radio channel lists come through the parser
+ * either as arrays or, when sparse, as objects keyed "_<n>"; only existing
+ * slots are written so the radio's channel count is left intact.
+ */
+const setPreset = (channels: LuaJsonValue | undefined, channel: number, mhz: number): boolean => {
+  if (Array.isArray(channels)) {
+    if (channel > channels.length) return false;
+    channels[channel - 1] = mhz;
+    return true;
+  }
+  if (isObject(channels) && `_${channel}` in channels) {
+    channels[`_${channel}`] = mhz;
+    return true;
+  }
+  return false;
+};
+
+const applyCommsPlan = (unit: LuaJsonObject, commsPlan: CommsPlanEntry[]) => {
+  // Presets go on the primary radio (COMM 1); secondary radios often cover a
+  // different band than the squadron's UHF plan.
+  const primaryRadio = asList(unit.Radio)[0];
+  if (!isObject(primaryRadio)) return;
+
+  commsPlan.forEach(entry => {
+    const channel = parseInt(entry.chan, 10);
+    const mhz = parseFloat(entry.freq);
+    if (isNaN(channel) || isNaN(mhz)) return;
+    setPreset(primaryRadio.channels, channel, mhz);
+  });
+};
+
+/**
+ * Rewrite the blue client groups matching each flight card in place.
+ *
+ * For each assigned pilot the unit at their dash position gets a readable
+ * name, their board number as `onboard_num` and a callsign table that matches
+ * the flight card. Every unit in a matched group receives the comms plan presets.
+ */
+export function applyAssignmentsToMission(
+  missionTable: LuaJsonObject,
+  flights: MizExportFlight[],
+  assignedPilots: Record<string, MizExportPilot[]>,
+  commsPlan: CommsPlanEntry[]
+): MizExportReport {
+  const report: MizExportReport = { updatedGroups: [], updatedUnits: 0, unmatchedFlights: [] };
+
+  const coalition = isObject(missionTable.coalition) ? missionTable.coalition : undefined;
+  const blue = coalition && isObject(coalition.blue) ? coalition.blue : undefined;
+  const groups: LuaJsonObject[] = [];
+  asList(blue?.country).forEach(country => {
+    if (!isObject(country)) return;
+    [country.plane, country.helicopter].forEach(category => {
+      if (!isObject(category)) return;
+      asList(category.group).forEach(group => {
+        if (isObject(group)) groups.push(group);
+      });
+    });
+  });
+
+  flights.forEach(flight => {
+    const flightLabel = `${flight.callsign} ${flight.flightNumber}`;
+    const group = groups.find(candidate => {
+      const name = typeof candidate.name === 'string' ? candidate.name : '';
+      // Flight cards keep the group name as shown in AircraftGroups ("Enfield-1" -> "Enfield 1")
+      if (flight.metadata?.originalName) {
+        return name === flight.metadata.originalName || withoutDashes(name) === withoutDashes(flight.metadata.originalName);
+      }
+      const parsed = parseGroupName(name);
+      return parsed.callsign === flight.callsign.toUpperCase() && parsed.flightNumber === flight.flightNumber;
+    });
+
+    if (!group) {
+      report.unmatchedFlights.push(flightLabel);
+      return;
+    }
+
+    const assigned = assignedPilots[flight.id] || [];
+    asList(group.units).forEach((unit, index) => {
+      if (!isObject(unit)) return;
+      const dashNumber = String(index + 1);
+
+      if (commsPlan.length > 0) applyCommsPlan(unit, commsPlan);
+
+      const pilot = assigned.find(p => p.dashNumber === dashNumber);
+      if (!pilot?.boardNumber) return;
+
+      const boardNumber = pilot.boardNumber.padStart(3, '0');
+      unit.name = `${flightLabel}-${dashNumber} | ${boardNumber}${pilot.callsign ? ` ${pilot.callsign}` : ''}`;
+      unit.onboard_num = boardNumber;
+
+      // Western callsign tables are { [1]=index, [2]=flight, [3]=dash, name= };
+      // numeric (Russian-style) callsigns are left alone
+      if (isObject(unit.callsign)) {
+        unit.callsign._2 = parseInt(flight.flightNumber, 10) || 1;
+        unit.callsign._3 = index + 1;
+        const prefix = flight.callsign.charAt(0).toUpperCase() + flight.callsign.slice(1).toLowerCase();
+        unit.callsign.name = `${prefix}${flight.flightNumber}${dashNumber}`;
+      }
+
+      report.updatedUnits++;
+    });
+
+    report.updatedGroups.push(typeof group.name === 'string' ? group.name : flightLabel);
+  });
+
+  return report;
+}
+
+/**
+ * Download the original .miz, apply the assignments and return the rewritten
+ * archive. Every other file in the archive is carried over untouched.
+ */
+export async function buildMizWithAssignments(
+  originalUrl: string,
+  flights: MizExportFlight[],
+  assignedPilots: Record<string, MizExportPilot[]>,
+  commsPlan: CommsPlanEntry[]
+): Promise<{ blob: Blob; report: MizExportReport }> {
+  const response = await fetch(toCorsSafeImageUrl(originalUrl));
+  if (!response.ok) {
+    throw new Error(`Failed to download original mission file: ${response.statusText}`);
+  }
+  const original = await response.arrayBuffer();
+
+  const contents = await readMizFileContents(original);
+  // Full precision, so coordinates and frequencies survive the round trip
+  const { mission } = await parseMizContentsAsync(contents, { exactNumbers: true });
+  if (!isObject(mission)) {
+    throw new Error('Mission file does not contain a mission table');
+  }
+
+  const report = applyAssignmentsToMission(mission, flights, assignedPilots, commsPlan);
+
+  const zip = await JSZip.loadAsync(original);
+  zip.file('mission', serializeLuaGlobal('mission', mission));
+  const blob = await zip.generateAsync({
+    type: 'blob',
+    compression: 'DEFLATE',
+    mimeType: 'application/zip'
+  });
+
+  return { blob, report };
+}
@@ -0,0 +1,85 @@
+import JSZip from 'jszip';
+import { parseMizContents, type LuaParseOptions, type MizFileContents, type ParsedMizData } from './luaTableParser';
+import type { MizParserRequest, MizParserResponse } from '../workers/mizParser.worker';
+
+// Paths of the Lua files inside a .miz archive
+const MIZ_ENTRIES = {
+  mission: 'mission',
+  options: 'options',
+  warehouses: 'warehouses',
+  dictionary: 'l10n/DEFAULT/dictionary'
+} as const;
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, {
+  resolve: (data: ParsedMizData) => void;
+  reject: (error: Error) => void;
+}>();
+
+const getWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  if (!worker) {
+    worker = new Worker(new URL('../workers/mizParser.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<MizParserResponse>) => {
+      const pending = pendingRequests.get(event.data.id);
+      if (!pending) return;
+      pendingRequests.delete(event.data.id);
+      if (event.data.error !== undefined) {
+        pending.reject(new Error(event.data.error));
+      } else {
+        pending.resolve(event.data.data);
+      }
+    });
+    worker.addEventListener('error', (event) => {
+      // A crashed worker fails every in-flight request; the next call starts a new one
+      const error = new Error(event.message || 'Mission parser worker failed');
+      pendingRequests.forEach(pending => pending.reject(error));
+      pendingRequests.clear();
+      worker?.terminate();
+      worker = null;
+    });
+  }
+  return worker;
+};
+
+/**
+ * Parse .miz Lua file contents in a Web Worker, falling back to the current
+ * thread where workers aren't available (e.g. Node scripts).
+ */
+export const parseMizContentsAsync = (files: MizFileContents, options?: LuaParseOptions): Promise<ParsedMizData> => {
+  const parserWorker = getWorker();
+  if (!parserWorker) {
+    return Promise.resolve().then(() => parseMizContents(files, options));
+  }
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pendingRequests.set(id, { resolve, reject });
+    parserWorker.postMessage({ id, files, options } satisfies MizParserRequest);
+  });
+};
+
+/**
+ * Read the Lua files out of a .miz archive.
+ */
+export const readMizFileContents = async (file: Blob | ArrayBuffer): Promise<MizFileContents> => {
+  const archive = await new JSZip().loadAsync(file);
+
+  const missionFile = archive.file(MIZ_ENTRIES.mission);
+  if (!missionFile) {
+    throw new Error('Could not find mission file in the .miz archive');
+  }
+
+  const readOptional = async (path: string) => {
+    const entry = archive.file(path);
+    return entry ? await entry.async('string') : null;
+  };
+
+  return {
+    mission: await missionFile.async('string'),
+    options: await readOptional(MIZ_ENTRIES.options),
+    warehouses: await readOptional(MIZ_ENTRIES.warehouses),
+    dictionary: await readOptional(MIZ_ENTRIES.dictionary)
+  };
+};
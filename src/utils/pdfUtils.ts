@@ -1,5 +1,6 @@
-// Lazily-loaded pdf.js helpers. pdfjs-dist is large, so it is only imported
-// the first time a PDF actually needs rendering (award certificate uploads).
+// PDF helpers. Reading goes through pdf.js, which is large, so it is only
+// imported the first time a PDF actually needs rendering (award certificate
+// uploads). Writing image-only documents needs no library.
 
 let pdfjsPromise: Promise<any> | null = null;
 
@@ -67,3 +68,83 @@ export async function renderPdfFirstPageToImage(
     }
   }
 }
+
+// A4 in PDF points (1/72")
+export const A4_WIDTH_PT = 595.28;
+export const A4_HEIGHT_PT = 841.89;
+
+export interface PdfImagePage {
+  jpeg: Uint8Array;
+  width: number;  // Image size in pixels
+  height: number;
+}
+
+/**
+ * Assemble a PDF with one full-bleed JPEG per page. Pages are A4 wide and
+ * as tall as the image's aspect ratio needs, so A4-proportioned images give
+ * A4 pages. Used for documents rendered client-side (e.g. after-action
+ * reports) without pulling in a PDF library.
+ */
+export function buildPdfFromJpegPages(pages: PdfImagePage[], pageWidthPt: number = A4_WIDTH_PT): Blob {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Objects: 1 catalog, 2 page tree, then page / content / image per page
+  const pageIds = pages.map((_, i) => 3 + i * 3);
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const pageId = pageIds[i];
+    const width = pageWidthPt;
+    const height = +(pageWidthPt * page.height / page.width).toFixed(2);
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+
+    beginObject(pageId);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+      `/Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>\nendobj\n`);
+    beginObject(pageId + 1);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    beginObject(pageId + 2);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+}
+
+/** Decode a `data:image/jpeg;base64,...` URL into bytes for buildPdfFromJpegPages */
+export function jpegDataUrlToBytes(dataUrl: string): Uint8Array {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
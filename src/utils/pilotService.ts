@@ -227,112 +227,111 @@ export async function getPilotById(id: string): Promise<{ data: Pilot | null; er
   return { data: transformedPilot, error: null };
 }
 
-/**
- * Fetch a single pilot by their Discord ID
- */
-export async function getPilotByDiscordId(discordId: string): Promise<{ data: Pilot | null; error: any }> {
-  const { data, error } = await supabase
-    .from('pilots')
-    .select(`
-      *,
-      pilot_roles!left (
+// Pilot columns plus the role, status, standing and squadron joins that
+// toPilotWithAssignments reads
+const PILOT_WITH_ASSIGNMENTS_SELECT = `
+    *,
+    pilot_roles!left (
+      id,
+      pilot_id,
+      role_id,
+      effective_date,
+      end_date,
+      is_acting,
+      created_at,
+      updated_at,
+      roles:role_id (
         id,
-        pilot_id,
-        role_id,
-        effective_date,
-        end_date,
-        is_acting,
-        created_at,
-        updated_at,
-        roles:role_id (
-          id,
-          name,
-          exclusivity_scope,
-          order
-        )
-      ),
-      pilot_statuses!left (
+        name,
+        exclusivity_scope,
+        order
+      )
+    ),
+    pilot_statuses!left (
+      id,
+      pilot_id,
+      status_id,
+      start_date,
+      end_date,
+      created_at,
+      updated_at,
+      statuses:status_id (
         id,
-        pilot_id,
-        status_id,
-        start_date,
-        end_date,
-        created_at,
-        updated_at,
-        statuses:status_id (
-          id,
-          name,
-          isActive,
-          order
-        )
-      ),
-      pilot_standings!left (
+        name,
+        isActive,
+        order
+      )
+    ),
+    pilot_standings!left (
+      id,
+      pilot_id,
+      standing_id,
+      start_date,
+      end_date,
+      created_at,
+      updated_at,
+      standings:standing_id (
         id,
-        pilot_id,
-        standing_id,
-        start_date,
-        end_date,
-        created_at,
-        updated_at,
-        standings:standing_id (
-          id,
-          name,
-          order
-        )
-      ),
-      pilot_assignments!left (
+        name,
+        order
+      )
+    ),
+    pilot_assignments!left (
+      id,
+      pilot_id,
+      squadron_id,
+      start_date,
+      end_date,
+      created_at,
+      updated_at,
+      org_squadrons (
         id,
-        pilot_id,
-        squadron_id,
-        start_date,
-        end_date,
-        created_at,
-        updated_at,
-        org_squadrons (
-          id,
-          name,
-          designation,
-          wing_id,
-          tail_code,
-          established_date,
-          deactivated_date,
-          insignia_url,
-          carrier_id,
-          callsigns,
-          color_palette,
-          discord_integration,
-          updated_at
-        )
+        name,
+        designation,
+        wing_id,
+        tail_code,
+        established_date,
+        deactivated_date,
+        insignia_url,
+        carrier_id,
+        callsigns,
+        color_palette,
+        discord_integration,
+        updated_at
       )
-    `)
-    .eq('discord_id', discordId)
-    .maybeSingle(); // .single() returns HTTP 406 when no pilot matches — Discord users without pilot records are a normal case
+    )
+  `;
 
-  if (error || !data) {
-    return { data: null, error };
-  }
+const selectPilotsWithAssignments = () => supabase
+  .from('pilots')
+  .select(PILOT_WITH_ASSIGNMENTS_SELECT);
+
+type PilotWithAssignmentsRow = NonNullable<Awaited<ReturnType<typeof selectPilotsWithAssignments>>['data']>[number];
 
-  // Process the joined data to extract active assignments (same as getAllPilots)
+/**
+ * Extract a pilot's active assignments from the joined data (same as getAllPilots)
+ */
+function toPilotWithAssignments(data: PilotWithAssignmentsRow): Pilot {
   const activeRoleAssignments = (data.pilot_roles || []).filter(
-    (ra: any) => ra.end_date === null
+    (ra) => ra.end_date === null
   );
-  activeRoleAssignments.sort((a: any, b: any) => 
+  activeRoleAssignments.sort((a, b) =>
     new Date(b.effective_date).getTime() - new Date(a.effective_date).getTime()
   );
   const currentRoleAssignment = activeRoleAssignments[0];
 
   const activeStatusAssignments = (data.pilot_statuses || []).filter(
-    (sa: any) => sa.end_date === null
+    (sa) => sa.end_date === null
   );
   const pilotStatusAssignment = activeStatusAssignments[0];
 
   const activeStandingAssignments = (data.pilot_standings || []).filter(
-    (sta: any) => sta.end_date === null
+    (sta) => sta.end_date === null
   );
   const pilotStandingAssignment = activeStandingAssignments[0];
 
   const activeSquadronAssignments = (data.pilot_assignments || []).filter(
-    (sqa: any) => sqa.end_date === null
+    (sqa) => sqa.end_date === null
   );
   const currentSquadronAssignment = activeSquadronAssignments[0];
 
@@ -349,7 +348,39 @@ export async function getPilotByDiscordId(discordId: string): Promise<{ data: Pi
     } as any : undefined
   };
 
-  return { data: pilot, error: null };
+  return pilot;
+}
+
+/**
+ * Fetch a single pilot by their Discord ID
+ */
+export async function getPilotByDiscordId(discordId: string): Promise<{ data: Pilot | null; error: any }> {
+  const { data, error } = await selectPilotsWithAssignments()
+    .eq('discord_id', discordId)
+    .maybeSingle(); // .single() returns HTTP 406 when no pilot matches — Discord users without pilot records are a normal case
+
+  if (error || !data) {
+    return { data: null, error };
+  }
+
+  return { data: toPilotWithAssignments(data), error: null };
+}
+
+/**
+ * Fetch several pilots by ID with their active role, status, standing and squadron
+ */
+export async function getPilotsByIds(ids: string[]): Promise<{ data: Pilot[] | null; error: any }> {
+  if (ids.length === 0) {
+    return { data: [], error: null };
+  }
+
+  const { data, error } = await selectPilotsWithAssignments().in('id', ids);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  return { data: (data || []).map(toPilotWithAssignments), error: null };
 }
 
 /**
@@ -0,0 +1,283 @@
+import { sb } from './supabaseClient';
+import type { CurrencyActivity, Qualification, QualificationCurrencyRule } from './qualificationService';
+import type { PilotAssignment } from '../types/MissionTypes';
+
+// The bot applies the same rules when it stores expiry dates and sends lapse
+// reminders (SDOBot/lib/qualificationCurrencyRules.js); change both together.
+// Its tests run both and fail when they disagree.
+
+export const CURRENCY_ACTIVITIES: Array<{ id: CurrencyActivity; label: string; noun: string; plural: string }> = [
+  { id: 'trap', label: 'Carrier trap', noun: 'trap', plural: 'traps' },
+  { id: 'night_trap', label: 'Night carrier trap', noun: 'night trap', plural: 'night traps' },
+  { id: 'flight_lead', label: 'Leading a flight (-1)', noun: 'flight led', plural: 'flights led' },
+  { id: 'sortie', label: 'Flying a sortie', noun: 'sortie', plural: 'sorties' }
+];
+
+// Matches the roster's existing "expires within 30 days" highlight
+const VALIDITY_WARNING_DAYS = 30;
+const DEFAULT_CURRENCY_WARNING_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type QualificationCurrencyStatus = 'current' | 'expiring' | 'lapsed';
+
+export interface QualificationCurrency {
+  status: QualificationCurrencyStatus;
+  expiresAt: string; // ISO timestamp the qualification lapses (or lapsed) at
+  reason: string; // Why it expires then, e.g. "No trap since 08/14/2026"
+  lastActivityAt: string | null; // Most recent qualifying activity, for currency rules
+}
+
+// Activity timestamps per pilot, newest first
+export type CurrencyActivityLog = Record<string, Partial<Record<CurrencyActivity, string[]>>>;
+
+/**
+ * A pilot_qualifications record with its qualification joined, as returned
+ * by getBatchPilotQualifications
+ */
+export interface PilotQualificationRecord {
+  qualification_id?: string | null;
+  achieved_date?: string | null;
+  created_at?: string | null;
+  expiry_date?: string | null;
+  qualification?: Qualification | null;
+}
+
+/**
+ * Whether an LSO grade renews trap currency. Waveoffs and bolters don't;
+ * grades from before outcomes were recorded count when a wire was logged.
+ */
+export const countsAsTrap = (grade: { outcome_type: string | null; wire_number: number | null }): boolean =>
+  grade.outcome_type ? grade.outcome_type === 'trap' : grade.wire_number !== null;
+
+const activityNoun = (activity: CurrencyActivity, count: number = 1) => {
+  const definition = CURRENCY_ACTIVITIES.find(a => a.id === activity);
+  if (!definition) return activity;
+  return count > 1 ? definition.plural : definition.noun;
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: '2-digit', day: '2-digit', year: 'numeric' });
+
+export const describeCurrencyRule = (rule: QualificationCurrencyRule): string => {
+  const count = rule.count || 1;
+  return count > 1
+    ? `Lapses without ${count} ${activityNoun(rule.activity, count)} in ${rule.days} days`
+    : `Lapses after ${rule.days} days without a ${activityNoun(rule.activity)}`;
+};
+
+export const qualificationIdOf = (pilotQualification: PilotQualificationRecord | null | undefined): string | undefined =>
+  pilotQualification?.qualification_id || pilotQualification?.qualification?.id;
+
+/**
+ * Work out when a pilot's qualification lapses. Expirable qualifications run
+ * for their validity period from the achieved date; qualifications with a
+ * currency rule are renewed by each qualifying activity. When both apply the
+ * earlier date wins. Returns null when nothing makes the qualification expire.
+ */
+export const computeQualificationCurrency = (
+  pilotQualification: PilotQualificationRecord | null | undefined,
+  qualification: Qualification | null | undefined,
+  activityDates: string[] = [],
+  now: Date = new Date()
+): QualificationCurrency | null => {
+  const startedAt = pilotQualification?.achieved_date || pilotQualification?.created_at || null;
+  const start = startedAt ? new Date(startedAt) : null;
+  const candidates: Array<{ at: Date; reason: string; warningDays: number; lastActivityAt: string | null }> = [];
+
+  if (qualification?.is_expirable && qualification.validity_period && start) {
+    candidates.push({
+      at: new Date(start.getTime() + qualification.validity_period * DAY_MS),
+      reason: `Valid for ${qualification.validity_period} days from ${formatDate(start)}`,
+      warningDays: VALIDITY_WARNING_DAYS,
+      lastActivityAt: null
+    });
+  } else if (!qualification?.currency_rule && pilotQualification?.expiry_date) {
+    // Expiry entered by hand on a qualification that doesn't expire by rule
+    candidates.push({
+      at: new Date(pilotQualification.expiry_date),
+      reason: 'Expiry date set on the roster',
+      warningDays: VALIDITY_WARNING_DAYS,
+      lastActivityAt: null
+    });
+  }
+
+  const rule = qualification?.currency_rule;
+  if (rule && rule.days > 0) {
+    const count = Math.max(1, rule.count || 1);
+    const recent = activityDates.filter(date => !start || new Date(date) >= start);
+    const renewingActivity = recent[count - 1] || null;
+    const anchor = renewingActivity ? new Date(renewingActivity) : start;
+
+    if (anchor) {
+      candidates.push({
+        at: new Date(anchor.getTime() + rule.days * DAY_MS),
+        reason: renewingActivity
+          ? count > 1
+            ? `${count} ${activityNoun(rule.activity, count)} since ${formatDate(anchor)}`
+            : `Last ${activityNoun(rule.activity)} ${formatDate(anchor)}`
+          : `No ${activityNoun(rule.activity)} since qualifying ${formatDate(anchor)}`,
+        warningDays: rule.warningDays ?? DEFAULT_CURRENCY_WARNING_DAYS,
+        lastActivityAt: recent[0] || null
+      });
+    }
+  }
+
+  if (candidates.length === 0) return null;
+
+  const earliest = candidates.reduce((a, b) => (b.at < a.at ? b : a));
+  const daysLeft = (earliest.at.getTime() - now.getTime()) / DAY_MS;
+  return {
+    status: daysLeft <= 0 ? 'lapsed' : daysLeft <= earliest.warningDays ? 'expiring' : 'current',
+    expiresAt: earliest.at.toISOString(),
+    reason: earliest.reason,
+    lastActivityAt: earliest.lastActivityAt
+  };
+};
+
+/**
+ * Fetch the trap and mission history that currency rules count, going back
+ * to `since`. Traps come from lso_grades; sorties and flight leads from the
+ * pilot assignments of missions whose event has already started.
+ */
+export const getCurrencyActivity = async (
+  pilotIds: string[],
+  activities: CurrencyActivity[],
+  since: Date
+): Promise<{ activity: CurrencyActivityLog; error?: string }> => {
+  const activity: CurrencyActivityLog = {};
+  if (pilotIds.length === 0 || activities.length === 0) return { activity, error: undefined };
+
+  const sinceIso = since.toISOString();
+  const nowIso = new Date().toISOString();
+  const pilotIdSet = new Set(pilotIds);
+  const log = (pilotId: string, kind: CurrencyActivity, at: string) => {
+    const entry = (activity[pilotId] ??= {});
+    (entry[kind] ??= []).push(at);
+  };
+
+  return await sb(async (supabase) => {
+    if (activities.includes('trap') || activities.includes('night_trap')) {
+      // An imported pass is never created before it was flown, so filtering
+      // on created_at can't drop a pass that falls inside the window
+      const { data: grades, error } = await supabase
+        .from('lso_grades')
+        .select('pilot_id, pass_time, created_at, is_night, outcome_type, wire_number')
+        .in('pilot_id', pilotIds)
+        .or('outcome_type.eq.trap,outcome_type.is.null')
+        .gte('created_at', sinceIso);
+
+      if (error) {
+        console.error('Error fetching traps for qualification currency:', error);
+        return { activity: {}, error: error.message };
+      }
+
+      (grades || []).forEach(grade => {
+        const at = grade.pass_time || grade.created_at;
+        if (!at || new Date(at) < since || !countsAsTrap(grade)) return;
+        log(grade.pilot_id, 'trap', at);
+        if (grade.is_night) log(grade.pilot_id, 'night_trap', at);
+      });
+    }
+
+    if (activities.includes('flight_lead') || activities.includes('sortie')) {
+      // Only events that had a mission planned can hold sorties, so fetch the
+      // missions and take each one's event start from the join
+      const { data: missions, error: missionsError } = await supabase
+        .from('missions')
+        .select('pilot_assignments, events!inner(start_datetime)')
+        .gte('events.start_datetime', sinceIso)
+        .lte('events.start_datetime', nowIso)
+        .neq('status', 'cancelled');
+
+      if (missionsError) {
+        console.error('Error fetching missions for qualification currency:', missionsError);
+        return { activity: {}, error: missionsError.message };
+      }
+
+      (missions || []).forEach(mission => {
+        const at = mission.events?.start_datetime;
+        if (!at) return;
+        const assignments = (mission.pilot_assignments && typeof mission.pilot_assignments === 'object'
+          ? mission.pilot_assignments
+          : {}) as unknown as Record<string, Array<Partial<PilotAssignment> | null>>;
+
+        Object.values(assignments).forEach(pilots => {
+          if (!Array.isArray(pilots)) return;
+          pilots.forEach(assignment => {
+            if (!assignment?.pilot_id || !pilotIdSet.has(assignment.pilot_id)) return;
+            log(assignment.pilot_id, 'sortie', at);
+            if (assignment.dash_number === '1') log(assignment.pilot_id, 'flight_lead', at);
+          });
+        });
+      });
+    }
+
+    Object.values(activity).forEach(byKind => {
+      Object.values(byKind).forEach(dates => dates?.sort((a, b) => new Date(b).getTime() - new Date(a).getTime()));
+    });
+
+    return { activity, error: undefined };
+  });
+};
+
+/**
+ * Currency of every current qualification for a set of pilots, keyed by pilot
+ * ID and then qualification ID. `pilotQualifications` is the shape returned by
+ * getBatchPilotQualifications, with the qualification joined on each record.
+ */
+export const getPilotsQualificationCurrency = async (
+  pilotQualifications: Record<string, PilotQualificationRecord[]>
+): Promise<{ currency: Record<string, Record<string, QualificationCurrency>>; error?: string }> => {
+  const rules = Object.values(pilotQualifications)
+    .flat()
+    .map(pq => pq?.qualification?.currency_rule)
+    .filter((rule): rule is QualificationCurrencyRule => !!rule && rule.days > 0);
+
+  let activity: CurrencyActivityLog = {};
+  let error: string | undefined;
+  if (rules.length > 0) {
+    const longestWindow = Math.max(...rules.map(rule => rule.days));
+    const since = new Date(Date.now() - longestWindow * DAY_MS);
+    const pilotIds = Object.keys(pilotQualifications).filter(id => pilotQualifications[id]?.some(pq => pq?.qualification?.currency_rule));
+    ({ activity, error } = await getCurrencyActivity(pilotIds, [...new Set(rules.map(rule => rule.activity))], since));
+  }
+
+  const currency: Record<string, Record<string, QualificationCurrency>> = {};
+  const now = new Date();
+  Object.entries(pilotQualifications).forEach(([pilotId, records]) => {
+    (records || []).forEach(pq => {
+      const qualificationId = qualificationIdOf(pq);
+      if (!qualificationId) return;
+      // Without the activity log a currency rule would read as lapsed, so fall
+      // back to the validity period or the expiry last stored by the bot
+      const rule = pq.qualification?.currency_rule;
+      const qualification = error && rule && pq.qualification ? { ...pq.qualification, currency_rule: null } : pq.qualification;
+      const result = computeQualificationCurrency(pq, qualification, rule ? activity[pilotId]?.[rule.activity] : [], now);
+      if (!result) return;
+      // A re-awarded qualification keeps the record that lapses last
+      const existing = currency[pilotId]?.[qualificationId];
+      if (existing && existing.expiresAt >= result.expiresAt) return;
+      (currency[pilotId] ??= {})[qualificationId] = result;
+    });
+  });
+
+  return { currency, error };
+};
+
+/**
+ * Drop lapsed qualifications, so callers that only look at what a pilot holds
+ * (auto-assign) treat them as absent.
+ */
+export const withoutLapsedQualifications = <T extends PilotQualificationRecord>(
+  pilotQualifications: Record<string, T[]>,
+  currency: Record<string, Record<string, QualificationCurrency>>
+): Record<string, T[]> => {
+  const result: Record<string, T[]> = {};
+  Object.entries(pilotQualifications).forEach(([pilotId, records]) => {
+    result[pilotId] = (records || []).filter(pq => {
+      const qualificationId = qualificationIdOf(pq);
+      return !qualificationId || currency[pilotId]?.[qualificationId]?.status !== 'lapsed';
+    });
+  });
+  return result;
+};
@@ -1,5 +1,21 @@
 import { supabase } from './supabaseClient';
 import { getPilotByDiscordId } from './pilotService';
+import type { Database, Json } from '../types/supabase';
+
+// Activities that keep a qualification current
+export type CurrencyActivity = 'trap' | 'night_trap' | 'flight_lead' | 'sortie';
+
+/**
+ * Currency rule for a qualification, e.g. CQ lapses after 30 days without a
+ * trap. The qualification stays current while the pilot has logged at least
+ * `count` of the activity in the last `days` days (or qualified within them).
+ */
+export interface QualificationCurrencyRule {
+  activity: CurrencyActivity;
+  days: number;
+  count?: number; // Defaults to 1
+  warningDays?: number; // Warn and DM the pilot this many days before it lapses, defaults to 14
+}
 
 // Define the Qualification interface
 export interface Qualification {
@@ -11,6 +27,7 @@ export interface Qualification {
   category: string | null;
   is_expirable: boolean;
   validity_period: number | null; // In days
+  currency_rule?: QualificationCurrencyRule | null;
   active: boolean;
   is_support_role?: boolean; // Selectable as a Mission Support role requirement on events
   order?: number | null; // Sort order for display
@@ -18,6 +35,14 @@ export interface Qualification {
   updated_at?: string | null;
 }
 
+type QualificationRow = Database['public']['Tables']['qualifications']['Row'];
+
+// currency_rule is stored as JSONB
+const toQualification = (row: QualificationRow): Qualification => ({
+  ...row,
+  currency_rule: row.currency_rule as unknown as QualificationCurrencyRule | null
+});
+
 // Cache for storing pilot qualification data to avoid duplicate requests
 const qualificationsCache: Record<string, any[]> = {};
 const pendingRequests: Record<string, Promise<{ data: any[] | null; error: any }>> = {};
@@ -32,7 +57,7 @@ export async function getAllQualifications(): Promise<{ data: Qualification[] |
       .select('*')
       .order('order', { ascending: true });
 
-    return { data, error };
+    return { data: data ? data.map(toQualification) : null, error };
   } catch (e) {
     return { data: null, error: e };
   }
@@ -49,7 +74,7 @@ export async function getActiveQualifications(): Promise<{ data: Qualification[]
       .eq('active', true)
       .order('name', { ascending: true });
     
-    return { data, error };
+    return { data: data ? data.map(toQualification) : null, error };
   } catch (e) {
     return { data: null, error: e };
   }
@@ -74,7 +99,7 @@ export async function getSupportRoleQualifications(): Promise<{ data: Qualificat
       return { data: [], error: null };
     }
 
-    return { data, error };
+    return { data: data.map(toQualification), error };
   } catch (e) {
     return { data: [], error: null };
   }
@@ -91,7 +116,7 @@ export async function getQualificationById(id: string): Promise<{ data: Qualific
       .eq('id', id)
       .single();
     
-    return { data, error };
+    return { data: data ? toQualification(data) : null, error };
   } catch (e) {
     return { data: null, error: e };
   }
@@ -104,11 +129,11 @@ export async function createQualification(qualification: Omit<Qualification, 'id
   try {
     const { data, error } = await supabase
       .from('qualifications')
-      .insert(qualification)
+      .insert({ ...qualification, currency_rule: qualification.currency_rule as unknown as Json })
       .select('*')
       .single();
     
-    return { data, error };
+    return { data: data ? toQualification(data) : null, error };
   } catch (e) {
     return { data: null, error: e };
   }
@@ -122,6 +147,7 @@ export async function updateQualification(id: string, updates: Partial<Omit<Qual
     // Add the updated_at timestamp
     const updatesWithTimestamp = {
       ...updates,
+      currency_rule: updates.currency_rule as unknown as Json | undefined,
       updated_at: new Date().toISOString()
     };
 
@@ -140,7 +166,7 @@ export async function updateQualification(id: string, updates: Partial<Omit<Qual
 
     console.log('Qualification update raw response:', { data, error, originalId: id, updates: updatesWithTimestamp });
 
-    return { data: data ? data[0] : null, error };
+    return { data: data?.[0] ? toQualification(data[0]) : null, error };
   } catch (e) {
     console.error('Exception in updateQualification:', e);
     return { data: null, error: e };
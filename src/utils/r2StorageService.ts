@@ -1,6 +1,6 @@
 import { supabase } from './supabaseClient';
 
-function getWorkerUrl(): string {
+export function getWorkerUrl(): string {
   return import.meta.env.VITE_WORKER_URL || 'https://readyroom-storage.ajmilner85.workers.dev';
 }
 
@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import { expandRecurrence, formatOccurrenceTitle, planSeriesEdit, planSeriesSync, titleToTemplate } from './recurrenceUtils';
+import type { Event, RecurrenceEditScope, RecurrenceRule } from '../types/EventTypes';
+
+const rule = (overrides: Partial<RecurrenceRule> = {}): RecurrenceRule => ({
+  frequency: 'weekly',
+  interval: 1,
+  weekdays: [3],
+  startTime: '20:00',
+  timezone: 'UTC',
+  durationMinutes: 120,
+  titleTemplate: 'Week {n} ({date})',
+  exceptions: [],
+  ...overrides
+});
+
+const NOW = new Date('2026-11-01T00:00:00Z');
+const CYCLE = ['2026-11-01', '2026-11-30'] as const;
+
+// Events as a previous sync of the rule would have created them
+const seriesEvents = (created: RecurrenceRule): Event[] =>
+  expandRecurrence(created, ...CYCLE).map((occurrence): Event => ({
+    id: `event-${occurrence.key}`,
+    title: formatOccurrenceTitle(created.titleTemplate, occurrence),
+    description: null,
+    datetime: occurrence.start,
+    endDatetime: occurrence.end,
+    status: 'upcoming',
+    cycleId: 'cycle',
+    eventSettings: { recurrenceDate: occurrence.key, recurrenceTitle: formatOccurrenceTitle(created.titleTemplate, occurrence) },
+    creator: { boardNumber: '', callsign: '', billet: '' },
+    attendance: { accepted: [], declined: [], tentative: [] }
+  }));
+
+const sync = (events: Event[], current: RecurrenceRule) =>
+  planSeriesSync(expandRecurrence(current, ...CYCLE), events, occurrence => formatOccurrenceTitle(current.titleTemplate, occurrence), NOW);
+
+describe('planSeriesSync', () => {
+  it('leaves a series that matches its rule alone', () => {
+    const plan = sync(seriesEvents(rule()), rule());
+    expect(plan).toEqual({ toCreate: [], toUpdate: [], toRemove: [] });
+  });
+
+  it('moves every upcoming event when the start time or duration changes', () => {
+    const plan = sync(seriesEvents(rule()), rule({ startTime: '19:30', durationMinutes: 90 }));
+
+    expect(plan.toUpdate.map(u => u.changes)).toEqual([
+      { datetime: '2026-11-04T19:30:00.000Z', endDatetime: '2026-11-04T21:00:00.000Z' },
+      { datetime: '2026-11-11T19:30:00.000Z', endDatetime: '2026-11-11T21:00:00.000Z' },
+      { datetime: '2026-11-18T19:30:00.000Z', endDatetime: '2026-11-18T21:00:00.000Z' },
+      { datetime: '2026-11-25T19:30:00.000Z', endDatetime: '2026-11-25T21:00:00.000Z' }
+    ]);
+  });
+
+  it('removes the event of a skipped date without renumbering the rest', () => {
+    const plan = sync(seriesEvents(rule()), rule({ exceptions: [{ date: '2026-11-11', action: 'skip' }] }));
+
+    expect(plan.toRemove.map(e => e.id)).toEqual(['event-2026-11-11']);
+    expect(plan.toUpdate).toEqual([]);
+  });
+
+  it('retitles every upcoming event when the title template changes', () => {
+    const plan = sync(seriesEvents(rule()), rule({ titleTemplate: 'Session {n}' }));
+    expect(plan.toUpdate.map(u => [u.event.id, u.changes.title])).toEqual([
+      ['event-2026-11-04', 'Session 1'],
+      ['event-2026-11-11', 'Session 2'],
+      ['event-2026-11-18', 'Session 3'],
+      ['event-2026-11-25', 'Session 4']
+    ]);
+  });
+
+  it('moves a rescheduled occurrence and creates the ones it is missing', () => {
+    const events = seriesEvents(rule()).filter(e => e.id !== 'event-2026-11-25');
+    const plan = sync(events, rule({ exceptions: [{ date: '2026-11-18', action: 'move', movedTo: '2026-11-19' }] }));
+
+    expect(plan.toCreate.map(o => o.key)).toEqual(['2026-11-25']);
+    expect(plan.toUpdate.map(u => [u.event.id, u.changes])).toEqual([
+      ['event-2026-11-18', { datetime: '2026-11-19T20:00:00.000Z', endDatetime: '2026-11-19T22:00:00.000Z', title: 'Week 3 (Nov 19)' }]
+    ]);
+  });
+
+  it('does not touch events that have already started', () => {
+    const plan = planSeriesSync(
+      expandRecurrence(rule({ startTime: '21:00' }), ...CYCLE),
+      seriesEvents(rule()),
+      occurrence => formatOccurrenceTitle('Week {n} ({date})', occurrence),
+      new Date('2026-11-12T00:00:00Z')
+    );
+
+    expect(plan.toUpdate.map(u => u.event.id)).toEqual(['event-2026-11-18', 'event-2026-11-25']);
+  });
+
+  it('leaves the timing of an event edited on its own', () => {
+    const events = seriesEvents(rule()).map(e => (e.id === 'event-2026-11-11'
+      ? { ...e, datetime: '2026-11-11T21:00:00.000Z', eventSettings: { ...e.eventSettings, recurrenceDetached: true } }
+      : e));
+    const plan = sync(events, rule({ durationMinutes: 90 }));
+
+    expect(plan.toUpdate.map(u => u.event.id)).not.toContain('event-2026-11-11');
+    expect(plan.toUpdate).toHaveLength(3);
+  });
+
+  it('only retitles events still carrying the title it gave them', () => {
+    const events = seriesEvents(rule()).map(e => (e.id === 'event-2026-11-11' ? { ...e, title: 'Joint op with VFA-103' } : e));
+    const plan = sync(events, rule({ titleTemplate: 'Session {n}' }));
+
+    expect(plan.toUpdate.map(u => u.event.id)).toEqual(['event-2026-11-04', 'event-2026-11-18', 'event-2026-11-25']);
+  });
+});
+
+describe('titleToTemplate', () => {
+  it('puts back only the placeholders the template uses', () => {
+    const [occurrence] = expandRecurrence(rule(), ...CYCLE);
+    expect(titleToTemplate('Sortie 1 (Nov 4)', occurrence, 'Week {n} ({date})')).toBe('Sortie {n} ({date})');
+    expect(titleToTemplate('Night 1 of 10', occurrence, 'Night {n}')).toBe('Night {n} of 10');
+    expect(titleToTemplate('Fleet night', occurrence, 'Week {n}')).toBe('Fleet night');
+  });
+});
+
+describe('planSeriesEdit', () => {
+  const current = rule();
+  const occurrences = expandRecurrence(current, ...CYCLE);
+  const events = seriesEvents(current);
+  const second = events[1];
+  const later = { title: second.title, datetime: '2026-11-11T21:00:00.000Z', endDatetime: '2026-11-11T23:00:00.000Z' };
+  const edit = (changes: Parameters<typeof planSeriesEdit>[1], scope: RecurrenceEditScope) =>
+    planSeriesEdit(second, changes, events, scope, 'UTC', current, occurrences);
+
+  it('detaches a single event whose time is edited, leaving the rule alone', () => {
+    const plan = edit(later, 'this');
+    expect(plan).toEqual({ edited: { recurrenceDetached: true }, others: [] });
+  });
+
+  it('gives the following events their own timing without changing the rule', () => {
+    const plan = edit(later, 'following');
+
+    expect(plan.rule).toBeUndefined();
+    expect(plan.edited).toEqual({ recurrenceDetached: true });
+    expect(plan.others.map(o => [o.event.id, o.changes, o.settings])).toEqual([
+      ['event-2026-11-18', { datetime: '2026-11-18T21:00:00.000Z', endDatetime: '2026-11-18T23:00:00.000Z' }, { recurrenceDetached: true }],
+      ['event-2026-11-25', { datetime: '2026-11-25T21:00:00.000Z', endDatetime: '2026-11-25T23:00:00.000Z' }, { recurrenceDetached: true }]
+    ]);
+  });
+
+  it('changes the rule when every event is retimed', () => {
+    const plan = edit(later, 'all');
+
+    expect(plan.rule).toEqual({ ...current, startTime: '21:00' });
+    expect(plan.edited).toEqual({});
+    expect(plan.others.map(o => o.settings)).toEqual([{}, {}, {}]);
+  });
+
+  it('renames each event with its own number and date', () => {
+    const plan = edit({ ...later, datetime: second.datetime, endDatetime: second.endDatetime, title: 'Session 2 (Nov 11)' }, 'all');
+
+    expect(plan.rule).toEqual({ ...current, titleTemplate: 'Session {n} ({date})' });
+    expect(plan.edited).toEqual({ recurrenceTitle: 'Session 2 (Nov 11)' });
+    expect(plan.others.map(o => [o.changes.title, o.settings.recurrenceTitle])).toEqual([
+      ['Session 1 (Nov 4)', 'Session 1 (Nov 4)'],
+      ['Session 3 (Nov 18)', 'Session 3 (Nov 18)'],
+      ['Session 4 (Nov 25)', 'Session 4 (Nov 25)']
+    ]);
+  });
+
+  it('keeps each event\'s syllabus mission out of the new template', () => {
+    const withMission = (event: Event, mission: string): Event =>
+      ({ ...event, title: `${event.title} - ${mission}`, eventSettings: { ...event.eventSettings, recurrenceTitle: `${event.title} - ${mission}` } });
+    const [first, edited] = [withMission(events[0], 'FAM 1'), withMission(second, 'BFM 1')];
+    const plan = planSeriesEdit(
+      edited,
+      { title: 'Session 2 (Nov 11) - BFM 1', datetime: edited.datetime, endDatetime: edited.endDatetime },
+      [first, edited],
+      'all',
+      'UTC',
+      current,
+      occurrences
+    );
+
+    expect(plan.rule?.titleTemplate).toBe('Session {n} ({date})');
+    expect(plan.others.map(o => o.changes.title)).toEqual(['Session 1 (Nov 4) - FAM 1']);
+  });
+
+  it('keeps a renamed following event out of the sync\'s retitling', () => {
+    const plan = edit({ ...later, datetime: second.datetime, endDatetime: second.endDatetime, title: 'Session 2 (Nov 11)' }, 'following');
+
+    expect(plan.rule).toBeUndefined();
+    expect(plan.others.map(o => [o.changes.title, o.settings])).toEqual([
+      ['Session 3 (Nov 18)', {}],
+      ['Session 4 (Nov 25)', {}]
+    ]);
+  });
+});
@@ -0,0 +1,295 @@
+import type { Event, RecurrenceRule, RecurrenceEditScope } from '../types/EventTypes';
+import type { EventSettings } from './supabaseClient';
+
+export interface RecurrenceOccurrence {
+  key: string; // Series date (YYYY-MM-DD); stays the same when the occurrence is moved
+  date: string; // Date the event actually falls on
+  number: number; // 1-based position in the series
+  start: string; // ISO UTC
+  end: string;
+  moved: boolean;
+}
+
+// Fields of an existing series event that no longer match its occurrence
+export interface SeriesEventChanges {
+  datetime?: string;
+  endDatetime?: string;
+  title?: string;
+}
+
+export interface SeriesSyncPlan {
+  toCreate: RecurrenceOccurrence[];
+  toUpdate: Array<{ event: Event; occurrence: RecurrenceOccurrence; changes: SeriesEventChanges }>;
+  toRemove: Event[];
+}
+
+// What an edit to one event of a series does to the others in its scope
+export interface SeriesEditPlan {
+  edited: Partial<EventSettings>; // Series settings to save on the edited event itself
+  others: Array<{ event: Event; changes: SeriesEventChanges; settings: Partial<EventSettings> }>;
+  rule?: RecurrenceRule; // The cycle's rule as changed by an 'all' edit
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Guards against runaway rules (e.g. a count typo) creating hundreds of events
+export const MAX_OCCURRENCES = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date-only arithmetic is done in UTC so DST never shifts a day
+const dateToDays = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+};
+
+const daysToDate = (days: number): string => new Date(days * DAY_MS).toISOString().slice(0, 10);
+
+/** Zero-based week of the cycle a date falls in, counted in 7-day blocks from the start date */
+export const cycleWeekNumber = (date: string, cycleStartDate: string): number =>
+  Math.floor((dateToDays(date) - dateToDays(cycleStartDate.slice(0, 10))) / 7);
+
+/** Date (YYYY-MM-DD) and time (HH:mm) of a UTC instant on the wall clock of a timezone */
+export const utcToZoned = (iso: string, timeZone: string): { date: string; time: string } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(new Date(iso));
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '00';
+  return { date: `${part('year')}-${part('month')}-${part('day')}`, time: `${part('hour')}:${part('minute')}` };
+};
+
+/** UTC instant of a wall-clock date and time in a timezone */
+export const zonedToUtc = (date: string, time: string, timeZone: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = dateToDays(date) * DAY_MS + (hours * 60 + minutes) * 60000;
+
+  // Guess the offset at the wall-clock time, then correct once in case the guess crossed a DST change
+  const offsetAt = (instant: number) => {
+    const zoned = utcToZoned(new Date(instant).toISOString(), timeZone);
+    const [h, m] = zoned.time.split(':').map(Number);
+    return dateToDays(zoned.date) * DAY_MS + (h * 60 + m) * 60000 - instant;
+  };
+  let utc = wallClock - offsetAt(wallClock);
+  const corrected = wallClock - offsetAt(utc);
+  if (corrected !== utc) utc = corrected;
+  return new Date(utc);
+};
+
+/**
+ * Expand a rule into its occurrences within a cycle. Weeks are counted from
+ * the week (Sunday to Saturday) the cycle starts in, so a biweekly rule runs
+ * in the cycle's first week and every other week after that.
+ */
+export const expandRecurrence = (rule: RecurrenceRule, cycleStartDate: string, cycleEndDate: string): RecurrenceOccurrence[] => {
+  const first = dateToDays(cycleStartDate.slice(0, 10));
+  const cycleEnd = dateToDays(cycleEndDate.slice(0, 10));
+  const last = rule.until ? Math.min(dateToDays(rule.until), cycleEnd) : cycleEnd;
+  const firstWeekStart = first - new Date(first * DAY_MS).getUTCDay();
+  const interval = Math.max(1, rule.interval || 1);
+  const limit = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+
+  const occurrences: RecurrenceOccurrence[] = [];
+  let number = 0;
+
+  for (let day = first; day <= last && number < limit; day++) {
+    const weekday = new Date(day * DAY_MS).getUTCDay();
+    const week = Math.floor((day - firstWeekStart) / 7);
+    if (!rule.weekdays.includes(weekday) || week % interval !== 0) continue;
+
+    // Skipped dates still count towards the rule's count, as with an RRULE EXDATE
+    number++;
+    const key = daysToDate(day);
+    const exception = rule.exceptions.find(e => e.date === key);
+    if (exception?.action === 'skip') continue;
+
+    const date = exception?.action === 'move' && exception.movedTo ? exception.movedTo : key;
+    const start = zonedToUtc(date, rule.startTime, rule.timezone);
+    occurrences.push({
+      key,
+      date,
+      number,
+      start: start.toISOString(),
+      end: new Date(start.getTime() + rule.durationMinutes * 60000).toISOString(),
+      moved: date !== key
+    });
+  }
+
+  return occurrences;
+};
+
+const occurrenceDateLabel = (occurrence: RecurrenceOccurrence): string => {
+  const [year, month, day] = occurrence.date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+};
+
+export const formatOccurrenceTitle = (template: string, occurrence: RecurrenceOccurrence): string =>
+  template.replace(/\{n\}/g, String(occurrence.number)).replace(/\{date\}/g, occurrenceDateLabel(occurrence));
+
+/**
+ * Turn an occurrence's title back into a template, putting the placeholders
+ * the current template uses back in place of the occurrence's number and date
+ */
+export const titleToTemplate = (title: string, occurrence: RecurrenceOccurrence, currentTemplate: string): string => {
+  let template = title;
+  if (currentTemplate.includes('{date}')) template = template.split(occurrenceDateLabel(occurrence)).join('{date}');
+  if (currentTemplate.includes('{n}')) template = template.replace(new RegExp(`(?<!\\d)${occurrence.number}(?!\\d)`, 'g'), '{n}');
+  return template;
+};
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const days = [...rule.weekdays].sort().map(d => WEEKDAY_LABELS[d]).join(', ');
+  const every = rule.interval > 1 ? `Every ${rule.interval} weeks` : 'Weekly';
+  const ends = rule.count ? `, ${rule.count} times` : rule.until ? `, until ${rule.until}` : '';
+  return `${every} on ${days || 'no days'} at ${rule.startTime}${ends}`;
+};
+
+/**
+ * Work out what it takes to bring a cycle's events in line with its rule.
+ * Every upcoming series event is checked against its occurrence, so changes
+ * to the rule's time, duration, moved dates or title template reach events
+ * already created. titleFor gives the title an existing event should have,
+ * letting the caller keep additions like a syllabus mission name. Events that
+ * have already started are left alone, as are the timing of events edited on
+ * their own and titles the sync didn't give.
+ */
+export const planSeriesSync = (
+  occurrences: RecurrenceOccurrence[],
+  events: Event[],
+  titleFor: (occurrence: RecurrenceOccurrence, event: Event) => string,
+  now: Date = new Date()
+): SeriesSyncPlan => {
+  const seriesEvents = new Map<string, Event>();
+  events.forEach(event => {
+    const key = event.eventSettings?.recurrenceDate;
+    if (key) seriesEvents.set(key, event);
+  });
+  const keys = new Set(occurrences.map(o => o.key));
+  const isFuture = (iso: string) => new Date(iso) > now;
+  const sameInstant = (a: string | null | undefined, b: string) => !!a && new Date(a).getTime() === new Date(b).getTime();
+
+  const plan: SeriesSyncPlan = { toCreate: [], toUpdate: [], toRemove: [] };
+
+  occurrences.forEach(occurrence => {
+    const event = seriesEvents.get(occurrence.key);
+    if (!event) {
+      if (isFuture(occurrence.start)) plan.toCreate.push(occurrence);
+      return;
+    }
+    if (!isFuture(event.datetime) || !isFuture(occurrence.start)) return;
+
+    const changes: SeriesEventChanges = {};
+    if (!event.eventSettings?.recurrenceDetached) {
+      if (!sameInstant(event.datetime, occurrence.start)) changes.datetime = occurrence.start;
+      if (!sameInstant(event.endDatetime, occurrence.end)) changes.endDatetime = occurrence.end;
+    }
+    const title = titleFor(occurrence, event);
+    if (event.title === event.eventSettings?.recurrenceTitle && event.title !== title) changes.title = title;
+
+    if (Object.keys(changes).length > 0) plan.toUpdate.push({ event, occurrence, changes });
+  });
+
+  seriesEvents.forEach((event, key) => {
+    if (!keys.has(key) && isFuture(event.datetime)) plan.toRemove.push(event);
+  });
+
+  return plan;
+};
+
+/** Other events of the edited event's series that an edit with this scope applies to */
+export const seriesEventsInScope = (edited: Event, events: Event[], scope: RecurrenceEditScope): Event[] => {
+  const key = edited.eventSettings?.recurrenceDate;
+  if (!key || scope === 'this') return [];
+  return events.filter(event => {
+    const otherKey = event.eventSettings?.recurrenceDate;
+    return event.id !== edited.id && event.cycleId === edited.cycleId && !!otherKey && (scope === 'all' || otherKey > key);
+  });
+};
+
+/**
+ * Work out what an edit to one event of a series means for the series.
+ * 'this' and 'following' edits give the events in scope their own timing and
+ * title, which the sync then leaves alone; only an 'all' edit changes the
+ * rule. A new title is turned back into a template so each event keeps its
+ * own number and date, and whatever the sync added after the template (a
+ * syllabus mission name) stays with its event.
+ */
+export const planSeriesEdit = (
+  edited: Event,
+  edit: { title: string; datetime: string; endDatetime?: string | null },
+  events: Event[],
+  scope: RecurrenceEditScope,
+  timeZone: string,
+  rule?: RecurrenceRule | null,
+  occurrences: RecurrenceOccurrence[] = []
+): SeriesEditPlan => {
+  const plan: SeriesEditPlan = { edited: {}, others: [] };
+  if (!edited.eventSettings?.recurrenceDate) return plan;
+
+  const occurrenceFor = (event: Event) => occurrences.find(o => o.key === event.eventSettings?.recurrenceDate);
+  const generatedSuffix = (event: Event, occurrence: RecurrenceOccurrence) => {
+    const generated = rule ? formatOccurrenceTitle(rule.titleTemplate, occurrence) : '';
+    const recorded = event.eventSettings?.recurrenceTitle;
+    return recorded && recorded.startsWith(generated) ? recorded.slice(generated.length) : '';
+  };
+
+  const newStart = new Date(edit.datetime).toISOString();
+  const newDurationMs = edit.endDatetime ? new Date(edit.endDatetime).getTime() - new Date(newStart).getTime() : null;
+  const oldDurationMs = edited.endDatetime ? new Date(edited.endDatetime).getTime() - new Date(edited.datetime).getTime() : null;
+  const newZoned = utcToZoned(newStart, timeZone);
+  const moved = new Date(edited.datetime).getTime() !== new Date(newStart).getTime() || newDurationMs !== oldDurationMs;
+  const retime = newDurationMs !== null && (newZoned.time !== utcToZoned(edited.datetime, timeZone).time || newDurationMs !== oldDurationMs);
+
+  const editedOccurrence = occurrenceFor(edited);
+  let template: string | null = null;
+  if (edit.title !== edited.title && rule && editedOccurrence) {
+    const suffix = generatedSuffix(edited, editedOccurrence);
+    const base = suffix && edit.title.endsWith(suffix) ? edit.title.slice(0, -suffix.length) : edit.title;
+    template = titleToTemplate(base, editedOccurrence, rule.titleTemplate);
+  }
+
+  // An 'all' edit leaves the event on the rule unless it also moved to another date
+  if (moved && !(scope === 'all' && newZoned.date === editedOccurrence?.date)) plan.edited.recurrenceDetached = true;
+  if (scope === 'all' && template !== null) plan.edited.recurrenceTitle = edit.title;
+
+  seriesEventsInScope(edited, events, scope).forEach(event => {
+    const occurrence = occurrenceFor(event);
+    const changes: SeriesEventChanges = retime ? retimeOccurrence(event, newZoned.time, newDurationMs as number, timeZone) : {};
+    if (edit.title !== edited.title) {
+      changes.title = template !== null && occurrence ? formatOccurrenceTitle(template, occurrence) + generatedSuffix(event, occurrence) : edit.title;
+    }
+
+    const settings: Partial<EventSettings> = {};
+    if (scope === 'all') {
+      if (template !== null && changes.title !== undefined) settings.recurrenceTitle = changes.title;
+    } else if (retime) {
+      settings.recurrenceDetached = true;
+    }
+    plan.others.push({ event, changes, settings });
+  });
+
+  if (scope === 'all' && rule && (retime || template !== null)) {
+    plan.rule = {
+      ...rule,
+      ...(retime ? { startTime: newZoned.time, durationMinutes: Math.round((newDurationMs as number) / 60000) } : {}),
+      ...(template !== null ? { titleTemplate: template } : {})
+    };
+  }
+
+  return plan;
+};
+
+/**
+ * Give an event the edited event's wall-clock start time and duration,
+ * keeping its own date
+ */
+export const retimeOccurrence = (event: Event, time: string, durationMs: number, timeZone: string): { datetime: string; endDatetime: string } => {
+  const { date } = utcToZoned(event.datetime, timeZone);
+  const start = zonedToUtc(date, time, timeZone);
+  return { datetime: start.toISOString(), endDatetime: new Date(start.getTime() + durationMs).toISOString() };
+};
@@ -128,61 +128,95 @@ export function extractRedCoalitionUnitTypes(missionData: any): string[] {
   return uniqueTypes;
 }
 
+// A red coalition group as a mission objective target
+export interface RedCoalitionGroup {
+  name: string;
+  category: 'plane' | 'helicopter' | 'vehicle' | 'ship' | 'static';
+  unitCounts: Record<string, number>; // Unit type → units of that type in the group
+}
+
+const RED_GROUP_CATEGORIES: RedCoalitionGroup['category'][] = ['plane', 'helicopter', 'vehicle', 'ship', 'static'];
+
+// Lua arrays come out of the .miz parser as either arrays or index-keyed tables
+type MizList<T> = T[] | Record<string, T>;
+
+interface MizGroup {
+  name?: string;
+  units?: Array<{ type?: string }>;
+}
+
+type MizCountry = { name?: string } & Partial<Record<RedCoalitionGroup['category'], { group?: MizList<MizGroup> }>>;
+
+// The parts of the parsed .miz mission table read here
+export interface MizCoalitionData {
+  coalition?: { red?: { country?: MizList<MizCountry> } };
+}
+
+const mizListValues = <T>(list: MizList<T>): T[] => (Array.isArray(list) ? list : Object.values(list));
+
 /**
- * Extract detailed red coalition unit information including counts
- * Useful for debugging or advanced features
+ * Extract every red coalition group with the unit types it is made of, so the
+ * planner can pick target groups for mission objectives
  *
  * @param missionData Parsed mission data JSON from .miz file
- * @returns Object mapping unit types to their occurrence count
+ * @returns Groups in mission order; unnamed groups get a generated name
  */
-export function extractRedCoalitionUnitCounts(missionData: any): Record<string, number> {
-  console.log('🔍 Extracting red coalition unit counts from mission data');
-
+export function extractRedCoalitionGroups(missionData: MizCoalitionData | null | undefined): RedCoalitionGroup[] {
   if (!missionData?.coalition?.red?.country) {
-    console.warn('⚠️ No red coalition country data found in mission');
-    return {};
+    return [];
   }
 
-  const unitCounts: Record<string, number> = {};
+  const groups: RedCoalitionGroup[] = [];
 
-  const countries = Array.isArray(missionData.coalition.red.country)
-    ? missionData.coalition.red.country
-    : Object.values(missionData.coalition.red.country);
+  mizListValues(missionData.coalition.red.country).forEach(country => {
+    RED_GROUP_CATEGORIES.forEach(category => {
+      const categoryGroups = country[category]?.group;
+      if (!categoryGroups) return;
 
-  countries.forEach((country: any) => {
-    const processUnits = (groups: any[]) => {
-      groups.forEach((group: any) => {
+      mizListValues(categoryGroups).forEach(group => {
+        const unitCounts: Record<string, number> = {};
         if (group.units && Array.isArray(group.units)) {
-          group.units.forEach((unit: any) => {
+          group.units.forEach(unit => {
             if (unit.type) {
               unitCounts[unit.type] = (unitCounts[unit.type] || 0) + 1;
             }
           });
         }
+        if (Object.keys(unitCounts).length === 0) return;
+
+        groups.push({
+          name: group.name || `${country.name || 'Red'} ${category} ${groups.length + 1}`,
+          category,
+          unitCounts
+        });
       });
-    };
+    });
+  });
 
-    // Process all unit categories
-    if (country.plane?.group) {
-      const groups = Array.isArray(country.plane.group) ? country.plane.group : Object.values(country.plane.group);
-      processUnits(groups);
-    }
-    if (country.helicopter?.group) {
-      const groups = Array.isArray(country.helicopter.group) ? country.helicopter.group : Object.values(country.helicopter.group);
-      processUnits(groups);
-    }
-    if (country.vehicle?.group) {
-      const groups = Array.isArray(country.vehicle.group) ? country.vehicle.group : Object.values(country.vehicle.group);
-      processUnits(groups);
-    }
-    if (country.ship?.group) {
-      const groups = Array.isArray(country.ship.group) ? country.ship.group : Object.values(country.ship.group);
-      processUnits(groups);
-    }
-    if (country.static?.group) {
-      const groups = Array.isArray(country.static.group) ? country.static.group : Object.values(country.static.group);
-      processUnits(groups);
-    }
+  return groups;
+}
+
+/**
+ * Extract detailed red coalition unit information including counts
+ * Useful for debugging or advanced features
+ *
+ * @param missionData Parsed mission data JSON from .miz file
+ * @returns Object mapping unit types to their occurrence count
+ */
+export function extractRedCoalitionUnitCounts(missionData: MizCoalitionData | null | undefined): Record<string, number> {
+  console.log('🔍 Extracting red coalition unit counts from mission data');
+
+  if (!missionData?.coalition?.red?.country) {
+    console.warn('⚠️ No red coalition country data found in mission');
+    return {};
+  }
+
+  const unitCounts: Record<string, number> = {};
+
+  extractRedCoalitionGroups(missionData).forEach(group => {
+    Object.entries(group.unitCounts).forEach(([type, count]) => {
+      unitCounts[type] = (unitCounts[type] || 0) + count;
+    });
   });
 
   console.log('📊 Unit counts:', unitCounts);
@@ -1,4 +1,5 @@
 import { supabase } from './supabaseClient';
+import { getPlannedAbsences } from './availabilityService';
 import type { Database } from '../types/supabase';
 
 type Event = Database['public']['Tables']['events']['Row'];
@@ -371,7 +372,8 @@ export async function getEventWithAttendanceForReminder(eventId: string): Promis
 
 /**
  * Get users who haven't responded to an event (no response)
- * Only includes active pilots from participating squadrons
+ * Only includes active pilots from participating squadrons who haven't
+ * planned to be away for the event
  */
 async function getNoResponseUsers(
   _eventId: string,
@@ -447,6 +449,10 @@ async function getNoResponseUsers(
     // Create set of active pilot IDs
     const activePilotIds = new Set((activeStatuses || []).map((s: any) => s.pilot_id));
 
+    // Pilots on leave or unavailable that weekday count as declined, so don't chase them
+    const eventSettings = (eventData.event_settings as { timezone?: string } | null) || {};
+    const { absences } = await getPlannedAbsences(pilotIds, eventData.start_datetime, eventSettings.timezone);
+
     // Get existing responders (all response types)
     const existingResponders = new Set([
       ...existingAttendance.accepted.map(r => r.discord_id),
@@ -459,6 +465,7 @@ async function getNoResponseUsers(
       .filter((p: any) =>
         p.discord_id &&
         activePilotIds.has(p.id) &&
+        !absences[p.id] &&
         !existingResponders.has(p.discord_id)
       )
       .map((p: any) => ({
@@ -0,0 +1,209 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('./supabaseClient', () => ({ supabase: {} }));
+
+import { parseRosterCsv, parseRosterJson, planRosterImport } from './rosterImportService';
+import type { RosterImportContext, RosterImportRow } from './rosterImportService';
+import type { Pilot } from './pilotTypes';
+import type { Qualification } from './qualificationService';
+
+describe('parseRosterJson', () => {
+  it('reads pilots with qualification names and dated qualifications', () => {
+    const { rows, errors, warnings } = parseRosterJson(JSON.stringify({
+      pilots: [
+        {
+          board_number: 101,
+          callsign: 'Maverick',
+          discord_id: '123456789012345678',
+          roles: ['Pilot', 'Flight Lead'],
+          qualifications: ['Section Lead', { name: 'Flight Lead', achievedDate: '2024-05-01' }, { name: 'CQ', achieved_date: 'May' }]
+        }
+      ]
+    }));
+
+    expect(errors).toEqual([]);
+    expect(rows[0]).toMatchObject({
+      line: 1,
+      boardNumber: 101,
+      callsign: 'Maverick',
+      discordId: '123456789012345678',
+      role: 'Pilot',
+      qualifications: [{ name: 'Section Lead' }, { name: 'Flight Lead', achievedDate: '2024-05-01' }, { name: 'CQ', achievedDate: undefined }]
+    });
+    expect(warnings).toEqual([
+      'Row 1: "May" is not a YYYY-MM-DD date; CQ will be dated today',
+      'Row 1: pilots have one role; only "Pilot" will be used'
+    ]);
+  });
+
+  it('rejects a Discord ID written as a number', () => {
+    // 123456789012345678 parses to 123456789012345680
+    const { rows, errors } = parseRosterJson('[{ "boardNumber": 101, "callsign": "Maverick", "discordId": 123456789012345678 }]');
+
+    expect(rows).toEqual([]);
+    expect(errors).toEqual(['Row 1: the Discord ID must be in quotes; as a number it loses its last digits']);
+  });
+
+  it('reports entries that are not pilots and files that are not rosters', () => {
+    expect(parseRosterJson('[null, ["101", "Maverick"]]').errors).toEqual([
+      'Row 1: not a pilot object',
+      'Row 2: not a pilot object'
+    ]);
+    expect(parseRosterJson('{"squadron": "VFA-26"}').errors).toEqual(['Expected a list of pilots, or an object with a "pilots" list']);
+    expect(parseRosterJson('board_number,callsign').errors).toEqual(['The file is not valid JSON']);
+  });
+});
+
+describe('parseRosterCsv', () => {
+  it('keeps long Discord IDs as text', () => {
+    const { rows, errors } = parseRosterCsv('board_number,callsign,discord_id\n101,Maverick,123456789012345678\n');
+
+    expect(errors).toEqual([]);
+    expect(rows.map(r => [r.line, r.boardNumber, r.discordId])).toEqual([[2, 101, '123456789012345678']]);
+  });
+});
+
+const ACTIVE = { id: 'st-active', name: 'Active', isActive: true, order: 1 };
+const RETIRED = { id: 'st-retired', name: 'Retired', isActive: false, order: 9 };
+const GOOD = { id: 'sd-good', name: 'Good', order: 1 };
+
+const pilot = (id: string, callsign: string, boardNumber: number, overrides: Partial<Pilot> = {}): Pilot => ({
+  id,
+  callsign,
+  boardNumber,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: null,
+  discord_id: null,
+  discord_roles: null,
+  discord_username: null,
+  currentStatus: ACTIVE,
+  currentStanding: GOOD,
+  ...overrides
+});
+
+const qualification = (id: string, name: string, code: string): Qualification => ({
+  id,
+  name,
+  code,
+  requirements: {},
+  category: null,
+  is_expirable: false,
+  validity_period: null,
+  active: true
+});
+
+const row = (line: number, boardNumber: number, callsign: string, overrides: Partial<RosterImportRow> = {}): RosterImportRow => ({
+  line,
+  boardNumber,
+  callsign,
+  qualifications: [],
+  ...overrides
+});
+
+const context = (pilots: Pilot[]): RosterImportContext => ({
+  pilots,
+  squadrons: [],
+  statuses: [ACTIVE, RETIRED],
+  standings: [GOOD],
+  roles: [],
+  qualifications: [qualification('q-fl', 'Flight Lead', 'FL'), qualification('q-cq', 'Carrier Qualified', 'CQ')],
+  pilotQualifications: { 'p-ace': [{ qualification_id: 'q-fl' }] }
+});
+
+describe('planRosterImport', () => {
+  const ace = pilot('p-ace', 'Ace', 101, { discord_id: 'd-ace' });
+  const bolt = pilot('p-bolt', 'Bolt', 102);
+  const old = pilot('p-old', 'Old', 103, { currentStatus: RETIRED });
+  const ctx = context([ace, bolt, old]);
+
+  it('matches by Discord ID before board number', () => {
+    const { entries } = planRosterImport([row(2, 111, 'Ace', { discordId: 'd-ace' })], ctx);
+
+    expect(entries[0].action).toBe('update');
+    expect(entries[0].pilot?.id).toBe('p-ace');
+    expect(entries[0].pilotUpdates).toEqual({ boardNumber: 111 });
+    expect(entries[0].changes).toEqual([{ field: 'Board number', from: '101', to: '111' }]);
+  });
+
+  it('matches by board number when the row has no Discord ID', () => {
+    const { entries } = planRosterImport([row(2, 102, 'Bolter')], ctx);
+
+    expect(entries[0].action).toBe('update');
+    expect(entries[0].pilot?.id).toBe('p-bolt');
+    expect(entries[0].pilotUpdates).toEqual({ callsign: 'Bolter' });
+  });
+
+  it('reports a Discord ID and board number that belong to different pilots', () => {
+    const { entries } = planRosterImport([row(2, 102, 'Ace', { discordId: 'd-ace' })], ctx);
+
+    expect(entries[0].action).toBe('conflict');
+    expect(entries[0].conflicts).toEqual(['Discord ID belongs to Ace (101) but board number 102 belongs to Bolt']);
+    expect(entries[0].pilotUpdates).not.toHaveProperty('boardNumber');
+  });
+
+  it('reports a pilot already linked to another Discord account', () => {
+    const linked = context([pilot('p-bolt', 'Bolt', 102, { discord_id: 'd-bolt' })]);
+    const { entries } = planRosterImport([row(2, 102, 'Bolt', { discordId: 'd-other' })], linked);
+
+    expect(entries[0].conflicts).toEqual(['Bolt is already linked to a different Discord account']);
+  });
+
+  it('frees the board number of a retired pilot', () => {
+    const { entries: [created] } = planRosterImport([row(2, 103, 'Newbie', { status: 'active', standing: 'Good' })], ctx);
+    expect(created.action).toBe('create');
+    expect(created.pilot).toBeNull();
+    expect(created.statusId).toBe('st-active');
+    expect(created.standingId).toBe('sd-good');
+
+    const { entries: [moved] } = planRosterImport([row(2, 103, 'Ace', { discordId: 'd-ace' })], ctx);
+    expect(moved.action).toBe('update');
+    expect(moved.pilotUpdates).toEqual({ boardNumber: 103 });
+  });
+
+  it('reports board numbers and Discord IDs repeated in the file', () => {
+    const { entries } = planRosterImport([
+      row(2, 105, 'One', { discordId: 'd-new', status: 'Active', standing: 'Good' }),
+      row(3, 105, 'Two', { status: 'Active', standing: 'Good' }),
+      row(4, 106, 'Three', { discordId: 'd-new', status: 'Active', standing: 'Good' })
+    ], ctx);
+
+    expect(entries.map(e => e.action)).toEqual(['create', 'conflict', 'conflict']);
+    expect(entries[1].conflicts).toEqual(['Board number 105 is also on row 2']);
+    expect(entries[2].conflicts).toEqual(['Discord ID d-new is also on row 2']);
+  });
+
+  it('reports unknown names and new pilots missing a status or standing', () => {
+    const { entries } = planRosterImport([
+      row(2, 107, 'Nugget', { status: 'Reserve', standing: 'Bogus', qualifications: [{ name: 'Tanker' }] })
+    ], ctx);
+
+    expect(entries[0].action).toBe('conflict');
+    expect(entries[0].conflicts).toEqual([
+      'Unknown status "Reserve"',
+      'Unknown standing "Bogus"',
+      'Unknown qualification "Tanker"',
+      'New pilots need a status',
+      'New pilots need a standing'
+    ]);
+  });
+
+  it('adds only the qualifications a pilot does not hold, matched by name or code', () => {
+    const { entries } = planRosterImport([
+      row(2, 101, 'Ace', { discordId: 'd-ace', qualifications: [{ name: 'FL' }, { name: 'cq', achievedDate: '2026-05-01' }] })
+    ], ctx);
+
+    expect(entries[0].qualificationsToAdd).toEqual([{ qualificationId: 'q-cq', name: 'Carrier Qualified', achievedDate: '2026-05-01' }]);
+    expect(entries[0].changes).toEqual([{ field: 'Qualification', from: '—', to: 'Carrier Qualified (2026-05-01)' }]);
+  });
+
+  it('counts each action', () => {
+    const plan = planRosterImport([
+      row(2, 101, 'Ace', { discordId: 'd-ace' }),
+      row(3, 102, 'Bolter'),
+      row(4, 108, 'Rookie', { status: 'Active', standing: 'Good' }),
+      row(5, 109, 'Nobody')
+    ], ctx);
+
+    expect(plan).toMatchObject({ creates: 1, updates: 1, unchanged: 1, conflicts: 1 });
+  });
+});
@@ -0,0 +1,520 @@
+import * as XLSX from 'xlsx';
+import type { Pilot, UpdatePilot } from './pilotTypes';
+import type { Squadron } from './squadronService';
+import type { Status } from './statusService';
+import type { Standing } from './standingService';
+import type { Role } from './roleService';
+import type { Qualification } from './qualificationService';
+import { createPilotWithStatusAndStanding, updatePilot, updatePilotRole } from './pilotService';
+import { assignPilotStatus, assignPilotStanding } from './pilotStatusStandingService';
+import { assignPilotToSquadron } from './squadronService';
+import { assignQualificationToPilot } from './qualificationService';
+import { dateInputToLocalDate } from './dateUtils';
+
+/**
+ * Bulk roster import. Squadrons, statuses, standings, roles and
+ * qualifications are given by name (squadrons also by designation, and
+ * qualifications by code) so a file can be put together in a spreadsheet.
+ * Imports only add or change; nothing missing from the file is removed.
+ */
+
+export const ROSTER_CSV_HEADERS = [
+  'board_number',
+  'callsign',
+  'discord_id',
+  'discord_username',
+  'squadron',
+  'status',
+  'standing',
+  'role',
+  'qualifications'
+];
+
+export interface RosterImportQualification {
+  name: string;
+  achievedDate?: string; // YYYY-MM-DD
+}
+
+export interface RosterImportRow {
+  line: number; // CSV row or JSON entry, for messages
+  boardNumber: number;
+  callsign: string;
+  discordId?: string;
+  discordUsername?: string;
+  squadron?: string;
+  status?: string;
+  standing?: string;
+  role?: string;
+  qualifications: RosterImportQualification[];
+}
+
+export interface ParsedRosterFile {
+  rows: RosterImportRow[];
+  source: 'json' | 'csv';
+  errors: string[];
+  warnings: string[];
+}
+
+// A qualification a pilot already holds, as returned by getBatchPilotQualifications
+export interface HeldQualification {
+  qualification_id?: string | null;
+  qualification?: { id: string } | null;
+}
+
+export interface RosterImportContext {
+  pilots: Pilot[];
+  squadrons: Squadron[];
+  statuses: Status[];
+  standings: Standing[];
+  roles: Role[];
+  qualifications: Qualification[];
+  pilotQualifications: Record<string, HeldQualification[]>;
+}
+
+export type RosterImportAction = 'create' | 'update' | 'unchanged' | 'conflict';
+
+export interface RosterFieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+export interface RosterImportEntry {
+  row: RosterImportRow;
+  action: RosterImportAction;
+  pilot: Pilot | null; // Existing pilot the row matched
+  changes: RosterFieldChange[];
+  conflicts: string[];
+  pilotUpdates: UpdatePilot;
+  squadronId?: string;
+  statusId?: string;
+  standingId?: string;
+  roleId?: string;
+  qualificationsToAdd: Array<{ qualificationId: string; name: string; achievedDate?: string }>;
+}
+
+export interface RosterImportPlan {
+  entries: RosterImportEntry[];
+  creates: number;
+  updates: number;
+  unchanged: number;
+  conflicts: number;
+}
+
+export interface RosterImportResult {
+  created: number;
+  updated: number;
+  errors: string[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// "Flight Lead (2024-05-01); Section Lead"
+const parseQualificationList = (value: string, line: number, warnings: string[]): RosterImportQualification[] =>
+  value
+    .split(/[;|]/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const match = part.match(/^(.*?)\s*\(([^)]*)\)$/);
+      if (!match) return { name: part };
+      const achievedDate = match[2].trim();
+      if (!DATE_PATTERN.test(achievedDate)) {
+        warnings.push(`Row ${line}: "${achievedDate}" is not a YYYY-MM-DD date; ${match[1]} will be dated today`);
+        return { name: match[1] };
+      }
+      return { name: match[1], achievedDate };
+    });
+
+const toRow = (
+  line: number,
+  values: {
+    boardNumber: unknown;
+    callsign: unknown;
+    discordId?: unknown;
+    discordUsername?: unknown;
+    squadron?: unknown;
+    status?: unknown;
+    standing?: unknown;
+    role?: unknown;
+    qualifications: RosterImportQualification[];
+  },
+  errors: string[],
+  warnings: string[]
+): RosterImportRow | null => {
+  const text = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+
+  const boardNumber = Number(text(values.boardNumber));
+  if (!Number.isInteger(boardNumber) || boardNumber <= 0) {
+    errors.push(`Row ${line}: "${text(values.boardNumber)}" is not a board number`);
+    return null;
+  }
+  if (!text(values.callsign)) {
+    errors.push(`Row ${line}: callsign is missing`);
+    return null;
+  }
+
+  const discordId = text(values.discordId);
+  if (discordId && !/^\d{15,21}$/.test(discordId)) {
+    warnings.push(`Row ${line}: "${discordId}" doesn't look like a Discord ID (a long number, not a username)`);
+  }
+
+  // Pilots hold one role at a time in the roster
+  let role = text(values.role);
+  if (role.includes(';')) {
+    const [first] = role.split(';').map(r => r.trim());
+    warnings.push(`Row ${line}: pilots have one role; only "${first}" will be used`);
+    role = first;
+  }
+
+  return {
+    line,
+    boardNumber,
+    callsign: text(values.callsign),
+    discordId: discordId || undefined,
+    discordUsername: text(values.discordUsername) || undefined,
+    squadron: text(values.squadron) || undefined,
+    status: text(values.status) || undefined,
+    standing: text(values.standing) || undefined,
+    role: role || undefined,
+    qualifications: values.qualifications
+  };
+};
+
+export const parseRosterCsv = (text: string): ParsedRosterFile => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const sheets = XLSX.read(text.replace(/^\uFEFF/, ''), { type: 'string', raw: true }).Sheets;
+  const firstSheet = sheets[Object.keys(sheets)[0]];
+  const rows = firstSheet ? XLSX.utils.sheet_to_json<string[]>(firstSheet, { header: 1, raw: false, defval: '' }) : [];
+
+  const header = (rows[0] || []).map(cell => String(cell).trim().toLowerCase().replace(/\s+/g, '_'));
+  const column = (name: string) => header.indexOf(name);
+  const missing = ['board_number', 'callsign'].filter(name => column(name) < 0);
+  if (missing.length > 0) {
+    return { rows: [], source: 'csv', errors: [`Missing column${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}`], warnings };
+  }
+
+  const parsedRows: RosterImportRow[] = [];
+  rows.slice(1).forEach((row, index) => {
+    if (row.every(value => !String(value).trim())) return;
+    const line = index + 2;
+    const cell = (name: string) => (column(name) >= 0 ? String(row[column(name)] ?? '').trim() : '');
+
+    const parsed = toRow(line, {
+      boardNumber: cell('board_number'),
+      callsign: cell('callsign'),
+      discordId: cell('discord_id'),
+      discordUsername: cell('discord_username'),
+      squadron: cell('squadron'),
+      status: cell('status'),
+      standing: cell('standing'),
+      role: cell('role') || cell('roles'),
+      qualifications: parseQualificationList(cell('qualifications'), line, warnings)
+    }, errors, warnings);
+    if (parsed) parsedRows.push(parsed);
+  });
+
+  return { rows: parsedRows, source: 'csv', errors, warnings };
+};
+
+type RawRosterPilot = Record<string, unknown>;
+
+/**
+ * Read a JSON roster: an array of pilots, or an object with a `pilots` array.
+ * Qualifications may be names or `{ name, achievedDate }` objects. Discord IDs
+ * must be strings: as JSON numbers they are too long to survive parsing.
+ */
+export const parseRosterJson = (text: string): ParsedRosterFile => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { rows: [], source: 'json', errors: ['The file is not valid JSON'], warnings };
+  }
+
+  const pilots: unknown = Array.isArray(data) ? data : (data as { pilots?: unknown } | null)?.pilots;
+  if (!Array.isArray(pilots)) {
+    return { rows: [], source: 'json', errors: ['Expected a list of pilots, or an object with a "pilots" list'], warnings };
+  }
+
+  const rows: RosterImportRow[] = [];
+  pilots.forEach((entry: unknown, index: number) => {
+    const line = index + 1;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      errors.push(`Row ${line}: not a pilot object`);
+      return;
+    }
+    const pilot = entry as RawRosterPilot;
+
+    const discordId = pilot.discordId ?? pilot.discord_id;
+    if (typeof discordId === 'number') {
+      errors.push(`Row ${line}: the Discord ID must be in quotes; as a number it loses its last digits`);
+      return;
+    }
+
+    const qualifications: RosterImportQualification[] = [];
+    (Array.isArray(pilot.qualifications) ? pilot.qualifications as unknown[] : []).forEach(item => {
+      if (typeof item === 'string') {
+        qualifications.push({ name: item.trim() });
+        return;
+      }
+      const qualification = item as { name?: unknown; achievedDate?: unknown; achieved_date?: unknown } | null;
+      if (qualification?.name) {
+        const achievedDate = String(qualification.achievedDate || qualification.achieved_date || '');
+        if (achievedDate && !DATE_PATTERN.test(achievedDate)) {
+          warnings.push(`Row ${line}: "${achievedDate}" is not a YYYY-MM-DD date; ${qualification.name} will be dated today`);
+        }
+        qualifications.push({
+          name: String(qualification.name).trim(),
+          achievedDate: achievedDate && DATE_PATTERN.test(achievedDate) ? achievedDate : undefined
+        });
+      }
+    });
+
+    const role = pilot.role ?? (Array.isArray(pilot.roles) ? pilot.roles.join(';') : pilot.roles);
+
+    const parsed = toRow(line, {
+      boardNumber: pilot.boardNumber ?? pilot.board_number,
+      callsign: pilot.callsign,
+      discordId,
+      discordUsername: pilot.discordUsername ?? pilot.discord_username,
+      squadron: pilot.squadron,
+      status: pilot.status,
+      standing: pilot.standing,
+      role,
+      qualifications
+    }, errors, warnings);
+    if (parsed) rows.push(parsed);
+  });
+
+  return { rows, source: 'json', errors, warnings };
+};
+
+export const rosterCsvTemplate = (): string =>
+  XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet([
+    ROSTER_CSV_HEADERS,
+    ['101', 'Maverick', '', '', 'VFA-26', 'Active', 'Good', 'Pilot', 'Section Lead (2024-05-01); Flight Lead']
+  ]));
+
+const sameName = (a: string | null | undefined, b: string) => !!a && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Retired and removed pilots give up their board numbers, matching createPilot
+const holdsBoardNumber = (pilot: Pilot) => !['Retired', 'Removed'].includes(pilot.currentStatus?.name || '');
+
+/**
+ * Work out what importing the rows would do, without changing anything. Rows
+ * are matched to existing pilots by Discord ID, then by board number; a row
+ * whose Discord ID and board number point at different pilots is a conflict,
+ * as is anything that can't be resolved by name.
+ */
+export const planRosterImport = (rows: RosterImportRow[], context: RosterImportContext): RosterImportPlan => {
+  const seenBoardNumbers = new Map<number, number>();
+  const seenDiscordIds = new Map<string, number>();
+
+  const entries = rows.map((row): RosterImportEntry => {
+    const conflicts: string[] = [];
+    const changes: RosterFieldChange[] = [];
+
+    const firstBoardLine = seenBoardNumbers.get(row.boardNumber);
+    if (firstBoardLine) conflicts.push(`Board number ${row.boardNumber} is also on row ${firstBoardLine}`);
+    else seenBoardNumbers.set(row.boardNumber, row.line);
+    if (row.discordId) {
+      const firstDiscordLine = seenDiscordIds.get(row.discordId);
+      if (firstDiscordLine) conflicts.push(`Discord ID ${row.discordId} is also on row ${firstDiscordLine}`);
+      else seenDiscordIds.set(row.discordId, row.line);
+    }
+
+    const byDiscord = row.discordId ? context.pilots.find(p => p.discord_id === row.discordId) : undefined;
+    const byBoard = context.pilots.find(p => p.boardNumber === row.boardNumber && holdsBoardNumber(p));
+    if (byDiscord && byBoard && byDiscord.id !== byBoard.id) {
+      conflicts.push(`Discord ID belongs to ${byDiscord.callsign} (${byDiscord.boardNumber}) but board number ${row.boardNumber} belongs to ${byBoard.callsign}`);
+    }
+    const pilot = byDiscord || byBoard || null;
+    if (pilot && !byDiscord && row.discordId && pilot.discord_id && pilot.discord_id !== row.discordId) {
+      conflicts.push(`${pilot.callsign} is already linked to a different Discord account`);
+    }
+
+    const resolve = <T extends { id: string; name: string }>(kind: string, value: string | undefined, options: T[], matches?: (option: T) => boolean) => {
+      if (!value) return undefined;
+      const found = options.find(option => sameName(option.name, value) || (matches ? matches(option) : false));
+      if (!found) conflicts.push(`Unknown ${kind} "${value}"`);
+      return found;
+    };
+
+    const squadron = resolve('squadron', row.squadron, context.squadrons, s => sameName(s.designation, row.squadron!));
+    const status = resolve('status', row.status, context.statuses);
+    const standing = resolve('standing', row.standing, context.standings);
+    const role = resolve('role', row.role, context.roles);
+    const qualifications = row.qualifications
+      .map(q => ({ q, found: resolve('qualification', q.name, context.qualifications, option => sameName(option.code, q.name)) }))
+      .filter((item): item is { q: RosterImportQualification; found: Qualification } => !!item.found);
+
+    const heldQualificationIds = new Set(
+      (pilot ? context.pilotQualifications[pilot.id] || [] : []).map(pq => pq.qualification_id || pq.qualification?.id)
+    );
+    const qualificationsToAdd = qualifications
+      .filter(({ found }) => !heldQualificationIds.has(found.id))
+      .map(({ q, found }) => ({ qualificationId: found.id, name: found.name, achievedDate: q.achievedDate }));
+
+    const pilotUpdates: UpdatePilot = {};
+    const entry: RosterImportEntry = {
+      row,
+      action: 'unchanged',
+      pilot,
+      changes,
+      conflicts,
+      pilotUpdates,
+      qualificationsToAdd
+    };
+
+    if (!pilot) {
+      if (!status) conflicts.push('New pilots need a status');
+      if (!standing) conflicts.push('New pilots need a standing');
+      entry.statusId = status?.id;
+      entry.standingId = standing?.id;
+      entry.squadronId = squadron?.id;
+      entry.roleId = role?.id;
+      entry.action = conflicts.length > 0 ? 'conflict' : 'create';
+      return entry;
+    }
+
+    const change = (field: string, from: string | null | undefined, to: string) => changes.push({ field, from: from || '—', to });
+
+    // A board number held by another pilot is already reported as a conflict
+    if (pilot.boardNumber !== row.boardNumber && !byBoard) {
+      pilotUpdates.boardNumber = row.boardNumber;
+      change('Board number', String(pilot.boardNumber), String(row.boardNumber));
+    }
+    if (pilot.callsign !== row.callsign) {
+      pilotUpdates.callsign = row.callsign;
+      change('Callsign', pilot.callsign, row.callsign);
+    }
+    if (row.discordId && !pilot.discord_id) {
+      pilotUpdates.discord_id = row.discordId;
+      change('Discord ID', null, row.discordId);
+    }
+    if (row.discordUsername && pilot.discord_username !== row.discordUsername) {
+      pilotUpdates.discord_username = row.discordUsername;
+      change('Discord username', pilot.discord_username, row.discordUsername);
+    }
+    if (squadron && pilot.currentSquadron?.id !== squadron.id) {
+      entry.squadronId = squadron.id;
+      change('Squadron', pilot.currentSquadron?.designation, squadron.designation);
+    }
+    if (status && pilot.currentStatus?.id !== status.id) {
+      entry.statusId = status.id;
+      change('Status', pilot.currentStatus?.name, status.name);
+    }
+    if (standing && pilot.currentStanding?.id !== standing.id) {
+      entry.standingId = standing.id;
+      change('Standing', pilot.currentStanding?.name, standing.name);
+    }
+    const currentRole = pilot.roles?.[0];
+    if (role && currentRole?.role_id !== role.id) {
+      entry.roleId = role.id;
+      change('Role', currentRole?.role?.name, role.name);
+    }
+    qualificationsToAdd.forEach(q => change('Qualification', null, q.achievedDate ? `${q.name} (${q.achievedDate})` : q.name));
+
+    entry.action = conflicts.length > 0 ? 'conflict' : changes.length > 0 ? 'update' : 'unchanged';
+    return entry;
+  });
+
+  return {
+    entries,
+    creates: entries.filter(e => e.action === 'create').length,
+    updates: entries.filter(e => e.action === 'update').length,
+    unchanged: entries.filter(e => e.action === 'unchanged').length,
+    conflicts: entries.filter(e => e.action === 'conflict').length
+  };
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : (error as { message?: string } | null)?.message || String(error));
+
+/**
+ * Apply the creates and updates of a plan, one pilot at a time. Conflicts are
+ * skipped. A failure on one pilot is reported and the import carries on.
+ */
+export const applyRosterImport = async (
+  plan: RosterImportPlan,
+  onProgress?: (done: number, total: number) => void
+): Promise<RosterImportResult> => {
+  const entries = plan.entries.filter(e => e.action === 'create' || e.action === 'update');
+  const result: RosterImportResult = { created: 0, updated: 0, errors: [] };
+
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+    const label = `${entry.row.boardNumber} ${entry.row.callsign}`;
+    const fail = (what: string, error: unknown) => result.errors.push(`${label}: ${what} failed (${errorMessage(error)})`);
+
+    try {
+      let pilotId: string;
+
+      if (entry.action === 'create') {
+        const { data, error } = await createPilotWithStatusAndStanding(
+          {
+            boardNumber: entry.row.boardNumber,
+            callsign: entry.row.callsign,
+            discord_id: entry.row.discordId,
+            discord_username: entry.row.discordUsername
+          },
+          entry.statusId!,
+          entry.standingId!
+        );
+        if (error || !data) {
+          fail('creating the pilot', error || 'no pilot returned');
+          continue;
+        }
+        pilotId = data.id;
+        result.created++;
+      } else {
+        pilotId = entry.pilot!.id;
+        if (Object.keys(entry.pilotUpdates).length > 0) {
+          const { error } = await updatePilot(pilotId, entry.pilotUpdates);
+          if (error) {
+            fail('updating pilot details', error);
+            continue;
+          }
+        }
+        if (entry.statusId) {
+          const { error } = await assignPilotStatus(pilotId, entry.statusId);
+          if (error) fail('setting the status', error);
+        }
+        if (entry.standingId) {
+          const { error } = await assignPilotStanding(pilotId, entry.standingId);
+          if (error) fail('setting the standing', error);
+        }
+        result.updated++;
+      }
+
+      if (entry.squadronId) {
+        const { success, error } = await assignPilotToSquadron(pilotId, entry.squadronId);
+        if (!success) fail('assigning the squadron', error);
+      }
+      if (entry.roleId) {
+        const { success, error } = await updatePilotRole(pilotId, entry.roleId);
+        if (!success) fail('setting the role', error);
+      }
+      for (const qualification of entry.qualificationsToAdd) {
+        const { error } = await assignQualificationToPilot(
+          pilotId,
+          qualification.qualificationId,
+          null,
+          qualification.achievedDate ? dateInputToLocalDate(qualification.achievedDate) : null
+        );
+        if (error) fail(`adding ${qualification.name}`, error);
+      }
+    } catch (error) {
+      fail('importing', error);
+    } finally {
+      onProgress?.(index + 1, entries.length);
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,117 @@
+/**
+ * DCS Server Event Log Parser
+ *
+ * Reads the JSON-lines event log written by the server's mission scripting
+ * hook (a world.addEventHandler that appends one line per event). Each line
+ * is a single JSON object; blank lines, comment lines starting with "//" and
+ * events other than the ones below are ignored, so the hook can log more
+ * than the debrief uses.
+ *
+ * Line format:
+ *
+ *   {
+ *     "t": 1234.5,                      // Mission time in seconds (timer.getTime())
+ *     "event": "S_EVENT_KILL",          // world.event name, see below
+ *     "initiator": {                    // Unit that caused the event
+ *       "unit_name": "Enfield 1-1",     // Unit:getName()
+ *       "type": "FA-18C_hornet",        // Unit:getTypeName()
+ *       "player": "507 | Jester",       // Unit:getPlayerName(), omitted for AI
+ *       "onboard_num": "507",           // Optional, from the mission's unit table
+ *       "coalition": "blue"             // "red" | "blue" | "neutral"
+ *     },
+ *     "target": { ... },                // Same shape; S_EVENT_KILL only
+ *     "weapon": "AIM_120C",             // Optional, Weapon:getTypeName()
+ *     "place": "CVN-73",                // Optional, S_EVENT_LAND airbase/ship name
+ *     "comment": "LSO: GRADE:OK ..."    // S_EVENT_LANDING_QUALITY_MARK only
+ *   }
+ *
+ * Events used:
+ *   S_EVENT_KILL                  initiator destroyed target (credited as a kill)
+ *   S_EVENT_EJECTION              initiator's pilot ejected
+ *   S_EVENT_LAND                  initiator landed
+ *   S_EVENT_CRASH                 initiator's aircraft crashed
+ *   S_EVENT_LANDING_QUALITY_MARK  carrier LSO grade for initiator's pass (see lsoGradeParser)
+ *
+ * Example:
+ *   {"t":3120.4,"event":"S_EVENT_KILL","initiator":{"unit_name":"Enfield 1-1","type":"FA-18C_hornet","player":"507 | Jester","coalition":"blue"},"target":{"unit_name":"Bandit 1","type":"MiG-29S","coalition":"red"},"weapon":"AIM_120C"}
+ *   {"t":4410.0,"event":"S_EVENT_LAND","initiator":{"unit_name":"Enfield 1-1","type":"FA-18C_hornet","player":"507 | Jester","coalition":"blue"},"place":"CVN-73"}
+ */
+
+export type ServerEventType =
+  | 'S_EVENT_KILL'
+  | 'S_EVENT_EJECTION'
+  | 'S_EVENT_LAND'
+  | 'S_EVENT_CRASH'
+  | 'S_EVENT_LANDING_QUALITY_MARK';
+
+export const SERVER_EVENT_TYPES: ServerEventType[] = [
+  'S_EVENT_KILL',
+  'S_EVENT_EJECTION',
+  'S_EVENT_LAND',
+  'S_EVENT_CRASH',
+  'S_EVENT_LANDING_QUALITY_MARK'
+];
+
+export interface ServerEventUnit {
+  unit_name?: string;
+  type?: string;
+  player?: string;
+  onboard_num?: string;
+  coalition?: string;
+}
+
+export interface ServerEvent {
+  line: number; // 1-based line number in the log
+  t: number;
+  event: ServerEventType;
+  initiator: ServerEventUnit;
+  target?: ServerEventUnit;
+  weapon?: string;
+  place?: string;
+  comment?: string;
+}
+
+// A log line as written by the hook, before validation
+type RawServerEvent = Omit<Partial<ServerEvent>, 'line' | 't' | 'event'> & { t?: number | string; event?: string };
+
+export interface ServerEventLog {
+  events: ServerEvent[];
+  invalidLines: number[]; // 1-based line numbers that weren't valid JSON
+}
+
+/**
+ * Parse a JSON-lines server event log. Events come back sorted by mission
+ * time, since hooks on busy servers don't always flush in order.
+ */
+export function parseServerEventLog(text: string): ServerEventLog {
+  const events: ServerEvent[] = [];
+  const invalidLines: number[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('//')) return;
+
+    let parsed: RawServerEvent | null;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      invalidLines.push(index + 1);
+      return;
+    }
+
+    if (!parsed || !SERVER_EVENT_TYPES.includes(parsed.event as ServerEventType) || !parsed.initiator) return;
+    events.push({
+      line: index + 1,
+      t: typeof parsed.t === 'number' ? parsed.t : parseFloat(parsed.t ?? '') || 0,
+      event: parsed.event as ServerEventType,
+      initiator: parsed.initiator,
+      target: parsed.target || undefined,
+      weapon: parsed.weapon || undefined,
+      place: parsed.place || undefined,
+      comment: parsed.comment || undefined
+    });
+  });
+
+  events.sort((a, b) => a.t - b.t);
+  return { events, invalidLines };
+}
@@ -1,6 +1,6 @@
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
-import { Database } from '../types/supabase';
-import { Cycle, CycleType, Event, EventType } from '../types/EventTypes';
+import { Database, Json } from '../types/supabase';
+import { Cycle, CycleType, Event, EventType, RecurrenceRule } from '../types/EventTypes';
 
 let client: SupabaseClient<Database> | null = null;
 
@@ -231,6 +231,7 @@ export const fetchCycles = async (discordGuildId?: string) => {
       participants: Array.isArray(dbCycle.participants) ? dbCycle.participants as string[] : [], // Get participants from database
       discordGuildId: dbCycle.discord_guild_id || undefined,
       syllabusId: dbCycle.syllabus_id || undefined,
+      recurrence: (dbCycle.recurrence as unknown as RecurrenceRule | null) || null,
       creator: {
         boardNumber: dbCycle.creator_board_number || '',
         callsign: dbCycle.creator_call_sign || '',
@@ -269,6 +270,9 @@ export const createCycle = async (cycle: Omit<Cycle, 'id' | 'creator'> & { disco
   if (cycle.syllabusId !== undefined) {
     insertData.syllabus_id = cycle.syllabusId || null;
   }
+  if (cycle.recurrence) {
+    insertData.recurrence = cycle.recurrence as unknown as Json;
+  }
 
   const { data, error } = await supabase
     .from('cycles')
@@ -292,6 +296,7 @@ export const createCycle = async (cycle: Omit<Cycle, 'id' | 'creator'> & { disco
     status: data.status as 'active' | 'completed' | 'upcoming',
     restrictedTo: data.restricted_to || [],
     syllabusId: data.syllabus_id || undefined,
+    recurrence: (data.recurrence as unknown as RecurrenceRule | null) || null,
     creator: {
       boardNumber: data.creator_board_number || '',
       callsign: data.creator_call_sign || '',
@@ -319,6 +324,9 @@ export const updateCycle = async (cycleId: string, updates: Partial<Omit<Cycle,
   if (updates.syllabusId !== undefined) {
     dbUpdates.syllabus_id = updates.syllabusId || null;
   }
+  if (updates.recurrence !== undefined) {
+    dbUpdates.recurrence = updates.recurrence as unknown as Json;
+  }
 
   // Debug: Check user permissions before update
   console.log('[DEBUG] Attempting to update cycle:', { cycleId, updates: dbUpdates });
@@ -372,6 +380,8 @@ export const updateCycle = async (cycleId: string, updates: Partial<Omit<Cycle,
     restrictedTo: data.restricted_to || [],
     participants: Array.isArray(data.participants) ? data.participants as string[] : [], // Get participants from database
     discordGuildId: data.discord_guild_id || undefined,
+    syllabusId: data.syllabus_id || undefined,
+    recurrence: (data.recurrence as unknown as RecurrenceRule | null) || null,
     creator: {
       boardNumber: data.creator_board_number || '',
       callsign: data.creator_call_sign || '',
@@ -496,7 +506,8 @@ export const fetchEvents = async (cycleId?: string) => {
   return { events, error: null };
 };
 
-export const createEvent = async (event: Omit<Event, 'id' | 'creator' | 'attendance'> & { 
+export const createEvent = async (event: Omit<Event, 'id' | 'creator' | 'attendance' | 'imageUrl'> & { 
+  imageUrl?: Json; // A legacy URL, or the { headerImage, additionalImages } object stored as-is
   discordGuildId?: string;
   timezone?: string;
   reminders?: {
@@ -591,7 +602,10 @@ export const createEvent = async (event: Omit<Event, 'id' | 'creator' | 'attenda
     sendRemindersToAccepted: event.reminderRecipients?.sendToAccepted !== undefined ? event.reminderRecipients.sendToAccepted : true,
     sendRemindersToTentative: event.reminderRecipients?.sendToTentative !== undefined ? event.reminderRecipients.sendToTentative : true,
     // Attendance report settings - default to true
-    includeInAttendanceReport: (event as any).includeInAttendanceReport !== undefined ? (event as any).includeInAttendanceReport : true
+    includeInAttendanceReport: event.includeInAttendanceReport !== undefined ? event.includeInAttendanceReport : true,
+    // Links events generated from a cycle's recurrence back to their series date
+    recurrenceDate: event.eventSettings?.recurrenceDate,
+    recurrenceTitle: event.eventSettings?.recurrenceTitle
   };
 
 
@@ -623,8 +637,8 @@ export const createEvent = async (event: Omit<Event, 'id' | 'creator' | 'attenda
   }
 
   // Image data - stored in image_url JSONB column
-  if ((event as any).imageUrl !== undefined) {
-    insertData.image_url = (event as any).imageUrl;
+  if (event.imageUrl !== undefined) {
+    insertData.image_url = event.imageUrl;
   }
 
   console.log('[CREATE-EVENT] User attempting insert:', {
@@ -1161,5 +1175,8 @@ export interface EventSettings {
   };
   sendReminderToThread?: boolean;
   initialNotificationRoles?: Array<{ id: string; name: string }>;
+  recurrenceDate?: string; // Series date (YYYY-MM-DD) of the cycle recurrence this event was generated for
+  recurrenceTitle?: string; // Title the series sync last gave the event; a title edited since is left alone
+  recurrenceDetached?: boolean; // Timing edited on this event alone, so the series sync no longer moves it
 }
 
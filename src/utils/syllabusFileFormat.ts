@@ -0,0 +1,387 @@
+import * as XLSX from 'xlsx';
+import type { ReferenceMaterial } from '../types/EventTypes';
+import type { VersionedObjective } from '../types/TrainingTypes';
+
+/**
+ * Portable syllabus file, for sharing a syllabus with another wing or keeping
+ * a backup. Missions are identified by mission number and objectives by a
+ * code made of the mission number and the objective's position ("3.2"), since
+ * database ids mean nothing outside this wing.
+ */
+
+export const SYLLABUS_FILE_FORMAT = 'readyroom-syllabus';
+export const SYLLABUS_FILE_VERSION = 1;
+
+export const OBJECTIVE_CATEGORIES = ['Individual', 'Element', 'Flight', 'Mission'];
+
+const CSV_HEADERS = ['mission_number', 'mission_name', 'code', 'category', 'description'];
+
+export type SyllabusFileObjective = Pick<VersionedObjective, 'code' | 'description' | 'category'>;
+
+export interface SyllabusFileMission {
+  missionNumber: number;
+  name: string;
+  description?: string;
+  weekNumber?: number;
+  referenceMaterials: ReferenceMaterial[];
+  objectives: SyllabusFileObjective[];
+}
+
+export interface SyllabusFile {
+  format: typeof SYLLABUS_FILE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  syllabus: {
+    name: string;
+    description?: string;
+    startsAtWeekZero: boolean;
+    missions: SyllabusFileMission[];
+  };
+}
+
+// The syllabus editor's mission and objective shapes
+export interface EditorSyllabusObjective {
+  id?: string;
+  scope_level: string;
+  objective_text: string;
+  display_order: number;
+}
+
+export interface EditorSyllabusMission {
+  id?: string;
+  mission_number: number | null;
+  mission_name: string;
+  description?: string;
+  week_number: number;
+  objectives: EditorSyllabusObjective[];
+  reference_materials?: ReferenceMaterial[];
+}
+
+export interface ParsedSyllabusFile {
+  file: SyllabusFile | null;
+  source: 'json' | 'csv';
+  errors: string[];
+  warnings: string[];
+}
+
+export interface SyllabusImportCollision {
+  code: string;
+  existing: string;
+  incoming: string;
+}
+
+export interface SyllabusImportPlan {
+  missionsToCreate: SyllabusFileMission[];
+  missionsToExtend: Array<{ missionNumber: number; name: string; objectives: SyllabusFileObjective[] }>;
+  objectivesToCreate: number;
+  unchanged: number; // Objectives already present with the same text
+  collisions: SyllabusImportCollision[];
+}
+
+export const objectiveCode = (missionNumber: number, index: number) => `${missionNumber}.${index + 1}`;
+
+/** Snapshot the syllabus as the editor holds it */
+export const buildSyllabusFile = (
+  syllabus: { name: string; description?: string; starts_at_week_zero?: boolean },
+  missions: EditorSyllabusMission[]
+): SyllabusFile => ({
+  format: SYLLABUS_FILE_FORMAT,
+  formatVersion: SYLLABUS_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  syllabus: {
+    name: syllabus.name,
+    description: syllabus.description || undefined,
+    startsAtWeekZero: !!syllabus.starts_at_week_zero,
+    missions: missions.map((mission, index) => {
+      const missionNumber = mission.mission_number ?? index + 1;
+      return {
+        missionNumber,
+        name: mission.mission_name,
+        description: mission.description || undefined,
+        weekNumber: mission.week_number,
+        referenceMaterials: mission.reference_materials || [],
+        objectives: [...mission.objectives]
+          .sort((a, b) => a.display_order - b.display_order)
+          .map((objective, objectiveIndex) => ({
+            code: objectiveCode(missionNumber, objectiveIndex),
+            description: objective.objective_text,
+            category: objective.scope_level
+          }))
+      };
+    })
+  }
+});
+
+/** One row per objective, for editing objectives in a spreadsheet */
+export const syllabusObjectivesToCsv = (file: SyllabusFile): string => {
+  const rows = file.syllabus.missions.flatMap(mission =>
+    mission.objectives.map(objective => [
+      mission.missionNumber,
+      mission.name,
+      objective.code,
+      objective.category || '',
+      objective.description
+    ])
+  );
+  return XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet([CSV_HEADERS, ...rows]));
+};
+
+const validateFile = (file: SyllabusFile, errors: string[], warnings: string[]) => {
+  const missionNumbers = new Set<number>();
+  const codes = new Set<string>();
+
+  file.syllabus.missions.forEach((mission, index) => {
+    const label = `Mission ${mission.missionNumber || index + 1}`;
+    if (!Number.isInteger(mission.missionNumber) || mission.missionNumber < 0) {
+      errors.push(`Mission ${index + 1} has no valid mission number`);
+    } else if (missionNumbers.has(mission.missionNumber)) {
+      errors.push(`${label} appears more than once`);
+    }
+    missionNumbers.add(mission.missionNumber);
+
+    if (!mission.name?.trim()) {
+      errors.push(`${label} has no name`);
+    }
+
+    mission.objectives.forEach(objective => {
+      if (!objective.description?.trim()) {
+        errors.push(`${label} has an objective without a description (${objective.code || 'no code'})`);
+      }
+      if (!objective.code?.trim()) {
+        errors.push(`${label} has an objective without a code`);
+      } else if (codes.has(objective.code)) {
+        errors.push(`Objective code ${objective.code} is used more than once`);
+      }
+      codes.add(objective.code);
+
+      if (objective.category && !OBJECTIVE_CATEGORIES.includes(objective.category)) {
+        warnings.push(`Objective ${objective.code} has unknown category "${objective.category}"; it will be imported as Individual`);
+      }
+    });
+
+    (mission.referenceMaterials || []).forEach(material => {
+      if (!material?.url) {
+        warnings.push(`${label} has a reference material without a URL; it will be skipped`);
+      }
+    });
+  });
+};
+
+// A syllabus export as read from disk; nothing in it is trusted until checked
+interface RawSyllabusFile {
+  format?: unknown;
+  formatVersion?: unknown;
+  exportedAt?: unknown;
+  syllabus?: { name?: unknown; description?: unknown; startsAtWeekZero?: unknown; missions?: unknown } | null;
+}
+
+interface RawSyllabusMission {
+  missionNumber?: unknown;
+  name?: unknown;
+  description?: unknown;
+  weekNumber?: unknown;
+  referenceMaterials?: unknown;
+  objectives?: unknown;
+}
+
+interface RawSyllabusObjective {
+  code?: unknown;
+  description?: unknown;
+  category?: unknown;
+}
+
+/** Read and validate a syllabus JSON export */
+export const parseSyllabusJson = (text: string): ParsedSyllabusFile => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let raw: RawSyllabusFile | null;
+  try {
+    raw = JSON.parse(text.replace(/^\uFEFF/, '')) as RawSyllabusFile | null;
+  } catch {
+    return { file: null, source: 'json', errors: ['The file is not valid JSON'], warnings };
+  }
+
+  if (raw?.format !== SYLLABUS_FILE_FORMAT) {
+    return { file: null, source: 'json', errors: ['The file is not a syllabus export'], warnings };
+  }
+  if (typeof raw.formatVersion !== 'number' || raw.formatVersion > SYLLABUS_FILE_VERSION) {
+    return { file: null, source: 'json', errors: ['The file was exported by a newer version and cannot be read'], warnings };
+  }
+  if (!raw.syllabus || !Array.isArray(raw.syllabus.missions)) {
+    return { file: null, source: 'json', errors: ['The file has no missions'], warnings };
+  }
+
+  const file: SyllabusFile = {
+    format: SYLLABUS_FILE_FORMAT,
+    formatVersion: raw.formatVersion,
+    exportedAt: String(raw.exportedAt || ''),
+    syllabus: {
+      name: String(raw.syllabus.name || '').trim(),
+      description: raw.syllabus.description ? String(raw.syllabus.description) : undefined,
+      startsAtWeekZero: !!raw.syllabus.startsAtWeekZero,
+      missions: (raw.syllabus.missions as Array<RawSyllabusMission | null>).map(mission => ({
+        missionNumber: Number(mission?.missionNumber),
+        name: String(mission?.name || '').trim(),
+        description: mission?.description ? String(mission.description) : undefined,
+        weekNumber: typeof mission?.weekNumber === 'number' && Number.isInteger(mission.weekNumber) ? mission.weekNumber : undefined,
+        referenceMaterials: Array.isArray(mission?.referenceMaterials) ? mission.referenceMaterials as ReferenceMaterial[] : [],
+        objectives: (Array.isArray(mission?.objectives) ? mission.objectives as Array<RawSyllabusObjective | null> : []).map(objective => ({
+          code: String(objective?.code || '').trim(),
+          description: String(objective?.description || '').trim(),
+          category: objective?.category ? String(objective.category) : undefined
+        }))
+      }))
+    }
+  };
+
+  if (!file.syllabus.name) {
+    warnings.push('The syllabus has no name');
+  }
+  validateFile(file, errors, warnings);
+  return { file, source: 'json', errors, warnings };
+};
+
+/**
+ * Read an objectives CSV (see syllabusObjectivesToCsv). Only objectives are
+ * carried, so the result has missions without descriptions or materials.
+ */
+export const parseSyllabusObjectivesCsv = (text: string): ParsedSyllabusFile => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const sheet = XLSX.read(text.replace(/^\uFEFF/, ''), { type: 'string', raw: true }).Sheets;
+  const firstSheet = sheet[Object.keys(sheet)[0]];
+  const rows = firstSheet ? XLSX.utils.sheet_to_json<string[]>(firstSheet, { header: 1, raw: false, defval: '' }) : [];
+
+  const header = (rows[0] || []).map(cell => String(cell).trim().toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+  const missing = CSV_HEADERS.filter(name => name !== 'category' && column(name) < 0);
+  if (missing.length > 0) {
+    return { file: null, source: 'csv', errors: [`Missing column${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}`], warnings };
+  }
+
+  const missions = new Map<number, SyllabusFileMission>();
+  rows.slice(1).forEach((row, index) => {
+    const cell = (name: string) => (column(name) >= 0 ? String(row[column(name)] ?? '').trim() : '');
+    if (row.every(value => !String(value).trim())) return;
+
+    const missionNumber = Number(cell('mission_number'));
+    if (!Number.isInteger(missionNumber) || missionNumber < 0) {
+      errors.push(`Row ${index + 2}: "${cell('mission_number')}" is not a mission number`);
+      return;
+    }
+
+    const mission = missions.get(missionNumber) || {
+      missionNumber,
+      name: cell('mission_name'),
+      referenceMaterials: [],
+      objectives: []
+    };
+    if (cell('mission_name') && mission.name && cell('mission_name') !== mission.name) {
+      warnings.push(`Row ${index + 2}: mission ${missionNumber} is named both "${mission.name}" and "${cell('mission_name')}"`);
+    }
+    mission.objectives.push({
+      code: cell('code') || objectiveCode(missionNumber, mission.objectives.length),
+      description: cell('description'),
+      category: cell('category') || undefined
+    });
+    missions.set(missionNumber, mission);
+  });
+
+  const file: SyllabusFile = {
+    format: SYLLABUS_FILE_FORMAT,
+    formatVersion: SYLLABUS_FILE_VERSION,
+    exportedAt: '',
+    syllabus: {
+      name: '',
+      startsAtWeekZero: false,
+      missions: [...missions.values()].sort((a, b) => a.missionNumber - b.missionNumber)
+    }
+  };
+
+  validateFile(file, errors, warnings);
+  return { file, source: 'csv', errors, warnings };
+};
+
+/**
+ * What importing a file into the syllabus being edited would do. Missions are
+ * matched on mission number: unknown ones are created, known ones get the
+ * objectives they don't have yet. An incoming objective whose code is already
+ * taken by a different objective is a collision and is left out.
+ */
+export const planSyllabusImport = (file: SyllabusFile, existing: EditorSyllabusMission[]): SyllabusImportPlan => {
+  const plan: SyllabusImportPlan = { missionsToCreate: [], missionsToExtend: [], objectivesToCreate: 0, unchanged: 0, collisions: [] };
+
+  file.syllabus.missions.forEach(incoming => {
+    const current = existing.find(mission => mission.mission_number === incoming.missionNumber);
+    if (!current) {
+      plan.missionsToCreate.push(incoming);
+      plan.objectivesToCreate += incoming.objectives.length;
+      return;
+    }
+
+    const existingByCode = new Map(
+      [...current.objectives]
+        .sort((a, b) => a.display_order - b.display_order)
+        .map((objective, index) => [objectiveCode(incoming.missionNumber, index), objective.objective_text.trim()])
+    );
+    const existingTexts = new Set(existingByCode.values());
+    const additions: SyllabusFileObjective[] = [];
+
+    incoming.objectives.forEach(objective => {
+      const taken = existingByCode.get(objective.code);
+      if (existingTexts.has(objective.description)) {
+        plan.unchanged++;
+      } else if (taken !== undefined) {
+        plan.collisions.push({ code: objective.code, existing: taken, incoming: objective.description });
+      } else {
+        additions.push(objective);
+      }
+    });
+
+    if (additions.length > 0) {
+      plan.missionsToExtend.push({ missionNumber: incoming.missionNumber, name: current.mission_name, objectives: additions });
+      plan.objectivesToCreate += additions.length;
+    }
+  });
+
+  return plan;
+};
+
+const toEditorObjective = (objective: SyllabusFileObjective, displayOrder: number): EditorSyllabusObjective => ({
+  scope_level: objective.category && OBJECTIVE_CATEGORIES.includes(objective.category) ? objective.category : 'Individual',
+  objective_text: objective.description,
+  display_order: displayOrder
+});
+
+/** Apply an import plan to the editor's missions; nothing is saved until the syllabus is */
+export const applySyllabusImport = <T extends EditorSyllabusMission>(
+  plan: SyllabusImportPlan,
+  existing: T[]
+): EditorSyllabusMission[] => {
+  const missions: EditorSyllabusMission[] = existing.map(mission => {
+    const extension = plan.missionsToExtend.find(m => m.missionNumber === mission.mission_number);
+    if (!extension) return mission;
+    return {
+      ...mission,
+      objectives: [
+        ...mission.objectives,
+        ...extension.objectives.map((objective, index) => toEditorObjective(objective, mission.objectives.length + index))
+      ]
+    };
+  });
+
+  plan.missionsToCreate.forEach(incoming => {
+    missions.push({
+      mission_number: incoming.missionNumber,
+      mission_name: incoming.name || `Mission ${incoming.missionNumber}`,
+      description: incoming.description || '',
+      week_number: incoming.weekNumber ?? missions.length,
+      reference_materials: incoming.referenceMaterials.filter(material => material?.url),
+      objectives: incoming.objectives.map(toEditorObjective)
+    });
+  });
+
+  return missions;
+};
@@ -0,0 +1,131 @@
+import type { PTRCellData, ProgressionRisk, StudentProgressForecast, ForecastEvent } from '../types/TrainingTypes';
+
+// Makeups a student can realistically fit in before the cycle ends
+export const MAX_MAKEUP_MISSIONS = 2;
+// Below this share of held events attended, a student is falling behind
+export const AT_RISK_ATTENDANCE_RATE = 0.75;
+export const UNLIKELY_ATTENDANCE_RATE = 0.5;
+// Attendance isn't judged until this many events have been held
+export const MIN_EVENTS_FOR_ATTENDANCE = 2;
+// UNSATs on the same mission before it is flagged
+export const REPEATED_UNSAT_LIMIT = 2;
+
+export interface ForecastWeek {
+  weekNumber: number;
+  missionNumber: number | null;
+  syllabusMissionId: string;
+  missionName?: string;
+  eventId?: string;
+  eventName?: string;
+  eventDate?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** When a mission is flown: its event if scheduled, otherwise its syllabus week */
+const missionDate = (week: ForecastWeek, cycleStartDate: Date): Date =>
+  week.eventDate ? new Date(week.eventDate) : new Date(cycleStartDate.getTime() + week.weekNumber * 7 * DAY_MS);
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+/**
+ * Forecast whether a student will complete the syllabus this cycle from their
+ * PTR cells. A mission whose date has passed without a SAT needs a makeup,
+ * unless the student flew it and the grade just hasn't been entered yet.
+ */
+export const forecastStudentProgress = (
+  studentId: string,
+  weeks: ForecastWeek[],
+  cells: Map<number, PTRCellData>,
+  unsatAttemptsByMission: Map<string, number>,
+  cycleStartDate: Date,
+  now: Date = new Date()
+): StudentProgressForecast => {
+  let missionsComplete = 0;
+  let missionsNeedingRepeat = 0;
+  let missedMissions = 0;
+  let eventsHeld = 0;
+  let eventsAttended = 0;
+  let upcomingEvents = 0;
+  let unsatAttempts = 0;
+  const repeatedUnsats: string[] = [];
+  const mustAttend: ForecastEvent[] = [];
+
+  weeks.forEach(week => {
+    const cell = cells.get(week.weekNumber);
+    const complete = cell?.hasGrade && cell.latestGrade === 'SAT';
+    const awaitingGrade = cell?.wasPresent && !cell.hasGrade;
+    const isPast = missionDate(week, cycleStartDate) < now;
+    const unsats = unsatAttemptsByMission.get(week.syllabusMissionId) || 0;
+
+    unsatAttempts += unsats;
+    if (unsats >= REPEATED_UNSAT_LIMIT) {
+      repeatedUnsats.push(week.missionNumber !== null ? `H${String(week.missionNumber).padStart(2, '0')}` : week.missionName || `week ${week.weekNumber}`);
+    }
+    if (complete) missionsComplete++;
+    if (cell?.hasGrade && cell.latestGrade === 'UNSAT') missionsNeedingRepeat++;
+    if (isPast && !complete && !awaitingGrade) missedMissions++;
+
+    if (week.eventId && week.eventDate) {
+      if (isPast) {
+        eventsHeld++;
+        if (cell?.wasPresent) eventsAttended++;
+      } else {
+        upcomingEvents++;
+        if (!complete) {
+          mustAttend.push({
+            eventId: week.eventId,
+            eventName: week.eventName || week.missionName || 'Training event',
+            eventDate: week.eventDate,
+            missionNumber: week.missionNumber,
+            missionName: week.missionName
+          });
+        }
+      }
+    }
+  });
+
+  const attendanceRate = eventsHeld > 0 ? eventsAttended / eventsHeld : null;
+
+  const reasons: string[] = [];
+  let risk: ProgressionRisk = 'on_track';
+  const raise = (level: ProgressionRisk, reason: string) => {
+    reasons.push(reason);
+    if (level === 'unlikely' || risk === 'on_track') risk = level;
+  };
+
+  if (missedMissions > MAX_MAKEUP_MISSIONS) {
+    raise('unlikely', `${missedMissions} missions behind; more makeups than fit in the cycle`);
+  } else if (missedMissions > 0) {
+    raise('at_risk', `${missedMissions} mission${missedMissions === 1 ? '' : 's'} behind; needs makeup${missedMissions === 1 ? '' : 's'}`);
+  }
+  if (attendanceRate !== null && eventsHeld >= MIN_EVENTS_FOR_ATTENDANCE) {
+    if (attendanceRate < UNLIKELY_ATTENDANCE_RATE) {
+      raise('unlikely', `Attended ${percent(attendanceRate)} of events held`);
+    } else if (attendanceRate < AT_RISK_ATTENDANCE_RATE) {
+      raise('at_risk', `Attended ${percent(attendanceRate)} of events held`);
+    }
+  }
+  if (repeatedUnsats.length > 0) {
+    raise('at_risk', `Repeated UNSAT on ${repeatedUnsats.join(', ')}`);
+  }
+
+  mustAttend.sort((a, b) => a.eventDate.localeCompare(b.eventDate));
+
+  return {
+    studentId,
+    risk,
+    missionsTotal: weeks.length,
+    missionsComplete,
+    missionsRemaining: weeks.length - missionsComplete,
+    unsatAttempts,
+    missionsNeedingRepeat,
+    missedMissions,
+    eventsHeld,
+    eventsAttended,
+    attendanceRate,
+    upcomingEvents,
+    mustAttend,
+    reasons
+  };
+};
@@ -0,0 +1,30 @@
+/**
+ * Web Worker that parses .miz Lua files off the main thread, so large
+ * (Syria / Persian Gulf) missions don't freeze the UI while importing.
+ */
+import { parseMizContents, type LuaParseOptions, type MizFileContents, type ParsedMizData } from '../utils/luaTableParser';
+
+export interface MizParserRequest {
+  id: number;
+  files: MizFileContents;
+  options?: LuaParseOptions;
+}
+
+export type MizParserResponse =
+  | { id: number; data: ParsedMizData; error?: undefined }
+  | { id: number; data?: undefined; error: string };
+
+const ctx = self as unknown as Worker;
+
+ctx.addEventListener('message', (event: MessageEvent<MizParserRequest>) => {
+  const { id, files, options } = event.data;
+  try {
+    const data = parseMizContents(files, options);
+    ctx.postMessage({ id, data } satisfies MizParserResponse);
+  } catch (error) {
+    ctx.postMessage({
+      id,
+      error: error instanceof Error ? error.message : String(error)
+    } satisfies MizParserResponse);
+  }
+});
@@ -0,0 +1,66 @@
+-- Shared Mission Coordination board, one row per mission, so every controller
+-- viewing a mission works the same picture.
+
+create table if not exists public.mission_coordination_boards (
+  mission_id uuid primary key references public.missions(id) on delete cascade,
+  flights jsonb not null default '[]'::jsonb,
+  sections jsonb not null default '[]'::jsonb,
+  version integer not null default 1,
+  updated_by uuid references auth.users(id) on delete set null,
+  updated_at timestamptz not null default now(),
+  last_modified_session text,
+  created_at timestamptz not null default now()
+);
+
+-- Bump the version on every write. Clients save against the version they
+-- loaded and merge with the stored board when someone else saved first.
+create or replace function public.bump_mission_coordination_board_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.version := coalesce(old.version, 0) + 1;
+  return new;
+end;
+$$;
+
+drop trigger if exists mission_coordination_boards_bump_version on public.mission_coordination_boards;
+create trigger mission_coordination_boards_bump_version
+  before update on public.mission_coordination_boards
+  for each row execute function public.bump_mission_coordination_board_version();
+
+alter table public.mission_coordination_boards enable row level security;
+
+drop policy if exists "Authenticated users can read coordination boards" on public.mission_coordination_boards;
+create policy "Authenticated users can read coordination boards"
+  on public.mission_coordination_boards for select
+  to authenticated
+  using (true);
+
+-- Only users with access to the Mission Coordination (flights) page, going by
+-- the permission cache the app keeps for each user, can change a board
+drop policy if exists "Flight controllers can write coordination boards" on public.mission_coordination_boards;
+create policy "Flight controllers can write coordination boards"
+  on public.mission_coordination_boards for all
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.user_permission_cache c
+      join public.user_profiles up on up.id = c.user_id
+      where up.auth_user_id = auth.uid()
+        and coalesce((c.permissions->>'canAccessFlights')::boolean, false)
+    )
+  )
+  with check (
+    exists (
+      select 1
+      from public.user_permission_cache c
+      join public.user_profiles up on up.id = c.user_id
+      where up.auth_user_id = auth.uid()
+        and coalesce((c.permissions->>'canAccessFlights')::boolean, false)
+    )
+  );
+
+-- The board syncs between controllers through postgres_changes
+alter publication supabase_realtime add table public.mission_coordination_boards;
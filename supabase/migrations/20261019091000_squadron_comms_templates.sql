@@ -0,0 +1,33 @@
+-- Reusable per-squadron comms plans, applied from the mission prep
+-- Communications card. One template per squadron can be the default.
+
+create table if not exists public.squadron_comms_templates (
+  id uuid primary key default gen_random_uuid(),
+  squadron_id uuid not null references public.org_squadrons(id) on delete cascade,
+  name text not null,
+  entries jsonb not null default '[]'::jsonb,
+  is_default boolean not null default false,
+  updated_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint squadron_comms_templates_squadron_name_key unique (squadron_id, name)
+);
+
+create unique index if not exists squadron_comms_templates_one_default_idx
+  on public.squadron_comms_templates (squadron_id)
+  where is_default;
+
+alter table public.squadron_comms_templates enable row level security;
+
+drop policy if exists "Authenticated users can read comms templates" on public.squadron_comms_templates;
+create policy "Authenticated users can read comms templates"
+  on public.squadron_comms_templates for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Authenticated users can write comms templates" on public.squadron_comms_templates;
+create policy "Authenticated users can write comms templates"
+  on public.squadron_comms_templates for all
+  to authenticated
+  using (true)
+  with check (true);
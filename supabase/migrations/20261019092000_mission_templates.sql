@@ -0,0 +1,37 @@
+-- Reusable mission layouts (flights, comms plan, support role slots, settings
+-- and step time) saved from an existing mission. Template names are unique
+-- per squadron, so saving under an existing name overwrites that template.
+
+create table if not exists public.mission_templates (
+  id uuid primary key default gen_random_uuid(),
+  squadron_id uuid not null references public.org_squadrons(id) on delete cascade,
+  name text not null,
+  description text,
+  source_mission_id uuid references public.missions(id) on delete set null,
+  selected_squadrons jsonb not null default '[]'::jsonb,
+  flight_import_filter text not null default 'all',
+  flights jsonb not null default '[]'::jsonb,
+  support_role_assignments jsonb not null default '[]'::jsonb,
+  mission_settings jsonb not null default '{}'::jsonb,
+  miz_file_data jsonb not null default '{}'::jsonb,
+  step_offset_minutes integer,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint mission_templates_squadron_name_key unique (squadron_id, name)
+);
+
+alter table public.mission_templates enable row level security;
+
+drop policy if exists "Authenticated users can read mission templates" on public.mission_templates;
+create policy "Authenticated users can read mission templates"
+  on public.mission_templates for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Authenticated users can write mission templates" on public.mission_templates;
+create policy "Authenticated users can write mission templates"
+  on public.mission_templates for all
+  to authenticated
+  using (true)
+  with check (true);
@@ -0,0 +1,34 @@
+-- Snapshots of a mission's flights and assignments as saved, for the mission
+-- prep history panel. Rapid autosaves by one planner are folded into a single
+-- row and only the newest versions of each mission are kept (see
+-- missionVersionService).
+
+create table if not exists public.mission_versions (
+  id uuid primary key default gen_random_uuid(),
+  mission_id uuid not null references public.missions(id) on delete cascade,
+  version integer not null,
+  flights jsonb not null default '[]'::jsonb,
+  pilot_assignments jsonb not null default '{}'::jsonb,
+  support_role_assignments jsonb not null default '[]'::jsonb,
+  changed_fields text[] not null default '{}',
+  changed_by uuid references public.user_profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists mission_versions_mission_version_idx
+  on public.mission_versions (mission_id, version desc);
+
+alter table public.mission_versions enable row level security;
+
+drop policy if exists "Authenticated users can read mission versions" on public.mission_versions;
+create policy "Authenticated users can read mission versions"
+  on public.mission_versions for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Authenticated users can write mission versions" on public.mission_versions;
+create policy "Authenticated users can write mission versions"
+  on public.mission_versions for all
+  to authenticated
+  using (true)
+  with check (true);
@@ -0,0 +1,5 @@
+-- When the Tacview recording attached to a mission debrief was uploaded,
+-- alongside tacview_file_url and tacview_uploaded_by.
+
+alter table public.mission_debriefings
+  add column if not exists tacview_uploaded_at timestamptz;
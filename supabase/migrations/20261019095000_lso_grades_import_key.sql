@@ -0,0 +1,10 @@
+-- import_key identifies a carrier pass imported from a trap log (a hash of
+-- the log line it was read from plus how many identical lines came before
+-- it), so loading the same log twice doesn't store its passes twice. Passes
+-- graded by hand have no key.
+
+alter table public.lso_grades
+  add column if not exists import_key text;
+
+create unique index if not exists lso_grades_mission_import_key_idx
+  on public.lso_grades (mission_id, import_key);
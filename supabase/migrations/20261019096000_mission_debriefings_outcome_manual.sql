@@ -0,0 +1,6 @@
+-- Whether the mission outcome on a debrief was picked by hand. Objective
+-- assessment only sets the outcome while this is false, so a manual call is
+-- never overwritten by the kills recorded in later AARs.
+
+alter table public.mission_debriefings
+  add column if not exists mission_outcome_manual boolean not null default false;
@@ -0,0 +1,250 @@
+-- Graduating a student touches the enrollment, the pilot's callsign, standing,
+-- squadron and qualifications, and the audit record. Both graduating and
+-- undoing happen in one function each, so a failure part way through rolls
+-- the whole thing back instead of leaving the student half-graduated.
+
+-- What a graduation replaced, for undoing it (see GraduationPriorState)
+alter table public.graduation_records
+  add column if not exists prior_state jsonb;
+
+create or replace function public.graduate_student(
+  p_enrollment_id uuid,
+  p_cycle_id uuid,
+  p_syllabus_id uuid,
+  p_student_pilot_id uuid,
+  p_graduated_by uuid,
+  p_graduated_at timestamptz,
+  p_outcomes jsonb
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_enrollment record;
+  v_prior jsonb;
+  v_outcome jsonb;
+  v_value text;
+  v_effective_date date;
+  v_previous_callsign text;
+  v_closed_ids uuid[];
+  v_inserted_id uuid;
+  v_qualification jsonb;
+  v_qualification_id uuid;
+  v_qualification_ids uuid[] := '{}';
+  v_record_id uuid;
+begin
+  select status, status_changed_at, status_changed_by
+    into v_enrollment
+    from public.training_enrollments
+   where id = p_enrollment_id
+     for update;
+
+  if not found then
+    raise exception 'Enrollment % not found', p_enrollment_id;
+  end if;
+
+  v_prior := jsonb_build_object('enrollment', jsonb_build_object(
+    'status', v_enrollment.status,
+    'statusChangedAt', v_enrollment.status_changed_at,
+    'statusChangedBy', v_enrollment.status_changed_by
+  ));
+
+  update public.training_enrollments
+     set status = 'graduated',
+         status_changed_at = now(),
+         status_changed_by = p_graduated_by
+   where id = p_enrollment_id;
+
+  for v_outcome in select * from jsonb_array_elements(coalesce(p_outcomes, '[]'::jsonb)) loop
+    v_effective_date := (v_outcome->>'effectiveDate')::date;
+
+    if v_outcome->>'type' = 'qualifications' then
+      if jsonb_typeof(v_outcome->'value') <> 'array' then
+        continue;
+      end if;
+
+      -- Entries are { id, effectiveDate }, or bare ids on older submissions
+      for v_qualification in select * from jsonb_array_elements(v_outcome->'value') loop
+        if jsonb_typeof(v_qualification) = 'string' then
+          v_qualification_id := (v_qualification #>> '{}')::uuid;
+        else
+          v_qualification_id := (v_qualification->>'id')::uuid;
+        end if;
+
+        continue when exists (
+          select 1 from public.pilot_qualifications
+           where pilot_id = p_student_pilot_id
+             and qualification_id = v_qualification_id
+             and is_current
+        );
+
+        insert into public.pilot_qualifications (pilot_id, qualification_id, achieved_date, is_current)
+        values (
+          p_student_pilot_id,
+          v_qualification_id,
+          coalesce((v_qualification->>'effectiveDate')::date, v_effective_date),
+          true
+        )
+        returning id into v_inserted_id;
+
+        v_qualification_ids := v_qualification_ids || v_inserted_id;
+      end loop;
+      continue;
+    end if;
+
+    v_value := btrim(coalesce(v_outcome->>'value', ''));
+    continue when v_value = '';
+
+    if v_outcome->>'type' = 'callsign' then
+      select callsign into v_previous_callsign from public.pilots where id = p_student_pilot_id for update;
+      update public.pilots set callsign = v_value where id = p_student_pilot_id;
+      v_prior := v_prior || jsonb_build_object('callsign', jsonb_build_object(
+        'previous', v_previous_callsign,
+        'applied', v_value
+      ));
+
+    elsif v_outcome->>'type' = 'standing' then
+      with closed as (
+        update public.pilot_standings
+           set end_date = v_effective_date
+         where pilot_id = p_student_pilot_id and end_date is null
+        returning id
+      )
+      select coalesce(array_agg(id), '{}') into v_closed_ids from closed;
+
+      insert into public.pilot_standings (pilot_id, standing_id, start_date)
+      values (p_student_pilot_id, v_value::uuid, v_effective_date)
+      returning id into v_inserted_id;
+
+      v_prior := v_prior || jsonb_build_object('standing', jsonb_build_object(
+        'closedIds', to_jsonb(v_closed_ids),
+        'insertedId', v_inserted_id
+      ));
+
+    elsif v_outcome->>'type' = 'squadron_assignment' then
+      with closed as (
+        update public.pilot_assignments
+           set end_date = v_effective_date
+         where pilot_id = p_student_pilot_id and end_date is null
+        returning id
+      )
+      select coalesce(array_agg(id), '{}') into v_closed_ids from closed;
+
+      insert into public.pilot_assignments (pilot_id, squadron_id, start_date)
+      values (p_student_pilot_id, v_value::uuid, v_effective_date)
+      returning id into v_inserted_id;
+
+      v_prior := v_prior || jsonb_build_object('squadronAssignment', jsonb_build_object(
+        'closedIds', to_jsonb(v_closed_ids),
+        'insertedId', v_inserted_id
+      ));
+    end if;
+  end loop;
+
+  if cardinality(v_qualification_ids) > 0 then
+    v_prior := v_prior || jsonb_build_object('qualificationIds', to_jsonb(v_qualification_ids));
+  end if;
+
+  insert into public.graduation_records (
+    enrollment_id, cycle_id, syllabus_id, student_pilot_id,
+    graduated_by, graduated_at, outcomes_applied, prior_state
+  )
+  values (
+    p_enrollment_id, p_cycle_id, p_syllabus_id, p_student_pilot_id,
+    p_graduated_by, coalesce(p_graduated_at, now()), coalesce(p_outcomes, '[]'::jsonb), v_prior
+  )
+  returning id into v_record_id;
+
+  return v_record_id;
+end;
+$$;
+
+-- Reverse the student's latest graduation in the cycle from its prior state.
+-- Refuses when the pilot has been changed since, rather than overwriting the
+-- newer change.
+create or replace function public.undo_graduation(
+  p_student_pilot_id uuid,
+  p_cycle_id uuid
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_record record;
+  v_prior jsonb;
+  v_conflicts text[] := '{}';
+  v_table text;
+  v_change jsonb;
+begin
+  select id, enrollment_id, prior_state
+    into v_record
+    from public.graduation_records
+   where student_pilot_id = p_student_pilot_id
+     and cycle_id = p_cycle_id
+   order by graduated_at desc
+   limit 1
+     for update;
+
+  if not found then
+    raise exception 'No graduation record found for this student';
+  end if;
+
+  v_prior := v_record.prior_state;
+  if v_prior is null then
+    raise exception 'This graduation was recorded before it could be undone; revert its changes by hand';
+  end if;
+
+  -- Make sure nothing graduation set has been replaced since
+  if v_prior ? 'callsign' and not exists (
+    select 1 from public.pilots
+     where id = p_student_pilot_id and callsign = v_prior->'callsign'->>'applied'
+  ) then
+    v_conflicts := array_append(v_conflicts, 'callsign');
+  end if;
+  if v_prior ? 'standing' and not exists (
+    select 1 from public.pilot_standings
+     where id = (v_prior->'standing'->>'insertedId')::uuid and end_date is null
+  ) then
+    v_conflicts := array_append(v_conflicts, 'standing');
+  end if;
+  if v_prior ? 'squadronAssignment' and not exists (
+    select 1 from public.pilot_assignments
+     where id = (v_prior->'squadronAssignment'->>'insertedId')::uuid and end_date is null
+  ) then
+    v_conflicts := array_append(v_conflicts, 'squadron assignment');
+  end if;
+
+  if cardinality(v_conflicts) > 0 then
+    raise exception 'The % changed after graduation; update the pilot by hand instead', array_to_string(v_conflicts, ', ');
+  end if;
+
+  if v_prior ? 'qualificationIds' then
+    delete from public.pilot_qualifications
+     where id in (select jsonb_array_elements_text(v_prior->'qualificationIds')::uuid);
+  end if;
+
+  foreach v_table in array array['pilot_assignments', 'pilot_standings'] loop
+    v_change := v_prior->(case v_table when 'pilot_assignments' then 'squadronAssignment' else 'standing' end);
+    continue when v_change is null;
+
+    execute format('delete from public.%I where id = $1', v_table)
+      using (v_change->>'insertedId')::uuid;
+    execute format('update public.%I set end_date = null where id in (select jsonb_array_elements_text($1)::uuid)', v_table)
+      using v_change->'closedIds';
+  end loop;
+
+  if v_prior ? 'callsign' then
+    update public.pilots
+       set callsign = v_prior->'callsign'->>'previous'
+     where id = p_student_pilot_id;
+  end if;
+
+  update public.training_enrollments
+     set status = v_prior->'enrollment'->>'status',
+         status_changed_at = (v_prior->'enrollment'->>'statusChangedAt')::timestamptz,
+         status_changed_by = (v_prior->'enrollment'->>'statusChangedBy')::uuid
+   where id = v_record.enrollment_id;
+
+  delete from public.graduation_records where id = v_record.id;
+end;
+$$;
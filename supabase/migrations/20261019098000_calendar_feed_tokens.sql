@@ -0,0 +1,29 @@
+-- Secret per-user tokens for subscribing to event calendars (see the storage
+-- worker's /calendar routes). One token per user profile: regenerating
+-- replaces it, which stops every calendar subscribed with the old links.
+
+create table if not exists public.calendar_feed_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_profile_id uuid not null references public.user_profiles(id) on delete cascade,
+  token text not null unique,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists calendar_feed_tokens_user_profile_id_idx
+  on public.calendar_feed_tokens (user_profile_id);
+
+alter table public.calendar_feed_tokens enable row level security;
+
+-- Tokens are secrets, so users only see and change their own
+drop policy if exists "Users can read their own calendar feed token" on public.calendar_feed_tokens;
+create policy "Users can read their own calendar feed token"
+  on public.calendar_feed_tokens for select
+  to authenticated
+  using (user_profile_id in (select id from public.user_profiles where auth_user_id = auth.uid()));
+
+drop policy if exists "Users can write their own calendar feed token" on public.calendar_feed_tokens;
+create policy "Users can write their own calendar feed token"
+  on public.calendar_feed_tokens for all
+  to authenticated
+  using (user_profile_id in (select id from public.user_profiles where auth_user_id = auth.uid()))
+  with check (user_profile_id in (select id from public.user_profiles where auth_user_id = auth.uid()));
@@ -0,0 +1,6 @@
+-- Recurring event series for a cycle (see RecurrenceRule). Events generated
+-- from it carry their series date in event_settings.recurrenceDate, so the
+-- series can be re-synced after the rule is edited.
+
+alter table public.cycles
+  add column if not exists recurrence jsonb;
@@ -0,0 +1,48 @@
+-- Planned absences entered by pilots (see PilotAvailability). Leave covers
+-- every day from start_date to end_date; weekly entries cover the listed
+-- weekdays from start_date on, until end_date if one is set. They mark the
+-- pilot as declined for events they miss and are skipped by reminders and
+-- auto-assign.
+
+create table if not exists public.pilot_availability (
+  id uuid primary key default gen_random_uuid(),
+  pilot_id uuid not null references public.pilots(id) on delete cascade,
+  kind text not null check (kind in ('leave', 'weekly')),
+  start_date date not null,
+  end_date date,
+  weekdays smallint[] not null default '{}',
+  reason text,
+  created_at timestamptz not null default now(),
+  check (end_date is null or end_date >= start_date)
+);
+
+create index if not exists pilot_availability_pilot_id_idx
+  on public.pilot_availability (pilot_id);
+
+alter table public.pilot_availability enable row level security;
+
+-- Squadron staff plan around everyone's absences, so any signed-in user can read them
+drop policy if exists "Authenticated users can read pilot availability" on public.pilot_availability;
+create policy "Authenticated users can read pilot availability"
+  on public.pilot_availability for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Pilots can manage their own availability" on public.pilot_availability;
+create policy "Pilots can manage their own availability"
+  on public.pilot_availability for all
+  to authenticated
+  using (pilot_id in (select pilot_id from public.user_profiles where auth_user_id = auth.uid()))
+  with check (pilot_id in (select pilot_id from public.user_profiles where auth_user_id = auth.uid()));
+
+-- Event attendance reloads planned absences when an entry changes
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+     where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'pilot_availability'
+  ) then
+    alter publication supabase_realtime add table public.pilot_availability;
+  end if;
+end;
+$$;
@@ -0,0 +1,11 @@
+-- Currency rules keep a qualification current through flying, e.g. CQ lapses
+-- after 30 days without a trap (see QualificationCurrencyRule). The bot
+-- writes each lapse date to pilot_qualifications.expiry_date and DMs the
+-- pilot once per lapse date, recorded in currency_reminder_sent_for so a
+-- renewal that moves the date re-arms the reminder.
+
+alter table public.qualifications
+  add column if not exists currency_rule jsonb;
+
+alter table public.pilot_qualifications
+  add column if not exists currency_reminder_sent_for date;
@@ -0,0 +1,258 @@
+// iCalendar feeds of events, for subscribing from a phone or desktop calendar.
+// Feeds are addressed by a secret per-user token (calendar_feed_tokens) rather
+// than a session, since calendar apps can't sign in. Event data is read with
+// the service role key and filtered here.
+
+export interface CalendarEnv {
+  SUPABASE_URL: string;
+  SUPABASE_SERVICE_ROLE_KEY: string;
+}
+
+type FeedScope =
+  | { kind: 'pilot' }
+  | { kind: 'squadron'; id: string }
+  | { kind: 'cycle'; id: string };
+
+interface EventRow {
+  id: string;
+  name: string;
+  description: string | null;
+  start_datetime: string;
+  end_datetime: string | null;
+  status: string | null;
+  cycle_id: string | null;
+  participants: string[] | null;
+  event_settings: { timezone?: string } | null;
+  discord_event_id: Array<{ messageId?: string }> | string | null;
+  updated_at: string | null;
+  created_at: string;
+}
+
+// Feeds cover recent history and the season ahead
+const PAST_DAYS = 30;
+const FUTURE_DAYS = 180;
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const RSVP_LABELS: Record<string, string> = {
+  accepted: 'Accepted',
+  tentative: 'Tentative',
+  declined: 'Declined',
+};
+
+async function query<T>(env: CalendarEnv, path: string): Promise<T> {
+  const response = await fetch(`${env.SUPABASE_URL}/rest/v1/${path}`, {
+    headers: {
+      apikey: env.SUPABASE_SERVICE_ROLE_KEY,
+      Authorization: `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`Supabase query failed (${response.status}): ${await response.text()}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+const inList = (ids: string[]) => `(${ids.map(id => encodeURIComponent(id)).join(',')})`;
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded onto continuation lines (RFC 5545 3.1)
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74; // Continuations start with a space
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+function formatLocal(date: Date, timeZone: string): string {
+  try {
+    return date.toLocaleString('en-US', {
+      timeZone,
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZoneName: 'short',
+    });
+  } catch {
+    return date.toUTCString(); // Unknown timezone name
+  }
+}
+
+function messageIds(event: EventRow): string[] {
+  const ids = [`manual-${event.id}`];
+  if (Array.isArray(event.discord_event_id)) {
+    event.discord_event_id.forEach(item => {
+      if (item?.messageId) ids.push(String(item.messageId));
+    });
+  } else if (typeof event.discord_event_id === 'string') {
+    ids.push(event.discord_event_id);
+  }
+  return ids;
+}
+
+function buildEvent(event: EventRow, rsvp: string | null, dtstamp: string): string[] {
+  const start = new Date(event.start_datetime);
+  const end = event.end_datetime ? new Date(event.end_datetime) : new Date(start.getTime() + DEFAULT_DURATION_MS);
+  const modified = new Date(event.updated_at || event.created_at);
+  const timeZone = event.event_settings?.timezone;
+
+  const description = [
+    timeZone ? `Starts ${formatLocal(start, timeZone)}` : null,
+    rsvp ? `Your RSVP: ${RSVP_LABELS[rsvp] || rsvp}` : 'You have not responded',
+    event.description,
+  ].filter(Boolean).join('\n\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@readyroom`,
+    `DTSTAMP:${dtstamp}`,
+    `LAST-MODIFIED:${formatUtc(modified)}`,
+    // Calendar apps replace their copy when the sequence goes up
+    `SEQUENCE:${Math.floor(modified.getTime() / 1000)}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(rsvp === 'declined' ? `${event.name} (declined)` : event.name)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `STATUS:${event.status === 'cancelled' ? 'CANCELLED' : rsvp === 'tentative' ? 'TENTATIVE' : 'CONFIRMED'}`,
+    `TRANSP:${rsvp === 'declined' ? 'TRANSPARENT' : 'OPAQUE'}`,
+    'END:VEVENT',
+  ];
+}
+
+export function parseFeedPath(path: string): { token: string; scope: FeedScope } | null {
+  // /calendar/<token>/pilot.ics, /calendar/<token>/squadron/<id>.ics, /calendar/<token>/cycle/<id>.ics
+  const match = path.match(/^\/calendar\/([A-Za-z0-9]{32,128})\/(?:(pilot)|(squadron|cycle)\/([^/]+))\.ics$/);
+  if (!match) return null;
+
+  const [, token, pilot, kind, id] = match;
+  if (pilot) return { token, scope: { kind: 'pilot' } };
+  if (!UUID_PATTERN.test(id)) return null;
+  return { token, scope: { kind: kind as 'squadron' | 'cycle', id } };
+}
+
+/**
+ * Build the ICS document for a feed, or null when the token is unknown
+ * (never issued, or replaced since) or the subscriber isn't a member of the
+ * squadron or cycle asked for
+ */
+export async function buildCalendarFeed(env: CalendarEnv, token: string, scope: FeedScope): Promise<string | null> {
+  const tokens = await query<Array<{ user_profile_id: string }>>(
+    env, `calendar_feed_tokens?select=user_profile_id&token=eq.${encodeURIComponent(token)}&limit=1`);
+  if (tokens.length === 0) return null;
+
+  const [profile] = await query<Array<{ pilot_id: string | null; discord_id: string | null }>>(
+    env, `user_profiles?select=pilot_id,discord_id&id=eq.${tokens[0].user_profile_id}&limit=1`);
+  if (!profile) return null;
+
+  const now = Date.now();
+  const from = new Date(now - PAST_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const to = new Date(now + FUTURE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const eventColumns = 'id,name,description,start_datetime,end_datetime,status,cycle_id,participants,event_settings,discord_event_id,updated_at,created_at';
+
+  // Squadron and cycle feeds are only served to their members
+  const squadronIds = profile.pilot_id
+    ? (await query<Array<{ squadron_id: string | null }>>(
+        env, `pilot_assignments?select=squadron_id&pilot_id=eq.${profile.pilot_id}&end_date=is.null`))
+        .map(a => a.squadron_id)
+        .filter((id): id is string => !!id)
+    : [];
+  // Events open to everyone have no participant list
+  const isParticipant = (participants: string[]) =>
+    participants.length === 0 || participants.some(id => squadronIds.includes(id));
+
+  let events: EventRow[];
+  let calendarName: string;
+
+  if (scope.kind === 'cycle') {
+    const [cycle] = await query<Array<{ name: string; participants: string[] | null }>>(
+      env, `cycles?select=name,participants&id=eq.${scope.id}&limit=1`);
+    if (!cycle || !isParticipant(cycle.participants || [])) return null;
+    calendarName = cycle.name;
+    events = (await query<EventRow[]>(env, `events?select=${eventColumns}&cycle_id=eq.${scope.id}&order=start_datetime`))
+      .filter(event => !event.participants?.length || isParticipant(event.participants));
+  } else {
+    let feedSquadronIds: string[];
+    if (scope.kind === 'squadron') {
+      if (!squadronIds.includes(scope.id)) return null;
+      const [squadron] = await query<Array<{ designation: string; name: string }>>(
+        env, `org_squadrons?select=designation,name&id=eq.${scope.id}&limit=1`);
+      if (!squadron) return null;
+      calendarName = `${squadron.designation} ${squadron.name}`;
+      feedSquadronIds = [scope.id];
+    } else {
+      calendarName = 'My Events';
+      feedSquadronIds = squadronIds;
+    }
+
+    const windowEvents = await query<EventRow[]>(
+      env, `events?select=${eventColumns}&start_datetime=gte.${from}&start_datetime=lte.${to}&order=start_datetime`);
+
+    // Events without their own participants inherit their cycle's
+    const cycleIds = [...new Set(windowEvents.filter(e => !e.participants?.length && e.cycle_id).map(e => e.cycle_id as string))];
+    const cycles = cycleIds.length > 0
+      ? await query<Array<{ id: string; participants: string[] | null }>>(env, `cycles?select=id,participants&id=in.${inList(cycleIds)}`)
+      : [];
+    const cycleParticipants = new Map(cycles.map(c => [c.id, c.participants || []]));
+
+    events = windowEvents.filter(event => {
+      const participants = event.participants?.length
+        ? event.participants
+        : (event.cycle_id ? cycleParticipants.get(event.cycle_id) : null) || [];
+      return participants.length === 0 || participants.some(id => feedSquadronIds.includes(id));
+    });
+  }
+
+  // The subscriber's own RSVP on each event
+  const responses = new Map<string, string>();
+  if (profile.discord_id && events.length > 0) {
+    const idToEvent = new Map<string, string>();
+    events.forEach(event => messageIds(event).forEach(id => idToEvent.set(id, event.id)));
+
+    const attendance = await query<Array<{ discord_event_id: string; user_response: string; updated_at: string }>>(
+      env,
+      `discord_event_attendance?select=discord_event_id,user_response,updated_at&discord_id=eq.${encodeURIComponent(profile.discord_id)}` +
+      `&discord_event_id=in.${inList([...idToEvent.keys()])}&order=updated_at`
+    );
+    attendance
+      .filter(row => row.user_response in RSVP_LABELS)
+      .forEach(row => responses.set(idToEvent.get(row.discord_event_id) as string, row.user_response)); // Latest wins
+  }
+
+  const dtstamp = formatUtc(new Date(now));
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ReadyRoom//Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flatMap(event => buildEvent(event, responses.get(event.id) || null, dtstamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -1,15 +1,25 @@
+import { buildCalendarFeed, parseFeedPath } from './calendar';
+
 export interface Env {
   R2_BUCKET: R2Bucket;
   SUPABASE_JWT_SECRET: string;
   ALLOWED_ORIGINS: string;
   R2_PUBLIC_URL: string;
+  // Calendar feeds read events directly; optional so storage works without them
+  SUPABASE_URL?: string;
+  SUPABASE_SERVICE_ROLE_KEY?: string;
 }
 
 const ALLOWED_MIME_TYPES = new Set([
   'image/jpeg', 'image/png', 'image/webp', 'image/gif',
-  'application/pdf' // award certificates
+  'application/pdf', // award certificates
+  'application/zip' // original .miz mission files
 ]);
 
+// Mission files routinely exceed the image limit
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+const MAX_ZIP_FILE_SIZE = 50 * 1024 * 1024;
+
 function corsHeaders(origin: string, env: Env): HeadersInit {
   const allowed = env.ALLOWED_ORIGINS.split(',').map(o => o.trim());
   const allowedOrigin = allowed.includes(origin) ? origin : allowed[0];
@@ -91,6 +101,36 @@ export default {
       });
     }
 
+    // GET /calendar/<token>/... .ics - Subscribable event feeds, authorized by the feed token in the path
+    if (request.method === 'GET' && requestUrl.pathname.startsWith('/calendar/')) {
+      const feed = parseFeedPath(requestUrl.pathname);
+      if (!feed) return new Response('Not found', { status: 404 });
+      if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) {
+        return new Response('Calendar feeds are not configured', { status: 503 });
+      }
+
+      try {
+        const ics = await buildCalendarFeed(
+          { SUPABASE_URL: env.SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY: env.SUPABASE_SERVICE_ROLE_KEY },
+          feed.token,
+          feed.scope
+        );
+        if (!ics) return new Response('Not found', { status: 404 });
+
+        return new Response(ics, {
+          headers: {
+            'Content-Type': 'text/calendar; charset=utf-8',
+            'Content-Disposition': 'inline; filename="readyroom.ics"',
+            // Short and private: the feed is personal and events change
+            'Cache-Control': 'private, max-age=900',
+          },
+        });
+      } catch (err) {
+        console.error('Failed to build calendar feed:', err);
+        return new Response('Failed to build calendar', { status: 502 });
+      }
+    }
+
     // Auth
     const authHeader = request.headers.get('Authorization');
     const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
@@ -108,7 +148,8 @@ export default {
 
       if (!file || !path) return new Response('Missing file or path', { status: 400, headers: cors });
       if (!ALLOWED_MIME_TYPES.has(file.type)) return new Response('Invalid file type', { status: 400, headers: cors });
-      if (file.size > 10 * 1024 * 1024) return new Response('File too large', { status: 413, headers: cors });
+      const maxSize = file.type === 'application/zip' ? MAX_ZIP_FILE_SIZE : MAX_FILE_SIZE;
+      if (file.size > maxSize) return new Response('File too large', { status: 413, headers: cors });
 
       const safePath = sanitizePath(path);
       if (!safePath) return new Response('Invalid path', { status: 400, headers: cors });